@@ -75,6 +75,12 @@ pool.on("connect", () => {
 // ✅ Drizzle instance (USE THIS IN CONTROLLERS)
 export const db = drizzle(pool);
 
+// ✅ Transaction handle, for helpers that must run inside the caller's transaction
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// ✅ Either the pool-backed instance or a transaction handle
+export type DbExecutor = typeof db | DbTransaction;
+
 // ✅ Raw pool for simple queries (e.g. SELECT NOW()) when Drizzle subquery is problematic
 export { pool };
 
@@ -12,6 +12,7 @@ import { clientProductPayments } from "../schemas/clientProductPayments.schema";
 import { clientInformation } from "../schemas/clientInformation.schema";
 import { users } from "../schemas/users.schema";
 import { eq,and } from "drizzle-orm";
+import { resolveScope } from "../utils/clientScope";
 
 /**
  * Get pending all finance approvals
@@ -56,8 +57,9 @@ export const getPendingApprovalsController = async (
 };
 
 /**
- * Approve all finance payment
+ * Approve all finance payment (acts on the payment's approval request)
  * POST /api/all-finance/:financeId/approve
+ * Body: { comment? }
  * Access: admin, manager
  */
 export const approveAllFinanceController = async (
@@ -108,7 +110,8 @@ export const approveAllFinanceController = async (
     try {
       approvedFinance = await approveAllFinancePayment(
         financeId,
-        req.user.id
+        await resolveScope(req),
+        req.body?.comment
       );
     } catch (error: any) {
       console.error("Error in approveAllFinancePayment:", error);
@@ -135,7 +138,7 @@ export const approveAllFinanceController = async (
       .where(
         and(
           eq(clientProductPayments.entityId, financeId),
-          eq(clientProductPayments.productName, "ALL_FINANCE_EMPLOYEMENT")
+          eq(clientProductPayments.entityType, "allFinance_id")
         )
       )
       .limit(1);
@@ -185,9 +188,12 @@ export const approveAllFinanceController = async (
       console.error("Activity log error:", activityError);
     }
 
+    // Multi-level rules keep the payment pending until the last level approves
     return res.status(200).json({
       success: true,
-      message: "Payment approved successfully",
+      message: approvedFinance.approvalRequest.status === "approved"
+        ? "Payment approved successfully"
+        : `Approved, waiting for ${approvedFinance.approvalRequest.pendingRole} approval`,
       data: approvedFinance,
     });
   } catch (error: any) {
@@ -200,8 +206,9 @@ export const approveAllFinanceController = async (
 };
 
 /**
- * Reject all finance payment
+ * Reject all finance payment (acts on the payment's approval request)
  * POST /api/all-finance/:financeId/reject
+ * Body: { comment }
  * Access: admin, manager
  */
 export const rejectAllFinanceController = async (
@@ -252,7 +259,8 @@ export const rejectAllFinanceController = async (
     try {
       rejectedFinance = await rejectAllFinancePayment(
         financeId,
-        req.user.id
+        await resolveScope(req),
+        req.body?.comment
       );
     } catch (error: any) {
       console.error("Error in rejectAllFinancePayment:", error);
@@ -279,7 +287,7 @@ export const rejectAllFinanceController = async (
       .where(
         and(
           eq(clientProductPayments.entityId, financeId),
-          eq(clientProductPayments.productName, "ALL_FINANCE_EMPLOYEMENT")
+          eq(clientProductPayments.entityType, "allFinance_id")
         )
       )
       .limit(1);
@@ -0,0 +1,283 @@
+import { Request, Response } from "express";
+import {
+  createApprovalRule,
+  getApprovalRules,
+  updateApprovalRule,
+  deleteApprovalRule,
+  getApprovalInbox,
+  getApprovalRequestById,
+  getApprovalRequestsForEntity,
+  actOnApprovalRequest,
+  ApprovalDecision,
+  ApprovalEntityType,
+  ApprovalStatus,
+} from "../models/approval.model";
+import { notifyApprovalDecision } from "../services/approval.service";
+import { logActivity } from "../services/activityLog.service";
+import { resolveScope } from "../utils/clientScope";
+
+const parseId = (value: unknown, field: string) => {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`Invalid ${field}`);
+  }
+  return parsed;
+};
+
+/* ==============================
+   RULES
+============================== */
+
+/**
+ * List approval rules
+ * GET /api/approvals/rules
+ * Access: admin
+ */
+export const getApprovalRulesController = async (req: Request, res: Response) => {
+  try {
+    const rules = await getApprovalRules();
+    res.status(200).json({ success: true, count: rules.length, data: rules });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Create approval rule
+ * POST /api/approvals/rules
+ * Access: admin
+ */
+export const createApprovalRuleController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const rule = await createApprovalRule(req.body, req.user.id);
+
+    try {
+      await logActivity(req, {
+        entityType: "approval_rule",
+        entityId: rule.ruleId,
+        action: "CREATE",
+        newValue: rule,
+        description: `Approval rule created: ${rule.name}`,
+        performedBy: req.user.id,
+      });
+    } catch (activityError) {
+      // Don't fail the request if activity log fails
+      console.error("Activity log error in createApprovalRuleController:", activityError);
+    }
+
+    res.status(201).json({ success: true, data: rule });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Update approval rule
+ * PUT /api/approvals/rules/:ruleId
+ * Access: admin
+ */
+export const updateApprovalRuleController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const ruleId = parseId(req.params.ruleId, "ruleId");
+    const { before, after } = await updateApprovalRule(ruleId, req.body);
+
+    try {
+      await logActivity(req, {
+        entityType: "approval_rule",
+        entityId: ruleId,
+        action: "UPDATE",
+        oldValue: before,
+        newValue: after,
+        description: `Approval rule updated: ${after.name}`,
+        performedBy: req.user.id,
+      });
+    } catch (activityError) {
+      // Don't fail the request if activity log fails
+      console.error("Activity log error in updateApprovalRuleController:", activityError);
+    }
+
+    res.status(200).json({ success: true, data: after });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Delete approval rule (open requests keep their copied levels)
+ * DELETE /api/approvals/rules/:ruleId
+ * Access: admin
+ */
+export const deleteApprovalRuleController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const ruleId = parseId(req.params.ruleId, "ruleId");
+    const deleted = await deleteApprovalRule(ruleId);
+
+    try {
+      await logActivity(req, {
+        entityType: "approval_rule",
+        entityId: ruleId,
+        action: "DELETE",
+        oldValue: deleted,
+        description: `Approval rule deleted: ${deleted.name}`,
+        performedBy: req.user.id,
+      });
+    } catch (activityError) {
+      // Don't fail the request if activity log fails
+      console.error("Activity log error in deleteApprovalRuleController:", activityError);
+    }
+
+    res.status(200).json({ success: true, message: "Approval rule deleted successfully" });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/* ==============================
+   REQUESTS
+============================== */
+
+/**
+ * Approval inbox of the logged-in approver
+ * GET /api/approvals/inbox?status=pending|approved|rejected
+ * Access: admin, manager
+ */
+export const getApprovalInboxController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id || !req.user?.role) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const status = req.query.status as string | undefined;
+    const validStatuses: ApprovalStatus[] = ["pending", "approved", "rejected"];
+
+    if (status && !validStatuses.includes(status as ApprovalStatus)) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid status. Must be one of: ${validStatuses.join(", ")}`,
+      });
+    }
+
+    const scope = await resolveScope(req);
+    const requests = await getApprovalInbox(scope, { status: status as ApprovalStatus | undefined });
+
+    res.status(200).json({ success: true, count: requests.length, data: requests });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Approval request with its history
+ * GET /api/approvals/:requestId
+ */
+export const getApprovalRequestController = async (req: Request, res: Response) => {
+  try {
+    const requestId = parseId(req.params.requestId, "requestId");
+    const request = await getApprovalRequestById(requestId);
+
+    if (!request) {
+      return res.status(404).json({ success: false, message: "Approval request not found" });
+    }
+
+    if (req.user?.role === "counsellor" && request.counsellorId !== req.user.id) {
+      return res.status(403).json({ success: false, message: "Access denied" });
+    }
+
+    res.status(200).json({ success: true, data: request });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Approval requests of a payment
+ * GET /api/approvals/entity/:entityType/:entityId
+ */
+export const getEntityApprovalsController = async (req: Request, res: Response) => {
+  try {
+    const entityType = req.params.entityType as ApprovalEntityType;
+    if (!["client_payment", "product_payment"].includes(entityType)) {
+      throw new Error("entityType must be client_payment or product_payment");
+    }
+
+    const entityId = parseId(req.params.entityId, "entityId");
+    let requests = await getApprovalRequestsForEntity(entityType, entityId);
+
+    if (req.user?.role === "counsellor") {
+      requests = requests.filter((request) => request.counsellorId === req.user!.id);
+    }
+
+    res.status(200).json({ success: true, count: requests.length, data: requests });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+const decideApprovalRequest = async (req: Request, res: Response, decision: ApprovalDecision) => {
+  try {
+    if (!req.user?.id || !req.user?.role) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const requestId = parseId(req.params.requestId, "requestId");
+    const scope = await resolveScope(req);
+    const { before, after } = await actOnApprovalRequest(requestId, scope, decision, req.body?.comment);
+
+    try {
+      await logActivity(req, {
+        entityType: "approval_request",
+        entityId: requestId,
+        clientId: after.clientId,
+        action: "STATUS_CHANGE",
+        oldValue: { status: before.status, currentLevel: before.currentLevel },
+        newValue: { status: after.status, currentLevel: after.currentLevel },
+        description: `Approval request ${decision} at level ${before.currentLevel + 1} of ${before.levels.length}`,
+        metadata: {
+          entityType: after.entityType,
+          entityId: after.entityId,
+          comment: req.body?.comment ?? null,
+        },
+        performedBy: req.user.id,
+      });
+    } catch (activityError) {
+      // Don't fail the request if activity log fails
+      console.error("Activity log error in decideApprovalRequest:", activityError);
+    }
+
+    notifyApprovalDecision(after, decision, req.user.id);
+
+    res.status(200).json({ success: true, data: after });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Approve the current level of a request
+ * POST /api/approvals/:requestId/approve
+ * Body: { comment? }
+ * Access: admin, manager
+ */
+export const approveApprovalRequestController = (req: Request, res: Response) =>
+  decideApprovalRequest(req, res, "approved");
+
+/**
+ * Reject a request
+ * POST /api/approvals/:requestId/reject
+ * Body: { comment }
+ * Access: admin, manager
+ */
+export const rejectApprovalRequestController = (req: Request, res: Response) =>
+  decideApprovalRequest(req, res, "rejected");
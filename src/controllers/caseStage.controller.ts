@@ -0,0 +1,233 @@
+import { Request, Response } from "express";
+import {
+  getCaseStages,
+  createCaseStage,
+  updateCaseStage,
+  deleteCaseStage,
+  changeClientCaseStage,
+  getCaseKanban,
+} from "../models/caseStage.model";
+import { getClientInScope } from "../models/client.model";
+import { logActivity } from "../services/activityLog.service";
+import { emitToCounsellor, emitDashboardUpdate } from "../config/socket";
+import { resolveScope } from "../utils/clientScope";
+
+const parseId = (value: unknown, field: string) => {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`Invalid ${field}`);
+  }
+  return parsed;
+};
+
+/**
+ * Pipeline stages in order, with the stages each one can move to
+ * GET /api/case-pipeline/stages?includeInactive=true
+ * Access: admin, manager, counsellor
+ */
+export const getCaseStagesController = async (req: Request, res: Response) => {
+  try {
+    const includeInactive = req.query.includeInactive === "true";
+    const stages = await getCaseStages(includeInactive);
+
+    res.status(200).json({ success: true, count: stages.length, data: stages });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Create a stage
+ * POST /api/case-pipeline/stages
+ * Body: { code, name, sortOrder?, nextStageCodes?, isInitial?, isTerminal?, isActive? }
+ * Access: admin
+ */
+export const createCaseStageController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const stage = await createCaseStage(req.body || {});
+
+    try {
+      await logActivity(req, {
+        entityType: "case_stage",
+        entityId: stage.stageId,
+        action: "CREATE",
+        newValue: stage,
+        description: `Case stage created: ${stage.code} (${stage.name})`,
+        performedBy: req.user.id,
+      });
+    } catch (activityError) {
+      // Don't fail the request if activity log fails
+      console.error("Activity log error in createCaseStageController:", activityError);
+    }
+
+    res.status(201).json({ success: true, data: stage });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Update a stage (the code cannot be changed)
+ * PUT /api/case-pipeline/stages/:stageId
+ * Access: admin
+ */
+export const updateCaseStageController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const stageId = parseId(req.params.stageId, "stageId");
+    const { before, after } = await updateCaseStage(stageId, req.body || {});
+
+    try {
+      await logActivity(req, {
+        entityType: "case_stage",
+        entityId: stageId,
+        action: "UPDATE",
+        oldValue: before,
+        newValue: after,
+        description: `Case stage updated: ${after.code}`,
+        performedBy: req.user.id,
+      });
+    } catch (activityError) {
+      // Don't fail the request if activity log fails
+      console.error("Activity log error in updateCaseStageController:", activityError);
+    }
+
+    res.status(200).json({ success: true, data: after });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Delete a stage that no client is in
+ * DELETE /api/case-pipeline/stages/:stageId
+ * Access: admin
+ */
+export const deleteCaseStageController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const stageId = parseId(req.params.stageId, "stageId");
+    const deleted = await deleteCaseStage(stageId);
+
+    try {
+      await logActivity(req, {
+        entityType: "case_stage",
+        entityId: stageId,
+        action: "DELETE",
+        oldValue: deleted,
+        description: `Case stage deleted: ${deleted.code}`,
+        performedBy: req.user.id,
+      });
+    } catch (activityError) {
+      // Don't fail the request if activity log fails
+      console.error("Activity log error in deleteCaseStageController:", activityError);
+    }
+
+    res.status(200).json({ success: true, message: "Stage deleted successfully" });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Move a client to another stage
+ * PUT /api/case-pipeline/clients/:clientId/stage
+ * Body: { stageId } or { stageCode }, optional { note, force } (force: admin only, skips transition rules)
+ * Access: admin, manager (own team), counsellor (own clients)
+ */
+export const changeClientCaseStageController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const clientId = parseId(req.params.clientId, "clientId");
+    const scope = await resolveScope(req);
+
+    if (!(await getClientInScope(clientId, scope))) {
+      throw new Error("Client not found");
+    }
+
+    const { stageId, stageCode, note, force } = req.body || {};
+    if (!stageId && !stageCode) {
+      throw new Error("stageId or stageCode is required");
+    }
+
+    const change = await changeClientCaseStage(
+      clientId,
+      {
+        stageId: stageId ? parseId(stageId, "stageId") : undefined,
+        stageCode: stageCode ? String(stageCode) : undefined,
+      },
+      scope,
+      force === true
+    );
+
+    try {
+      await logActivity(req, {
+        entityType: "client_case_stage",
+        entityId: clientId,
+        clientId,
+        action: "STATUS_CHANGE",
+        oldValue: change.fromStage,
+        newValue: change.toStage,
+        description: `Case stage changed: ${change.fromStage?.name ?? "No stage"} → ${change.toStage.name}${change.forced ? " (forced)" : ""}`,
+        metadata: note ? { note: String(note) } : undefined,
+        performedBy: req.user.id,
+      });
+    } catch (activityError) {
+      // Don't fail the request if activity log fails
+      console.error("Activity log error in changeClientCaseStageController:", activityError);
+    }
+
+    if (change.counsellorId && change.counsellorId !== req.user.id) {
+      emitToCounsellor(change.counsellorId, "client:stage-changed", {
+        clientId,
+        clientName: change.fullName,
+        fromStage: change.fromStage,
+        toStage: change.toStage,
+        changedBy: req.user.id,
+      });
+    }
+    emitDashboardUpdate("client:stage-changed", { clientId, toStage: change.toStage });
+
+    res.status(200).json({ success: true, data: change });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Clients grouped by pipeline stage, with counts per column
+ * GET /api/case-pipeline/kanban?counsellorId=&includeArchived=true
+ * Access: admin, manager (own team), counsellor (own clients)
+ */
+export const getCaseKanbanController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const scope = await resolveScope(req);
+    const query = req.query as Record<string, string | undefined>;
+
+    const kanban = await getCaseKanban(scope, {
+      counsellorId: query.counsellorId ? parseId(query.counsellorId, "counsellorId") : undefined,
+      includeArchived: query.includeArchived === "true",
+    });
+
+    res.status(200).json({ success: true, data: kanban });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
@@ -1,5 +1,7 @@
 import { Request, Response } from "express";
-import { saveClient, getClientFullDetailsById,getClientsByCounsellor, getAllCounsellorIds, getAllClientsForAdmin, getAllClientsForManager, getArchivedClientsByCounsellor, getAllArchivedClientsForAdmin, getAllArchivedClientsForManager, updateClientArchiveStatus, getAllClients, updateClientCounsellor } from "../models/client.model";
+import { saveClient, getClientFullDetailsById,getClientsByCounsellor, getAllCounsellorIds, getAllClientsForAdmin, getAllClientsForManager, getArchivedClientsByCounsellor, getAllArchivedClientsForAdmin, getAllArchivedClientsForManager, updateClientArchiveStatus, getAllClients, searchClients, getClientInScope, ClientListFilters, ClientListScope, ClientSortField } from "../models/client.model";
+import { findPossibleDuplicates, PossibleDuplicate } from "../models/clientDuplicate.model";
+import { PaymentStage } from "../models/clientPayment.model";
 import { getProductPaymentsByClientId } from "../models/clientProductPayments.model";
 import { emitToCounsellor, emitToAdmin, emitDashboardUpdate, emitToCounsellors } from "../config/socket";
 import { getDashboardStats } from "../models/dashboard.model";
@@ -9,7 +11,7 @@ import { db } from "../config/databaseConnection";
 import { clientInformation } from "../schemas/clientInformation.schema";
 import { users } from "../schemas/users.schema";
 import { eq } from "drizzle-orm";
-import { getCounsellorById } from "../models/user.model";
+import { getClientTimeline, TIMELINE_EVENT_TYPES, TimelineEventType } from "../models/clientTimeline.model";
 
 /* ==============================
    CREATE CLIENT
@@ -57,6 +59,15 @@ export const saveClientController = async (req: Request, res: Response) => {
             passportDetails: oldClient.passportDetails,
             leadTypeId: oldClient.leadTypeId,
             counsellorId: oldClient.counsellorId,
+            phone: oldClient.phone,
+            email: oldClient.email,
+            address: oldClient.address,
+            dateOfBirth: oldClient.dateOfBirth,
+            nationality: oldClient.nationality,
+            destinationCountry: oldClient.destinationCountry,
+            visaCategory: oldClient.visaCategory,
+            applicationDate: oldClient.applicationDate,
+            decisionDate: oldClient.decisionDate,
           };
         }
       } catch (error) {
@@ -68,6 +79,16 @@ export const saveClientController = async (req: Request, res: Response) => {
     console.log("req.body client", req.body);
     const client = await saveClient(req.body, req.user.id);
 
+    // Warn about likely duplicates of a new client (same person with a differently typed / renewed passport)
+    let possibleDuplicates: PossibleDuplicate[] = [];
+    if (client.action === "CREATED") {
+      try {
+        possibleDuplicates = await findPossibleDuplicates(client.client, client.client.clientId);
+      } catch (duplicateError) {
+        console.error("Duplicate check error in saveClientController:", duplicateError);
+      }
+    }
+
     // Log activity ONLY when a real insert or real update happens (rowCount > 0 or action is CREATED)
     // Skip logging if action is NO_CHANGE (data was identical, no actual update occurred)
     if (client.action !== "NO_CHANGE") {
@@ -194,6 +215,7 @@ export const saveClientController = async (req: Request, res: Response) => {
     res.status(200).json({
       success: true,
       data: client,
+      warnings: { possibleDuplicates },
     });
   } catch (error: any) {
     res.status(400).json({
@@ -423,6 +445,7 @@ export const getClientCompleteDetailsController = async (req: Request, res: Resp
       leadType: clientData.leadType,
       payments: clientData.payments,
       productPayments: clientData.productPayments, // Already enhanced with entity data
+      familyMembers: clientData.familyMembers,
     };
 
     res.status(200).json({
@@ -746,28 +769,194 @@ export const getAllClientsForAdminController = async (req: Request, res: Respons
   }
 };
 
-// Client Transfer to another counsellor
-export const transferClientController = async (req: Request, res: Response) => {
+/**
+ * Parse the client list query string (shared by the list and the exports).
+ * Throws on invalid values.
+ */
+export const parseClientListFilters = (query: Record<string, string | undefined>): ClientListFilters => {
+  const toPositiveInt = (value: string | undefined, field: string) => {
+    if (value === undefined || value === "") return undefined;
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed <= 0) {
+      throw new Error(`Invalid ${field}`);
+    }
+    return parsed;
+  };
+
+  const toBoolean = (value: string | undefined, field: string) => {
+    if (value === undefined || value === "") return undefined;
+    if (value === "true") return true;
+    if (value === "false") return false;
+    throw new Error(`${field} must be true or false`);
+  };
+
+  const isDate = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(value).getTime());
+
+  if (query.enrollmentFrom && !isDate(query.enrollmentFrom)) {
+    throw new Error("Invalid enrollmentFrom format. Use YYYY-MM-DD");
+  }
+  if (query.enrollmentTo && !isDate(query.enrollmentTo)) {
+    throw new Error("Invalid enrollmentTo format. Use YYYY-MM-DD");
+  }
+
+  const validStages: PaymentStage[] = ["INITIAL", "BEFORE_VISA", "AFTER_VISA", "SUBMITTED_VISA"];
+  if (query.stage && !validStages.includes(query.stage as PaymentStage)) {
+    throw new Error(`Invalid stage. Must be one of: ${validStages.join(", ")}`);
+  }
+
+  const validSortFields: ClientSortField[] = ["enrollmentDate", "fullName", "clientId"];
+  if (query.sortBy && !validSortFields.includes(query.sortBy as ClientSortField)) {
+    throw new Error(`Invalid sortBy. Must be one of: ${validSortFields.join(", ")}`);
+  }
+
+  if (query.sortOrder && query.sortOrder !== "asc" && query.sortOrder !== "desc") {
+    throw new Error("sortOrder must be asc or desc");
+  }
+
+  return {
+    search: query.search?.trim() || undefined,
+    leadTypeId: toPositiveInt(query.leadTypeId, "leadTypeId"),
+    saleTypeId: toPositiveInt(query.saleTypeId, "saleTypeId"),
+    stage: query.stage as PaymentStage | undefined,
+    counsellorId: toPositiveInt(query.counsellorId, "counsellorId"),
+    managerId: toPositiveInt(query.managerId, "managerId"),
+    enrollmentFrom: query.enrollmentFrom || undefined,
+    enrollmentTo: query.enrollmentTo || undefined,
+    destinationCountry: query.destinationCountry?.trim() || undefined,
+    visaCategory: query.visaCategory?.trim() || undefined,
+    archived: query.archived === "all" ? "all" : toBoolean(query.archived, "archived"),
+    hasPendingAmount: toBoolean(query.hasPendingAmount, "hasPendingAmount"),
+    sortBy: query.sortBy as ClientSortField | undefined,
+    sortOrder: query.sortOrder as "asc" | "desc" | undefined,
+    limit: toPositiveInt(query.limit, "limit"),
+    cursor: query.cursor || undefined,
+  };
+};
+
+/* ==============================
+   SEARCH CLIENTS (SERVER-SIDE LIST)
+   GET /api/clients?search=&leadTypeId=&saleTypeId=&stage=&counsellorId=&managerId=
+       &enrollmentFrom=&enrollmentTo=&destinationCountry=&visaCategory=&archived=&hasPendingAmount=&sortBy=&sortOrder=&limit=&cursor=
+============================== */
+export const searchClientsController = async (req: Request, res: Response) => {
   try {
-    const { clientId, counsellorId } = req.body;
-    const client = await getClientFullDetailsById(clientId);
-    if (!client) {
-      return res.status(404).json({
+    if (!req.user?.id || !req.user?.role) {
+      return res.status(401).json({
         success: false,
-        message: "Client not found",
+        message: "Unauthorized",
       });
     }
-    const counsellor = await getCounsellorById(counsellorId);
-    if (!counsellor) {
+
+    const filters = parseClientListFilters(req.query as Record<string, string | undefined>);
+
+    // Resolve scope: supervisor managers see everything, like admin
+    const scope: ClientListScope = { role: req.user.role, userId: req.user.id };
+
+    if (req.user.role === "manager") {
+      const [manager] = await db
+        .select({ isSupervisor: users.isSupervisor })
+        .from(users)
+        .where(eq(users.id, req.user.id))
+        .limit(1);
+
+      if (!manager) {
+        return res.status(404).json({
+          success: false,
+          message: "Manager not found",
+        });
+      }
+
+      scope.isSupervisor = manager.isSupervisor;
+    }
+
+    const result = await searchClients(filters, scope);
+
+    res.status(200).json({
+      success: true,
+      data: result.data,
+      pagination: result.pagination,
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      message: error.message,
+    });
+  }
+};
+
+/* ==============================
+   CLIENT TIMELINE
+   GET /api/clients/:clientId/timeline?types=note,payment&before=<nextCursor>&limit=50
+   Notes, payments, product payments, refunds, transfers, archive events, tasks, documents and approvals
+============================== */
+export const getClientTimelineController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id || !req.user?.role) {
+      return res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+    }
+
+    const clientId = Number(req.params.clientId);
+    if (!Number.isInteger(clientId) || clientId <= 0) {
+      return res.status(400).json({
+        success: false,
+        message: "Valid clientId is required",
+      });
+    }
+
+    const scope: ClientListScope = { role: req.user.role, userId: req.user.id };
+    if (req.user.role === "manager") {
+      const [manager] = await db
+        .select({ isSupervisor: users.isSupervisor })
+        .from(users)
+        .where(eq(users.id, req.user.id))
+        .limit(1);
+
+      scope.isSupervisor = manager?.isSupervisor ?? false;
+    }
+
+    if (!(await getClientInScope(clientId, scope))) {
       return res.status(404).json({
         success: false,
-        message: "Counsellor not found",
+        message: "Client not found",
       });
     }
-    const result = await updateClientCounsellor(clientId, counsellor.id);
+
+    const types = req.query.types
+      ? String(req.query.types).split(",").map((type) => type.trim()).filter(Boolean)
+      : [];
+    const invalidTypes = types.filter(
+      (type) => !TIMELINE_EVENT_TYPES.includes(type as TimelineEventType)
+    );
+    if (invalidTypes.length > 0) {
+      throw new Error(`Invalid type(s): ${invalidTypes.join(", ")}. Allowed: ${TIMELINE_EVENT_TYPES.join(", ")}`);
+    }
+
+    let before: Date | undefined;
+    if (req.query.before) {
+      before = new Date(String(req.query.before));
+      if (isNaN(before.getTime())) {
+        throw new Error("Invalid before cursor");
+      }
+    }
+
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+    if (limit !== undefined && (isNaN(limit) || limit <= 0)) {
+      throw new Error("Invalid limit");
+    }
+
+    const timeline = await getClientTimeline(clientId, {
+      types: types as TimelineEventType[],
+      before,
+      limit,
+    });
+
     res.status(200).json({
       success: true,
-      data: result,
+      data: timeline.events,
+      nextCursor: timeline.nextCursor,
     });
   } catch (error: any) {
     res.status(400).json({
@@ -775,4 +964,4 @@ export const transferClientController = async (req: Request, res: Response) => {
       message: error.message,
     });
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,178 @@
+import { Request, Response } from "express";
+import {
+  uploadClientDocument,
+  getClientDocuments,
+  readClientDocument,
+  deleteClientDocument,
+  ClientDocumentType,
+  CLIENT_DOCUMENT_TYPES,
+} from "../models/clientDocument.model";
+import { getClientInScope } from "../models/client.model";
+import { logActivity } from "../services/activityLog.service";
+import { resolveScope } from "../utils/clientScope";
+
+const parseId = (value: unknown, field: string) => {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`Invalid ${field}`);
+  }
+  return parsed;
+};
+
+/**
+ * Resolve scope and make sure the client is visible to the user
+ */
+const resolveClientAccess = async (req: Request) => {
+  const clientId = parseId(req.params.clientId, "clientId");
+  const scope = await resolveScope(req);
+
+  if (!(await getClientInScope(clientId, scope))) {
+    throw new Error("Client not found");
+  }
+
+  return { clientId, scope };
+};
+
+/**
+ * Upload a document (raw file as request body, metadata in the query string)
+ * POST /api/clients/:clientId/documents?documentType=PASSPORT&fileName=passport.pdf&expiryDate=2030-01-31&productPaymentId=
+ * Content-Type: the file's mime type
+ * Access: admin, manager (own team), counsellor (own clients)
+ */
+export const uploadClientDocumentController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    if (!Buffer.isBuffer(req.body)) {
+      return res.status(400).json({
+        success: false,
+        message: "Send the file as the raw request body with its Content-Type",
+      });
+    }
+
+    const { clientId } = await resolveClientAccess(req);
+    const query = req.query as Record<string, string | undefined>;
+
+    const document = await uploadClientDocument({
+      clientId,
+      productPaymentId: query.productPaymentId ? parseId(query.productPaymentId, "productPaymentId") : null,
+      documentType: String(query.documentType || "").toUpperCase(),
+      fileName: query.fileName || "",
+      mimeType: req.headers["content-type"] || "",
+      content: req.body,
+      expiryDate: query.expiryDate || null,
+      uploadedBy: req.user.id,
+    });
+
+    try {
+      await logActivity(req, {
+        entityType: "client_document",
+        entityId: document.documentId,
+        clientId,
+        action: "CREATE",
+        newValue: document,
+        description: `Document uploaded: ${document.documentType} (${document.fileName})`,
+        performedBy: req.user.id,
+      });
+    } catch (activityError) {
+      // Don't fail the request if activity log fails
+      console.error("Activity log error in uploadClientDocumentController:", activityError);
+    }
+
+    res.status(201).json({ success: true, data: document });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Documents of a client
+ * GET /api/clients/:clientId/documents?documentType=&productPaymentId=
+ * Access: admin, manager (own team), counsellor (own clients)
+ */
+export const getClientDocumentsController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const { clientId } = await resolveClientAccess(req);
+    const query = req.query as Record<string, string | undefined>;
+
+    const documentType = query.documentType?.toUpperCase();
+    if (documentType && !CLIENT_DOCUMENT_TYPES.includes(documentType as ClientDocumentType)) {
+      throw new Error(`Invalid documentType. Allowed: ${CLIENT_DOCUMENT_TYPES.join(", ")}`);
+    }
+
+    const documents = await getClientDocuments(clientId, {
+      documentType: documentType as ClientDocumentType | undefined,
+      productPaymentId: query.productPaymentId ? parseId(query.productPaymentId, "productPaymentId") : undefined,
+    });
+
+    res.status(200).json({ success: true, count: documents.length, data: documents });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Download a document
+ * GET /api/clients/:clientId/documents/:documentId/download
+ * Access: admin, manager (own team), counsellor (own clients)
+ */
+export const downloadClientDocumentController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const { clientId } = await resolveClientAccess(req);
+    const documentId = parseId(req.params.documentId, "documentId");
+    const file = await readClientDocument(clientId, documentId);
+
+    res.setHeader("Content-Type", file.mimeType);
+    res.setHeader("Content-Disposition", `attachment; filename="${file.fileName.replace(/"/g, "")}"`);
+    res.setHeader("Content-Length", file.content.length);
+    res.status(200).send(file.content);
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Delete a document (counsellors only their own uploads)
+ * DELETE /api/clients/:clientId/documents/:documentId
+ * Access: admin, manager (own team), counsellor (own clients)
+ */
+export const deleteClientDocumentController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const { clientId, scope } = await resolveClientAccess(req);
+    const documentId = parseId(req.params.documentId, "documentId");
+    const deleted = await deleteClientDocument(clientId, documentId, scope);
+
+    try {
+      await logActivity(req, {
+        entityType: "client_document",
+        entityId: documentId,
+        clientId,
+        action: "DELETE",
+        oldValue: deleted,
+        description: `Document deleted: ${deleted.documentType} (${deleted.fileName})`,
+        performedBy: req.user.id,
+      });
+    } catch (activityError) {
+      // Don't fail the request if activity log fails
+      console.error("Activity log error in deleteClientDocumentController:", activityError);
+    }
+
+    res.status(200).json({ success: true, message: "Document deleted successfully" });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
@@ -0,0 +1,129 @@
+import { Request, Response } from "express";
+import {
+  findPossibleDuplicates,
+  getClientDuplicates,
+  mergeClients,
+} from "../models/clientDuplicate.model";
+import { getClientInScope } from "../models/client.model";
+import { logActivity } from "../services/activityLog.service";
+import { emitToAdmin, emitToCounsellor } from "../config/socket";
+import { resolveScope } from "../utils/clientScope";
+
+const parseId = (value: unknown, field: string) => {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`Invalid ${field}`);
+  }
+  return parsed;
+};
+
+/**
+ * Check a client before creating it
+ * POST /api/clients/duplicates/check
+ * Body: { fullName?, passportDetails?, phone?, email?, dateOfBirth? }
+ * Access: admin, manager, counsellor
+ */
+export const checkClientDuplicatesController = async (req: Request, res: Response) => {
+  try {
+    const { fullName, passportDetails, phone, email, dateOfBirth } = req.body || {};
+    const duplicates = await findPossibleDuplicates({
+      fullName: fullName ? String(fullName) : null,
+      passportDetails: passportDetails ? String(passportDetails) : null,
+      phone: phone ? String(phone) : null,
+      email: email ? String(email) : null,
+      dateOfBirth: dateOfBirth ? String(dateOfBirth) : null,
+    });
+
+    res.status(200).json({ success: true, count: duplicates.length, data: duplicates });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Possible duplicates of an existing client
+ * GET /api/clients/:clientId/duplicates
+ * Access: admin, manager (own team), counsellor (own clients)
+ */
+export const getClientDuplicatesController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const clientId = parseId(req.params.clientId, "clientId");
+    if (!(await getClientInScope(clientId, await resolveScope(req)))) {
+      throw new Error("Client not found");
+    }
+
+    const duplicates = await getClientDuplicates(clientId);
+    res.status(200).json({ success: true, count: duplicates.length, data: duplicates });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Merge a duplicate client into the surviving one. Payments, product payments, installments,
+ * refunds, documents, notes, tasks, approvals, family members, transfer history and activity
+ * logs move to the survivor; the duplicate is deleted.
+ * POST /api/clients/admin/merge-clients
+ * Body: { survivorClientId, duplicateClientId, fillMissingFields?: boolean (default true) }
+ * Access: admin
+ */
+export const mergeClientsController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const body = req.body || {};
+    const survivorClientId = parseId(body.survivorClientId, "survivorClientId");
+    const duplicateClientId = parseId(body.duplicateClientId, "duplicateClientId");
+
+    const result = await mergeClients(
+      survivorClientId,
+      duplicateClientId,
+      { fillMissingFields: body.fillMissingFields !== false },
+      req.user.id
+    );
+
+    try {
+      await logActivity(req, {
+        entityType: "client",
+        entityId: survivorClientId,
+        clientId: survivorClientId,
+        action: "MERGE",
+        oldValue: result.duplicate,
+        newValue: result.survivor,
+        description: `Client #${duplicateClientId} (${result.duplicate.fullName}) merged into ${result.survivor.fullName}`,
+        metadata: {
+          survivorClientId,
+          duplicateClientId,
+          moved: result.moved,
+          filledFields: result.filledFields,
+        },
+        performedBy: req.user.id,
+      });
+    } catch (activityError) {
+      // Don't fail the request if activity log fails
+      console.error("Activity log error in mergeClientsController:", activityError);
+    }
+
+    try {
+      const eventData = { survivorClientId, duplicateClientId, mergedBy: req.user.id };
+      emitToAdmin("client:merged", eventData);
+      emitToCounsellor(result.survivor.counsellorId, "client:merged", eventData);
+      if (result.duplicate.counsellorId !== result.survivor.counsellorId) {
+        emitToCounsellor(result.duplicate.counsellorId, "client:merged", eventData);
+      }
+    } catch (wsError) {
+      // Don't fail the request if WebSocket fails
+      console.error("WebSocket emit error in mergeClientsController:", wsError);
+    }
+
+    res.status(200).json({ success: true, data: result });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
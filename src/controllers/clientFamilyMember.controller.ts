@@ -0,0 +1,160 @@
+import { Request, Response } from "express";
+import {
+  getClientFamilyMembers,
+  createFamilyMember,
+  updateFamilyMember,
+  deleteFamilyMember,
+} from "../models/clientFamilyMember.model";
+import { getClientInScope } from "../models/client.model";
+import { logActivity } from "../services/activityLog.service";
+import { resolveScope } from "../utils/clientScope";
+
+const parseId = (value: unknown, field: string) => {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`Invalid ${field}`);
+  }
+  return parsed;
+};
+
+/**
+ * Resolve scope and make sure the client is visible to the user
+ */
+const resolveClientAccess = async (req: Request) => {
+  const clientId = parseId(req.params.clientId, "clientId");
+  const scope = await resolveScope(req);
+
+  if (!(await getClientInScope(clientId, scope))) {
+    throw new Error("Client not found");
+  }
+
+  return { clientId, scope };
+};
+
+/**
+ * Family members (spouse, dependants) of a client
+ * GET /api/clients/:clientId/family-members
+ * Access: admin, manager (own team), counsellor (own clients)
+ */
+export const getFamilyMembersController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const { clientId } = await resolveClientAccess(req);
+    const members = await getClientFamilyMembers(clientId);
+
+    res.status(200).json({ success: true, count: members.length, data: members });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Add a family member
+ * POST /api/clients/:clientId/family-members
+ * Access: admin, manager (own team), counsellor (own clients)
+ */
+export const createFamilyMemberController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const { clientId } = await resolveClientAccess(req);
+    const member = await createFamilyMember(clientId, req.body);
+
+    try {
+      await logActivity(req, {
+        entityType: "client_family_member",
+        entityId: member.memberId,
+        clientId,
+        action: "CREATE",
+        newValue: member,
+        description: `Family member added: ${member.fullName} (${member.relationship})`,
+        performedBy: req.user.id,
+      });
+    } catch (activityError) {
+      // Don't fail the request if activity log fails
+      console.error("Activity log error in createFamilyMemberController:", activityError);
+    }
+
+    res.status(201).json({ success: true, data: member });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Update a family member
+ * PUT /api/clients/:clientId/family-members/:memberId
+ * Access: admin, manager (own team), counsellor (own clients)
+ */
+export const updateFamilyMemberController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const { clientId } = await resolveClientAccess(req);
+    const memberId = parseId(req.params.memberId, "memberId");
+    const { before, after } = await updateFamilyMember(clientId, memberId, req.body);
+
+    try {
+      await logActivity(req, {
+        entityType: "client_family_member",
+        entityId: memberId,
+        clientId,
+        action: "UPDATE",
+        oldValue: before,
+        newValue: after,
+        description: `Family member updated: ${after.fullName} (${after.relationship})`,
+        performedBy: req.user.id,
+      });
+    } catch (activityError) {
+      // Don't fail the request if activity log fails
+      console.error("Activity log error in updateFamilyMemberController:", activityError);
+    }
+
+    res.status(200).json({ success: true, data: after });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Remove a family member
+ * DELETE /api/clients/:clientId/family-members/:memberId
+ * Access: admin, manager (own team), counsellor (own clients)
+ */
+export const deleteFamilyMemberController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const { clientId } = await resolveClientAccess(req);
+    const memberId = parseId(req.params.memberId, "memberId");
+    const deleted = await deleteFamilyMember(clientId, memberId);
+
+    try {
+      await logActivity(req, {
+        entityType: "client_family_member",
+        entityId: memberId,
+        clientId,
+        action: "DELETE",
+        oldValue: deleted,
+        description: `Family member removed: ${deleted.fullName} (${deleted.relationship})`,
+        performedBy: req.user.id,
+      });
+    } catch (activityError) {
+      // Don't fail the request if activity log fails
+      console.error("Activity log error in deleteFamilyMemberController:", activityError);
+    }
+
+    res.status(200).json({ success: true, message: "Family member removed successfully" });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
@@ -0,0 +1,172 @@
+import { Request, Response } from "express";
+import {
+  runImport,
+  getImportJobs,
+  getImportJobById,
+  getImportJobResultCsv,
+  IMPORT_FIELDS,
+} from "../models/clientImport.model";
+import { logActivity, getIpAddress, getUserAgent } from "../services/activityLog.service";
+
+const parseId = (value: unknown, field: string) => {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`Invalid ${field}`);
+  }
+  return parsed;
+};
+
+const parseColumnMapping = (value: string | undefined) => {
+  if (!value) return undefined;
+
+  let mapping: unknown;
+  try {
+    mapping = JSON.parse(value);
+  } catch {
+    throw new Error('columnMapping must be a JSON object, e.g. {"Client Name":"fullName"}');
+  }
+
+  if (!mapping || typeof mapping !== "object" || Array.isArray(mapping)) {
+    throw new Error('columnMapping must be a JSON object, e.g. {"Client Name":"fullName"}');
+  }
+
+  return Object.fromEntries(Object.entries(mapping).map(([column, field]) => [column, String(field)]));
+};
+
+/**
+ * Import clients, payments and product payments from a CSV / XLSX file
+ * (raw file as request body, options in the query string)
+ * POST /api/imports?fileName=clients.xlsx&dryRun=true&defaultCounsellorId=&columnMapping={"Client Name":"fullName"}
+ * Content-Type: the file's mime type
+ * dryRun defaults to true: rows are only validated. With dryRun=false the file is validated
+ * again and imported in one transaction, only when every row is valid.
+ * Access: admin
+ */
+export const runImportController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    if (!Buffer.isBuffer(req.body)) {
+      return res.status(400).json({
+        success: false,
+        message: "Send the file as the raw request body with its Content-Type",
+      });
+    }
+
+    const query = req.query as Record<string, string | undefined>;
+    const dryRun = query.dryRun !== "false";
+
+    const job = await runImport({
+      content: req.body,
+      fileName: query.fileName || "",
+      mimeType: req.headers["content-type"],
+      dryRun,
+      columnMapping: parseColumnMapping(query.columnMapping),
+      defaultCounsellorId: query.defaultCounsellorId
+        ? parseId(query.defaultCounsellorId, "defaultCounsellorId")
+        : undefined,
+      importedBy: req.user.id,
+      ipAddress: getIpAddress(req),
+      userAgent: getUserAgent(req),
+    });
+
+    if (!dryRun) {
+      try {
+        await logActivity(req, {
+          entityType: "import_job",
+          entityId: job.importJobId,
+          action: "CREATE",
+          newValue: {
+            status: job.status,
+            totalRows: job.totalRows,
+            errorRows: job.errorRows,
+            clientsCreated: job.clientsCreated,
+            paymentsCreated: job.paymentsCreated,
+            productPaymentsCreated: job.productPaymentsCreated,
+          },
+          description: job.status === "completed"
+            ? `Import #${job.importJobId} (${job.fileName}): ${job.clientsCreated} clients, ${job.paymentsCreated} payments, ${job.productPaymentsCreated} product payments`
+            : `Import #${job.importJobId} (${job.fileName}) failed: ${job.errorMessage}`,
+          metadata: { importJobId: job.importJobId, fileName: job.fileName },
+          performedBy: req.user.id,
+        });
+      } catch (activityError) {
+        // Don't fail the request if activity log fails
+        console.error("Activity log error in runImportController:", activityError);
+      }
+    }
+
+    const succeeded = job.status === "validated" || job.status === "completed";
+    res.status(succeeded ? (dryRun ? 200 : 201) : 422).json({ success: succeeded, data: job });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Importable fields and the column headers recognised for each
+ * GET /api/imports/fields
+ * Access: admin
+ */
+export const getImportFieldsController = async (_req: Request, res: Response) => {
+  res.status(200).json({ success: true, data: IMPORT_FIELDS });
+};
+
+/**
+ * Import jobs, newest first (without row results)
+ * GET /api/imports?limit=50&offset=0
+ * Access: admin
+ */
+export const getImportJobsController = async (req: Request, res: Response) => {
+  try {
+    const query = req.query as Record<string, string | undefined>;
+    const result = await getImportJobs({
+      limit: query.limit ? Number(query.limit) : undefined,
+      offset: query.offset ? Number(query.offset) : undefined,
+    });
+
+    res.status(200).json({ success: true, ...result });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Import job with row results
+ * GET /api/imports/:importJobId
+ * Access: admin
+ */
+export const getImportJobController = async (req: Request, res: Response) => {
+  try {
+    const importJobId = parseId(req.params.importJobId, "importJobId");
+    const job = await getImportJobById(importJobId);
+
+    if (!job) {
+      return res.status(404).json({ success: false, message: "Import job not found" });
+    }
+
+    res.status(200).json({ success: true, data: job });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Download the row results of an import job as CSV
+ * GET /api/imports/:importJobId/result
+ * Access: admin
+ */
+export const downloadImportResultController = async (req: Request, res: Response) => {
+  try {
+    const importJobId = parseId(req.params.importJobId, "importJobId");
+    const file = await getImportJobResultCsv(importJobId);
+
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="${file.fileName}"`);
+    res.status(200).send(file.content);
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
@@ -0,0 +1,226 @@
+import { Request, Response } from "express";
+import {
+  getClientNotes,
+  createClientNote,
+  updateClientNote,
+  setClientNotePinned,
+  deleteClientNote,
+  getClientNoteHistory,
+} from "../models/clientNote.model";
+import { getClientInScope } from "../models/client.model";
+import { logActivity } from "../services/activityLog.service";
+import { resolveScope } from "../utils/clientScope";
+
+const parseId = (value: unknown, field: string) => {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`Invalid ${field}`);
+  }
+  return parsed;
+};
+
+/**
+ * Resolve scope and make sure the client is visible to the user
+ */
+const resolveClientAccess = async (req: Request) => {
+  const clientId = parseId(req.params.clientId, "clientId");
+  const scope = await resolveScope(req);
+
+  if (!(await getClientInScope(clientId, scope))) {
+    throw new Error("Client not found");
+  }
+
+  return { clientId, scope };
+};
+
+/**
+ * Notes of a client (pinned first)
+ * GET /api/clients/:clientId/notes
+ * Access: admin, manager (own team), counsellor (own clients)
+ */
+export const getClientNotesController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const { clientId } = await resolveClientAccess(req);
+    const notes = await getClientNotes(clientId);
+
+    res.status(200).json({ success: true, count: notes.length, data: notes });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Add a note
+ * POST /api/clients/:clientId/notes
+ * Access: admin, manager (own team), counsellor (own clients)
+ */
+export const createClientNoteController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const { clientId } = await resolveClientAccess(req);
+    const note = await createClientNote(clientId, req.body?.body, req.user.id);
+
+    try {
+      await logActivity(req, {
+        entityType: "client_note",
+        entityId: note.noteId,
+        clientId,
+        action: "CREATE",
+        newValue: note,
+        description: "Note added",
+        performedBy: req.user.id,
+      });
+    } catch (activityError) {
+      // Don't fail the request if activity log fails
+      console.error("Activity log error in createClientNoteController:", activityError);
+    }
+
+    res.status(201).json({ success: true, data: note });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Edit a note (author or admin), previous body is kept in the history
+ * PUT /api/clients/:clientId/notes/:noteId
+ * Access: admin, manager (own team), counsellor (own clients)
+ */
+export const updateClientNoteController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const { clientId, scope } = await resolveClientAccess(req);
+    const noteId = parseId(req.params.noteId, "noteId");
+    const { before, after, changed } = await updateClientNote(clientId, noteId, req.body?.body, scope);
+
+    if (changed) {
+      try {
+        await logActivity(req, {
+          entityType: "client_note",
+          entityId: noteId,
+          clientId,
+          action: "UPDATE",
+          oldValue: before,
+          newValue: after,
+          description: "Note edited",
+          performedBy: req.user.id,
+        });
+      } catch (activityError) {
+        // Don't fail the request if activity log fails
+        console.error("Activity log error in updateClientNoteController:", activityError);
+      }
+    }
+
+    res.status(200).json({ success: true, data: after });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Pin / unpin a note
+ * PUT /api/clients/:clientId/notes/:noteId/pin
+ * Access: admin, manager (own team), counsellor (own clients)
+ */
+export const pinClientNoteController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    if (typeof req.body?.pinned !== "boolean") {
+      return res.status(400).json({ success: false, message: "pinned must be true or false" });
+    }
+
+    const { clientId } = await resolveClientAccess(req);
+    const noteId = parseId(req.params.noteId, "noteId");
+    const { before, after } = await setClientNotePinned(clientId, noteId, req.body.pinned, req.user.id);
+
+    try {
+      await logActivity(req, {
+        entityType: "client_note",
+        entityId: noteId,
+        clientId,
+        action: "UPDATE",
+        oldValue: { isPinned: before.isPinned },
+        newValue: { isPinned: after.isPinned },
+        description: after.isPinned ? "Note pinned" : "Note unpinned",
+        performedBy: req.user.id,
+      });
+    } catch (activityError) {
+      // Don't fail the request if activity log fails
+      console.error("Activity log error in pinClientNoteController:", activityError);
+    }
+
+    res.status(200).json({ success: true, data: after });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Delete a note (author or admin)
+ * DELETE /api/clients/:clientId/notes/:noteId
+ * Access: admin, manager (own team), counsellor (own clients)
+ */
+export const deleteClientNoteController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const { clientId, scope } = await resolveClientAccess(req);
+    const noteId = parseId(req.params.noteId, "noteId");
+    const deleted = await deleteClientNote(clientId, noteId, scope);
+
+    try {
+      await logActivity(req, {
+        entityType: "client_note",
+        entityId: noteId,
+        clientId,
+        action: "DELETE",
+        oldValue: deleted,
+        description: "Note deleted",
+        performedBy: req.user.id,
+      });
+    } catch (activityError) {
+      // Don't fail the request if activity log fails
+      console.error("Activity log error in deleteClientNoteController:", activityError);
+    }
+
+    res.status(200).json({ success: true, message: "Note deleted successfully" });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Edit history of a note
+ * GET /api/clients/:clientId/notes/:noteId/history
+ * Access: admin, manager (own team), counsellor (own clients)
+ */
+export const getClientNoteHistoryController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const { clientId } = await resolveClientAccess(req);
+    const noteId = parseId(req.params.noteId, "noteId");
+    const history = await getClientNoteHistory(clientId, noteId);
+
+    res.status(200).json({ success: true, data: history });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
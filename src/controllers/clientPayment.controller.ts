@@ -3,7 +3,8 @@ import {
   saveClientPayment,
   getPaymentsByClientId,
 } from "../models/clientPayment.model";
-import { getClientFullDetailsById, getClientsByCounsellor, getAllClientsForAdmin } from "../models/client.model";
+import { getClientFullDetailsById, getClientsByCounsellor, getAllClientsForAdmin, getClientInScope } from "../models/client.model";
+import { resolveScope } from "../utils/clientScope";
 import { emitToCounsellor, emitToAdmin, emitDashboardUpdate } from "../config/socket";
 import { getDashboardStats } from "../models/dashboard.model";
 import { db } from "../config/databaseConnection";
@@ -11,6 +12,10 @@ import { clientInformation } from "../schemas/clientInformation.schema";
 import { clientPayments } from "../schemas/clientPayment.schema";
 import { eq } from "drizzle-orm";
 import { logActivity } from "../services/activityLog.service";
+import { getClientPaymentInvoice } from "../models/paymentDocument.model";
+import { notifyApprovalRequested } from "../services/approval.service";
+import { handlePaymentCreatedTasks } from "../models/task.model";
+import { notifyTaskAssigned } from "../services/task.service";
 
 /**
  * Create client payment
@@ -37,7 +42,7 @@ export const saveClientPaymentController = async (
     }
 
     console.log("req.body client payment", req.body);
-    const result = await saveClientPayment(req.body);
+    const result = await saveClientPayment(req.body, req.user?.id);
     const clientId = result.payment.clientId;
 
     // Get counsellorId from clientId
@@ -85,6 +90,31 @@ export const saveClientPaymentController = async (
       }
     }
 
+    // The approval request is saved with the payment; notifications never throw
+    const approval = result.approval;
+    if (approval) {
+      notifyApprovalRequested(approval);
+    }
+
+    // Follow-up tasks: close the "collect <stage>" task and open the next one
+    if (result.action === "CREATED") {
+      try {
+        const { created } = await handlePaymentCreatedTasks({
+          clientId,
+          stage: result.payment.stage,
+          sourceEntityId: result.payment.paymentId,
+          createdBy: req.user?.id,
+        });
+
+        if (created) {
+          notifyTaskAssigned(created);
+        }
+      } catch (taskError) {
+        // Don't fail the request if auto task creation fails
+        console.error("Auto task error in saveClientPaymentController:", taskError);
+      }
+    }
+
     // Get full client details with updated payments
     const clientDetails = await getClientFullDetailsById(clientId);
 
@@ -143,6 +173,7 @@ export const saveClientPaymentController = async (
       success: true,
       action: result.action,
       data: result.payment,
+      approval,
     });
   } catch (error: any) {
     res.status(400).json({
@@ -184,3 +215,64 @@ export const getClientPaymentsController = async (
   }
 };
 
+
+/**
+ * Download invoice PDF for a client payment (latest version, or ?version=N)
+ * GET /api/client-payments/:paymentId/invoice.pdf
+ */
+export const getClientPaymentInvoiceController = async (
+  req: Request,
+  res: Response
+) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+    }
+
+    const paymentId = Number(req.params.paymentId);
+
+    if (!Number.isFinite(paymentId) || paymentId <= 0) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid paymentId",
+      });
+    }
+
+    const [payment] = await db
+      .select({ clientId: clientPayments.clientId })
+      .from(clientPayments)
+      .where(eq(clientPayments.paymentId, paymentId));
+
+    // Only invoices of clients the caller can see (counsellor: own, manager: own team)
+    if (!payment || !(await getClientInScope(payment.clientId, await resolveScope(req)))) {
+      return res.status(404).json({
+        success: false,
+        message: "Payment not found",
+      });
+    }
+
+    // ?version=N downloads an earlier version of a revised invoice
+    const version = req.query.version === undefined ? undefined : Number(req.query.version);
+    if (version !== undefined && (!Number.isInteger(version) || version <= 0)) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid version",
+      });
+    }
+
+    const invoice = await getClientPaymentInvoice(paymentId, req.user.id, version);
+
+    res.setHeader("Content-Type", invoice.mimeType);
+    res.setHeader("Content-Disposition", `inline; filename="${invoice.fileName}"`);
+    res.setHeader("Content-Length", invoice.content.length);
+    res.status(200).send(invoice.content);
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      message: error.message,
+    });
+  }
+};
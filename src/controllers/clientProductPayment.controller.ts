@@ -2,9 +2,11 @@ import { Request, Response } from "express";
 import {
   saveClientProductPayment,
   getProductPaymentsByClientId,
-  ProductType,
 } from "../models/clientProductPayments.model";
-import { getClientFullDetailsById, getClientsByCounsellor, getAllClientsForAdmin } from "../models/client.model";
+import { getProductByCode } from "../models/product.model";
+import { ProductValidationError } from "../services/productFieldSchema.service";
+import { getClientFullDetailsById, getClientsByCounsellor, getAllClientsForAdmin, getClientInScope } from "../models/client.model";
+import { resolveScope } from "../utils/clientScope";
 import { emitToCounsellor, emitToAdmin, emitDashboardUpdate, emitToRoles } from "../config/socket";
 import { getDashboardStats } from "../models/dashboard.model";
 import { db } from "../config/databaseConnection";
@@ -14,6 +16,10 @@ import { users } from "../schemas/users.schema";
 import { eq, and } from "drizzle-orm";
 import { logActivity } from "../services/activityLog.service";
 import { createIndividualMessage } from "../models/message.model";
+import { getProductPaymentInvoice } from "../models/paymentDocument.model";
+import { notifyApprovalRequested } from "../services/approval.service";
+import { handleProductPaymentCreatedTasks } from "../models/task.model";
+import { notifyTaskAssigned } from "../services/task.service";
 
 // export const createClientProductPaymentController = async (
 //   req: Request,
@@ -99,7 +105,7 @@ export const saveClientProductPaymentController = async (
     }
 
     console.log("req.body client product payment", req.body);
-    const result = await saveClientProductPayment(req.body);
+    const result = await saveClientProductPayment(req.body, req.user?.id);
 
     const clientId = result.record.clientId;
 
@@ -119,8 +125,9 @@ export const saveClientProductPaymentController = async (
     const counsellorId = client.counsellorId;
 
     // Check if this is a partial payment that needs approval
+    const product = await getProductByCode(result.record.productName);
     const isPartialPayment =
-      result.record.productName === "ALL_FINANCE_EMPLOYEMENT" &&
+      product?.requiresApproval === true &&
       result.action === "CREATED" &&
       req.body.entityData?.partialPayment === true;
 
@@ -254,6 +261,32 @@ export const saveClientProductPaymentController = async (
       console.error("Activity log error in saveClientProductPaymentController:", activityError);
     }
 
+    // The approval request is saved with the product payment; notifications never throw
+    const approval = result.approval;
+    if (approval) {
+      notifyApprovalRequested(approval);
+    }
+
+    // Follow-up tasks for products that need an action after the sale (e.g. SIM activation)
+    if (result.action === "CREATED") {
+      try {
+        const { created } = await handleProductPaymentCreatedTasks({
+          clientId,
+          productName: result.record.productName,
+          entityData: req.body.entityData,
+          sourceEntityId: result.record.productPaymentId,
+          createdBy: req.user?.id,
+        });
+
+        if (created) {
+          notifyTaskAssigned(created);
+        }
+      } catch (taskError) {
+        // Don't fail the request if auto task creation fails
+        console.error("Auto task error in saveClientProductPaymentController:", taskError);
+      }
+    }
+
     // Get full client details with updated product payments
     const clientDetails = await getClientFullDetailsById(clientId);
 
@@ -302,11 +335,14 @@ export const saveClientProductPaymentController = async (
       success: true,
       action: result.action,
       data: result.record,
+      approval,
     });
   } catch (error: any) {
     res.status(400).json({
       success: false,
       message: error.message,
+      // Field-level errors from the product field schema
+      ...(error instanceof ProductValidationError ? { errors: error.fieldErrors } : {}),
     });
   }
 };
@@ -339,3 +375,64 @@ export const getClientProductPaymentsController = async (
     });
   }
 };
+
+/**
+ * Download invoice PDF for a product payment (latest version, or ?version=N)
+ * GET /api/client-product-payments/:productPaymentId/invoice.pdf
+ */
+export const getProductPaymentInvoiceController = async (
+  req: Request,
+  res: Response
+) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+    }
+
+    const productPaymentId = Number(req.params.productPaymentId);
+
+    if (!Number.isFinite(productPaymentId) || productPaymentId <= 0) {
+      return res.status(400).json({
+        success: false,
+        message: "Valid productPaymentId is required",
+      });
+    }
+
+    const [productPayment] = await db
+      .select({ clientId: clientProductPayments.clientId })
+      .from(clientProductPayments)
+      .where(eq(clientProductPayments.productPaymentId, productPaymentId));
+
+    // Only invoices of clients the caller can see (counsellor: own, manager: own team)
+    if (!productPayment || !(await getClientInScope(productPayment.clientId, await resolveScope(req)))) {
+      return res.status(404).json({
+        success: false,
+        message: "Product payment not found",
+      });
+    }
+
+    // ?version=N downloads an earlier version of a revised invoice
+    const version = req.query.version === undefined ? undefined : Number(req.query.version);
+    if (version !== undefined && (!Number.isInteger(version) || version <= 0)) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid version",
+      });
+    }
+
+    const invoice = await getProductPaymentInvoice(productPaymentId, req.user.id, version);
+
+    res.setHeader("Content-Type", invoice.mimeType);
+    res.setHeader("Content-Disposition", `inline; filename="${invoice.fileName}"`);
+    res.setHeader("Content-Length", invoice.content.length);
+    res.status(200).send(invoice.content);
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      message: error.message || "Failed to generate invoice",
+    });
+  }
+};
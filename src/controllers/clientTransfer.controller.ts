@@ -0,0 +1,195 @@
+import { Request, Response } from "express";
+import {
+  transferClient,
+  bulkTransferClients,
+  getClientTransfers,
+  getClientTransferHistory,
+} from "../models/clientTransfer.model";
+import { getClientInScope } from "../models/client.model";
+import { logActivity, getIpAddress, getUserAgent } from "../services/activityLog.service";
+import { emitToCounsellor, emitToAdmin, emitDashboardUpdate } from "../config/socket";
+import { isValidDateString } from "../utils/validators";
+import { resolveScope } from "../utils/clientScope";
+
+const parseId = (value: unknown, field: string) => {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`Invalid ${field}`);
+  }
+  return parsed;
+};
+
+const parseDateParam = (value: string | undefined, field: string) => {
+  if (!value) return undefined;
+  if (!isValidDateString(value)) {
+    throw new Error(`Invalid ${field} format. Use YYYY-MM-DD`);
+  }
+  return value;
+};
+
+/**
+ * Transfer a client to another counsellor
+ * PUT /api/clients/admin/transfer-client
+ * Body: { clientId, counsellorId, reason? }
+ * Access: admin, manager (between counsellors of their own team)
+ */
+export const transferClientController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const body = req.body || {};
+    const clientId = parseId(body.clientId, "clientId");
+    const counsellorId = parseId(body.counsellorId, "counsellorId");
+
+    const result = await transferClient(clientId, counsellorId, body.reason, await resolveScope(req));
+
+    // Log activity (shows up as a transfer in the client timeline)
+    try {
+      await logActivity(req, {
+        entityType: "client_transfer",
+        entityId: clientId,
+        clientId,
+        action: "UPDATE",
+        oldValue: { counsellorId: result.from.id },
+        newValue: { counsellorId: result.to.id },
+        description: `Client transferred to ${result.to.fullName}`,
+        metadata: {
+          transferId: result.transfer.transferId,
+          fromCounsellorId: result.from.id,
+          toCounsellorId: result.to.id,
+          reason: result.transfer.reason,
+        },
+        performedBy: req.user.id,
+      });
+    } catch (activityError) {
+      // Don't fail the request if activity log fails
+      console.error("Activity log error in transferClientController:", activityError);
+    }
+
+    try {
+      const eventData = { client: result.client, from: result.from, to: result.to, transferredBy: req.user.id };
+      emitToCounsellor(result.to.id, "client:transferred", eventData);
+      emitToCounsellor(result.from.id, "client:transferred", eventData);
+      emitDashboardUpdate("client:transferred", { clientId });
+    } catch (wsError) {
+      // Don't fail the request if WebSocket fails
+      console.error("WebSocket emit error in transferClientController:", wsError);
+    }
+
+    res.status(200).json({ success: true, data: result });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Move a counsellor's clients to another counsellor in one go
+ * POST /api/clients/admin/bulk-transfer
+ * Body: { fromCounsellorId, toCounsellorId, clientIds?: number[], includeArchived?: boolean, reason? }
+ * (default: all of fromCounsellorId's active clients; each moved client gets a timeline entry)
+ * Access: admin, manager (between counsellors of their own team)
+ */
+export const bulkTransferClientsController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const body = req.body || {};
+    if (body.clientIds !== undefined && !Array.isArray(body.clientIds)) {
+      throw new Error("clientIds must be an array");
+    }
+
+    const result = await bulkTransferClients(
+      {
+        fromCounsellorId: parseId(body.fromCounsellorId, "fromCounsellorId"),
+        toCounsellorId: parseId(body.toCounsellorId, "toCounsellorId"),
+        clientIds: body.clientIds?.map((id: unknown) => parseId(id, "clientId")),
+        includeArchived: body.includeArchived === true,
+        reason: body.reason,
+        ipAddress: getIpAddress(req),
+        userAgent: getUserAgent(req),
+      },
+      await resolveScope(req)
+    );
+
+    if (result.transferredCount > 0) {
+      try {
+        const eventData = {
+          batchId: result.batchId,
+          from: result.from,
+          to: result.to,
+          clientIds: result.clientIds,
+          transferredBy: req.user.id,
+        };
+        emitToCounsellor(result.to.id, "clients:bulk-transferred", eventData);
+        emitToCounsellor(result.from.id, "clients:bulk-transferred", eventData);
+        emitToAdmin("clients:bulk-transferred", eventData);
+        emitDashboardUpdate("clients:bulk-transferred", { batchId: result.batchId });
+      } catch (wsError) {
+        // Don't fail the request if WebSocket fails
+        console.error("WebSocket emit error in bulkTransferClientsController:", wsError);
+      }
+    }
+
+    res.status(200).json({ success: true, data: result });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Transfer history across clients, newest first
+ * GET /api/clients/admin/transfers?clientId=&counsellorId=&batchId=&from=&to=&limit=50&offset=0
+ * Access: admin, manager (transfers involving their team)
+ */
+export const getClientTransfersController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const query = req.query as Record<string, string | undefined>;
+    const result = await getClientTransfers(
+      {
+        clientId: query.clientId ? parseId(query.clientId, "clientId") : undefined,
+        counsellorId: query.counsellorId ? parseId(query.counsellorId, "counsellorId") : undefined,
+        batchId: query.batchId?.trim() || undefined,
+        from: parseDateParam(query.from, "from"),
+        to: parseDateParam(query.to, "to"),
+        limit: query.limit ? Number(query.limit) : undefined,
+        offset: query.offset ? Number(query.offset) : undefined,
+      },
+      await resolveScope(req)
+    );
+
+    res.status(200).json({ success: true, ...result });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Ownership history of one client
+ * GET /api/clients/:clientId/transfers
+ * Access: admin, manager (own team), counsellor (own clients)
+ */
+export const getClientTransferHistoryController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const clientId = parseId(req.params.clientId, "clientId");
+    if (!(await getClientInScope(clientId, await resolveScope(req)))) {
+      throw new Error("Client not found");
+    }
+
+    const transfers = await getClientTransferHistory(clientId);
+    res.status(200).json({ success: true, count: transfers.length, data: transfers });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
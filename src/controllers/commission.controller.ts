@@ -0,0 +1,449 @@
+import { Request, Response } from "express";
+import {
+  getCommissionPlans,
+  getCommissionPlanById,
+  createCommissionPlan,
+  updateCommissionPlan,
+  deleteCommissionPlan,
+  getCommissionPlanOverrides,
+  setCommissionPlanOverride,
+  removeCommissionPlanOverride,
+  getCommissionStatements,
+  getCommissionStatementById,
+  calculateCommissionStatements,
+  setCommissionStatementAdjustment,
+  lockCommissionStatement,
+  CommissionStatementStatus,
+} from "../models/commission.model";
+import { logActivity } from "../services/activityLog.service";
+import { emitToCounsellor } from "../config/socket";
+import { resolveScope } from "../utils/clientScope";
+
+const parseId = (value: unknown, field: string) => {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`Invalid ${field}`);
+  }
+  return parsed;
+};
+
+const parseOptionalInt = (value: unknown, field: string) => {
+  if (value === undefined || value === "") return undefined;
+  return parseId(value, field);
+};
+
+/* ==============================
+   PLANS
+============================== */
+
+/**
+ * List commission plans with rules and tiers
+ * GET /api/commissions/plans
+ */
+export const getCommissionPlansController = async (req: Request, res: Response) => {
+  try {
+    const plans = await getCommissionPlans();
+    res.status(200).json({ success: true, count: plans.length, data: plans });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Get commission plan
+ * GET /api/commissions/plans/:planId
+ */
+export const getCommissionPlanController = async (req: Request, res: Response) => {
+  try {
+    const plan = await getCommissionPlanById(parseId(req.params.planId, "planId"));
+
+    if (!plan) {
+      return res.status(404).json({ success: false, message: "Commission plan not found" });
+    }
+
+    res.status(200).json({ success: true, data: plan });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Create commission plan
+ * POST /api/commissions/plans
+ */
+export const createCommissionPlanController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const plan = await createCommissionPlan(req.body, req.user.id);
+
+    try {
+      await logActivity(req, {
+        entityType: "commission_plan",
+        entityId: plan.planId,
+        action: "CREATE",
+        newValue: plan,
+        description: `Commission plan created: ${plan.name}`,
+        performedBy: req.user.id,
+      });
+    } catch (activityError) {
+      // Don't fail the request if activity log fails
+      console.error("Activity log error in createCommissionPlanController:", activityError);
+    }
+
+    res.status(201).json({ success: true, data: plan });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Update commission plan
+ * PUT /api/commissions/plans/:planId
+ */
+export const updateCommissionPlanController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const planId = parseId(req.params.planId, "planId");
+    const { before, after } = await updateCommissionPlan(planId, req.body);
+
+    try {
+      await logActivity(req, {
+        entityType: "commission_plan",
+        entityId: planId,
+        action: "UPDATE",
+        oldValue: before,
+        newValue: after,
+        description: `Commission plan updated: ${after.name}`,
+        performedBy: req.user.id,
+      });
+    } catch (activityError) {
+      // Don't fail the request if activity log fails
+      console.error("Activity log error in updateCommissionPlanController:", activityError);
+    }
+
+    res.status(200).json({ success: true, data: after });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Delete commission plan
+ * DELETE /api/commissions/plans/:planId
+ */
+export const deleteCommissionPlanController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const planId = parseId(req.params.planId, "planId");
+    const deleted = await deleteCommissionPlan(planId);
+
+    try {
+      await logActivity(req, {
+        entityType: "commission_plan",
+        entityId: planId,
+        action: "DELETE",
+        oldValue: deleted,
+        description: `Commission plan deleted: ${deleted.name}`,
+        performedBy: req.user.id,
+      });
+    } catch (activityError) {
+      // Don't fail the request if activity log fails
+      console.error("Activity log error in deleteCommissionPlanController:", activityError);
+    }
+
+    res.status(200).json({ success: true, message: "Commission plan deleted successfully" });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/* ==============================
+   MANAGER OVERRIDES
+============================== */
+
+/**
+ * List plan overrides (managers see their team)
+ * GET /api/commissions/overrides
+ */
+export const getCommissionOverridesController = async (req: Request, res: Response) => {
+  try {
+    const scope = await resolveScope(req);
+    const overrides = await getCommissionPlanOverrides(scope);
+    res.status(200).json({ success: true, count: overrides.length, data: overrides });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Assign a plan to a counsellor instead of the default plan
+ * PUT /api/commissions/overrides/:counsellorId
+ */
+export const setCommissionOverrideController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const counsellorId = parseId(req.params.counsellorId, "counsellorId");
+    const planId = parseId(req.body.planId, "planId");
+    const scope = await resolveScope(req);
+    const { before, after } = await setCommissionPlanOverride(counsellorId, planId, req.body.reason, scope);
+
+    try {
+      await logActivity(req, {
+        entityType: "commission_plan_override",
+        entityId: after.overrideId,
+        action: before ? "UPDATE" : "CREATE",
+        oldValue: before,
+        newValue: after,
+        description: `Commission plan override set for counsellor ${counsellorId}`,
+        metadata: { counsellorId, planId },
+        performedBy: req.user.id,
+      });
+    } catch (activityError) {
+      // Don't fail the request if activity log fails
+      console.error("Activity log error in setCommissionOverrideController:", activityError);
+    }
+
+    res.status(200).json({ success: true, data: after });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Remove a counsellor's plan override (default plan applies again)
+ * DELETE /api/commissions/overrides/:counsellorId
+ */
+export const removeCommissionOverrideController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const counsellorId = parseId(req.params.counsellorId, "counsellorId");
+    const scope = await resolveScope(req);
+    const deleted = await removeCommissionPlanOverride(counsellorId, scope);
+
+    try {
+      await logActivity(req, {
+        entityType: "commission_plan_override",
+        entityId: deleted.overrideId,
+        action: "DELETE",
+        oldValue: deleted,
+        description: `Commission plan override removed for counsellor ${counsellorId}`,
+        metadata: { counsellorId },
+        performedBy: req.user.id,
+      });
+    } catch (activityError) {
+      // Don't fail the request if activity log fails
+      console.error("Activity log error in removeCommissionOverrideController:", activityError);
+    }
+
+    res.status(200).json({ success: true, message: "Commission plan override removed successfully" });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/* ==============================
+   STATEMENTS
+============================== */
+
+/**
+ * List payout statements (counsellors see their own, managers their team)
+ * GET /api/commissions/statements?month=&year=&status=&counsellorId=
+ */
+export const getCommissionStatementsController = async (req: Request, res: Response) => {
+  try {
+    const status = req.query.status as string | undefined;
+    if (status && !["draft", "locked"].includes(status)) {
+      return res.status(400).json({ success: false, message: "Invalid status. Must be draft or locked" });
+    }
+
+    const scope = await resolveScope(req);
+    const statements = await getCommissionStatements(scope, {
+      month: parseOptionalInt(req.query.month, "month"),
+      year: parseOptionalInt(req.query.year, "year"),
+      status: status as CommissionStatementStatus | undefined,
+      counsellorId: parseOptionalInt(req.query.counsellorId, "counsellorId"),
+    });
+
+    res.status(200).json({ success: true, count: statements.length, data: statements });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Payout statement with commission lines
+ * GET /api/commissions/statements/:statementId
+ */
+export const getCommissionStatementController = async (req: Request, res: Response) => {
+  try {
+    const statement = await getCommissionStatementById(parseId(req.params.statementId, "statementId"));
+
+    if (!statement) {
+      return res.status(404).json({ success: false, message: "Statement not found" });
+    }
+
+    const scope = await resolveScope(req);
+    const canView =
+      scope.role === "admin" ||
+      scope.role === "superadmin" ||
+      statement.counsellorId === scope.userId ||
+      (scope.role === "manager" && (scope.isSupervisor || statement.managerId === scope.userId));
+
+    if (!canView) {
+      return res.status(403).json({ success: false, message: "Access denied" });
+    }
+
+    res.status(200).json({ success: true, data: statement });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Calculate / recalculate draft statements for a month
+ * POST /api/commissions/statements/calculate
+ */
+export const calculateCommissionStatementsController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const month = parseId(req.body.month, "month");
+    const year = parseId(req.body.year, "year");
+    const counsellorId = parseOptionalInt(req.body.counsellorId, "counsellorId");
+
+    const result = await calculateCommissionStatements(month, year, req.user.id, counsellorId);
+
+    try {
+      await logActivity(req, {
+        entityType: "commission_statement",
+        entityId: counsellorId ?? null,
+        action: "UPDATE",
+        newValue: {
+          calculated: result.calculated.map((statement) => statement.statementId),
+          skipped: result.skipped,
+        },
+        description: `Commission statements calculated for ${month}/${year}`,
+        metadata: { month, year, counsellorId: counsellorId ?? null },
+        performedBy: req.user.id,
+      });
+    } catch (activityError) {
+      // Don't fail the request if activity log fails
+      console.error("Activity log error in calculateCommissionStatementsController:", activityError);
+    }
+
+    res.status(200).json({
+      success: true,
+      data: result.calculated,
+      skipped: result.skipped,
+      month,
+      year,
+    });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Set the manual adjustment of a draft statement
+ * PUT /api/commissions/statements/:statementId/adjustment
+ */
+export const setCommissionAdjustmentController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const statementId = parseId(req.params.statementId, "statementId");
+    const scope = await resolveScope(req);
+    const { before, after } = await setCommissionStatementAdjustment(
+      statementId,
+      req.body.amount,
+      req.body.reason,
+      scope
+    );
+
+    try {
+      await logActivity(req, {
+        entityType: "commission_statement",
+        entityId: statementId,
+        action: "UPDATE",
+        oldValue: { adjustmentAmount: before.adjustmentAmount, totalPayout: before.totalPayout },
+        newValue: { adjustmentAmount: after.adjustmentAmount, totalPayout: after.totalPayout },
+        description: `Commission adjustment set to ${after.adjustmentAmount}`,
+        metadata: { reason: after.adjustmentReason, counsellorId: after.counsellorId },
+        performedBy: req.user.id,
+      });
+    } catch (activityError) {
+      // Don't fail the request if activity log fails
+      console.error("Activity log error in setCommissionAdjustmentController:", activityError);
+    }
+
+    res.status(200).json({ success: true, data: after });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Lock a statement for payout (no further recalculation or adjustment)
+ * POST /api/commissions/statements/:statementId/lock
+ */
+export const lockCommissionStatementController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const statementId = parseId(req.params.statementId, "statementId");
+    const { before, after } = await lockCommissionStatement(statementId, req.user.id);
+
+    try {
+      await logActivity(req, {
+        entityType: "commission_statement",
+        entityId: statementId,
+        action: "STATUS_CHANGE",
+        oldValue: { status: before.status },
+        newValue: { status: after.status, totalPayout: after.totalPayout },
+        description: `Commission statement ${after.month}/${after.year} locked`,
+        metadata: { counsellorId: after.counsellorId },
+        performedBy: req.user.id,
+      });
+    } catch (activityError) {
+      // Don't fail the request if activity log fails
+      console.error("Activity log error in lockCommissionStatementController:", activityError);
+    }
+
+    try {
+      emitToCounsellor(after.counsellorId, "commission:locked", {
+        statementId,
+        month: after.month,
+        year: after.year,
+        totalPayout: after.totalPayout,
+      });
+    } catch (wsError) {
+      // Don't fail the request if WebSocket fails
+      console.error("WebSocket emit error in lockCommissionStatementController:", wsError);
+    }
+
+    res.status(200).json({ success: true, data: after });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
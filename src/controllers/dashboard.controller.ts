@@ -1,5 +1,13 @@
 import { Request, Response } from "express";
-import { getDashboardStats, DashboardFilter } from "../models/dashboard.model";
+import {
+  getDashboardStats,
+  getSourceAttributionReport,
+  DashboardFilter,
+  AttributionGroupBy,
+} from "../models/dashboard.model";
+import { getLeadConversionStats, LeadConversionGroupBy } from "../models/lead.model";
+import { isValidDateString } from "../utils/validators";
+import { resolveScope } from "../utils/clientScope";
 
 /**
  * GET /api/dashboard/stats
@@ -68,3 +76,100 @@ export const getDashboardStatsController = async (
     });
   }
 };
+
+/**
+ * GET /api/dashboard/lead-conversion
+ * Query params:
+ * - groupBy: "counsellor" | "leadType" | "leadSource" | "referralAgent" (default: "counsellor")
+ * - from / to: YYYY-MM-DD (optional), leads created in the period
+ * Conversion rate per group = converted leads / leads created (%)
+ */
+export const getLeadConversionController = async (
+  req: Request,
+  res: Response
+) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const groupBy = ((req.query.groupBy as string) || "counsellor") as LeadConversionGroupBy;
+    const validGroupBy: LeadConversionGroupBy[] = ["counsellor", "leadType", "leadSource", "referralAgent"];
+    if (!validGroupBy.includes(groupBy)) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid groupBy. Must be one of: ${validGroupBy.join(", ")}`,
+      });
+    }
+
+    const from = req.query.from as string | undefined;
+    const to = req.query.to as string | undefined;
+    if ((from && !isValidDateString(from)) || (to && !isValidDateString(to))) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid date format. Use YYYY-MM-DD",
+      });
+    }
+
+    const stats = await getLeadConversionStats(groupBy, { from, to }, await resolveScope(req));
+
+    res.status(200).json({
+      success: true,
+      data: stats,
+    });
+  } catch (error: any) {
+    console.error("Get lead conversion stats error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Failed to fetch lead conversion stats",
+    });
+  }
+};
+
+/**
+ * GET /api/dashboard/source-attribution
+ * Query params:
+ * - from / to: YYYY-MM-DD (optional), enrollment date range (leads: creation date; revenue: payment date)
+ * - from / to: YYYY-MM-DD (optional), enrollment date range (leads: creation date)
+ * Enrollments, revenue, lead conversion and cost per enrollment per source
+ */
+export const getSourceAttributionController = async (
+  req: Request,
+  res: Response
+) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const groupBy = ((req.query.groupBy as string) || "leadSource") as AttributionGroupBy;
+    if (groupBy !== "leadSource" && groupBy !== "referralAgent") {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid groupBy. Must be one of: leadSource, referralAgent",
+      });
+    }
+
+    const from = req.query.from as string | undefined;
+    const to = req.query.to as string | undefined;
+    if ((from && !isValidDateString(from)) || (to && !isValidDateString(to))) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid date format. Use YYYY-MM-DD",
+      });
+    }
+
+    const report = await getSourceAttributionReport(groupBy, { from, to }, await resolveScope(req));
+
+    res.status(200).json({
+      success: true,
+      data: report,
+    });
+  } catch (error: any) {
+    console.error("Get source attribution error:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Failed to fetch source attribution",
+    });
+  }
+};
@@ -0,0 +1,217 @@
+import { Request, Response } from "express";
+import {
+  getClientExport,
+  getPaymentExport,
+  getProductPaymentExport,
+  getActivityLogExport,
+  ExportDataset,
+} from "../models/export.model";
+import { EntityType } from "../models/clientProductPayments.model";
+import { parseClientListFilters } from "./client.controller";
+import { entityTypeEnum } from "../schemas/clientProductPayments.schema";
+import { logActivity } from "../services/activityLog.service";
+import {
+  createSpreadsheetWriter,
+  SpreadsheetFormat,
+  SPREADSHEET_CONTENT_TYPES,
+} from "../utils/spreadsheet";
+import { resolveScope } from "../utils/clientScope";
+
+const parseFormat = (value: unknown): SpreadsheetFormat => {
+  const format = value === undefined || value === "" ? "csv" : String(value).toLowerCase();
+  if (format !== "csv" && format !== "xlsx") {
+    throw new Error("format must be csv or xlsx");
+  }
+  return format;
+};
+
+const parseDateParam = (value: string | undefined, field: string) => {
+  if (!value) return undefined;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(new Date(value).getTime())) {
+    throw new Error(`Invalid ${field} format. Use YYYY-MM-DD`);
+  }
+  return value;
+};
+
+/**
+ * Stream a dataset to the response and log the export.
+ * The first row is read before any header is sent, so query errors still get a JSON 400;
+ * a failure after that aborts the download.
+ */
+const sendExport = async (
+  req: Request,
+  res: Response,
+  name: string,
+  format: SpreadsheetFormat,
+  dataset: ExportDataset,
+  filters: Record<string, unknown>
+) => {
+  const iterator = dataset.rows[Symbol.asyncIterator]();
+  let next = await iterator.next();
+
+  const fileName = `${name}-${new Date().toISOString().split("T")[0]}.${format}`;
+  res.setHeader("Content-Type", SPREADSHEET_CONTENT_TYPES[format]);
+  res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+  res.status(200);
+
+  const writer = createSpreadsheetWriter(format, res, name);
+  let rowCount = 0;
+
+  try {
+    await writer.writeRow(dataset.header);
+    while (!next.done) {
+      await writer.writeRow(next.value);
+      rowCount++;
+      next = await iterator.next();
+    }
+    await writer.end();
+  } catch (error) {
+    await iterator.return?.(undefined);
+    console.error(`Export ${name} aborted after ${rowCount} rows:`, error);
+    res.destroy();
+    return;
+  }
+
+  try {
+    await logActivity(req, {
+      entityType: "data_export",
+      action: "CREATE",
+      description: `Exported ${rowCount} ${name} rows (${format})`,
+      metadata: { dataset: name, format, rowCount, filters },
+      performedBy: req.user!.id,
+    });
+  } catch (activityError) {
+    // Don't fail the request if activity log fails
+    console.error("Activity log error in sendExport:", activityError);
+  }
+};
+
+/**
+ * Export clients
+ * GET /api/exports/clients?format=csv|xlsx + the client list filters
+ * (search, leadTypeId, saleTypeId, stage, counsellorId, managerId, enrollmentFrom, enrollmentTo,
+ *  destinationCountry, visaCategory, archived, hasPendingAmount)
+ * Access: admin, manager (own team unless supervisor)
+ */
+export const exportClientsController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const query = req.query as Record<string, string | undefined>;
+    const format = parseFormat(query.format);
+    const filters = parseClientListFilters(query);
+    const scope = await resolveScope(req);
+
+    await sendExport(req, res, "clients", format, getClientExport(filters, scope), { ...filters });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Export core payments
+ * GET /api/exports/payments?format=&paymentFrom=&paymentTo= + the client list filters
+ * (stage and saleTypeId filter the payments themselves)
+ * Access: admin, manager (own team unless supervisor)
+ */
+export const exportPaymentsController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const query = req.query as Record<string, string | undefined>;
+    const format = parseFormat(query.format);
+    const filters = {
+      ...parseClientListFilters(query),
+      paymentFrom: parseDateParam(query.paymentFrom, "paymentFrom"),
+      paymentTo: parseDateParam(query.paymentTo, "paymentTo"),
+    };
+    const scope = await resolveScope(req);
+
+    await sendExport(req, res, "payments", format, getPaymentExport(filters, scope), { ...filters });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Export product payments with their entity details flattened into columns
+ * GET /api/exports/product-payments?format=&productName=&entityType=&paymentFrom=&paymentTo= + the client list filters
+ * Access: admin, manager (own team unless supervisor)
+ */
+export const exportProductPaymentsController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const query = req.query as Record<string, string | undefined>;
+    const format = parseFormat(query.format);
+
+    if (query.entityType && !entityTypeEnum.enumValues.includes(query.entityType as EntityType)) {
+      throw new Error(`Invalid entityType. Must be one of: ${entityTypeEnum.enumValues.join(", ")}`);
+    }
+
+    const filters = {
+      ...parseClientListFilters(query),
+      productName: query.productName?.trim().toUpperCase() || undefined,
+      entityType: query.entityType as EntityType | undefined,
+      paymentFrom: parseDateParam(query.paymentFrom, "paymentFrom"),
+      paymentTo: parseDateParam(query.paymentTo, "paymentTo"),
+    };
+    const scope = await resolveScope(req);
+
+    await sendExport(req, res, "product-payments", format, getProductPaymentExport(filters, scope), { ...filters });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Export activity logs (same role rules as GET /api/activity-logs)
+ * GET /api/exports/activity-logs?format=&clientId=&action=&entityType=&startDate=&endDate=
+ * Access: admin, manager (counsellor activities only)
+ */
+export const exportActivityLogsController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id || !req.user?.role) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const query = req.query as Record<string, string | undefined>;
+    const format = parseFormat(query.format);
+
+    const startDate = query.startDate ? new Date(query.startDate) : undefined;
+    const endDate = query.endDate ? new Date(query.endDate) : undefined;
+
+    if (startDate && isNaN(startDate.getTime())) {
+      throw new Error("Invalid startDate format. Use ISO date string (YYYY-MM-DD)");
+    }
+    if (endDate && isNaN(endDate.getTime())) {
+      throw new Error("Invalid endDate format. Use ISO date string (YYYY-MM-DD)");
+    }
+
+    const filters = {
+      userId: req.user.id,
+      userRole: req.user.role,
+      clientId: query.clientId ? Number(query.clientId) : undefined,
+      action: query.action || undefined,
+      entityType: query.entityType || undefined,
+      startDate,
+      endDate,
+    };
+
+    await sendExport(req, res, "activity-logs", format, getActivityLogExport(filters), {
+      clientId: filters.clientId,
+      action: filters.action,
+      entityType: filters.entityType,
+      startDate: query.startDate,
+      endDate: query.endDate,
+    });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
@@ -0,0 +1,175 @@
+import { Request, Response } from "express";
+import {
+  getInvoiceSequenceConfig,
+  updateInvoiceSequenceConfig,
+  getInvoiceNumbers,
+  voidInvoiceNumber,
+  InvoiceNumberStatus,
+} from "../models/invoiceSequence.model";
+import { logActivity } from "../services/activityLog.service";
+
+/**
+ * Get invoice sequence configuration
+ * GET /api/invoice-sequences/config
+ * Access: admin
+ */
+export const getInvoiceSequenceConfigController = async (req: Request, res: Response) => {
+  try {
+    const config = await getInvoiceSequenceConfig();
+
+    res.status(200).json({
+      success: true,
+      data: config,
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      message: error.message,
+    });
+  }
+};
+
+/**
+ * Update invoice sequence configuration
+ * PUT /api/invoice-sequences/config
+ * Access: admin
+ */
+export const updateInvoiceSequenceConfigController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+    }
+
+    const { prefix, format, padding, fyStartMonth, allowManualInvoiceNo } = req.body;
+
+    const { before, after } = await updateInvoiceSequenceConfig(
+      { prefix, format, padding, fyStartMonth, allowManualInvoiceNo },
+      req.user.id
+    );
+
+    try {
+      await logActivity(req, {
+        entityType: "invoice_sequence_config",
+        entityId: after.id,
+        action: "UPDATE",
+        oldValue: before,
+        newValue: after,
+        description: "Invoice sequence configuration updated",
+        performedBy: req.user.id,
+      });
+    } catch (activityError) {
+      // Don't fail the request if activity log fails
+      console.error("Activity log error in updateInvoiceSequenceConfigController:", activityError);
+    }
+
+    res.status(200).json({
+      success: true,
+      data: after,
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      message: error.message,
+    });
+  }
+};
+
+/**
+ * List allocated invoice numbers (e.g. ?status=voided for the voided ones)
+ * GET /api/invoice-sequences/numbers?status=&financialYear=
+ * Access: admin
+ */
+export const getInvoiceNumbersController = async (req: Request, res: Response) => {
+  try {
+    const status = req.query.status as string | undefined;
+    const validStatuses: InvoiceNumberStatus[] = ["reserved", "issued", "voided"];
+
+    if (status && !validStatuses.includes(status as InvoiceNumberStatus)) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid status. Must be one of: ${validStatuses.join(", ")}`,
+      });
+    }
+
+    const financialYear = req.query.financialYear as string | undefined;
+
+    const numbers = await getInvoiceNumbers({
+      status: status as InvoiceNumberStatus | undefined,
+      financialYear,
+    });
+
+    res.status(200).json({
+      success: true,
+      count: numbers.length,
+      data: numbers,
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      message: error.message,
+    });
+  }
+};
+
+/**
+ * Void an invoice number
+ * POST /api/invoice-sequences/numbers/:id/void
+ * Access: admin
+ */
+export const voidInvoiceNumberController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+    }
+
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id) || id <= 0) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid invoice number id",
+      });
+    }
+
+    const reason = typeof req.body.reason === "string" ? req.body.reason.trim() : "";
+    if (!reason) {
+      return res.status(400).json({
+        success: false,
+        message: "reason is required",
+      });
+    }
+
+    const { before, after } = await voidInvoiceNumber(id, reason, req.user.id);
+
+    try {
+      await logActivity(req, {
+        entityType: "invoice_number",
+        entityId: after.id,
+        action: "STATUS_CHANGE",
+        oldValue: before,
+        newValue: after,
+        description: `Invoice number ${after.invoiceNo} voided`,
+        metadata: { reason },
+        performedBy: req.user.id,
+      });
+    } catch (activityError) {
+      // Don't fail the request if activity log fails
+      console.error("Activity log error in voidInvoiceNumberController:", activityError);
+    }
+
+    res.status(200).json({
+      success: true,
+      data: after,
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      message: error.message,
+    });
+  }
+};
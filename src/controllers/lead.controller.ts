@@ -0,0 +1,295 @@
+import { Request, Response } from "express";
+import {
+  getLeads,
+  getLeadInScope,
+  createLead,
+  updateLead,
+  deleteLead,
+  convertLeadToClient,
+  LeadStatus,
+  LEAD_STATUSES,
+} from "../models/lead.model";
+import { findPossibleDuplicates, PossibleDuplicate } from "../models/clientDuplicate.model";
+import { logActivity } from "../services/activityLog.service";
+import { emitToCounsellor, emitDashboardUpdate } from "../config/socket";
+import { isValidDateString } from "../utils/validators";
+import { resolveScope } from "../utils/clientScope";
+
+const parseId = (value: unknown, field: string) => {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`Invalid ${field}`);
+  }
+  return parsed;
+};
+
+const parseDateParam = (value: string | undefined, field: string) => {
+  if (!value) return undefined;
+  if (!isValidDateString(value)) {
+    throw new Error(`Invalid ${field} format. Use YYYY-MM-DD`);
+  }
+  return value;
+};
+
+/**
+ * Leads visible to the user
+ * GET /api/leads?status=&counsellorId=&unassigned=true&leadTypeId=&leadSourceId=&referralAgentId=&search=&followUpDue=true&createdFrom=&createdTo=&limit=50&offset=0
+ * Access: admin, manager (own team + unassigned), counsellor (own leads)
+ */
+export const getLeadsController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const query = req.query as Record<string, string | undefined>;
+
+    if (query.status && !([...LEAD_STATUSES, "converted"] as string[]).includes(query.status)) {
+      throw new Error(`Invalid status. Must be one of: ${[...LEAD_STATUSES, "converted"].join(", ")}`);
+    }
+
+    const scope = await resolveScope(req);
+    const result = await getLeads(
+      {
+        status: query.status as LeadStatus | undefined,
+        counsellorId: query.counsellorId ? parseId(query.counsellorId, "counsellorId") : undefined,
+        unassigned: query.unassigned === "true",
+        leadTypeId: query.leadTypeId ? parseId(query.leadTypeId, "leadTypeId") : undefined,
+        leadSourceId: query.leadSourceId ? parseId(query.leadSourceId, "leadSourceId") : undefined,
+        referralAgentId: query.referralAgentId ? parseId(query.referralAgentId, "referralAgentId") : undefined,
+        search: query.search?.trim() || undefined,
+        followUpDue: query.followUpDue === "true",
+        createdFrom: parseDateParam(query.createdFrom, "createdFrom"),
+        createdTo: parseDateParam(query.createdTo, "createdTo"),
+        limit: query.limit ? Number(query.limit) : undefined,
+        offset: query.offset ? Number(query.offset) : undefined,
+      },
+      scope
+    );
+
+    res.status(200).json({ success: true, ...result });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Single lead
+ * GET /api/leads/:leadId
+ * Access: admin, manager (own team + unassigned), counsellor (own leads)
+ */
+export const getLeadController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const leadId = parseId(req.params.leadId, "leadId");
+    const lead = await getLeadInScope(leadId, await resolveScope(req));
+
+    res.status(200).json({ success: true, data: lead });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Create a lead
+ * POST /api/leads
+ * Body: { fullName, phone?, email?, leadSourceId?, referredByClientId?, referralAgentId?, leadTypeId?,
+ *         destinationCountry?, counsellorId?, status?, nextFollowUpDate?, lostReason?, notes? }
+ * The referrer must match the source's referral type (client or agent)
+ * Access: admin, manager (assign within own team), counsellor (assigned to themselves)
+ */
+export const createLeadController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const scope = await resolveScope(req);
+    const lead = await createLead(req.body || {}, scope);
+
+    try {
+      await logActivity(req, {
+        entityType: "lead",
+        entityId: lead.leadId,
+        action: "CREATE",
+        newValue: lead,
+        description: `Lead created: ${lead.fullName}`,
+        performedBy: req.user.id,
+      });
+    } catch (activityError) {
+      // Don't fail the request if activity log fails
+      console.error("Activity log error in createLeadController:", activityError);
+    }
+
+    if (lead.counsellorId && lead.counsellorId !== req.user.id) {
+      emitToCounsellor(lead.counsellorId, "lead:assigned", { lead, assignedBy: req.user.id });
+    }
+    emitDashboardUpdate("lead:created", { leadId: lead.leadId });
+
+    res.status(201).json({ success: true, data: lead });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Update a lead (details, assignment, status, follow-up date)
+ * PUT /api/leads/:leadId
+ * Body: any of the create fields; status "lost" requires lostReason
+ * Access: admin, manager (own team + unassigned), counsellor (own leads)
+ */
+export const updateLeadController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const leadId = parseId(req.params.leadId, "leadId");
+    const scope = await resolveScope(req);
+    const { before, after } = await updateLead(leadId, req.body || {}, scope);
+
+    if (before !== after) {
+      const statusChanged = before.status !== after.status;
+      try {
+        await logActivity(req, {
+          entityType: "lead",
+          entityId: leadId,
+          action: statusChanged ? "STATUS_CHANGE" : "UPDATE",
+          oldValue: before,
+          newValue: after,
+          description: statusChanged
+            ? `Lead ${after.fullName}: ${before.status} → ${after.status}`
+            : `Lead updated: ${after.fullName}`,
+          performedBy: req.user.id,
+        });
+      } catch (activityError) {
+        // Don't fail the request if activity log fails
+        console.error("Activity log error in updateLeadController:", activityError);
+      }
+
+      if (after.counsellorId && after.counsellorId !== before.counsellorId && after.counsellorId !== req.user.id) {
+        emitToCounsellor(after.counsellorId, "lead:assigned", { lead: after, assignedBy: req.user.id });
+      }
+      if (statusChanged) {
+        emitDashboardUpdate("lead:status-changed", { leadId, fromStatus: before.status, toStatus: after.status });
+      }
+    }
+
+    res.status(200).json({ success: true, data: after });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Delete a lead (converted leads are kept)
+ * DELETE /api/leads/:leadId
+ * Access: admin, manager (own team + unassigned)
+ */
+export const deleteLeadController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const leadId = parseId(req.params.leadId, "leadId");
+    const lead = await deleteLead(leadId, await resolveScope(req));
+
+    try {
+      await logActivity(req, {
+        entityType: "lead",
+        entityId: leadId,
+        action: "DELETE",
+        oldValue: lead,
+        description: `Lead deleted: ${lead.fullName}`,
+        performedBy: req.user.id,
+      });
+    } catch (activityError) {
+      // Don't fail the request if activity log fails
+      console.error("Activity log error in deleteLeadController:", activityError);
+    }
+
+    res.status(200).json({ success: true, message: "Lead deleted" });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Convert a lead into a client. Name, contact details, destination country, lead type and
+ * source / referrer are carried over from the lead; the client's counsellor is the lead's counsellor.
+ * POST /api/leads/:leadId/convert
+ * Body: { passportDetails, enrollmentDate, leadTypeId?, counsellorId?, address?, dateOfBirth?, nationality?, visaCategory? }
+ * Access: admin, manager (own team + unassigned), counsellor (own leads)
+ */
+export const convertLeadController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const leadId = parseId(req.params.leadId, "leadId");
+    const body = req.body || {};
+    const scope = await resolveScope(req);
+
+    const { before, after, client } = await convertLeadToClient(
+      leadId,
+      {
+        passportDetails: body.passportDetails,
+        enrollmentDate: body.enrollmentDate,
+        leadTypeId: body.leadTypeId ? parseId(body.leadTypeId, "leadTypeId") : undefined,
+        counsellorId: body.counsellorId ? parseId(body.counsellorId, "counsellorId") : undefined,
+        address: body.address,
+        dateOfBirth: body.dateOfBirth,
+        nationality: body.nationality,
+        visaCategory: body.visaCategory,
+      },
+      scope
+    );
+
+    try {
+      await logActivity(req, {
+        entityType: "client",
+        entityId: client.clientId,
+        clientId: client.clientId,
+        action: "CREATE",
+        newValue: client,
+        description: `Client created from lead #${leadId}: ${client.fullName}`,
+        metadata: { leadId },
+        performedBy: req.user.id,
+      });
+      await logActivity(req, {
+        entityType: "lead",
+        entityId: leadId,
+        clientId: client.clientId,
+        action: "STATUS_CHANGE",
+        oldValue: before,
+        newValue: after,
+        description: `Lead ${after.fullName} converted to client #${client.clientId}`,
+        performedBy: req.user.id,
+      });
+    } catch (activityError) {
+      // Don't fail the request if activity log fails
+      console.error("Activity log error in convertLeadController:", activityError);
+    }
+
+    if (client.counsellorId !== req.user.id) {
+      emitToCounsellor(client.counsellorId, "client:created", { action: "CREATED", client, leadId });
+    }
+    emitDashboardUpdate("lead:converted", { leadId, clientId: client.clientId });
+
+    let possibleDuplicates: PossibleDuplicate[] = [];
+    try {
+      possibleDuplicates = await findPossibleDuplicates(client, client.clientId);
+    } catch (duplicateError) {
+      console.error("Duplicate check error in convertLeadController:", duplicateError);
+    }
+
+    res.status(201).json({ success: true, data: { lead: after, client }, warnings: { possibleDuplicates } });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
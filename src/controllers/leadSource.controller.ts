@@ -0,0 +1,372 @@
+import { Request, Response } from "express";
+import {
+  getLeadSources,
+  createLeadSource,
+  updateLeadSource,
+  deleteLeadSource,
+  getReferralAgents,
+  createReferralAgent,
+  updateReferralAgent,
+  getLeadSourceCosts,
+  addLeadSourceCost,
+  deleteLeadSourceCost,
+  setClientAttribution,
+} from "../models/leadSource.model";
+import { logActivity } from "../services/activityLog.service";
+import { isValidDateString } from "../utils/validators";
+import { resolveScope } from "../utils/clientScope";
+
+const parseId = (value: unknown, field: string) => {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`Invalid ${field}`);
+  }
+  return parsed;
+};
+
+const parseDateParam = (value: string | undefined, field: string) => {
+  if (!value) return undefined;
+  if (!isValidDateString(value)) {
+    throw new Error(`Invalid ${field} format. Use YYYY-MM-DD`);
+  }
+  return value;
+};
+
+/**
+ * Acquisition sources in display order
+ * GET /api/lead-sources?includeInactive=true
+ * Access: admin, manager, counsellor
+ */
+export const getLeadSourcesController = async (req: Request, res: Response) => {
+  try {
+    const sources = await getLeadSources(req.query.includeInactive === "true");
+    res.status(200).json({ success: true, count: sources.length, data: sources });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Create a source
+ * POST /api/lead-sources
+ * Body: { code, name, referralType?: "none" | "client" | "agent", sortOrder?, isActive? }
+ * Access: admin
+ */
+export const createLeadSourceController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const source = await createLeadSource(req.body || {});
+
+    try {
+      await logActivity(req, {
+        entityType: "lead_source",
+        entityId: source.sourceId,
+        action: "CREATE",
+        newValue: source,
+        description: `Lead source created: ${source.name}`,
+        performedBy: req.user.id,
+      });
+    } catch (activityError) {
+      // Don't fail the request if activity log fails
+      console.error("Activity log error in createLeadSourceController:", activityError);
+    }
+
+    res.status(201).json({ success: true, data: source });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Update a source (code is immutable)
+ * PUT /api/lead-sources/:sourceId
+ * Access: admin
+ */
+export const updateLeadSourceController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const sourceId = parseId(req.params.sourceId, "sourceId");
+    const { before, after } = await updateLeadSource(sourceId, req.body || {});
+
+    if (before !== after) {
+      try {
+        await logActivity(req, {
+          entityType: "lead_source",
+          entityId: sourceId,
+          action: "UPDATE",
+          oldValue: before,
+          newValue: after,
+          description: `Lead source updated: ${after.name}`,
+          performedBy: req.user.id,
+        });
+      } catch (activityError) {
+        // Don't fail the request if activity log fails
+        console.error("Activity log error in updateLeadSourceController:", activityError);
+      }
+    }
+
+    res.status(200).json({ success: true, data: after });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Delete an unused source
+ * DELETE /api/lead-sources/:sourceId
+ * Access: admin
+ */
+export const deleteLeadSourceController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const sourceId = parseId(req.params.sourceId, "sourceId");
+    const source = await deleteLeadSource(sourceId);
+
+    try {
+      await logActivity(req, {
+        entityType: "lead_source",
+        entityId: sourceId,
+        action: "DELETE",
+        oldValue: source,
+        description: `Lead source deleted: ${source.name}`,
+        performedBy: req.user.id,
+      });
+    } catch (activityError) {
+      // Don't fail the request if activity log fails
+      console.error("Activity log error in deleteLeadSourceController:", activityError);
+    }
+
+    res.status(200).json({ success: true, message: "Lead source deleted" });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Referral agents / partners
+ * GET /api/lead-sources/agents?search=&includeInactive=true
+ * Access: admin, manager, counsellor
+ */
+export const getReferralAgentsController = async (req: Request, res: Response) => {
+  try {
+    const query = req.query as Record<string, string | undefined>;
+    const agents = await getReferralAgents({
+      search: query.search?.trim() || undefined,
+      includeInactive: query.includeInactive === "true",
+    });
+
+    res.status(200).json({ success: true, count: agents.length, data: agents });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Create a referral agent
+ * POST /api/lead-sources/agents
+ * Body: { name, company?, phone?, email?, notes?, isActive? }
+ * Access: admin, manager
+ */
+export const createReferralAgentController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const agent = await createReferralAgent(req.body || {}, req.user.id);
+
+    try {
+      await logActivity(req, {
+        entityType: "referral_agent",
+        entityId: agent.agentId,
+        action: "CREATE",
+        newValue: agent,
+        description: `Referral agent created: ${agent.name}`,
+        performedBy: req.user.id,
+      });
+    } catch (activityError) {
+      // Don't fail the request if activity log fails
+      console.error("Activity log error in createReferralAgentController:", activityError);
+    }
+
+    res.status(201).json({ success: true, data: agent });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Update a referral agent
+ * PUT /api/lead-sources/agents/:agentId
+ * Access: admin, manager
+ */
+export const updateReferralAgentController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const agentId = parseId(req.params.agentId, "agentId");
+    const { before, after } = await updateReferralAgent(agentId, req.body || {});
+
+    if (before !== after) {
+      try {
+        await logActivity(req, {
+          entityType: "referral_agent",
+          entityId: agentId,
+          action: "UPDATE",
+          oldValue: before,
+          newValue: after,
+          description: `Referral agent updated: ${after.name}`,
+          performedBy: req.user.id,
+        });
+      } catch (activityError) {
+        // Don't fail the request if activity log fails
+        console.error("Activity log error in updateReferralAgentController:", activityError);
+      }
+    }
+
+    res.status(200).json({ success: true, data: after });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Marketing spend entries, newest period first
+ * GET /api/lead-sources/costs?sourceId=&from=&to=
+ * Access: admin
+ */
+export const getLeadSourceCostsController = async (req: Request, res: Response) => {
+  try {
+    const query = req.query as Record<string, string | undefined>;
+    const costs = await getLeadSourceCosts({
+      sourceId: query.sourceId ? parseId(query.sourceId, "sourceId") : undefined,
+      from: parseDateParam(query.from, "from"),
+      to: parseDateParam(query.to, "to"),
+    });
+
+    res.status(200).json({ success: true, count: costs.length, data: costs });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Record spend for a source over a period
+ * POST /api/lead-sources/:sourceId/costs
+ * Body: { periodStart, periodEnd, amount, notes? }
+ * Access: admin
+ */
+export const addLeadSourceCostController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const sourceId = parseId(req.params.sourceId, "sourceId");
+    const cost = await addLeadSourceCost(sourceId, req.body || {}, req.user.id);
+
+    try {
+      await logActivity(req, {
+        entityType: "lead_source_cost",
+        entityId: cost.costId,
+        action: "CREATE",
+        newValue: cost,
+        description: `Source cost added: ${cost.amount} (${cost.periodStart} to ${cost.periodEnd})`,
+        metadata: { sourceId },
+        performedBy: req.user.id,
+      });
+    } catch (activityError) {
+      // Don't fail the request if activity log fails
+      console.error("Activity log error in addLeadSourceCostController:", activityError);
+    }
+
+    res.status(201).json({ success: true, data: cost });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Delete a spend entry
+ * DELETE /api/lead-sources/costs/:costId
+ * Access: admin
+ */
+export const deleteLeadSourceCostController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const costId = parseId(req.params.costId, "costId");
+    const cost = await deleteLeadSourceCost(costId);
+
+    try {
+      await logActivity(req, {
+        entityType: "lead_source_cost",
+        entityId: costId,
+        action: "DELETE",
+        oldValue: cost,
+        description: `Source cost deleted: ${cost.amount} (${cost.periodStart} to ${cost.periodEnd})`,
+        metadata: { sourceId: cost.sourceId },
+        performedBy: req.user.id,
+      });
+    } catch (activityError) {
+      // Don't fail the request if activity log fails
+      console.error("Activity log error in deleteLeadSourceCostController:", activityError);
+    }
+
+    res.status(200).json({ success: true, message: "Cost entry deleted" });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Set a client's source and referrer
+ * PUT /api/lead-sources/clients/:clientId/attribution
+ * Body: { leadSourceId, referredByClientId?, referralAgentId? }
+ * (the referrer must match the source's referral type; leadSourceId: null clears it)
+ * Access: admin, manager (own team), counsellor (own clients)
+ */
+export const setClientAttributionController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const clientId = parseId(req.params.clientId, "clientId");
+    const scope = await resolveScope(req);
+    const { before, after } = await setClientAttribution(clientId, req.body || {}, scope);
+
+    try {
+      await logActivity(req, {
+        entityType: "client_attribution",
+        entityId: clientId,
+        clientId,
+        action: "UPDATE",
+        oldValue: before,
+        newValue: after,
+        description: "Client source / referrer updated",
+        performedBy: req.user.id,
+      });
+    } catch (activityError) {
+      // Don't fail the request if activity log fails
+      console.error("Activity log error in setClientAttributionController:", activityError);
+    }
+
+    res.status(200).json({ success: true, data: { clientId, ...after } });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
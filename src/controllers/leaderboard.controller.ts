@@ -5,6 +5,19 @@ import {
   setTarget,
   updateTarget,
   getMonthlyEnrollmentGoal,
+  setTeamTargets,
+  getTargets,
+  validateTargetPeriod,
+  TargetPeriod,
+  TargetPeriodType,
+  getLeaderboardWeights,
+  updateLeaderboardWeights,
+  getTeamLeaderboard,
+  getTeamLeaderboardMembers,
+  snapshotLeaderboard,
+  getLeaderboardSnapshot,
+  getCounsellorRankHistory,
+  getLastClosedMonth,
 } from "../models/leaderboard.model";
 import { db } from "../config/databaseConnection";
 import { users } from "../schemas/users.schema";
@@ -13,10 +26,98 @@ import { eq, and } from "drizzle-orm";
 import { logActivity } from "../services/activityLog.service";
 import { emitToAdmin, emitToCounsellor, emitToCounsellors } from "../config/socket";
 
+const formatTargetPeriod = (period: TargetPeriod) =>
+  period.periodType === "quarter"
+    ? `Q${period.periodNumber} ${period.year}`
+    : `${period.periodNumber}/${period.year}`;
+
+// Notify admin, the counsellor's manager and the counsellor about a changed target.
+// Monthly targets also push the refreshed leaderboard and enrollment goal.
+const emitTargetUpdate = async (
+  action: string,
+  targetRow: typeof leaderBoard.$inferSelect,
+  managerId: number | null
+) => {
+  try {
+    const counsellorId = targetRow.counsellor_id;
+    const eventName = "leaderboard:updated";
+
+    if (targetRow.periodType !== "month") {
+      const eventData = {
+        action,
+        target: targetRow,
+        periodType: targetRow.periodType,
+        period: targetRow.periodNumber,
+        year: targetRow.periodYear,
+      };
+
+      emitToAdmin(eventName, eventData);
+      if (managerId) {
+        emitToCounsellor(managerId, eventName, eventData);
+      }
+      emitToCounsellor(counsellorId, eventName, eventData);
+      return;
+    }
+
+    const month = targetRow.periodNumber;
+    const year = targetRow.periodYear;
+
+    // Fetch fresh leaderboard data and summary
+    const [leaderboardData, summaryData] = await Promise.all([
+      getLeaderboard(month, year),
+      getLeaderboardSummary(month, year),
+    ]);
+
+    const eventData = {
+      action,
+      target: targetRow,
+      leaderboard: leaderboardData,
+      summary: summaryData,
+      month: month,
+      year: year,
+    };
+
+    // Emit to admin room
+    emitToAdmin(eventName, eventData);
+
+    // Emit to manager's room (the manager who owns the counsellor)
+    // This ensures manager sees updates even if admin set the target
+    if (managerId) {
+      emitToCounsellor(managerId, eventName, eventData);
+    }
+
+    // Emit to counsellor's room (notify the counsellor whose target was set)
+    emitToCounsellor(counsellorId, eventName, eventData);
+
+    // Also emit enrollment goal update for this counselor
+    try {
+      const enrollmentGoalData = await getMonthlyEnrollmentGoal(counsellorId, month, year);
+      emitToCounsellor(counsellorId, "enrollment-goal:updated", {
+        month: month,
+        year: year,
+        data: enrollmentGoalData,
+      });
+      // Also emit to admin/manager
+      emitToAdmin("enrollment-goal:updated", {
+        month: month,
+        year: year,
+        counsellorId: counsellorId,
+        data: enrollmentGoalData,
+      });
+    } catch (goalError) {
+      console.error("Enrollment goal update emit error:", goalError);
+    }
+  } catch (wsError) {
+    // Don't fail the request if WebSocket fails
+    console.error("WebSocket emit error in emitTargetUpdate:", wsError);
+  }
+};
+
 
 /* ==============================
    GET LEADERBOARD
-   GET /api/leaderboard?month=1&year=2026
+   GET /api/leaderboard?month=1&year=2026&scope=team
+   scope=team limits managers to their own team (admin: pass managerId)
 ============================== */
 export const getLeaderboardController = async (
   req: Request,
@@ -47,6 +148,39 @@ export const getLeaderboardController = async (
       });
     }
 
+    if (req.query.scope === "team") {
+      let managerId: number;
+
+      if (req.user?.role === "manager") {
+        managerId = req.user.id;
+      } else if (req.user?.role === "admin") {
+        managerId = parseInt(req.query.managerId as string);
+        if (isNaN(managerId) || managerId <= 0) {
+          return res.status(400).json({
+            success: false,
+            message: "managerId is required for admin when scope=team",
+          });
+        }
+      } else {
+        return res.status(403).json({
+          success: false,
+          message: "Only admin and manager can scope the leaderboard to a team",
+        });
+      }
+
+      const team = await getTeamLeaderboardMembers(managerId, month, year);
+      const { members, ...teamSummary } = team;
+
+      return res.status(200).json({
+        success: true,
+        data: members,
+        team: teamSummary,
+        scope: "team",
+        month,
+        year,
+      });
+    }
+
     const leaderboard = await getLeaderboard(month, year);
 
     res.status(200).json({
@@ -115,7 +249,8 @@ export const getLeaderboardSummaryController = async (
 /* ==============================
    SET TARGET FOR COUNSELLOR
    POST /api/leaderboard/target
-   Body: { counsellorId, target, month, year }
+   Body: { counsellorId, target, month, year } or { counsellorId, target, periodType: "quarter", quarter, year }
+   Optional metric targets: coreSaleRevenueTarget, coreProductTarget, otherProductRevenueTarget
 ============================== */
 export const setTargetController = async (req: Request, res: Response) => {
   try {
@@ -126,13 +261,15 @@ export const setTargetController = async (req: Request, res: Response) => {
       });
     }
 
-    const { counsellorId, target, month, year } = req.body;
+    const { counsellorId, target, month, quarter, year } = req.body;
+    const periodType: TargetPeriodType = req.body.periodType ?? "month";
+    const periodNumber = periodType === "quarter" ? quarter : month;
 
     // Validate required fields
-    if (!counsellorId || target === undefined || !month || !year) {
+    if (!counsellorId || target === undefined || !periodNumber || !year) {
       return res.status(400).json({
         success: false,
-        message: "counsellorId, target, month, and year are required",
+        message: `counsellorId, target, ${periodType === "quarter" ? "quarter" : "month"}, and year are required`,
       });
     }
 
@@ -144,20 +281,9 @@ export const setTargetController = async (req: Request, res: Response) => {
       });
     }
 
-    // Validate month and year
-    if (month < 1 || month > 12) {
-      return res.status(400).json({
-        success: false,
-        message: "Invalid month. Must be between 1 and 12",
-      });
-    }
-
-    if (year < 2000 || year > 3000) {
-      return res.status(400).json({
-        success: false,
-        message: "Invalid year",
-      });
-    }
+    // Validate period (month 1-12 / quarter 1-4, year)
+    const period: TargetPeriod = { periodType, periodNumber: Number(periodNumber), year: Number(year) };
+    validateTargetPeriod(period);
 
     const userId = req.user.id;
     const userRole = req.user.role;
@@ -236,7 +362,11 @@ export const setTargetController = async (req: Request, res: Response) => {
     }
 
     // Set the target
-    const result = await setTarget(counsellorId, managerId, target, month, year);
+    const result = await setTarget(counsellorId, managerId, target, period, {
+      coreSaleRevenueTarget: req.body.coreSaleRevenueTarget,
+      coreProductTarget: req.body.coreProductTarget,
+      otherProductRevenueTarget: req.body.otherProductRevenueTarget,
+    });
 
     // Log activity
     try {
@@ -250,10 +380,11 @@ export const setTargetController = async (req: Request, res: Response) => {
           counsellorId: counsellorId,
           managerId: managerId,
           target: target,
-          month: month,
-          year: year,
+          periodType: period.periodType,
+          period: period.periodNumber,
+          year: period.year,
         },
-        description: `Target ${result.action === "CREATED" ? "set" : "updated"} for counsellor: ${target} enrollments for ${month}/${year}`,
+        description: `Target ${result.action === "CREATED" ? "set" : "updated"} for counsellor: ${target} enrollments for ${formatTargetPeriod(period)}`,
         performedBy: userId,
       });
     } catch (activityError) {
@@ -261,57 +392,7 @@ export const setTargetController = async (req: Request, res: Response) => {
     }
 
     // Emit WebSocket event for real-time updates
-    try {
-      // Fetch fresh leaderboard data and summary
-      const [leaderboardData, summaryData] = await Promise.all([
-        getLeaderboard(month, year),
-        getLeaderboardSummary(month, year),
-      ]);
-
-      const eventName = "leaderboard:updated";
-      const eventData = {
-        action: result.action,
-        target: result.target,
-        leaderboard: leaderboardData,
-        summary: summaryData,
-        month: month,
-        year: year,
-      };
-
-      // Emit to admin room
-      emitToAdmin(eventName, eventData);
-
-      // Emit to manager's room (the manager who owns the counsellor)
-      // This ensures manager sees updates even if admin set the target
-      if (managerId) {
-        emitToCounsellor(managerId, eventName, eventData);
-      }
-
-      // Emit to counsellor's room (notify the counsellor whose target was set)
-      emitToCounsellor(counsellorId, eventName, eventData);
-
-      // Also emit enrollment goal update for this counselor
-      try {
-        const enrollmentGoalData = await getMonthlyEnrollmentGoal(counsellorId, month, year);
-        emitToCounsellor(counsellorId, "enrollment-goal:updated", {
-          month: month,
-          year: year,
-          data: enrollmentGoalData,
-        });
-        // Also emit to admin/manager
-        emitToAdmin("enrollment-goal:updated", {
-          month: month,
-          year: year,
-          counsellorId: counsellorId,
-          data: enrollmentGoalData,
-        });
-      } catch (goalError) {
-        console.error("Enrollment goal update emit error:", goalError);
-      }
-    } catch (wsError) {
-      // Don't fail the request if WebSocket fails
-      console.error("WebSocket emit error in setTargetController:", wsError);
-    }
+    await emitTargetUpdate(result.action, result.target, managerId);
 
     res.status(200).json({
       success: true,
@@ -329,7 +410,7 @@ export const setTargetController = async (req: Request, res: Response) => {
 /* ==============================
    UPDATE TARGET
    PUT /api/leaderboard/target/:id
-   Body: { target }
+   Body: { target, coreSaleRevenueTarget?, coreProductTarget?, otherProductRevenueTarget? }
 ============================== */
 export const updateTargetController = async (req: Request, res: Response) => {
   try {
@@ -391,7 +472,11 @@ export const updateTargetController = async (req: Request, res: Response) => {
     }
 
     // Update the target
-    const updated = await updateTarget(targetId, target);
+    const updated = await updateTarget(targetId, target, {
+      coreSaleRevenueTarget: req.body.coreSaleRevenueTarget,
+      coreProductTarget: req.body.coreProductTarget,
+      otherProductRevenueTarget: req.body.otherProductRevenueTarget,
+    });
 
     // Log activity
     try {
@@ -410,64 +495,7 @@ export const updateTargetController = async (req: Request, res: Response) => {
     }
 
     // Emit WebSocket event for real-time updates
-    try {
-      // Get month and year from the updated target's createdAt
-      const createdAt = updated.createdAt;
-      if (createdAt) {
-        const month = createdAt.getMonth() + 1;
-        const year = createdAt.getFullYear();
-
-        // Fetch fresh leaderboard data and summary
-        const [leaderboardData, summaryData] = await Promise.all([
-          getLeaderboard(month, year),
-          getLeaderboardSummary(month, year),
-        ]);
-
-        const eventName = "leaderboard:updated";
-        const eventData = {
-          action: "UPDATED",
-          target: updated,
-          leaderboard: leaderboardData,
-          summary: summaryData,
-          month: month,
-          year: year,
-        };
-
-        // Emit to admin room
-        emitToAdmin(eventName, eventData);
-
-        // Emit to manager's room (the manager who owns the counsellor)
-        // This ensures manager sees updates even if admin updated the target
-        if (updated.manager_id) {
-          emitToCounsellor(updated.manager_id, eventName, eventData);
-        }
-
-        // Emit to counsellor's room (notify the counsellor whose target was updated)
-        emitToCounsellor(updated.counsellor_id, eventName, eventData);
-
-        // Also emit enrollment goal update for this counselor
-        try {
-          const enrollmentGoalData = await getMonthlyEnrollmentGoal(updated.counsellor_id, month, year);
-          emitToCounsellor(updated.counsellor_id, "enrollment-goal:updated", {
-            month: month,
-            year: year,
-            data: enrollmentGoalData,
-          });
-          // Also emit to admin/manager
-          emitToAdmin("enrollment-goal:updated", {
-            month: month,
-            year: year,
-            counsellorId: updated.counsellor_id,
-            data: enrollmentGoalData,
-          });
-        } catch (goalError) {
-          console.error("Enrollment goal update emit error:", goalError);
-        }
-      }
-    } catch (wsError) {
-      // Don't fail the request if WebSocket fails
-      console.error("WebSocket emit error in updateTargetController:", wsError);
-    }
+    await emitTargetUpdate("UPDATED", updated, updated.manager_id);
 
     res.status(200).json({
       success: true,
@@ -567,3 +595,486 @@ export const getMonthlyEnrollmentGoalController = async (
     });
   }
 };
+
+/* ==============================
+   SET TEAM TARGETS (BULK)
+   POST /api/leaderboard/targets/bulk
+   Body: { periodType?, periods: [{ period, year }], managerId?, target?, metricTargets? | targets?: [{ counsellorId, target, ...metric targets }] }
+   Admin must pass managerId; managers always set targets for their own team
+============================== */
+export const setTeamTargetsController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+    }
+
+    const userId = req.user.id;
+    const userRole = req.user.role;
+
+    let managerId: number;
+
+    if (userRole === "manager") {
+      managerId = userId;
+    } else if (userRole === "admin") {
+      managerId = Number(req.body.managerId);
+      if (!managerId || isNaN(managerId)) {
+        return res.status(400).json({
+          success: false,
+          message: "managerId is required for admin",
+        });
+      }
+    } else {
+      return res.status(403).json({
+        success: false,
+        message: "Only admin and manager can set targets",
+      });
+    }
+
+    const saved = await setTeamTargets({
+      periodType: req.body.periodType,
+      periods: req.body.periods,
+      managerId,
+      target: req.body.target,
+      metricTargets: req.body.metricTargets,
+      targets: req.body.targets,
+    });
+
+    // Log activity
+    try {
+      await logActivity(req, {
+        entityType: "leaderboard",
+        entityId: null,
+        clientId: null,
+        action: "UPDATE",
+        newValue: saved.map((row) => ({
+          id: row.id,
+          counsellorId: row.counsellor_id,
+          target: row.target,
+          periodType: row.periodType,
+          period: row.periodNumber,
+          year: row.periodYear,
+        })),
+        description: `Team targets set for manager ${managerId}: ${saved.length} target(s)`,
+        metadata: {
+          managerId,
+          periodType: req.body.periodType ?? "month",
+          periods: req.body.periods,
+        },
+        performedBy: userId,
+      });
+    } catch (activityError) {
+      console.error("Activity log error in setTeamTargetsController:", activityError);
+    }
+
+    // Emit WebSocket event for real-time updates
+    try {
+      const eventName = "leaderboard:targets-updated";
+
+      emitToAdmin(eventName, { managerId, targets: saved });
+      emitToCounsellor(managerId, eventName, { managerId, targets: saved });
+
+      const byCounsellor = new Map<number, typeof saved>();
+      saved.forEach((row) => {
+        byCounsellor.set(row.counsellor_id, [...(byCounsellor.get(row.counsellor_id) ?? []), row]);
+      });
+
+      for (const [counsellorId, rows] of byCounsellor) {
+        emitToCounsellor(counsellorId, eventName, { targets: rows });
+      }
+    } catch (wsError) {
+      // Don't fail the request if WebSocket fails
+      console.error("WebSocket emit error in setTeamTargetsController:", wsError);
+    }
+
+    res.status(200).json({
+      success: true,
+      count: saved.length,
+      data: saved,
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      message: error.message,
+    });
+  }
+};
+
+/* ==============================
+   GET TARGETS OF A PERIOD
+   GET /api/leaderboard/targets?periodType=month&period=1&year=2026&managerId=
+   Managers only see their own team
+============================== */
+export const getTargetsController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+    }
+
+    const currentDate = new Date();
+    const periodType = (req.query.periodType as TargetPeriodType) || "month";
+    const defaultPeriod = periodType === "quarter"
+      ? Math.floor(currentDate.getMonth() / 3) + 1
+      : currentDate.getMonth() + 1;
+
+    const period: TargetPeriod = {
+      periodType,
+      periodNumber: req.query.period ? parseInt(req.query.period as string) : defaultPeriod,
+      year: req.query.year ? parseInt(req.query.year as string) : currentDate.getFullYear(),
+    };
+
+    const managerId = req.user.role === "manager"
+      ? req.user.id
+      : req.query.managerId
+        ? parseInt(req.query.managerId as string)
+        : undefined;
+
+    const targets = await getTargets(period, managerId);
+
+    res.status(200).json({
+      success: true,
+      count: targets.length,
+      data: targets,
+      periodType: period.periodType,
+      period: period.periodNumber,
+      year: period.year,
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      message: error.message,
+    });
+  }
+};
+
+/* ==============================
+   GET METRIC WEIGHTS
+   GET /api/leaderboard/weights
+============================== */
+export const getLeaderboardWeightsController = async (req: Request, res: Response) => {
+  try {
+    const weights = await getLeaderboardWeights();
+
+    res.status(200).json({
+      success: true,
+      data: weights,
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      message: error.message,
+    });
+  }
+};
+
+/* ==============================
+   UPDATE METRIC WEIGHTS
+   PUT /api/leaderboard/weights
+   Body: { enrollments?, coreSaleRevenue?, coreProductCount?, otherProductRevenue? }
+============================== */
+export const updateLeaderboardWeightsController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+    }
+
+    const { before, after } = await updateLeaderboardWeights(req.body, req.user.id);
+
+    // Log activity
+    try {
+      await logActivity(req, {
+        entityType: "leaderboard_weights",
+        entityId: after.id,
+        clientId: null,
+        action: "UPDATE",
+        oldValue: before,
+        newValue: after,
+        description: "Leaderboard metric weights updated",
+        performedBy: req.user.id,
+      });
+    } catch (activityError) {
+      console.error("Activity log error in updateLeaderboardWeightsController:", activityError);
+    }
+
+    res.status(200).json({
+      success: true,
+      data: after,
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      message: error.message,
+    });
+  }
+};
+
+// Month / year from the query string, defaulting to the current month
+const parseMonthYearQuery = (req: Request) => {
+  const currentDate = new Date();
+  const month = req.query.month
+    ? parseInt(req.query.month as string)
+    : currentDate.getMonth() + 1;
+  const year = req.query.year
+    ? parseInt(req.query.year as string)
+    : currentDate.getFullYear();
+
+  if (isNaN(month) || month < 1 || month > 12) {
+    throw new Error("Invalid month. Must be between 1 and 12");
+  }
+
+  if (isNaN(year) || year < 2000 || year > 3000) {
+    throw new Error("Invalid year");
+  }
+
+  return { month, year };
+};
+
+/* ==============================
+   GET TEAM LEADERBOARD
+   GET /api/leaderboard/teams?month=1&year=2026
+============================== */
+export const getTeamLeaderboardController = async (req: Request, res: Response) => {
+  try {
+    const { month, year } = parseMonthYearQuery(req);
+    const teams = await getTeamLeaderboard(month, year);
+
+    res.status(200).json({
+      success: true,
+      data: teams,
+      month,
+      year,
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      message: error.message,
+    });
+  }
+};
+
+/* ==============================
+   GET TEAM MEMBERS (DRILL-DOWN)
+   GET /api/leaderboard/teams/:managerId?month=1&year=2026
+   managerId = "unassigned" for counsellors without a manager
+   Managers (non-supervisor) and counsellors can only open their own team
+============================== */
+export const getTeamMembersController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+    }
+
+    const managerId = req.params.managerId === "unassigned"
+      ? null
+      : parseInt(req.params.managerId);
+
+    if (managerId !== null && (isNaN(managerId) || managerId <= 0)) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid manager ID",
+      });
+    }
+
+    const [requester] = await db
+      .select({ managerId: users.managerId, isSupervisor: users.isSupervisor })
+      .from(users)
+      .where(eq(users.id, req.user.id))
+      .limit(1);
+
+    const canView =
+      req.user.role === "admin" ||
+      (req.user.role === "manager" && (requester?.isSupervisor || managerId === req.user.id)) ||
+      (req.user.role === "counsellor" && (requester?.managerId ?? null) === managerId);
+
+    if (!canView) {
+      return res.status(403).json({
+        success: false,
+        message: "You can only view your own team",
+      });
+    }
+
+    const { month, year } = parseMonthYearQuery(req);
+    const team = await getTeamLeaderboardMembers(managerId, month, year);
+
+    res.status(200).json({
+      success: true,
+      data: team,
+      month,
+      year,
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      message: error.message,
+    });
+  }
+};
+
+/* ==============================
+   GET LEADERBOARD SNAPSHOT
+   GET /api/leaderboard/snapshots?month=1&year=2026 (defaults to the last closed month)
+============================== */
+export const getLeaderboardSnapshotController = async (req: Request, res: Response) => {
+  try {
+    const lastClosed = getLastClosedMonth();
+    const month = req.query.month ? parseInt(req.query.month as string) : lastClosed.month;
+    const year = req.query.year ? parseInt(req.query.year as string) : lastClosed.year;
+
+    if (isNaN(month) || month < 1 || month > 12) {
+      throw new Error("Invalid month. Must be between 1 and 12");
+    }
+
+    if (isNaN(year) || year < 2000 || year > 3000) {
+      throw new Error("Invalid year");
+    }
+
+    const snapshot = await getLeaderboardSnapshot(month, year);
+
+    res.status(200).json({
+      success: true,
+      data: snapshot,
+      month,
+      year,
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      message: error.message,
+    });
+  }
+};
+
+/* ==============================
+   CREATE LEADERBOARD SNAPSHOT
+   POST /api/leaderboard/snapshots
+   Body: { month, year, overwrite? } - re-freezes a closed month (e.g. after a correction)
+============================== */
+export const createLeaderboardSnapshotController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+    }
+
+    const month = parseInt(req.body.month);
+    const year = parseInt(req.body.year);
+
+    if (isNaN(month) || isNaN(year)) {
+      return res.status(400).json({
+        success: false,
+        message: "month and year are required",
+      });
+    }
+
+    const result = await snapshotLeaderboard(month, year, req.body.overwrite === true);
+
+    if (result.created) {
+      try {
+        await logActivity(req, {
+          entityType: "leaderboard_snapshot",
+          entityId: null,
+          clientId: null,
+          action: "CREATE",
+          newValue: result,
+          description: `Leaderboard snapshot created for ${month}/${year} (${result.count} counsellor(s))`,
+          performedBy: req.user.id,
+        });
+      } catch (activityError) {
+        console.error("Activity log error in createLeaderboardSnapshotController:", activityError);
+      }
+    }
+
+    res.status(result.created ? 201 : 200).json({
+      success: true,
+      data: result,
+      message: result.created
+        ? "Leaderboard snapshot created"
+        : "Snapshot already exists for this month (send overwrite: true to replace it)",
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      message: error.message,
+    });
+  }
+};
+
+/* ==============================
+   GET COUNSELLOR RANK HISTORY
+   GET /api/leaderboard/history/:counsellorId?periods=6
+   Counsellors only see their own history, managers their team (supervisors everyone)
+============================== */
+export const getCounsellorRankHistoryController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+    }
+
+    const counsellorId = parseInt(req.params.counsellorId);
+    if (isNaN(counsellorId) || counsellorId <= 0) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid counsellor ID",
+      });
+    }
+
+    if (req.user.role === "counsellor" && counsellorId !== req.user.id) {
+      return res.status(403).json({
+        success: false,
+        message: "You can only view your own rank history",
+      });
+    }
+
+    if (req.user.role === "manager") {
+      const [requester] = await db
+        .select({ isSupervisor: users.isSupervisor })
+        .from(users)
+        .where(eq(users.id, req.user.id))
+        .limit(1);
+
+      if (!requester?.isSupervisor) {
+        const [counsellor] = await db
+          .select({ managerId: users.managerId })
+          .from(users)
+          .where(eq(users.id, counsellorId))
+          .limit(1);
+
+        if (counsellor?.managerId !== req.user.id) {
+          return res.status(403).json({
+            success: false,
+            message: "You can only view your own team",
+          });
+        }
+      }
+    }
+
+    const periods = req.query.periods ? parseInt(req.query.periods as string) : 6;
+    const history = await getCounsellorRankHistory(counsellorId, periods);
+
+    res.status(200).json({
+      success: true,
+      data: history,
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      message: error.message,
+    });
+  }
+};
@@ -0,0 +1,216 @@
+import { Request, Response } from "express";
+import {
+  saveInstallmentSchedule,
+  getInstallmentsByClientId,
+  getOverdueInstallments,
+  getUpcomingInstallments,
+} from "../models/paymentInstallment.model";
+import { getClientInScope } from "../models/client.model";
+import { logActivity } from "../services/activityLog.service";
+import { emitToCounsellor, emitToAdmin } from "../config/socket";
+import { resolveScope } from "../utils/clientScope";
+
+const parseCounsellorId = (value: unknown) => {
+  if (value === undefined || value === "") return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error("Invalid counsellorId");
+  }
+  return parsed;
+};
+
+/**
+ * Save installment schedule for a client + sale type
+ * POST /api/client-payments/installments
+ */
+export const saveInstallmentScheduleController = async (
+  req: Request,
+  res: Response
+) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+    }
+
+    const clientId = Number(req.body.clientId);
+    if (!Number.isInteger(clientId) || clientId <= 0) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid clientId",
+      });
+    }
+
+    const client = await getClientInScope(clientId, await resolveScope(req));
+    if (!client) {
+      throw new Error("Client not found");
+    }
+
+    const oldValue = (await getInstallmentsByClientId(clientId)).filter(
+      (installment) => installment.saleType?.id === Number(req.body.saleTypeId)
+    );
+
+    const schedule = await saveInstallmentSchedule(req.body, req.user.id);
+
+    try {
+      await logActivity(req, {
+        entityType: "payment_installment",
+        entityId: clientId,
+        clientId: clientId,
+        action: oldValue.length > 0 ? "UPDATE" : "CREATE",
+        oldValue: oldValue.length > 0 ? oldValue : null,
+        newValue: schedule,
+        description: `Installment schedule saved: ${schedule.length} installment(s)`,
+        metadata: {
+          saleTypeId: Number(req.body.saleTypeId),
+          installmentCount: schedule.length,
+        },
+        performedBy: req.user.id,
+      });
+    } catch (activityError) {
+      // Don't fail the request if activity log fails
+      console.error("Activity log error in saveInstallmentScheduleController:", activityError);
+    }
+
+    // Emit WebSocket event for real-time updates
+    try {
+      const payload = { clientId, installments: schedule };
+      emitToCounsellor(client.counsellorId, "installments:updated", payload);
+      emitToAdmin("installments:updated", payload);
+    } catch (wsError) {
+      console.error("WebSocket emit error in saveInstallmentScheduleController:", wsError);
+    }
+
+    res.status(200).json({
+      success: true,
+      count: schedule.length,
+      data: schedule,
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      message: error.message,
+    });
+  }
+};
+
+/**
+ * Get installment schedule by client id
+ * GET /api/client-payments/installments/client/:clientId
+ */
+export const getClientInstallmentsController = async (
+  req: Request,
+  res: Response
+) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+    }
+
+    const clientId = Number(req.params.clientId);
+
+    if (Number.isNaN(clientId)) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid clientId",
+      });
+    }
+
+    if (!(await getClientInScope(clientId, await resolveScope(req)))) {
+      throw new Error("Client not found");
+    }
+
+    const installments = await getInstallmentsByClientId(clientId);
+
+    res.status(200).json({
+      success: true,
+      count: installments.length,
+      data: installments,
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      message: error.message,
+    });
+  }
+};
+
+/**
+ * Get overdue installments grouped by counsellor
+ * GET /api/client-payments/installments/overdue?counsellorId=
+ */
+export const getOverdueInstallmentsController = async (
+  req: Request,
+  res: Response
+) => {
+  try {
+    if (!req.user?.id || !req.user?.role) {
+      return res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+    }
+
+    const counsellorId = parseCounsellorId(req.query.counsellorId);
+    const scope = await resolveScope(req);
+    const data = await getOverdueInstallments(scope, counsellorId);
+
+    res.status(200).json({
+      success: true,
+      count: data.length,
+      data,
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      message: error.message,
+    });
+  }
+};
+
+/**
+ * Get installments due in the next N days grouped by counsellor
+ * GET /api/client-payments/installments/upcoming?days=7&counsellorId=
+ */
+export const getUpcomingInstallmentsController = async (
+  req: Request,
+  res: Response
+) => {
+  try {
+    if (!req.user?.id || !req.user?.role) {
+      return res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+    }
+
+    const days = req.query.days === undefined || req.query.days === "" ? 7 : Number(req.query.days);
+    if (!Number.isInteger(days) || days < 0 || days > 365) {
+      return res.status(400).json({
+        success: false,
+        message: "days must be an integer between 0 and 365",
+      });
+    }
+
+    const counsellorId = parseCounsellorId(req.query.counsellorId);
+    const scope = await resolveScope(req);
+    const data = await getUpcomingInstallments(scope, days, counsellorId);
+
+    res.status(200).json({
+      success: true,
+      days,
+      count: data.length,
+      data,
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      message: error.message,
+    });
+  }
+};
@@ -0,0 +1,287 @@
+import { Request, Response } from "express";
+import {
+  createRefund,
+  getRefunds,
+  getRefundById,
+  getRefundPaymentClientId,
+  approveRefund,
+  rejectRefund,
+  RefundStatus,
+} from "../models/paymentRefund.model";
+import { getDashboardStats } from "../models/dashboard.model";
+import { logActivity } from "../services/activityLog.service";
+import { emitToCounsellor, emitToAdmin, emitToRoles, emitDashboardUpdate } from "../config/socket";
+import { db } from "../config/databaseConnection";
+import { clientInformation } from "../schemas/clientInformation.schema";
+import { eq } from "drizzle-orm";
+import { getClientInScope } from "../models/client.model";
+import { resolveScope } from "../utils/clientScope";
+
+const getClientCounsellorId = async (clientId: number) => {
+  const [client] = await db
+    .select({ counsellorId: clientInformation.counsellorId })
+    .from(clientInformation)
+    .where(eq(clientInformation.clientId, clientId))
+    .limit(1);
+
+  return client?.counsellorId ?? null;
+};
+
+/**
+ * Request a refund / reversal / credit note against a payment
+ * POST /api/refunds
+ * Access: admin, manager (own team), counsellor (own clients)
+ */
+export const createRefundController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+    }
+
+    // Only payments of clients the caller can see
+    const clientId = await getRefundPaymentClientId(req.body || {});
+    if (clientId && !(await getClientInScope(clientId, await resolveScope(req)))) {
+      throw new Error("Payment not found");
+    }
+
+    const refund = await createRefund(req.body, req.user.id);
+
+    try {
+      await logActivity(req, {
+        entityType: "payment_refund",
+        entityId: refund.refundId,
+        clientId: refund.clientId,
+        action: "CREATE",
+        newValue: refund,
+        description: `${refund.refundType} requested: $${refund.amount}`,
+        metadata: {
+          clientPaymentId: refund.clientPaymentId,
+          productPaymentId: refund.productPaymentId,
+          amount: refund.amount,
+          status: refund.status,
+        },
+        performedBy: req.user.id,
+      });
+    } catch (activityError) {
+      // Don't fail the request if activity log fails
+      console.error("Activity log error in createRefundController:", activityError);
+    }
+
+    // Notify approvers
+    try {
+      emitToRoles(["admin", "manager"], "refund:requested", {
+        refundId: refund.refundId,
+        clientId: refund.clientId,
+        amount: refund.amount,
+        refundType: refund.refundType,
+        requestedBy: req.user.id,
+      });
+    } catch (wsError) {
+      console.error("WebSocket emit error in createRefundController:", wsError);
+    }
+
+    res.status(201).json({
+      success: true,
+      data: refund,
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      message: error.message,
+    });
+  }
+};
+
+/**
+ * List refunds
+ * GET /api/refunds?status=pending&clientId=
+ * Access: admin, manager (own team)
+ */
+export const getRefundsController = async (req: Request, res: Response) => {
+  try {
+    const status = req.query.status as string | undefined;
+    const validStatuses: RefundStatus[] = ["pending", "approved", "rejected"];
+
+    if (status && !validStatuses.includes(status as RefundStatus)) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid status. Must be one of: ${validStatuses.join(", ")}`,
+      });
+    }
+
+    const clientId = req.query.clientId ? Number(req.query.clientId) : undefined;
+    if (clientId !== undefined && (!Number.isInteger(clientId) || clientId <= 0)) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid clientId",
+      });
+    }
+
+    const refunds = await getRefunds(
+      {
+        status: status as RefundStatus | undefined,
+        clientId,
+      },
+      await resolveScope(req)
+    );
+
+    res.status(200).json({
+      success: true,
+      count: refunds.length,
+      data: refunds,
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      message: error.message,
+    });
+  }
+};
+
+/**
+ * Get refunds by client
+ * GET /api/refunds/client/:clientId
+ * Access: admin, manager (own team), counsellor (own clients)
+ */
+export const getClientRefundsController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+    }
+
+    const clientId = Number(req.params.clientId);
+
+    if (!Number.isInteger(clientId) || clientId <= 0) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid clientId",
+      });
+    }
+
+    const scope = await resolveScope(req);
+    if (!(await getClientInScope(clientId, scope))) {
+      throw new Error("Client not found");
+    }
+
+    const refunds = await getRefunds({ clientId }, scope);
+
+    res.status(200).json({
+      success: true,
+      count: refunds.length,
+      data: refunds,
+    });
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      message: error.message,
+    });
+  }
+};
+
+/**
+ * Approve / reject refund
+ * POST /api/refunds/:refundId/approve
+ * POST /api/refunds/:refundId/reject
+ * Access: admin, manager (own team)
+ */
+const reviewRefundController = (decision: "approved" | "rejected") =>
+  async (req: Request, res: Response) => {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({
+          success: false,
+          message: "Unauthorized",
+        });
+      }
+
+      const refundId = Number(req.params.refundId);
+      if (!refundId || !Number.isFinite(refundId) || refundId <= 0) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid refund ID",
+        });
+      }
+
+      const refund = await getRefundById(refundId);
+      if (!refund || !(await getClientInScope(refund.clientId, await resolveScope(req)))) {
+        throw new Error(`Refund not found with refundId: ${refundId}`);
+      }
+
+      const remarks = req.body?.remarks;
+      const { before, after } = decision === "approved"
+        ? await approveRefund(refundId, req.user.id, remarks)
+        : await rejectRefund(refundId, req.user.id, remarks);
+
+      try {
+        await logActivity(req, {
+          entityType: "payment_refund",
+          entityId: after.refundId,
+          clientId: after.clientId,
+          action: decision === "approved" ? "PAYMENT_REFUNDED" : "STATUS_CHANGE",
+          oldValue: before,
+          newValue: after,
+          description: decision === "approved"
+            ? `${after.refundType} approved: $${after.amount}`
+            : `${after.refundType} rejected: $${after.amount}`,
+          metadata: {
+            clientPaymentId: after.clientPaymentId,
+            productPaymentId: after.productPaymentId,
+            amount: after.amount,
+            refundDate: after.refundDate,
+            status: after.status,
+          },
+          performedBy: req.user.id,
+        });
+      } catch (activityError) {
+        console.error("Activity log error in reviewRefundController:", activityError);
+      }
+
+      try {
+        const event = decision === "approved" ? "refund:approved" : "refund:rejected";
+        const payload = {
+          refundId: after.refundId,
+          clientId: after.clientId,
+          amount: after.amount,
+          status: after.status,
+          reviewedBy: req.user.id,
+        };
+
+        const counsellorId = await getClientCounsellorId(after.clientId);
+        if (counsellorId) {
+          emitToCounsellor(counsellorId, event, payload);
+        }
+        emitToAdmin(event, payload);
+
+        // Approved refunds change revenue
+        if (decision === "approved") {
+          const dashboardStats = await getDashboardStats("today");
+          emitDashboardUpdate("dashboard:updated", {
+            filter: "today",
+            data: dashboardStats,
+          });
+        }
+      } catch (wsError) {
+        console.error("WebSocket emit error in reviewRefundController:", wsError);
+      }
+
+      res.status(200).json({
+        success: true,
+        message: decision === "approved" ? "Refund approved successfully" : "Refund rejected successfully",
+        data: after,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+  };
+
+export const approveRefundController = reviewRefundController("approved");
+export const rejectRefundController = reviewRefundController("rejected");
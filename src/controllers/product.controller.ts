@@ -0,0 +1,92 @@
+import { Request, Response } from "express";
+import {
+  createProduct,
+  getAllProducts,
+  updateProduct,
+  deleteProduct,
+  getProductSchema,
+} from "../models/product.model";
+
+/* ==============================
+   CREATE
+============================== */
+export const createProductController = async (
+  req: Request,
+  res: Response
+) => {
+  try {
+    const product = await createProduct(req.body);
+    res.status(201).json({ success: true, data: product });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/* ==============================
+   GET
+   ?leadType=student&activeOnly=true
+============================== */
+export const getProductsController = async (
+  req: Request,
+  res: Response
+) => {
+  try {
+    const products = await getAllProducts({
+      leadType: req.query.leadType as string | undefined,
+      activeOnly: req.query.activeOnly === "true",
+    });
+    res.json({ success: true, data: products });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/* ==============================
+   GET FIELD SCHEMA
+============================== */
+export const getProductSchemaController = async (
+  req: Request,
+  res: Response
+) => {
+  try {
+    const schema = await getProductSchema(String(req.params.code));
+    res.json({ success: true, data: schema });
+  } catch (error: any) {
+    res.status(404).json({ success: false, message: error.message });
+  }
+};
+
+/* ==============================
+   UPDATE
+============================== */
+export const updateProductController = async (
+  req: Request,
+  res: Response
+) => {
+  try {
+    const id = Number(req.params.id);
+    if (isNaN(id)) throw new Error("Invalid product id");
+    const updated = await updateProduct(id, req.body);
+    res.json({ success: true, data: updated });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/* ==============================
+   DELETE
+============================== */
+export const deleteProductController = async (
+  req: Request,
+  res: Response
+) => {
+  try {
+    const id = Number(req.params.id);
+    if (isNaN(id)) throw new Error("Invalid product id");
+
+    const result = await deleteProduct(id);
+    res.json({ success: true, data: result });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
@@ -0,0 +1,215 @@
+import { Request, Response } from "express";
+import {
+  createTask,
+  updateTask,
+  deleteTask,
+  getTaskInScope,
+  getTasksForClient,
+  getMyTasks,
+  MyTasksView,
+  TaskStatus,
+} from "../models/task.model";
+import { notifyTaskAssigned } from "../services/task.service";
+import { logActivity } from "../services/activityLog.service";
+import { resolveScope } from "../utils/clientScope";
+
+const parseId = (value: unknown, field: string) => {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`Invalid ${field}`);
+  }
+  return parsed;
+};
+
+const MY_TASK_VIEWS: MyTasksView[] = ["today", "overdue", "upcoming", "all"];
+
+/**
+ * My active tasks
+ * GET /api/tasks/my?view=today|overdue|upcoming|all
+ * Access: admin, manager, counsellor
+ */
+export const getMyTasksController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const view = (req.query.view as MyTasksView | undefined) ?? "all";
+    if (!MY_TASK_VIEWS.includes(view)) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid view. Must be one of: ${MY_TASK_VIEWS.join(", ")}`,
+      });
+    }
+
+    const { tasks, counts } = await getMyTasks(req.user.id, view);
+
+    res.status(200).json({ success: true, view, count: tasks.length, counts, data: tasks });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Tasks of a client
+ * GET /api/tasks/client/:clientId?status=
+ * Access: admin, manager (own team), counsellor (own clients)
+ */
+export const getClientTasksController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const clientId = parseId(req.params.clientId, "clientId");
+    const scope = await resolveScope(req);
+    const tasks = await getTasksForClient(clientId, scope, {
+      status: req.query.status as TaskStatus | undefined,
+    });
+
+    res.status(200).json({ success: true, count: tasks.length, data: tasks });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Create a task on a client
+ * POST /api/tasks/client/:clientId
+ * Access: admin, manager (own team), counsellor (own clients, assigned to self)
+ */
+export const createTaskController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const clientId = parseId(req.params.clientId, "clientId");
+    const scope = await resolveScope(req);
+    const task = await createTask(clientId, req.body, scope);
+
+    try {
+      await logActivity(req, {
+        entityType: "client_task",
+        entityId: task.taskId,
+        clientId,
+        action: "CREATE",
+        newValue: task,
+        description: `Task created: ${task.title}`,
+        performedBy: req.user.id,
+      });
+    } catch (activityError) {
+      // Don't fail the request if activity log fails
+      console.error("Activity log error in createTaskController:", activityError);
+    }
+
+    if (task.assignedTo !== req.user.id) {
+      notifyTaskAssigned(task);
+    }
+
+    res.status(201).json({ success: true, data: task });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Get task
+ * GET /api/tasks/:taskId
+ * Access: admin, manager (own team), counsellor (own clients / assigned)
+ */
+export const getTaskController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const taskId = parseId(req.params.taskId, "taskId");
+    const scope = await resolveScope(req);
+    const task = await getTaskInScope(taskId, scope);
+
+    res.status(200).json({ success: true, data: task });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Update task (title, description, dueDate, assignedTo, priority, status)
+ * PUT /api/tasks/:taskId
+ * Access: admin, manager (own team), counsellor (own clients / assigned)
+ */
+export const updateTaskController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const taskId = parseId(req.params.taskId, "taskId");
+    const scope = await resolveScope(req);
+    const { before, after } = await updateTask(taskId, req.body, scope);
+
+    try {
+      const statusChanged = before.status !== after.status;
+      await logActivity(req, {
+        entityType: "client_task",
+        entityId: taskId,
+        clientId: after.clientId,
+        action: statusChanged ? "STATUS_CHANGE" : "UPDATE",
+        oldValue: before,
+        newValue: after,
+        description: statusChanged
+          ? `Task "${after.title}" moved from ${before.status} to ${after.status}`
+          : `Task updated: ${after.title}`,
+        performedBy: req.user.id,
+      });
+    } catch (activityError) {
+      // Don't fail the request if activity log fails
+      console.error("Activity log error in updateTaskController:", activityError);
+    }
+
+    if (after.assignedTo !== before.assignedTo && after.assignedTo !== req.user.id) {
+      notifyTaskAssigned(after);
+    }
+
+    res.status(200).json({ success: true, data: after });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
+
+/**
+ * Delete task
+ * DELETE /api/tasks/:taskId
+ * Access: admin, manager (own team), counsellor (own clients / assigned)
+ */
+export const deleteTaskController = async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ success: false, message: "Unauthorized" });
+    }
+
+    const taskId = parseId(req.params.taskId, "taskId");
+    const scope = await resolveScope(req);
+    const deleted = await deleteTask(taskId, scope);
+
+    try {
+      await logActivity(req, {
+        entityType: "client_task",
+        entityId: taskId,
+        clientId: deleted.clientId,
+        action: "DELETE",
+        oldValue: deleted,
+        description: `Task deleted: ${deleted.title}`,
+        performedBy: req.user.id,
+      });
+    } catch (activityError) {
+      // Don't fail the request if activity log fails
+      console.error("Activity log error in deleteTaskController:", activityError);
+    }
+
+    res.status(200).json({ success: true, message: "Task deleted successfully" });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error.message });
+  }
+};
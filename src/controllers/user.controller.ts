@@ -3,7 +3,8 @@ import {
   createUser,
   getAllUsers,
   updateUserByAdmin,
-  deleteUserByAdmin,
+  deactivateUser,
+  reactivateUser,
   getAllManagers,
   getAllCounsellors,
   getCounsellorsByManagerId,
@@ -23,7 +24,7 @@ import { eq, gt, and } from "drizzle-orm";
 import jwt from "jsonwebtoken";
 import { Role } from "../types/role";
 import { AuthenticatedRequest } from "../types/express-auth";
-import { logActivity } from "../services/activityLog.service";
+import { logActivity, getIpAddress, getUserAgent } from "../services/activityLog.service";
 /* ================================
    REGISTER
 ================================ */
@@ -125,6 +126,10 @@ export const login = async (req: Request, res: Response) => {
     return res.status(401).json({ message: "Invalid credentials" });
   }
 
+  if (!user.isActive) {
+    return res.status(403).json({ message: "Account is deactivated" });
+  }
+
   // Get count of previous tokens before revoking (for logging)
   const previousTokensCount = await db
     .select()
@@ -352,6 +357,10 @@ export const refreshAccessToken = async (req: Request, res: Response) => {
     return res.status(401).json({ message: "User not found" });
   }
 
+  if (!dbUser.isActive) {
+    return res.status(401).json({ message: "Account is deactivated" });
+  }
+
   // Generate new access token
   const newAccessToken = generateAccessToken({
     userId: decoded.userId,
@@ -604,28 +613,101 @@ export const updateUserController = async (req: Request, res: Response) => {
   }
 };
 
-export const deleteUserController = async (req: Request, res: Response) => {
-  const targetUserId = Number(req.params.userId);
-  const authReq = req as AuthenticatedRequest;
-  const adminUserId = authReq.user.id;
+/* ================================
+   DEACTIVATE / REACTIVATE USER
+================================ */
 
-  const result = await deleteUserByAdmin(targetUserId, adminUserId);
+const parseOptionalUserId = (value: unknown, field: string) => {
+  if (value === undefined || value === null || value === "") return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`Invalid ${field}`);
+  }
+  return parsed;
+};
 
-  // Log activity
+// Body: { reassignToUserId?, newManagerId?, reason? }
+// reassignToUserId is required while the user still owns clients, open leads, open tasks or pending approvals
+export const deactivateUserController = async (req: Request, res: Response) => {
   try {
-    await logActivity(req, {
-      entityType: "user",
-      entityId: targetUserId,
-      clientId: null,
-      action: "DELETE",
-      description: `User deleted: ID ${targetUserId}`,
-      performedBy: adminUserId,
+    const targetUserId = Number(req.params.userId);
+    const authReq = req as AuthenticatedRequest;
+    const adminUserId = authReq.user.id;
+    const body = req.body || {};
+
+    if (!Number.isInteger(targetUserId) || targetUserId <= 0) {
+      return res.status(400).json({ success: false, message: "Invalid user ID" });
+    }
+
+    const result = await deactivateUser(targetUserId, adminUserId, {
+      reassignToUserId: parseOptionalUserId(body.reassignToUserId, "reassignToUserId"),
+      newManagerId: parseOptionalUserId(body.newManagerId, "newManagerId"),
+      reason: body.reason,
+      ipAddress: getIpAddress(req),
+      userAgent: getUserAgent(req),
     });
-  } catch (activityError) {
-    console.error("Activity log error in deleteUserController:", activityError);
+
+    // Log activity
+    try {
+      await logActivity(req, {
+        entityType: "user",
+        entityId: targetUserId,
+        clientId: null,
+        action: "STATUS_CHANGE",
+        oldValue: { isActive: true },
+        newValue: { isActive: false },
+        description: `User deactivated: ${result.user.fullName} (${result.user.role})`,
+        metadata: {
+          reassignedTo: result.reassignedTo,
+          newManager: result.newManager,
+          transferBatchId: result.transferBatchId,
+          reassigned: result.reassigned,
+          revokedSessions: result.revokedSessions,
+          reason: body.reason ?? null,
+        },
+        performedBy: adminUserId,
+      });
+    } catch (activityError) {
+      console.error("Activity log error in deactivateUserController:", activityError);
+    }
+
+    res.json({ success: true, message: "User deactivated successfully", data: result });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error?.message ?? String(error) });
   }
+};
+
+export const reactivateUserController = async (req: Request, res: Response) => {
+  try {
+    const targetUserId = Number(req.params.userId);
+    const authReq = req as AuthenticatedRequest;
+
+    if (!Number.isInteger(targetUserId) || targetUserId <= 0) {
+      return res.status(400).json({ success: false, message: "Invalid user ID" });
+    }
+
+    const user = await reactivateUser(targetUserId);
 
-  res.json({ success: true, message: result.message });
+    // Log activity
+    try {
+      await logActivity(req, {
+        entityType: "user",
+        entityId: targetUserId,
+        clientId: null,
+        action: "STATUS_CHANGE",
+        oldValue: { isActive: false },
+        newValue: { isActive: true },
+        description: `User reactivated: ${user.fullName} (${user.role})`,
+        performedBy: authReq.user.id,
+      });
+    } catch (activityError) {
+      console.error("Activity log error in reactivateUserController:", activityError);
+    }
+
+    res.json({ success: true, message: "User reactivated successfully", data: user });
+  } catch (error: any) {
+    res.status(400).json({ success: false, message: error?.message ?? String(error) });
+  }
 };
 
 export const getManagersDropdown = async (_req: Request, res: Response) => {
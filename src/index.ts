@@ -14,6 +14,17 @@ import leaderboardRoutes from "./routes/leaderboard.routes";
 import messageRoutes from "./routes/message.routes";
 import googleSheetRoutes from "./routes/googleSheet.routes";
 import allFinanceRoutes from "./routes/allFinance.routes";
+import paymentRefundRoutes from "./routes/paymentRefund.routes";
+import invoiceSequenceRoutes from "./routes/invoiceSequence.routes";
+import productRoutes from "./routes/product.routes";
+import approvalRoutes from "./routes/approval.routes";
+import commissionRoutes from "./routes/commission.routes";
+import taskRoutes from "./routes/task.routes";
+import caseStageRoutes from "./routes/caseStage.routes";
+import clientImportRoutes from "./routes/clientImport.routes";
+import exportRoutes from "./routes/export.routes";
+import leadRoutes from "./routes/lead.routes";
+import leadSourceRoutes from "./routes/leadSource.routes";
 import { healthController } from "./controllers/health.controller";
 
 const app: Application = express();
@@ -127,5 +138,16 @@ app.use("/api/leaderboard", leaderboardRoutes);
 app.use("/api/messages", messageRoutes);
 app.use("/api/google-sheets", googleSheetRoutes);
 app.use("/api/all-finance", allFinanceRoutes);
+app.use("/api/refunds", paymentRefundRoutes);
+app.use("/api/invoice-sequences", invoiceSequenceRoutes);
+app.use("/api/products", productRoutes);
+app.use("/api/approvals", approvalRoutes);
+app.use("/api/commissions", commissionRoutes);
+app.use("/api/tasks", taskRoutes);
+app.use("/api/case-pipeline", caseStageRoutes);
+app.use("/api/imports", clientImportRoutes);
+app.use("/api/exports", exportRoutes);
+app.use("/api/leads", leadRoutes);
+app.use("/api/lead-sources", leadSourceRoutes);
 
 export default app;
@@ -2,10 +2,10 @@ import { db } from "../config/databaseConnection";
 import { activityLog } from "../schemas/activityLog.schema";
 import { users } from "../schemas/users.schema";
 import { clientInformation } from "../schemas/clientInformation.schema";
-import { eq, and, or, desc, sql, gte, lte, isNotNull } from "drizzle-orm";
+import { eq, and, or, desc, sql, gte, lte, lt, isNotNull } from "drizzle-orm";
 import { Role } from "../types/role";
 
-interface GetActivityLogsFilters {
+export interface GetActivityLogsFilters {
   userId?: number;
   userRole?: Role;
   clientId?: number;
@@ -18,49 +18,12 @@ interface GetActivityLogsFilters {
 }
 
 /**
- * Get activity logs with role-based filtering
+ * WHERE conditions for role-based access + filters.
+ * Expects the query to be joined with users (performer) and client_information.
  */
-export const getActivityLogs = async (filters: GetActivityLogsFilters) => {
-  const {
-    userId,
-    userRole,
-    clientId,
-    action,
-    entityType,
-    startDate,
-    endDate,
-    limit = 50,
-    offset = 0,
-  } = filters;
-
-  let query = db
-    .select({
-      logId: activityLog.logId,
-      entityType: activityLog.entityType,
-      entityId: activityLog.entityId,
-      clientId: activityLog.clientId,
-      action: activityLog.action,
-      oldValue: activityLog.oldValue,
-      newValue: activityLog.newValue,
-      description: activityLog.description,
-      metadata: activityLog.metadata,
-      performedBy: activityLog.performedBy,
-      ipAddress: activityLog.ipAddress,
-      userAgent: activityLog.userAgent,
-      createdAt: activityLog.createdAt,
-      // Performer info
-      performerName: users.fullName,
-      performerEmail: users.email,
-      performerRole: users.role,
-      // Client info (if applicable)
-      clientName: clientInformation.fullName,
-    })
-    .from(activityLog)
-    .leftJoin(users, eq(activityLog.performedBy, users.id))
-    .leftJoin(
-      clientInformation,
-      eq(activityLog.clientId, clientInformation.clientId)
-    );
+const buildActivityLogConditions = (filters: GetActivityLogsFilters) => {
+  const { userId, userRole, clientId, action, entityType, startDate, endDate } =
+    filters;
 
   const conditions: any[] = [];
 
@@ -107,6 +70,46 @@ export const getActivityLogs = async (filters: GetActivityLogsFilters) => {
     conditions.push(lte(activityLog.createdAt, endDate));
   }
 
+  return conditions;
+};
+
+/**
+ * Get activity logs with role-based filtering
+ */
+export const getActivityLogs = async (filters: GetActivityLogsFilters) => {
+  const { limit = 50, offset = 0 } = filters;
+
+  let query = db
+    .select({
+      logId: activityLog.logId,
+      entityType: activityLog.entityType,
+      entityId: activityLog.entityId,
+      clientId: activityLog.clientId,
+      action: activityLog.action,
+      oldValue: activityLog.oldValue,
+      newValue: activityLog.newValue,
+      description: activityLog.description,
+      metadata: activityLog.metadata,
+      performedBy: activityLog.performedBy,
+      ipAddress: activityLog.ipAddress,
+      userAgent: activityLog.userAgent,
+      createdAt: activityLog.createdAt,
+      // Performer info
+      performerName: users.fullName,
+      performerEmail: users.email,
+      performerRole: users.role,
+      // Client info (if applicable)
+      clientName: clientInformation.fullName,
+    })
+    .from(activityLog)
+    .leftJoin(users, eq(activityLog.performedBy, users.id))
+    .leftJoin(
+      clientInformation,
+      eq(activityLog.clientId, clientInformation.clientId)
+    );
+
+  const conditions = buildActivityLogConditions(filters);
+
   // Apply all conditions
   if (conditions.length > 0) {
     query = query.where(and(...conditions)) as any;
@@ -125,9 +128,6 @@ export const getActivityLogs = async (filters: GetActivityLogsFilters) => {
  * Get total count of activity logs (for pagination)
  */
 export const getActivityLogsCount = async (filters: GetActivityLogsFilters) => {
-  const { userId, userRole, clientId, action, entityType, startDate, endDate } =
-    filters;
-
   let query = db
     .select({ count: sql<number>`count(*)` })
     .from(activityLog)
@@ -137,46 +137,7 @@ export const getActivityLogsCount = async (filters: GetActivityLogsFilters) => {
       eq(activityLog.clientId, clientInformation.clientId)
     );
 
-  const conditions: any[] = [];
-
-  // Role-based filtering (same as getActivityLogs)
-  if (userRole === "admin") {
-    // Admin sees all logs
-  } else if (userRole === "manager") {
-    conditions.push(eq(users.role, "counsellor"));
-  } else if (userRole === "counsellor" && userId) {
-    conditions.push(
-      or(
-        eq(activityLog.performedBy, userId),
-        and(
-          isNotNull(activityLog.clientId),
-          eq(clientInformation.counsellorId, userId),
-          eq(users.role, "manager")
-        )
-      )
-    );
-  }
-
-  // Additional filters
-  if (clientId) {
-    conditions.push(eq(activityLog.clientId, clientId));
-  }
-
-  if (action) {
-    conditions.push(eq(activityLog.action, action as any));
-  }
-
-  if (entityType) {
-    conditions.push(eq(activityLog.entityType, entityType));
-  }
-
-  if (startDate) {
-    conditions.push(gte(activityLog.createdAt, startDate));
-  }
-
-  if (endDate) {
-    conditions.push(lte(activityLog.createdAt, endDate));
-  }
+  const conditions = buildActivityLogConditions(filters);
 
   if (conditions.length > 0) {
     query = query.where(and(...conditions)) as any;
@@ -185,3 +146,43 @@ export const getActivityLogsCount = async (filters: GetActivityLogsFilters) => {
   const result = await query;
   return result[0]?.count || 0;
 };
+
+/**
+ * One batch of activity logs for an export, newest first.
+ * Keyset on the log id (instead of offset) so logs written during the export don't shift pages.
+ */
+export const getActivityLogsForExport = async (
+  filters: GetActivityLogsFilters,
+  beforeLogId: number | null,
+  batchSize: number
+) => {
+  const conditions = buildActivityLogConditions(filters);
+  if (beforeLogId) {
+    conditions.push(lt(activityLog.logId, beforeLogId));
+  }
+
+  return db
+    .select({
+      logId: activityLog.logId,
+      createdAt: activityLog.createdAt,
+      action: activityLog.action,
+      entityType: activityLog.entityType,
+      entityId: activityLog.entityId,
+      clientId: activityLog.clientId,
+      clientName: clientInformation.fullName,
+      description: activityLog.description,
+      performedBy: activityLog.performedBy,
+      performerName: users.fullName,
+      performerRole: users.role,
+      oldValue: activityLog.oldValue,
+      newValue: activityLog.newValue,
+      metadata: activityLog.metadata,
+      ipAddress: activityLog.ipAddress,
+    })
+    .from(activityLog)
+    .leftJoin(users, eq(activityLog.performedBy, users.id))
+    .leftJoin(clientInformation, eq(activityLog.clientId, clientInformation.clientId))
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(activityLog.logId))
+    .limit(batchSize);
+};
@@ -0,0 +1,680 @@
+import { db, DbTransaction } from "../config/databaseConnection";
+import {
+  approvalRules,
+  approvalRequests,
+  approvalActions,
+} from "../schemas/approval.schema";
+import { clientInformation } from "../schemas/clientInformation.schema";
+import { clientPayments } from "../schemas/clientPayment.schema";
+import { clientProductPayments } from "../schemas/clientProductPayments.schema";
+import { allFinance } from "../schemas/allFinance.schema";
+import { users } from "../schemas/users.schema";
+import { eq, and, desc, asc, sql, SQL } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { ClientListScope } from "./client.model";
+import { setProductPaymentAmount } from "./clientProductPayments.model";
+
+/* ==============================
+   TYPES
+============================== */
+export type ApprovalEntityType = "client_payment" | "product_payment";
+export type ApprovalStatus = "pending" | "approved" | "rejected";
+export type ApprovalDecision = "approved" | "rejected";
+
+export const APPROVER_ROLES = ["manager", "admin"] as const;
+
+interface ApprovalRuleInput {
+  name?: string;
+  entityType?: ApprovalEntityType;
+  productName?: string | null;
+  minAmount?: number | string | null;
+  levels?: string[];
+  isActive?: boolean;
+}
+
+interface SubmitForApprovalInput {
+  entityType: ApprovalEntityType;
+  entityId: number;
+  clientId: number;
+  productName?: string | null;
+  amount?: number | string | null;
+  // Amount stored before this edit; undefined for a new payment
+  currentAmount?: number | string | null;
+  requestedBy?: number | null;
+  // Used when no rule matches, e.g. partial finance payments always need a manager
+  fallbackLevels?: string[];
+  fallbackReason?: string;
+}
+
+const APPROVAL_ENTITY_TYPES: ApprovalEntityType[] = ["client_payment", "product_payment"];
+
+const isAdminRole = (role: string) => role === "admin" || role === "superadmin";
+
+/* ==============================
+   RULE HELPERS
+============================== */
+const normalizeLevels = (levels: unknown): string[] => {
+  if (!Array.isArray(levels) || levels.length === 0) {
+    throw new Error("levels must be a non-empty array of roles, e.g. [\"manager\", \"admin\"]");
+  }
+
+  const normalized = levels.map((level) => String(level).trim().toLowerCase());
+  const invalid = normalized.filter(
+    (level) => !APPROVER_ROLES.includes(level as (typeof APPROVER_ROLES)[number])
+  );
+
+  if (invalid.length > 0) {
+    throw new Error(`Invalid approver role(s): ${invalid.join(", ")}. Allowed: ${APPROVER_ROLES.join(", ")}`);
+  }
+
+  return normalized;
+};
+
+const normalizeMinAmount = (minAmount: unknown): string | null => {
+  if (minAmount === null || minAmount === undefined || minAmount === "") {
+    return null;
+  }
+
+  const value = Number(minAmount);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error("minAmount must be a positive number");
+  }
+
+  return value.toFixed(2);
+};
+
+/* ==============================
+   RULES CRUD
+============================== */
+export const createApprovalRule = async (data: ApprovalRuleInput, createdBy: number) => {
+  if (!data.name || !String(data.name).trim()) {
+    throw new Error("name is required");
+  }
+
+  if (!data.entityType || !APPROVAL_ENTITY_TYPES.includes(data.entityType)) {
+    throw new Error(`entityType must be one of: ${APPROVAL_ENTITY_TYPES.join(", ")}`);
+  }
+
+  const productName = data.productName ? String(data.productName).trim() : null;
+  if (productName && data.entityType !== "product_payment") {
+    throw new Error("productName can only be set on product_payment rules");
+  }
+
+  const [created] = await db
+    .insert(approvalRules)
+    .values({
+      name: String(data.name).trim(),
+      entityType: data.entityType,
+      productName,
+      minAmount: normalizeMinAmount(data.minAmount),
+      levels: normalizeLevels(data.levels),
+      isActive: data.isActive ?? true,
+      createdBy,
+    })
+    .returning();
+
+  return created;
+};
+
+export const getApprovalRules = async () => {
+  return db
+    .select()
+    .from(approvalRules)
+    .orderBy(asc(approvalRules.entityType), asc(approvalRules.ruleId));
+};
+
+export const updateApprovalRule = async (ruleId: number, data: ApprovalRuleInput) => {
+  const [current] = await db
+    .select()
+    .from(approvalRules)
+    .where(eq(approvalRules.ruleId, ruleId))
+    .limit(1);
+
+  if (!current) {
+    throw new Error("Approval rule not found");
+  }
+
+  const patch: Partial<typeof approvalRules.$inferInsert> = {};
+
+  if (data.name !== undefined) {
+    if (!String(data.name).trim()) throw new Error("name is required");
+    patch.name = String(data.name).trim();
+  }
+
+  if (data.productName !== undefined) {
+    const productName = data.productName ? String(data.productName).trim() : null;
+    if (productName && current.entityType !== "product_payment") {
+      throw new Error("productName can only be set on product_payment rules");
+    }
+    patch.productName = productName;
+  }
+
+  if (data.minAmount !== undefined) {
+    patch.minAmount = normalizeMinAmount(data.minAmount);
+  }
+
+  if (data.levels !== undefined) {
+    patch.levels = normalizeLevels(data.levels);
+  }
+
+  if (data.isActive !== undefined) {
+    patch.isActive = Boolean(data.isActive);
+  }
+
+  if (Object.keys(patch).length === 0) {
+    throw new Error("No fields to update");
+  }
+
+  const [updated] = await db
+    .update(approvalRules)
+    .set({ ...patch, updatedAt: new Date() })
+    .where(eq(approvalRules.ruleId, ruleId))
+    .returning();
+
+  return { before: current, after: updated };
+};
+
+export const deleteApprovalRule = async (ruleId: number) => {
+  const deleted = await db
+    .delete(approvalRules)
+    .where(eq(approvalRules.ruleId, ruleId))
+    .returning();
+
+  if (deleted.length === 0) {
+    throw new Error("Approval rule not found");
+  }
+
+  return deleted[0];
+};
+
+/* ==============================
+   ALL FINANCE
+   all_finance.approval_status mirrors the latest request of its product
+   payment, so the all-finance screens keep working off the same decision.
+============================== */
+const syncFinanceApprovalStatus = async (
+  tx: DbTransaction,
+  request: { entityType: ApprovalEntityType; entityId: number },
+  status: ApprovalStatus,
+  approvedBy: number | null
+) => {
+  if (request.entityType !== "product_payment") {
+    return;
+  }
+
+  await tx
+    .update(allFinance)
+    .set({ approvalStatus: status, approvedBy })
+    .where(
+      eq(
+        allFinance.financeId,
+        sql`(SELECT ${clientProductPayments.entityId} FROM ${clientProductPayments}
+          WHERE ${clientProductPayments.productPaymentId} = ${request.entityId}
+            AND ${clientProductPayments.entityType} = 'allFinance_id')`
+      )
+    );
+};
+
+// Writes an approved raise to the payment (a re-approval keeps the approved amount until then)
+const applyRaisedAmount = async (
+  tx: DbTransaction,
+  request: { entityType: ApprovalEntityType; entityId: number; amount: string | null }
+) => {
+  if (request.amount === null) {
+    return;
+  }
+
+  if (request.entityType === "client_payment") {
+    await tx
+      .update(clientPayments)
+      .set({ amount: request.amount })
+      .where(eq(clientPayments.paymentId, request.entityId));
+    return;
+  }
+
+  await setProductPaymentAmount(tx, request.entityId, request.amount);
+};
+
+/* ==============================
+   SUBMIT
+   Picks the most specific matching rule (product rule first, then the
+   highest amount threshold), or fallbackLevels when no rule applies.
+   Runs in the caller's transaction so a payment is never saved without
+   its request. Called for new payments and on every edit of a saved one
+   (with currentAmount = the amount stored before the edit):
+   - new / not yet approved: the whole payment waits (and is left out of
+     revenue) until approved; raising a pending amount restarts the request,
+     editing a rejected payment submits it again
+   - approved: only a raise needs approval. The request records the approved
+     amount, the caller keeps that amount on the payment (so it keeps counting)
+     and the raised amount is applied when the request is approved. Lowering the
+     amount again withdraws an open raise.
+   Returns the request the payment waits on, or null when nothing has to be approved.
+============================== */
+const toAmountString = (value: number | string | null | undefined) => {
+  if (value === null || value === undefined || value === "") return null;
+  const amount = Number(value);
+  return Number.isFinite(amount) ? amount.toFixed(2) : null;
+};
+
+export const submitForApproval = async (tx: DbTransaction, input: SubmitForApprovalInput) => {
+  const normalizedAmount = toAmountString(input.amount);
+  const amount = normalizedAmount !== null ? parseFloat(normalizedAmount) : null;
+  const isNew = input.currentAmount === undefined;
+
+  const rules = await tx
+    .select()
+    .from(approvalRules)
+    .where(
+      and(
+        eq(approvalRules.entityType, input.entityType),
+        eq(approvalRules.isActive, true)
+      )
+    );
+
+  const matching = rules
+    .filter((rule) => !rule.productName || rule.productName === input.productName)
+    .filter((rule) =>
+      rule.minAmount === null ||
+      (amount !== null && amount >= parseFloat(rule.minAmount))
+    )
+    .sort((a, b) => {
+      if (!!a.productName !== !!b.productName) return a.productName ? -1 : 1;
+      return parseFloat(b.minAmount ?? "0") - parseFloat(a.minAmount ?? "0");
+    });
+
+  const rule = matching[0];
+  const levels = rule?.levels ?? input.fallbackLevels ?? [];
+  const ruleComment = rule ? `Matched rule: ${rule.name}` : input.fallbackReason ?? null;
+
+  const [latest] = isNew
+    ? []
+    : await tx
+        .select()
+        .from(approvalRequests)
+        .where(
+          and(
+            eq(approvalRequests.entityType, input.entityType),
+            eq(approvalRequests.entityId, input.entityId)
+          )
+        )
+        .orderBy(desc(approvalRequests.requestId))
+        .limit(1)
+        .for("update");
+
+  const addAction = (requestId: number, action: "submitted" | "rejected", comment: string | null) =>
+    tx.insert(approvalActions).values({
+      requestId,
+      level: 0,
+      levelRole: null,
+      action,
+      comment,
+      actedBy: input.requestedBy ?? null,
+    });
+
+  const restart = async (request: typeof approvalRequests.$inferSelect, comment: string) => {
+    const [restarted] = await tx
+      .update(approvalRequests)
+      .set({
+        ruleId: rule?.ruleId ?? null,
+        amount: normalizedAmount,
+        levels,
+        currentLevel: 0,
+      })
+      .where(eq(approvalRequests.requestId, request.requestId))
+      .returning();
+
+    await addAction(restarted.requestId, "submitted", comment);
+    return restarted;
+  };
+
+  const create = async (approvedAmount: string | null, comment: string | null) => {
+    const [request] = await tx
+      .insert(approvalRequests)
+      .values({
+        ruleId: rule?.ruleId ?? null,
+        entityType: input.entityType,
+        entityId: input.entityId,
+        clientId: input.clientId,
+        productName: input.productName ?? null,
+        amount: normalizedAmount,
+        approvedAmount,
+        levels,
+        currentLevel: 0,
+        status: "pending",
+        requestedBy: input.requestedBy ?? null,
+      })
+      .returning();
+
+    await addAction(request.requestId, "submitted", comment);
+
+    // A re-approval leaves the (already approved) finance row as it is
+    if (approvedAmount === null) {
+      await syncFinanceApprovalStatus(tx, request, "pending", null);
+    }
+
+    return request;
+  };
+
+  const withRuleComment = (text: string) => `${text}${ruleComment ? `. ${ruleComment}` : ""}`;
+
+  // Not approved yet: the whole payment is under review
+  if (latest && latest.status !== "approved" && latest.approvedAmount === null) {
+    if (latest.status === "pending") {
+      const isRaised = normalizedAmount !== null &&
+        (latest.amount === null || amount! > parseFloat(latest.amount));
+
+      if (isRaised && levels.length > 0) {
+        return restart(latest, withRuleComment(`Amount raised from ${latest.amount ?? "-"} to ${normalizedAmount}`));
+      }
+      return latest;
+    }
+
+    // Rejected: any edit submits it again; with no rule left to apply it is approved as it is
+    if (levels.length === 0) {
+      const [request] = await tx
+        .insert(approvalRequests)
+        .values({
+          entityType: input.entityType,
+          entityId: input.entityId,
+          clientId: input.clientId,
+          productName: input.productName ?? null,
+          amount: normalizedAmount,
+          levels: [],
+          currentLevel: 0,
+          status: "approved",
+          requestedBy: input.requestedBy ?? null,
+          resolvedAt: new Date(),
+        })
+        .returning();
+
+      await addAction(request.requestId, "submitted", "Edited after rejection; no approval rule applies");
+      await syncFinanceApprovalStatus(tx, request, "approved", null);
+      return null;
+    }
+
+    return create(null, withRuleComment("Edited after rejection"));
+  }
+
+  // New payment
+  if (isNew) {
+    return levels.length > 0 ? create(null, ruleComment) : null;
+  }
+
+  // Approved (or never needed approval): only a raise over the approved amount is reviewed
+  const approvedAmount = toAmountString(input.currentAmount);
+  const openRaise = latest?.status === "pending" ? latest : null;
+
+  // Saving the approved amount unchanged (the payment shows it while a raise is open) keeps the raise
+  if (normalizedAmount === null || normalizedAmount === approvedAmount) {
+    return openRaise;
+  }
+
+  const isRaised = approvedAmount === null || amount! > parseFloat(approvedAmount);
+
+  if (!isRaised || levels.length === 0) {
+    if (openRaise) {
+      await tx
+        .update(approvalRequests)
+        .set({ status: "rejected", resolvedAt: new Date() })
+        .where(eq(approvalRequests.requestId, openRaise.requestId));
+
+      await addAction(
+        openRaise.requestId,
+        "rejected",
+        isRaised ? "Withdrawn: no approval rule applies to the new amount" : "Withdrawn: the amount is no longer raised"
+      );
+    }
+    return null;
+  }
+
+  if (openRaise) {
+    return openRaise.amount === normalizedAmount
+      ? openRaise
+      : restart(openRaise, withRuleComment(`Raise changed from ${openRaise.amount ?? "-"} to ${normalizedAmount}`));
+  }
+
+  return create(
+    approvedAmount,
+    withRuleComment(`Amount raised from ${approvedAmount ?? "-"} to ${normalizedAmount}`)
+  );
+};
+
+/* ==============================
+   READ
+============================== */
+const requesterUsers = alias(users, "requester_users");
+const counsellorUsers = alias(users, "counsellor_users");
+
+const requestSelection = {
+  requestId: approvalRequests.requestId,
+  ruleId: approvalRequests.ruleId,
+  entityType: approvalRequests.entityType,
+  entityId: approvalRequests.entityId,
+  clientId: approvalRequests.clientId,
+  clientName: clientInformation.fullName,
+  counsellorId: clientInformation.counsellorId,
+  counsellorName: counsellorUsers.fullName,
+  productName: approvalRequests.productName,
+  amount: approvalRequests.amount,
+  approvedAmount: approvalRequests.approvedAmount,
+  levels: approvalRequests.levels,
+  currentLevel: approvalRequests.currentLevel,
+  status: approvalRequests.status,
+  requestedBy: approvalRequests.requestedBy,
+  requestedByName: requesterUsers.fullName,
+  resolvedAt: approvalRequests.resolvedAt,
+  createdAt: approvalRequests.createdAt,
+};
+
+const getApprovalHistory = async (requestId: number) => {
+  return db
+    .select({
+      actionId: approvalActions.actionId,
+      level: approvalActions.level,
+      levelRole: approvalActions.levelRole,
+      action: approvalActions.action,
+      comment: approvalActions.comment,
+      actedBy: approvalActions.actedBy,
+      actedByName: users.fullName,
+      createdAt: approvalActions.createdAt,
+    })
+    .from(approvalActions)
+    .leftJoin(users, eq(approvalActions.actedBy, users.id))
+    .where(eq(approvalActions.requestId, requestId))
+    .orderBy(asc(approvalActions.createdAt), asc(approvalActions.actionId));
+};
+
+export const getApprovalRequestById = async (requestId: number) => {
+  const [request] = await db
+    .select(requestSelection)
+    .from(approvalRequests)
+    .innerJoin(clientInformation, eq(approvalRequests.clientId, clientInformation.clientId))
+    .leftJoin(counsellorUsers, eq(clientInformation.counsellorId, counsellorUsers.id))
+    .leftJoin(requesterUsers, eq(approvalRequests.requestedBy, requesterUsers.id))
+    .where(eq(approvalRequests.requestId, requestId))
+    .limit(1);
+
+  if (!request) {
+    return null;
+  }
+
+  return {
+    ...request,
+    pendingRole: request.status === "pending" ? request.levels[request.currentLevel] ?? null : null,
+    history: await getApprovalHistory(requestId),
+  };
+};
+
+export const getApprovalRequestsForEntity = async (
+  entityType: ApprovalEntityType,
+  entityId: number
+) => {
+  const requests = await db
+    .select({ requestId: approvalRequests.requestId })
+    .from(approvalRequests)
+    .where(
+      and(
+        eq(approvalRequests.entityType, entityType),
+        eq(approvalRequests.entityId, entityId)
+      )
+    )
+    .orderBy(desc(approvalRequests.createdAt));
+
+  const result = [];
+  for (const { requestId } of requests) {
+    const request = await getApprovalRequestById(requestId);
+    if (request) result.push(request);
+  }
+  return result;
+};
+
+/* ==============================
+   INBOX
+   Pending requests waiting at the approver's role.
+   Non-supervisor managers only see clients of their own counsellors.
+============================== */
+export const getApprovalInbox = async (
+  scope: ClientListScope,
+  filters: { status?: ApprovalStatus } = {}
+) => {
+  const conditions: SQL[] = [];
+  const status = filters.status ?? "pending";
+
+  conditions.push(eq(approvalRequests.status, status));
+
+  if (status === "pending") {
+    const role = isAdminRole(scope.role) ? "admin" : scope.role;
+    conditions.push(sql`${approvalRequests.levels} ->> ${approvalRequests.currentLevel} = ${role}`);
+  }
+
+  if (scope.role === "manager" && !scope.isSupervisor) {
+    conditions.push(eq(counsellorUsers.managerId, scope.userId));
+  }
+
+  const rows = await db
+    .select(requestSelection)
+    .from(approvalRequests)
+    .innerJoin(clientInformation, eq(approvalRequests.clientId, clientInformation.clientId))
+    .leftJoin(counsellorUsers, eq(clientInformation.counsellorId, counsellorUsers.id))
+    .leftJoin(requesterUsers, eq(approvalRequests.requestedBy, requesterUsers.id))
+    .where(and(...conditions))
+    .orderBy(asc(approvalRequests.createdAt));
+
+  return rows.map((row) => ({
+    ...row,
+    pendingRole: row.status === "pending" ? row.levels[row.currentLevel] ?? null : null,
+  }));
+};
+
+/* ==============================
+   APPROVE / REJECT
+   Admins can act on any level; managers only on manager levels
+   (and, unless supervisor, only for their own counsellors' clients).
+   Nobody can act on their own request or on two levels of the same request.
+============================== */
+export const actOnApprovalRequest = async (
+  requestId: number,
+  approver: ClientListScope,
+  decision: ApprovalDecision,
+  comment?: string | null
+) => {
+  const before = await getApprovalRequestById(requestId);
+
+  if (!before) {
+    throw new Error("Approval request not found");
+  }
+
+  if (before.status !== "pending") {
+    throw new Error(`Request is already ${before.status}`);
+  }
+
+  const levelRole = before.levels[before.currentLevel];
+  const normalizedComment = comment && String(comment).trim() !== "" ? String(comment).trim() : null;
+
+  if (decision === "rejected" && !normalizedComment) {
+    throw new Error("A comment is required when rejecting");
+  }
+
+  if (!isAdminRole(approver.role)) {
+    if (approver.role !== levelRole) {
+      throw new Error(`This request is waiting for ${levelRole} approval`);
+    }
+
+    if (approver.role === "manager" && !approver.isSupervisor) {
+      const [counsellor] = await db
+        .select({ managerId: users.managerId })
+        .from(users)
+        .where(eq(users.id, before.counsellorId))
+        .limit(1);
+
+      if (counsellor?.managerId !== approver.userId) {
+        throw new Error("You can only approve requests for your own team");
+      }
+    }
+  }
+
+  if (before.requestedBy === approver.userId) {
+    throw new Error("You cannot approve or reject your own request");
+  }
+
+  // A re-submitted request (amount raised) starts over, so only the actions since then count
+  const lastSubmitted = before.history.map((entry) => entry.action).lastIndexOf("submitted");
+  const currentRound = before.history.slice(lastSubmitted + 1);
+
+  if (
+    decision === "approved" &&
+    currentRound.some((entry) => entry.action === "approved" && entry.actedBy === approver.userId)
+  ) {
+    throw new Error("You have already approved a previous level of this request");
+  }
+
+  const isLastLevel = before.currentLevel >= before.levels.length - 1;
+  const nextStatus: ApprovalStatus =
+    decision === "rejected" ? "rejected" : isLastLevel ? "approved" : "pending";
+
+  await db.transaction(async (tx) => {
+    await tx.insert(approvalActions).values({
+      requestId,
+      level: before.currentLevel,
+      levelRole,
+      action: decision,
+      comment: normalizedComment,
+      actedBy: approver.userId,
+    });
+
+    // Only move forward if nobody acted on this level in the meantime
+    const [updated] = await tx
+      .update(approvalRequests)
+      .set({
+        status: nextStatus,
+        currentLevel: nextStatus === "pending" ? before.currentLevel + 1 : before.currentLevel,
+        resolvedAt: nextStatus === "pending" ? null : new Date(),
+      })
+      .where(
+        and(
+          eq(approvalRequests.requestId, requestId),
+          eq(approvalRequests.status, "pending"),
+          eq(approvalRequests.currentLevel, before.currentLevel)
+        )
+      )
+      .returning({ requestId: approvalRequests.requestId });
+
+    if (!updated) {
+      throw new Error("Request was updated by another approver. Please refresh.");
+    }
+
+    if (before.approvedAmount !== null) {
+      // Re-approval: the payment kept its approved amount, the raise is applied once approved
+      if (nextStatus === "approved") {
+        await applyRaisedAmount(tx, before);
+      }
+    } else if (nextStatus !== "pending") {
+      await syncFinanceApprovalStatus(tx, before, nextStatus, approver.userId);
+    }
+  });
+
+  const after = (await getApprovalRequestById(requestId))!;
+
+  return { before, after };
+};
@@ -0,0 +1,431 @@
+import { db } from "../config/databaseConnection";
+import { caseStages } from "../schemas/caseStage.schema";
+import { clientInformation } from "../schemas/clientInformation.schema";
+import { users } from "../schemas/users.schema";
+import { eq, and, asc, desc, ne, count, SQL } from "drizzle-orm";
+import { ClientListScope } from "./client.model";
+
+/* ==============================
+   TYPES
+============================== */
+interface CaseStageInput {
+  code?: string;
+  name?: string;
+  sortOrder?: number;
+  nextStageCodes?: string[] | null;
+  isInitial?: boolean;
+  isTerminal?: boolean;
+  isActive?: boolean;
+}
+
+export type CaseStage = typeof caseStages.$inferSelect;
+
+const isAdminRole = (role: string) => role === "admin" || role === "superadmin";
+
+/* ==============================
+   HELPERS
+============================== */
+const normalizeCode = (code: unknown) => {
+  const normalized = String(code ?? "").trim().toUpperCase();
+  if (!/^[A-Z0-9_]{2,50}$/.test(normalized)) {
+    throw new Error("code must be 2-50 characters of A-Z, 0-9 and _");
+  }
+  return normalized;
+};
+
+const toBoolean = (value: unknown, field: string) => {
+  if (typeof value !== "boolean") {
+    throw new Error(`${field} must be true or false`);
+  }
+  return value;
+};
+
+/**
+ * nextStageCodes must reference existing stages (and not the stage itself)
+ */
+const normalizeNextStageCodes = async (value: unknown, ownCode: string) => {
+  if (value === null) return null;
+  if (!Array.isArray(value)) {
+    throw new Error("nextStageCodes must be an array of stage codes or null");
+  }
+
+  const codes = [...new Set(value.map((code) => normalizeCode(code)))];
+  if (codes.includes(ownCode)) {
+    throw new Error("A stage cannot transition to itself");
+  }
+
+  const existing = await db.select({ code: caseStages.code }).from(caseStages);
+  const existingCodes = new Set(existing.map((stage) => stage.code));
+  const unknown = codes.filter((code) => !existingCodes.has(code));
+
+  if (unknown.length > 0) {
+    throw new Error(`Unknown stage code(s) in nextStageCodes: ${unknown.join(", ")}`);
+  }
+
+  return codes;
+};
+
+/**
+ * Stages reachable from `from`: the configured codes, otherwise the next active stage by sortOrder
+ */
+export const getAllowedNextStages = (from: CaseStage, stages: CaseStage[]) => {
+  const active = stages.filter((stage) => stage.isActive && stage.stageId !== from.stageId);
+
+  if (from.nextStageCodes) {
+    return active.filter((stage) => from.nextStageCodes!.includes(stage.code));
+  }
+
+  if (from.isTerminal) {
+    return [];
+  }
+
+  const next = active
+    .filter((stage) => stage.sortOrder > from.sortOrder)
+    .sort((a, b) => a.sortOrder - b.sortOrder)[0];
+
+  return next ? [next] : [];
+};
+
+/* ==============================
+   STAGES
+============================== */
+export const getCaseStages = async (includeInactive: boolean = false) => {
+  const stages = await db
+    .select()
+    .from(caseStages)
+    .where(includeInactive ? undefined : eq(caseStages.isActive, true))
+    .orderBy(asc(caseStages.sortOrder), asc(caseStages.stageId));
+
+  const allStages = includeInactive ? stages : await db.select().from(caseStages);
+
+  return stages.map((stage) => ({
+    ...stage,
+    allowedNextStages: getAllowedNextStages(stage, allStages).map((next) => next.code),
+  }));
+};
+
+export const getCaseStageById = async (stageId: number) => {
+  const [stage] = await db
+    .select()
+    .from(caseStages)
+    .where(eq(caseStages.stageId, stageId))
+    .limit(1);
+
+  return stage || null;
+};
+
+export const getInitialCaseStage = async () => {
+  const [stage] = await db
+    .select()
+    .from(caseStages)
+    .where(and(eq(caseStages.isInitial, true), eq(caseStages.isActive, true)))
+    .limit(1);
+
+  return stage || null;
+};
+
+export const createCaseStage = async (data: CaseStageInput) => {
+  const code = normalizeCode(data.code);
+  const name = String(data.name ?? "").trim();
+  if (!name) {
+    throw new Error("name is required");
+  }
+
+  const [existing] = await db
+    .select({ stageId: caseStages.stageId })
+    .from(caseStages)
+    .where(eq(caseStages.code, code))
+    .limit(1);
+
+  if (existing) {
+    throw new Error(`Stage ${code} already exists`);
+  }
+
+  const sortOrder = data.sortOrder !== undefined ? Number(data.sortOrder) : 0;
+  if (!Number.isInteger(sortOrder)) {
+    throw new Error("sortOrder must be an integer");
+  }
+
+  const nextStageCodes = data.nextStageCodes !== undefined
+    ? await normalizeNextStageCodes(data.nextStageCodes, code)
+    : null;
+  const isInitial = data.isInitial !== undefined ? toBoolean(data.isInitial, "isInitial") : false;
+
+  return db.transaction(async (tx) => {
+    // Only one initial stage
+    if (isInitial) {
+      await tx.update(caseStages).set({ isInitial: false, updatedAt: new Date() });
+    }
+
+    const [stage] = await tx
+      .insert(caseStages)
+      .values({
+        code,
+        name,
+        sortOrder,
+        nextStageCodes,
+        isInitial,
+        isTerminal: data.isTerminal !== undefined ? toBoolean(data.isTerminal, "isTerminal") : false,
+        isActive: data.isActive !== undefined ? toBoolean(data.isActive, "isActive") : true,
+      })
+      .returning();
+
+    return stage;
+  });
+};
+
+/* ==============================
+   UPDATE STAGE
+   The code is fixed once created (it is referenced by other stages' nextStageCodes)
+============================== */
+export const updateCaseStage = async (stageId: number, data: CaseStageInput) => {
+  const before = await getCaseStageById(stageId);
+  if (!before) {
+    throw new Error("Stage not found");
+  }
+
+  if (data.code !== undefined && normalizeCode(data.code) !== before.code) {
+    throw new Error("Stage code cannot be changed");
+  }
+
+  const updates: Partial<typeof caseStages.$inferInsert> = {};
+
+  if (data.name !== undefined) {
+    const name = String(data.name).trim();
+    if (!name) throw new Error("name is required");
+    updates.name = name;
+  }
+
+  if (data.sortOrder !== undefined) {
+    const sortOrder = Number(data.sortOrder);
+    if (!Number.isInteger(sortOrder)) throw new Error("sortOrder must be an integer");
+    updates.sortOrder = sortOrder;
+  }
+
+  if (data.nextStageCodes !== undefined) {
+    updates.nextStageCodes = await normalizeNextStageCodes(data.nextStageCodes, before.code);
+  }
+
+  if (data.isInitial !== undefined) updates.isInitial = toBoolean(data.isInitial, "isInitial");
+  if (data.isTerminal !== undefined) updates.isTerminal = toBoolean(data.isTerminal, "isTerminal");
+  if (data.isActive !== undefined) updates.isActive = toBoolean(data.isActive, "isActive");
+
+  if (Object.keys(updates).length === 0) {
+    throw new Error("No fields to update");
+  }
+
+  const after = await db.transaction(async (tx) => {
+    if (updates.isInitial) {
+      await tx
+        .update(caseStages)
+        .set({ isInitial: false, updatedAt: new Date() })
+        .where(ne(caseStages.stageId, stageId));
+    }
+
+    const [updated] = await tx
+      .update(caseStages)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(caseStages.stageId, stageId))
+      .returning();
+
+    return updated;
+  });
+
+  return { before, after };
+};
+
+/* ==============================
+   DELETE STAGE
+   Only when no client is in it; otherwise set isActive to false
+============================== */
+export const deleteCaseStage = async (stageId: number) => {
+  const stage = await getCaseStageById(stageId);
+  if (!stage) {
+    throw new Error("Stage not found");
+  }
+
+  const [inUse] = await db
+    .select({ total: count() })
+    .from(clientInformation)
+    .where(eq(clientInformation.caseStageId, stageId));
+
+  if (Number(inUse?.total || 0) > 0) {
+    throw new Error("Stage has clients and cannot be deleted. Set isActive to false instead.");
+  }
+
+  await db.delete(caseStages).where(eq(caseStages.stageId, stageId));
+
+  return stage;
+};
+
+/* ==============================
+   CLIENT STAGE
+   New clients get the initial stage in saveClient
+============================== */
+
+/**
+ * Move a client to another stage.
+ * Clients without a stage (created before the pipeline) can be placed in any active stage.
+ * Admins can skip the transition rules with `force`.
+ */
+export const changeClientCaseStage = async (
+  clientId: number,
+  target: { stageId?: number; stageCode?: string },
+  user: ClientListScope,
+  force: boolean = false
+) => {
+  const [client] = await db
+    .select({
+      clientId: clientInformation.clientId,
+      fullName: clientInformation.fullName,
+      counsellorId: clientInformation.counsellorId,
+      caseStageId: clientInformation.caseStageId,
+    })
+    .from(clientInformation)
+    .where(eq(clientInformation.clientId, clientId))
+    .limit(1);
+
+  if (!client) {
+    throw new Error("Client not found");
+  }
+
+  const stages = await db.select().from(caseStages);
+  const toStage = target.stageId
+    ? stages.find((stage) => stage.stageId === target.stageId)
+    : target.stageCode
+      ? stages.find((stage) => stage.code === normalizeCode(target.stageCode))
+      : undefined;
+
+  if (!toStage) {
+    throw new Error("Target stage not found");
+  }
+
+  if (!toStage.isActive) {
+    throw new Error(`Stage ${toStage.code} is inactive`);
+  }
+
+  const fromStage = stages.find((stage) => stage.stageId === client.caseStageId) || null;
+
+  if (fromStage?.stageId === toStage.stageId) {
+    throw new Error(`Client is already in stage ${toStage.code}`);
+  }
+
+  if (force && !isAdminRole(user.role)) {
+    throw new Error("Only admins can force a stage change");
+  }
+
+  if (fromStage && !force) {
+    const allowed = getAllowedNextStages(fromStage, stages);
+    if (!allowed.some((stage) => stage.stageId === toStage.stageId)) {
+      throw new Error(
+        allowed.length > 0
+          ? `Cannot move from ${fromStage.code} to ${toStage.code}. Allowed: ${allowed.map((stage) => stage.code).join(", ")}`
+          : `Stage ${fromStage.code} has no further transitions`
+      );
+    }
+  }
+
+  const changedAt = new Date();
+  await db
+    .update(clientInformation)
+    .set({ caseStageId: toStage.stageId, caseStageChangedAt: changedAt })
+    .where(eq(clientInformation.clientId, clientId));
+
+  return {
+    clientId,
+    fullName: client.fullName,
+    counsellorId: client.counsellorId,
+    fromStage: fromStage ? { stageId: fromStage.stageId, code: fromStage.code, name: fromStage.name } : null,
+    toStage: { stageId: toStage.stageId, code: toStage.code, name: toStage.name },
+    changedAt,
+    forced: force,
+  };
+};
+
+/* ==============================
+   KANBAN
+   Clients grouped by stage (active stages in pipeline order, plus clients without a stage).
+   Same scope as the client list; archived clients are excluded unless asked for.
+============================== */
+export const getCaseKanban = async (
+  scope: ClientListScope,
+  filters: { counsellorId?: number; includeArchived?: boolean } = {}
+) => {
+  const conditions: SQL[] = [];
+
+  if (scope.role === "counsellor") {
+    conditions.push(eq(clientInformation.counsellorId, scope.userId));
+  } else if (scope.role === "manager" && !scope.isSupervisor) {
+    conditions.push(eq(users.managerId, scope.userId));
+  }
+
+  if (filters.counsellorId) {
+    conditions.push(eq(clientInformation.counsellorId, filters.counsellorId));
+  }
+
+  if (!filters.includeArchived) {
+    conditions.push(eq(clientInformation.archived, false));
+  }
+
+  const [stages, clients] = await Promise.all([
+    db
+      .select()
+      .from(caseStages)
+      .orderBy(asc(caseStages.sortOrder), asc(caseStages.stageId)),
+    db
+      .select({
+        clientId: clientInformation.clientId,
+        fullName: clientInformation.fullName,
+        enrollmentDate: clientInformation.enrollmentDate,
+        destinationCountry: clientInformation.destinationCountry,
+        visaCategory: clientInformation.visaCategory,
+        caseStageId: clientInformation.caseStageId,
+        caseStageChangedAt: clientInformation.caseStageChangedAt,
+        archived: clientInformation.archived,
+        counsellorId: users.id,
+        counsellorName: users.fullName,
+      })
+      .from(clientInformation)
+      .innerJoin(users, eq(clientInformation.counsellorId, users.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(clientInformation.caseStageChangedAt), desc(clientInformation.clientId)),
+  ]);
+
+  const byStage = new Map<number | null, typeof clients>();
+  for (const client of clients) {
+    const key = client.caseStageId ?? null;
+    if (!byStage.has(key)) byStage.set(key, []);
+    byStage.get(key)!.push(client);
+  }
+
+  // Inactive stages only get a column while clients are still in them
+  const columns = stages
+    .filter((stage) => stage.isActive || byStage.has(stage.stageId))
+    .map((stage) => ({
+      stageId: stage.stageId as number | null,
+      code: stage.code,
+      name: stage.name,
+      isTerminal: stage.isTerminal,
+      isActive: stage.isActive,
+      count: byStage.get(stage.stageId)?.length ?? 0,
+      clients: byStage.get(stage.stageId) ?? [],
+    }));
+
+  const unstaged = byStage.get(null) ?? [];
+  if (unstaged.length > 0) {
+    columns.unshift({
+      stageId: null,
+      code: "UNASSIGNED",
+      name: "No stage",
+      isTerminal: false,
+      isActive: true,
+      count: unstaged.length,
+      clients: unstaged,
+    });
+  }
+
+  return {
+    total: clients.length,
+    columns,
+  };
+};
@@ -1,15 +1,19 @@
-import { db } from "../config/databaseConnection";
-import pool from "../config/databaseConnection";
+import { db, DbExecutor } from "../config/databaseConnection";
 import { clientInformation } from "../schemas/clientInformation.schema";
 import { clientPayments } from "../schemas/clientPayment.schema";
 import { clientProductPayments } from "../schemas/clientProductPayments.schema";
 import { users } from "../schemas/users.schema";
-import { eq, desc, inArray, and } from "drizzle-orm";
+import { approvalRequests } from "../schemas/approval.schema";
+import { eq, desc, asc, inArray, and, or, ilike, gte, lte, sql, count, SQL, AnyColumn } from "drizzle-orm";
 import { Request, Response } from "express";
-import { getPaymentsByClientId } from "./clientPayment.model";
+import { getPaymentsByClientId, PaymentStage } from "./clientPayment.model";
 import { getProductPaymentsByClientId } from "./clientProductPayments.model";
+import { getInstallmentsByClientId } from "./paymentInstallment.model";
+import { getClientFamilyMembers } from "./clientFamilyMember.model";
 import { leadTypes } from "../schemas/leadType.schema";
 import { saleTypes } from "../schemas/saleType.schema";
+import { Role } from "../types/role";
+import { isValidEmail, isValidPhone, isValidDateString, escapeLikePattern } from "../utils/validators";
 
 /* ==============================
    TYPES
@@ -20,8 +24,42 @@ interface SaveClientInput {
   enrollmentDate: string;
   passportDetails: string;
   leadTypeId: number;
+  phone?: string | null;
+  email?: string | null;
+  address?: string | null;
+  dateOfBirth?: string | null;
+  nationality?: string | null;
+  destinationCountry?: string | null;
+  visaCategory?: string | null;
+  applicationDate?: string | null;
+  decisionDate?: string | null;
 }
 
+// Optional profile fields (contacts, personal and visa details)
+export interface ClientProfile {
+  phone: string | null;
+  email: string | null;
+  address: string | null;
+  dateOfBirth: string | null;
+  nationality: string | null;
+  destinationCountry: string | null;
+  visaCategory: string | null;
+  applicationDate: string | null;
+  decisionDate: string | null;
+}
+
+const EMPTY_CLIENT_PROFILE: ClientProfile = {
+  phone: null,
+  email: null,
+  address: null,
+  dateOfBirth: null,
+  nationality: null,
+  destinationCountry: null,
+  visaCategory: null,
+  applicationDate: null,
+  decisionDate: null,
+};
+
 /* ==============================
    HELPER: Format date to DD-MM-YYYY
 ============================== */
@@ -66,12 +104,85 @@ const getEnrollmentYearMonth = (enrollmentDate: string | Date | null | undefined
   }
 };
 
+/* ==============================
+   HELPER: Normalize profile fields
+   undefined keeps the current value (on update), null / "" clears it
+============================== */
+const normalizeOptionalText = (value: unknown, field: string, maxLength: number) => {
+  if (value === null || value === undefined) return null;
+  const text = String(value).trim();
+  if (text.length === 0) return null;
+  if (text.length > maxLength) {
+    throw new Error(`${field} must be at most ${maxLength} characters`);
+  }
+  return text;
+};
+
+const normalizeOptionalDate = (value: unknown, field: string) => {
+  const text = normalizeOptionalText(value, field, 10);
+  if (text === null) return null;
+  if (!isValidDateString(text)) {
+    throw new Error(`Invalid ${field} format. Use YYYY-MM-DD`);
+  }
+  return text;
+};
+
+export const normalizeClientProfile = (
+  data: Partial<Record<keyof ClientProfile, unknown>>,
+  current: ClientProfile = EMPTY_CLIENT_PROFILE
+): ClientProfile => {
+  const pick = <K extends keyof ClientProfile>(field: K, normalize: (value: unknown) => ClientProfile[K]) =>
+    data[field] === undefined ? current[field] : normalize(data[field]);
+
+  const profile: ClientProfile = {
+    phone: pick("phone", (value) => {
+      const phone = normalizeOptionalText(value, "phone", 20);
+      if (phone !== null && !isValidPhone(phone)) {
+        throw new Error("Invalid phone number");
+      }
+      return phone;
+    }),
+    email: pick("email", (value) => {
+      const email = normalizeOptionalText(value, "email", 150)?.toLowerCase() ?? null;
+      if (email !== null && !isValidEmail(email)) {
+        throw new Error("Invalid email address");
+      }
+      return email;
+    }),
+    address: pick("address", (value) => normalizeOptionalText(value, "address", 500)),
+    dateOfBirth: pick("dateOfBirth", (value) => normalizeOptionalDate(value, "dateOfBirth")),
+    nationality: pick("nationality", (value) => normalizeOptionalText(value, "nationality", 100)),
+    destinationCountry: pick("destinationCountry", (value) =>
+      normalizeOptionalText(value, "destinationCountry", 100)
+    ),
+    visaCategory: pick("visaCategory", (value) => normalizeOptionalText(value, "visaCategory", 100)),
+    applicationDate: pick("applicationDate", (value) => normalizeOptionalDate(value, "applicationDate")),
+    decisionDate: pick("decisionDate", (value) => normalizeOptionalDate(value, "decisionDate")),
+  };
+
+  const today = new Date().toISOString().split("T")[0];
+  if (profile.dateOfBirth && profile.dateOfBirth > today) {
+    throw new Error("dateOfBirth cannot be in the future");
+  }
+
+  if (profile.applicationDate && profile.decisionDate && profile.decisionDate < profile.applicationDate) {
+    throw new Error("decisionDate cannot be before applicationDate");
+  }
+
+  return profile;
+};
+
 /* ==============================
    CREATE CLIENT
 ============================== */
+// Query text with positional parameters ($1, $2, ...) as Drizzle SQL, so it can run on a transaction
+const positionalSql = (text: string, values: unknown[]) =>
+  sql.join(text.split(/\$(\d+)/).map((part, index) => (index % 2 === 0 ? sql.raw(part) : sql`${values[Number(part) - 1]}`)));
+
 export const saveClient = async (
   data: SaveClientInput,
-  counsellorId: number
+  counsellorId: number,
+  executor: DbExecutor = db
 ) => {
   // Normalize clientId - convert string to number if needed
   const clientId = data.clientId ? Number(data.clientId) : undefined;
@@ -95,8 +206,8 @@ export const saveClient = async (
   }
 
   // 🔍 validate counsellor
-  const counsellor = await db
-    .select({ id: users.id })
+  const counsellor = await executor
+    .select({ id: users.id, isActive: users.isActive })
     .from(users)
     .where(eq(users.id, counsellorId));
 
@@ -104,8 +215,12 @@ export const saveClient = async (
     throw new Error("Invalid counsellor");
   }
 
+  if (!counsellor[0].isActive) {
+    throw new Error("Counsellor is deactivated");
+  }
+
   // 🔍 validate lead type
-  const leadType = await db
+  const leadType = await executor
     .select({ id: leadTypes.id })
     .from(leadTypes)
     .where(eq(leadTypes.id, normalizedLeadTypeId));
@@ -119,10 +234,24 @@ export const saveClient = async (
   ========================== */
   const trimmedFullName = fullName.trim();
 
+  let profile: ClientProfile;
+
   // If clientId is provided, validate it exists first
   if (clientId && Number.isFinite(clientId) && clientId > 0) {
-    const existingClient = await db
-      .select({ id: clientInformation.clientId, passportDetails: clientInformation.passportDetails })
+    const existingClient = await executor
+      .select({
+        id: clientInformation.clientId,
+        passportDetails: clientInformation.passportDetails,
+        phone: clientInformation.phone,
+        email: clientInformation.email,
+        address: clientInformation.address,
+        dateOfBirth: clientInformation.dateOfBirth,
+        nationality: clientInformation.nationality,
+        destinationCountry: clientInformation.destinationCountry,
+        visaCategory: clientInformation.visaCategory,
+        applicationDate: clientInformation.applicationDate,
+        decisionDate: clientInformation.decisionDate,
+      })
       .from(clientInformation)
       .where(eq(clientInformation.clientId, clientId));
 
@@ -130,9 +259,13 @@ export const saveClient = async (
       throw new Error("Client not found");
     }
 
+    // Profile fields left out of the request keep their current value
+    const { id, passportDetails: currentPassport, ...currentProfile } = existingClient[0];
+    profile = normalizeClientProfile(data, currentProfile);
+
     // Check for duplicate passportDetails if updating (exclude current client)
     if (existingClient[0].passportDetails !== trimmedPassportDetails) {
-      const [duplicateCheck] = await db
+      const [duplicateCheck] = await executor
         .select({ id: clientInformation.clientId })
         .from(clientInformation)
         .where(eq(clientInformation.passportDetails, trimmedPassportDetails))
@@ -143,8 +276,10 @@ export const saveClient = async (
       }
     }
   } else {
+    profile = normalizeClientProfile(data);
+
     // Check for duplicate passportDetails when creating new client
-    const [duplicateCheck] = await db
+    const [duplicateCheck] = await executor
       .select({ id: clientInformation.clientId })
       .from(clientInformation)
       .where(eq(clientInformation.passportDetails, trimmedPassportDetails))
@@ -160,34 +295,74 @@ export const saveClient = async (
   const upsertQuery = clientId && Number.isFinite(clientId) && clientId > 0
     ? `
       INSERT INTO client_information (
-        id, counsellor_id, fullname, date, passport_details, lead_type_id
-      ) VALUES ($1, $2, $3, $4, $5, $6)
+        id, counsellor_id, fullname, date, passport_details, lead_type_id,
+        phone, email, address, date_of_birth, nationality,
+        destination_country, visa_category, application_date, decision_date
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
       ON CONFLICT (id) DO UPDATE SET
         counsellor_id = EXCLUDED.counsellor_id,
         fullname = EXCLUDED.fullname,
         date = EXCLUDED.date,
         passport_details = EXCLUDED.passport_details,
-        lead_type_id = EXCLUDED.lead_type_id
+        lead_type_id = EXCLUDED.lead_type_id,
+        phone = EXCLUDED.phone,
+        email = EXCLUDED.email,
+        address = EXCLUDED.address,
+        date_of_birth = EXCLUDED.date_of_birth,
+        nationality = EXCLUDED.nationality,
+        destination_country = EXCLUDED.destination_country,
+        visa_category = EXCLUDED.visa_category,
+        application_date = EXCLUDED.application_date,
+        decision_date = EXCLUDED.decision_date
       WHERE (
         client_information.fullname IS DISTINCT FROM EXCLUDED.fullname
         OR client_information.date IS DISTINCT FROM EXCLUDED.date
         OR client_information.passport_details IS DISTINCT FROM EXCLUDED.passport_details
         OR client_information.lead_type_id IS DISTINCT FROM EXCLUDED.lead_type_id
+        OR client_information.phone IS DISTINCT FROM EXCLUDED.phone
+        OR client_information.email IS DISTINCT FROM EXCLUDED.email
+        OR client_information.address IS DISTINCT FROM EXCLUDED.address
+        OR client_information.date_of_birth IS DISTINCT FROM EXCLUDED.date_of_birth
+        OR client_information.nationality IS DISTINCT FROM EXCLUDED.nationality
+        OR client_information.destination_country IS DISTINCT FROM EXCLUDED.destination_country
+        OR client_information.visa_category IS DISTINCT FROM EXCLUDED.visa_category
+        OR client_information.application_date IS DISTINCT FROM EXCLUDED.application_date
+        OR client_information.decision_date IS DISTINCT FROM EXCLUDED.decision_date
       )
-      RETURNING id, counsellor_id, fullname, date, passport_details, lead_type_id;
+      RETURNING *;
     `
     : `
       INSERT INTO client_information (
-        counsellor_id, fullname, date, passport_details, lead_type_id
-      ) VALUES ($1, $2, $3, $4, $5)
-      RETURNING id, counsellor_id, fullname, date, passport_details, lead_type_id;
+        counsellor_id, fullname, date, passport_details, lead_type_id,
+        phone, email, address, date_of_birth, nationality,
+        destination_country, visa_category, application_date, decision_date,
+        case_stage_id, case_stage_changed_at
+      ) VALUES (
+        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14,
+        -- New clients start in the initial case stage (if one is configured)
+        (SELECT id FROM case_stage WHERE is_initial = true AND is_active = true LIMIT 1),
+        CASE WHEN EXISTS (SELECT 1 FROM case_stage WHERE is_initial = true AND is_active = true) THEN NOW() END
+      )
+      RETURNING *;
     `;
 
+  const profileValues = [
+    profile.phone,
+    profile.email,
+    profile.address,
+    profile.dateOfBirth,
+    profile.nationality,
+    profile.destinationCountry,
+    profile.visaCategory,
+    profile.applicationDate,
+    profile.decisionDate,
+  ];
+
   const values = clientId && Number.isFinite(clientId) && clientId > 0
-    ? [clientId, counsellorId, trimmedFullName, enrollmentDate, trimmedPassportDetails, normalizedLeadTypeId]
-    : [counsellorId, trimmedFullName, enrollmentDate, trimmedPassportDetails, normalizedLeadTypeId];
+    ? [clientId, counsellorId, trimmedFullName, enrollmentDate, trimmedPassportDetails, normalizedLeadTypeId, ...profileValues]
+    : [counsellorId, trimmedFullName, enrollmentDate, trimmedPassportDetails, normalizedLeadTypeId, ...profileValues];
 
-  const result = await pool.query(upsertQuery, values);
+  const result = await executor.execute<Record<string, any>>(positionalSql(upsertQuery, values));
   const rowCount = result.rowCount || 0;
   const row = result.rows[0];
 
@@ -210,6 +385,8 @@ export const saveClient = async (
       enrollmentDate: row.date,
       passportDetails: row.passport_details,
       leadTypeId: row.lead_type_id,
+      caseStageId: row.case_stage_id,
+      ...profile,
     },
     rowCount, // Include rowCount so controller can check if real change occurred
   };
@@ -317,6 +494,12 @@ export const getClientFullDetailsById = async (clientId: number) => {
     .where(eq(clientPayments.clientId, clientId))
     .orderBy(desc(clientPayments.paymentDate));
 
+  // 5. Installment schedule (planned payments with paid / overdue status)
+  const installments = await getInstallmentsByClientId(clientId);
+
+  // 6. Spouse / dependants
+  const familyMembers = await getClientFamilyMembers(clientId);
+
   return {
     client,
     leadType: {
@@ -325,6 +508,8 @@ export const getClientFullDetailsById = async (clientId: number) => {
     },
     payments: payments,
     productPayments: productPayments,
+    installments: installments,
+    familyMembers: familyMembers,
   };
 };
 
@@ -680,15 +865,6 @@ export const  getAllClients = async () => {
   return allClients;
 };
 
-export const updateClientCounsellor = async (clientId: number, counsellorId: number) => {
-  const result = await db
-    .update(clientInformation)
-    .set({ counsellorId: counsellorId })
-    .where(eq(clientInformation.clientId, clientId))
-    .returning({ clientId: clientInformation.clientId, counsellorId: clientInformation.counsellorId });
-  return result;
-};
-
 /* ==============================
    GET ALL CLIENTS FOR ADMIN (ALL COUNSELLORS)
    Returns: { [counsellorId]: { counsellor: {...}, clients: { [year]: { [month]: {...} } } } }
@@ -1357,3 +1533,339 @@ export const getAllArchivedClientsForAdmin = async () => {
 
   return result;
 };
+
+/* ==============================
+   SEARCH CLIENTS (SERVER-SIDE LIST)
+   Free-text search, filters, sorting and cursor pagination in one query.
+   Scope is applied the same way as the counsellor / manager / admin lists.
+============================== */
+export type ClientSortField = "enrollmentDate" | "fullName" | "clientId";
+
+export interface ClientListScope {
+  role: Role;
+  userId: number;
+  isSupervisor?: boolean;
+}
+
+export interface ClientListFilters {
+  search?: string;
+  leadTypeId?: number;
+  saleTypeId?: number;
+  stage?: PaymentStage;
+  counsellorId?: number;
+  managerId?: number;
+  enrollmentFrom?: string;
+  enrollmentTo?: string;
+  destinationCountry?: string;
+  visaCategory?: string;
+  archived?: boolean | "all";
+  hasPendingAmount?: boolean;
+  sortBy?: ClientSortField;
+  sortOrder?: "asc" | "desc";
+  limit?: number;
+  cursor?: string;
+}
+
+interface ClientListCursor {
+  v: string | number;
+  id: number;
+}
+
+export const encodeClientCursor = (cursor: ClientListCursor): string =>
+  Buffer.from(JSON.stringify(cursor)).toString("base64url");
+
+export const decodeClientCursor = (cursor: string): ClientListCursor => {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (parsed === null || typeof parsed !== "object" || !Number.isFinite(Number(parsed.id))) {
+      throw new Error();
+    }
+    return { v: parsed.v, id: Number(parsed.id) };
+  } catch {
+    throw new Error("Invalid cursor");
+  }
+};
+
+// Expected total per client (totalPayment is repeated on every payment row)
+export const clientExpectedAmountSql = sql<string>`COALESCE((
+  SELECT MAX(${clientPayments.totalPayment}) FROM ${clientPayments}
+  WHERE ${clientPayments.clientId} = ${clientInformation.clientId}
+), 0)`;
+
+// Paid so far - same stages the dashboard counts towards pending (SUBMITTED_VISA excluded)
+export const clientPaidAmountSql = sql<string>`COALESCE((
+  SELECT SUM(${clientPayments.amount}) FROM ${clientPayments}
+  WHERE ${clientPayments.clientId} = ${clientInformation.clientId}
+    AND ${clientPayments.stage} IN ('INITIAL', 'BEFORE_VISA', 'AFTER_VISA')
+), 0)`;
+
+// Counsellor credited with a payment: the client's counsellor when it was recorded
+export const paymentCounsellorSql = sql<number>`${clientPayments.creditedCounsellorId}`;
+
+export const productPaymentCounsellorSql = sql<number>`${clientProductPayments.creditedCounsellorId}`;
+
+// A payment counts towards revenue unless its latest approval request is still pending or was rejected.
+// Re-approvals (a raise of an approved payment) never hold it back: the payment keeps its approved amount
+const paymentApprovedFor = (entityType: "client_payment" | "product_payment", entityId: AnyColumn) => sql<boolean>`COALESCE((
+  SELECT ${approvalRequests.status} = 'approved' OR ${approvalRequests.approvedAmount} IS NOT NULL
+  FROM ${approvalRequests}
+  WHERE ${approvalRequests.entityType} = ${entityType}
+    AND ${approvalRequests.entityId} = ${entityId}
+  ORDER BY ${approvalRequests.requestId} DESC
+  LIMIT 1
+), TRUE)`;
+
+export const paymentApprovedSql = paymentApprovedFor("client_payment", clientPayments.paymentId);
+
+export const productPaymentApprovedSql = paymentApprovedFor("product_payment", clientProductPayments.productPaymentId);
+
+/**
+ * Build WHERE conditions for role scope + filters.
+ * Expects the query to be joined with users (the client's counsellor).
+ */
+export const buildClientListConditions = (
+  filters: ClientListFilters,
+  scope: ClientListScope
+): SQL[] => {
+  const conditions: SQL[] = [];
+
+  // Role scoping (same rules as getAllClientsController)
+  if (scope.role === "counsellor") {
+    conditions.push(eq(clientInformation.counsellorId, scope.userId));
+  } else if (scope.role === "manager" && !scope.isSupervisor) {
+    conditions.push(eq(users.managerId, scope.userId));
+  }
+
+  if (filters.archived !== "all") {
+    conditions.push(eq(clientInformation.archived, filters.archived ?? false));
+  }
+
+  if (filters.search) {
+    const term = `%${escapeLikePattern(filters.search.trim())}%`;
+    conditions.push(
+      or(
+        ilike(clientInformation.fullName, term),
+        ilike(clientInformation.passportDetails, term),
+        ilike(clientInformation.email, term),
+        ilike(clientInformation.phone, term)
+      )!
+    );
+  }
+
+  if (filters.leadTypeId) {
+    conditions.push(eq(clientInformation.leadTypeId, filters.leadTypeId));
+  }
+
+  if (filters.counsellorId) {
+    conditions.push(eq(clientInformation.counsellorId, filters.counsellorId));
+  }
+
+  if (filters.managerId) {
+    conditions.push(eq(users.managerId, filters.managerId));
+  }
+
+  if (filters.enrollmentFrom) {
+    conditions.push(gte(clientInformation.enrollmentDate, filters.enrollmentFrom));
+  }
+
+  if (filters.destinationCountry) {
+    conditions.push(ilike(clientInformation.destinationCountry, escapeLikePattern(filters.destinationCountry)));
+  }
+
+  if (filters.visaCategory) {
+    conditions.push(ilike(clientInformation.visaCategory, escapeLikePattern(filters.visaCategory)));
+  }
+
+  if (filters.enrollmentTo) {
+    conditions.push(lte(clientInformation.enrollmentDate, filters.enrollmentTo));
+  }
+
+  if (filters.saleTypeId) {
+    conditions.push(sql`EXISTS (
+      SELECT 1 FROM ${clientPayments}
+      WHERE ${clientPayments.clientId} = ${clientInformation.clientId}
+        AND ${clientPayments.saleTypeId} = ${filters.saleTypeId}
+    )`);
+  }
+
+  if (filters.stage) {
+    conditions.push(sql`EXISTS (
+      SELECT 1 FROM ${clientPayments}
+      WHERE ${clientPayments.clientId} = ${clientInformation.clientId}
+        AND ${clientPayments.stage} = ${filters.stage}
+    )`);
+  }
+
+  if (filters.hasPendingAmount !== undefined) {
+    conditions.push(
+      filters.hasPendingAmount
+        ? sql`(${clientExpectedAmountSql} - ${clientPaidAmountSql}) > 0`
+        : sql`(${clientExpectedAmountSql} - ${clientPaidAmountSql}) <= 0`
+    );
+  }
+
+  return conditions;
+};
+
+export const searchClients = async (
+  filters: ClientListFilters,
+  scope: ClientListScope
+) => {
+  const sortBy: ClientSortField = filters.sortBy ?? "enrollmentDate";
+  const sortOrder = filters.sortOrder ?? "desc";
+  const limit = Math.min(Math.max(filters.limit ?? 25, 1), 100);
+
+  const sortColumn =
+    sortBy === "fullName"
+      ? clientInformation.fullName
+      : sortBy === "clientId"
+        ? clientInformation.clientId
+        : clientInformation.enrollmentDate;
+
+  const conditions = buildClientListConditions(filters, scope);
+
+  // Total (without cursor) so the frontend can show "x of y"
+  const [totalResult] = await db
+    .select({ count: count() })
+    .from(clientInformation)
+    .innerJoin(users, eq(clientInformation.counsellorId, users.id))
+    .where(conditions.length > 0 ? and(...conditions) : undefined);
+
+  // Keyset pagination on (sortColumn, id) so ties on the sort column stay stable
+  const pageConditions = [...conditions];
+  if (filters.cursor) {
+    const cursor = decodeClientCursor(filters.cursor);
+    const cursorValue =
+      sortBy === "enrollmentDate" ? sql`${String(cursor.v)}::date`
+        : sortBy === "clientId" ? sql`${Number(cursor.v)}`
+        : sql`${String(cursor.v)}`;
+
+    pageConditions.push(
+      sortOrder === "asc"
+        ? sql`(${sortColumn}, ${clientInformation.clientId}) > (${cursorValue}, ${cursor.id})`
+        : sql`(${sortColumn}, ${clientInformation.clientId}) < (${cursorValue}, ${cursor.id})`
+    );
+  }
+
+  const direction = sortOrder === "asc" ? asc : desc;
+
+  const rows = await db
+    .select({
+      clientId: clientInformation.clientId,
+      fullName: clientInformation.fullName,
+      enrollmentDate: clientInformation.enrollmentDate,
+      passportDetails: clientInformation.passportDetails,
+      phone: clientInformation.phone,
+      email: clientInformation.email,
+      nationality: clientInformation.nationality,
+      destinationCountry: clientInformation.destinationCountry,
+      visaCategory: clientInformation.visaCategory,
+      applicationDate: clientInformation.applicationDate,
+      decisionDate: clientInformation.decisionDate,
+      archived: clientInformation.archived,
+      createdAt: clientInformation.createdAt,
+      counsellorId: users.id,
+      counsellorName: users.fullName,
+      counsellorDesignation: users.designation,
+      managerId: users.managerId,
+      leadTypeId: leadTypes.id,
+      leadType: leadTypes.leadType,
+      totalPayment: clientExpectedAmountSql,
+      paidAmount: clientPaidAmountSql,
+    })
+    .from(clientInformation)
+    .innerJoin(users, eq(clientInformation.counsellorId, users.id))
+    .leftJoin(leadTypes, eq(clientInformation.leadTypeId, leadTypes.id))
+    .where(pageConditions.length > 0 ? and(...pageConditions) : undefined)
+    .orderBy(direction(sortColumn), direction(clientInformation.clientId))
+    .limit(limit + 1);
+
+  const hasMore = rows.length > limit;
+  const pageRows = hasMore ? rows.slice(0, limit) : rows;
+  const last = pageRows[pageRows.length - 1];
+
+  const nextCursor = hasMore && last
+    ? encodeClientCursor({
+        v: sortBy === "fullName" ? last.fullName : sortBy === "clientId" ? last.clientId : last.enrollmentDate,
+        id: last.clientId,
+      })
+    : null;
+
+  const data = pageRows.map((row) => {
+    const totalPayment = parseFloat(row.totalPayment || "0");
+    const paidAmount = parseFloat(row.paidAmount || "0");
+    const enrollmentYearMonth = getEnrollmentYearMonth(row.enrollmentDate);
+
+    return {
+      clientId: row.clientId,
+      fullName: row.fullName,
+      passportDetails: row.passportDetails,
+      enrollmentDate: formatDateToDDMMYYYY(row.enrollmentDate),
+      enrollmentYear: enrollmentYearMonth?.year ?? null,
+      enrollmentMonth: enrollmentYearMonth?.month ?? null,
+      phone: row.phone,
+      email: row.email,
+      nationality: row.nationality,
+      destinationCountry: row.destinationCountry,
+      visaCategory: row.visaCategory,
+      applicationDate: row.applicationDate,
+      decisionDate: row.decisionDate,
+      archived: row.archived,
+      createdAt: row.createdAt,
+      counsellor: {
+        id: row.counsellorId,
+        name: row.counsellorName,
+        designation: row.counsellorDesignation || null,
+        managerId: row.managerId,
+      },
+      leadType: row.leadTypeId ? { id: row.leadTypeId, leadType: row.leadType } : null,
+      totalPayment: totalPayment.toFixed(2),
+      paidAmount: paidAmount.toFixed(2),
+      pendingAmount: Math.max(0, totalPayment - paidAmount).toFixed(2),
+    };
+  });
+
+  return {
+    data,
+    pagination: {
+      limit,
+      total: totalResult?.count || 0,
+      nextCursor,
+      hasMore,
+    },
+  };
+};
+
+/* ==============================
+   CLIENT ACCESS CHECK
+   Returns the client when it is visible in the given scope (same rules as the list),
+   null when it does not exist or belongs to another counsellor / team.
+============================== */
+export const getClientInScope = async (clientId: number, scope: ClientListScope) => {
+  const [client] = await db
+    .select({
+      clientId: clientInformation.clientId,
+      fullName: clientInformation.fullName,
+      counsellorId: clientInformation.counsellorId,
+      managerId: users.managerId,
+      archived: clientInformation.archived,
+    })
+    .from(clientInformation)
+    .leftJoin(users, eq(clientInformation.counsellorId, users.id))
+    .where(eq(clientInformation.clientId, clientId))
+    .limit(1);
+
+  if (!client) {
+    return null;
+  }
+
+  if (scope.role === "counsellor" && client.counsellorId !== scope.userId) {
+    return null;
+  }
+
+  if (scope.role === "manager" && !scope.isSupervisor && client.managerId !== scope.userId) {
+    return null;
+  }
+
+  return client;
+};
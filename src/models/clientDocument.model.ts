@@ -0,0 +1,244 @@
+import crypto from "crypto";
+import path from "path";
+import { db } from "../config/databaseConnection";
+import { clientDocuments } from "../schemas/clientDocument.schema";
+import { clientProductPayments } from "../schemas/clientProductPayments.schema";
+import { users } from "../schemas/users.schema";
+import { eq, and, desc, SQL } from "drizzle-orm";
+import { ClientListScope } from "./client.model";
+import { getDocumentStorage } from "../services/documentStorage.service";
+
+/* ==============================
+   TYPES
+============================== */
+export const CLIENT_DOCUMENT_TYPES = [
+  "PASSPORT",
+  "MARRIAGE_PHOTO_CERTIFICATE",
+  "AFFIDAVIT",
+  "IELTS_RESULT",
+  "LOAN_LETTER",
+  "VISA",
+  "OTHER",
+] as const;
+
+export type ClientDocumentType = (typeof CLIENT_DOCUMENT_TYPES)[number];
+
+export const MAX_DOCUMENT_SIZE_BYTES = 15 * 1024 * 1024; // 15 MB
+
+export const ALLOWED_DOCUMENT_MIME_TYPES = [
+  "application/pdf",
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "image/heic",
+  "application/msword",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+];
+
+interface UploadClientDocumentInput {
+  clientId: number;
+  productPaymentId?: number | null;
+  documentType: string;
+  fileName: string;
+  mimeType: string;
+  content: Buffer;
+  expiryDate?: string | null;
+  uploadedBy: number;
+}
+
+const documentSelection = {
+  documentId: clientDocuments.documentId,
+  clientId: clientDocuments.clientId,
+  productPaymentId: clientDocuments.productPaymentId,
+  documentType: clientDocuments.documentType,
+  fileName: clientDocuments.fileName,
+  mimeType: clientDocuments.mimeType,
+  sizeBytes: clientDocuments.sizeBytes,
+  checksum: clientDocuments.checksum,
+  expiryDate: clientDocuments.expiryDate,
+  uploadedBy: clientDocuments.uploadedBy,
+  uploadedByName: users.fullName,
+  createdAt: clientDocuments.createdAt,
+};
+
+/* ==============================
+   HELPERS
+============================== */
+const sanitizeFileName = (fileName: string) => {
+  const base = path.basename(String(fileName || "").trim()).replace(/[^A-Za-z0-9._ -]+/g, "_");
+  if (!base || base === "." || base === "..") {
+    throw new Error("fileName is required");
+  }
+  return base.slice(-255);
+};
+
+const validateExpiryDate = (expiryDate: string | null | undefined) => {
+  if (!expiryDate) return null;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(expiryDate) || isNaN(new Date(expiryDate).getTime())) {
+    throw new Error("Invalid expiryDate format. Use YYYY-MM-DD");
+  }
+  return expiryDate;
+};
+
+/* ==============================
+   UPLOAD
+   Writes the file to the configured storage, then records it.
+   The file is removed again when the insert fails.
+============================== */
+export const uploadClientDocument = async (input: UploadClientDocumentInput) => {
+  if (!CLIENT_DOCUMENT_TYPES.includes(input.documentType as ClientDocumentType)) {
+    throw new Error(`Invalid documentType. Allowed: ${CLIENT_DOCUMENT_TYPES.join(", ")}`);
+  }
+
+  const mimeType = String(input.mimeType || "").split(";")[0].trim().toLowerCase();
+  if (!ALLOWED_DOCUMENT_MIME_TYPES.includes(mimeType)) {
+    throw new Error(`Unsupported file type. Allowed: ${ALLOWED_DOCUMENT_MIME_TYPES.join(", ")}`);
+  }
+
+  if (!input.content || input.content.length === 0) {
+    throw new Error("File is empty");
+  }
+
+  if (input.content.length > MAX_DOCUMENT_SIZE_BYTES) {
+    throw new Error(`File is too large (max ${MAX_DOCUMENT_SIZE_BYTES / (1024 * 1024)} MB)`);
+  }
+
+  const fileName = sanitizeFileName(input.fileName);
+  const expiryDate = validateExpiryDate(input.expiryDate);
+
+  if (input.productPaymentId) {
+    const [productPayment] = await db
+      .select({ clientId: clientProductPayments.clientId })
+      .from(clientProductPayments)
+      .where(eq(clientProductPayments.productPaymentId, input.productPaymentId))
+      .limit(1);
+
+    if (!productPayment || productPayment.clientId !== input.clientId) {
+      throw new Error("Product payment not found for this client");
+    }
+  }
+
+  const storage = getDocumentStorage();
+  const extension = path.extname(fileName).toLowerCase().replace(/[^a-z0-9.]/g, "");
+  const storageKey = `clients/${input.clientId}/${crypto.randomUUID()}${extension}`;
+
+  await storage.save(storageKey, input.content);
+
+  try {
+    const [created] = await db
+      .insert(clientDocuments)
+      .values({
+        clientId: input.clientId,
+        productPaymentId: input.productPaymentId ?? null,
+        documentType: input.documentType as ClientDocumentType,
+        fileName,
+        mimeType,
+        sizeBytes: input.content.length,
+        checksum: crypto.createHash("sha256").update(input.content).digest("hex"),
+        storageDriver: storage.driver,
+        storageKey,
+        expiryDate,
+        uploadedBy: input.uploadedBy,
+      })
+      .returning({ documentId: clientDocuments.documentId });
+
+    return (await getClientDocumentById(input.clientId, created.documentId))!;
+  } catch (error) {
+    await storage.remove(storageKey).catch((removeError) => {
+      console.error("Failed to remove orphaned document file:", removeError);
+    });
+    throw error;
+  }
+};
+
+/* ==============================
+   LIST / GET
+============================== */
+export const getClientDocuments = async (
+  clientId: number,
+  filters: { productPaymentId?: number; documentType?: ClientDocumentType } = {}
+) => {
+  const conditions: SQL[] = [eq(clientDocuments.clientId, clientId)];
+
+  if (filters.productPaymentId) {
+    conditions.push(eq(clientDocuments.productPaymentId, filters.productPaymentId));
+  }
+
+  if (filters.documentType) {
+    conditions.push(eq(clientDocuments.documentType, filters.documentType));
+  }
+
+  return db
+    .select(documentSelection)
+    .from(clientDocuments)
+    .leftJoin(users, eq(clientDocuments.uploadedBy, users.id))
+    .where(and(...conditions))
+    .orderBy(desc(clientDocuments.createdAt));
+};
+
+export const getClientDocumentById = async (clientId: number, documentId: number) => {
+  const [document] = await db
+    .select(documentSelection)
+    .from(clientDocuments)
+    .leftJoin(users, eq(clientDocuments.uploadedBy, users.id))
+    .where(and(eq(clientDocuments.documentId, documentId), eq(clientDocuments.clientId, clientId)))
+    .limit(1);
+
+  return document || null;
+};
+
+const getStoredDocument = async (clientId: number, documentId: number) => {
+  const [document] = await db
+    .select()
+    .from(clientDocuments)
+    .where(and(eq(clientDocuments.documentId, documentId), eq(clientDocuments.clientId, clientId)))
+    .limit(1);
+
+  if (!document) {
+    throw new Error("Document not found");
+  }
+
+  return document;
+};
+
+/* ==============================
+   DOWNLOAD
+============================== */
+export const readClientDocument = async (clientId: number, documentId: number) => {
+  const document = await getStoredDocument(clientId, documentId);
+  const content = await getDocumentStorage(document.storageDriver).read(document.storageKey);
+
+  return {
+    fileName: document.fileName,
+    mimeType: document.mimeType,
+    content,
+  };
+};
+
+/* ==============================
+   DELETE
+   Counsellors can only delete their own uploads
+============================== */
+export const deleteClientDocument = async (
+  clientId: number,
+  documentId: number,
+  user: ClientListScope
+) => {
+  const document = await getStoredDocument(clientId, documentId);
+
+  if (user.role === "counsellor" && document.uploadedBy !== user.userId) {
+    throw new Error("You can only delete documents you uploaded");
+  }
+
+  await db.delete(clientDocuments).where(eq(clientDocuments.documentId, documentId));
+
+  // The row is gone either way; a leftover file is only logged
+  try {
+    await getDocumentStorage(document.storageDriver).remove(document.storageKey);
+  } catch (storageError) {
+    console.error("Failed to remove document file from storage:", storageError);
+  }
+
+  const { storageKey, storageDriver, ...metadata } = document;
+  return metadata;
+};
@@ -0,0 +1,372 @@
+import { db } from "../config/databaseConnection";
+import { clientInformation, clientFamilyMembers } from "../schemas/clientInformation.schema";
+import { clientPayments } from "../schemas/clientPayment.schema";
+import { clientProductPayments } from "../schemas/clientProductPayments.schema";
+import { paymentInstallments } from "../schemas/paymentInstallment.schema";
+import { paymentRefunds } from "../schemas/paymentRefund.schema";
+import { paymentDocuments } from "../schemas/paymentDocument.schema";
+import { clientDocuments } from "../schemas/clientDocument.schema";
+import { clientNotes } from "../schemas/clientNote.schema";
+import { clientTasks } from "../schemas/task.schema";
+import { approvalRequests } from "../schemas/approval.schema";
+import { commissionStatementLines } from "../schemas/commission.schema";
+import { activityLog } from "../schemas/activityLog.schema";
+import { leads } from "../schemas/lead.schema";
+import { clientTransfers } from "../schemas/clientTransfer.schema";
+import { users } from "../schemas/users.schema";
+import { eq, and, ne, or, inArray, sql, SQL } from "drizzle-orm";
+
+/* ==============================
+   TYPES
+============================== */
+export interface DuplicateCandidate {
+  fullName?: string | null;
+  passportDetails?: string | null;
+  phone?: string | null;
+  email?: string | null;
+  dateOfBirth?: string | null;
+}
+
+export type DuplicateMatchField = "passport" | "family_member_passport" | "phone" | "email" | "name" | "date_of_birth";
+
+export interface PossibleDuplicate {
+  clientId: number;
+  fullName: string;
+  passportDetails: string;
+  phone: string | null;
+  email: string | null;
+  dateOfBirth: string | null;
+  counsellorId: number;
+  counsellorName: string | null;
+  archived: boolean | null;
+  score: number;
+  confidence: "high" | "medium";
+  matchedOn: DuplicateMatchField[];
+  nameSimilarity: number;
+}
+
+// Points per matching field; a client is reported from DUPLICATE_THRESHOLD points.
+// Passport alone is enough; phone / email / date of birth need a second signal (family members share them).
+const MATCH_SCORES: Record<DuplicateMatchField, number> = {
+  passport: 60,
+  family_member_passport: 60,
+  phone: 30,
+  email: 30,
+  name: 30,
+  date_of_birth: 20,
+};
+const EXACT_NAME_BONUS = 5;
+const NAME_SIMILARITY_THRESHOLD = 0.85;
+const DUPLICATE_THRESHOLD = 50;
+const HIGH_CONFIDENCE_SCORE = 80;
+const MAX_CANDIDATES = 500;
+const MAX_DUPLICATES = 20;
+
+// Profile fields copied from the merged client when the survivor has none
+const MERGE_FILL_FIELDS = [
+  "phone",
+  "email",
+  "address",
+  "dateOfBirth",
+  "nationality",
+  "destinationCountry",
+  "visaCategory",
+  "applicationDate",
+  "decisionDate",
+  "leadSourceId",
+  "referredByClientId",
+  "referralAgentId",
+] as const;
+
+/* ==============================
+   NORMALIZATION
+============================== */
+// "p 1234-567" -> "P1234567"
+export const normalizePassport = (value: string | null | undefined) =>
+  (value ?? "").toUpperCase().replace(/[^A-Z0-9]/g, "");
+
+// Last 10 digits, so "+91 98765-43210" and "09876543210" compare equal
+const normalizePhoneDigits = (value: string | null | undefined) => {
+  const digits = (value ?? "").replace(/\D/g, "");
+  return digits.length >= 7 ? digits.slice(-10) : "";
+};
+
+// Lowercase, accents and punctuation removed, tokens sorted ("Singh, Raj" == "raj singh")
+const normalizeName = (value: string | null | undefined) =>
+  (value ?? "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+    .sort()
+    .join(" ");
+
+const levenshtein = (a: string, b: string) => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// 0..1, on the normalized names
+const nameSimilarity = (a: string, b: string) => {
+  if (!a || !b) return 0;
+  return 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+};
+
+// Same normalization as normalizePassport / normalizePhoneDigits, in SQL
+const passportSql = (column: typeof clientInformation.passportDetails | typeof clientFamilyMembers.passportDetails) =>
+  sql`regexp_replace(upper(${column}), '[^A-Z0-9]', '', 'g')`;
+const phoneDigitsSql = sql`right(regexp_replace(coalesce(${clientInformation.phone}, ''), '\\D', '', 'g'), 10)`;
+
+/* ==============================
+   FIND POSSIBLE DUPLICATES
+   Candidates are narrowed in SQL (same passport / phone / email / date of birth, or a shared
+   name token), then scored here. Not role scoped: a counsellor should learn that the person
+   already exists under someone else.
+============================== */
+export const findPossibleDuplicates = async (
+  candidate: DuplicateCandidate,
+  excludeClientId?: number
+): Promise<PossibleDuplicate[]> => {
+  const passport = normalizePassport(candidate.passportDetails);
+  const phone = normalizePhoneDigits(candidate.phone);
+  const email = candidate.email?.trim().toLowerCase() || "";
+  const dateOfBirth = candidate.dateOfBirth || "";
+  const name = normalizeName(candidate.fullName);
+
+  const prefilters: SQL[] = [];
+  if (passport) prefilters.push(sql`${passportSql(clientInformation.passportDetails)} = ${passport}`);
+  if (phone) prefilters.push(sql`${phoneDigitsSql} = ${phone}`);
+  if (email) prefilters.push(sql`lower(${clientInformation.email}) = ${email}`);
+  if (dateOfBirth) prefilters.push(eq(clientInformation.dateOfBirth, dateOfBirth));
+
+  // Longest name token narrows fuzzy name matches (e.g. "mohammed" for "Mohammed Ali")
+  const nameToken = name.split(" ").sort((a, b) => b.length - a.length)[0] ?? "";
+  if (nameToken.length >= 3) {
+    prefilters.push(sql`lower(${clientInformation.fullName}) LIKE ${`%${nameToken}%`}`);
+  }
+
+  // Passport entered on another client's family member
+  const familyMatches = new Set<number>();
+  if (passport) {
+    const rows = await db
+      .select({ clientId: clientFamilyMembers.clientId })
+      .from(clientFamilyMembers)
+      .where(sql`${passportSql(clientFamilyMembers.passportDetails)} = ${passport}`);
+    rows.forEach((row) => familyMatches.add(row.clientId));
+    if (familyMatches.size > 0) {
+      prefilters.push(inArray(clientInformation.clientId, [...familyMatches]));
+    }
+  }
+
+  if (prefilters.length === 0) {
+    return [];
+  }
+
+  const conditions: SQL[] = [or(...prefilters)!];
+  if (excludeClientId) {
+    conditions.push(ne(clientInformation.clientId, excludeClientId));
+  }
+
+  const rows = await db
+    .select({
+      clientId: clientInformation.clientId,
+      fullName: clientInformation.fullName,
+      passportDetails: clientInformation.passportDetails,
+      phone: clientInformation.phone,
+      email: clientInformation.email,
+      dateOfBirth: clientInformation.dateOfBirth,
+      counsellorId: clientInformation.counsellorId,
+      counsellorName: users.fullName,
+      archived: clientInformation.archived,
+    })
+    .from(clientInformation)
+    .leftJoin(users, eq(clientInformation.counsellorId, users.id))
+    .where(and(...conditions))
+    .limit(MAX_CANDIDATES);
+
+  const duplicates: PossibleDuplicate[] = [];
+
+  for (const row of rows) {
+    const matchedOn: DuplicateMatchField[] = [];
+    const rowName = normalizeName(row.fullName);
+    const similarity = Math.round(nameSimilarity(name, rowName) * 100) / 100;
+
+    if (passport && normalizePassport(row.passportDetails) === passport) matchedOn.push("passport");
+    if (familyMatches.has(row.clientId)) matchedOn.push("family_member_passport");
+    if (phone && normalizePhoneDigits(row.phone) === phone) matchedOn.push("phone");
+    if (email && row.email?.toLowerCase() === email) matchedOn.push("email");
+    if (similarity >= NAME_SIMILARITY_THRESHOLD) matchedOn.push("name");
+    if (dateOfBirth && row.dateOfBirth === dateOfBirth) matchedOn.push("date_of_birth");
+
+    let score = matchedOn.reduce((sum, field) => sum + MATCH_SCORES[field], 0);
+    if (name && rowName === name) score += EXACT_NAME_BONUS;
+
+    if (score < DUPLICATE_THRESHOLD) continue;
+
+    duplicates.push({
+      ...row,
+      score,
+      confidence: score >= HIGH_CONFIDENCE_SCORE ? "high" : "medium",
+      matchedOn,
+      nameSimilarity: similarity,
+    });
+  }
+
+  return duplicates
+    .sort((a, b) => b.score - a.score || b.nameSimilarity - a.nameSimilarity)
+    .slice(0, MAX_DUPLICATES);
+};
+
+/**
+ * Possible duplicates of an existing client
+ */
+export const getClientDuplicates = async (clientId: number) => {
+  const [client] = await db
+    .select({
+      fullName: clientInformation.fullName,
+      passportDetails: clientInformation.passportDetails,
+      phone: clientInformation.phone,
+      email: clientInformation.email,
+      dateOfBirth: clientInformation.dateOfBirth,
+    })
+    .from(clientInformation)
+    .where(eq(clientInformation.clientId, clientId))
+    .limit(1);
+
+  if (!client) {
+    throw new Error("Client not found");
+  }
+
+  return findPossibleDuplicates(client, clientId);
+};
+
+/* ==============================
+   MERGE CLIENTS
+   Moves everything attached to the duplicate onto the survivor, fills the survivor's empty
+   profile fields from the duplicate, leaves a note on the survivor and deletes the duplicate.
+   One transaction; the caller records the merge in the activity log.
+============================== */
+export const mergeClients = async (
+  survivorClientId: number,
+  duplicateClientId: number,
+  options: { fillMissingFields?: boolean },
+  performedBy: number
+) => {
+  if (survivorClientId === duplicateClientId) {
+    throw new Error("Cannot merge a client into itself");
+  }
+
+  return db.transaction(async (tx) => {
+    const clients = await tx
+      .select()
+      .from(clientInformation)
+      .where(or(
+        eq(clientInformation.clientId, survivorClientId),
+        eq(clientInformation.clientId, duplicateClientId)
+      ))
+      .for("update");
+
+    const survivor = clients.find((client) => client.clientId === survivorClientId);
+    const duplicate = clients.find((client) => client.clientId === duplicateClientId);
+
+    if (!survivor) {
+      throw new Error("Surviving client not found");
+    }
+    if (!duplicate) {
+      throw new Error("Duplicate client not found");
+    }
+
+    const moveTo = { clientId: survivorClientId };
+    const moved = {
+      payments: (await tx.update(clientPayments).set(moveTo)
+        .where(eq(clientPayments.clientId, duplicateClientId)).returning({ id: clientPayments.paymentId })).length,
+      productPayments: (await tx.update(clientProductPayments).set(moveTo)
+        .where(eq(clientProductPayments.clientId, duplicateClientId)).returning({ id: clientProductPayments.productPaymentId })).length,
+      installments: (await tx.update(paymentInstallments).set(moveTo)
+        .where(eq(paymentInstallments.clientId, duplicateClientId)).returning({ id: paymentInstallments.installmentId })).length,
+      refunds: (await tx.update(paymentRefunds).set(moveTo)
+        .where(eq(paymentRefunds.clientId, duplicateClientId)).returning({ id: paymentRefunds.refundId })).length,
+      invoiceDocuments: (await tx.update(paymentDocuments).set(moveTo)
+        .where(eq(paymentDocuments.clientId, duplicateClientId)).returning({ id: paymentDocuments.documentId })).length,
+      documents: (await tx.update(clientDocuments).set(moveTo)
+        .where(eq(clientDocuments.clientId, duplicateClientId)).returning({ id: clientDocuments.documentId })).length,
+      notes: (await tx.update(clientNotes).set(moveTo)
+        .where(eq(clientNotes.clientId, duplicateClientId)).returning({ id: clientNotes.noteId })).length,
+      tasks: (await tx.update(clientTasks).set(moveTo)
+        .where(eq(clientTasks.clientId, duplicateClientId)).returning({ id: clientTasks.taskId })).length,
+      approvals: (await tx.update(approvalRequests).set(moveTo)
+        .where(eq(approvalRequests.clientId, duplicateClientId)).returning({ id: approvalRequests.requestId })).length,
+      commissionLines: (await tx.update(commissionStatementLines).set(moveTo)
+        .where(eq(commissionStatementLines.clientId, duplicateClientId)).returning({ id: commissionStatementLines.lineId })).length,
+      familyMembers: (await tx.update(clientFamilyMembers).set(moveTo)
+        .where(eq(clientFamilyMembers.clientId, duplicateClientId)).returning({ id: clientFamilyMembers.memberId })).length,
+      activityLogs: (await tx.update(activityLog).set(moveTo)
+        .where(eq(activityLog.clientId, duplicateClientId)).returning({ id: activityLog.logId })).length,
+      transfers: (await tx.update(clientTransfers).set(moveTo)
+        .where(eq(clientTransfers.clientId, duplicateClientId)).returning({ id: clientTransfers.transferId })).length,
+    };
+
+    // Leads converted into / referred by the duplicate
+    await tx.update(leads).set({ convertedClientId: survivorClientId })
+      .where(eq(leads.convertedClientId, duplicateClientId));
+    await tx.update(leads).set({ referredByClientId: survivorClientId })
+      .where(eq(leads.referredByClientId, duplicateClientId));
+    await tx.update(clientInformation).set({ referredByClientId: survivorClientId })
+      .where(and(
+        eq(clientInformation.referredByClientId, duplicateClientId),
+        ne(clientInformation.clientId, survivorClientId)
+      ));
+
+    const filledFields: string[] = [];
+    const updates: Partial<typeof clientInformation.$inferInsert> = {};
+    if (options.fillMissingFields !== false) {
+      for (const field of MERGE_FILL_FIELDS) {
+        if (survivor[field] === null && duplicate[field] !== null) {
+          (updates as Record<string, unknown>)[field] = duplicate[field];
+          filledFields.push(field);
+        }
+      }
+    }
+    // The survivor can't stay referred by the client it absorbed
+    if (survivor.referredByClientId === duplicateClientId || updates.referredByClientId === survivorClientId) {
+      updates.referredByClientId = null;
+    }
+
+    if (Object.keys(updates).length > 0) {
+      await tx.update(clientInformation).set(updates)
+        .where(eq(clientInformation.clientId, survivorClientId));
+    }
+
+    await tx.insert(clientNotes).values({
+      clientId: survivorClientId,
+      body: `Merged duplicate client #${duplicate.clientId} (${duplicate.fullName}, passport ${duplicate.passportDetails}) into this client.`,
+      authorId: performedBy,
+    });
+
+    await tx.delete(clientInformation).where(eq(clientInformation.clientId, duplicateClientId));
+
+    const [after] = await tx
+      .select()
+      .from(clientInformation)
+      .where(eq(clientInformation.clientId, survivorClientId));
+
+    return { survivor: after, duplicate, moved, filledFields };
+  });
+};
@@ -0,0 +1,212 @@
+import { db } from "../config/databaseConnection";
+import { clientInformation, clientFamilyMembers } from "../schemas/clientInformation.schema";
+import { eq, and, ne, asc } from "drizzle-orm";
+import { isValidDateString } from "../utils/validators";
+
+/* ==============================
+   TYPES
+============================== */
+export const FAMILY_RELATIONSHIPS = ["spouse", "child", "parent", "sibling", "other"] as const;
+
+export type FamilyRelationship = (typeof FAMILY_RELATIONSHIPS)[number];
+
+interface FamilyMemberInput {
+  relationship?: string;
+  fullName?: string;
+  dateOfBirth?: string | null;
+  passportDetails?: string | null;
+  nationality?: string | null;
+}
+
+/* ==============================
+   HELPERS
+============================== */
+const normalizeFamilyMember = (
+  data: FamilyMemberInput,
+  current?: typeof clientFamilyMembers.$inferSelect
+) => {
+  const relationship = data.relationship !== undefined
+    ? String(data.relationship).trim().toLowerCase()
+    : current?.relationship;
+  if (!relationship || !FAMILY_RELATIONSHIPS.includes(relationship as FamilyRelationship)) {
+    throw new Error(`Invalid relationship. Allowed: ${FAMILY_RELATIONSHIPS.join(", ")}`);
+  }
+
+  const fullName = data.fullName !== undefined ? String(data.fullName).trim() : current?.fullName;
+  if (!fullName) {
+    throw new Error("fullName is required");
+  }
+  if (fullName.length > 150) {
+    throw new Error("fullName must be at most 150 characters");
+  }
+
+  const dateOfBirth = data.dateOfBirth !== undefined
+    ? (data.dateOfBirth ? String(data.dateOfBirth).trim() : null)
+    : current?.dateOfBirth ?? null;
+  if (dateOfBirth) {
+    if (!isValidDateString(dateOfBirth)) {
+      throw new Error("Invalid dateOfBirth format. Use YYYY-MM-DD");
+    }
+    if (dateOfBirth > new Date().toISOString().split("T")[0]) {
+      throw new Error("dateOfBirth cannot be in the future");
+    }
+  }
+
+  const passportDetails = data.passportDetails !== undefined
+    ? (data.passportDetails ? String(data.passportDetails).trim() : null)
+    : current?.passportDetails ?? null;
+  if (passportDetails && passportDetails.length > 100) {
+    throw new Error("passportDetails must be at most 100 characters");
+  }
+
+  const nationality = data.nationality !== undefined
+    ? (data.nationality ? String(data.nationality).trim() : null)
+    : current?.nationality ?? null;
+  if (nationality && nationality.length > 100) {
+    throw new Error("nationality must be at most 100 characters");
+  }
+
+  return {
+    relationship: relationship as FamilyRelationship,
+    fullName,
+    dateOfBirth,
+    passportDetails,
+    nationality,
+  };
+};
+
+/**
+ * A passport belongs to one person: no other family member and no client may use it
+ */
+const assertPassportAvailable = async (passportDetails: string | null, memberId?: number) => {
+  if (!passportDetails) return;
+
+  const [member] = await db
+    .select({ memberId: clientFamilyMembers.memberId })
+    .from(clientFamilyMembers)
+    .where(
+      memberId
+        ? and(eq(clientFamilyMembers.passportDetails, passportDetails), ne(clientFamilyMembers.memberId, memberId))
+        : eq(clientFamilyMembers.passportDetails, passportDetails)
+    )
+    .limit(1);
+
+  const [client] = await db
+    .select({ clientId: clientInformation.clientId })
+    .from(clientInformation)
+    .where(eq(clientInformation.passportDetails, passportDetails))
+    .limit(1);
+
+  if (member || client) {
+    throw new Error(`Passport details "${passportDetails}" already exists. Please use a different passport details.`);
+  }
+};
+
+/**
+ * Only one spouse per client
+ */
+const assertSingleSpouse = async (clientId: number, memberId?: number) => {
+  const [spouse] = await db
+    .select({ memberId: clientFamilyMembers.memberId })
+    .from(clientFamilyMembers)
+    .where(
+      and(
+        eq(clientFamilyMembers.clientId, clientId),
+        eq(clientFamilyMembers.relationship, "spouse"),
+        memberId ? ne(clientFamilyMembers.memberId, memberId) : undefined
+      )
+    )
+    .limit(1);
+
+  if (spouse) {
+    throw new Error("Client already has a spouse");
+  }
+};
+
+const getFamilyMemberOrThrow = async (clientId: number, memberId: number) => {
+  const [member] = await db
+    .select()
+    .from(clientFamilyMembers)
+    .where(and(eq(clientFamilyMembers.memberId, memberId), eq(clientFamilyMembers.clientId, clientId)))
+    .limit(1);
+
+  if (!member) {
+    throw new Error("Family member not found");
+  }
+
+  return member;
+};
+
+/* ==============================
+   GET FAMILY MEMBERS
+   Spouse first, then dependants in the order they were added
+============================== */
+export const getClientFamilyMembers = async (clientId: number) => {
+  const members = await db
+    .select()
+    .from(clientFamilyMembers)
+    .where(eq(clientFamilyMembers.clientId, clientId))
+    .orderBy(asc(clientFamilyMembers.createdAt), asc(clientFamilyMembers.memberId));
+
+  return [
+    ...members.filter((member) => member.relationship === "spouse"),
+    ...members.filter((member) => member.relationship !== "spouse"),
+  ];
+};
+
+/* ==============================
+   CREATE FAMILY MEMBER
+============================== */
+export const createFamilyMember = async (clientId: number, data: FamilyMemberInput) => {
+  const values = normalizeFamilyMember(data);
+
+  if (values.relationship === "spouse") {
+    await assertSingleSpouse(clientId);
+  }
+  await assertPassportAvailable(values.passportDetails);
+
+  const [member] = await db
+    .insert(clientFamilyMembers)
+    .values({ clientId, ...values })
+    .returning();
+
+  return member;
+};
+
+/* ==============================
+   UPDATE FAMILY MEMBER
+============================== */
+export const updateFamilyMember = async (
+  clientId: number,
+  memberId: number,
+  data: FamilyMemberInput
+) => {
+  const before = await getFamilyMemberOrThrow(clientId, memberId);
+  const values = normalizeFamilyMember(data, before);
+
+  if (values.relationship === "spouse" && before.relationship !== "spouse") {
+    await assertSingleSpouse(clientId, memberId);
+  }
+  if (values.passportDetails !== before.passportDetails) {
+    await assertPassportAvailable(values.passportDetails, memberId);
+  }
+
+  const [after] = await db
+    .update(clientFamilyMembers)
+    .set({ ...values, updatedAt: new Date() })
+    .where(eq(clientFamilyMembers.memberId, memberId))
+    .returning();
+
+  return { before, after };
+};
+
+/* ==============================
+   DELETE FAMILY MEMBER
+============================== */
+export const deleteFamilyMember = async (clientId: number, memberId: number) => {
+  const member = await getFamilyMemberOrThrow(clientId, memberId);
+
+  await db.delete(clientFamilyMembers).where(eq(clientFamilyMembers.memberId, memberId));
+
+  return member;
+};
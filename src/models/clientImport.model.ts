@@ -0,0 +1,770 @@
+import { db } from "../config/databaseConnection";
+import { importJobs, ImportRowResult } from "../schemas/importJob.schema";
+import { clientInformation, clientFamilyMembers } from "../schemas/clientInformation.schema";
+import { clientPayments, stageEnum } from "../schemas/clientPayment.schema";
+import { clientProductPayments } from "../schemas/clientProductPayments.schema";
+import { invoiceNumbers } from "../schemas/invoiceSequence.schema";
+import { leadTypes } from "../schemas/leadType.schema";
+import { saleTypes } from "../schemas/saleType.schema";
+import { products } from "../schemas/product.schema";
+import { caseStages } from "../schemas/caseStage.schema";
+import { activityLog } from "../schemas/activityLog.schema";
+import { users } from "../schemas/users.schema";
+import { eq, and, desc, inArray, count, sql } from "drizzle-orm";
+import { normalizeClientProfile, ClientProfile } from "./client.model";
+import { isValidDateString } from "../utils/validators";
+import { parseSpreadsheet, excelSerialToDateString, toCsv } from "../utils/spreadsheet";
+
+/* ==============================
+   TYPES
+============================== */
+export const MAX_IMPORT_FILE_SIZE_BYTES = 10 * 1024 * 1024; // 10 MB
+export const MAX_IMPORT_ROWS = 5000;
+
+/**
+ * Importable fields and the header names recognised for them (compared lowercase, without
+ * spaces / punctuation). Other headers can be mapped with a custom column mapping.
+ * Rows with the same passport belong to the same client: the first one creates the client,
+ * every row can add one payment and one product payment.
+ */
+export const IMPORT_FIELDS = {
+  // Client
+  fullName: ["fullname", "name", "clientname"],
+  enrollmentDate: ["enrollmentdate", "enrolmentdate", "date"],
+  passportDetails: ["passportdetails", "passport", "passportno", "passportnumber"],
+  leadType: ["leadtype", "lead"],
+  counsellorEmail: ["counselloremail", "counsellor"],
+  phone: ["phone", "mobile", "phonenumber"],
+  email: ["email", "emailaddress"],
+  address: ["address"],
+  dateOfBirth: ["dateofbirth", "dob"],
+  nationality: ["nationality"],
+  destinationCountry: ["destinationcountry", "country"],
+  visaCategory: ["visacategory", "visatype"],
+  applicationDate: ["applicationdate"],
+  decisionDate: ["decisiondate"],
+  // Payment
+  saleType: ["saletype"],
+  totalPayment: ["totalpayment", "total"],
+  paymentStage: ["paymentstage", "stage"],
+  paymentAmount: ["paymentamount", "amount"],
+  paymentDate: ["paymentdate"],
+  paymentInvoiceNo: ["paymentinvoiceno", "invoiceno", "invoice"],
+  paymentRemarks: ["paymentremarks", "remarks"],
+  // Product payment
+  productCode: ["productcode", "product", "productname"],
+  productAmount: ["productamount"],
+  productPaymentDate: ["productpaymentdate", "productdate"],
+  productInvoiceNo: ["productinvoiceno"],
+  productRemarks: ["productremarks"],
+} as const;
+
+export type ImportField = keyof typeof IMPORT_FIELDS;
+
+const REQUIRED_COLUMNS: ImportField[] = ["fullName", "enrollmentDate", "passportDetails", "leadType"];
+
+const PAYMENT_FIELDS: ImportField[] = [
+  "saleType", "totalPayment", "paymentStage", "paymentAmount", "paymentDate", "paymentInvoiceNo", "paymentRemarks",
+];
+
+const PRODUCT_FIELDS: ImportField[] = [
+  "productCode", "productAmount", "productPaymentDate", "productInvoiceNo", "productRemarks",
+];
+
+type ImportRow = Partial<Record<ImportField, string>>;
+
+interface ClientPlan {
+  row: number;
+  fullName: string;
+  enrollmentDate: string;
+  passportDetails: string;
+  leadTypeId: number;
+  counsellorId: number;
+  profile: ClientProfile;
+}
+
+interface PaymentPlan {
+  row: number;
+  passportDetails: string;
+  saleTypeId: number;
+  totalPayment: string;
+  stage: (typeof stageEnum.enumValues)[number];
+  amount: string;
+  paymentDate: string;
+  invoiceNo: string | null;
+  remarks: string | null;
+}
+
+interface ProductPaymentPlan {
+  row: number;
+  passportDetails: string;
+  productName: string;
+  amount: string;
+  paymentDate: string | null;
+  invoiceNo: string | null;
+  remarks: string | null;
+}
+
+interface RunImportInput {
+  content: Buffer;
+  fileName: string;
+  mimeType?: string;
+  dryRun: boolean;
+  columnMapping?: Record<string, string>;
+  defaultCounsellorId?: number;
+  importedBy: number;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/* ==============================
+   HELPERS
+============================== */
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+const isImportField = (field: string): field is ImportField => field in IMPORT_FIELDS;
+
+// Imported payments are credited to the client's counsellor at import time
+const creditedCounsellorSql = (clientId: number) =>
+  sql<number>`(SELECT ${clientInformation.counsellorId} FROM ${clientInformation} WHERE ${clientInformation.clientId} = ${clientId})`;
+
+// Run a check and collect its error instead of stopping at the first one
+const collect = <T>(errors: string[], check: () => T): T | undefined => {
+  try {
+    return check();
+  } catch (error: any) {
+    errors.push(error.message);
+    return undefined;
+  }
+};
+
+// YYYY-MM-DD, or an Excel date cell (serial number)
+const parseDate = (value: string, field: string) => {
+  const date = isValidDateString(value) ? value : excelSerialToDateString(value);
+  if (!date) {
+    throw new Error(`Invalid ${field} "${value}". Use YYYY-MM-DD`);
+  }
+  return date;
+};
+
+const parseAmount = (value: string | undefined, field: string) => {
+  if (!value) {
+    throw new Error(`${field} is required`);
+  }
+  const amount = Number(value.replace(/,/g, ""));
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new Error(`Invalid ${field} "${value}". Must be a positive number`);
+  }
+  return amount.toFixed(2);
+};
+
+/**
+ * Header index -> field. A custom mapping ({ "<header in file>": "<field>" }) is applied first,
+ * the remaining headers are matched by name.
+ */
+const resolveColumns = (header: string[], customMapping: Record<string, string> = {}) => {
+  const customByHeader = new Map<string, string>();
+  for (const [column, field] of Object.entries(customMapping)) {
+    if (!isImportField(field)) {
+      throw new Error(`Unknown import field "${field}" in column mapping. Allowed: ${Object.keys(IMPORT_FIELDS).join(", ")}`);
+    }
+    customByHeader.set(normalizeHeader(column), field);
+  }
+
+  const columns = new Map<ImportField, number>();
+  const mapping: Record<string, string> = {};
+  const ignoredColumns: string[] = [];
+
+  header.forEach((column, index) => {
+    const normalized = normalizeHeader(column);
+    const field = customByHeader.get(normalized) as ImportField | undefined
+      ?? (Object.keys(IMPORT_FIELDS) as ImportField[]).find((candidate) =>
+        (IMPORT_FIELDS[candidate] as readonly string[]).includes(normalized)
+      );
+
+    if (!field) {
+      if (column) ignoredColumns.push(column);
+      return;
+    }
+
+    if (columns.has(field)) {
+      throw new Error(`Field "${field}" is mapped to more than one column ("${header[columns.get(field)!]}", "${column}")`);
+    }
+
+    columns.set(field, index);
+    mapping[column] = field;
+  });
+
+  const missing = REQUIRED_COLUMNS.filter((field) => !columns.has(field));
+  if (missing.length > 0) {
+    throw new Error(`Missing required column(s): ${missing.join(", ")}`);
+  }
+
+  return { columns, mapping, ignoredColumns };
+};
+
+/* ==============================
+   VALIDATION
+   Checks every row against the database and the rest of the file.
+   Nothing is written.
+============================== */
+const validateImportRows = async (
+  rows: Array<{ row: number; values: ImportRow }>,
+  defaultCounsellorId?: number
+) => {
+  const passports = [...new Set(rows.map(({ values }) => values.passportDetails).filter((value): value is string => !!value))];
+  const invoices = [
+    ...new Set(
+      rows
+        .flatMap(({ values }) => [values.paymentInvoiceNo, values.productInvoiceNo])
+        .filter((value): value is string => !!value)
+    ),
+  ];
+
+  const [leadTypeRows, saleTypeRows, productRows, counsellorRows, existingClients, existingMembers, existingInvoices] =
+    await Promise.all([
+      db.select({ id: leadTypes.id, leadType: leadTypes.leadType }).from(leadTypes),
+      db.select({ saleTypeId: saleTypes.saleTypeId, saleType: saleTypes.saleType }).from(saleTypes),
+      db.select({ code: products.code, entityType: products.entityType, isActive: products.isActive }).from(products),
+      db.select({ id: users.id, email: users.email }).from(users).where(eq(users.role, "counsellor")),
+      passports.length > 0
+        ? db
+            .select({ passportDetails: clientInformation.passportDetails })
+            .from(clientInformation)
+            .where(inArray(clientInformation.passportDetails, passports))
+        : Promise.resolve([]),
+      passports.length > 0
+        ? db
+            .select({ passportDetails: clientFamilyMembers.passportDetails })
+            .from(clientFamilyMembers)
+            .where(inArray(clientFamilyMembers.passportDetails, passports))
+        : Promise.resolve([]),
+      invoices.length > 0
+        ? Promise.all([
+            db.select({ invoiceNo: clientPayments.invoiceNo }).from(clientPayments).where(inArray(clientPayments.invoiceNo, invoices)),
+            db.select({ invoiceNo: clientProductPayments.invoiceNo }).from(clientProductPayments).where(inArray(clientProductPayments.invoiceNo, invoices)),
+            db.select({ invoiceNo: invoiceNumbers.invoiceNo }).from(invoiceNumbers).where(inArray(invoiceNumbers.invoiceNo, invoices)),
+          ]).then((results) => results.flat())
+        : Promise.resolve([]),
+    ]);
+
+  const leadTypeByName = new Map(leadTypeRows.map((leadType) => [leadType.leadType.toLowerCase(), leadType.id]));
+  const saleTypeByName = new Map(saleTypeRows.map((saleType) => [saleType.saleType.toLowerCase(), saleType.saleTypeId]));
+  const productByCode = new Map(productRows.map((product) => [product.code, product]));
+  const counsellorByEmail = new Map(counsellorRows.map((counsellor) => [counsellor.email.toLowerCase(), counsellor.id]));
+  const counsellorIds = new Set(counsellorRows.map((counsellor) => counsellor.id));
+  const takenPassports = new Set([...existingClients, ...existingMembers].map((row) => row.passportDetails));
+  const takenInvoices = new Set(existingInvoices.map((row) => row.invoiceNo));
+
+  if (defaultCounsellorId !== undefined && !counsellorIds.has(defaultCounsellorId)) {
+    throw new Error("Default counsellor not found");
+  }
+
+  const clients = new Map<string, ClientPlan>();
+  const invalidClientRows = new Map<string, number>();
+  const payments: PaymentPlan[] = [];
+  const productPayments: ProductPaymentPlan[] = [];
+  const invoiceRows = new Map<string, number>();
+  const results: ImportRowResult[] = [];
+
+  const claimInvoice = (invoiceNo: string, row: number) => {
+    if (takenInvoices.has(invoiceNo)) {
+      throw new Error(`Invoice number "${invoiceNo}" already exists`);
+    }
+    if (invoiceRows.has(invoiceNo)) {
+      throw new Error(`Invoice number "${invoiceNo}" is used more than once in this file (row ${invoiceRows.get(invoiceNo)})`);
+    }
+    invoiceRows.set(invoiceNo, row);
+  };
+
+  for (const { row, values } of rows) {
+    const errors: string[] = [];
+    const passportDetails = values.passportDetails || null;
+
+    if (!passportDetails) {
+      errors.push("passportDetails is required");
+    } else if (passportDetails.length > 100) {
+      errors.push("passportDetails must be at most 100 characters");
+    } else if (clients.has(passportDetails) || invalidClientRows.has(passportDetails)) {
+      // Another row for a client defined earlier in the file
+      const firstRow = clients.get(passportDetails)?.row ?? invalidClientRows.get(passportDetails)!;
+      if (invalidClientRows.has(passportDetails)) {
+        errors.push(`Client for passport "${passportDetails}" is invalid (see row ${firstRow})`);
+      }
+      const client = clients.get(passportDetails);
+      if (client && values.fullName && values.fullName.toLowerCase() !== client.fullName.toLowerCase()) {
+        errors.push(`Passport "${passportDetails}" is used for a different client in row ${firstRow}`);
+      }
+    } else {
+      // First row of a client
+      const clientErrors: string[] = [];
+
+      if (takenPassports.has(passportDetails)) {
+        clientErrors.push(`Passport details "${passportDetails}" already exists`);
+      }
+
+      const fullName = values.fullName;
+      if (!fullName) {
+        clientErrors.push("fullName is required");
+      } else if (fullName.length > 150) {
+        clientErrors.push("fullName must be at most 150 characters");
+      }
+
+      const enrollmentDate = values.enrollmentDate
+        ? collect(clientErrors, () => parseDate(values.enrollmentDate!, "enrollmentDate"))
+        : (clientErrors.push("enrollmentDate is required"), undefined);
+
+      const leadTypeId = values.leadType ? leadTypeByName.get(values.leadType.toLowerCase()) : undefined;
+      if (!values.leadType) {
+        clientErrors.push("leadType is required");
+      } else if (!leadTypeId) {
+        clientErrors.push(`Unknown lead type "${values.leadType}"`);
+      }
+
+      let counsellorId = defaultCounsellorId;
+      if (values.counsellorEmail) {
+        counsellorId = counsellorByEmail.get(values.counsellorEmail.toLowerCase());
+        if (!counsellorId) {
+          clientErrors.push(`Unknown counsellor "${values.counsellorEmail}"`);
+        }
+      } else if (!counsellorId) {
+        clientErrors.push("counsellorEmail is required (or choose a default counsellor)");
+      }
+
+      const profile = collect(clientErrors, () =>
+        normalizeClientProfile({
+          phone: values.phone,
+          email: values.email,
+          address: values.address,
+          dateOfBirth: values.dateOfBirth ? parseDate(values.dateOfBirth, "dateOfBirth") : undefined,
+          nationality: values.nationality,
+          destinationCountry: values.destinationCountry,
+          visaCategory: values.visaCategory,
+          applicationDate: values.applicationDate ? parseDate(values.applicationDate, "applicationDate") : undefined,
+          decisionDate: values.decisionDate ? parseDate(values.decisionDate, "decisionDate") : undefined,
+        })
+      );
+
+      if (clientErrors.length > 0 || !fullName || !enrollmentDate || !leadTypeId || !counsellorId || !profile) {
+        invalidClientRows.set(passportDetails, row);
+        errors.push(...clientErrors);
+      } else {
+        clients.set(passportDetails, {
+          row,
+          fullName,
+          enrollmentDate,
+          passportDetails,
+          leadTypeId,
+          counsellorId,
+          profile,
+        });
+      }
+    }
+
+    // Payment
+    const hasPayment = PAYMENT_FIELDS.some((field) => values[field]);
+    if (hasPayment) {
+      const paymentErrors: string[] = [];
+
+      const saleTypeId = values.saleType ? saleTypeByName.get(values.saleType.toLowerCase()) : undefined;
+      if (!values.saleType) {
+        paymentErrors.push("saleType is required for a payment");
+      } else if (!saleTypeId) {
+        paymentErrors.push(`Unknown sale type "${values.saleType}"`);
+      }
+
+      const stage = values.paymentStage?.toUpperCase().replace(/[\s-]+/g, "_") as PaymentPlan["stage"] | undefined;
+      if (!stage) {
+        paymentErrors.push("paymentStage is required for a payment");
+      } else if (!stageEnum.enumValues.includes(stage)) {
+        paymentErrors.push(`Invalid paymentStage "${values.paymentStage}". Allowed: ${stageEnum.enumValues.join(", ")}`);
+      }
+
+      const totalPayment = collect(paymentErrors, () => parseAmount(values.totalPayment, "totalPayment"));
+      const amount = collect(paymentErrors, () => parseAmount(values.paymentAmount, "paymentAmount"));
+      const paymentDate = values.paymentDate
+        ? collect(paymentErrors, () => parseDate(values.paymentDate!, "paymentDate"))
+        : (paymentErrors.push("paymentDate is required for a payment"), undefined);
+
+      const invoiceNo = values.paymentInvoiceNo || null;
+      if (invoiceNo) collect(paymentErrors, () => claimInvoice(invoiceNo, row));
+
+      if (paymentErrors.length === 0 && passportDetails) {
+        payments.push({
+          row,
+          passportDetails,
+          saleTypeId: saleTypeId!,
+          totalPayment: totalPayment!,
+          stage: stage!,
+          amount: amount!,
+          paymentDate: paymentDate!,
+          invoiceNo,
+          remarks: values.paymentRemarks || null,
+        });
+      }
+      errors.push(...paymentErrors);
+    }
+
+    // Product payment
+    const hasProductPayment = PRODUCT_FIELDS.some((field) => values[field]);
+    if (hasProductPayment) {
+      const productErrors: string[] = [];
+
+      const code = values.productCode?.toUpperCase();
+      const product = code ? productByCode.get(code) : undefined;
+      if (!code) {
+        productErrors.push("productCode is required for a product payment");
+      } else if (!product || !product.isActive) {
+        productErrors.push(`Unknown product "${values.productCode}"`);
+      } else if (product.entityType !== "master_only") {
+        // Their details live in the product's own table (see saveClientProductPayment)
+        productErrors.push(`Product ${code} has its own details and cannot be imported. Add it from the client page`);
+      }
+
+      const amount = collect(productErrors, () => parseAmount(values.productAmount, "productAmount"));
+      const paymentDate = values.productPaymentDate
+        ? collect(productErrors, () => parseDate(values.productPaymentDate!, "productPaymentDate"))
+        : null;
+
+      const invoiceNo = values.productInvoiceNo || null;
+      if (invoiceNo) collect(productErrors, () => claimInvoice(invoiceNo, row));
+
+      if (productErrors.length === 0 && passportDetails) {
+        productPayments.push({
+          row,
+          passportDetails,
+          productName: code!,
+          amount: amount!,
+          paymentDate: paymentDate ?? null,
+          invoiceNo,
+          remarks: values.productRemarks || null,
+        });
+      }
+      errors.push(...productErrors);
+    }
+
+    if (!hasPayment && !hasProductPayment && passportDetails && clients.get(passportDetails)?.row !== row
+      && invalidClientRows.get(passportDetails) !== row) {
+      errors.push(`Duplicate row for passport "${passportDetails}" without a payment or product payment`);
+    }
+
+    results.push({
+      row,
+      passportDetails,
+      status: errors.length > 0 ? "error" : "valid",
+      errors,
+    });
+  }
+
+  return { results, clients, payments, productPayments };
+};
+
+/* ==============================
+   COMMIT
+   Everything in one transaction: clients (in the initial case stage), payments,
+   product payments and an activity log entry per record tagged with the import job.
+============================== */
+const commitImportRows = async (
+  importJobId: number,
+  fileName: string,
+  plan: Awaited<ReturnType<typeof validateImportRows>>,
+  input: Pick<RunImportInput, "importedBy" | "ipAddress" | "userAgent">
+) =>
+  db.transaction(async (tx) => {
+    const [initialStage] = await tx
+      .select({ stageId: caseStages.stageId })
+      .from(caseStages)
+      .where(and(eq(caseStages.isInitial, true), eq(caseStages.isActive, true)))
+      .limit(1);
+
+    const logs: Array<typeof activityLog.$inferInsert> = [];
+    const logBase = {
+      performedBy: input.importedBy,
+      metadata: { importJobId, fileName },
+      ipAddress: input.ipAddress ?? null,
+      userAgent: input.userAgent ?? null,
+    };
+
+    const clientIds = new Map<string, number>();
+    const created = new Map<number, Partial<ImportRowResult>>();
+
+    for (const client of plan.clients.values()) {
+      const [inserted] = await tx
+        .insert(clientInformation)
+        .values({
+          counsellorId: client.counsellorId,
+          fullName: client.fullName,
+          enrollmentDate: client.enrollmentDate,
+          passportDetails: client.passportDetails,
+          leadTypeId: client.leadTypeId,
+          ...client.profile,
+          caseStageId: initialStage?.stageId ?? null,
+          caseStageChangedAt: initialStage ? new Date() : null,
+        })
+        .returning();
+
+      clientIds.set(client.passportDetails, inserted.clientId);
+      created.set(client.row, { clientId: inserted.clientId });
+      logs.push({
+        ...logBase,
+        entityType: "client",
+        entityId: inserted.clientId,
+        clientId: inserted.clientId,
+        action: "CREATE",
+        newValue: inserted,
+        description: `Client imported: ${inserted.fullName} (import #${importJobId})`,
+      });
+    }
+
+    for (const payment of plan.payments) {
+      const clientId = clientIds.get(payment.passportDetails)!;
+      const { row, passportDetails, ...values } = payment;
+      const [inserted] = await tx
+        .insert(clientPayments)
+        .values({ clientId, ...values, creditedCounsellorId: creditedCounsellorSql(clientId) })
+        .returning();
+
+      created.set(row, { ...created.get(row), clientId, paymentId: inserted.paymentId });
+      logs.push({
+        ...logBase,
+        entityType: "client_payment",
+        entityId: inserted.paymentId,
+        clientId,
+        action: "PAYMENT_ADDED",
+        newValue: inserted,
+        description: `Payment imported: ${inserted.stage} ${inserted.amount} (import #${importJobId})`,
+      });
+    }
+
+    for (const productPayment of plan.productPayments) {
+      const clientId = clientIds.get(productPayment.passportDetails)!;
+      const { row, passportDetails, ...values } = productPayment;
+      const [inserted] = await tx
+        .insert(clientProductPayments)
+        .values({ clientId, ...values, entityType: "master_only", creditedCounsellorId: creditedCounsellorSql(clientId) })
+        .returning();
+
+      created.set(row, { ...created.get(row), clientId, productPaymentId: inserted.productPaymentId });
+      logs.push({
+        ...logBase,
+        entityType: "product_payment",
+        entityId: inserted.productPaymentId,
+        clientId,
+        action: "PRODUCT_ADDED",
+        newValue: inserted,
+        description: `Product payment imported: ${inserted.productName} ${inserted.amount} (import #${importJobId})`,
+      });
+    }
+
+    for (let i = 0; i < logs.length; i += 500) {
+      await tx.insert(activityLog).values(logs.slice(i, i + 500));
+    }
+
+    const results: ImportRowResult[] = plan.results.map((result) => ({
+      ...result,
+      status: "imported",
+      clientId: created.get(result.row)?.clientId ?? clientIds.get(result.passportDetails!) ?? null,
+      paymentId: created.get(result.row)?.paymentId ?? null,
+      productPaymentId: created.get(result.row)?.productPaymentId ?? null,
+    }));
+
+    return {
+      results,
+      clientsCreated: plan.clients.size,
+      paymentsCreated: plan.payments.length,
+      productPaymentsCreated: plan.productPayments.length,
+    };
+  });
+
+/* ==============================
+   RUN IMPORT
+   Dry run: validate and store the row-level result.
+   Commit: validate again and, only when every row is valid, write everything at once.
+============================== */
+export const runImport = async (input: RunImportInput) => {
+  if (!input.content || input.content.length === 0) {
+    throw new Error("File is empty");
+  }
+
+  if (input.content.length > MAX_IMPORT_FILE_SIZE_BYTES) {
+    throw new Error(`File is too large (max ${MAX_IMPORT_FILE_SIZE_BYTES / (1024 * 1024)} MB)`);
+  }
+
+  const fileName = String(input.fileName || "").trim().slice(-255);
+  if (!fileName) {
+    throw new Error("fileName is required");
+  }
+
+  // Header plus the row limit; longer sheets are rejected while reading
+  const { format, rows } = await parseSpreadsheet(input.content, fileName, input.mimeType, MAX_IMPORT_ROWS + 1);
+  const [header, ...body] = rows;
+
+  if (!header || header.length === 0) {
+    throw new Error("The file has no header row");
+  }
+
+  const { columns, mapping } = resolveColumns(header, input.columnMapping);
+
+  // Spreadsheet row numbers: header is row 1
+  const dataRows = body
+    .map((cells, index) => {
+      const values: ImportRow = {};
+      for (const [field, column] of columns) {
+        if (cells[column]) values[field] = cells[column];
+      }
+      return { row: index + 2, values, blank: cells.length === 0 };
+    })
+    .filter((row) => !row.blank);
+
+  if (dataRows.length === 0) {
+    throw new Error("The file has no data rows");
+  }
+
+  if (dataRows.length > MAX_IMPORT_ROWS) {
+    throw new Error(`Too many rows (${dataRows.length}). Max ${MAX_IMPORT_ROWS} per import`);
+  }
+
+  const [job] = await db
+    .insert(importJobs)
+    .values({
+      fileName,
+      fileFormat: format,
+      dryRun: input.dryRun,
+      columnMapping: mapping,
+      totalRows: dataRows.length,
+      importedBy: input.importedBy,
+    })
+    .returning();
+
+  const finish = async (updates: Partial<typeof importJobs.$inferInsert>) => {
+    const [updated] = await db
+      .update(importJobs)
+      .set({ ...updates, completedAt: new Date() })
+      .where(eq(importJobs.importJobId, job.importJobId))
+      .returning();
+    return updated;
+  };
+
+  let plan: Awaited<ReturnType<typeof validateImportRows>>;
+  try {
+    plan = await validateImportRows(dataRows, input.defaultCounsellorId);
+  } catch (error: any) {
+    await finish({ status: "failed", errorMessage: error.message });
+    throw error;
+  }
+
+  const errorRows = plan.results.filter((result) => result.status === "error").length;
+
+  if (errorRows > 0) {
+    return finish({
+      status: input.dryRun ? "invalid" : "failed",
+      errorRows,
+      rowResults: plan.results,
+      errorMessage: input.dryRun ? null : "Nothing was imported: fix the rows with errors and upload again",
+    });
+  }
+
+  if (input.dryRun) {
+    return finish({ status: "validated", rowResults: plan.results });
+  }
+
+  try {
+    const committed = await commitImportRows(job.importJobId, fileName, plan, input);
+    return finish({
+      status: "completed",
+      rowResults: committed.results,
+      clientsCreated: committed.clientsCreated,
+      paymentsCreated: committed.paymentsCreated,
+      productPaymentsCreated: committed.productPaymentsCreated,
+    });
+  } catch (error: any) {
+    // Rolled back - e.g. a passport or invoice number taken since validation
+    return finish({
+      status: "failed",
+      rowResults: plan.results,
+      errorMessage: `Import rolled back: ${error.message}`,
+    });
+  }
+};
+
+/* ==============================
+   JOBS
+============================== */
+const jobSummarySelection = {
+  importJobId: importJobs.importJobId,
+  fileName: importJobs.fileName,
+  fileFormat: importJobs.fileFormat,
+  dryRun: importJobs.dryRun,
+  status: importJobs.status,
+  totalRows: importJobs.totalRows,
+  errorRows: importJobs.errorRows,
+  clientsCreated: importJobs.clientsCreated,
+  paymentsCreated: importJobs.paymentsCreated,
+  productPaymentsCreated: importJobs.productPaymentsCreated,
+  errorMessage: importJobs.errorMessage,
+  importedBy: importJobs.importedBy,
+  importedByName: users.fullName,
+  createdAt: importJobs.createdAt,
+  completedAt: importJobs.completedAt,
+};
+
+export const getImportJobs = async (filters: { limit?: number; offset?: number } = {}) => {
+  const limit = Math.min(Math.max(filters.limit ?? 50, 1), 200);
+  const offset = Math.max(filters.offset ?? 0, 0);
+
+  const [jobs, [total]] = await Promise.all([
+    db
+      .select(jobSummarySelection)
+      .from(importJobs)
+      .leftJoin(users, eq(importJobs.importedBy, users.id))
+      .orderBy(desc(importJobs.createdAt), desc(importJobs.importJobId))
+      .limit(limit)
+      .offset(offset),
+    db.select({ total: count() }).from(importJobs),
+  ]);
+
+  return { jobs, total: Number(total?.total || 0), limit, offset };
+};
+
+export const getImportJobById = async (importJobId: number) => {
+  const [job] = await db
+    .select({
+      ...jobSummarySelection,
+      columnMapping: importJobs.columnMapping,
+      rowResults: importJobs.rowResults,
+    })
+    .from(importJobs)
+    .leftJoin(users, eq(importJobs.importedBy, users.id))
+    .where(eq(importJobs.importJobId, importJobId))
+    .limit(1);
+
+  return job || null;
+};
+
+/**
+ * Row-level result of a job as CSV
+ */
+export const getImportJobResultCsv = async (importJobId: number) => {
+  const job = await getImportJobById(importJobId);
+  if (!job) {
+    throw new Error("Import job not found");
+  }
+
+  const csv = toCsv([
+    ["Row", "Passport", "Status", "Client ID", "Payment ID", "Product Payment ID", "Errors"],
+    ...(job.rowResults ?? []).map((result) => [
+      result.row,
+      result.passportDetails,
+      result.status,
+      result.clientId,
+      result.paymentId,
+      result.productPaymentId,
+      result.errors.join("; "),
+    ]),
+  ]);
+
+  return {
+    fileName: `import-${importJobId}-result.csv`,
+    content: csv,
+  };
+};
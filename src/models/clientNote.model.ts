@@ -0,0 +1,189 @@
+import { db } from "../config/databaseConnection";
+import { clientNotes, clientNoteRevisions } from "../schemas/clientNote.schema";
+import { users } from "../schemas/users.schema";
+import { eq, and, desc, asc } from "drizzle-orm";
+import { ClientListScope } from "./client.model";
+
+/* ==============================
+   TYPES
+============================== */
+const MAX_NOTE_LENGTH = 10000;
+
+const isAdminRole = (role: string) => role === "admin" || role === "superadmin";
+
+const noteSelection = {
+  noteId: clientNotes.noteId,
+  clientId: clientNotes.clientId,
+  body: clientNotes.body,
+  authorId: clientNotes.authorId,
+  authorName: users.fullName,
+  isPinned: clientNotes.isPinned,
+  pinnedBy: clientNotes.pinnedBy,
+  pinnedAt: clientNotes.pinnedAt,
+  editedAt: clientNotes.editedAt,
+  createdAt: clientNotes.createdAt,
+};
+
+const normalizeBody = (value: unknown) => {
+  const body = typeof value === "string" ? value.trim() : "";
+  if (!body) {
+    throw new Error("Note body is required");
+  }
+  if (body.length > MAX_NOTE_LENGTH) {
+    throw new Error(`Note must be at most ${MAX_NOTE_LENGTH} characters`);
+  }
+  return body;
+};
+
+/* ==============================
+   GET NOTES
+   Pinned notes first (latest pin first), then newest first
+============================== */
+export const getClientNotes = async (clientId: number) => {
+  return db
+    .select(noteSelection)
+    .from(clientNotes)
+    .leftJoin(users, eq(clientNotes.authorId, users.id))
+    .where(eq(clientNotes.clientId, clientId))
+    .orderBy(desc(clientNotes.isPinned), desc(clientNotes.pinnedAt), desc(clientNotes.createdAt));
+};
+
+export const getClientNoteById = async (clientId: number, noteId: number) => {
+  const [note] = await db
+    .select(noteSelection)
+    .from(clientNotes)
+    .leftJoin(users, eq(clientNotes.authorId, users.id))
+    .where(and(eq(clientNotes.noteId, noteId), eq(clientNotes.clientId, clientId)))
+    .limit(1);
+
+  return note || null;
+};
+
+const getNoteOrThrow = async (clientId: number, noteId: number) => {
+  const note = await getClientNoteById(clientId, noteId);
+  if (!note) {
+    throw new Error("Note not found");
+  }
+  return note;
+};
+
+/* ==============================
+   CREATE NOTE
+============================== */
+export const createClientNote = async (clientId: number, body: unknown, authorId: number) => {
+  const [created] = await db
+    .insert(clientNotes)
+    .values({
+      clientId,
+      body: normalizeBody(body),
+      authorId,
+    })
+    .returning({ noteId: clientNotes.noteId });
+
+  return (await getClientNoteById(clientId, created.noteId))!;
+};
+
+/* ==============================
+   EDIT NOTE
+   Only the author (or an admin) can edit; the previous body is kept as a revision
+============================== */
+export const updateClientNote = async (
+  clientId: number,
+  noteId: number,
+  body: unknown,
+  editor: ClientListScope
+) => {
+  const before = await getNoteOrThrow(clientId, noteId);
+
+  if (before.authorId !== editor.userId && !isAdminRole(editor.role)) {
+    throw new Error("Only the author can edit this note");
+  }
+
+  const newBody = normalizeBody(body);
+  if (newBody === before.body) {
+    return { before, after: before, changed: false };
+  }
+
+  await db.transaction(async (tx) => {
+    await tx.insert(clientNoteRevisions).values({
+      noteId,
+      body: before.body,
+      editedBy: editor.userId,
+    });
+
+    await tx
+      .update(clientNotes)
+      .set({ body: newBody, editedAt: new Date() })
+      .where(eq(clientNotes.noteId, noteId));
+  });
+
+  const after = (await getClientNoteById(clientId, noteId))!;
+  return { before, after, changed: true };
+};
+
+/* ==============================
+   PIN / UNPIN NOTE
+============================== */
+export const setClientNotePinned = async (
+  clientId: number,
+  noteId: number,
+  pinned: boolean,
+  userId: number
+) => {
+  const before = await getNoteOrThrow(clientId, noteId);
+
+  await db
+    .update(clientNotes)
+    .set({
+      isPinned: pinned,
+      pinnedBy: pinned ? userId : null,
+      pinnedAt: pinned ? new Date() : null,
+    })
+    .where(eq(clientNotes.noteId, noteId));
+
+  const after = (await getClientNoteById(clientId, noteId))!;
+  return { before, after };
+};
+
+/* ==============================
+   DELETE NOTE
+   Author or admin
+============================== */
+export const deleteClientNote = async (
+  clientId: number,
+  noteId: number,
+  user: ClientListScope
+) => {
+  const note = await getNoteOrThrow(clientId, noteId);
+
+  if (note.authorId !== user.userId && !isAdminRole(user.role)) {
+    throw new Error("Only the author can delete this note");
+  }
+
+  await db.delete(clientNotes).where(eq(clientNotes.noteId, noteId));
+
+  return note;
+};
+
+/* ==============================
+   EDIT HISTORY
+   Previous bodies, oldest first
+============================== */
+export const getClientNoteHistory = async (clientId: number, noteId: number) => {
+  const note = await getNoteOrThrow(clientId, noteId);
+
+  const revisions = await db
+    .select({
+      revisionId: clientNoteRevisions.revisionId,
+      body: clientNoteRevisions.body,
+      editedBy: clientNoteRevisions.editedBy,
+      editedByName: users.fullName,
+      editedAt: clientNoteRevisions.createdAt,
+    })
+    .from(clientNoteRevisions)
+    .leftJoin(users, eq(clientNoteRevisions.editedBy, users.id))
+    .where(eq(clientNoteRevisions.noteId, noteId))
+    .orderBy(asc(clientNoteRevisions.createdAt), asc(clientNoteRevisions.revisionId));
+
+  return { note, revisions };
+};
@@ -1,8 +1,16 @@
 import { db } from "../config/databaseConnection";
-import pool from "../config/databaseConnection";
 import { clientPayments } from "../schemas/clientPayment.schema";
+import { clientInformation } from "../schemas/clientInformation.schema";
 import { saleTypes } from "../schemas/saleType.schema";
-import { eq, and, ne, desc } from "drizzle-orm";
+import { installmentPayments } from "../schemas/paymentInstallment.schema";
+import { eq, and, or, ne, desc, sql } from "drizzle-orm";
+import {
+  validateInstallmentForPayment,
+  linkPaymentToInstallment,
+  getInstallmentIdByPaymentId,
+} from "./paymentInstallment.model";
+import { withInvoiceNumber, resolveInvoiceNoForUpdate } from "./invoiceSequence.model";
+import { submitForApproval } from "./approval.model";
 
 export type PaymentStage =
   | "INITIAL"
@@ -20,10 +28,12 @@ interface SaveClientPaymentInput {
   paymentDate?: string;
   invoiceNo?: string;
   remarks?: string;
+  installmentId?: number | null; // installment this payment settles (null = unlink)
 }
 
 export const saveClientPayment = async (
-  data: SaveClientPaymentInput
+  data: SaveClientPaymentInput,
+  userId?: number
 ) => {
   // Normalize IDs - convert strings to numbers if needed
   const paymentId = data.paymentId ? Number(data.paymentId) : undefined;
@@ -61,6 +71,21 @@ export const saveClientPayment = async (
     throw new Error("Invalid sale type");
   }
 
+  // Validate installment link (undefined = leave as is, null = unlink)
+  let installmentId: number | null | undefined = undefined;
+  if (data.installmentId !== undefined) {
+    installmentId = data.installmentId === null || (data.installmentId as any) === ""
+      ? null
+      : Number(data.installmentId);
+
+    if (installmentId !== null) {
+      if (!Number.isInteger(installmentId) || installmentId <= 0) {
+        throw new Error("Invalid installmentId");
+      }
+      await validateInstallmentForPayment(installmentId, clientId, saleTypeId);
+    }
+  }
+
   // Provide default for NOT NULL field (paymentDate is NOT NULL in the schema)
   const finalPaymentDate = paymentDate || new Date().toISOString().split('T')[0];
 
@@ -79,10 +104,12 @@ export const saveClientPayment = async (
   const normalizedTotalPayment = String(totalPayment);
   const normalizedAmount = String(amount);
 
+  let previousAmount = 0;
+
   // If paymentId is provided, validate it exists first
   if (paymentId && Number.isFinite(paymentId) && paymentId > 0) {
     const existingPayment = await db
-      .select({ id: clientPayments.paymentId, invoiceNo: clientPayments.invoiceNo })
+      .select({ id: clientPayments.paymentId, invoiceNo: clientPayments.invoiceNo, amount: clientPayments.amount })
       .from(clientPayments)
       .where(eq(clientPayments.paymentId, paymentId));
 
@@ -90,6 +117,11 @@ export const saveClientPayment = async (
       throw new Error("Payment not found");
     }
 
+    previousAmount = parseFloat(existingPayment[0].amount ?? "0");
+
+    // Issued invoice numbers are immutable unless manual numbers are enabled
+    normalizedInvoiceNo = await resolveInvoiceNoForUpdate(invoiceNo, existingPayment[0].invoiceNo);
+
     // Check if invoiceNo is being changed and if the new invoiceNo already exists (excluding current payment)
     // Only check for duplicates if a new invoiceNo is provided (not NULL)
     if (normalizedInvoiceNo !== null && normalizedInvoiceNo !== existingPayment[0].invoiceNo) {
@@ -121,87 +153,133 @@ export const saveClientPayment = async (
     }
   }
 
-  // Use UPSERT with IS DISTINCT FROM to only update when data actually changes
-  // Note: When WHERE clause is false, PostgreSQL still returns the existing row but rowCount = 0
-  const upsertQuery = paymentId && Number.isFinite(paymentId) && paymentId > 0
-    ? `
-      WITH updated AS (
-        INSERT INTO client_payment (
-          id, client_id, sale_type_id, total_payment, stage, amount, payment_date, invoice_no, remarks
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
-        ON CONFLICT (id) DO UPDATE SET
-          client_id = EXCLUDED.client_id,
-          sale_type_id = EXCLUDED.sale_type_id,
-          total_payment = EXCLUDED.total_payment,
-          stage = EXCLUDED.stage,
-          amount = EXCLUDED.amount,
-          payment_date = EXCLUDED.payment_date,
-          invoice_no = EXCLUDED.invoice_no,
-          remarks = EXCLUDED.remarks
-        WHERE (
-          client_payment.client_id IS DISTINCT FROM EXCLUDED.client_id
-          OR client_payment.sale_type_id IS DISTINCT FROM EXCLUDED.sale_type_id
-          OR client_payment.total_payment IS DISTINCT FROM EXCLUDED.total_payment
-          OR client_payment.stage IS DISTINCT FROM EXCLUDED.stage
-          OR client_payment.amount IS DISTINCT FROM EXCLUDED.amount
-          OR client_payment.payment_date IS DISTINCT FROM EXCLUDED.payment_date
-          OR client_payment.invoice_no IS DISTINCT FROM EXCLUDED.invoice_no
-          OR client_payment.remarks IS DISTINCT FROM EXCLUDED.remarks
-        )
-        RETURNING id, client_id, sale_type_id, total_payment, stage, amount, payment_date, invoice_no, remarks, created_at
-      )
-      SELECT * FROM updated
-      UNION ALL
-      SELECT id, client_id, sale_type_id, total_payment, stage, amount, payment_date, invoice_no, remarks, created_at
-      FROM client_payment
-      WHERE id = $1 AND NOT EXISTS (SELECT 1 FROM updated)
-      LIMIT 1;
-    `
-    : `
-      INSERT INTO client_payment (
-        client_id, sale_type_id, total_payment, stage, amount, payment_date, invoice_no, remarks
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
-      RETURNING id, client_id, sale_type_id, total_payment, stage, amount, payment_date, invoice_no, remarks, created_at;
-    `;
-
-  const values = paymentId && Number.isFinite(paymentId) && paymentId > 0
-    ? [paymentId, clientId, saleTypeId, normalizedTotalPayment, stage, normalizedAmount, finalPaymentDate, normalizedInvoiceNo, normalizedRemarks]
-    : [clientId, saleTypeId, normalizedTotalPayment, stage, normalizedAmount, finalPaymentDate, normalizedInvoiceNo, normalizedRemarks];
+  const isNewRecord = !(paymentId && Number.isFinite(paymentId) && paymentId > 0);
+
+  const paymentValues = {
+    clientId,
+    saleTypeId,
+    totalPayment: normalizedTotalPayment,
+    stage,
+    amount: normalizedAmount,
+    paymentDate: finalPaymentDate,
+    invoiceNo: normalizedInvoiceNo,
+    remarks: normalizedRemarks,
+  };
 
   try {
-    const result = await pool.query(upsertQuery, values);
-    const rowCount = result.rowCount || 0;
-    const row = result.rows[0];
-
-    if (!row) {
-      // Log the query and values for debugging
-      console.error("UPSERT query returned no rows:", {
-        paymentId,
-        query: upsertQuery.substring(0, 200),
-        values: values.map((v, i) => ({ param: i + 1, value: v, type: typeof v })),
-      });
-      throw new Error("Failed to save payment: Query returned no rows");
-    }
+    // The payment row, its invoice number, its installment link and its approval request are saved in one transaction
+    const { row, rowCount, linkChanged, currentInstallmentId, approval } = await db.transaction(async (tx) => {
+      let row: typeof clientPayments.$inferSelect | undefined;
+      let rowCount = 0;
+      let approval: Awaited<ReturnType<typeof submitForApproval>> = null;
+
+      if (isNewRecord) {
+        // Without a manual number the payment gets the next number of its payment date's financial year
+        row = await withInvoiceNumber(tx, "client_payment", normalizedInvoiceNo, userId, finalPaymentDate, async (invoiceNo) => {
+          const [inserted] = await tx
+            .insert(clientPayments)
+            .values({
+              ...paymentValues,
+              invoiceNo,
+              creditedCounsellorId: sql`(SELECT ${clientInformation.counsellorId} FROM ${clientInformation} WHERE ${clientInformation.clientId} = ${clientId})`,
+            })
+            .returning();
+
+          return { sourceId: inserted.paymentId, result: inserted };
+        });
+        rowCount = 1;
+      } else {
+        // Every edit goes back through the approval workflow; while a raise of an approved payment
+        // is reviewed the payment keeps its approved amount (see submitForApproval)
+        approval = await submitForApproval(tx, {
+          entityType: "client_payment",
+          entityId: paymentId!,
+          clientId,
+          amount: normalizedAmount,
+          currentAmount: previousAmount,
+          requestedBy: userId,
+        });
+        if (approval?.status === "pending" && approval.approvedAmount !== null) {
+          paymentValues.amount = approval.approvedAmount;
+        }
+
+        // Only update when data actually changes (rowCount = 0 means nothing changed)
+        const updated = await tx
+          .update(clientPayments)
+          .set(paymentValues)
+          .where(
+            and(
+              eq(clientPayments.paymentId, paymentId!),
+              or(
+                ...Object.entries(paymentValues).map(
+                  ([key, value]) =>
+                    sql`${clientPayments[key as keyof typeof paymentValues]} IS DISTINCT FROM ${value}`
+                )
+              )
+            )
+          )
+          .returning();
+
+        rowCount = updated.length;
+        [row] = updated.length
+          ? updated
+          : await tx.select().from(clientPayments).where(eq(clientPayments.paymentId, paymentId!)).limit(1);
+      }
+
+      if (!row) {
+        throw new Error("Failed to save payment: Query returned no rows");
+      }
+
+      // Link / relink / unlink the installment this payment settles
+      let linkChanged = false;
+      const previousInstallmentId = isNewRecord ? null : await getInstallmentIdByPaymentId(row.paymentId, tx);
+      if (installmentId !== undefined && installmentId !== previousInstallmentId) {
+        await linkPaymentToInstallment(row.paymentId, installmentId, tx);
+        linkChanged = true;
+      }
+
+      // New payments go through the approval workflow when an admin rule matches
+      if (isNewRecord) {
+        approval = await submitForApproval(tx, {
+          entityType: "client_payment",
+          entityId: row.paymentId,
+          clientId,
+          amount: row.amount,
+          requestedBy: userId,
+        });
+      }
+
+      return {
+        row,
+        rowCount,
+        linkChanged,
+        currentInstallmentId: installmentId !== undefined ? installmentId : previousInstallmentId,
+        approval,
+      };
+    });
 
-    // Determine action based on rowCount and whether it's a new record
-    const isNewRecord = !paymentId || !Number.isFinite(paymentId) || paymentId <= 0;
-    const action = isNewRecord ? "CREATED" : (rowCount > 0 ? "UPDATED" : "NO_CHANGE");
+    // A held raise leaves the row as it was but is still a change
+    const action = isNewRecord
+      ? "CREATED"
+      : (rowCount > 0 || linkChanged || approval?.approvedAmount != null ? "UPDATED" : "NO_CHANGE");
 
     return {
       action,
       payment: {
-        paymentId: row.id,
-        clientId: row.client_id,
-        saleTypeId: row.sale_type_id,
-        totalPayment: row.total_payment,
+        paymentId: row.paymentId,
+        clientId: row.clientId,
+        saleTypeId: row.saleTypeId,
+        totalPayment: row.totalPayment,
         stage: row.stage,
         amount: row.amount,
-        paymentDate: row.payment_date,
-        invoiceNo: row.invoice_no,
+        paymentDate: row.paymentDate,
+        invoiceNo: row.invoiceNo,
         remarks: row.remarks,
-        createdAt: row.created_at,
+        installmentId: currentInstallmentId,
+        createdAt: row.createdAt,
       },
       rowCount, // Include rowCount so controller can check if real change occurred
+      approval, // Approval request opened or restarted by this save, if any
     };
   } catch (error: any) {
     // Log the actual database error
@@ -233,9 +311,12 @@ export const getPaymentsByClientId = async (clientId: number) => {
       createdAt: clientPayments.createdAt,
       // Sale type information
       saleType: saleTypes.saleType,
+      // Installment this payment settles (if any)
+      installmentId: installmentPayments.installmentId,
     })
     .from(clientPayments)
     .leftJoin(saleTypes, eq(clientPayments.saleTypeId, saleTypes.saleTypeId))
+    .leftJoin(installmentPayments, eq(installmentPayments.paymentId, clientPayments.paymentId))
     .where(eq(clientPayments.clientId, clientId))
     .orderBy(desc(clientPayments.paymentDate));
 
@@ -255,6 +336,7 @@ export const getPaymentsByClientId = async (clientId: number) => {
     paymentDate: payment.paymentDate,
     invoiceNo: payment.invoiceNo,
     remarks: payment.remarks,
+    installmentId: payment.installmentId ?? null,
     createdAt: payment.createdAt,
   }));
 };
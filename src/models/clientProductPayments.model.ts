@@ -1,7 +1,6 @@
-import { db } from "../config/databaseConnection";
+import { db, DbExecutor, DbTransaction } from "../config/databaseConnection";
 import {
   clientProductPayments,
-  productTypeEnum,
   entityTypeEnum,
 } from "../schemas/clientProductPayments.schema";
 import { clientInformation } from "../schemas/clientInformation.schema";
@@ -19,10 +18,21 @@ import { newSell } from "../schemas/newSell.schema";
 import { visaExtension } from "../schemas/visaExtension.schema";
 import { allFinance } from "../schemas/allFinance.schema";
 import { users } from "../schemas/users.schema";
+import { leadTypes } from "../schemas/leadType.schema";
+import { approvalRequests } from "../schemas/approval.schema";
 import { eq, inArray, and, ne, sql, desc } from "drizzle-orm";
+import { getProductByCode } from "./product.model";
+import { getProductFieldSchema, validateProductFields } from "../services/productFieldSchema.service";
+import {
+  withInvoiceNumber,
+  resolveInvoiceNoForUpdate,
+  InvoiceSource,
+} from "./invoiceSequence.model";
+import { submitForApproval, actOnApprovalRequest, ApprovalDecision } from "./approval.model";
+import { ClientListScope } from "./client.model";
 
 // Helper function to safely fetch entities with error handling
-const fetchEntities = async <T extends { id: number } | { financeId: number }>(
+export const fetchEntities = async <T extends { id: number } | { financeId: number }>(
   table: any,
   ids: number[],
   entityType: string
@@ -59,38 +69,6 @@ const fetchEntities = async <T extends { id: number } | { financeId: number }>(
   }
 };
 
-// Product type enum values
-export type ProductType =
-  | "ALL_FINANCE_EMPLOYEMENT"
-  | "INDIAN_SIDE_EMPLOYEMENT"
-  | "NOC_LEVEL_JOB_ARRANGEMENT"
-  | "LAWYER_REFUSAL_CHARGE"
-  | "ONSHORE_PART_TIME_EMPLOYEMENT"
-  | "TRV_WORK_PERMIT_EXT_STUDY_PERMIT_EXTENSION"
-  | "MARRIAGE_PHOTO_FOR_COURT_MARRIAGE"
-  | "MARRIAGE_PHOTO_CERTIFICATE"
-  | "RECENTE_MARRIAGE_RELATIONSHIP_AFFIDAVIT"
-  | "JUDICAL_REVIEW_CHARGE"
-  | "SIM_CARD_ACTIVATION"
-  | "INSURANCE"
-  | "BEACON_ACCOUNT"
-  | "AIR_TICKET"
-  | "OTHER_NEW_SELL"
-  | "SPONSOR_CHARGES"
-  | "FINANCE_EMPLOYEMENT"
-  | "IELTS_ENROLLMENT"
-  | "LOAN_DETAILS"
-  | "FOREX_CARD"
-  | "FOREX_FEES"
-  | "TUTION_FEES"
-  | "CREDIT_CARD"
-  | "VISA_EXTENSION"
-  | "REFUSAL_CHARGES"
-  | "KIDS_STUDY_PERMIT"
-  | "CANADA_FUND"
-  | "EMPLOYMENT_VERIFICATION_CHARGES"
-  | "ADDITIONAL_AMOUNT_STATEMENT_CHARGES";
-
 // Entity type enum values
 export type EntityType =
   | "visaextension_id"
@@ -108,44 +86,8 @@ export type EntityType =
   | "allFinance_id"
   | "master_only";
 
-// Map product name to entity type
-const productToEntityTypeMap: Record<ProductType, EntityType> = {
-  SIM_CARD_ACTIVATION: "simCard_id",
-  AIR_TICKET: "airTicket_id",
-  IELTS_ENROLLMENT: "ielts_id",
-  LOAN_DETAILS: "loan_id",
-  FOREX_CARD: "forexCard_id",
-  FOREX_FEES: "forexFees_id",
-  TUTION_FEES: "tutionFees_id",
-  INSURANCE: "insurance_id",
-  BEACON_ACCOUNT: "beaconAccount_id",
-  CREDIT_CARD: "creditCard_id",
-  OTHER_NEW_SELL: "newSell_id",
-  VISA_EXTENSION: "visaextension_id",
-  // ✅ ALL FINANCE - uses its own table
-  ALL_FINANCE_EMPLOYEMENT: "allFinance_id",
-  // Products without specific tables use newSell
-  // ✅ MASTER-ONLY PRODUCTS
-  INDIAN_SIDE_EMPLOYEMENT: "master_only",
-  NOC_LEVEL_JOB_ARRANGEMENT: "master_only",
-  LAWYER_REFUSAL_CHARGE: "master_only",
-  ONSHORE_PART_TIME_EMPLOYEMENT: "master_only",
-  TRV_WORK_PERMIT_EXT_STUDY_PERMIT_EXTENSION: "visaextension_id",
-  MARRIAGE_PHOTO_FOR_COURT_MARRIAGE: "master_only",
-  MARRIAGE_PHOTO_CERTIFICATE: "master_only",
-  RECENTE_MARRIAGE_RELATIONSHIP_AFFIDAVIT: "master_only",
-  JUDICAL_REVIEW_CHARGE: "master_only",
-  SPONSOR_CHARGES: "master_only",
-  FINANCE_EMPLOYEMENT: "master_only",
-  REFUSAL_CHARGES: "master_only",
-  KIDS_STUDY_PERMIT: "master_only",
-  CANADA_FUND: "master_only",
-  EMPLOYMENT_VERIFICATION_CHARGES: "master_only",
-  ADDITIONAL_AMOUNT_STATEMENT_CHARGES: "master_only",
-};
-
 // Map entity type to table for validation
-const entityTypeToTable: Record<EntityType, any> = {
+export const entityTypeToTable: Record<EntityType, any> = {
   simCard_id: simCard,
   airTicket_id: airTicket,
   ielts_id: ielts,
@@ -266,7 +208,7 @@ interface NewSellData {
 interface SaveClientProductPaymentInput {
   productPaymentId?: number;
   clientId: number;
-  productName: ProductType;
+  productName: string; // product.code
   invoiceNo?: string;
   amount: number | string;
   paymentDate?: string;
@@ -289,12 +231,29 @@ interface SaveClientProductPaymentInput {
     | NewSellData;
 }
 
+// Products whose invoice number comes from the invoice sequence
+const entityTypeToInvoiceSource: Partial<Record<EntityType, InvoiceSource>> = {
+  master_only: "product_payment",
+  newSell_id: "new_sell",
+  visaextension_id: "visa_extension",
+  allFinance_id: "all_finance",
+};
+
+// Date an invoiced product is issued on (decides the financial year of its invoice number)
+const getInvoiceDate = (entityType: EntityType, values: Record<string, any>): string | null => {
+  if (entityType === "newSell_id") return values.sellDate ?? null;
+  if (entityType === "visaextension_id") return values.extensionDate ?? null;
+  return values.paymentDate ?? null;
+};
+
 // Helper function to create entity record
 const createEntityRecord = async (
   entityType: EntityType,
   entityData: any,
   productAmount: number | string = 0,
-  remarks?: string
+  remarks?: string,
+  requiresApproval: boolean = true,
+  executor: DbExecutor = db
 ): Promise<number> => {
   const amountValue =
     typeof productAmount === "string"
@@ -304,7 +263,7 @@ const createEntityRecord = async (
   switch (entityType) {
     case "simCard_id": {
       const data = entityData as SimCardData;
-      const [record] = await db
+      const [record] = await executor
         .insert(simCard)
         .values({
           activatedStatus: data.activatedStatus ?? false,
@@ -325,7 +284,7 @@ const createEntityRecord = async (
       const finalTicketDate = data.ticketDate || new Date().toISOString().split('T')[0];
 
       // Check if airTicketNumber already exists before creating
-      const duplicateCheck = await db
+      const duplicateCheck = await executor
         .select({ id: airTicket.id })
         .from(airTicket)
         .where(eq(airTicket.airTicketNumber, finalAirTicketNumber))
@@ -335,7 +294,7 @@ const createEntityRecord = async (
         throw new Error(`Air ticket number "${finalAirTicketNumber}" already exists. Please use a different ticket number.`);
       }
 
-      const [record] = await db
+      const [record] = await executor
         .insert(airTicket)
         .values({
           isTicketBooked: data.isTicketBooked ?? false,
@@ -350,7 +309,7 @@ const createEntityRecord = async (
 
     case "ielts_id": {
       const data = entityData as IeltsData;
-      const [record] = await db
+      const [record] = await executor
         .insert(ielts)
         .values({
           enrolledStatus: data.enrolledStatus ?? false,
@@ -366,7 +325,7 @@ const createEntityRecord = async (
       const data = entityData as LoanData;
       // Provide default for NOT NULL field if not provided
       const finalDisbursmentDate = data.disbursmentDate || new Date().toISOString().split('T')[0];
-      const [record] = await db
+      const [record] = await executor
         .insert(loan)
         .values({
           amount: data.amount.toString(),
@@ -379,7 +338,7 @@ const createEntityRecord = async (
 
     case "forexCard_id": {
       const data = entityData as ForexCardData;
-      const [record] = await db
+      const [record] = await executor
         .insert(forexCard)
         .values({
           forexCardStatus: data.forexCardStatus ?? null,
@@ -392,10 +351,7 @@ const createEntityRecord = async (
 
     case "forexFees_id": {
       const data = entityData as ForexFeesData;
-      if (!data.side || !["PI", "TP"].includes(data.side)) {
-        throw new Error("side is required and must be 'PI' or 'TP'");
-      }
-      const [record] = await db
+      const [record] = await executor
         .insert(forexFees)
         .values({
           side: data.side as any,
@@ -409,15 +365,7 @@ const createEntityRecord = async (
 
     case "tutionFees_id": {
       const data = entityData as TutionFeesData;
-      if (
-        !data.tutionFeesStatus ||
-        !["paid", "pending"].includes(data.tutionFeesStatus)
-      ) {
-        throw new Error(
-          "tutionFeesStatus is required and must be 'paid' or 'pending'"
-        );
-      }
-      const [record] = await db
+      const [record] = await executor
         .insert(tutionFees)
         .values({
           tutionFeesStatus: data.tutionFeesStatus as any,
@@ -432,7 +380,7 @@ const createEntityRecord = async (
       const data = entityData as InsuranceData;
       // Provide default for NOT NULL field if not provided
       const finalInsuranceDate = data.insuranceDate || new Date().toISOString().split('T')[0];
-      const [record] = await db
+      const [record] = await executor
         .insert(insurance)
         .values({
           amount: data.amount.toString(),
@@ -446,14 +394,11 @@ const createEntityRecord = async (
 
     case "beaconAccount_id": {
       const data = entityData as BeaconAccountData;
-      // Use amount if provided, otherwise fallback to fundingAmount
-      const amountValue = data.amount ?? data.fundingAmount;
-      if (amountValue === undefined || amountValue === null) {
-        throw new Error("amount or fundingAmount is required for beacon account");
-      }
+      // Use amount if provided, otherwise fallback to fundingAmount (one of them is required by the field schema)
+      const amountValue = (data.amount ?? data.fundingAmount)!;
       // Use accountDate if provided, otherwise fallback to fundingDate or openingDate
       const accountDateValue = data.accountDate ?? data.fundingDate ?? data.openingDate;
-      const [record] = await db
+      const [record] = await executor
         .insert(beaconAccount)
         .values({
           amount: amountValue.toString(),
@@ -467,7 +412,7 @@ const createEntityRecord = async (
 
     case "creditCard_id": {
       const data = entityData as CreditCardData;
-      const [record] = await db
+      const [record] = await executor
         .insert(creditCard)
         .values({
           activatedStatus: data.activatedStatus ?? false,
@@ -485,22 +430,14 @@ const createEntityRecord = async (
       const data = entityData as AllFinanceData;
       const amountValue = typeof data.amount === "string" ? parseFloat(data.amount) : data.amount;
 
-      if (!amountValue || !isFinite(amountValue) || amountValue <= 0) {
-        throw new Error("Valid amount is required for all finance");
-      }
-
-      if (!data.paymentDate) {
-        throw new Error("paymentDate is required for all finance");
-      }
-
       // Determine approval status based on partialPayment
-      // If partialPayment is true, status is "pending" (needs manager approval)
-      // If partialPayment is false, status is "approved" (auto-approved)
-      const approvalStatus = data.partialPayment === true ? "pending" : (data.approvalStatus || "approved");
+      // If partialPayment is true and the product requires approval, status is "pending" (needs manager approval)
+      // Otherwise status is "approved" (auto-approved)
+      const approvalStatus = data.partialPayment === true && requiresApproval ? "pending" : (data.approvalStatus || "approved");
 
       // Check for duplicate invoiceNo if provided
       if (data.invoiceNo) {
-        const [duplicateCheck] = await db
+        const [duplicateCheck] = await executor
           .select({ financeId: allFinance.financeId })
           .from(allFinance)
           .where(eq(allFinance.invoiceNo, data.invoiceNo))
@@ -511,7 +448,7 @@ const createEntityRecord = async (
         }
       }
 
-      const [record] = await db
+      const [record] = await executor
         .insert(allFinance)
         .values({
           amount: amountValue.toString(),
@@ -528,9 +465,6 @@ const createEntityRecord = async (
 
     case "visaextension_id": {
       const data = entityData as VisaExtensionData;
-      if (!data.type) {
-        throw new Error("type is required for visa extension");
-      }
       // Provide default for NOT NULL field if not provided
       const finalExtensionDate = data.extensionDate || new Date().toISOString().split('T')[0];
 
@@ -538,7 +472,7 @@ const createEntityRecord = async (
       const normalizedInvoiceNo = data.invoiceNo && data.invoiceNo.trim() !== "" ? data.invoiceNo.trim() : null;
       const normalizedRemarks = data.remarks && data.remarks.trim() !== "" ? data.remarks.trim() : null;
 
-      const [record] = await db
+      const [record] = await executor
         .insert(visaExtension)
         .values({
           type: data.type,
@@ -553,12 +487,9 @@ const createEntityRecord = async (
 
     case "newSell_id": {
       const data = entityData as NewSellData;
-      if (!data.serviceName) {
-        throw new Error("serviceName is required for new sell");
-      }
       // Provide default for NOT NULL field if not provided
       const finalSellDate = data.sellDate || new Date().toISOString().split('T')[0];
-      const [record] = await db
+      const [record] = await executor
         .insert(newSell)
         .values({
           serviceName: data.serviceName,
@@ -577,9 +508,73 @@ const createEntityRecord = async (
   }
 };
 
+const toAmount = (value: unknown) => {
+  const parsed = parseFloat(String(value ?? ""));
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+/**
+ * Write an amount to where the product payment stores it (its entity row, or the payment itself
+ * for master_only products). Used to apply a raise once it is approved.
+ */
+export const setProductPaymentAmount = async (
+  tx: DbTransaction,
+  productPaymentId: number,
+  amount: string
+) => {
+  const [record] = await tx
+    .select({ entityType: clientProductPayments.entityType, entityId: clientProductPayments.entityId })
+    .from(clientProductPayments)
+    .where(eq(clientProductPayments.productPaymentId, productPaymentId))
+    .limit(1);
+
+  if (!record) {
+    return;
+  }
+
+  const table = record.entityId ? entityTypeToTable[record.entityType as EntityType] : null;
+  if (!table) {
+    await tx
+      .update(clientProductPayments)
+      .set({ amount })
+      .where(eq(clientProductPayments.productPaymentId, productPaymentId));
+    return;
+  }
+
+  if (!("amount" in table)) {
+    return;
+  }
+
+  await tx
+    .update(table)
+    .set({ amount })
+    .where(eq(record.entityType === "allFinance_id" ? allFinance.financeId : table.id, record.entityId));
+};
+
+// New product payments and every edit go through the approval workflow when an admin rule
+// matches (see submitForApproval); partial payments of products that require approval always need a manager
+const submitProductPaymentForApproval = (
+  tx: DbTransaction,
+  record: { productPaymentId: number; clientId: number; productName: string },
+  amount: unknown,
+  isPartialPayment: boolean,
+  userId?: number,
+  currentAmount?: number | null
+) =>
+  submitForApproval(tx, {
+    entityType: "product_payment",
+    entityId: record.productPaymentId,
+    clientId: record.clientId,
+    productName: record.productName,
+    amount: toAmount(amount),
+    currentAmount,
+    requestedBy: userId,
+    ...(isPartialPayment ? { fallbackLevels: ["manager"], fallbackReason: "Partial payment" } : {}),
+  });
 
 export const saveClientProductPayment = async (
-  data: SaveClientProductPaymentInput
+  data: SaveClientProductPaymentInput,
+  userId?: number
 ) => {
   // Normalize IDs - convert strings to numbers if needed
   const productPaymentId = data.productPaymentId ? Number(data.productPaymentId) : undefined;
@@ -601,8 +596,11 @@ export const saveClientProductPayment = async (
     throw new Error("productName is required");
   }
 
-  const entityType = productToEntityTypeMap[productName];
-  if (!entityType) throw new Error("Invalid productName");
+  const product = await getProductByCode(productName);
+  if (!product) throw new Error("Invalid productName");
+
+  const entityType = product.entityType as EntityType;
+  const fieldSchema = getProductFieldSchema(product);
 
   // ---------------------------
   // AMOUNT VALIDATION (STRICT)
@@ -612,15 +610,9 @@ export const saveClientProductPayment = async (
   // For master_only products, amount is stored in client_product_payment table
   // For allFinance_id, amount is stored in all_finance table (handled in entityData)
   if (entityType === "master_only") {
-    if (amount === undefined || amount === null) {
-      throw new Error("amount is required for master_only products");
-    }
+    validateProductFields(fieldSchema, { amount, paymentDate, invoiceNo, remarks });
 
     amountValue = typeof amount === "string" ? parseFloat(amount) : amount;
-
-    if (!isFinite(amountValue) || amountValue <= 0) {
-      throw new Error("Invalid amount");
-    }
   }
 
   // ---------------------------
@@ -636,320 +628,480 @@ export const saveClientProductPayment = async (
       throw new Error("Product payment record not found");
     }
 
-    // update entity table only if exists
-    if (entityData && entityType !== "master_only") {
-      const table = entityTypeToTable[entityType];
-
-      // Filter out non-entity fields (id, productPaymentId, productName, etc.)
-      // These fields don't belong in the entity table update
-      const {
-        id,
-        productPaymentId,
-        productName,
-        paymentDate,
-        clientId,
-        entityId,
-        entityType: _entityType,
-        ...cleanEntityData
-      } = entityData as any;
-
-      // Check for duplicate airTicketNumber if updating air ticket
-      if (entityType === "airTicket_id" && cleanEntityData.airTicketNumber) {
-        // Get current air ticket record
-        const [currentAirTicket] = await db
-          .select({ id: airTicket.id, airTicketNumber: airTicket.airTicketNumber })
-          .from(airTicket)
-          .where(eq(airTicket.id, existing.entityId!))
-          .limit(1);
+    // Entity row, payment row and the approval request are saved in one transaction
+    const { updated, approval } = await db.transaction(async (tx) => {
+      // Amount before and after this update; while a raise of an approved payment is reviewed
+      // the approved amount stays on the payment (see submitForApproval)
+      let previousAmount = entityType === "master_only" ? toAmount(existing.amount) : null;
+      let updatedAmount: unknown = entityType === "master_only" ? amountValue : null;
+      let isPartialPayment = false;
+
+      // update entity table only if exists
+      if (entityData && entityType !== "master_only") {
+        const table = entityTypeToTable[entityType];
+
+        // Filter out non-entity fields (id, productPaymentId, productName, etc.)
+        // These fields don't belong in the entity table update
+        const {
+          id,
+          productPaymentId,
+          productName,
+          paymentDate,
+          clientId,
+          entityId,
+          entityType: _entityType,
+          ...cleanEntityData
+        } = entityData as any;
+
+        // Updates may send only the changed fields (rules are checked against the stored row merged
+        // with them); a missing entity is created, so it needs all of them
+        const [existingEntity] = existing.entityId
+          ? await tx
+              .select()
+              .from(table)
+              .where(eq(entityType === "allFinance_id" ? allFinance.financeId : table.id, existing.entityId))
+              .limit(1)
+          : [];
+        validateProductFields(fieldSchema, cleanEntityData, {
+          partial: !!existing.entityId,
+          existing: existingEntity ?? null,
+        });
+
+        previousAmount = toAmount(existingEntity?.amount);
+        updatedAmount = cleanEntityData.amount ?? existingEntity?.amount;
+        isPartialPayment = product.requiresApproval &&
+          entityType === "allFinance_id" &&
+          (cleanEntityData.partialPayment ?? existingEntity?.partialPayment) === true;
 
-        if (currentAirTicket && cleanEntityData.airTicketNumber !== currentAirTicket.airTicketNumber) {
-          // Check if new airTicketNumber already exists (excluding current record)
-          const duplicateCheck = await db
-            .select({ id: airTicket.id })
+
+        // Check for duplicate airTicketNumber if updating air ticket
+        if (entityType === "airTicket_id" && cleanEntityData.airTicketNumber) {
+          // Get current air ticket record
+          const [currentAirTicket] = await tx
+            .select({ id: airTicket.id, airTicketNumber: airTicket.airTicketNumber })
             .from(airTicket)
-            .where(and(
-              eq(airTicket.airTicketNumber, cleanEntityData.airTicketNumber),
-              ne(airTicket.id, existing.entityId!)
-            ))
+            .where(eq(airTicket.id, existing.entityId!))
             .limit(1);
 
-          if (duplicateCheck.length > 0) {
-            throw new Error(`Air ticket number "${cleanEntityData.airTicketNumber}" already exists. Please use a different ticket number.`);
+          if (currentAirTicket && cleanEntityData.airTicketNumber !== currentAirTicket.airTicketNumber) {
+            // Check if new airTicketNumber already exists (excluding current record)
+            const duplicateCheck = await tx
+              .select({ id: airTicket.id })
+              .from(airTicket)
+              .where(and(
+                eq(airTicket.airTicketNumber, cleanEntityData.airTicketNumber),
+                ne(airTicket.id, existing.entityId!)
+              ))
+              .limit(1);
+
+            if (duplicateCheck.length > 0) {
+              throw new Error(`Air ticket number "${cleanEntityData.airTicketNumber}" already exists. Please use a different ticket number.`);
+            }
           }
         }
-      }
 
-      // Transform data for all finance updates
-      if (entityType === "allFinance_id") {
-        const data = cleanEntityData as AllFinanceData;
+        // Transform data for all finance updates
+        if (entityType === "allFinance_id") {
+          const data = cleanEntityData as AllFinanceData;
 
-        // If entityId doesn't exist, create a new all finance record
-        if (!existing.entityId) {
-          if (!data.amount) {
-            throw new Error("amount is required for all finance");
-          }
-          if (!data.paymentDate) {
-            throw new Error("paymentDate is required for all finance");
-          }
+          // If entityId doesn't exist, create a new all finance record
+          if (!existing.entityId) {
+            const amountValue = typeof data.amount === "string" ? parseFloat(data.amount) : data.amount;
 
-          const amountValue = typeof data.amount === "string" ? parseFloat(data.amount) : data.amount;
-          if (!isFinite(amountValue) || amountValue <= 0) {
-            throw new Error("Invalid amount for all finance");
-          }
+            const approvalStatus = data.partialPayment === true && product.requiresApproval ? "pending" : (data.approvalStatus || "approved");
 
-          const approvalStatus = data.partialPayment === true ? "pending" : (data.approvalStatus || "approved");
+            const newAllFinance = await withInvoiceNumber(tx, "all_finance", data.invoiceNo, userId, data.paymentDate, async (financeInvoiceNo) => {
+              // Check for duplicate invoiceNo if provided
+              if (financeInvoiceNo) {
+                const [duplicateCheck] = await tx
+                  .select({ financeId: allFinance.financeId })
+                  .from(allFinance)
+                  .where(eq(allFinance.invoiceNo, financeInvoiceNo))
+                  .limit(1);
 
-          // Check for duplicate invoiceNo if provided
-          if (data.invoiceNo) {
-            const [duplicateCheck] = await db
-              .select({ financeId: allFinance.financeId })
+                if (duplicateCheck) {
+                  throw new Error(`Invoice number "${financeInvoiceNo}" already exists. Please use a different invoice number.`);
+                }
+              }
+
+              const [inserted] = await tx
+                .insert(allFinance)
+                .values({
+                  amount: amountValue.toString(),
+                  paymentDate: data.paymentDate!,
+                  invoiceNo: financeInvoiceNo,
+                  partialPayment: data.partialPayment ?? false,
+                  approvalStatus: approvalStatus as "pending" | "approved" | "rejected",
+                  approvedBy: data.approvedBy && approvalStatus === "approved" ? data.approvedBy : null,
+                  remarks: data.remarks && data.remarks.trim() !== "" ? data.remarks.trim() : null,
+                })
+                .returning();
+
+              return { sourceId: inserted.financeId, result: inserted };
+            });
+
+            await tx
+              .update(clientProductPayments)
+              .set({
+                entityId: newAllFinance.financeId,
+                entityType: "allFinance_id" as any
+              })
+              .where(eq(clientProductPayments.productPaymentId, productPaymentId));
+
+            existing.entityId = newAllFinance.financeId;
+            existing.entityType = "allFinance_id";
+          } else {
+            // Update existing all finance record
+            const [existingAllFinance] = await tx
+              .select()
               .from(allFinance)
-              .where(eq(allFinance.invoiceNo, data.invoiceNo))
+              .where(eq(allFinance.financeId, existing.entityId))
               .limit(1);
 
-            if (duplicateCheck) {
-              throw new Error(`Invoice number "${data.invoiceNo}" already exists. Please use a different invoice number.`);
+            if (!existingAllFinance) {
+              throw new Error("All finance record not found");
             }
-          }
-
-          const [newAllFinance] = await db
-            .insert(allFinance)
-            .values({
-              amount: amountValue.toString(),
-              paymentDate: data.paymentDate,
-              invoiceNo: data.invoiceNo && data.invoiceNo.trim() !== "" ? data.invoiceNo.trim() : null,
-              partialPayment: data.partialPayment ?? false,
-              approvalStatus: approvalStatus as "pending" | "approved" | "rejected",
-              approvedBy: data.approvedBy && approvalStatus === "approved" ? data.approvedBy : null,
-              remarks: data.remarks && data.remarks.trim() !== "" ? data.remarks.trim() : null,
-            })
-            .returning();
-
-          await db
-            .update(clientProductPayments)
-            .set({
-              entityId: newAllFinance.financeId,
-              entityType: "allFinance_id" as any
-            })
-            .where(eq(clientProductPayments.productPaymentId, productPaymentId));
-
-          existing.entityId = newAllFinance.financeId;
-          existing.entityType = "allFinance_id";
-        } else {
-          // Update existing all finance record
-          const [existingAllFinance] = await db
-            .select()
-            .from(allFinance)
-            .where(eq(allFinance.financeId, existing.entityId))
-            .limit(1);
 
-          if (!existingAllFinance) {
-            throw new Error("All finance record not found");
-          }
-
-          // Prepare update data
-          const updateData: any = {};
+            // Prepare update data
+            const updateData: any = {};
 
-          // Only allow status changes through approval endpoint, not through regular update
-          // Regular updates can only change other fields, not approval status
-          if (data.amount !== undefined) {
-            const amountValue = typeof data.amount === "string" ? parseFloat(data.amount) : data.amount;
-            if (!isFinite(amountValue) || amountValue <= 0) {
-              throw new Error("Invalid amount for all finance");
+            // Only allow status changes through approval endpoint, not through regular update
+            // Regular updates can only change other fields, not approval status
+            if (data.amount !== undefined) {
+              const amountValue = typeof data.amount === "string" ? parseFloat(data.amount) : data.amount;
+              updateData.amount = amountValue.toString();
             }
-            updateData.amount = amountValue.toString();
-          }
 
-          if (data.paymentDate !== undefined) {
-            updateData.paymentDate = data.paymentDate;
-          }
+            if (data.paymentDate !== undefined) {
+              updateData.paymentDate = data.paymentDate;
+            }
 
-          if (data.invoiceNo !== undefined) {
-            const normalizedInvoiceNo = data.invoiceNo && data.invoiceNo.trim() !== "" ? data.invoiceNo.trim() : null;
+            if (data.invoiceNo !== undefined) {
+              const normalizedInvoiceNo = await resolveInvoiceNoForUpdate(data.invoiceNo, existingAllFinance.invoiceNo);
 
-            // Check for duplicate invoiceNo if changing
-            if (normalizedInvoiceNo && normalizedInvoiceNo !== existingAllFinance.invoiceNo) {
-              const [duplicateCheck] = await db
-                .select({ financeId: allFinance.financeId })
-                .from(allFinance)
-                .where(eq(allFinance.invoiceNo, normalizedInvoiceNo))
-                .limit(1);
+              // Check for duplicate invoiceNo if changing
+              if (normalizedInvoiceNo && normalizedInvoiceNo !== existingAllFinance.invoiceNo) {
+                const [duplicateCheck] = await tx
+                  .select({ financeId: allFinance.financeId })
+                  .from(allFinance)
+                  .where(eq(allFinance.invoiceNo, normalizedInvoiceNo))
+                  .limit(1);
 
-              if (duplicateCheck) {
-                throw new Error(`Invoice number "${normalizedInvoiceNo}" already exists. Please use a different invoice number.`);
+                if (duplicateCheck) {
+                  throw new Error(`Invoice number "${normalizedInvoiceNo}" already exists. Please use a different invoice number.`);
+                }
               }
+              updateData.invoiceNo = normalizedInvoiceNo;
             }
-            updateData.invoiceNo = normalizedInvoiceNo;
-          }
 
-          if (data.partialPayment !== undefined) {
-            updateData.partialPayment = data.partialPayment;
-          }
+            if (data.partialPayment !== undefined) {
+              updateData.partialPayment = data.partialPayment;
+            }
 
-          if (data.remarks !== undefined) {
-            updateData.remarks = data.remarks && data.remarks.trim() !== "" ? data.remarks.trim() : null;
-          }
+            if (data.remarks !== undefined) {
+              updateData.remarks = data.remarks && data.remarks.trim() !== "" ? data.remarks.trim() : null;
+            }
 
-          // Note: approvalStatus and approvedBy should only be updated through approval endpoint
-          // Regular updates should not change these fields
+            // Note: approvalStatus and approvedBy should only be updated through approval endpoint
+            // Regular updates should not change these fields
 
-          await db
-            .update(allFinance)
-            .set(updateData)
-            .where(eq(allFinance.financeId, existing.entityId));
-        }
-        // Skip to end - allFinance is fully handled above
-      } else if (entityType === "visaextension_id") {
-        const data = cleanEntityData as VisaExtensionData;
-
-        // If entityId doesn't exist, create a new visa extension record
-        if (!existing.entityId) {
-          // Create new visa extension record
-          if (!data.type) {
-            throw new Error("type is required for visa extension");
-          }
-          const finalExtensionDate = data.extensionDate || new Date().toISOString().split('T')[0];
-          if (!data.amount) {
-            throw new Error("amount is required for visa extension");
+            await tx
+              .update(allFinance)
+              .set(updateData)
+              .where(eq(allFinance.financeId, existing.entityId));
           }
+          // Skip to end - allFinance is fully handled above
+        } else if (entityType === "visaextension_id") {
+          const data = cleanEntityData as VisaExtensionData;
+
+          // If entityId doesn't exist, create a new visa extension record
+          if (!existing.entityId) {
+            // Create new visa extension record
+            const finalExtensionDate = data.extensionDate || new Date().toISOString().split('T')[0];
+
+            const newVisaExtension = await withInvoiceNumber(tx, "visa_extension", data.invoiceNo, userId, finalExtensionDate, async (visaInvoiceNo) => {
+              // Check for duplicate invoiceNo if provided
+              if (visaInvoiceNo) {
+                const [duplicateCheck] = await tx
+                  .select({ id: visaExtension.id })
+                  .from(visaExtension)
+                  .where(eq(visaExtension.invoiceNo, visaInvoiceNo))
+                  .limit(1);
+
+                if (duplicateCheck) {
+                  throw new Error(`Invoice number "${visaInvoiceNo}" already exists in visa extension. Please use a different invoice number.`);
+                }
+              }
 
-          // Normalize invoiceNo - convert empty string to null
-          const normalizedInvoiceNo = data.invoiceNo && data.invoiceNo.trim() !== ""
-            ? data.invoiceNo.trim()
-            : null;
-
-          // Check for duplicate invoiceNo if provided
-          if (normalizedInvoiceNo) {
-            const [duplicateCheck] = await db
-              .select({ id: visaExtension.id })
+              const [inserted] = await tx
+                .insert(visaExtension)
+                .values({
+                  type: data.type,
+                  amount: data.amount.toString(),
+                  extensionDate: finalExtensionDate,
+                  invoiceNo: visaInvoiceNo,
+                  remarks: data.remarks && data.remarks.trim() !== "" ? data.remarks.trim() : null,
+                })
+                .returning();
+
+              return { sourceId: inserted.id, result: inserted };
+            });
+
+            // Update the client_product_payment record with the new entityId and entityType
+            await tx
+              .update(clientProductPayments)
+              .set({
+                entityId: newVisaExtension.id,
+                entityType: "visaextension_id" as any
+              })
+              .where(eq(clientProductPayments.productPaymentId, productPaymentId));
+
+            // Update the existing object so entityId and entityType are available for later use
+            existing.entityId = newVisaExtension.id;
+            existing.entityType = "visaextension_id";
+          } else {
+            // Update existing visa extension record
+            const [existingVisaExtension] = await tx
+              .select()
               .from(visaExtension)
-              .where(eq(visaExtension.invoiceNo, normalizedInvoiceNo))
+              .where(eq(visaExtension.id, existing.entityId))
               .limit(1);
 
-            if (duplicateCheck) {
-              throw new Error(`Invoice number "${normalizedInvoiceNo}" already exists in visa extension. Please use a different invoice number.`);
+            if (!existingVisaExtension) {
+              throw new Error("Visa extension record not found");
             }
-          }
 
-          const [newVisaExtension] = await db
-            .insert(visaExtension)
-            .values({
-              type: data.type,
-              amount: data.amount.toString(),
-              extensionDate: finalExtensionDate,
-              invoiceNo: normalizedInvoiceNo,
-              remarks: data.remarks && data.remarks.trim() !== "" ? data.remarks.trim() : null,
-            })
-            .returning();
-
-          // Update the client_product_payment record with the new entityId and entityType
-          await db
-            .update(clientProductPayments)
-            .set({
-              entityId: newVisaExtension.id,
-              entityType: "visaextension_id" as any
-            })
-            .where(eq(clientProductPayments.productPaymentId, productPaymentId));
-
-          // Update the existing object so entityId and entityType are available for later use
-          existing.entityId = newVisaExtension.id;
-          existing.entityType = "visaextension_id";
-        } else {
-          // Update existing visa extension record
-          const [existingVisaExtension] = await db
-            .select()
-            .from(visaExtension)
-            .where(eq(visaExtension.id, existing.entityId))
-            .limit(1);
+            // Prepare transformed data
+            const transformedData: any = {};
 
-          if (!existingVisaExtension) {
-            throw new Error("Visa extension record not found");
-          }
+            // Type is required - use provided or existing
+            if (data.type !== undefined) {
+              transformedData.type = data.type;
+            } else if (existingVisaExtension.type) {
+              transformedData.type = existingVisaExtension.type;
+            } else {
+              throw new Error("type is required for visa extension");
+            }
 
-          // Prepare transformed data
-          const transformedData: any = {};
+            // Convert amount to string if provided
+            if (data.amount !== undefined) {
+              transformedData.amount = data.amount.toString();
+            } else if (existingVisaExtension.amount) {
+              transformedData.amount = existingVisaExtension.amount.toString();
+            }
 
-          // Type is required - use provided or existing
-          if (data.type !== undefined) {
-            transformedData.type = data.type;
-          } else if (existingVisaExtension.type) {
-            transformedData.type = existingVisaExtension.type;
-          } else {
-            throw new Error("type is required for visa extension");
-          }
+            // Handle extensionDate - use provided, existing, or default
+            if (data.extensionDate !== undefined) {
+              transformedData.extensionDate = data.extensionDate;
+            } else if (existingVisaExtension.extensionDate) {
+              transformedData.extensionDate = existingVisaExtension.extensionDate;
+            } else {
+              transformedData.extensionDate = new Date().toISOString().split('T')[0];
+            }
 
-          // Convert amount to string if provided
-          if (data.amount !== undefined) {
-            transformedData.amount = data.amount.toString();
-          } else if (existingVisaExtension.amount) {
-            transformedData.amount = existingVisaExtension.amount.toString();
-          }
+            // Handle optional fields - normalize empty strings to null
+            if (data.invoiceNo !== undefined) {
+              transformedData.invoiceNo = await resolveInvoiceNoForUpdate(data.invoiceNo, existingVisaExtension.invoiceNo);
+            }
+            if (data.remarks !== undefined) {
+              transformedData.remarks = data.remarks && data.remarks.trim() !== "" ? data.remarks.trim() : null;
+            }
 
-          // Handle extensionDate - use provided, existing, or default
-          if (data.extensionDate !== undefined) {
-            transformedData.extensionDate = data.extensionDate;
-          } else if (existingVisaExtension.extensionDate) {
-            transformedData.extensionDate = existingVisaExtension.extensionDate;
-          } else {
-            transformedData.extensionDate = new Date().toISOString().split('T')[0];
+            await tx
+              .update(visaExtension)
+              .set(transformedData)
+              .where(eq(visaExtension.id, existing.entityId));
           }
+          // Skip to end - visaExtension is fully handled above
+        } else {
+          // For other entity types, handle update or create
+          if (!existing.entityId) {
+            // Entity doesn't exist, create a new one
+            const invoiceSource = entityTypeToInvoiceSource[entityType];
+
+            const newEntityId = invoiceSource
+              ? await withInvoiceNumber(
+                  tx,
+                  invoiceSource,
+                  cleanEntityData.invoiceNo,
+                  userId,
+                  getInvoiceDate(entityType, cleanEntityData),
+                  async (entityInvoiceNo) => {
+                    const createdId = await createEntityRecord(
+                      entityType,
+                      { ...cleanEntityData, invoiceNo: entityInvoiceNo },
+                      0,
+                      undefined,
+                      product.requiresApproval,
+                      tx
+                    );
+                    return { sourceId: createdId, result: createdId };
+                  }
+                )
+              : await createEntityRecord(entityType, cleanEntityData, 0, undefined, product.requiresApproval, tx);
+
+            // Update the client_product_payment record with the new entityId and entityType
+            await tx
+              .update(clientProductPayments)
+              .set({
+                entityId: newEntityId,
+                entityType: entityType as any
+              })
+              .where(eq(clientProductPayments.productPaymentId, productPaymentId));
+
+            // Update the existing object so entityId and entityType are available for later use
+            existing.entityId = newEntityId;
+            existing.entityType = entityType;
+          } else {
+            // Entity exists, update it
+            if (entityType === "newSell_id" && cleanEntityData.invoiceNo !== undefined) {
+              const [existingNewSell] = await tx
+                .select({ invoiceNo: newSell.invoiceNo })
+                .from(newSell)
+                .where(eq(newSell.id, existing.entityId))
+                .limit(1);
 
-          // Handle optional fields - normalize empty strings to null
-          if (data.invoiceNo !== undefined) {
-            transformedData.invoiceNo = data.invoiceNo && data.invoiceNo.trim() !== "" ? data.invoiceNo.trim() : null;
-          }
-          if (data.remarks !== undefined) {
-            transformedData.remarks = data.remarks && data.remarks.trim() !== "" ? data.remarks.trim() : null;
-          }
+              cleanEntityData.invoiceNo = await resolveInvoiceNoForUpdate(
+                cleanEntityData.invoiceNo,
+                existingNewSell?.invoiceNo ?? null
+              );
+            }
 
-          await db
-            .update(visaExtension)
-            .set(transformedData)
-            .where(eq(visaExtension.id, existing.entityId));
+            await tx
+              .update(table)
+              .set(cleanEntityData)
+              .where(eq(table.id, existing.entityId));
+          }
         }
-        // Skip to end - visaExtension is fully handled above
-      } else {
-        // For other entity types, handle update or create
-        if (!existing.entityId) {
-          // Entity doesn't exist, create a new one
-          const newEntityId = await createEntityRecord(entityType, cleanEntityData);
-
-          // Update the client_product_payment record with the new entityId and entityType
-          await db
-            .update(clientProductPayments)
-            .set({
-              entityId: newEntityId,
-              entityType: entityType as any
-            })
-            .where(eq(clientProductPayments.productPaymentId, productPaymentId));
-
-          // Update the existing object so entityId and entityType are available for later use
-          existing.entityId = newEntityId;
-          existing.entityType = entityType;
-        } else {
-          // Entity exists, update it
-          await db
-            .update(table)
-            .set(cleanEntityData)
-            .where(eq(table.id, existing.entityId));
+      }
+
+      // Normalize invoiceNo for master_only products (convert empty string to null)
+      let normalizedInvoiceNo: string | null = null;
+      if (entityType === "master_only") {
+        normalizedInvoiceNo = await resolveInvoiceNoForUpdate(
+          invoiceNo === null ? undefined : invoiceNo,
+          existing.invoiceNo
+        );
+      }
+
+      // Check for duplicate invoiceNo if changing (for master_only products)
+      if (entityType === "master_only" && normalizedInvoiceNo !== null && normalizedInvoiceNo !== existing.invoiceNo) {
+        const duplicateCheck = await tx
+          .select({ productPaymentId: clientProductPayments.productPaymentId })
+          .from(clientProductPayments)
+          .where(eq(clientProductPayments.invoiceNo, normalizedInvoiceNo))
+          .limit(1);
+
+        if (duplicateCheck.length > 0) {
+          throw new Error(`Invoice number "${normalizedInvoiceNo}" already exists in product payments. Please use a different invoice number.`);
         }
       }
+
+      // Every edit is (re)submitted; a held raise puts the approved amount back on the payment
+      const approval = entityType === "master_only" || entityData
+        ? await submitProductPaymentForApproval(tx, existing, updatedAmount, isPartialPayment, userId, previousAmount)
+        : null;
+      const heldAmount = approval?.status === "pending" ? approval.approvedAmount : null;
+      if (heldAmount !== null && entityType !== "master_only") {
+        await setProductPaymentAmount(tx, productPaymentId, heldAmount);
+      }
+
+      const [updated] = await tx
+        .update(clientProductPayments)
+        .set({
+          // For entity-based products: data is stored in entity table, so set to NULL here
+          // For master_only products: data is stored in this table
+          amount:
+            entityType === "master_only"
+              ? heldAmount ?? amountValue!.toString()
+              : null,
+          paymentDate:
+            entityType === "master_only"
+              ? paymentDate ?? existing.paymentDate
+              : null,
+          invoiceNo:
+            entityType === "master_only"
+              ? normalizedInvoiceNo
+              : null,
+          remarks:
+            entityType === "master_only"
+              ? (remarks !== undefined
+                  ? (remarks !== null && String(remarks).trim() !== "" ? String(remarks).trim() : null)
+                  : existing.remarks)
+              : null,
+        })
+        .where(eq(clientProductPayments.productPaymentId, productPaymentId))
+        .returning();
+
+      return { updated, approval };
+    });
+
+    return { action: "UPDATED", record: updated, approval };
+  }
+
+  // ---------------------------
+  // CREATE
+  // ---------------------------
+  if (!product.isActive) {
+    throw new Error(`Product ${product.name} is inactive`);
+  }
+
+  // Products limited to some lead types can only be sold to clients of those types
+  if (product.leadTypes.length > 0) {
+    const [client] = await db
+      .select({ leadType: leadTypes.leadType })
+      .from(clientInformation)
+      .leftJoin(leadTypes, eq(clientInformation.leadTypeId, leadTypes.id))
+      .where(eq(clientInformation.clientId, clientId))
+      .limit(1);
+
+    if (!client) {
+      throw new Error("Client not found");
+    }
+
+    if (!client.leadType || !product.leadTypes.includes(client.leadType.trim().toLowerCase())) {
+      throw new Error(
+        `Product ${product.name} is only available for ${product.leadTypes.join(", ")} clients`
+      );
+    }
+  }
+
+  if (entityType !== "master_only" && !entityData) {
+    throw new Error("entityData required");
+  }
+
+  if (entityType !== "master_only") {
+    validateProductFields(fieldSchema, entityData as Record<string, any>);
+  }
+
+  const createRecord = async (tx: DbTransaction, generatedInvoiceNo?: string | null) => {
+    let entityId: number | null = null;
+
+    if (entityType !== "master_only") {
+      entityId = await createEntityRecord(
+        entityType,
+        generatedInvoiceNo !== undefined ? { ...entityData, invoiceNo: generatedInvoiceNo } : entityData,
+        0,
+        undefined,
+        product.requiresApproval,
+        tx
+      );
     }
 
-    // Normalize invoiceNo for master_only products (convert empty string to null)
+    // Normalize invoiceNo for master_only products
     let normalizedInvoiceNo: string | null = null;
     if (entityType === "master_only") {
-      if (invoiceNo !== undefined && invoiceNo !== null) {
+      if (generatedInvoiceNo !== undefined) {
+        normalizedInvoiceNo = generatedInvoiceNo;
+      } else if (invoiceNo !== undefined && invoiceNo !== null) {
         const trimmed = String(invoiceNo).trim();
         normalizedInvoiceNo = trimmed.length > 0 ? trimmed : null;
-      } else {
-        normalizedInvoiceNo = existing.invoiceNo;
       }
     }
 
-    // Check for duplicate invoiceNo if changing (for master_only products)
-    if (entityType === "master_only" && normalizedInvoiceNo !== null && normalizedInvoiceNo !== existing.invoiceNo) {
-      const duplicateCheck = await db
+    // Check for duplicate invoiceNo if provided (for master_only products)
+    if (entityType === "master_only" && normalizedInvoiceNo !== null) {
+      const duplicateCheck = await tx
         .select({ productPaymentId: clientProductPayments.productPaymentId })
         .from(clientProductPayments)
         .where(eq(clientProductPayments.invoiceNo, normalizedInvoiceNo))
@@ -960,9 +1112,13 @@ export const saveClientProductPayment = async (
       }
     }
 
-    const [updated] = await db
-      .update(clientProductPayments)
-      .set({
+    const [record] = await tx
+      .insert(clientProductPayments)
+      .values({
+        clientId,
+        productName: productName as any,
+        entityType: entityType as any,
+        entityId,
         // For entity-based products: data is stored in entity table, so set to NULL here
         // For master_only products: data is stored in this table
         amount:
@@ -971,7 +1127,7 @@ export const saveClientProductPayment = async (
             : null,
         paymentDate:
           entityType === "master_only"
-            ? paymentDate ?? existing.paymentDate
+            ? paymentDate ?? null
             : null,
         invoiceNo:
           entityType === "master_only"
@@ -979,82 +1135,67 @@ export const saveClientProductPayment = async (
             : null,
         remarks:
           entityType === "master_only"
-            ? (remarks !== undefined
-                ? (remarks !== null && String(remarks).trim() !== "" ? String(remarks).trim() : null)
-                : existing.remarks)
+            ? (remarks !== undefined && remarks !== null && String(remarks).trim() !== "" ? String(remarks).trim() : null)
             : null,
+        creditedCounsellorId: sql`(SELECT ${clientInformation.counsellorId} FROM ${clientInformation} WHERE ${clientInformation.clientId} = ${clientId})`,
       })
-      .where(eq(clientProductPayments.productPaymentId, productPaymentId))
       .returning();
 
-    return { action: "UPDATED", record: updated };
-  }
+    return { entityId, record };
+  };
 
-  // ---------------------------
-  // CREATE
-  // ---------------------------
-  let entityId: number | null = null;
+  const invoiceSource = entityTypeToInvoiceSource[entityType];
 
-  if (entityType !== "master_only") {
-    if (!entityData) {
-      throw new Error("entityData required");
+  const saveRecord = async (tx: DbTransaction) => {
+    if (!invoiceSource) {
+      return (await createRecord(tx)).record;
     }
 
-    entityId = await createEntityRecord(entityType, entityData);
-  }
-
-  // Normalize invoiceNo for master_only products
-  let normalizedInvoiceNo: string | null = null;
-  if (entityType === "master_only" && invoiceNo !== undefined && invoiceNo !== null) {
-    const trimmed = String(invoiceNo).trim();
-    normalizedInvoiceNo = trimmed.length > 0 ? trimmed : null;
-  }
-
-  // Check for duplicate invoiceNo if provided (for master_only products)
-  if (entityType === "master_only" && normalizedInvoiceNo !== null) {
-    const duplicateCheck = await db
-      .select({ productPaymentId: clientProductPayments.productPaymentId })
-      .from(clientProductPayments)
-      .where(eq(clientProductPayments.invoiceNo, normalizedInvoiceNo))
-      .limit(1);
+    // Invoiced products get the next number of the invoice sequence (or a manual one when allowed),
+    // allocated in the same transaction as the rows it belongs to
+    const invoiceValues = entityType === "master_only"
+      ? { invoiceNo, paymentDate }
+      : (entityData as Record<string, any>);
+
+    return withInvoiceNumber(
+      tx,
+      invoiceSource,
+      invoiceValues.invoiceNo,
+      userId,
+      getInvoiceDate(entityType, invoiceValues),
+      async (generatedInvoiceNo) => {
+        const created = await createRecord(tx, generatedInvoiceNo);
+        return {
+          sourceId: created.entityId ?? created.record.productPaymentId,
+          result: created.record,
+        };
+      }
+    );
+  };
 
-    if (duplicateCheck.length > 0) {
-      throw new Error(`Invoice number "${normalizedInvoiceNo}" already exists in product payments. Please use a different invoice number.`);
-    }
-  }
+  const isPartialPayment = product.requiresApproval &&
+    entityType === "allFinance_id" &&
+    (entityData as AllFinanceData).partialPayment === true;
+
+  // The payment rows, their invoice number and the approval request are saved in one transaction
+  const { record, approval } = await db.transaction(async (tx) => {
+    const record = await saveRecord(tx);
+    const approval = await submitProductPaymentForApproval(
+      tx,
+      record,
+      entityType === "master_only" ? amountValue : (entityData as Record<string, any>).amount,
+      isPartialPayment,
+      userId
+    );
 
-  const [record] = await db
-    .insert(clientProductPayments)
-    .values({
-      clientId,
-      productName: productName as any,
-      entityType: entityType as any,
-      entityId,
-      // For entity-based products: data is stored in entity table, so set to NULL here
-      // For master_only products: data is stored in this table
-      amount:
-        entityType === "master_only"
-          ? amountValue!.toString()
-          : null,
-      paymentDate:
-        entityType === "master_only"
-          ? paymentDate ?? null
-          : null,
-      invoiceNo:
-        entityType === "master_only"
-          ? normalizedInvoiceNo
-          : null,
-      remarks:
-        entityType === "master_only"
-          ? (remarks !== undefined && remarks !== null && String(remarks).trim() !== "" ? String(remarks).trim() : null)
-          : null,
-    })
-    .returning();
+    return { record, approval };
+  });
 
-  return { action: "CREATED", record };
+  return { action: "CREATED", record, approval };
 };
 
 
+
 export const getProductPaymentsByClientId = async (clientId: number) => {
 
   // Order by payment date first (so "today" filter shows by date), then createdAt for null dates
@@ -1264,7 +1405,7 @@ export const getPendingAllFinanceApprovals = async () => {
     .from(clientProductPayments)
     .where(
       and(
-        eq(clientProductPayments.productName, "ALL_FINANCE_EMPLOYEMENT"),
+        eq(clientProductPayments.entityType, "allFinance_id"),
         inArray(clientProductPayments.entityId, financeIds)
       )
     );
@@ -1356,14 +1497,18 @@ export const getPendingAllFinanceApprovals = async () => {
 };
 
 /* ================================
-   APPROVE ALL FINANCE PAYMENT
+   APPROVE / REJECT ALL FINANCE PAYMENT
+   Partial payments are approval requests of their product payment;
+   these endpoints act on that request, so the approvals inbox and the
+   all-finance screen share one decision (and its levels and checks).
 ================================ */
 
-export const approveAllFinancePayment = async (
+const actOnAllFinancePayment = async (
   financeId: number,
-  approvedBy: number
+  approver: ClientListScope,
+  decision: ApprovalDecision,
+  comment?: string | null
 ) => {
-  // Check if finance record exists and is pending
   const [finance] = await db
     .select()
     .from(allFinance)
@@ -1374,90 +1519,43 @@ export const approveAllFinancePayment = async (
     throw new Error(`Finance payment not found with financeId: ${financeId}`);
   }
 
-  if (finance.approvalStatus !== "pending") {
-    throw new Error(`Payment is already ${finance.approvalStatus}`);
-  }
-
-  // Update approval status
-  // Note: allFinance.financeId maps to database column "id"
-  const [updated] = await db
-    .update(allFinance)
-    .set({
-      approvalStatus: "approved",
-      approvedBy: approvedBy,
-    })
-    .where(eq(allFinance.financeId, financeId))
-    .returning();
-
-  if (!updated) {
-    throw new Error(`Failed to update finance payment with financeId: ${financeId}. Update returned no rows.`);
-  }
-
-  // Get approver user data
-  const [approver] = await db
-    .select({
-      id: users.id,
-      fullName: users.fullName,
-      designation: users.designation,
-      role: users.role,
-    })
-    .from(users)
-    .where(eq(users.id, approvedBy))
+  const [request] = await db
+    .select({ requestId: approvalRequests.requestId, status: approvalRequests.status })
+    .from(approvalRequests)
+    .innerJoin(
+      clientProductPayments,
+      and(
+        eq(approvalRequests.entityType, "product_payment"),
+        eq(approvalRequests.entityId, clientProductPayments.productPaymentId)
+      )
+    )
+    .where(
+      and(
+        eq(clientProductPayments.entityType, "allFinance_id"),
+        eq(clientProductPayments.entityId, financeId)
+      )
+    )
+    .orderBy(desc(approvalRequests.requestId))
     .limit(1);
 
-  console.log(`✅ Approved all finance payment ${financeId} by user ${approvedBy}`);
+  if (!request) {
+    throw new Error("This payment has no approval request");
+  }
 
-  return {
-    ...updated,
-    approver: approver ? {
-      id: approver.id,
-      name: approver.fullName,
-      designation: approver.designation,
-      role: approver.role,
-    } : null,
-  };
-};
+  if (request.status !== "pending") {
+    throw new Error(`Payment is already ${request.status}`);
+  }
 
-/* ================================
-   REJECT ALL FINANCE PAYMENT
-================================ */
+  const { after } = await actOnApprovalRequest(request.requestId, approver, decision, comment);
 
-export const rejectAllFinancePayment = async (
-  financeId: number,
-  approvedBy: number
-) => {
-  // Check if finance record exists and is pending
-  const [finance] = await db
+  const [updated] = await db
     .select()
     .from(allFinance)
     .where(eq(allFinance.financeId, financeId))
     .limit(1);
 
-  if (!finance) {
-    throw new Error(`Finance payment not found with financeId: ${financeId}`);
-  }
-
-  if (finance.approvalStatus !== "pending") {
-    throw new Error(`Payment is already ${finance.approvalStatus}`);
-  }
-
-  // Update approval status
-  // Note: allFinance.financeId maps to database column "id"
-  const [updated] = await db
-    .update(allFinance)
-    .set({
-      approvalStatus: "rejected",
-      approvedBy: approvedBy,
-    })
-    .where(eq(allFinance.financeId, financeId))
-    .returning();
-
-  if (!updated) {
-    throw new Error(`Failed to update finance payment with financeId: ${financeId}. Update returned no rows.`);
-  }
-
   // Get approver user data
-  const [approver] = await db
+  const [approverUser] = await db
     .select({
       id: users.id,
       fullName: users.fullName,
@@ -1465,18 +1563,31 @@ export const rejectAllFinancePayment = async (
       role: users.role,
     })
     .from(users)
-    .where(eq(users.id, approvedBy))
+    .where(eq(users.id, approver.userId))
     .limit(1);
 
-  console.log(`✅ Rejected all finance payment ${financeId} by user ${approvedBy}`);
+  console.log(`✅ ${decision === "approved" ? "Approved" : "Rejected"} all finance payment ${financeId} by user ${approver.userId}`);
 
   return {
     ...updated,
-    approver: approver ? {
-      id: approver.id,
-      name: approver.fullName,
-      designation: approver.designation,
-      role: approver.role,
+    approvalRequest: after,
+    approver: approverUser ? {
+      id: approverUser.id,
+      name: approverUser.fullName,
+      designation: approverUser.designation,
+      role: approverUser.role,
     } : null,
   };
 };
+
+export const approveAllFinancePayment = async (
+  financeId: number,
+  approver: ClientListScope,
+  comment?: string | null
+) => actOnAllFinancePayment(financeId, approver, "approved", comment);
+
+export const rejectAllFinancePayment = async (
+  financeId: number,
+  approver: ClientListScope,
+  comment?: string | null
+) => actOnAllFinancePayment(financeId, approver, "rejected", comment);
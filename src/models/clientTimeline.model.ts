@@ -0,0 +1,262 @@
+import { db } from "../config/databaseConnection";
+import { activityLog } from "../schemas/activityLog.schema";
+import { clientNotes } from "../schemas/clientNote.schema";
+import { approvalRequests, approvalActions } from "../schemas/approval.schema";
+import { users } from "../schemas/users.schema";
+import { eq, and, desc, lt, notInArray, sql, SQL } from "drizzle-orm";
+
+/* ==============================
+   TYPES
+============================== */
+export const TIMELINE_EVENT_TYPES = [
+  "note",
+  "payment",
+  "product_payment",
+  "refund",
+  "transfer",
+  "archive",
+  "approval",
+  "task",
+  "document",
+  "case_stage",
+  "client",
+  "activity",
+] as const;
+
+export type TimelineEventType = (typeof TIMELINE_EVENT_TYPES)[number];
+
+export interface TimelineEvent {
+  eventId: string;
+  type: TimelineEventType;
+  occurredAt: Date | null;
+  description: string | null;
+  actorId: number | null;
+  actorName: string | null;
+  entityType: string;
+  entityId: number | null;
+  data: Record<string, unknown>;
+}
+
+interface TimelineFilters {
+  types?: TimelineEventType[];
+  before?: Date;
+  limit?: number;
+}
+
+// Activity log entity types that have a dedicated source in the feed
+const ACTIVITY_EXCLUDED_ENTITY_TYPES = ["client_note", "approval_request"];
+
+// Classify activity_log rows into timeline types.
+// Product payments are logged with the product's entity type, so the action decides first.
+const activityTypeSql = sql<TimelineEventType>`CASE
+  WHEN ${activityLog.action}::text LIKE 'PAYMENT\\_%' THEN 'payment'
+  WHEN ${activityLog.action}::text LIKE 'PRODUCT\\_%' THEN 'product_payment'
+  WHEN ${activityLog.action} IN ('ARCHIVE', 'UNARCHIVE') THEN 'archive'
+  WHEN ${activityLog.entityType} = 'client_payment' THEN 'payment'
+  WHEN ${activityLog.entityType} = 'product_payment' THEN 'product_payment'
+  WHEN ${activityLog.entityType} = 'payment_refund' THEN 'refund'
+  WHEN ${activityLog.entityType} = 'client_transfer' THEN 'transfer'
+  WHEN ${activityLog.entityType} = 'client_task' THEN 'task'
+  WHEN ${activityLog.entityType} = 'client_document' THEN 'document'
+  WHEN ${activityLog.entityType} = 'client_case_stage' THEN 'case_stage'
+  WHEN ${activityLog.entityType} = 'client' THEN 'client'
+  ELSE 'activity'
+END`;
+
+/* ==============================
+   SOURCES
+============================== */
+const getActivityEvents = async (
+  clientId: number,
+  types: TimelineEventType[] | null,
+  before: Date | undefined,
+  limit: number
+): Promise<TimelineEvent[]> => {
+  const conditions: SQL[] = [
+    eq(activityLog.clientId, clientId),
+    notInArray(activityLog.entityType, ACTIVITY_EXCLUDED_ENTITY_TYPES),
+  ];
+  if (types) {
+    conditions.push(sql`${activityTypeSql} IN (${sql.join(types.map((type) => sql`${type}`), sql`, `)})`);
+  }
+  if (before) {
+    conditions.push(lt(activityLog.createdAt, before));
+  }
+
+  const rows = await db
+    .select({
+      logId: activityLog.logId,
+      type: activityTypeSql,
+      entityType: activityLog.entityType,
+      entityId: activityLog.entityId,
+      action: activityLog.action,
+      oldValue: activityLog.oldValue,
+      newValue: activityLog.newValue,
+      description: activityLog.description,
+      metadata: activityLog.metadata,
+      performedBy: activityLog.performedBy,
+      performedByName: users.fullName,
+      createdAt: activityLog.createdAt,
+    })
+    .from(activityLog)
+    .leftJoin(users, eq(activityLog.performedBy, users.id))
+    .where(and(...conditions))
+    .orderBy(desc(activityLog.createdAt), desc(activityLog.logId))
+    .limit(limit);
+
+  return rows.map((row) => ({
+    eventId: `activity:${row.logId}`,
+    type: row.type,
+    occurredAt: row.createdAt,
+    description: row.description,
+    actorId: row.performedBy,
+    actorName: row.performedByName,
+    entityType: row.entityType,
+    entityId: row.entityId,
+    data: {
+      action: row.action,
+      oldValue: row.oldValue,
+      newValue: row.newValue,
+      metadata: row.metadata,
+    },
+  }));
+};
+
+const getNoteEvents = async (
+  clientId: number,
+  before: Date | undefined,
+  limit: number
+): Promise<TimelineEvent[]> => {
+  const conditions: SQL[] = [eq(clientNotes.clientId, clientId)];
+  if (before) {
+    conditions.push(lt(clientNotes.createdAt, before));
+  }
+
+  const rows = await db
+    .select({
+      noteId: clientNotes.noteId,
+      body: clientNotes.body,
+      authorId: clientNotes.authorId,
+      authorName: users.fullName,
+      isPinned: clientNotes.isPinned,
+      editedAt: clientNotes.editedAt,
+      createdAt: clientNotes.createdAt,
+    })
+    .from(clientNotes)
+    .leftJoin(users, eq(clientNotes.authorId, users.id))
+    .where(and(...conditions))
+    .orderBy(desc(clientNotes.createdAt), desc(clientNotes.noteId))
+    .limit(limit);
+
+  return rows.map((row) => ({
+    eventId: `note:${row.noteId}`,
+    type: "note",
+    occurredAt: row.createdAt,
+    description: row.body,
+    actorId: row.authorId,
+    actorName: row.authorName,
+    entityType: "client_note",
+    entityId: row.noteId,
+    data: {
+      isPinned: row.isPinned,
+      editedAt: row.editedAt,
+    },
+  }));
+};
+
+// Approval history (submission + every decision) of the client's payments
+const getApprovalEvents = async (
+  clientId: number,
+  before: Date | undefined,
+  limit: number
+): Promise<TimelineEvent[]> => {
+  const conditions: SQL[] = [eq(approvalRequests.clientId, clientId)];
+  if (before) {
+    conditions.push(lt(approvalActions.createdAt, before));
+  }
+
+  const rows = await db
+    .select({
+      actionId: approvalActions.actionId,
+      requestId: approvalRequests.requestId,
+      entityType: approvalRequests.entityType,
+      entityId: approvalRequests.entityId,
+      productName: approvalRequests.productName,
+      amount: approvalRequests.amount,
+      status: approvalRequests.status,
+      totalLevels: approvalRequests.levels,
+      level: approvalActions.level,
+      levelRole: approvalActions.levelRole,
+      action: approvalActions.action,
+      comment: approvalActions.comment,
+      actedBy: approvalActions.actedBy,
+      actedByName: users.fullName,
+      createdAt: approvalActions.createdAt,
+    })
+    .from(approvalActions)
+    .innerJoin(approvalRequests, eq(approvalActions.requestId, approvalRequests.requestId))
+    .leftJoin(users, eq(approvalActions.actedBy, users.id))
+    .where(and(...conditions))
+    .orderBy(desc(approvalActions.createdAt), desc(approvalActions.actionId))
+    .limit(limit);
+
+  return rows.map((row) => ({
+    eventId: `approval:${row.actionId}`,
+    type: "approval",
+    occurredAt: row.createdAt,
+    description:
+      row.action === "submitted"
+        ? `Approval requested for ${row.productName ?? row.entityType}${row.amount ? ` - ${row.amount}` : ""}`
+        : `Approval ${row.action} at level ${row.level + 1} of ${row.totalLevels.length}`,
+    actorId: row.actedBy,
+    actorName: row.actedByName,
+    entityType: "approval_request",
+    entityId: row.requestId,
+    data: {
+      action: row.action,
+      level: row.level + 1,
+      levelRole: row.levelRole,
+      comment: row.comment,
+      requestStatus: row.status,
+      paymentEntityType: row.entityType,
+      paymentEntityId: row.entityId,
+      productName: row.productName,
+      amount: row.amount,
+    },
+  }));
+};
+
+/* ==============================
+   CLIENT TIMELINE
+   Notes, activity log rows (payments, product payments, refunds, transfers, archive,
+   tasks, documents, client edits) and approval history merged newest first.
+   Paginate with `before` = nextCursor of the previous page.
+============================== */
+export const getClientTimeline = async (clientId: number, filters: TimelineFilters = {}) => {
+  const limit = Math.min(Math.max(filters.limit ?? 50, 1), 200);
+  const types = filters.types && filters.types.length > 0 ? filters.types : null;
+  const wants = (type: TimelineEventType) => !types || types.includes(type);
+  const activityTypes = types
+    ? types.filter((type) => type !== "note" && type !== "approval")
+    : null;
+
+  // Every source is limited on its own; the merged page is then cut to `limit`
+  const [activityEvents, noteEvents, approvalEvents] = await Promise.all([
+    !activityTypes || activityTypes.length > 0
+      ? getActivityEvents(clientId, activityTypes, filters.before, limit)
+      : [],
+    wants("note") ? getNoteEvents(clientId, filters.before, limit) : [],
+    wants("approval") ? getApprovalEvents(clientId, filters.before, limit) : [],
+  ]);
+
+  const events = [...activityEvents, ...noteEvents, ...approvalEvents]
+    .sort((a, b) => (b.occurredAt?.getTime() ?? 0) - (a.occurredAt?.getTime() ?? 0))
+    .slice(0, limit);
+
+  const last = events[events.length - 1];
+
+  return {
+    events,
+    nextCursor: events.length === limit && last?.occurredAt ? last.occurredAt.toISOString() : null,
+  };
+};
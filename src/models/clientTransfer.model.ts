@@ -0,0 +1,403 @@
+import crypto from "crypto";
+import { db, DbTransaction } from "../config/databaseConnection";
+import { clientTransfers } from "../schemas/clientTransfer.schema";
+import { clientInformation } from "../schemas/clientInformation.schema";
+import { activityLog } from "../schemas/activityLog.schema";
+import { users } from "../schemas/users.schema";
+import { eq, and, or, desc, gte, lt, inArray, sql, SQL } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { ClientListScope } from "./client.model";
+
+/* ==============================
+   TYPES
+============================== */
+export interface BulkTransferInput {
+  fromCounsellorId: number;
+  toCounsellorId: number;
+  // Only these clients of fromCounsellorId (default: all of their active clients)
+  clientIds?: number[];
+  includeArchived?: boolean;
+  reason?: string | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+export interface ClientTransferFilters {
+  clientId?: number;
+  // Transfers from or to this counsellor
+  counsellorId?: number;
+  batchId?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
+
+const fromUsers = alias(users, "from_users");
+const toUsers = alias(users, "to_users");
+const performedByUsers = alias(users, "performed_by_users");
+
+const transferSelection = {
+  transferId: clientTransfers.transferId,
+  clientId: clientTransfers.clientId,
+  clientName: clientInformation.fullName,
+  fromCounsellorId: clientTransfers.fromCounsellorId,
+  fromCounsellorName: fromUsers.fullName,
+  toCounsellorId: clientTransfers.toCounsellorId,
+  toCounsellorName: toUsers.fullName,
+  reason: clientTransfers.reason,
+  batchId: clientTransfers.batchId,
+  transferredBy: clientTransfers.transferredBy,
+  transferredByName: performedByUsers.fullName,
+  createdAt: clientTransfers.createdAt,
+};
+
+const INSERT_CHUNK_SIZE = 500;
+
+/* ==============================
+   HELPERS
+============================== */
+const normalizeReason = (reason: unknown) => {
+  if (reason === undefined || reason === null) return null;
+  const trimmed = String(reason).trim();
+  return trimmed || null;
+};
+
+const getCounsellor = async (counsellorId: number) => {
+  const [counsellor] = await db
+    .select({
+      id: users.id,
+      fullName: users.fullName,
+      role: users.role,
+      managerId: users.managerId,
+      isActive: users.isActive,
+    })
+    .from(users)
+    .where(eq(users.id, counsellorId))
+    .limit(1);
+
+  return counsellor ?? null;
+};
+
+// Non-supervisor managers only move clients between themselves and their own team
+const isInManagerTeam = (
+  counsellor: { id: number; managerId: number | null },
+  scope: ClientListScope
+) =>
+  scope.role !== "manager" ||
+  !!scope.isSupervisor ||
+  counsellor.id === scope.userId ||
+  counsellor.managerId === scope.userId;
+
+const assertCanTransfer = (scope: ClientListScope) => {
+  if (scope.role === "counsellor") {
+    throw new Error("Counsellors cannot transfer clients");
+  }
+};
+
+const validateTargetCounsellor = async (toCounsellorId: number, scope: ClientListScope) => {
+  const counsellor = await getCounsellor(toCounsellorId);
+
+  if (!counsellor || (counsellor.role !== "counsellor" && counsellor.role !== "manager")) {
+    throw new Error("Counsellor not found");
+  }
+
+  if (!counsellor.isActive) {
+    throw new Error("Cannot transfer clients to a deactivated user");
+  }
+
+  if (!isInManagerTeam(counsellor, scope)) {
+    throw new Error("You can only transfer clients within your own team");
+  }
+
+  return counsellor;
+};
+
+/**
+ * Move `from`'s clients (optionally narrowed by `where`) to another counsellor inside the caller's transaction.
+ * Writes one history row and one timeline entry per client; returns the moved client ids.
+ * Used by bulk transfers and user deactivation.
+ */
+export const reassignClientsInTransaction = async (
+  tx: DbTransaction,
+  where: SQL | undefined,
+  options: {
+    from: { id: number; fullName: string };
+    to: { id: number; fullName: string };
+    reason: string | null;
+    batchId: string;
+    performedBy: number;
+    ipAddress?: string | null;
+    userAgent?: string | null;
+  }
+) => {
+  const { from, to, reason, batchId } = options;
+  const scopeWhere = and(eq(clientInformation.counsellorId, from.id), where);
+
+  const moved = await tx
+    .update(clientInformation)
+    .set({ counsellorId: to.id })
+    .where(scopeWhere)
+    .returning({ clientId: clientInformation.clientId });
+
+  const ids = moved.map((row) => row.clientId);
+
+  for (let i = 0; i < ids.length; i += INSERT_CHUNK_SIZE) {
+    const chunk = ids.slice(i, i + INSERT_CHUNK_SIZE);
+
+    await tx.insert(clientTransfers).values(
+      chunk.map((clientId) => ({
+        clientId,
+        fromCounsellorId: from.id,
+        toCounsellorId: to.id,
+        reason,
+        batchId,
+        transferredBy: options.performedBy,
+      }))
+    );
+
+    await tx.insert(activityLog).values(
+      chunk.map((clientId) => ({
+        entityType: "client_transfer",
+        entityId: clientId,
+        clientId,
+        action: "UPDATE" as const,
+        oldValue: { counsellorId: from.id },
+        newValue: { counsellorId: to.id },
+        description: `Client transferred to ${to.fullName}`,
+        metadata: { batchId, fromCounsellorId: from.id, toCounsellorId: to.id, reason },
+        performedBy: options.performedBy,
+        ipAddress: options.ipAddress ?? null,
+        userAgent: options.userAgent ?? null,
+      }))
+    );
+  }
+
+  return ids;
+};
+
+/* ==============================
+   TRANSFER ONE CLIENT
+============================== */
+export const transferClient = async (
+  clientId: number,
+  toCounsellorId: number,
+  reason: unknown,
+  scope: ClientListScope
+) => {
+  assertCanTransfer(scope);
+
+  const [client] = await db
+    .select({
+      clientId: clientInformation.clientId,
+      fullName: clientInformation.fullName,
+      counsellorId: clientInformation.counsellorId,
+    })
+    .from(clientInformation)
+    .where(eq(clientInformation.clientId, clientId))
+    .limit(1);
+
+  if (!client) {
+    throw new Error("Client not found");
+  }
+
+  if (client.counsellorId === toCounsellorId) {
+    throw new Error("Client is already assigned to this counsellor");
+  }
+
+  const fromCounsellor = await getCounsellor(client.counsellorId);
+  if (fromCounsellor && !isInManagerTeam(fromCounsellor, scope)) {
+    throw new Error("You can only transfer clients within your own team");
+  }
+
+  const toCounsellor = await validateTargetCounsellor(toCounsellorId, scope);
+
+  const transfer = await db.transaction(async (tx) => {
+    // Guard against a concurrent transfer of the same client
+    const [updated] = await tx
+      .update(clientInformation)
+      .set({ counsellorId: toCounsellor.id })
+      .where(
+        and(
+          eq(clientInformation.clientId, clientId),
+          eq(clientInformation.counsellorId, client.counsellorId)
+        )
+      )
+      .returning({ clientId: clientInformation.clientId });
+
+    if (!updated) {
+      throw new Error("Client was reassigned by someone else, please retry");
+    }
+
+    const [row] = await tx
+      .insert(clientTransfers)
+      .values({
+        clientId,
+        fromCounsellorId: client.counsellorId,
+        toCounsellorId: toCounsellor.id,
+        reason: normalizeReason(reason),
+        transferredBy: scope.userId,
+      })
+      .returning();
+
+    return row;
+  });
+
+  return {
+    transfer,
+    client: { clientId: client.clientId, fullName: client.fullName },
+    from: { id: client.counsellorId, fullName: fromCounsellor?.fullName ?? null },
+    to: { id: toCounsellor.id, fullName: toCounsellor.fullName },
+  };
+};
+
+/* ==============================
+   BULK TRANSFER
+   Moves a counsellor's clients to another counsellor in one transaction;
+   every history row shares the same batchId. Timeline entries are written
+   in the same transaction.
+============================== */
+export const bulkTransferClients = async (input: BulkTransferInput, scope: ClientListScope) => {
+  assertCanTransfer(scope);
+
+  if (input.fromCounsellorId === input.toCounsellorId) {
+    throw new Error("Source and target counsellor must be different");
+  }
+
+  const fromCounsellor = await getCounsellor(input.fromCounsellorId);
+  if (!fromCounsellor) {
+    throw new Error("Source counsellor not found");
+  }
+  if (!isInManagerTeam(fromCounsellor, scope)) {
+    throw new Error("You can only transfer clients within your own team");
+  }
+
+  const toCounsellor = await validateTargetCounsellor(input.toCounsellorId, scope);
+
+  const conditions: SQL[] = [];
+  if (!input.includeArchived) {
+    conditions.push(eq(clientInformation.archived, false));
+  }
+  if (input.clientIds) {
+    if (!input.clientIds.length) {
+      throw new Error("clientIds must not be empty");
+    }
+    conditions.push(inArray(clientInformation.clientId, input.clientIds));
+  }
+
+  const reason = normalizeReason(input.reason);
+  const batchId = crypto.randomUUID();
+
+  const transferredIds = await db.transaction((tx) =>
+    reassignClientsInTransaction(tx, and(...conditions), {
+      from: fromCounsellor,
+      to: toCounsellor,
+      reason,
+      batchId,
+      performedBy: scope.userId,
+      ipAddress: input.ipAddress,
+      userAgent: input.userAgent,
+    })
+  );
+
+  // Requested clients that were not moved (not this counsellor's, archived, or missing)
+  const skippedClientIds = input.clientIds
+    ? input.clientIds.filter((clientId) => !transferredIds.includes(clientId))
+    : [];
+
+  return {
+    batchId: transferredIds.length ? batchId : null,
+    from: { id: fromCounsellor.id, fullName: fromCounsellor.fullName },
+    to: { id: toCounsellor.id, fullName: toCounsellor.fullName },
+    reason,
+    transferredCount: transferredIds.length,
+    clientIds: transferredIds,
+    skippedClientIds,
+  };
+};
+
+/* ==============================
+   TRANSFER HISTORY
+   Newest first. Non-supervisor managers see transfers that involve their team.
+============================== */
+export const getClientTransfers = async (filters: ClientTransferFilters, scope: ClientListScope) => {
+  const conditions: SQL[] = [];
+
+  if (scope.role === "manager" && !scope.isSupervisor) {
+    conditions.push(
+      or(
+        eq(clientTransfers.fromCounsellorId, scope.userId),
+        eq(clientTransfers.toCounsellorId, scope.userId),
+        eq(fromUsers.managerId, scope.userId),
+        eq(toUsers.managerId, scope.userId)
+      )!
+    );
+  }
+
+  if (filters.clientId) {
+    conditions.push(eq(clientTransfers.clientId, filters.clientId));
+  }
+
+  if (filters.counsellorId) {
+    conditions.push(
+      or(
+        eq(clientTransfers.fromCounsellorId, filters.counsellorId),
+        eq(clientTransfers.toCounsellorId, filters.counsellorId)
+      )!
+    );
+  }
+
+  if (filters.batchId) {
+    conditions.push(eq(clientTransfers.batchId, filters.batchId));
+  }
+
+  if (filters.from) {
+    conditions.push(gte(clientTransfers.createdAt, new Date(`${filters.from}T00:00:00`)));
+  }
+
+  if (filters.to) {
+    const end = new Date(`${filters.to}T00:00:00`);
+    end.setDate(end.getDate() + 1);
+    conditions.push(lt(clientTransfers.createdAt, end));
+  }
+
+  const limit = Math.min(Math.max(filters.limit || 50, 1), 200);
+  const offset = Math.max(filters.offset || 0, 0);
+  const where = conditions.length ? and(...conditions) : undefined;
+
+  const [rows, [{ total }]] = await Promise.all([
+    db
+      .select(transferSelection)
+      .from(clientTransfers)
+      .innerJoin(clientInformation, eq(clientTransfers.clientId, clientInformation.clientId))
+      .innerJoin(fromUsers, eq(clientTransfers.fromCounsellorId, fromUsers.id))
+      .innerJoin(toUsers, eq(clientTransfers.toCounsellorId, toUsers.id))
+      .leftJoin(performedByUsers, eq(clientTransfers.transferredBy, performedByUsers.id))
+      .where(where)
+      .orderBy(desc(clientTransfers.createdAt), desc(clientTransfers.transferId))
+      .limit(limit)
+      .offset(offset),
+    db
+      .select({ total: sql<number>`COUNT(*)::int` })
+      .from(clientTransfers)
+      .innerJoin(fromUsers, eq(clientTransfers.fromCounsellorId, fromUsers.id))
+      .innerJoin(toUsers, eq(clientTransfers.toCounsellorId, toUsers.id))
+      .where(where),
+  ]);
+
+  return { total, limit, offset, data: rows };
+};
+
+/**
+ * Full ownership history of one client, newest first (scope is checked by the caller)
+ */
+export const getClientTransferHistory = async (clientId: number) =>
+  db
+    .select(transferSelection)
+    .from(clientTransfers)
+    .innerJoin(clientInformation, eq(clientTransfers.clientId, clientInformation.clientId))
+    .innerJoin(fromUsers, eq(clientTransfers.fromCounsellorId, fromUsers.id))
+    .innerJoin(toUsers, eq(clientTransfers.toCounsellorId, toUsers.id))
+    .leftJoin(performedByUsers, eq(clientTransfers.transferredBy, performedByUsers.id))
+    .where(eq(clientTransfers.clientId, clientId))
+    .orderBy(desc(clientTransfers.createdAt), desc(clientTransfers.transferId));
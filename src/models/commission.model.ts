@@ -0,0 +1,1009 @@
+import { db } from "../config/databaseConnection";
+import {
+  commissionPlans,
+  commissionPlanRules,
+  commissionPlanTiers,
+  commissionPlanOverrides,
+  commissionStatements,
+  commissionStatementLines,
+} from "../schemas/commission.schema";
+import { users } from "../schemas/users.schema";
+import { saleTypes } from "../schemas/saleType.schema";
+import { clientInformation } from "../schemas/clientInformation.schema";
+import { clientPayments } from "../schemas/clientPayment.schema";
+import { clientProductPayments } from "../schemas/clientProductPayments.schema";
+import { paymentRefunds } from "../schemas/paymentRefund.schema";
+import { airTicket } from "../schemas/airTicket.schema";
+import { allFinance } from "../schemas/allFinance.schema";
+import { beaconAccount } from "../schemas/beaconAccount.schema";
+import { forexFees } from "../schemas/forexFees.schema";
+import { ielts } from "../schemas/ielts.schema";
+import { insurance } from "../schemas/insurance.schema";
+import { loan } from "../schemas/loan.schema";
+import { newSell } from "../schemas/newSell.schema";
+import { visaExtension } from "../schemas/visaExtension.schema";
+import { eq, and, asc, desc, inArray, gte, lte, sql, SQL } from "drizzle-orm";
+import {
+  ClientListScope,
+  paymentCounsellorSql,
+  productPaymentCounsellorSql,
+  paymentApprovedSql,
+  productPaymentApprovedSql,
+} from "./client.model";
+import { getCounsellorMonthlyStats, getMonthRange } from "./leaderboard.model";
+
+/* ==============================
+   TYPES
+============================== */
+export type CommissionRuleType = (typeof commissionPlanRules.ruleType.enumValues)[number];
+export type CommissionCalcType = (typeof commissionPlanRules.calcType.enumValues)[number];
+export type CommissionStatementStatus = (typeof commissionStatements.status.enumValues)[number];
+
+interface CommissionRuleInput {
+  ruleType: CommissionRuleType;
+  saleTypeId?: number | null;
+  productName?: string | null;
+  calcType: CommissionCalcType;
+  value: number | string;
+}
+
+interface CommissionTierInput {
+  minAttainment: number | string;
+  multiplier?: number | string;
+  bonusAmount?: number | string;
+}
+
+interface CommissionPlanInput {
+  name?: string;
+  description?: string | null;
+  isDefault?: boolean;
+  isActive?: boolean;
+  rules?: CommissionRuleInput[];
+  tiers?: CommissionTierInput[];
+}
+
+interface StatementFilters {
+  month?: number;
+  year?: number;
+  status?: CommissionStatementStatus;
+  counsellorId?: number;
+}
+
+interface StatementLineInput {
+  sourceType: "client_payment" | "product_payment" | "refund";
+  sourceId: number;
+  clientId: number;
+  ruleId: number;
+  description: string;
+  baseAmount: number;
+  commission: number;
+}
+
+const isAdminRole = (role: string) => role === "admin" || role === "superadmin";
+
+/* ==============================
+   HELPERS
+============================== */
+const toNumber = (value: unknown, field: string, { min = 0 } = {}) => {
+  const parsed = Number(value);
+  if (value === null || value === undefined || value === "" || !Number.isFinite(parsed) || parsed < min) {
+    throw new Error(`${field} must be a number of at least ${min}`);
+  }
+  return parsed;
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const validatePeriod = (month: number, year: number) => {
+  if (!Number.isInteger(month) || month < 1 || month > 12) {
+    throw new Error("Invalid month. Must be between 1 and 12");
+  }
+  if (!Number.isInteger(year) || year < 2000 || year > 3000) {
+    throw new Error("Invalid year");
+  }
+};
+
+const normalizeRules = (rules: unknown) => {
+  if (!Array.isArray(rules)) {
+    throw new Error("rules must be an array");
+  }
+
+  return rules.map((rule: CommissionRuleInput, index) => {
+    const label = `rules[${index}]`;
+
+    if (!["sale_type", "product"].includes(rule?.ruleType)) {
+      throw new Error(`${label}.ruleType must be sale_type or product`);
+    }
+    if (!["flat", "percentage"].includes(rule.calcType)) {
+      throw new Error(`${label}.calcType must be flat or percentage`);
+    }
+
+    const value = toNumber(rule.value, `${label}.value`);
+    if (rule.calcType === "percentage" && value > 100) {
+      throw new Error(`${label}.value cannot exceed 100 for percentage rules`);
+    }
+
+    if (rule.ruleType === "sale_type") {
+      if (!rule.saleTypeId) throw new Error(`${label}.saleTypeId required for sale_type rules`);
+      return {
+        ruleType: rule.ruleType,
+        saleTypeId: Number(rule.saleTypeId),
+        productName: null,
+        calcType: rule.calcType,
+        value: value.toFixed(2),
+      };
+    }
+
+    if (!rule.productName) throw new Error(`${label}.productName required for product rules`);
+    return {
+      ruleType: rule.ruleType,
+      saleTypeId: null,
+      productName: String(rule.productName).trim().toUpperCase(),
+      calcType: rule.calcType,
+      value: value.toFixed(2),
+    };
+  });
+};
+
+const normalizeTiers = (tiers: unknown) => {
+  if (!Array.isArray(tiers)) {
+    throw new Error("tiers must be an array");
+  }
+
+  const normalized = tiers.map((tier: CommissionTierInput, index) => ({
+    minAttainment: toNumber(tier?.minAttainment, `tiers[${index}].minAttainment`).toFixed(2),
+    multiplier: toNumber(tier.multiplier ?? 1, `tiers[${index}].multiplier`).toFixed(2),
+    bonusAmount: toNumber(tier.bonusAmount ?? 0, `tiers[${index}].bonusAmount`).toFixed(2),
+  }));
+
+  const thresholds = normalized.map((tier) => tier.minAttainment);
+  if (new Set(thresholds).size !== thresholds.length) {
+    throw new Error("Each tier must have a different minAttainment");
+  }
+
+  return normalized;
+};
+
+// Manager may only act on counsellors of their own team (supervisors on everyone)
+const assertCanManageCounsellor = async (actor: ClientListScope, counsellorId: number) => {
+  const [counsellor] = await db
+    .select({ id: users.id, role: users.role, managerId: users.managerId })
+    .from(users)
+    .where(eq(users.id, counsellorId))
+    .limit(1);
+
+  if (!counsellor || counsellor.role !== "counsellor") {
+    throw new Error("Counsellor not found");
+  }
+
+  if (isAdminRole(actor.role)) return counsellor;
+
+  if (actor.role === "manager" && (actor.isSupervisor || counsellor.managerId === actor.userId)) {
+    return counsellor;
+  }
+
+  throw new Error("You can only manage commissions of counsellors in your team");
+};
+
+/* ==============================
+   PLANS
+============================== */
+export const getCommissionPlanById = async (planId: number) => {
+  const [plan] = await db
+    .select()
+    .from(commissionPlans)
+    .where(eq(commissionPlans.planId, planId))
+    .limit(1);
+
+  if (!plan) return null;
+
+  const rules = await db
+    .select({
+      ruleId: commissionPlanRules.ruleId,
+      ruleType: commissionPlanRules.ruleType,
+      saleTypeId: commissionPlanRules.saleTypeId,
+      saleType: saleTypes.saleType,
+      productName: commissionPlanRules.productName,
+      calcType: commissionPlanRules.calcType,
+      value: commissionPlanRules.value,
+    })
+    .from(commissionPlanRules)
+    .leftJoin(saleTypes, eq(commissionPlanRules.saleTypeId, saleTypes.saleTypeId))
+    .where(eq(commissionPlanRules.planId, planId))
+    .orderBy(asc(commissionPlanRules.ruleId));
+
+  const tiers = await db
+    .select({
+      tierId: commissionPlanTiers.tierId,
+      minAttainment: commissionPlanTiers.minAttainment,
+      multiplier: commissionPlanTiers.multiplier,
+      bonusAmount: commissionPlanTiers.bonusAmount,
+    })
+    .from(commissionPlanTiers)
+    .where(eq(commissionPlanTiers.planId, planId))
+    .orderBy(asc(commissionPlanTiers.minAttainment));
+
+  return { ...plan, rules, tiers };
+};
+
+export const getCommissionPlans = async () => {
+  const plans = await db
+    .select({ planId: commissionPlans.planId })
+    .from(commissionPlans)
+    .orderBy(desc(commissionPlans.isDefault), asc(commissionPlans.name));
+
+  const result = await Promise.all(plans.map((plan) => getCommissionPlanById(plan.planId)));
+  return result.filter((plan) => plan !== null);
+};
+
+export const createCommissionPlan = async (data: CommissionPlanInput, createdBy: number) => {
+  if (!data.name || !String(data.name).trim()) throw new Error("Plan name required");
+
+  const rules = normalizeRules(data.rules ?? []);
+  const tiers = normalizeTiers(data.tiers ?? []);
+  const isDefault = data.isDefault === true;
+
+  const planId = await db.transaction(async (tx) => {
+    // Only one default plan at a time
+    if (isDefault) {
+      await tx.update(commissionPlans).set({ isDefault: false }).where(eq(commissionPlans.isDefault, true));
+    }
+
+    const [plan] = await tx
+      .insert(commissionPlans)
+      .values({
+        name: String(data.name).trim(),
+        description: data.description ?? null,
+        isDefault,
+        isActive: data.isActive ?? true,
+        createdBy,
+      })
+      .returning({ planId: commissionPlans.planId });
+
+    if (rules.length > 0) {
+      await tx.insert(commissionPlanRules).values(rules.map((rule) => ({ ...rule, planId: plan.planId })));
+    }
+    if (tiers.length > 0) {
+      await tx.insert(commissionPlanTiers).values(tiers.map((tier) => ({ ...tier, planId: plan.planId })));
+    }
+
+    return plan.planId;
+  });
+
+  return (await getCommissionPlanById(planId))!;
+};
+
+// rules / tiers, when sent, replace the existing ones. Locked statements are not affected.
+export const updateCommissionPlan = async (planId: number, data: CommissionPlanInput) => {
+  const before = await getCommissionPlanById(planId);
+  if (!before) throw new Error("Commission plan not found");
+
+  const updateData: Partial<typeof commissionPlans.$inferInsert> = {};
+
+  if (data.name !== undefined) {
+    if (!String(data.name).trim()) throw new Error("Plan name required");
+    updateData.name = String(data.name).trim();
+  }
+  if (data.description !== undefined) updateData.description = data.description;
+  if (data.isDefault !== undefined) updateData.isDefault = data.isDefault === true;
+  if (data.isActive !== undefined) updateData.isActive = data.isActive === true;
+
+  const rules = data.rules !== undefined ? normalizeRules(data.rules) : null;
+  const tiers = data.tiers !== undefined ? normalizeTiers(data.tiers) : null;
+
+  await db.transaction(async (tx) => {
+    if (updateData.isDefault) {
+      await tx.update(commissionPlans).set({ isDefault: false }).where(eq(commissionPlans.isDefault, true));
+    }
+
+    await tx
+      .update(commissionPlans)
+      .set({ ...updateData, updatedAt: new Date() })
+      .where(eq(commissionPlans.planId, planId));
+
+    if (rules) {
+      await tx.delete(commissionPlanRules).where(eq(commissionPlanRules.planId, planId));
+      if (rules.length > 0) {
+        await tx.insert(commissionPlanRules).values(rules.map((rule) => ({ ...rule, planId })));
+      }
+    }
+
+    if (tiers) {
+      await tx.delete(commissionPlanTiers).where(eq(commissionPlanTiers.planId, planId));
+      if (tiers.length > 0) {
+        await tx.insert(commissionPlanTiers).values(tiers.map((tier) => ({ ...tier, planId })));
+      }
+    }
+  });
+
+  const after = (await getCommissionPlanById(planId))!;
+  return { before, after };
+};
+
+export const deleteCommissionPlan = async (planId: number) => {
+  const plan = await getCommissionPlanById(planId);
+  if (!plan) throw new Error("Commission plan not found");
+
+  const [draft] = await db
+    .select({ statementId: commissionStatements.statementId })
+    .from(commissionStatements)
+    .where(and(eq(commissionStatements.planId, planId), eq(commissionStatements.status, "draft")))
+    .limit(1);
+
+  if (draft) {
+    throw new Error("Plan is used by draft statements. Recalculate or lock them before deleting the plan");
+  }
+
+  await db.delete(commissionPlans).where(eq(commissionPlans.planId, planId));
+  return plan;
+};
+
+/* ==============================
+   MANAGER OVERRIDES
+============================== */
+export const getCommissionPlanOverrides = async (scope: ClientListScope) => {
+  const conditions: SQL[] = [];
+  if (scope.role === "manager" && !scope.isSupervisor) {
+    conditions.push(eq(users.managerId, scope.userId));
+  }
+
+  return db
+    .select({
+      overrideId: commissionPlanOverrides.overrideId,
+      counsellorId: commissionPlanOverrides.counsellorId,
+      counsellorName: users.fullName,
+      planId: commissionPlanOverrides.planId,
+      planName: commissionPlans.name,
+      reason: commissionPlanOverrides.reason,
+      setBy: commissionPlanOverrides.setBy,
+      updatedAt: commissionPlanOverrides.updatedAt,
+    })
+    .from(commissionPlanOverrides)
+    .innerJoin(users, eq(commissionPlanOverrides.counsellorId, users.id))
+    .innerJoin(commissionPlans, eq(commissionPlanOverrides.planId, commissionPlans.planId))
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(asc(users.fullName));
+};
+
+export const setCommissionPlanOverride = async (
+  counsellorId: number,
+  planId: number,
+  reason: string | null | undefined,
+  actor: ClientListScope
+) => {
+  await assertCanManageCounsellor(actor, counsellorId);
+
+  const [plan] = await db
+    .select({ planId: commissionPlans.planId, isActive: commissionPlans.isActive })
+    .from(commissionPlans)
+    .where(eq(commissionPlans.planId, planId))
+    .limit(1);
+
+  if (!plan) throw new Error("Commission plan not found");
+  if (!plan.isActive) throw new Error("Commission plan is inactive");
+
+  const [before] = await db
+    .select()
+    .from(commissionPlanOverrides)
+    .where(eq(commissionPlanOverrides.counsellorId, counsellorId))
+    .limit(1);
+
+  const [after] = await db
+    .insert(commissionPlanOverrides)
+    .values({ counsellorId, planId, reason: reason ?? null, setBy: actor.userId })
+    .onConflictDoUpdate({
+      target: commissionPlanOverrides.counsellorId,
+      set: { planId, reason: reason ?? null, setBy: actor.userId, updatedAt: new Date() },
+    })
+    .returning();
+
+  return { before: before ?? null, after };
+};
+
+export const removeCommissionPlanOverride = async (counsellorId: number, actor: ClientListScope) => {
+  await assertCanManageCounsellor(actor, counsellorId);
+
+  const [deleted] = await db
+    .delete(commissionPlanOverrides)
+    .where(eq(commissionPlanOverrides.counsellorId, counsellorId))
+    .returning();
+
+  if (!deleted) throw new Error("No plan override for this counsellor");
+  return deleted;
+};
+
+// Override plan if set and active, otherwise the active default plan
+const resolveCounsellorPlan = async (counsellorId: number) => {
+  const [override] = await db
+    .select({ planId: commissionPlans.planId })
+    .from(commissionPlanOverrides)
+    .innerJoin(commissionPlans, eq(commissionPlanOverrides.planId, commissionPlans.planId))
+    .where(and(eq(commissionPlanOverrides.counsellorId, counsellorId), eq(commissionPlans.isActive, true)))
+    .limit(1);
+
+  if (override) return getCommissionPlanById(override.planId);
+
+  const [defaultPlan] = await db
+    .select({ planId: commissionPlans.planId })
+    .from(commissionPlans)
+    .where(and(eq(commissionPlans.isDefault, true), eq(commissionPlans.isActive, true)))
+    .limit(1);
+
+  return defaultPlan ? getCommissionPlanById(defaultPlan.planId) : null;
+};
+
+/* ==============================
+   CALCULATION HELPERS
+============================== */
+// Entity tables holding the amount of entity-based product payments
+const entityAmountSources: Record<string, { table: any; id: any; amount: any }> = {
+  airTicket_id: { table: airTicket, id: airTicket.id, amount: airTicket.amount },
+  allFinance_id: { table: allFinance, id: allFinance.financeId, amount: allFinance.amount },
+  beaconAccount_id: { table: beaconAccount, id: beaconAccount.id, amount: beaconAccount.amount },
+  forexFees_id: { table: forexFees, id: forexFees.id, amount: forexFees.amount },
+  ielts_id: { table: ielts, id: ielts.id, amount: ielts.amount },
+  insurance_id: { table: insurance, id: insurance.id, amount: insurance.amount },
+  loan_id: { table: loan, id: loan.id, amount: loan.amount },
+  newSell_id: { table: newSell, id: newSell.id, amount: newSell.amount },
+  visaextension_id: { table: visaExtension, id: visaExtension.id, amount: visaExtension.amount },
+};
+
+const getEntityAmountMap = async (entityType: string, entityIds: number[]) => {
+  const amounts = new Map<number, number>();
+  const source = entityAmountSources[entityType];
+  if (!source || entityIds.length === 0) return amounts;
+
+  const rows: { id: number; amount: string | null }[] = await db
+    .select({ id: source.id, amount: source.amount })
+    .from(source.table)
+    .where(inArray(source.id, entityIds));
+
+  rows.forEach((row) => amounts.set(row.id, parseFloat(row.amount || "0")));
+  return amounts;
+};
+
+const periodCondition = (dateColumn: any, createdAtColumn: any, month: number, year: number) => {
+  const { startDateStr, endDateStr, startTimestamp, endTimestamp } = getMonthRange(month, year);
+
+  return sql`(
+    (${dateColumn} IS NOT NULL
+      AND ${dateColumn} >= ${startDateStr}
+      AND ${dateColumn} <= ${endDateStr})
+    OR
+    (${dateColumn} IS NULL
+      AND ${createdAtColumn} >= ${startTimestamp}
+      AND ${createdAtColumn} <= ${endTimestamp})
+  )`;
+};
+
+const commissionFor = (calcType: CommissionCalcType, value: string, baseAmount: number) =>
+  calcType === "percentage" ? round2((baseAmount * parseFloat(value)) / 100) : parseFloat(value);
+
+const CORE_PAYMENT_STAGES = ["INITIAL", "BEFORE_VISA", "AFTER_VISA"] as const;
+
+// The payment a flat sale-type commission is paid on: the client's first approved core payment of
+// that sale type (by payment date, then id), whichever month and counsellor it falls in
+const getFlatCommissionPaymentIds = async (clientIds: number[]) => {
+  if (clientIds.length === 0) return new Set<number>();
+
+  const firstPayments = await db
+    .selectDistinctOn([clientPayments.clientId, clientPayments.saleTypeId], { paymentId: clientPayments.paymentId })
+    .from(clientPayments)
+    .where(
+      and(
+        inArray(clientPayments.clientId, [...new Set(clientIds)]),
+        inArray(clientPayments.stage, [...CORE_PAYMENT_STAGES]),
+        paymentApprovedSql
+      )
+    )
+    .orderBy(
+      clientPayments.clientId,
+      clientPayments.saleTypeId,
+      sql`COALESCE(${clientPayments.paymentDate}, ${clientPayments.createdAt}::date)`,
+      asc(clientPayments.paymentId)
+    );
+
+  return new Set(firstPayments.map((payment) => payment.paymentId));
+};
+
+/**
+ * Sale-type rules: percentage of every core payment, flat once per enrolled client and sale type
+ * (on its first approved core payment, see getFlatCommissionPaymentIds).
+ * Product rules: percentage of the product amount, flat per product payment.
+ * Approved refunds dated in the month reverse the commission of the refunded payment
+ * (flat amounts only when the whole payment they were paid on is refunded), as the leaderboard nets them out of revenue.
+ * Same period, archived-client and approval filters as the leaderboard.
+ */
+const buildStatementLines = async (
+  counsellorId: number,
+  month: number,
+  year: number,
+  plan: NonNullable<Awaited<ReturnType<typeof getCommissionPlanById>>>
+) => {
+  const lines: StatementLineInput[] = [];
+  const saleTypeRules = new Map(
+    plan.rules.filter((rule) => rule.ruleType === "sale_type").map((rule) => [rule.saleTypeId, rule])
+  );
+  const productRules = new Map(
+    plan.rules.filter((rule) => rule.ruleType === "product").map((rule) => [rule.productName, rule])
+  );
+
+  if (saleTypeRules.size > 0) {
+    const payments = await db
+      .select({
+        paymentId: clientPayments.paymentId,
+        clientId: clientPayments.clientId,
+        clientName: clientInformation.fullName,
+        saleTypeId: clientPayments.saleTypeId,
+        stage: clientPayments.stage,
+        amount: clientPayments.amount,
+      })
+      .from(clientPayments)
+      .innerJoin(clientInformation, eq(clientPayments.clientId, clientInformation.clientId))
+      .where(
+        and(
+          sql`${paymentCounsellorSql} = ${counsellorId}`,
+          eq(clientInformation.archived, false),
+          inArray(clientPayments.stage, [...CORE_PAYMENT_STAGES]),
+          paymentApprovedSql,
+          periodCondition(clientPayments.paymentDate, clientPayments.createdAt, month, year)
+        )
+      )
+      .orderBy(asc(clientPayments.paymentId));
+
+    const flatPaymentIds = await getFlatCommissionPaymentIds(payments.map((payment) => payment.clientId));
+
+    for (const payment of payments) {
+      const rule = saleTypeRules.get(payment.saleTypeId);
+      if (!rule) continue;
+      if (rule.calcType === "flat" && !flatPaymentIds.has(payment.paymentId)) continue;
+
+      const baseAmount = parseFloat(payment.amount || "0");
+
+      lines.push({
+        sourceType: "client_payment",
+        sourceId: payment.paymentId,
+        clientId: payment.clientId,
+        ruleId: rule.ruleId,
+        description: `${payment.clientName} - ${rule.saleType ?? "Sale type"} (${payment.stage})`,
+        baseAmount,
+        commission: commissionFor(rule.calcType, rule.value, baseAmount),
+      });
+    }
+  }
+
+  if (productRules.size > 0) {
+    const productPayments = await db
+      .select({
+        productPaymentId: clientProductPayments.productPaymentId,
+        clientId: clientProductPayments.clientId,
+        clientName: clientInformation.fullName,
+        productName: clientProductPayments.productName,
+        amount: clientProductPayments.amount,
+        entityType: clientProductPayments.entityType,
+        entityId: clientProductPayments.entityId,
+      })
+      .from(clientProductPayments)
+      .innerJoin(clientInformation, eq(clientProductPayments.clientId, clientInformation.clientId))
+      .where(
+        and(
+          sql`${productPaymentCounsellorSql} = ${counsellorId}`,
+          eq(clientInformation.archived, false),
+          inArray(clientProductPayments.productName, [...productRules.keys()] as string[]),
+          productPaymentApprovedSql,
+          periodCondition(clientProductPayments.paymentDate, clientProductPayments.createdAt, month, year)
+        )
+      )
+      .orderBy(asc(clientProductPayments.productPaymentId));
+
+    // Amounts of entity-based products live in the entity tables
+    const entityGroups: Record<string, number[]> = {};
+    productPayments.forEach((payment) => {
+      if (payment.amount === null && payment.entityId) {
+        entityGroups[payment.entityType] = [...(entityGroups[payment.entityType] ?? []), payment.entityId];
+      }
+    });
+
+    const entityAmounts: Record<string, Map<number, number>> = {};
+    for (const [entityType, entityIds] of Object.entries(entityGroups)) {
+      entityAmounts[entityType] = await getEntityAmountMap(entityType, entityIds);
+    }
+
+    for (const payment of productPayments) {
+      const rule = productRules.get(payment.productName)!;
+      const baseAmount = payment.amount !== null
+        ? parseFloat(payment.amount)
+        : entityAmounts[payment.entityType]?.get(payment.entityId ?? 0) ?? 0;
+
+      lines.push({
+        sourceType: "product_payment",
+        sourceId: payment.productPaymentId,
+        clientId: payment.clientId,
+        ruleId: rule.ruleId,
+        description: `${payment.clientName} - ${payment.productName}`,
+        baseAmount,
+        commission: commissionFor(rule.calcType, rule.value, baseAmount),
+      });
+    }
+  }
+
+  const { startDateStr, endDateStr } = getMonthRange(month, year);
+  const refunds = await db
+    .select({
+      refundId: paymentRefunds.refundId,
+      clientId: paymentRefunds.clientId,
+      clientName: clientInformation.fullName,
+      amount: paymentRefunds.amount,
+      clientPaymentId: paymentRefunds.clientPaymentId,
+      saleTypeId: clientPayments.saleTypeId,
+      stage: clientPayments.stage,
+      paymentAmount: clientPayments.amount,
+      productName: clientProductPayments.productName,
+      productAmount: clientProductPayments.amount,
+      entityType: clientProductPayments.entityType,
+      entityId: clientProductPayments.entityId,
+    })
+    .from(paymentRefunds)
+    .innerJoin(clientInformation, eq(paymentRefunds.clientId, clientInformation.clientId))
+    .leftJoin(clientPayments, eq(paymentRefunds.clientPaymentId, clientPayments.paymentId))
+    .leftJoin(clientProductPayments, eq(paymentRefunds.productPaymentId, clientProductPayments.productPaymentId))
+    .where(
+      and(
+        eq(paymentRefunds.status, "approved"),
+        eq(clientInformation.archived, false),
+        gte(paymentRefunds.refundDate, startDateStr),
+        lte(paymentRefunds.refundDate, endDateStr),
+        paymentApprovedSql,
+        productPaymentApprovedSql,
+        sql`COALESCE(${clientPayments.creditedCounsellorId}, ${clientProductPayments.creditedCounsellorId}) = ${counsellorId}`
+      )
+    )
+    .orderBy(asc(paymentRefunds.refundId));
+
+  const refundEntityGroups: Record<string, number[]> = {};
+  refunds.forEach((refund) => {
+    if (refund.entityType && refund.productAmount === null && refund.entityId) {
+      refundEntityGroups[refund.entityType] = [...(refundEntityGroups[refund.entityType] ?? []), refund.entityId];
+    }
+  });
+
+  const refundEntityAmounts: Record<string, Map<number, number>> = {};
+  for (const [entityType, entityIds] of Object.entries(refundEntityGroups)) {
+    refundEntityAmounts[entityType] = await getEntityAmountMap(entityType, entityIds);
+  }
+
+  // A flat amount is only reversed on the payment it was paid on
+  const refundFlatPaymentIds = await getFlatCommissionPaymentIds(
+    refunds.filter((refund) => refund.clientPaymentId !== null).map((refund) => refund.clientId)
+  );
+
+  for (const refund of refunds) {
+    const isCorePayment = refund.clientPaymentId !== null;
+    const rule = isCorePayment
+      ? refund.stage !== "SUBMITTED_VISA" ? saleTypeRules.get(refund.saleTypeId!) : undefined
+      : productRules.get(refund.productName!);
+    if (!rule) continue;
+
+    const refundAmount = parseFloat(refund.amount);
+    const paymentAmount = isCorePayment
+      ? parseFloat(refund.paymentAmount || "0")
+      : refund.productAmount !== null
+        ? parseFloat(refund.productAmount)
+        : refundEntityAmounts[refund.entityType!]?.get(refund.entityId ?? 0) ?? 0;
+
+    const commission = rule.calcType === "percentage"
+      ? commissionFor(rule.calcType, rule.value, -refundAmount)
+      : refundAmount >= paymentAmount && (!isCorePayment || refundFlatPaymentIds.has(refund.clientPaymentId!))
+        ? -parseFloat(rule.value)
+        : 0;
+
+    lines.push({
+      sourceType: "refund",
+      sourceId: refund.refundId,
+      clientId: refund.clientId,
+      ruleId: rule.ruleId,
+      description: `${refund.clientName} - refund of ${isCorePayment ? `${rule.saleType ?? "sale type"} (${refund.stage})` : refund.productName}`,
+      baseAmount: -refundAmount,
+      commission,
+    });
+  }
+
+  return lines;
+};
+
+// Highest tier reached; tiers only apply once a target is set
+const resolveTier = (
+  tiers: { minAttainment: string; multiplier: string; bonusAmount: string }[],
+  attainment: number | null
+) => {
+  if (attainment === null) return { multiplier: 1, bonus: 0 };
+
+  const tier = [...tiers]
+    .sort((a, b) => parseFloat(b.minAttainment) - parseFloat(a.minAttainment))
+    .find((candidate) => attainment >= parseFloat(candidate.minAttainment));
+
+  return tier
+    ? { multiplier: parseFloat(tier.multiplier), bonus: parseFloat(tier.bonusAmount) }
+    : { multiplier: 1, bonus: 0 };
+};
+
+/* ==============================
+   STATEMENTS
+============================== */
+export const getCommissionStatementById = async (statementId: number) => {
+  const [statement] = await db
+    .select({
+      statement: commissionStatements,
+      counsellorName: users.fullName,
+      counsellorIsActive: users.isActive,
+      managerId: users.managerId,
+    })
+    .from(commissionStatements)
+    .innerJoin(users, eq(commissionStatements.counsellorId, users.id))
+    .where(eq(commissionStatements.statementId, statementId))
+    .limit(1);
+
+  if (!statement) return null;
+
+  const lines = await db
+    .select()
+    .from(commissionStatementLines)
+    .where(eq(commissionStatementLines.statementId, statementId))
+    .orderBy(asc(commissionStatementLines.lineId));
+
+  return {
+    ...statement.statement,
+    counsellorName: statement.counsellorName,
+    counsellorIsActive: statement.counsellorIsActive,
+    managerId: statement.managerId,
+    lines,
+  };
+};
+
+export const getCommissionStatements = async (scope: ClientListScope, filters: StatementFilters) => {
+  const conditions: SQL[] = [];
+
+  if (filters.month) conditions.push(eq(commissionStatements.month, filters.month));
+  if (filters.year) conditions.push(eq(commissionStatements.year, filters.year));
+  if (filters.status) conditions.push(eq(commissionStatements.status, filters.status));
+  if (filters.counsellorId) conditions.push(eq(commissionStatements.counsellorId, filters.counsellorId));
+
+  if (scope.role === "counsellor") {
+    conditions.push(eq(commissionStatements.counsellorId, scope.userId));
+  } else if (scope.role === "manager" && !scope.isSupervisor) {
+    conditions.push(eq(users.managerId, scope.userId));
+  }
+
+  return db
+    .select({
+      statementId: commissionStatements.statementId,
+      counsellorId: commissionStatements.counsellorId,
+      counsellorName: users.fullName,
+      counsellorIsActive: users.isActive,
+      month: commissionStatements.month,
+      year: commissionStatements.year,
+      planName: commissionStatements.planName,
+      enrollments: commissionStatements.enrollments,
+      revenue: commissionStatements.revenue,
+      target: commissionStatements.target,
+      attainment: commissionStatements.attainment,
+      baseCommission: commissionStatements.baseCommission,
+      tierMultiplier: commissionStatements.tierMultiplier,
+      tierBonus: commissionStatements.tierBonus,
+      adjustmentAmount: commissionStatements.adjustmentAmount,
+      totalPayout: commissionStatements.totalPayout,
+      status: commissionStatements.status,
+      calculatedAt: commissionStatements.calculatedAt,
+      lockedAt: commissionStatements.lockedAt,
+    })
+    .from(commissionStatements)
+    .innerJoin(users, eq(commissionStatements.counsellorId, users.id))
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(commissionStatements.year), desc(commissionStatements.month), asc(users.fullName));
+};
+
+/* ==============================
+   CALCULATE
+   Creates or recalculates the draft statement of a counsellor for a month.
+   Manual adjustments survive recalculation; locked statements are never touched.
+============================== */
+export const calculateCommissionStatement = async (
+  counsellorId: number,
+  month: number,
+  year: number,
+  calculatedBy: number
+) => {
+  validatePeriod(month, year);
+
+  const [existing] = await db
+    .select()
+    .from(commissionStatements)
+    .where(
+      and(
+        eq(commissionStatements.counsellorId, counsellorId),
+        eq(commissionStatements.month, month),
+        eq(commissionStatements.year, year)
+      )
+    )
+    .limit(1);
+
+  if (existing?.status === "locked") {
+    throw new Error("Statement is locked and cannot be recalculated");
+  }
+
+  const plan = await resolveCounsellorPlan(counsellorId);
+  if (!plan) {
+    throw new Error("No active commission plan for this counsellor. Set a default plan or an override");
+  }
+
+  const stats = await getCounsellorMonthlyStats(counsellorId, month, year);
+  const lines = await buildStatementLines(counsellorId, month, year, plan);
+
+  const baseCommission = round2(lines.reduce((sum, line) => sum + line.commission, 0));
+  const attainment = stats.target > 0 ? round2((stats.targetEnrollments / stats.target) * 100) : null;
+  const tier = resolveTier(plan.tiers, attainment);
+  const adjustmentAmount = parseFloat(existing?.adjustmentAmount ?? "0");
+  const totalPayout = round2(baseCommission * tier.multiplier + tier.bonus + adjustmentAmount);
+
+  const values = {
+    planId: plan.planId,
+    planName: plan.name,
+    enrollments: stats.enrollments,
+    revenue: stats.revenue.toFixed(2),
+    target: stats.target,
+    attainment: attainment !== null ? attainment.toFixed(2) : null,
+    tierMultiplier: tier.multiplier.toFixed(2),
+    baseCommission: baseCommission.toFixed(2),
+    tierBonus: tier.bonus.toFixed(2),
+    totalPayout: totalPayout.toFixed(2),
+    calculatedBy,
+    calculatedAt: new Date(),
+  };
+
+  const statementId = await db.transaction(async (tx) => {
+    let id: number;
+
+    if (existing) {
+      const [updated] = await tx
+        .update(commissionStatements)
+        .set(values)
+        .where(
+          and(
+            eq(commissionStatements.statementId, existing.statementId),
+            eq(commissionStatements.status, "draft")
+          )
+        )
+        .returning({ statementId: commissionStatements.statementId });
+
+      if (!updated) {
+        throw new Error("Statement was locked while recalculating");
+      }
+
+      id = updated.statementId;
+      await tx.delete(commissionStatementLines).where(eq(commissionStatementLines.statementId, id));
+    } else {
+      const [created] = await tx
+        .insert(commissionStatements)
+        .values({ ...values, counsellorId, month, year })
+        .returning({ statementId: commissionStatements.statementId });
+
+      id = created.statementId;
+    }
+
+    if (lines.length > 0) {
+      await tx.insert(commissionStatementLines).values(
+        lines.map((line) => ({
+          ...line,
+          statementId: id,
+          baseAmount: line.baseAmount.toFixed(2),
+          commission: line.commission.toFixed(2),
+        }))
+      );
+    }
+
+    return id;
+  });
+
+  return {
+    before: existing ?? null,
+    after: (await getCommissionStatementById(statementId))!,
+  };
+};
+
+// Calculates every counsellor (or one) for a month, skipping locked statements
+export const calculateCommissionStatements = async (
+  month: number,
+  year: number,
+  calculatedBy: number,
+  counsellorId?: number
+) => {
+  validatePeriod(month, year);
+
+  const counsellors = await db
+    .select({ id: users.id, fullName: users.fullName })
+    .from(users)
+    .where(
+      counsellorId
+        ? and(eq(users.role, "counsellor"), eq(users.id, counsellorId))
+        : eq(users.role, "counsellor")
+    );
+
+  if (counsellorId && counsellors.length === 0) {
+    throw new Error("Counsellor not found");
+  }
+
+  const calculated = [];
+  const skipped: { counsellorId: number; fullName: string; reason: string }[] = [];
+
+  // Sequential on purpose: each counsellor runs several aggregate queries
+  for (const counsellor of counsellors) {
+    try {
+      const { after } = await calculateCommissionStatement(counsellor.id, month, year, calculatedBy);
+      calculated.push(after);
+    } catch (error: any) {
+      skipped.push({ counsellorId: counsellor.id, fullName: counsellor.fullName, reason: error.message });
+    }
+  }
+
+  return { calculated, skipped };
+};
+
+/* ==============================
+   ADJUST / LOCK
+============================== */
+export const setCommissionStatementAdjustment = async (
+  statementId: number,
+  amount: number | string,
+  reason: string | undefined,
+  actor: ClientListScope
+) => {
+  const before = await getCommissionStatementById(statementId);
+  if (!before) throw new Error("Statement not found");
+  if (before.status === "locked") throw new Error("Statement is locked");
+
+  await assertCanManageCounsellor(actor, before.counsellorId);
+
+  const adjustmentAmount = Number(amount);
+  if (!Number.isFinite(adjustmentAmount)) throw new Error("amount must be a number");
+  if (adjustmentAmount !== 0 && (!reason || !String(reason).trim())) {
+    throw new Error("reason required for an adjustment");
+  }
+
+  const totalPayout = round2(
+    parseFloat(before.baseCommission) * parseFloat(before.tierMultiplier) +
+      parseFloat(before.tierBonus) +
+      adjustmentAmount
+  );
+
+  const [updated] = await db
+    .update(commissionStatements)
+    .set({
+      adjustmentAmount: adjustmentAmount.toFixed(2),
+      adjustmentReason: adjustmentAmount !== 0 ? String(reason).trim() : null,
+      totalPayout: totalPayout.toFixed(2),
+    })
+    .where(and(eq(commissionStatements.statementId, statementId), eq(commissionStatements.status, "draft")))
+    .returning({ statementId: commissionStatements.statementId });
+
+  if (!updated) throw new Error("Statement is locked");
+
+  const after = (await getCommissionStatementById(statementId))!;
+  return { before, after };
+};
+
+export const lockCommissionStatement = async (statementId: number, lockedBy: number) => {
+  const before = await getCommissionStatementById(statementId);
+  if (!before) throw new Error("Statement not found");
+  if (before.status === "locked") throw new Error("Statement is already locked");
+
+  const [updated] = await db
+    .update(commissionStatements)
+    .set({ status: "locked", lockedBy, lockedAt: new Date() })
+    .where(and(eq(commissionStatements.statementId, statementId), eq(commissionStatements.status, "draft")))
+    .returning({ statementId: commissionStatements.statementId });
+
+  if (!updated) throw new Error("Statement is already locked");
+
+  const after = (await getCommissionStatementById(statementId))!;
+  return { before, after };
+};
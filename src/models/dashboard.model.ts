@@ -13,7 +13,21 @@ import { loan } from "../schemas/loan.schema";
 import { visaExtension } from "../schemas/visaExtension.schema";
 import { allFinance } from "../schemas/allFinance.schema";
 import { getLeaderboard } from "./leaderboard.model";
-import { eq, and, gte, lte, sql, count, inArray, isNotNull } from "drizzle-orm";
+import { getApprovedRefundTotal } from "./paymentRefund.model";
+import { getProductClassification } from "./product.model";
+import {
+  ClientListScope,
+  buildClientListConditions,
+  paymentCounsellorSql,
+  productPaymentCounsellorSql,
+  paymentApprovedSql,
+  productPaymentApprovedSql,
+} from "./client.model";
+import { getLeadConversionStats } from "./lead.model";
+import { users } from "../schemas/users.schema";
+import { leadSources, referralAgents, leadSourceCosts } from "../schemas/leadSource.schema";
+import { paymentRefunds } from "../schemas/paymentRefund.schema";
+import { eq, and, gte, lte, sql, count, inArray, isNotNull, SQL } from "drizzle-orm";
 
 /* ==============================
    TYPES
@@ -21,31 +35,6 @@ import { eq, and, gte, lte, sql, count, inArray, isNotNull } from "drizzle-orm";
 export type DashboardFilter = "today" | "weekly" | "monthly" | "yearly";
 export type UserRole = "admin" | "manager" | "counsellor";
 
-// Product classification constants
-const CORE_PRODUCT = "ALL_FINANCE_EMPLOYEMENT";
-const COUNT_ONLY_PRODUCTS = [
-  "LOAN_DETAILS", // count only product not contribute to revenue
-  "FOREX_CARD", // count only product not contribute to revenue
-  "TUTION_FEES", // count only product not contribute to revenue
-  "CREDIT_CARD", // count only product not contribute to revenue
-  "SIM_CARD_ACTIVATION", // count only product not contribute to revenue
-  "INSURANCE", // count only product not contribute to revenue
-  "BEACON_ACCOUNT", // count only product not contribute to revenue
-  "AIR_TICKET", // count only product not contribute to revenue
-] as const;
-
-// Count-only entity types (these don't contribute to revenue)
-const COUNT_ONLY_ENTITY_TYPES = [
-  "loan_id",
-  "forexCard_id",
-  "tutionFees_id",
-  "creditCard_id",
-  "simCard_id",
-  "insurance_id",
-  "beaconAccount_id",
-  "airTicket_id",
-] as const;
-
 // Admin/Manager Dashboard Stats
 export interface AdminManagerDashboardStats {
   newEnrollment: {
@@ -67,7 +56,8 @@ export interface AdminManagerDashboardStats {
     amount: string;
   };
   revenue: {
-    amount: string; // Core Sale Amount + Core Product Amount + Other Product Amount
+    amount: string; // Core Sale Amount + Core Product Amount + Other Product Amount - Refunds
+    refunds: string; // Approved refunds in the same period
   };
   leaderboard: Array<{
     counsellorId: number;
@@ -89,6 +79,7 @@ export interface AdminManagerDashboardStats {
       coreSale: { count: number; amount: number };
       coreProduct: { count: number; amount: number };
       otherProduct: { count: number; amount: number };
+      refunds: number;
       revenue: number;
     }>;
     summary: {
@@ -168,11 +159,12 @@ interface RoleBasedFilter {
 }
 
 /* ==============================
-   HELPER: Check if product is count-only
+   HELPER: Match product codes (core / count-only flags come from the product catalog)
 ============================== */
-const isCountOnlyEntityType = (entityType: string): boolean => {
-  return COUNT_ONLY_ENTITY_TYPES.includes(entityType as any);
-};
+const productNameIn = (codes: string[]) =>
+  codes.length > 0
+    ? sql`(${clientProductPayments.productName} IN (${sql.join(codes.map((code) => sql`${code}`), sql`, `)}))`
+    : sql`FALSE`;
 
 /* ==============================
    HELPER: Build counsellor filter condition
@@ -353,7 +345,7 @@ const getCoreServiceCount = async (
       )
       .where(
         sql`(
-          ${clientInformation.counsellorId} = ${filter.counsellorId}
+          ${paymentCounsellorSql} = ${filter.counsellorId}
           AND ${clientInformation.archived} = false
           AND ${clientPayments.stage} IN ('INITIAL', 'BEFORE_VISA', 'AFTER_VISA')
           AND (
@@ -365,6 +357,7 @@ const getCoreServiceCount = async (
               AND ${clientPayments.createdAt} >= ${startTimestamp}
               AND ${clientPayments.createdAt} <= ${endTimestamp})
           )
+          AND ${paymentApprovedSql}
         )`
       ) as any;
   } else {
@@ -387,6 +380,7 @@ const getCoreServiceCount = async (
               AND ${clientPayments.createdAt} >= ${startTimestamp}
               AND ${clientPayments.createdAt} <= ${endTimestamp})
           )
+          AND ${paymentApprovedSql}
         )`
       ) as any;
   }
@@ -556,7 +550,7 @@ const getPendingAmount = async (
       total: sql<string>`COALESCE(SUM(${clientPayments.amount}::numeric), 0)`,
     })
     .from(clientPayments)
-    .where(inArray(clientPayments.clientId, clientIds))
+    .where(and(inArray(clientPayments.clientId, clientIds), paymentApprovedSql))
     .groupBy(clientPayments.stage)
     : [];
 
@@ -688,6 +682,7 @@ const calculateMonthlyRevenue = async (
           OR
           (${clientPayments.paymentDate} IS NULL AND ${clientPayments.createdAt} >= ${monthStartTimestamp} AND ${clientPayments.createdAt} <= ${monthEndTimestamp})
         )
+        AND ${paymentApprovedSql}
       )`
     );
 
@@ -710,6 +705,7 @@ const calculateMonthlyRevenue = async (
           OR
           (${clientProductPayments.paymentDate} IS NULL AND ${clientProductPayments.createdAt} >= ${monthStartTimestamp} AND ${clientProductPayments.createdAt} <= ${monthEndTimestamp})
         )
+        AND ${productPaymentApprovedSql}
       )`
     );
 
@@ -734,6 +730,7 @@ const calculateMonthlyRevenue = async (
           OR
           (${clientProductPayments.paymentDate} IS NULL AND ${clientProductPayments.createdAt} >= ${monthStartTimestamp} AND ${clientProductPayments.createdAt} <= ${monthEndTimestamp})
         )
+        AND ${productPaymentApprovedSql}
       )`
     );
 
@@ -756,9 +753,12 @@ const calculateMonthlyRevenue = async (
     }
   }
 
+  // 5. Approved refunds made in this month are netted out
+  const refundsTotal = await getApprovedRefundTotal(monthStartStr, monthEndStr);
+
   const clientPaymentsTotal = parseFloat(clientPaymentsResult?.total || "0");
   const productPaymentsTotal = parseFloat(productPaymentsWithAmount?.total || "0");
-  return clientPaymentsTotal + productPaymentsTotal + entityAmountsTotal;
+  return clientPaymentsTotal + productPaymentsTotal + entityAmountsTotal - refundsTotal;
 };
 
 /* ==============================
@@ -841,20 +841,6 @@ const calculatePercentageChange = (
   }
 };
 
-/* ==============================
-   NEW HELPER: Get Entity Amounts (Excluding Count-Only)
-============================== */
-const getEntityAmountsExcludingCountOnly = async (
-  entityType: string,
-  entityIds: number[]
-): Promise<number> => {
-  // Skip count-only entity types
-  if (isCountOnlyEntityType(entityType)) {
-    return 0;
-  }
-  return getEntityAmounts(entityType, entityIds);
-};
-
 /* ==============================
    NEW: Get Core Product Metrics (Count + Amount)
 ============================== */
@@ -867,13 +853,16 @@ const getCoreProductMetrics = async (
   const startTimestamp = dateRange.start.toISOString();
   const endTimestamp = dateRange.end.toISOString();
 
+  const { coreProductCodes } = await getProductClassification();
+  const isCoreProduct = productNameIn(coreProductCodes);
+
   // Build base query
   let countQuery = db
     .select({ count: count() })
     .from(clientProductPayments)
     .where(
       sql`(
-        ${clientProductPayments.productName} = ${CORE_PRODUCT}
+        ${isCoreProduct}
         AND (
           (${clientProductPayments.paymentDate} IS NOT NULL
             AND ${clientProductPayments.paymentDate} >= ${startDateStr}
@@ -883,6 +872,7 @@ const getCoreProductMetrics = async (
             AND ${clientProductPayments.createdAt} >= ${startTimestamp}
             AND ${clientProductPayments.createdAt} <= ${endTimestamp})
         )
+        AND ${productPaymentApprovedSql}
       )`
     ) as any;
 
@@ -895,9 +885,9 @@ const getCoreProductMetrics = async (
       )
       .where(
         sql`(
-          ${clientInformation.counsellorId} = ${filter.counsellorId}
+          ${productPaymentCounsellorSql} = ${filter.counsellorId}
           AND ${clientInformation.archived} = false
-          AND ${clientProductPayments.productName} = ${CORE_PRODUCT}
+          AND ${isCoreProduct}
           AND (
             (${clientProductPayments.paymentDate} IS NOT NULL
               AND ${clientProductPayments.paymentDate} >= ${startDateStr}
@@ -907,6 +897,7 @@ const getCoreProductMetrics = async (
               AND ${clientProductPayments.createdAt} >= ${startTimestamp}
               AND ${clientProductPayments.createdAt} <= ${endTimestamp})
           )
+          AND ${productPaymentApprovedSql}
         )`
       ) as any;
   } else {
@@ -919,7 +910,7 @@ const getCoreProductMetrics = async (
       .where(
         sql`(
           ${clientInformation.archived} = false
-          AND ${clientProductPayments.productName} = ${CORE_PRODUCT}
+          AND ${isCoreProduct}
           AND (
             (${clientProductPayments.paymentDate} IS NOT NULL
               AND ${clientProductPayments.paymentDate} >= ${startDateStr}
@@ -929,13 +920,14 @@ const getCoreProductMetrics = async (
               AND ${clientProductPayments.createdAt} >= ${startTimestamp}
               AND ${clientProductPayments.createdAt} <= ${endTimestamp})
           )
+          AND ${productPaymentApprovedSql}
         )`
       ) as any;
   }
 
   const [countResult] = await countQuery;
 
-  // Get amount - Core Product uses allFinance table
+  // Get amount - core products stored in the allFinance table
   let amountQuery = db
     .select({
       total: sql<string>`COALESCE(SUM(${allFinance.amount}::numeric), 0)`,
@@ -947,7 +939,7 @@ const getCoreProductMetrics = async (
     )
     .where(
       sql`(
-        ${clientProductPayments.productName} = ${CORE_PRODUCT}
+        ${isCoreProduct}
         AND (
           (${allFinance.paymentDate} IS NOT NULL
             AND ${allFinance.paymentDate} >= ${startDateStr}
@@ -957,6 +949,7 @@ const getCoreProductMetrics = async (
             AND ${allFinance.createdAt} >= ${startTimestamp}
             AND ${allFinance.createdAt} <= ${endTimestamp})
         )
+        AND ${productPaymentApprovedSql}
       )`
     ) as any;
 
@@ -968,9 +961,9 @@ const getCoreProductMetrics = async (
       )
       .where(
         sql`(
-          ${clientInformation.counsellorId} = ${filter.counsellorId}
+          ${productPaymentCounsellorSql} = ${filter.counsellorId}
           AND ${clientInformation.archived} = false
-          AND ${clientProductPayments.productName} = ${CORE_PRODUCT}
+          AND ${isCoreProduct}
           AND (
             (${allFinance.paymentDate} IS NOT NULL
               AND ${allFinance.paymentDate} >= ${startDateStr}
@@ -980,6 +973,7 @@ const getCoreProductMetrics = async (
               AND ${allFinance.createdAt} >= ${startTimestamp}
               AND ${allFinance.createdAt} <= ${endTimestamp})
           )
+          AND ${productPaymentApprovedSql}
         )`
       ) as any;
   } else {
@@ -992,7 +986,7 @@ const getCoreProductMetrics = async (
       .where(
         sql`(
           ${clientInformation.archived} = false
-          AND ${clientProductPayments.productName} = ${CORE_PRODUCT}
+          AND ${isCoreProduct}
           AND (
             (${allFinance.paymentDate} IS NOT NULL
               AND ${allFinance.paymentDate} >= ${startDateStr}
@@ -1002,15 +996,49 @@ const getCoreProductMetrics = async (
               AND ${allFinance.createdAt} >= ${startTimestamp}
               AND ${allFinance.createdAt} <= ${endTimestamp})
           )
+          AND ${productPaymentApprovedSql}
         )`
       ) as any;
   }
 
   const [amountResult] = await amountQuery;
 
+  // Core products that keep their amount on client_product_payment (master_only)
+  const counsellorCondition = filter?.userRole === "counsellor" && filter.counsellorId
+    ? sql`AND ${productPaymentCounsellorSql} = ${filter.counsellorId}`
+    : sql``;
+
+  const [masterOnlyAmountResult] = await db
+    .select({
+      total: sql<string>`COALESCE(SUM(${clientProductPayments.amount}::numeric), 0)`,
+    })
+    .from(clientProductPayments)
+    .innerJoin(
+      clientInformation,
+      eq(clientProductPayments.clientId, clientInformation.clientId)
+    )
+    .where(
+      sql`(
+        ${clientInformation.archived} = false
+        ${counsellorCondition}
+        AND ${clientProductPayments.amount} IS NOT NULL
+        AND ${isCoreProduct}
+        AND (
+          (${clientProductPayments.paymentDate} IS NOT NULL
+            AND ${clientProductPayments.paymentDate} >= ${startDateStr}
+            AND ${clientProductPayments.paymentDate} <= ${endDateStr})
+          OR
+          (${clientProductPayments.paymentDate} IS NULL
+            AND ${clientProductPayments.createdAt} >= ${startTimestamp}
+            AND ${clientProductPayments.createdAt} <= ${endTimestamp})
+        )
+        AND ${productPaymentApprovedSql}
+      )`
+    );
+
   return {
     count: countResult?.count || 0,
-    amount: parseFloat(amountResult?.total || "0"),
+    amount: parseFloat(amountResult?.total || "0") + parseFloat(masterOnlyAmountResult?.total || "0"),
   };
 };
 
@@ -1026,13 +1054,17 @@ const getOtherProductMetrics = async (
   const startTimestamp = dateRange.start.toISOString();
   const endTimestamp = dateRange.end.toISOString();
 
-  // Build count query - all products except CORE_PRODUCT
+  const { coreProductCodes, countOnlyProductCodes } = await getProductClassification();
+  const isCoreProduct = productNameIn(coreProductCodes);
+  const isCountOnlyProduct = productNameIn(countOnlyProductCodes);
+
+  // Build count query - all products except core products
   let countQuery = db
     .select({ count: count() })
     .from(clientProductPayments)
     .where(
       sql`(
-        ${clientProductPayments.productName} != ${CORE_PRODUCT}
+        NOT ${isCoreProduct}
         AND (
           (${clientProductPayments.paymentDate} IS NOT NULL
             AND ${clientProductPayments.paymentDate} >= ${startDateStr}
@@ -1042,6 +1074,7 @@ const getOtherProductMetrics = async (
             AND ${clientProductPayments.createdAt} >= ${startTimestamp}
             AND ${clientProductPayments.createdAt} <= ${endTimestamp})
         )
+        AND ${productPaymentApprovedSql}
       )`
     ) as any;
 
@@ -1054,9 +1087,9 @@ const getOtherProductMetrics = async (
       )
       .where(
         sql`(
-          ${clientInformation.counsellorId} = ${filter.counsellorId}
+          ${productPaymentCounsellorSql} = ${filter.counsellorId}
           AND ${clientInformation.archived} = false
-          AND ${clientProductPayments.productName} != ${CORE_PRODUCT}
+          AND NOT ${isCoreProduct}
           AND (
             (${clientProductPayments.paymentDate} IS NOT NULL
               AND ${clientProductPayments.paymentDate} >= ${startDateStr}
@@ -1066,6 +1099,7 @@ const getOtherProductMetrics = async (
               AND ${clientProductPayments.createdAt} >= ${startTimestamp}
               AND ${clientProductPayments.createdAt} <= ${endTimestamp})
           )
+          AND ${productPaymentApprovedSql}
         )`
       ) as any;
   } else {
@@ -1078,7 +1112,7 @@ const getOtherProductMetrics = async (
       .where(
         sql`(
           ${clientInformation.archived} = false
-          AND ${clientProductPayments.productName} != ${CORE_PRODUCT}
+          AND NOT ${isCoreProduct}
           AND (
             (${clientProductPayments.paymentDate} IS NOT NULL
               AND ${clientProductPayments.paymentDate} >= ${startDateStr}
@@ -1088,6 +1122,7 @@ const getOtherProductMetrics = async (
               AND ${clientProductPayments.createdAt} >= ${startTimestamp}
               AND ${clientProductPayments.createdAt} <= ${endTimestamp})
           )
+          AND ${productPaymentApprovedSql}
         )`
       ) as any;
   }
@@ -1096,8 +1131,6 @@ const getOtherProductMetrics = async (
 
   // Get amount - exclude count-only products
   // 1. Products with amount (master_only) - exclude count-only
-  // Build NOT IN clause manually
-  const countOnlyProductsList = COUNT_ONLY_PRODUCTS.map((p) => `'${p}'`).join(", ");
 
   let amountQuery = db
     .select({
@@ -1107,8 +1140,8 @@ const getOtherProductMetrics = async (
     .where(
       sql`(
         ${clientProductPayments.amount} IS NOT NULL
-        AND ${clientProductPayments.productName} != ${CORE_PRODUCT}
-        AND ${clientProductPayments.productName} NOT IN (${sql.raw(countOnlyProductsList)})
+        AND NOT ${isCoreProduct}
+        AND NOT ${isCountOnlyProduct}
         AND (
           (${clientProductPayments.paymentDate} IS NOT NULL
             AND ${clientProductPayments.paymentDate} >= ${startDateStr}
@@ -1118,6 +1151,7 @@ const getOtherProductMetrics = async (
             AND ${clientProductPayments.createdAt} >= ${startTimestamp}
             AND ${clientProductPayments.createdAt} <= ${endTimestamp})
         )
+        AND ${productPaymentApprovedSql}
       )`
     ) as any;
 
@@ -1129,11 +1163,11 @@ const getOtherProductMetrics = async (
       )
       .where(
         sql`(
-          ${clientInformation.counsellorId} = ${filter.counsellorId}
+          ${productPaymentCounsellorSql} = ${filter.counsellorId}
           AND ${clientInformation.archived} = false
           AND ${clientProductPayments.amount} IS NOT NULL
-          AND ${clientProductPayments.productName} != ${CORE_PRODUCT}
-          AND ${clientProductPayments.productName} NOT IN (${sql.raw(countOnlyProductsList)})
+          AND NOT ${isCoreProduct}
+          AND NOT ${isCountOnlyProduct}
           AND (
             (${clientProductPayments.paymentDate} IS NOT NULL
               AND ${clientProductPayments.paymentDate} >= ${startDateStr}
@@ -1143,6 +1177,7 @@ const getOtherProductMetrics = async (
               AND ${clientProductPayments.createdAt} >= ${startTimestamp}
               AND ${clientProductPayments.createdAt} <= ${endTimestamp})
           )
+          AND ${productPaymentApprovedSql}
         )`
       ) as any;
   } else {
@@ -1156,8 +1191,8 @@ const getOtherProductMetrics = async (
         sql`(
           ${clientInformation.archived} = false
           AND ${clientProductPayments.amount} IS NOT NULL
-          AND ${clientProductPayments.productName} != ${CORE_PRODUCT}
-          AND ${clientProductPayments.productName} NOT IN (${sql.raw(countOnlyProductsList)})
+          AND NOT ${isCoreProduct}
+          AND NOT ${isCountOnlyProduct}
           AND (
             (${clientProductPayments.paymentDate} IS NOT NULL
               AND ${clientProductPayments.paymentDate} >= ${startDateStr}
@@ -1167,6 +1202,7 @@ const getOtherProductMetrics = async (
               AND ${clientProductPayments.createdAt} >= ${startTimestamp}
               AND ${clientProductPayments.createdAt} <= ${endTimestamp})
           )
+          AND ${productPaymentApprovedSql}
         )`
       ) as any;
   }
@@ -1185,7 +1221,7 @@ const getOtherProductMetrics = async (
       sql`(
         ${clientProductPayments.amount} IS NULL
         AND ${clientProductPayments.entityId} IS NOT NULL
-        AND ${clientProductPayments.productName} != ${CORE_PRODUCT}
+        AND NOT ${isCoreProduct}
         AND (
           (${clientProductPayments.paymentDate} IS NOT NULL
             AND ${clientProductPayments.paymentDate} >= ${startDateStr}
@@ -1195,6 +1231,7 @@ const getOtherProductMetrics = async (
             AND ${clientProductPayments.createdAt} >= ${startTimestamp}
             AND ${clientProductPayments.createdAt} <= ${endTimestamp})
         )
+        AND ${productPaymentApprovedSql}
       )`
     ) as any;
 
@@ -1207,11 +1244,11 @@ const getOtherProductMetrics = async (
       )
       .where(
         sql`(
-          ${clientInformation.counsellorId} = ${filter.counsellorId}
+          ${productPaymentCounsellorSql} = ${filter.counsellorId}
           AND ${clientInformation.archived} = false
           AND ${clientProductPayments.amount} IS NULL
           AND ${clientProductPayments.entityId} IS NOT NULL
-          AND ${clientProductPayments.productName} != ${CORE_PRODUCT}
+          AND NOT ${isCoreProduct}
           AND (
             (${clientProductPayments.paymentDate} IS NOT NULL
               AND ${clientProductPayments.paymentDate} >= ${startDateStr}
@@ -1221,6 +1258,7 @@ const getOtherProductMetrics = async (
               AND ${clientProductPayments.createdAt} >= ${startTimestamp}
               AND ${clientProductPayments.createdAt} <= ${endTimestamp})
           )
+          AND ${productPaymentApprovedSql}
         )`
       ) as any;
   } else {
@@ -1235,7 +1273,7 @@ const getOtherProductMetrics = async (
           ${clientInformation.archived} = false
           AND ${clientProductPayments.amount} IS NULL
           AND ${clientProductPayments.entityId} IS NOT NULL
-          AND ${clientProductPayments.productName} != ${CORE_PRODUCT}
+          AND NOT ${isCoreProduct}
           AND (
             (${clientProductPayments.paymentDate} IS NOT NULL
               AND ${clientProductPayments.paymentDate} >= ${startDateStr}
@@ -1245,6 +1283,7 @@ const getOtherProductMetrics = async (
               AND ${clientProductPayments.createdAt} >= ${startTimestamp}
               AND ${clientProductPayments.createdAt} <= ${endTimestamp})
           )
+          AND ${productPaymentApprovedSql}
         )`
       ) as any;
   }
@@ -1256,7 +1295,7 @@ const getOtherProductMetrics = async (
   if (filteredEntityPayments.length > 0) {
     const entityGroups: Record<string, number[]> = {};
     filteredEntityPayments.forEach((pp: { entityType: string | null; entityId: number | null; productName: string }) => {
-      if (pp.entityId && pp.entityType && !isCountOnlyEntityType(pp.entityType)) {
+      if (pp.entityId && pp.entityType && !countOnlyProductCodes.includes(pp.productName)) {
         if (!entityGroups[pp.entityType]) {
           entityGroups[pp.entityType] = [];
         }
@@ -1265,7 +1304,7 @@ const getOtherProductMetrics = async (
     });
 
     for (const [entityType, entityIds] of Object.entries(entityGroups)) {
-      const amount = await getEntityAmountsExcludingCountOnly(entityType, entityIds);
+      const amount = await getEntityAmounts(entityType, entityIds);
       entityAmountsTotal += amount;
     }
   }
@@ -1305,6 +1344,7 @@ const getCoreSaleAmount = async (
             AND ${clientPayments.createdAt} >= ${startTimestamp}
             AND ${clientPayments.createdAt} <= ${endTimestamp})
         )
+        AND ${paymentApprovedSql}
       )`
     ) as any;
 
@@ -1317,7 +1357,7 @@ const getCoreSaleAmount = async (
       )
       .where(
         sql`(
-          ${clientInformation.counsellorId} = ${filter.counsellorId}
+          ${paymentCounsellorSql} = ${filter.counsellorId}
           AND ${clientInformation.archived} = false
           AND ${clientPayments.stage} IN ('INITIAL', 'BEFORE_VISA', 'AFTER_VISA')
           AND (
@@ -1329,6 +1369,7 @@ const getCoreSaleAmount = async (
               AND ${clientPayments.createdAt} >= ${startTimestamp}
               AND ${clientPayments.createdAt} <= ${endTimestamp})
           )
+          AND ${paymentApprovedSql}
         )`
       ) as any;
   } else {
@@ -1351,6 +1392,7 @@ const getCoreSaleAmount = async (
               AND ${clientPayments.createdAt} >= ${startTimestamp}
               AND ${clientPayments.createdAt} <= ${endTimestamp})
           )
+          AND ${paymentApprovedSql}
         )`
       ) as any;
   }
@@ -1359,6 +1401,23 @@ const getCoreSaleAmount = async (
   return parseFloat(result?.total || "0");
 };
 
+/* ==============================
+   REFUNDS (NETTED OUT OF REVENUE)
+   Approved refunds whose refund date falls in the range
+============================== */
+const getRefundAmount = async (
+  dateRange: DateRange,
+  filter?: RoleBasedFilter
+): Promise<number> => {
+  const startDateStr = dateRange.start.toISOString().split("T")[0];
+  const endDateStr = dateRange.end.toISOString().split("T")[0];
+
+  const counsellorId =
+    filter?.userRole === "counsellor" && filter.counsellorId ? filter.counsellorId : undefined;
+
+  return getApprovedRefundTotal(startDateStr, endDateStr, counsellorId);
+};
+
 /* ==============================
    NEW: Individual Counsellor Performance (Based on Selected Filter)
 ============================== */
@@ -1484,6 +1543,7 @@ interface ChartDataPoint {
   coreSale: { count: number; amount: number };
   coreProduct: { count: number; amount: number };
   otherProduct: { count: number; amount: number };
+  refunds: number;
   revenue: number;
 }
 
@@ -1626,14 +1686,15 @@ const getChartData = async (
       end: period.end,
     };
 
-    const [coreSaleCount, coreSaleAmount, coreProductMetrics, otherProductMetrics] = await Promise.all([
+    const [coreSaleCount, coreSaleAmount, coreProductMetrics, otherProductMetrics, refunds] = await Promise.all([
       getCoreServiceCount(periodDateRange, roleFilter),
       getCoreSaleAmount(periodDateRange, roleFilter),
       getCoreProductMetrics(periodDateRange, roleFilter),
       getOtherProductMetrics(periodDateRange, roleFilter),
+      getRefundAmount(periodDateRange, roleFilter),
     ]);
 
-    const revenue = coreSaleAmount + coreProductMetrics.amount + otherProductMetrics.amount;
+    const revenue = coreSaleAmount + coreProductMetrics.amount + otherProductMetrics.amount - refunds;
 
     data.push({
       label: labels[i],
@@ -1649,6 +1710,7 @@ const getChartData = async (
         count: otherProductMetrics.count,
         amount: otherProductMetrics.amount,
       },
+      refunds,
       revenue,
     });
   }
@@ -1928,18 +1990,23 @@ export const getDashboardStats = async (
   ]);
 
   // Revenue: when filter is "today" show last 7 days (weekly); otherwise use same period as cards
+  // Approved refunds in the same period are netted out of revenue
   let totalRevenue: number;
+  let totalRefunds: number;
   if (filter === "today") {
     const weeklyRange = getDateRange("weekly");
-    const [revenueSale, revenueCore, revenueOther] = await Promise.all([
+    const [revenueSale, revenueCore, revenueOther, refunds] = await Promise.all([
       getCoreSaleAmount(weeklyRange, roleFilter),
       getCoreProductMetrics(weeklyRange, roleFilter),
       getOtherProductMetrics(weeklyRange, roleFilter),
+      getRefundAmount(weeklyRange, roleFilter),
     ]);
-    totalRevenue = revenueSale + revenueCore.amount + revenueOther.amount;
+    totalRefunds = refunds;
+    totalRevenue = revenueSale + revenueCore.amount + revenueOther.amount - refunds;
   } else {
+    totalRefunds = await getRefundAmount(summaryDateRange, roleFilter);
     totalRevenue =
-      coreSaleAmount + coreProductMetrics.amount + otherProductMetrics.amount;
+      coreSaleAmount + coreProductMetrics.amount + otherProductMetrics.amount - totalRefunds;
   }
 
   const adminManagerStats: AdminManagerDashboardStats = {
@@ -1963,6 +2030,7 @@ export const getDashboardStats = async (
     },
     revenue: {
       amount: totalRevenue.toFixed(2),
+      refunds: totalRefunds.toFixed(2),
     },
     leaderboard: leaderboardData,
     chartData,
@@ -1970,3 +2038,304 @@ export const getDashboardStats = async (
 
   return adminManagerStats;
 };
+
+/* ==============================
+   SOURCE ATTRIBUTION
+   Per lead source (or referral agent) over an enrollment date range:
+   - enrollments: clients enrolled in the range
+   - revenue: core and product payments dated in the range from the source's clients,
+     minus approved refunds in the range (counted like dashboard revenue)
+   - leads: leads created in the range and how many converted
+   - cost / costPerEnrollment: source spend overlapping the range, spread evenly over
+     each cost period's days (sources only, and only for unrestricted scopes since
+     spend is not split per team)
+============================== */
+export type AttributionGroupBy = "leadSource" | "referralAgent";
+
+// Revenue per client group (null = no group); same payments, approval and refund rules
+// as calculateMonthlyRevenue
+const getRevenueByGroup = async (
+  groupId: typeof clientInformation.leadSourceId | typeof clientInformation.referralAgentId,
+  clientConditions: SQL[],
+  startDateStr: string,
+  endDateStr: string,
+  startTimestamp: string,
+  endTimestamp: string
+): Promise<Map<number | null, number>> => {
+  const clientCondition = clientConditions.length ? and(...clientConditions)! : sql`TRUE`;
+  const revenue = new Map<number | null, number>();
+  const add = (id: number | null, amount: number) => revenue.set(id, (revenue.get(id) ?? 0) + amount);
+
+  // 1. Core payments
+  const coreRows = await db
+    .select({
+      id: sql<number | null>`${groupId}`,
+      total: sql<string>`COALESCE(SUM(${clientPayments.amount}::numeric), 0)`,
+    })
+    .from(clientPayments)
+    .innerJoin(clientInformation, eq(clientPayments.clientId, clientInformation.clientId))
+    .innerJoin(users, eq(clientInformation.counsellorId, users.id))
+    .where(
+      sql`(
+        ${clientCondition}
+        AND ${clientPayments.stage} IN ('INITIAL', 'BEFORE_VISA', 'AFTER_VISA')
+        AND (
+          (${clientPayments.paymentDate} IS NOT NULL AND ${clientPayments.paymentDate} >= ${startDateStr} AND ${clientPayments.paymentDate} <= ${endDateStr})
+          OR
+          (${clientPayments.paymentDate} IS NULL AND ${clientPayments.createdAt} >= ${startTimestamp} AND ${clientPayments.createdAt} <= ${endTimestamp})
+        )
+        AND ${paymentApprovedSql}
+      )`
+    )
+    .groupBy(groupId);
+
+  for (const row of coreRows) add(row.id, parseFloat(row.total));
+
+  // 2. Product payments, with the amount on the payment or on its entity
+  const productRows = await db
+    .select({
+      id: sql<number | null>`${groupId}`,
+      amount: clientProductPayments.amount,
+      entityType: clientProductPayments.entityType,
+      entityId: clientProductPayments.entityId,
+    })
+    .from(clientProductPayments)
+    .innerJoin(clientInformation, eq(clientProductPayments.clientId, clientInformation.clientId))
+    .innerJoin(users, eq(clientInformation.counsellorId, users.id))
+    .where(
+      sql`(
+        ${clientCondition}
+        AND (${clientProductPayments.amount} IS NOT NULL OR ${clientProductPayments.entityId} IS NOT NULL)
+        AND (
+          (${clientProductPayments.paymentDate} IS NOT NULL AND ${clientProductPayments.paymentDate} >= ${startDateStr} AND ${clientProductPayments.paymentDate} <= ${endDateStr})
+          OR
+          (${clientProductPayments.paymentDate} IS NULL AND ${clientProductPayments.createdAt} >= ${startTimestamp} AND ${clientProductPayments.createdAt} <= ${endTimestamp})
+        )
+        AND ${productPaymentApprovedSql}
+      )`
+    );
+
+  const entityGroups = new Map<number | null, Record<string, number[]>>();
+  for (const row of productRows) {
+    if (row.amount !== null) {
+      add(row.id, parseFloat(row.amount));
+    } else if (row.entityId && row.entityType) {
+      const groups = entityGroups.get(row.id) ?? {};
+      (groups[row.entityType] ??= []).push(row.entityId);
+      entityGroups.set(row.id, groups);
+    }
+  }
+
+  for (const [id, groups] of entityGroups) {
+    for (const [entityType, entityIds] of Object.entries(groups)) {
+      add(id, await getEntityAmounts(entityType, entityIds));
+    }
+  }
+
+  // 3. Approved refunds made in the range are netted out
+  const refundRows = await db
+    .select({
+      id: sql<number | null>`${groupId}`,
+      total: sql<string>`COALESCE(SUM(${paymentRefunds.amount}::numeric), 0)`,
+    })
+    .from(paymentRefunds)
+    .innerJoin(clientInformation, eq(paymentRefunds.clientId, clientInformation.clientId))
+    .innerJoin(users, eq(clientInformation.counsellorId, users.id))
+    .leftJoin(clientPayments, eq(paymentRefunds.clientPaymentId, clientPayments.paymentId))
+    .leftJoin(clientProductPayments, eq(paymentRefunds.productPaymentId, clientProductPayments.productPaymentId))
+    .where(
+      sql`(
+        ${clientCondition}
+        AND ${paymentRefunds.status} = 'approved'
+        AND ${paymentRefunds.refundDate} >= ${startDateStr}
+        AND ${paymentRefunds.refundDate} <= ${endDateStr}
+        AND ${paymentApprovedSql}
+        AND ${productPaymentApprovedSql}
+      )`
+    )
+    .groupBy(groupId);
+
+  for (const row of refundRows) add(row.id, -parseFloat(row.total));
+
+  return revenue;
+};
+
+export const getSourceAttributionReport = async (
+  groupBy: AttributionGroupBy,
+  range: { from?: string; to?: string },
+  scope: ClientListScope
+) => {
+  const clientConditions = buildClientListConditions(
+    { archived: "all", enrollmentFrom: range.from, enrollmentTo: range.to },
+    scope
+  );
+
+  const groupId = groupBy === "leadSource" ? clientInformation.leadSourceId : clientInformation.referralAgentId;
+  const groupName = groupBy === "leadSource" ? leadSources.name : referralAgents.name;
+
+  const clientRows = await db
+    .select({
+      id: groupId,
+      name: groupName,
+      enrollments: sql<number>`COUNT(*)::int`,
+    })
+    .from(clientInformation)
+    .innerJoin(users, eq(clientInformation.counsellorId, users.id))
+    .leftJoin(leadSources, eq(clientInformation.leadSourceId, leadSources.sourceId))
+    .leftJoin(referralAgents, eq(clientInformation.referralAgentId, referralAgents.agentId))
+    .where(clientConditions.length ? and(...clientConditions) : undefined)
+    .groupBy(groupId, groupName);
+
+  // Open-ended ranges run from the start of dashboard history to today
+  const allTime = getAllTimeDateRange();
+  const revenueByGroup = await getRevenueByGroup(
+    groupId,
+    buildClientListConditions({}, scope),
+    range.from ?? allTime.start.toISOString().split("T")[0],
+    range.to ?? allTime.end.toISOString().split("T")[0],
+    range.from ? new Date(`${range.from}T00:00:00`).toISOString() : allTime.start.toISOString(),
+    range.to ? new Date(`${range.to}T23:59:59.999`).toISOString() : allTime.end.toISOString()
+  );
+
+  const leadStats = await getLeadConversionStats(groupBy, range, scope);
+
+  const includeCost =
+    groupBy === "leadSource" &&
+    (scope.role === "admin" || scope.role === "superadmin" || (scope.role === "manager" && scope.isSupervisor === true));
+
+  const costBySource = new Map<number, number>();
+  if (includeCost) {
+    const costConditions: SQL[] = [];
+    if (range.from) costConditions.push(gte(leadSourceCosts.periodEnd, range.from));
+    if (range.to) costConditions.push(lte(leadSourceCosts.periodStart, range.to));
+
+    const overlapStart = range.from
+      ? sql`GREATEST(${leadSourceCosts.periodStart}, ${range.from}::date)`
+      : sql`${leadSourceCosts.periodStart}`;
+    const overlapEnd = range.to
+      ? sql`LEAST(${leadSourceCosts.periodEnd}, ${range.to}::date)`
+      : sql`${leadSourceCosts.periodEnd}`;
+
+    const costRows = await db
+      .select({
+        sourceId: leadSourceCosts.sourceId,
+        cost: sql<string>`COALESCE(SUM(
+          ${leadSourceCosts.amount} * (${overlapEnd} - ${overlapStart} + 1)
+          / (${leadSourceCosts.periodEnd} - ${leadSourceCosts.periodStart} + 1)
+        ), 0)`,
+      })
+      .from(leadSourceCosts)
+      .where(costConditions.length ? and(...costConditions) : undefined)
+      .groupBy(leadSourceCosts.sourceId);
+
+    for (const row of costRows) {
+      costBySource.set(row.sourceId, parseFloat(row.cost));
+    }
+  }
+
+  // Merge the client, lead and cost figures per group (null = no source / agent)
+  const groups = new Map<number | null, {
+    id: number | null;
+    name: string | null;
+    enrollments: number;
+    revenue: number;
+    leads: { total: number; converted: number; lost: number; open: number; conversionRate: number };
+  }>();
+
+  const emptyLeads = { total: 0, converted: 0, lost: 0, open: 0, conversionRate: 0 };
+
+  for (const row of clientRows) {
+    groups.set(row.id, {
+      id: row.id,
+      name: row.name,
+      enrollments: row.enrollments,
+      revenue: revenueByGroup.get(row.id) ?? 0,
+      leads: emptyLeads,
+    });
+  }
+
+  for (const group of leadStats.groups) {
+    const { id, name, avgDaysToConvert, ...leads } = group;
+    const existing = groups.get(id);
+    if (existing) {
+      existing.leads = leads;
+    } else {
+      groups.set(id, { id, name, enrollments: 0, revenue: revenueByGroup.get(id) ?? 0, leads });
+    }
+  }
+
+  // Groups with revenue in the range but no enrollments or leads in it
+  const unnamed = [...revenueByGroup.keys()].filter((id) => !groups.has(id));
+  if (unnamed.length > 0) {
+    const ids = unnamed.filter((id): id is number => id !== null);
+    const named = ids.length === 0
+      ? []
+      : groupBy === "leadSource"
+        ? await db
+            .select({ id: leadSources.sourceId, name: leadSources.name })
+            .from(leadSources)
+            .where(inArray(leadSources.sourceId, ids))
+        : await db
+            .select({ id: referralAgents.agentId, name: referralAgents.name })
+            .from(referralAgents)
+            .where(inArray(referralAgents.agentId, ids));
+    const names = new Map<number, string>(named.map((row) => [row.id, row.name]));
+
+    for (const id of unnamed) {
+      groups.set(id, {
+        id,
+        name: id === null ? null : names.get(id) ?? null,
+        enrollments: 0,
+        revenue: revenueByGroup.get(id) ?? 0,
+        leads: emptyLeads,
+      });
+    }
+  }
+
+  if (includeCost) {
+    const missing = [...costBySource.keys()].filter((sourceId) => !groups.has(sourceId));
+    if (missing.length > 0) {
+      const sources = await db
+        .select({ sourceId: leadSources.sourceId, name: leadSources.name })
+        .from(leadSources)
+        .where(inArray(leadSources.sourceId, missing));
+      for (const source of sources) {
+        groups.set(source.sourceId, { id: source.sourceId, name: source.name, enrollments: 0, revenue: 0, leads: emptyLeads });
+      }
+    }
+  }
+
+  const fallbackName = groupBy === "leadSource" ? "Not specified" : "No agent";
+  const rows = [...groups.values()]
+    .map((group) => {
+      const cost = includeCost && group.id !== null ? costBySource.get(group.id) ?? 0 : null;
+      return {
+        id: group.id,
+        name: group.name ?? fallbackName,
+        enrollments: group.enrollments,
+        revenue: group.revenue.toFixed(2),
+        leads: group.leads,
+        cost: cost !== null ? cost.toFixed(2) : null,
+        costPerEnrollment: cost !== null && group.enrollments > 0 ? (cost / group.enrollments).toFixed(2) : null,
+      };
+    })
+    .sort((a, b) => b.enrollments - a.enrollments || parseFloat(b.revenue) - parseFloat(a.revenue));
+
+  const totalEnrollments = rows.reduce((sum, row) => sum + row.enrollments, 0);
+  const totalRevenue = rows.reduce((sum, row) => sum + parseFloat(row.revenue), 0);
+  const totalCost = includeCost ? [...costBySource.values()].reduce((sum, cost) => sum + cost, 0) : null;
+
+  return {
+    groupBy,
+    from: range.from ?? null,
+    to: range.to ?? null,
+    totals: {
+      enrollments: totalEnrollments,
+      revenue: totalRevenue.toFixed(2),
+      leads: leadStats.overall,
+      cost: totalCost !== null ? totalCost.toFixed(2) : null,
+      costPerEnrollment: totalCost !== null && totalEnrollments > 0 ? (totalCost / totalEnrollments).toFixed(2) : null,
+    },
+    rows,
+  };
+};
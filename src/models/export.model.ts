@@ -0,0 +1,383 @@
+import { db } from "../config/databaseConnection";
+import { clientInformation } from "../schemas/clientInformation.schema";
+import { clientPayments } from "../schemas/clientPayment.schema";
+import { clientProductPayments } from "../schemas/clientProductPayments.schema";
+import { caseStages } from "../schemas/caseStage.schema";
+import { leadTypes } from "../schemas/leadType.schema";
+import { saleTypes } from "../schemas/saleType.schema";
+import { users } from "../schemas/users.schema";
+import { eq, and, asc, gt, gte, lte, getTableColumns, SQL } from "drizzle-orm";
+import {
+  buildClientListConditions,
+  clientExpectedAmountSql,
+  clientPaidAmountSql,
+  ClientListFilters,
+  ClientListScope,
+} from "./client.model";
+import { PaymentStage } from "./clientPayment.model";
+import { fetchEntities, entityTypeToTable, EntityType } from "./clientProductPayments.model";
+import { getActivityLogsForExport, GetActivityLogsFilters } from "./activityLog.model";
+import { SpreadsheetCell } from "../utils/spreadsheet";
+
+/* ==============================
+   TYPES
+   Each export is a header plus rows produced batch by batch (keyset on the id),
+   so the caller can stream them without loading the whole result.
+============================== */
+export const EXPORT_BATCH_SIZE = 1000;
+
+export interface ExportDataset {
+  header: string[];
+  rows: AsyncGenerator<SpreadsheetCell[]>;
+}
+
+// Client list filters; stage / saleTypeId apply to the payment rows themselves
+export interface PaymentExportFilters extends ClientListFilters {
+  paymentFrom?: string;
+  paymentTo?: string;
+}
+
+export interface ProductPaymentExportFilters extends ClientListFilters {
+  productName?: string;
+  entityType?: EntityType;
+  paymentFrom?: string;
+  paymentTo?: string;
+}
+
+const toAmount = (value: string | null | undefined) =>
+  value === null || value === undefined ? null : Number(value);
+
+// Date columns come back as YYYY-MM-DD strings; Dates are written as real date cells
+const toDate = (value: string | null | undefined) => (value ? new Date(`${value}T00:00:00Z`) : null);
+
+const clientFiltersOnly = (filters: ClientListFilters): ClientListFilters => ({
+  ...filters,
+  stage: undefined,
+  saleTypeId: undefined,
+});
+
+/* ==============================
+   CLIENTS
+============================== */
+export const getClientExport = (filters: ClientListFilters, scope: ClientListScope): ExportDataset => {
+  const conditions = buildClientListConditions(filters, scope);
+
+  async function* rows() {
+    let afterClientId = 0;
+
+    while (true) {
+      const batch = await db
+        .select({
+          clientId: clientInformation.clientId,
+          fullName: clientInformation.fullName,
+          passportDetails: clientInformation.passportDetails,
+          enrollmentDate: clientInformation.enrollmentDate,
+          leadType: leadTypes.leadType,
+          counsellorName: users.fullName,
+          counsellorEmail: users.email,
+          phone: clientInformation.phone,
+          email: clientInformation.email,
+          address: clientInformation.address,
+          dateOfBirth: clientInformation.dateOfBirth,
+          nationality: clientInformation.nationality,
+          destinationCountry: clientInformation.destinationCountry,
+          visaCategory: clientInformation.visaCategory,
+          applicationDate: clientInformation.applicationDate,
+          decisionDate: clientInformation.decisionDate,
+          caseStage: caseStages.name,
+          archived: clientInformation.archived,
+          totalPayment: clientExpectedAmountSql,
+          paidAmount: clientPaidAmountSql,
+          createdAt: clientInformation.createdAt,
+        })
+        .from(clientInformation)
+        .innerJoin(users, eq(clientInformation.counsellorId, users.id))
+        .leftJoin(leadTypes, eq(clientInformation.leadTypeId, leadTypes.id))
+        .leftJoin(caseStages, eq(clientInformation.caseStageId, caseStages.stageId))
+        .where(and(...conditions, gt(clientInformation.clientId, afterClientId)))
+        .orderBy(asc(clientInformation.clientId))
+        .limit(EXPORT_BATCH_SIZE);
+
+      for (const row of batch) {
+        const totalPayment = Number(row.totalPayment || 0);
+        const paidAmount = Number(row.paidAmount || 0);
+
+        yield [
+          row.clientId,
+          row.fullName,
+          row.passportDetails,
+          toDate(row.enrollmentDate),
+          row.leadType,
+          row.counsellorName,
+          row.counsellorEmail,
+          row.phone,
+          row.email,
+          row.address,
+          toDate(row.dateOfBirth),
+          row.nationality,
+          row.destinationCountry,
+          row.visaCategory,
+          toDate(row.applicationDate),
+          toDate(row.decisionDate),
+          row.caseStage,
+          row.archived,
+          totalPayment,
+          paidAmount,
+          Math.max(0, totalPayment - paidAmount),
+          row.createdAt,
+        ];
+      }
+
+      if (batch.length < EXPORT_BATCH_SIZE) break;
+      afterClientId = batch[batch.length - 1].clientId;
+    }
+  }
+
+  return {
+    header: [
+      "Client ID", "Full Name", "Passport", "Enrollment Date", "Lead Type", "Counsellor", "Counsellor Email",
+      "Phone", "Email", "Address", "Date of Birth", "Nationality", "Destination Country", "Visa Category",
+      "Application Date", "Decision Date", "Case Stage", "Archived", "Total Payment", "Paid Amount",
+      "Pending Amount", "Created At",
+    ],
+    rows: rows(),
+  };
+};
+
+/* ==============================
+   CORE PAYMENTS
+============================== */
+export const getPaymentExport = (filters: PaymentExportFilters, scope: ClientListScope): ExportDataset => {
+  const conditions: SQL[] = buildClientListConditions(clientFiltersOnly(filters), scope);
+
+  if (filters.stage) conditions.push(eq(clientPayments.stage, filters.stage as PaymentStage));
+  if (filters.saleTypeId) conditions.push(eq(clientPayments.saleTypeId, filters.saleTypeId));
+  if (filters.paymentFrom) conditions.push(gte(clientPayments.paymentDate, filters.paymentFrom));
+  if (filters.paymentTo) conditions.push(lte(clientPayments.paymentDate, filters.paymentTo));
+
+  async function* rows() {
+    let afterPaymentId = 0;
+
+    while (true) {
+      const batch = await db
+        .select({
+          paymentId: clientPayments.paymentId,
+          invoiceNo: clientPayments.invoiceNo,
+          paymentDate: clientPayments.paymentDate,
+          stage: clientPayments.stage,
+          saleType: saleTypes.saleType,
+          amount: clientPayments.amount,
+          totalPayment: clientPayments.totalPayment,
+          remarks: clientPayments.remarks,
+          clientId: clientInformation.clientId,
+          clientName: clientInformation.fullName,
+          passportDetails: clientInformation.passportDetails,
+          counsellorName: users.fullName,
+          createdAt: clientPayments.createdAt,
+        })
+        .from(clientPayments)
+        .innerJoin(clientInformation, eq(clientPayments.clientId, clientInformation.clientId))
+        .innerJoin(users, eq(clientInformation.counsellorId, users.id))
+        .leftJoin(saleTypes, eq(clientPayments.saleTypeId, saleTypes.saleTypeId))
+        .where(and(...conditions, gt(clientPayments.paymentId, afterPaymentId)))
+        .orderBy(asc(clientPayments.paymentId))
+        .limit(EXPORT_BATCH_SIZE);
+
+      for (const row of batch) {
+        yield [
+          row.paymentId,
+          row.invoiceNo,
+          toDate(row.paymentDate),
+          row.stage,
+          row.saleType,
+          toAmount(row.amount),
+          toAmount(row.totalPayment),
+          row.remarks,
+          row.clientId,
+          row.clientName,
+          row.passportDetails,
+          row.counsellorName,
+          row.createdAt,
+        ];
+      }
+
+      if (batch.length < EXPORT_BATCH_SIZE) break;
+      afterPaymentId = batch[batch.length - 1].paymentId;
+    }
+  }
+
+  return {
+    header: [
+      "Payment ID", "Invoice No", "Payment Date", "Stage", "Sale Type", "Amount", "Total Payment", "Remarks",
+      "Client ID", "Client Name", "Passport", "Counsellor", "Created At",
+    ],
+    rows: rows(),
+  };
+};
+
+/* ==============================
+   PRODUCT PAYMENTS
+   Entity details (simCard, loan, forexFees, ...) are flattened into "<entity>.<field>"
+   columns; with an entityType filter only that entity's columns are included.
+============================== */
+const getEntityColumns = (entityTypes: EntityType[]) =>
+  entityTypes.flatMap((entityType) => {
+    const table = entityTypeToTable[entityType];
+    if (!table) return [];
+
+    const prefix = entityType.replace(/_id$/, "");
+    return Object.entries(getTableColumns(table))
+      .filter(([key]) => key !== "id" && key !== "financeId" && key !== "createdAt")
+      .map(([key, column]: [string, any]) => ({
+        entityType,
+        key,
+        label: `${prefix}.${key}`,
+        numeric: column.columnType === "PgNumeric",
+        date: column.columnType === "PgDateString",
+      }));
+  });
+
+export const getProductPaymentExport = (
+  filters: ProductPaymentExportFilters,
+  scope: ClientListScope
+): ExportDataset => {
+  const conditions: SQL[] = buildClientListConditions(clientFiltersOnly(filters), scope);
+
+  if (filters.productName) conditions.push(eq(clientProductPayments.productName, filters.productName));
+  if (filters.entityType) conditions.push(eq(clientProductPayments.entityType, filters.entityType));
+  if (filters.paymentFrom) conditions.push(gte(clientProductPayments.paymentDate, filters.paymentFrom));
+  if (filters.paymentTo) conditions.push(lte(clientProductPayments.paymentDate, filters.paymentTo));
+
+  const entityColumns = getEntityColumns(
+    filters.entityType
+      ? [filters.entityType]
+      : (Object.keys(entityTypeToTable) as EntityType[])
+  );
+
+  async function* rows() {
+    let afterProductPaymentId = 0;
+
+    while (true) {
+      const batch = await db
+        .select({
+          productPaymentId: clientProductPayments.productPaymentId,
+          productName: clientProductPayments.productName,
+          entityType: clientProductPayments.entityType,
+          entityId: clientProductPayments.entityId,
+          amount: clientProductPayments.amount,
+          paymentDate: clientProductPayments.paymentDate,
+          invoiceNo: clientProductPayments.invoiceNo,
+          remarks: clientProductPayments.remarks,
+          clientId: clientInformation.clientId,
+          clientName: clientInformation.fullName,
+          passportDetails: clientInformation.passportDetails,
+          counsellorName: users.fullName,
+          createdAt: clientProductPayments.createdAt,
+        })
+        .from(clientProductPayments)
+        .innerJoin(clientInformation, eq(clientProductPayments.clientId, clientInformation.clientId))
+        .innerJoin(users, eq(clientInformation.counsellorId, users.id))
+        .where(and(...conditions, gt(clientProductPayments.productPaymentId, afterProductPaymentId)))
+        .orderBy(asc(clientProductPayments.productPaymentId))
+        .limit(EXPORT_BATCH_SIZE);
+
+      // Entity rows of this batch, one query per entity type
+      const idsByType = new Map<EntityType, number[]>();
+      for (const row of batch) {
+        if (row.entityId && row.entityType !== "master_only") {
+          const ids = idsByType.get(row.entityType) ?? [];
+          ids.push(row.entityId);
+          idsByType.set(row.entityType, ids);
+        }
+      }
+
+      const entityMaps = new Map<EntityType, Map<number, any>>();
+      for (const [entityType, ids] of idsByType) {
+        entityMaps.set(entityType, await fetchEntities(entityTypeToTable[entityType], ids, entityType));
+      }
+
+      for (const row of batch) {
+        const entity = row.entityId ? entityMaps.get(row.entityType)?.get(Number(row.entityId)) : undefined;
+
+        yield [
+          row.productPaymentId,
+          row.productName,
+          row.entityType,
+          toAmount(row.amount),
+          toDate(row.paymentDate),
+          row.invoiceNo,
+          row.remarks,
+          row.clientId,
+          row.clientName,
+          row.passportDetails,
+          row.counsellorName,
+          row.createdAt,
+          ...entityColumns.map((column) => {
+            if (!entity || column.entityType !== row.entityType) return null;
+            const value = entity[column.key];
+            return column.numeric ? toAmount(value) : column.date ? toDate(value) : value;
+          }),
+        ];
+      }
+
+      if (batch.length < EXPORT_BATCH_SIZE) break;
+      afterProductPaymentId = batch[batch.length - 1].productPaymentId;
+    }
+  }
+
+  return {
+    header: [
+      "Product Payment ID", "Product", "Entity Type", "Amount", "Payment Date", "Invoice No", "Remarks",
+      "Client ID", "Client Name", "Passport", "Counsellor", "Created At",
+      ...entityColumns.map((column) => column.label),
+    ],
+    rows: rows(),
+  };
+};
+
+/* ==============================
+   ACTIVITY LOGS
+   Same role rules as the activity log list
+============================== */
+export const getActivityLogExport = (filters: GetActivityLogsFilters): ExportDataset => {
+  const toJson = (value: unknown) => (value === null || value === undefined ? null : JSON.stringify(value));
+
+  async function* rows() {
+    let beforeLogId: number | null = null;
+
+    while (true) {
+      const batch = await getActivityLogsForExport(filters, beforeLogId, EXPORT_BATCH_SIZE);
+
+      for (const row of batch) {
+        yield [
+          row.logId,
+          row.createdAt,
+          row.action,
+          row.entityType,
+          row.entityId,
+          row.clientId,
+          row.clientName,
+          row.description,
+          row.performedBy,
+          row.performerName,
+          row.performerRole,
+          row.ipAddress,
+          toJson(row.oldValue),
+          toJson(row.newValue),
+          toJson(row.metadata),
+        ];
+      }
+
+      if (batch.length < EXPORT_BATCH_SIZE) break;
+      beforeLogId = batch[batch.length - 1].logId;
+    }
+  }
+
+  return {
+    header: [
+      "Log ID", "Date", "Action", "Entity Type", "Entity ID", "Client ID", "Client Name", "Description",
+      "Performed By", "Performer Name", "Performer Role", "IP Address", "Old Value", "New Value", "Metadata",
+    ],
+    rows: rows(),
+  };
+};
@@ -0,0 +1,359 @@
+import { db, DbTransaction } from "../config/databaseConnection";
+import {
+  invoiceSequenceConfig,
+  invoiceSequenceCounters,
+  invoiceNumbers,
+} from "../schemas/invoiceSequence.schema";
+import { users } from "../schemas/users.schema";
+import { eq, and, desc, asc, sql, SQL } from "drizzle-orm";
+
+/* ==============================
+   TYPES
+============================== */
+export type InvoiceSource =
+  | "client_payment"
+  | "product_payment"
+  | "new_sell"
+  | "visa_extension"
+  | "all_finance";
+
+export type InvoiceNumberStatus = "reserved" | "issued" | "voided";
+
+interface UpdateInvoiceSequenceConfigInput {
+  prefix?: string;
+  format?: string;
+  padding?: number;
+  fyStartMonth?: number;
+  allowManualInvoiceNo?: boolean;
+}
+
+const DEFAULT_CONFIG = {
+  prefix: "EV",
+  format: "{PREFIX}/{FY}/{SEQ}",
+  padding: 6,
+  fyStartMonth: 4,
+  allowManualInvoiceNo: true,
+};
+
+/* ==============================
+   CONFIG
+============================== */
+export const getInvoiceSequenceConfig = async () => {
+  const [config] = await db
+    .select()
+    .from(invoiceSequenceConfig)
+    .orderBy(asc(invoiceSequenceConfig.id))
+    .limit(1);
+
+  if (config) return config;
+
+  // First use: concurrent requests may all get here, only one default row is inserted
+  await db
+    .insert(invoiceSequenceConfig)
+    .values({ id: 1, ...DEFAULT_CONFIG })
+    .onConflictDoNothing();
+
+  const [created] = await db
+    .select()
+    .from(invoiceSequenceConfig)
+    .orderBy(asc(invoiceSequenceConfig.id))
+    .limit(1);
+
+  return created;
+};
+
+export const updateInvoiceSequenceConfig = async (
+  data: UpdateInvoiceSequenceConfigInput,
+  updatedBy: number
+) => {
+  const current = await getInvoiceSequenceConfig();
+  const updateData: any = {};
+
+  if (data.prefix !== undefined) {
+    const prefix = String(data.prefix).trim();
+    if (!prefix || prefix.length > 20 || /\s/.test(prefix)) {
+      throw new Error("prefix must be 1-20 characters without spaces");
+    }
+    updateData.prefix = prefix;
+  }
+
+  if (data.format !== undefined) {
+    const format = String(data.format).trim();
+    if (!format.includes("{SEQ}")) {
+      throw new Error("format must contain {SEQ}");
+    }
+    if (!format.includes("{FY}")) {
+      throw new Error("format must contain {FY} so numbers stay unique across financial years");
+    }
+    if (format.length > 100) {
+      throw new Error("format is too long");
+    }
+    updateData.format = format;
+  }
+
+  if (data.padding !== undefined) {
+    const padding = Number(data.padding);
+    if (!Number.isInteger(padding) || padding < 1 || padding > 12) {
+      throw new Error("padding must be an integer between 1 and 12");
+    }
+    updateData.padding = padding;
+  }
+
+  if (data.fyStartMonth !== undefined) {
+    const fyStartMonth = Number(data.fyStartMonth);
+    if (!Number.isInteger(fyStartMonth) || fyStartMonth < 1 || fyStartMonth > 12) {
+      throw new Error("fyStartMonth must be an integer between 1 and 12");
+    }
+    updateData.fyStartMonth = fyStartMonth;
+  }
+
+  if (data.allowManualInvoiceNo !== undefined) {
+    if (typeof data.allowManualInvoiceNo !== "boolean") {
+      throw new Error("allowManualInvoiceNo must be true or false");
+    }
+    updateData.allowManualInvoiceNo = data.allowManualInvoiceNo;
+  }
+
+  if (Object.keys(updateData).length === 0) {
+    throw new Error("No configuration fields provided");
+  }
+
+  const [updated] = await db
+    .update(invoiceSequenceConfig)
+    .set({ ...updateData, updatedBy, updatedAt: new Date() })
+    .where(eq(invoiceSequenceConfig.id, current.id))
+    .returning();
+
+  return { before: current, after: updated };
+};
+
+/* ==============================
+   HELPERS
+============================== */
+// Invoice date as a local date ("YYYY-MM-DD" strings are not shifted by the timezone)
+const toInvoiceDate = (value: string | Date | null | undefined) => {
+  if (value instanceof Date) return value;
+  if (value && /^\d{4}-\d{2}-\d{2}$/.test(value)) return new Date(`${value}T00:00:00`);
+  return new Date();
+};
+
+// "2026-27" for a financial year starting in April 2026
+export const getFinancialYear = (date: Date, fyStartMonth: number): string => {
+  const month = date.getMonth() + 1;
+  const startYear = month >= fyStartMonth ? date.getFullYear() : date.getFullYear() - 1;
+
+  if (fyStartMonth === 1) {
+    return String(startYear);
+  }
+
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, "0")}`;
+};
+
+const formatInvoiceNo = (
+  config: { prefix: string; format: string; padding: number },
+  financialYear: string,
+  sequence: number
+) =>
+  config.format
+    .replace(/\{PREFIX\}/g, config.prefix)
+    .replace(/\{FY\}/g, financialYear)
+    .replace(/\{SEQ\}/g, String(sequence).padStart(config.padding, "0"));
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Whether a number has the shape of a generated one (any financial year / sequence)
+const matchesGeneratedFormat = (
+  config: { prefix: string; format: string },
+  invoiceNo: string
+) => {
+  const pattern = escapeRegExp(config.format)
+    .replace(/\\\{PREFIX\\\}/g, () => escapeRegExp(config.prefix))
+    .replace(/\\\{FY\\\}/g, "\\d{4}(?:-\\d{2})?")
+    .replace(/\\\{SEQ\\\}/g, "\\d+");
+
+  return new RegExp(`^${pattern}$`, "i").test(invoiceNo);
+};
+
+/* ==============================
+   ISSUE / VOID
+   Numbers are allocated inside the transaction that saves the invoiced row:
+   the counter row stays locked until commit, so concurrent saves get
+   consecutive numbers, and a failed save rolls the counter back with it -
+   the series has no gaps and nothing is left half-allocated.
+============================== */
+const allocateInvoiceNumber = async (
+  tx: DbTransaction,
+  invoiceDate: string | Date | null | undefined
+) => {
+  const config = await getInvoiceSequenceConfig();
+  const financialYear = getFinancialYear(toInvoiceDate(invoiceDate), config.fyStartMonth);
+
+  const [counter] = await tx
+    .insert(invoiceSequenceCounters)
+    .values({ financialYear, lastNumber: 1 })
+    .onConflictDoUpdate({
+      target: invoiceSequenceCounters.financialYear,
+      set: {
+        lastNumber: sql`${invoiceSequenceCounters.lastNumber} + 1`,
+        updatedAt: new Date(),
+      },
+    })
+    .returning({ lastNumber: invoiceSequenceCounters.lastNumber });
+
+  return {
+    financialYear,
+    sequence: counter.lastNumber,
+    invoiceNo: formatInvoiceNo(config, financialYear, counter.lastNumber),
+  };
+};
+
+export const voidInvoiceNumber = async (
+  id: number,
+  reason: string,
+  voidedBy?: number | null
+) => {
+  const [existing] = await db
+    .select()
+    .from(invoiceNumbers)
+    .where(eq(invoiceNumbers.id, id))
+    .limit(1);
+
+  if (!existing) {
+    throw new Error("Invoice number not found");
+  }
+
+  if (existing.status === "voided") {
+    throw new Error(`Invoice number ${existing.invoiceNo} is already voided`);
+  }
+
+  const [updated] = await db
+    .update(invoiceNumbers)
+    .set({
+      status: "voided",
+      voidReason: reason,
+      voidedBy: voidedBy ?? null,
+      voidedAt: new Date(),
+    })
+    .where(eq(invoiceNumbers.id, id))
+    .returning();
+
+  return { before: existing, after: updated };
+};
+
+// Manual numbers never go through the counter, so one shaped like a generated number
+// could take a number the series will issue later and block it; those are rejected
+export const assertManualInvoiceNoAllowed = async (invoiceNo: string) => {
+  const config = await getInvoiceSequenceConfig();
+  if (!config.allowManualInvoiceNo) {
+    throw new Error("Invoice numbers are generated automatically. Leave invoiceNo empty.");
+  }
+
+  if (matchesGeneratedFormat(config, invoiceNo)) {
+    throw new Error(
+      `Invoice number "${invoiceNo}" has the generated format (${config.format}). Leave invoiceNo empty to generate it, or use a different number.`
+    );
+  }
+};
+
+/**
+ * Resolve the invoice number for a new record and run the save with it, inside the caller's transaction.
+ * - manual numbers are used as-is when the config allows it and they don't look generated
+ * - otherwise the next number of the invoice date's financial year is allocated and recorded as issued
+ * `save` returns the id of the saved source row.
+ */
+export const withInvoiceNumber = async <T>(
+  tx: DbTransaction,
+  sourceType: InvoiceSource,
+  providedInvoiceNo: string | null | undefined,
+  issuedBy: number | null | undefined,
+  invoiceDate: string | Date | null | undefined,
+  save: (invoiceNo: string | null) => Promise<{ sourceId: number; result: T }>
+): Promise<T> => {
+  const manual = providedInvoiceNo ? String(providedInvoiceNo).trim() : "";
+
+  if (manual) {
+    await assertManualInvoiceNoAllowed(manual);
+    return (await save(manual)).result;
+  }
+
+  const allocated = await allocateInvoiceNumber(tx, invoiceDate);
+  const { sourceId, result } = await save(allocated.invoiceNo);
+
+  await tx.insert(invoiceNumbers).values({
+    ...allocated,
+    sourceType,
+    sourceId,
+    status: "issued",
+    issuedBy: issuedBy ?? null,
+  });
+
+  return result;
+};
+
+/**
+ * Invoice number to keep when an existing record is updated.
+ * With manual numbers disabled the issued number is immutable: an empty or
+ * missing value keeps it, a different value is rejected.
+ */
+export const resolveInvoiceNoForUpdate = async (
+  providedInvoiceNo: string | null | undefined,
+  existingInvoiceNo: string | null
+): Promise<string | null> => {
+  const normalized = providedInvoiceNo ? String(providedInvoiceNo).trim() || null : null;
+  const config = await getInvoiceSequenceConfig();
+
+  if (config.allowManualInvoiceNo) {
+    if (providedInvoiceNo === undefined) return existingInvoiceNo;
+    if (normalized !== null && normalized !== existingInvoiceNo && matchesGeneratedFormat(config, normalized)) {
+      throw new Error(
+        `Invoice number "${normalized}" has the generated format (${config.format}). Use a different number.`
+      );
+    }
+    return normalized;
+  }
+
+  if (normalized !== null && normalized !== existingInvoiceNo) {
+    throw new Error("Invoice numbers are generated automatically and cannot be changed");
+  }
+
+  return existingInvoiceNo;
+};
+
+/* ==============================
+   LIST INVOICE NUMBERS
+============================== */
+export const getInvoiceNumbers = async (filters: {
+  status?: InvoiceNumberStatus;
+  financialYear?: string;
+}) => {
+  const conditions: SQL[] = [];
+
+  if (filters.status) {
+    conditions.push(eq(invoiceNumbers.status, filters.status));
+  }
+
+  if (filters.financialYear) {
+    conditions.push(eq(invoiceNumbers.financialYear, filters.financialYear));
+  }
+
+  return db
+    .select({
+      id: invoiceNumbers.id,
+      financialYear: invoiceNumbers.financialYear,
+      sequence: invoiceNumbers.sequence,
+      invoiceNo: invoiceNumbers.invoiceNo,
+      sourceType: invoiceNumbers.sourceType,
+      sourceId: invoiceNumbers.sourceId,
+      status: invoiceNumbers.status,
+      voidReason: invoiceNumbers.voidReason,
+      issuedBy: invoiceNumbers.issuedBy,
+      voidedBy: invoiceNumbers.voidedBy,
+      voidedByName: users.fullName,
+      voidedAt: invoiceNumbers.voidedAt,
+      createdAt: invoiceNumbers.createdAt,
+    })
+    .from(invoiceNumbers)
+    .leftJoin(users, eq(invoiceNumbers.voidedBy, users.id))
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(invoiceNumbers.financialYear), desc(invoiceNumbers.sequence));
+};
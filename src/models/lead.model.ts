@@ -0,0 +1,643 @@
+import { db } from "../config/databaseConnection";
+import { leads } from "../schemas/lead.schema";
+import { leadTypes } from "../schemas/leadType.schema";
+import { leadSources, referralAgents } from "../schemas/leadSource.schema";
+import { clientInformation } from "../schemas/clientInformation.schema";
+import { users } from "../schemas/users.schema";
+import { eq, and, or, desc, gte, lte, lt, ilike, inArray, isNull, ne, sql, SQL } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { ClientListScope, saveClient } from "./client.model";
+import { resolveAttribution, AttributionInput } from "./leadSource.model";
+import { isValidEmail, isValidPhone, isValidDateString } from "../utils/validators";
+
+/* ==============================
+   TYPES
+============================== */
+export type LeadStatus = "new" | "contacted" | "qualified" | "lost" | "converted";
+export type LeadConversionGroupBy = "counsellor" | "leadType" | "leadSource" | "referralAgent";
+
+// Statuses a user can set; "converted" is only reached through convertLeadToClient
+export const LEAD_STATUSES: LeadStatus[] = ["new", "contacted", "qualified", "lost"];
+
+// Leads still being worked on
+export const OPEN_LEAD_STATUSES: LeadStatus[] = ["new", "contacted", "qualified"];
+
+interface LeadInput extends AttributionInput {
+  fullName?: string;
+  phone?: string | null;
+  email?: string | null;
+  leadTypeId?: number | null;
+  destinationCountry?: string | null;
+  counsellorId?: number | null;
+  status?: LeadStatus;
+  nextFollowUpDate?: string | null;
+  lostReason?: string | null;
+  notes?: string | null;
+}
+
+export interface LeadListFilters {
+  status?: LeadStatus;
+  counsellorId?: number;
+  unassigned?: boolean;
+  leadTypeId?: number;
+  leadSourceId?: number;
+  referralAgentId?: number;
+  search?: string;
+  followUpDue?: boolean;
+  createdFrom?: string;
+  createdTo?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface ConvertLeadInput {
+  passportDetails?: string;
+  enrollmentDate?: string;
+  leadTypeId?: number;
+  counsellorId?: number;
+  address?: string | null;
+  dateOfBirth?: string | null;
+  nationality?: string | null;
+  visaCategory?: string | null;
+}
+
+const counsellorUsers = alias(users, "counsellor_users");
+
+const leadSelection = {
+  leadId: leads.leadId,
+  fullName: leads.fullName,
+  phone: leads.phone,
+  email: leads.email,
+  leadSourceId: leads.leadSourceId,
+  leadSourceName: leadSources.name,
+  referredByClientId: leads.referredByClientId,
+  referralAgentId: leads.referralAgentId,
+  leadTypeId: leads.leadTypeId,
+  leadTypeName: leadTypes.leadType,
+  destinationCountry: leads.destinationCountry,
+  counsellorId: leads.counsellorId,
+  counsellorName: counsellorUsers.fullName,
+  status: leads.status,
+  nextFollowUpDate: leads.nextFollowUpDate,
+  lastContactedAt: leads.lastContactedAt,
+  lostReason: leads.lostReason,
+  notes: leads.notes,
+  convertedClientId: leads.convertedClientId,
+  convertedAt: leads.convertedAt,
+  convertedBy: leads.convertedBy,
+  createdBy: leads.createdBy,
+  createdAt: leads.createdAt,
+  updatedAt: leads.updatedAt,
+};
+
+/* ==============================
+   HELPERS
+============================== */
+const optionalText = (value: unknown, field: string, maxLength: number) => {
+  if (value === null || value === undefined) return null;
+  const trimmed = String(value).trim();
+  if (!trimmed) return null;
+  if (trimmed.length > maxLength) {
+    throw new Error(`${field} must be at most ${maxLength} characters`);
+  }
+  return trimmed;
+};
+
+const normalizeFullName = (value: unknown) => {
+  const fullName = typeof value === "string" ? value.trim() : "";
+  if (!fullName) {
+    throw new Error("fullName is required");
+  }
+  if (fullName.length > 150) {
+    throw new Error("fullName must be at most 150 characters");
+  }
+  return fullName;
+};
+
+const normalizePhone = (value: unknown) => {
+  const phone = optionalText(value, "phone", 20);
+  if (phone && !isValidPhone(phone)) {
+    throw new Error("Invalid phone");
+  }
+  return phone;
+};
+
+const normalizeEmail = (value: unknown) => {
+  const email = optionalText(value, "email", 150);
+  if (email && !isValidEmail(email)) {
+    throw new Error("Invalid email");
+  }
+  return email ? email.toLowerCase() : null;
+};
+
+const normalizeFollowUpDate = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return null;
+  const date = String(value);
+  if (!isValidDateString(date)) {
+    throw new Error("Invalid nextFollowUpDate format. Use YYYY-MM-DD");
+  }
+  return date;
+};
+
+const validateStatus = (value: unknown): LeadStatus => {
+  if (!LEAD_STATUSES.includes(value as LeadStatus)) {
+    throw new Error(`Invalid status. Must be one of: ${LEAD_STATUSES.join(", ")}`);
+  }
+  return value as LeadStatus;
+};
+
+const validateLeadType = async (value: unknown) => {
+  if (value === null || value === undefined || value === "") return null;
+
+  const leadTypeId = Number(value);
+  if (!Number.isInteger(leadTypeId) || leadTypeId <= 0) {
+    throw new Error("Invalid leadTypeId");
+  }
+
+  const [leadType] = await db
+    .select({ id: leadTypes.id })
+    .from(leadTypes)
+    .where(eq(leadTypes.id, leadTypeId))
+    .limit(1);
+
+  if (!leadType) {
+    throw new Error("Invalid lead type");
+  }
+
+  return leadTypeId;
+};
+
+/**
+ * Counsellors can only take leads themselves; non-supervisor managers assign within their own team
+ */
+const validateLeadCounsellor = async (value: unknown, scope: ClientListScope) => {
+  if (value === null || value === undefined || value === "") return null;
+
+  const counsellorId = Number(value);
+  if (!Number.isInteger(counsellorId) || counsellorId <= 0) {
+    throw new Error("Invalid counsellorId");
+  }
+
+  if (scope.role === "counsellor" && counsellorId !== scope.userId) {
+    throw new Error("Counsellors can only assign leads to themselves");
+  }
+
+  const [counsellor] = await db
+    .select({ id: users.id, role: users.role, managerId: users.managerId, isActive: users.isActive })
+    .from(users)
+    .where(eq(users.id, counsellorId))
+    .limit(1);
+
+  if (!counsellor || (counsellor.role !== "counsellor" && counsellor.role !== "manager")) {
+    throw new Error("Invalid counsellor");
+  }
+
+  if (!counsellor.isActive) {
+    throw new Error("Cannot assign leads to a deactivated user");
+  }
+
+  if (
+    scope.role === "manager" &&
+    !scope.isSupervisor &&
+    counsellor.id !== scope.userId &&
+    counsellor.managerId !== scope.userId
+  ) {
+    throw new Error("You can only assign leads within your own team");
+  }
+
+  return counsellorId;
+};
+
+/**
+ * Counsellors see their own leads; non-supervisor managers their team's leads plus unassigned ones.
+ * Expects the query to join counsellorUsers on the lead's counsellor.
+ */
+const buildLeadScopeConditions = (scope: ClientListScope): SQL[] => {
+  if (scope.role === "counsellor") {
+    return [eq(leads.counsellorId, scope.userId)];
+  }
+
+  if (scope.role === "manager" && !scope.isSupervisor) {
+    return [
+      or(
+        isNull(leads.counsellorId),
+        eq(leads.counsellorId, scope.userId),
+        eq(counsellorUsers.managerId, scope.userId)
+      )!,
+    ];
+  }
+
+  return [];
+};
+
+/* ==============================
+   GET LEAD
+============================== */
+export const getLeadById = async (leadId: number) => {
+  const [lead] = await db
+    .select(leadSelection)
+    .from(leads)
+    .leftJoin(leadTypes, eq(leads.leadTypeId, leadTypes.id))
+    .leftJoin(leadSources, eq(leads.leadSourceId, leadSources.sourceId))
+    .leftJoin(counsellorUsers, eq(leads.counsellorId, counsellorUsers.id))
+    .where(eq(leads.leadId, leadId))
+    .limit(1);
+
+  return lead || null;
+};
+
+export const getLeadInScope = async (leadId: number, scope: ClientListScope) => {
+  const [lead] = await db
+    .select(leadSelection)
+    .from(leads)
+    .leftJoin(leadTypes, eq(leads.leadTypeId, leadTypes.id))
+    .leftJoin(leadSources, eq(leads.leadSourceId, leadSources.sourceId))
+    .leftJoin(counsellorUsers, eq(leads.counsellorId, counsellorUsers.id))
+    .where(and(eq(leads.leadId, leadId), ...buildLeadScopeConditions(scope)))
+    .limit(1);
+
+  if (!lead) {
+    throw new Error("Lead not found");
+  }
+
+  return lead;
+};
+
+/* ==============================
+   LIST LEADS
+   Open leads with the earliest follow-up first, then newest
+============================== */
+export const getLeads = async (filters: LeadListFilters, scope: ClientListScope) => {
+  const conditions: SQL[] = buildLeadScopeConditions(scope);
+
+  if (filters.status) {
+    conditions.push(eq(leads.status, filters.status));
+  }
+
+  if (filters.unassigned) {
+    conditions.push(isNull(leads.counsellorId));
+  } else if (filters.counsellorId) {
+    conditions.push(eq(leads.counsellorId, filters.counsellorId));
+  }
+
+  if (filters.leadTypeId) {
+    conditions.push(eq(leads.leadTypeId, filters.leadTypeId));
+  }
+
+  if (filters.leadSourceId) {
+    conditions.push(eq(leads.leadSourceId, filters.leadSourceId));
+  }
+
+  if (filters.referralAgentId) {
+    conditions.push(eq(leads.referralAgentId, filters.referralAgentId));
+  }
+
+  if (filters.search) {
+    const pattern = `%${filters.search}%`;
+    conditions.push(
+      or(
+        ilike(leads.fullName, pattern),
+        ilike(leads.phone, pattern),
+        ilike(leads.email, pattern)
+      )!
+    );
+  }
+
+  // Open leads whose follow-up date is today or earlier
+  if (filters.followUpDue) {
+    conditions.push(inArray(leads.status, OPEN_LEAD_STATUSES));
+    conditions.push(lte(leads.nextFollowUpDate, sql`CURRENT_DATE`));
+  }
+
+  if (filters.createdFrom) {
+    conditions.push(gte(leads.createdAt, new Date(`${filters.createdFrom}T00:00:00`)));
+  }
+
+  if (filters.createdTo) {
+    const end = new Date(`${filters.createdTo}T00:00:00`);
+    end.setDate(end.getDate() + 1);
+    conditions.push(lt(leads.createdAt, end));
+  }
+
+  const limit = Math.min(Math.max(filters.limit || 50, 1), 200);
+  const offset = Math.max(filters.offset || 0, 0);
+  const where = conditions.length ? and(...conditions) : undefined;
+
+  const [rows, [{ total }]] = await Promise.all([
+    db
+      .select(leadSelection)
+      .from(leads)
+      .leftJoin(leadTypes, eq(leads.leadTypeId, leadTypes.id))
+      .leftJoin(leadSources, eq(leads.leadSourceId, leadSources.sourceId))
+      .leftJoin(counsellorUsers, eq(leads.counsellorId, counsellorUsers.id))
+      .where(where)
+      .orderBy(
+        sql`CASE WHEN ${leads.status} IN ('new', 'contacted', 'qualified') THEN 0 ELSE 1 END`,
+        sql`${leads.nextFollowUpDate} ASC NULLS LAST`,
+        desc(leads.createdAt)
+      )
+      .limit(limit)
+      .offset(offset),
+    db
+      .select({ total: sql<number>`COUNT(*)::int` })
+      .from(leads)
+      .leftJoin(counsellorUsers, eq(leads.counsellorId, counsellorUsers.id))
+      .where(where),
+  ]);
+
+  return { total, limit, offset, data: rows };
+};
+
+/* ==============================
+   CREATE LEAD
+   Counsellors' leads are assigned to themselves
+============================== */
+export const createLead = async (data: LeadInput, scope: ClientListScope) => {
+  const counsellorId = scope.role === "counsellor"
+    ? scope.userId
+    : await validateLeadCounsellor(data.counsellorId, scope);
+
+  const status = data.status !== undefined ? validateStatus(data.status) : "new";
+  const lostReason = optionalText(data.lostReason, "lostReason", 1000);
+  if (status === "lost" && !lostReason) {
+    throw new Error("lostReason is required when a lead is lost");
+  }
+
+  const [created] = await db
+    .insert(leads)
+    .values({
+      fullName: normalizeFullName(data.fullName),
+      phone: normalizePhone(data.phone),
+      email: normalizeEmail(data.email),
+      ...(await resolveAttribution(data)),
+      leadTypeId: await validateLeadType(data.leadTypeId),
+      destinationCountry: optionalText(data.destinationCountry, "destinationCountry", 100),
+      counsellorId,
+      status,
+      nextFollowUpDate: normalizeFollowUpDate(data.nextFollowUpDate),
+      lastContactedAt: status === "contacted" ? new Date() : null,
+      lostReason: status === "lost" ? lostReason : null,
+      notes: optionalText(data.notes, "notes", 5000),
+      createdBy: scope.userId,
+    })
+    .returning({ leadId: leads.leadId });
+
+  return (await getLeadById(created.leadId))!;
+};
+
+/* ==============================
+   UPDATE LEAD
+   Converted leads are read-only; moving to "contacted" stamps lastContactedAt
+============================== */
+export const updateLead = async (
+  leadId: number,
+  data: LeadInput,
+  scope: ClientListScope
+) => {
+  const before = await getLeadInScope(leadId, scope);
+  if (before.status === "converted") {
+    throw new Error("Converted leads cannot be edited");
+  }
+
+  const updates: Partial<typeof leads.$inferInsert> = {};
+
+  if (data.fullName !== undefined) updates.fullName = normalizeFullName(data.fullName);
+  if (data.phone !== undefined) updates.phone = normalizePhone(data.phone);
+  if (data.email !== undefined) updates.email = normalizeEmail(data.email);
+  if (data.leadTypeId !== undefined) updates.leadTypeId = await validateLeadType(data.leadTypeId);
+  if (data.notes !== undefined) updates.notes = optionalText(data.notes, "notes", 5000);
+  if (data.nextFollowUpDate !== undefined) {
+    updates.nextFollowUpDate = normalizeFollowUpDate(data.nextFollowUpDate);
+  }
+  if (data.destinationCountry !== undefined) {
+    updates.destinationCountry = optionalText(data.destinationCountry, "destinationCountry", 100);
+  }
+
+  if (
+    data.leadSourceId !== undefined ||
+    data.referredByClientId !== undefined ||
+    data.referralAgentId !== undefined
+  ) {
+    Object.assign(updates, await resolveAttribution(data, before));
+  }
+
+  if (data.counsellorId !== undefined) {
+    updates.counsellorId = await validateLeadCounsellor(data.counsellorId, scope);
+    if (scope.role === "counsellor" && updates.counsellorId === null) {
+      throw new Error("Counsellors cannot unassign leads");
+    }
+  }
+
+  const status = data.status !== undefined ? validateStatus(data.status) : before.status;
+  if (status !== before.status) {
+    updates.status = status;
+    if (status === "contacted") {
+      updates.lastContactedAt = new Date();
+    }
+  }
+
+  if (status === "lost") {
+    const lostReason = data.lostReason !== undefined
+      ? optionalText(data.lostReason, "lostReason", 1000)
+      : before.lostReason;
+    if (!lostReason) {
+      throw new Error("lostReason is required when a lead is lost");
+    }
+    updates.lostReason = lostReason;
+  } else if (before.status === "lost") {
+    // Reopened lead
+    updates.lostReason = null;
+  }
+
+  if (Object.keys(updates).length === 0) {
+    return { before, after: before };
+  }
+
+  updates.updatedAt = new Date();
+  await db.update(leads).set(updates).where(eq(leads.leadId, leadId));
+
+  return { before, after: (await getLeadById(leadId))! };
+};
+
+/* ==============================
+   DELETE LEAD
+   Converted leads are kept for conversion reporting
+============================== */
+export const deleteLead = async (leadId: number, scope: ClientListScope) => {
+  const lead = await getLeadInScope(leadId, scope);
+  if (lead.status === "converted") {
+    throw new Error("Converted leads cannot be deleted");
+  }
+
+  await db.delete(leads).where(eq(leads.leadId, leadId));
+  return lead;
+};
+
+/* ==============================
+   CONVERT LEAD TO CLIENT
+   Claiming the lead, creating the client and linking the two run in one
+   transaction: a lead is converted only once, and a failed conversion leaves
+   neither a client nor a changed lead behind.
+============================== */
+export const convertLeadToClient = async (
+  leadId: number,
+  data: ConvertLeadInput,
+  scope: ClientListScope
+) => {
+  const lead = await getLeadInScope(leadId, scope);
+  if (lead.status === "converted") {
+    throw new Error(`Lead already converted to client #${lead.convertedClientId}`);
+  }
+
+  const counsellorId = data.counsellorId !== undefined && data.counsellorId !== null
+    ? await validateLeadCounsellor(data.counsellorId, scope)
+    : lead.counsellorId ?? (scope.role === "admin" || scope.role === "superadmin" ? null : scope.userId);
+
+  if (!counsellorId) {
+    throw new Error("Assign a counsellor before converting this lead");
+  }
+
+  const leadTypeId = data.leadTypeId ?? lead.leadTypeId;
+  if (!leadTypeId) {
+    throw new Error("leadTypeId is required to convert this lead");
+  }
+
+  const client = await db.transaction(async (tx) => {
+    const [claimed] = await tx
+      .update(leads)
+      .set({ status: "converted", convertedAt: new Date(), convertedBy: scope.userId, updatedAt: new Date() })
+      .where(and(eq(leads.leadId, leadId), ne(leads.status, "converted")))
+      .returning({ leadId: leads.leadId });
+
+    if (!claimed) {
+      throw new Error("Lead already converted");
+    }
+
+    const result = await saveClient(
+      {
+        fullName: lead.fullName,
+        enrollmentDate: data.enrollmentDate as string,
+        passportDetails: data.passportDetails as string,
+        leadTypeId,
+        phone: lead.phone,
+        email: lead.email,
+        destinationCountry: lead.destinationCountry,
+        address: data.address,
+        dateOfBirth: data.dateOfBirth,
+        nationality: data.nationality,
+        visaCategory: data.visaCategory,
+      },
+      counsellorId,
+      tx
+    );
+
+    // Source and referrer carry over to the client for attribution reports
+    await tx
+      .update(clientInformation)
+      .set({
+        leadSourceId: lead.leadSourceId,
+        referredByClientId: lead.referredByClientId,
+        referralAgentId: lead.referralAgentId,
+      })
+      .where(eq(clientInformation.clientId, result.client.clientId));
+
+    await tx
+      .update(leads)
+      .set({ convertedClientId: result.client.clientId, counsellorId })
+      .where(eq(leads.leadId, leadId));
+
+    return result.client;
+  });
+
+  return {
+    before: lead,
+    after: (await getLeadById(leadId))!,
+    client: {
+      ...client,
+      leadSourceId: lead.leadSourceId,
+      referredByClientId: lead.referredByClientId,
+      referralAgentId: lead.referralAgentId,
+    },
+  };
+};
+
+/* ==============================
+   CONVERSION STATS
+   Leads created in the period, grouped by counsellor, interested lead type, source or referral agent.
+   conversionRate = converted / total leads (%)
+============================== */
+export const getLeadConversionStats = async (
+  groupBy: LeadConversionGroupBy,
+  range: { from?: string; to?: string },
+  scope: ClientListScope
+) => {
+  const conditions: SQL[] = buildLeadScopeConditions(scope);
+
+  if (range.from) {
+    conditions.push(gte(leads.createdAt, new Date(`${range.from}T00:00:00`)));
+  }
+  if (range.to) {
+    const end = new Date(`${range.to}T00:00:00`);
+    end.setDate(end.getDate() + 1);
+    conditions.push(lt(leads.createdAt, end));
+  }
+
+  const grouping = {
+    counsellor: { id: leads.counsellorId, name: counsellorUsers.fullName, fallback: "Unassigned" },
+    leadType: { id: leads.leadTypeId, name: leadTypes.leadType, fallback: "Not specified" },
+    leadSource: { id: leads.leadSourceId, name: leadSources.name, fallback: "Not specified" },
+    referralAgent: { id: leads.referralAgentId, name: referralAgents.name, fallback: "No agent" },
+  }[groupBy];
+  const groupId = grouping.id;
+  const groupName = grouping.name;
+
+  const rows = await db
+    .select({
+      id: groupId,
+      name: groupName,
+      total: sql<number>`COUNT(*)::int`,
+      converted: sql<number>`COUNT(*) FILTER (WHERE ${leads.status} = 'converted')::int`,
+      lost: sql<number>`COUNT(*) FILTER (WHERE ${leads.status} = 'lost')::int`,
+      avgDaysToConvert: sql<string | null>`ROUND(AVG(EXTRACT(EPOCH FROM (${leads.convertedAt} - ${leads.createdAt})) / 86400) FILTER (WHERE ${leads.status} = 'converted'), 1)`,
+    })
+    .from(leads)
+    .leftJoin(leadTypes, eq(leads.leadTypeId, leadTypes.id))
+    .leftJoin(leadSources, eq(leads.leadSourceId, leadSources.sourceId))
+    .leftJoin(referralAgents, eq(leads.referralAgentId, referralAgents.agentId))
+    .leftJoin(counsellorUsers, eq(leads.counsellorId, counsellorUsers.id))
+    .where(conditions.length ? and(...conditions) : undefined)
+    .groupBy(groupId, groupName)
+    .orderBy(desc(sql`COUNT(*)`));
+
+  const toStats = (total: number, converted: number, lost: number) => ({
+    total,
+    converted,
+    lost,
+    open: total - converted - lost,
+    conversionRate: total > 0 ? Math.round((converted / total) * 10000) / 100 : 0,
+  });
+
+  const groups = rows.map((row) => ({
+    id: row.id,
+    name: row.name ?? grouping.fallback,
+    ...toStats(row.total, row.converted, row.lost),
+    avgDaysToConvert: row.avgDaysToConvert !== null ? Number(row.avgDaysToConvert) : null,
+  }));
+
+  const totals = groups.reduce(
+    (sum, group) => ({
+      total: sum.total + group.total,
+      converted: sum.converted + group.converted,
+      lost: sum.lost + group.lost,
+    }),
+    { total: 0, converted: 0, lost: 0 }
+  );
+
+  return {
+    groupBy,
+    from: range.from ?? null,
+    to: range.to ?? null,
+    overall: toStats(totals.total, totals.converted, totals.lost),
+    groups,
+  };
+};
@@ -0,0 +1,499 @@
+import { db } from "../config/databaseConnection";
+import { leadSources, referralAgents, leadSourceCosts } from "../schemas/leadSource.schema";
+import { clientInformation } from "../schemas/clientInformation.schema";
+import { leads } from "../schemas/lead.schema";
+import { users } from "../schemas/users.schema";
+import { eq, and, or, asc, desc, gte, lte, ilike, sql, SQL } from "drizzle-orm";
+import { ClientListScope, getClientInScope } from "./client.model";
+import { isValidEmail, isValidPhone, isValidDateString } from "../utils/validators";
+
+/* ==============================
+   TYPES
+============================== */
+export type ReferralType = "none" | "client" | "agent";
+
+export const REFERRAL_TYPES: ReferralType[] = ["none", "client", "agent"];
+
+interface LeadSourceInput {
+  code?: string;
+  name?: string;
+  referralType?: ReferralType;
+  sortOrder?: number;
+  isActive?: boolean;
+}
+
+interface ReferralAgentInput {
+  name?: string;
+  company?: string | null;
+  phone?: string | null;
+  email?: string | null;
+  notes?: string | null;
+  isActive?: boolean;
+}
+
+interface LeadSourceCostInput {
+  periodStart?: string;
+  periodEnd?: string;
+  amount?: number | string;
+  notes?: string | null;
+}
+
+// Source + referrer of a client or lead
+export interface AttributionInput {
+  leadSourceId?: number | null;
+  referredByClientId?: number | null;
+  referralAgentId?: number | null;
+}
+
+export interface Attribution {
+  leadSourceId: number | null;
+  referredByClientId: number | null;
+  referralAgentId: number | null;
+}
+
+/* ==============================
+   HELPERS
+============================== */
+const optionalText = (value: unknown, field: string, maxLength: number) => {
+  if (value === null || value === undefined) return null;
+  const trimmed = String(value).trim();
+  if (!trimmed) return null;
+  if (trimmed.length > maxLength) {
+    throw new Error(`${field} must be at most ${maxLength} characters`);
+  }
+  return trimmed;
+};
+
+const normalizeName = (value: unknown, maxLength: number) => {
+  const name = typeof value === "string" ? value.trim() : "";
+  if (!name) {
+    throw new Error("name is required");
+  }
+  if (name.length > maxLength) {
+    throw new Error(`name must be at most ${maxLength} characters`);
+  }
+  return name;
+};
+
+const normalizeCode = (value: unknown) => {
+  const code = typeof value === "string" ? value.trim().toUpperCase().replace(/[\s-]+/g, "_") : "";
+  if (!/^[A-Z0-9_]{1,50}$/.test(code)) {
+    throw new Error("code must be 1-50 letters, digits or underscores");
+  }
+  return code;
+};
+
+const validateReferralType = (value: unknown): ReferralType => {
+  if (!REFERRAL_TYPES.includes(value as ReferralType)) {
+    throw new Error(`Invalid referralType. Must be one of: ${REFERRAL_TYPES.join(", ")}`);
+  }
+  return value as ReferralType;
+};
+
+const optionalId = (value: unknown, field: string) => {
+  if (value === null || value === undefined || value === "") return null;
+  const id = Number(value);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new Error(`Invalid ${field}`);
+  }
+  return id;
+};
+
+/* ==============================
+   LEAD SOURCES
+============================== */
+export const getLeadSources = async (includeInactive = false) => {
+  return db
+    .select()
+    .from(leadSources)
+    .where(includeInactive ? undefined : eq(leadSources.isActive, true))
+    .orderBy(asc(leadSources.sortOrder), asc(leadSources.name));
+};
+
+export const getLeadSourceById = async (sourceId: number) => {
+  const [source] = await db
+    .select()
+    .from(leadSources)
+    .where(eq(leadSources.sourceId, sourceId))
+    .limit(1);
+
+  return source || null;
+};
+
+export const createLeadSource = async (data: LeadSourceInput) => {
+  const code = normalizeCode(data.code);
+
+  const [existing] = await db
+    .select({ sourceId: leadSources.sourceId })
+    .from(leadSources)
+    .where(eq(leadSources.code, code))
+    .limit(1);
+
+  if (existing) {
+    throw new Error(`Lead source "${code}" already exists`);
+  }
+
+  const [created] = await db
+    .insert(leadSources)
+    .values({
+      code,
+      name: normalizeName(data.name, 100),
+      referralType: data.referralType !== undefined ? validateReferralType(data.referralType) : "none",
+      sortOrder: data.sortOrder !== undefined ? Number(data.sortOrder) || 0 : 0,
+      isActive: data.isActive !== false,
+    })
+    .returning();
+
+  return created;
+};
+
+/**
+ * Update name, referral type, order or active flag (the code is immutable)
+ */
+export const updateLeadSource = async (sourceId: number, data: LeadSourceInput) => {
+  const before = await getLeadSourceById(sourceId);
+  if (!before) {
+    throw new Error("Lead source not found");
+  }
+
+  if (data.code !== undefined && normalizeCode(data.code) !== before.code) {
+    throw new Error("code cannot be changed");
+  }
+
+  const updates: Partial<typeof leadSources.$inferInsert> = {};
+
+  if (data.name !== undefined) updates.name = normalizeName(data.name, 100);
+  if (data.referralType !== undefined) updates.referralType = validateReferralType(data.referralType);
+  if (data.sortOrder !== undefined) updates.sortOrder = Number(data.sortOrder) || 0;
+  if (data.isActive !== undefined) updates.isActive = data.isActive === true;
+
+  if (Object.keys(updates).length === 0) {
+    return { before, after: before };
+  }
+
+  updates.updatedAt = new Date();
+  const [after] = await db
+    .update(leadSources)
+    .set(updates)
+    .where(eq(leadSources.sourceId, sourceId))
+    .returning();
+
+  return { before, after };
+};
+
+/**
+ * Delete a source no client or lead uses (otherwise deactivate it)
+ */
+export const deleteLeadSource = async (sourceId: number) => {
+  const source = await getLeadSourceById(sourceId);
+  if (!source) {
+    throw new Error("Lead source not found");
+  }
+
+  const [[clientUse], [leadUse]] = await Promise.all([
+    db
+      .select({ count: sql<number>`COUNT(*)::int` })
+      .from(clientInformation)
+      .where(eq(clientInformation.leadSourceId, sourceId)),
+    db
+      .select({ count: sql<number>`COUNT(*)::int` })
+      .from(leads)
+      .where(eq(leads.leadSourceId, sourceId)),
+  ]);
+
+  if (clientUse.count > 0 || leadUse.count > 0) {
+    throw new Error(
+      `Lead source is used by ${clientUse.count} client(s) and ${leadUse.count} lead(s). Deactivate it instead.`
+    );
+  }
+
+  await db.delete(leadSources).where(eq(leadSources.sourceId, sourceId));
+  return source;
+};
+
+/* ==============================
+   REFERRAL AGENTS
+============================== */
+export const getReferralAgents = async (filters: { search?: string; includeInactive?: boolean }) => {
+  const conditions: SQL[] = [];
+
+  if (!filters.includeInactive) {
+    conditions.push(eq(referralAgents.isActive, true));
+  }
+
+  if (filters.search) {
+    const term = `%${filters.search}%`;
+    conditions.push(
+      or(
+        ilike(referralAgents.name, term),
+        ilike(referralAgents.company, term),
+        ilike(referralAgents.phone, term),
+        ilike(referralAgents.email, term)
+      )!
+    );
+  }
+
+  return db
+    .select()
+    .from(referralAgents)
+    .where(conditions.length ? and(...conditions) : undefined)
+    .orderBy(asc(referralAgents.name));
+};
+
+export const getReferralAgentById = async (agentId: number) => {
+  const [agent] = await db
+    .select()
+    .from(referralAgents)
+    .where(eq(referralAgents.agentId, agentId))
+    .limit(1);
+
+  return agent || null;
+};
+
+const normalizeAgentContact = (data: ReferralAgentInput, updates: Partial<typeof referralAgents.$inferInsert>) => {
+  if (data.company !== undefined) updates.company = optionalText(data.company, "company", 150);
+  if (data.notes !== undefined) updates.notes = optionalText(data.notes, "notes", 5000);
+
+  if (data.phone !== undefined) {
+    updates.phone = optionalText(data.phone, "phone", 20);
+    if (updates.phone && !isValidPhone(updates.phone)) {
+      throw new Error("Invalid phone");
+    }
+  }
+
+  if (data.email !== undefined) {
+    const email = optionalText(data.email, "email", 150);
+    if (email && !isValidEmail(email)) {
+      throw new Error("Invalid email");
+    }
+    updates.email = email ? email.toLowerCase() : null;
+  }
+};
+
+export const createReferralAgent = async (data: ReferralAgentInput, createdBy: number) => {
+  const values: typeof referralAgents.$inferInsert = {
+    name: normalizeName(data.name, 150),
+    isActive: data.isActive !== false,
+    createdBy,
+  };
+  normalizeAgentContact(data, values);
+
+  const [created] = await db.insert(referralAgents).values(values).returning();
+  return created;
+};
+
+export const updateReferralAgent = async (agentId: number, data: ReferralAgentInput) => {
+  const before = await getReferralAgentById(agentId);
+  if (!before) {
+    throw new Error("Referral agent not found");
+  }
+
+  const updates: Partial<typeof referralAgents.$inferInsert> = {};
+  if (data.name !== undefined) updates.name = normalizeName(data.name, 150);
+  if (data.isActive !== undefined) updates.isActive = data.isActive === true;
+  normalizeAgentContact(data, updates);
+
+  if (Object.keys(updates).length === 0) {
+    return { before, after: before };
+  }
+
+  updates.updatedAt = new Date();
+  const [after] = await db
+    .update(referralAgents)
+    .set(updates)
+    .where(eq(referralAgents.agentId, agentId))
+    .returning();
+
+  return { before, after };
+};
+
+/* ==============================
+   SOURCE COSTS
+   Marketing spend per source and period
+============================== */
+export const getLeadSourceCosts = async (filters: { sourceId?: number; from?: string; to?: string }) => {
+  const conditions: SQL[] = [];
+
+  if (filters.sourceId) {
+    conditions.push(eq(leadSourceCosts.sourceId, filters.sourceId));
+  }
+  // Periods overlapping the range
+  if (filters.from) {
+    conditions.push(gte(leadSourceCosts.periodEnd, filters.from));
+  }
+  if (filters.to) {
+    conditions.push(lte(leadSourceCosts.periodStart, filters.to));
+  }
+
+  return db
+    .select({
+      costId: leadSourceCosts.costId,
+      sourceId: leadSourceCosts.sourceId,
+      sourceName: leadSources.name,
+      periodStart: leadSourceCosts.periodStart,
+      periodEnd: leadSourceCosts.periodEnd,
+      amount: leadSourceCosts.amount,
+      notes: leadSourceCosts.notes,
+      createdBy: leadSourceCosts.createdBy,
+      createdByName: users.fullName,
+      createdAt: leadSourceCosts.createdAt,
+    })
+    .from(leadSourceCosts)
+    .innerJoin(leadSources, eq(leadSourceCosts.sourceId, leadSources.sourceId))
+    .leftJoin(users, eq(leadSourceCosts.createdBy, users.id))
+    .where(conditions.length ? and(...conditions) : undefined)
+    .orderBy(desc(leadSourceCosts.periodStart), desc(leadSourceCosts.costId));
+};
+
+export const addLeadSourceCost = async (
+  sourceId: number,
+  data: LeadSourceCostInput,
+  createdBy: number
+) => {
+  if (!(await getLeadSourceById(sourceId))) {
+    throw new Error("Lead source not found");
+  }
+
+  const { periodStart, periodEnd } = data;
+  if (!periodStart || !isValidDateString(periodStart) || !periodEnd || !isValidDateString(periodEnd)) {
+    throw new Error("periodStart and periodEnd are required (YYYY-MM-DD)");
+  }
+  if (periodEnd < periodStart) {
+    throw new Error("periodEnd cannot be before periodStart");
+  }
+
+  const amount = Number(data.amount);
+  if (!Number.isFinite(amount) || amount < 0) {
+    throw new Error("amount must be a non-negative number");
+  }
+
+  const [created] = await db
+    .insert(leadSourceCosts)
+    .values({
+      sourceId,
+      periodStart,
+      periodEnd,
+      amount: amount.toFixed(2),
+      notes: optionalText(data.notes, "notes", 1000),
+      createdBy,
+    })
+    .returning();
+
+  return created;
+};
+
+export const deleteLeadSourceCost = async (costId: number) => {
+  const [deleted] = await db
+    .delete(leadSourceCosts)
+    .where(eq(leadSourceCosts.costId, costId))
+    .returning();
+
+  if (!deleted) {
+    throw new Error("Cost entry not found");
+  }
+
+  return deleted;
+};
+
+/* ==============================
+   ATTRIBUTION
+   Shared by leads and clients: the referrer must match the source's referral type
+============================== */
+export const resolveAttribution = async (
+  data: AttributionInput,
+  current: Attribution = { leadSourceId: null, referredByClientId: null, referralAgentId: null },
+  selfClientId?: number
+): Promise<Attribution> => {
+  const result: Attribution = {
+    leadSourceId: data.leadSourceId !== undefined ? optionalId(data.leadSourceId, "leadSourceId") : current.leadSourceId,
+    referredByClientId: data.referredByClientId !== undefined
+      ? optionalId(data.referredByClientId, "referredByClientId")
+      : current.referredByClientId,
+    referralAgentId: data.referralAgentId !== undefined
+      ? optionalId(data.referralAgentId, "referralAgentId")
+      : current.referralAgentId,
+  };
+
+  if (!result.leadSourceId) {
+    if (result.referredByClientId || result.referralAgentId) {
+      throw new Error("leadSourceId is required with a referrer");
+    }
+    return result;
+  }
+
+  const source = await getLeadSourceById(result.leadSourceId);
+  if (!source) {
+    throw new Error("Invalid lead source");
+  }
+  if (!source.isActive && result.leadSourceId !== current.leadSourceId) {
+    throw new Error(`Lead source "${source.name}" is inactive`);
+  }
+
+  // Referrer fields that don't belong to the source are dropped
+  if (source.referralType !== "client") result.referredByClientId = null;
+  if (source.referralType !== "agent") result.referralAgentId = null;
+
+  if (source.referralType === "client") {
+    if (!result.referredByClientId) {
+      throw new Error(`referredByClientId is required for "${source.name}"`);
+    }
+    if (result.referredByClientId === selfClientId) {
+      throw new Error("A client cannot refer themselves");
+    }
+    const [referrer] = await db
+      .select({ clientId: clientInformation.clientId })
+      .from(clientInformation)
+      .where(eq(clientInformation.clientId, result.referredByClientId))
+      .limit(1);
+    if (!referrer) {
+      throw new Error("Referring client not found");
+    }
+  }
+
+  if (source.referralType === "agent") {
+    if (!result.referralAgentId) {
+      throw new Error(`referralAgentId is required for "${source.name}"`);
+    }
+    const agent = await getReferralAgentById(result.referralAgentId);
+    if (!agent) {
+      throw new Error("Referral agent not found");
+    }
+    if (!agent.isActive && result.referralAgentId !== current.referralAgentId) {
+      throw new Error(`Referral agent "${agent.name}" is inactive`);
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Set a client's source / referrer
+ */
+export const setClientAttribution = async (
+  clientId: number,
+  data: AttributionInput,
+  scope: ClientListScope
+) => {
+  if (!(await getClientInScope(clientId, scope))) {
+    throw new Error("Client not found");
+  }
+
+  const [before] = await db
+    .select({
+      leadSourceId: clientInformation.leadSourceId,
+      referredByClientId: clientInformation.referredByClientId,
+      referralAgentId: clientInformation.referralAgentId,
+    })
+    .from(clientInformation)
+    .where(eq(clientInformation.clientId, clientId))
+    .limit(1);
+
+  const after = await resolveAttribution(data, before, clientId);
+
+  await db
+    .update(clientInformation)
+    .set(after)
+    .where(eq(clientInformation.clientId, clientId));
+
+  return { before, after };
+};
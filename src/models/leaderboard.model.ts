@@ -3,7 +3,11 @@ import { users } from "../schemas/users.schema";
 import { clientInformation } from "../schemas/clientInformation.schema";
 import { clientPayments } from "../schemas/clientPayment.schema";
 import { clientProductPayments } from "../schemas/clientProductPayments.schema";
-import { leaderBoard } from "../schemas/leaderBoard.schema";
+import {
+  leaderBoard,
+  leaderboardMetricWeights,
+  leaderboardSnapshots,
+} from "../schemas/leaderBoard.schema";
 import { simCard } from "../schemas/simCard.schema";
 import { airTicket } from "../schemas/airTicket.schema";
 import { ielts } from "../schemas/ielts.schema";
@@ -16,7 +20,15 @@ import { beaconAccount } from "../schemas/beaconAccount.schema";
 import { creditCard } from "../schemas/creditCard.schema";
 import { visaExtension } from "../schemas/visaExtension.schema";
 import { newSell } from "../schemas/newSell.schema";
-import { eq, and, sql, count, desc, gte, lte, or, inArray } from "drizzle-orm";
+import { eq, and, sql, count, desc, gte, lte, or, inArray, asc } from "drizzle-orm";
+import { getApprovedRefundTotal } from "./paymentRefund.model";
+import {
+  paymentCounsellorSql,
+  productPaymentCounsellorSql,
+  paymentApprovedSql,
+  productPaymentApprovedSql,
+} from "./client.model";
+import { getProductClassification } from "./product.model";
 
 // Helper function to get entity amounts (same as dashboard model)
 const getEntityAmounts = async (
@@ -90,15 +102,14 @@ const getEntityAmounts = async (
   return 0;
 };
 
-// Helper function to calculate revenue for a counsellor in a date range
-const calculateCounsellorRevenue = async (
+// Helper function to sum core sale (client payment) revenue for a counsellor in a date range
+const sumCounsellorCoreSaleRevenue = async (
   counsellorId: number,
   startDateStr: string,
   endDateStr: string,
   startTimestamp: string,
   endTimestamp: string
 ): Promise<number> => {
-  // 1. Client payments (core products) for this counsellor's clients
   const [clientPaymentsResult] = await db
     .select({
       total: sql<string>`COALESCE(SUM(${clientPayments.amount}::numeric), 0)`,
@@ -110,7 +121,7 @@ const calculateCounsellorRevenue = async (
     )
     .where(
       sql`(
-        ${clientInformation.counsellorId} = ${counsellorId}
+        ${paymentCounsellorSql} = ${counsellorId}
         AND ${clientInformation.archived} = false
         AND ${clientPayments.stage} IN ('INITIAL', 'BEFORE_VISA', 'AFTER_VISA')
         AND (
@@ -122,9 +133,103 @@ const calculateCounsellorRevenue = async (
             AND ${clientPayments.createdAt} >= ${startTimestamp}
             AND ${clientPayments.createdAt} <= ${endTimestamp})
         )
+        AND ${paymentApprovedSql}
       )`
     );
 
+  return parseFloat(clientPaymentsResult?.total || "0");
+};
+
+// Helper function to get core product count and other product revenue for a counsellor in a date range
+// Same split as the dashboard: core products are counted, count-only products carry no revenue
+const calculateCounsellorProductMetrics = async (
+  counsellorId: number,
+  startDateStr: string,
+  endDateStr: string,
+  startTimestamp: string,
+  endTimestamp: string,
+  classification: { coreProductCodes: string[]; countOnlyProductCodes: string[] }
+) => {
+  const productPayments = await db
+    .select({
+      productName: clientProductPayments.productName,
+      amount: clientProductPayments.amount,
+      entityType: clientProductPayments.entityType,
+      entityId: clientProductPayments.entityId,
+    })
+    .from(clientProductPayments)
+    .innerJoin(
+      clientInformation,
+      eq(clientProductPayments.clientId, clientInformation.clientId)
+    )
+    .where(
+      sql`(
+        ${productPaymentCounsellorSql} = ${counsellorId}
+        AND ${clientInformation.archived} = false
+        AND (
+          (${clientProductPayments.paymentDate} IS NOT NULL
+            AND ${clientProductPayments.paymentDate} >= ${startDateStr}
+            AND ${clientProductPayments.paymentDate} <= ${endDateStr})
+          OR
+          (${clientProductPayments.paymentDate} IS NULL
+            AND ${clientProductPayments.createdAt} >= ${startTimestamp}
+            AND ${clientProductPayments.createdAt} <= ${endTimestamp})
+        )
+        AND ${productPaymentApprovedSql}
+      )`
+    );
+
+  let coreProductCount = 0;
+  let otherProductRevenue = 0;
+  const entityGroups: Record<string, number[]> = {};
+
+  productPayments.forEach((pp) => {
+    if (classification.coreProductCodes.includes(pp.productName)) {
+      coreProductCount += 1;
+      return;
+    }
+
+    if (classification.countOnlyProductCodes.includes(pp.productName)) {
+      return;
+    }
+
+    if (pp.amount !== null) {
+      otherProductRevenue += parseFloat(pp.amount);
+    } else if (pp.entityId && pp.entityType) {
+      if (!entityGroups[pp.entityType]) {
+        entityGroups[pp.entityType] = [];
+      }
+      entityGroups[pp.entityType].push(pp.entityId);
+    }
+  });
+
+  for (const [entityType, entityIds] of Object.entries(entityGroups)) {
+    otherProductRevenue += await getEntityAmounts(entityType, entityIds);
+  }
+
+  return {
+    coreProductCount,
+    otherProductRevenue: parseFloat(otherProductRevenue.toFixed(2)),
+  };
+};
+
+// Helper function to calculate revenue for a counsellor in a date range
+const calculateCounsellorRevenue = async (
+  counsellorId: number,
+  startDateStr: string,
+  endDateStr: string,
+  startTimestamp: string,
+  endTimestamp: string
+): Promise<number> => {
+  // 1. Client payments (core products) for this counsellor's clients
+  const clientPaymentsTotal = await sumCounsellorCoreSaleRevenue(
+    counsellorId,
+    startDateStr,
+    endDateStr,
+    startTimestamp,
+    endTimestamp
+  );
+
   // 2. Product payments with amount (master_only products) for this counsellor's clients
   const [productPaymentsWithAmount] = await db
     .select({
@@ -137,7 +242,7 @@ const calculateCounsellorRevenue = async (
     )
     .where(
       sql`(
-        ${clientInformation.counsellorId} = ${counsellorId}
+        ${productPaymentCounsellorSql} = ${counsellorId}
         AND ${clientInformation.archived} = false
         AND ${clientProductPayments.amount} IS NOT NULL
         AND (
@@ -149,6 +254,7 @@ const calculateCounsellorRevenue = async (
             AND ${clientProductPayments.createdAt} >= ${startTimestamp}
             AND ${clientProductPayments.createdAt} <= ${endTimestamp})
         )
+        AND ${productPaymentApprovedSql}
       )`
     );
 
@@ -165,7 +271,7 @@ const calculateCounsellorRevenue = async (
     )
     .where(
       sql`(
-        ${clientInformation.counsellorId} = ${counsellorId}
+        ${productPaymentCounsellorSql} = ${counsellorId}
         AND ${clientInformation.archived} = false
         AND ${clientProductPayments.amount} IS NULL
         AND ${clientProductPayments.entityId} IS NOT NULL
@@ -178,6 +284,7 @@ const calculateCounsellorRevenue = async (
             AND ${clientProductPayments.createdAt} >= ${startTimestamp}
             AND ${clientProductPayments.createdAt} <= ${endTimestamp})
         )
+        AND ${productPaymentApprovedSql}
       )`
     );
 
@@ -200,16 +307,308 @@ const calculateCounsellorRevenue = async (
     }
   }
 
-  const clientPaymentsTotal = parseFloat(clientPaymentsResult?.total || "0");
+  // 5. Approved refunds made in this period are netted out
+  const refundsTotal = await getApprovedRefundTotal(startDateStr, endDateStr, counsellorId);
+
   const productPaymentsTotal = parseFloat(productPaymentsWithAmount?.total || "0");
-  const total = clientPaymentsTotal + productPaymentsTotal + entityAmountsTotal;
+  const total = clientPaymentsTotal + productPaymentsTotal + entityAmountsTotal - refundsTotal;
 
   return total;
 };
 
+// Helper function to count enrollments (unique clients with core payments) for a counsellor in a date range
+const countCounsellorEnrollments = async (
+  counsellorId: number,
+  startDateStr: string,
+  endDateStr: string,
+  startTimestamp: string,
+  endTimestamp: string
+): Promise<number> => {
+  const [enrollmentResult] = await db
+    .select({
+      count: sql<number>`COUNT(DISTINCT ${clientPayments.clientId})`,
+    })
+    .from(clientPayments)
+    .innerJoin(
+      clientInformation,
+      eq(clientPayments.clientId, clientInformation.clientId)
+    )
+    .where(
+      sql`(
+        ${paymentCounsellorSql} = ${counsellorId}
+        AND ${clientInformation.archived} = false
+        AND ${clientPayments.stage} IN ('INITIAL', 'BEFORE_VISA', 'AFTER_VISA')
+        AND (
+          (${clientPayments.paymentDate} IS NOT NULL
+            AND ${clientPayments.paymentDate} >= ${startDateStr}
+            AND ${clientPayments.paymentDate} <= ${endDateStr})
+          OR
+          (${clientPayments.paymentDate} IS NULL
+            AND ${clientPayments.createdAt} >= ${startTimestamp}
+            AND ${clientPayments.createdAt} <= ${endTimestamp})
+        )
+        AND ${paymentApprovedSql}
+      )`
+    ) as any;
+
+  return Number(enrollmentResult?.count || 0);
+};
+
+/* ==============================
+   TARGET PERIODS
+   Targets are keyed by an explicit period (month 1-12 or quarter 1-4 of a year)
+============================== */
+export type TargetPeriodType = "month" | "quarter";
+
+export interface TargetPeriod {
+  periodType: TargetPeriodType;
+  periodNumber: number;
+  year: number;
+}
+
+export const validateTargetPeriod = (period: TargetPeriod) => {
+  if (period.periodType !== "month" && period.periodType !== "quarter") {
+    throw new Error("Invalid periodType. Must be month or quarter");
+  }
+
+  const maxPeriod = period.periodType === "month" ? 12 : 4;
+  if (!Number.isInteger(period.periodNumber) || period.periodNumber < 1 || period.periodNumber > maxPeriod) {
+    throw new Error(
+      period.periodType === "month"
+        ? "Invalid month. Must be between 1 and 12"
+        : "Invalid quarter. Must be between 1 and 4"
+    );
+  }
+
+  if (!Number.isInteger(period.year) || period.year < 2000 || period.year > 3000) {
+    throw new Error("Invalid year");
+  }
+};
+
+// Month boundaries in the formats used by the period filters above
+export const getMonthRange = (month: number, year: number) => {
+  const startDate = new Date(year, month - 1, 1);
+  const endDate = new Date(year, month, 0, 23, 59, 59, 999);
+
+  return {
+    startDateStr: startDate.toISOString().split("T")[0],
+    endDateStr: endDate.toISOString().split("T")[0],
+    startTimestamp: startDate.toISOString(),
+    endTimestamp: endDate.toISOString(),
+  };
+};
+
+export const getTargetPeriodRange = (period: TargetPeriod) => {
+  if (period.periodType === "month") {
+    return getMonthRange(period.periodNumber, period.year);
+  }
+
+  const startDate = new Date(period.year, (period.periodNumber - 1) * 3, 1);
+  const endDate = new Date(period.year, period.periodNumber * 3, 0, 23, 59, 59, 999);
+
+  return {
+    startDateStr: startDate.toISOString().split("T")[0],
+    endDateStr: endDate.toISOString().split("T")[0],
+    startTimestamp: startDate.toISOString(),
+    endTimestamp: endDate.toISOString(),
+  };
+};
+
+const targetPeriodCondition = (period: TargetPeriod) =>
+  and(
+    eq(leaderBoard.periodType, period.periodType),
+    eq(leaderBoard.periodYear, period.year),
+    eq(leaderBoard.periodNumber, period.periodNumber)
+  );
+
+// Helper function to get the leader_board target row of a counsellor for a period
+const getCounsellorTargetRecord = async (counsellorId: number, period: TargetPeriod) => {
+  const [targetRecord] = await db
+    .select()
+    .from(leaderBoard)
+    .where(and(eq(leaderBoard.counsellor_id, counsellorId), targetPeriodCondition(period)))
+    .limit(1);
+
+  return targetRecord;
+};
+
+/**
+ * Target a month is measured against: the counsellor's quarter target when one is set, otherwise the
+ * month target. Against a quarter target, achievements are counted from the start of the quarter
+ * to the end of the month (quarter to date).
+ */
+const getEffectiveTarget = async (counsellorId: number, month: number, year: number) => {
+  const monthRange = getMonthRange(month, year);
+  const quarter: TargetPeriod = { periodType: "quarter", periodNumber: Math.ceil(month / 3), year };
+  const quarterRecord = await getCounsellorTargetRecord(counsellorId, quarter);
+
+  if (quarterRecord) {
+    const { startDateStr, startTimestamp } = getTargetPeriodRange(quarter);
+    return {
+      record: quarterRecord,
+      period: quarter,
+      range: { ...monthRange, startDateStr, startTimestamp },
+    };
+  }
+
+  const period: TargetPeriod = { periodType: "month", periodNumber: month, year };
+  return {
+    record: await getCounsellorTargetRecord(counsellorId, period),
+    period,
+    range: monthRange,
+  };
+};
+
+// Achieved = distinct clients with INITIAL/BEFORE_VISA/AFTER_VISA payment in the period
+const countPeriodEnrollments = (counsellorId: number, period: TargetPeriod) => {
+  const { startDateStr, endDateStr, startTimestamp, endTimestamp } = getTargetPeriodRange(period);
+  return countCounsellorEnrollments(counsellorId, startDateStr, endDateStr, startTimestamp, endTimestamp);
+};
+
+/* ==============================
+   GET COUNSELLOR MONTHLY STATS
+   Enrollments, revenue and target of one counsellor (used by commission statements).
+   targetEnrollments are the enrollments counted against the target (see getEffectiveTarget)
+============================== */
+export const getCounsellorMonthlyStats = async (
+  counsellorId: number,
+  month: number,
+  year: number
+) => {
+  const { startDateStr, endDateStr, startTimestamp, endTimestamp } = getMonthRange(month, year);
+
+  const enrollments = await countCounsellorEnrollments(
+    counsellorId,
+    startDateStr,
+    endDateStr,
+    startTimestamp,
+    endTimestamp
+  );
+
+  const revenue = await calculateCounsellorRevenue(
+    counsellorId,
+    startDateStr,
+    endDateStr,
+    startTimestamp,
+    endTimestamp
+  );
+
+  const effectiveTarget = await getEffectiveTarget(counsellorId, month, year);
+  const targetEnrollments = effectiveTarget.period.periodType === "month"
+    ? enrollments
+    : await countCounsellorEnrollments(
+        counsellorId,
+        effectiveTarget.range.startDateStr,
+        effectiveTarget.range.endDateStr,
+        effectiveTarget.range.startTimestamp,
+        effectiveTarget.range.endTimestamp
+      );
+
+  return {
+    enrollments,
+    revenue: parseFloat(revenue.toFixed(2)),
+    target: effectiveTarget.record?.target || 0,
+    targetEnrollments,
+    targetPeriod: effectiveTarget.period,
+  };
+};
+
+/* ==============================
+   METRIC WEIGHTS & COMPOSITE SCORE
+   Each metric's attainment (achieved / target) is weighted; metrics without a
+   target or with weight 0 are left out. Default weights rank on enrollments only.
+============================== */
+export const LEADERBOARD_METRICS = [
+  "enrollments",
+  "coreSaleRevenue",
+  "coreProductCount",
+  "otherProductRevenue",
+] as const;
+
+export type LeaderboardMetric = (typeof LEADERBOARD_METRICS)[number];
+
+const metricWeightColumns: Record<LeaderboardMetric, keyof typeof leaderboardMetricWeights.$inferSelect> = {
+  enrollments: "enrollmentWeight",
+  coreSaleRevenue: "coreSaleRevenueWeight",
+  coreProductCount: "coreProductWeight",
+  otherProductRevenue: "otherProductRevenueWeight",
+};
+
+export const getLeaderboardWeights = async () => {
+  const [weights] = await db
+    .select()
+    .from(leaderboardMetricWeights)
+    .orderBy(asc(leaderboardMetricWeights.id))
+    .limit(1);
+
+  if (weights) return weights;
+
+  const [created] = await db.insert(leaderboardMetricWeights).values({}).returning();
+  return created;
+};
+
+export const updateLeaderboardWeights = async (
+  data: Partial<Record<LeaderboardMetric, number | string>>,
+  updatedBy: number
+) => {
+  const current = await getLeaderboardWeights();
+  const updateData: Record<string, string> = {};
+
+  for (const metric of LEADERBOARD_METRICS) {
+    if (data[metric] === undefined) continue;
+
+    const weight = Number(data[metric]);
+    if (!Number.isFinite(weight) || weight < 0 || weight > 100) {
+      throw new Error(`${metric} weight must be a number between 0 and 100`);
+    }
+    updateData[metricWeightColumns[metric]] = weight.toFixed(2);
+  }
+
+  const next = { ...current, ...updateData };
+  const total = LEADERBOARD_METRICS.reduce(
+    (sum, metric) => sum + parseFloat(String(next[metricWeightColumns[metric]])),
+    0
+  );
+  if (total <= 0) {
+    throw new Error("At least one metric must have a weight above 0");
+  }
+
+  const [updated] = await db
+    .update(leaderboardMetricWeights)
+    .set({ ...updateData, updatedBy, updatedAt: new Date() })
+    .where(eq(leaderboardMetricWeights.id, current.id))
+    .returning();
+
+  return { before: current, after: updated };
+};
+
+const toAttainment = (achieved: number, target: number) =>
+  target > 0 ? parseFloat(((achieved / target) * 100).toFixed(2)) : null;
+
+const calculateCompositeScore = (
+  metrics: Record<LeaderboardMetric, { attainment: number | null }>,
+  weights: typeof leaderboardMetricWeights.$inferSelect
+) => {
+  let weightedSum = 0;
+  let weightTotal = 0;
+
+  for (const metric of LEADERBOARD_METRICS) {
+    const weight = parseFloat(String(weights[metricWeightColumns[metric]]));
+    const attainment = metrics[metric].attainment;
+    if (weight <= 0 || attainment === null) continue;
+
+    weightedSum += weight * attainment;
+    weightTotal += weight;
+  }
+
+  return weightTotal > 0 ? parseFloat((weightedSum / weightTotal).toFixed(2)) : null;
+};
+
 /* ==============================
    GET LEADERBOARD
-   Returns ranked list of counsellors with enrollments and revenue
+   Returns ranked list of counsellors with enrollments, revenue and per-metric attainment
+   (against the quarter target when one is set, see getEffectiveTarget).
+   Ranked by composite score, then enrollments, then revenue.
 ============================== */
 export const getLeaderboard = async (month: number, year: number) => {
   // Validate month and year
@@ -228,7 +627,7 @@ export const getLeaderboard = async (month: number, year: number) => {
   const startTimestamp = startDate.toISOString();
   const endTimestamp = endDate.toISOString();
 
-  // Get all counsellors
+  // Active counsellors, plus deactivated ones who were still active during the month
   const allCounsellors = await db
     .select({
       id: users.id,
@@ -237,41 +636,32 @@ export const getLeaderboard = async (month: number, year: number) => {
       empId: users.emp_id,
       managerId: users.managerId,
       designation: users.designation,
+      isActive: users.isActive,
     })
     .from(users)
-    .where(eq(users.role, "counsellor"));
+    .where(
+      and(
+        eq(users.role, "counsellor"),
+        or(eq(users.isActive, true), gte(users.deactivatedAt, startDate))
+      )
+    );
+
+  const [classification, weights] = await Promise.all([
+    getProductClassification(),
+    getLeaderboardWeights(),
+  ]);
 
   // Calculate enrollments and revenue for each counsellor
   const counsellorStats = await Promise.all(
     allCounsellors.map(async (counsellor) => {
       // Count enrollments: unique clients who have payments (INITIAL, BEFORE_VISA, AFTER_VISA) in this month/year
-      const [enrollmentResult] = await db
-        .select({
-          count: sql<number>`COUNT(DISTINCT ${clientPayments.clientId})`,
-        })
-        .from(clientPayments)
-        .innerJoin(
-          clientInformation,
-          eq(clientPayments.clientId, clientInformation.clientId)
-        )
-        .where(
-          sql`(
-            ${clientInformation.counsellorId} = ${counsellor.id}
-            AND ${clientInformation.archived} = false
-            AND ${clientPayments.stage} IN ('INITIAL', 'BEFORE_VISA', 'AFTER_VISA')
-            AND (
-              (${clientPayments.paymentDate} IS NOT NULL
-                AND ${clientPayments.paymentDate} >= ${startDateStr}
-                AND ${clientPayments.paymentDate} <= ${endDateStr})
-              OR
-              (${clientPayments.paymentDate} IS NULL
-                AND ${clientPayments.createdAt} >= ${startTimestamp}
-                AND ${clientPayments.createdAt} <= ${endTimestamp})
-            )
-          )`
-        ) as any;
-
-      const enrollments = enrollmentResult?.count || 0;
+      const enrollments = await countCounsellorEnrollments(
+        counsellor.id,
+        startDateStr,
+        endDateStr,
+        startTimestamp,
+        endTimestamp
+      );
 
       // Calculate revenue for this counsellor in this period
       const revenue = await calculateCounsellorRevenue(
@@ -282,18 +672,60 @@ export const getLeaderboard = async (month: number, year: number) => {
         endTimestamp
       );
 
-      // Get target from leaderboard table (if exists)
-      const [targetRecord] = await db
-        .select()
-        .from(leaderBoard)
-        .where(
-          and(
-            eq(leaderBoard.counsellor_id, counsellor.id),
-            sql`EXTRACT(YEAR FROM ${leaderBoard.createdAt}) = ${year}`,
-            sql`EXTRACT(MONTH FROM ${leaderBoard.createdAt}) = ${month}`
-          )
-        )
-        .limit(1);
+      // Quarter target if set, else the month target; metrics are measured over the target's range
+      const { record: targetRecord, period: targetPeriod, range } = await getEffectiveTarget(counsellor.id, month, year);
+
+      const targetEnrollments = targetPeriod.periodType === "month"
+        ? enrollments
+        : await countCounsellorEnrollments(
+            counsellor.id,
+            range.startDateStr,
+            range.endDateStr,
+            range.startTimestamp,
+            range.endTimestamp
+          );
+
+      const coreSaleRevenue = await sumCounsellorCoreSaleRevenue(
+        counsellor.id,
+        range.startDateStr,
+        range.endDateStr,
+        range.startTimestamp,
+        range.endTimestamp
+      );
+
+      const productMetrics = await calculateCounsellorProductMetrics(
+        counsellor.id,
+        range.startDateStr,
+        range.endDateStr,
+        range.startTimestamp,
+        range.endTimestamp,
+        classification
+      );
+
+      const targets = {
+        enrollments: targetRecord?.target || 0,
+        coreSaleRevenue: parseFloat(targetRecord?.coreSaleRevenueTarget || "0"),
+        coreProductCount: targetRecord?.coreProductTarget || 0,
+        otherProductRevenue: parseFloat(targetRecord?.otherProductRevenueTarget || "0"),
+      };
+
+      const achieved = {
+        enrollments: targetEnrollments,
+        coreSaleRevenue: parseFloat(coreSaleRevenue.toFixed(2)),
+        coreProductCount: productMetrics.coreProductCount,
+        otherProductRevenue: productMetrics.otherProductRevenue,
+      };
+
+      const metrics = Object.fromEntries(
+        LEADERBOARD_METRICS.map((metric) => [
+          metric,
+          {
+            target: targets[metric],
+            achieved: achieved[metric],
+            attainment: toAttainment(achieved[metric], targets[metric]),
+          },
+        ])
+      ) as Record<LeaderboardMetric, { target: number; achieved: number; attainment: number | null }>;
 
       return {
         counsellorId: counsellor.id,
@@ -302,66 +734,407 @@ export const getLeaderboard = async (month: number, year: number) => {
         empId: counsellor.empId,
         managerId: counsellor.managerId,
         designation: counsellor.designation,
+        isActive: counsellor.isActive,
         enrollments,
         revenue: parseFloat(revenue.toFixed(2)),
         target: targetRecord?.target || 0,
-        achievedTarget: enrollments, // Achieved target = enrollments
+        achievedTarget: targetEnrollments, // Achieved target = enrollments in the target period
         targetId: targetRecord?.id || null,
+        targetPeriod,
+        metrics,
+        compositeScore: calculateCompositeScore(metrics, weights),
       };
     })
   );
 
-  // Sort by enrollments (descending), then by revenue (descending)
+  // Sort by composite score (counsellors without a score last), then enrollments, then revenue (descending)
   counsellorStats.sort((a, b) => {
+    if (a.compositeScore !== b.compositeScore) {
+      if (a.compositeScore === null) return 1;
+      if (b.compositeScore === null) return -1;
+      return b.compositeScore - a.compositeScore;
+    }
+    if (b.enrollments !== a.enrollments) {
+      return b.enrollments - a.enrollments;
+    }
+    return b.revenue - a.revenue;
+  });
+
+  // Assign ranks
+  const rankedStats = counsellorStats.map((stat, index) => ({
+    ...stat,
+    rank: index + 1,
+  }));
+
+  // Persist achieved_target and rank to leader_board (so dashboard/API use stored data)
+  // Counsellors without a target row get one created so they still have rank and achieved count
+  for (const stat of rankedStats) {
+    await db
+      .insert(leaderBoard)
+      .values({
+        manager_id: stat.managerId ?? null,
+        counsellor_id: stat.counsellorId,
+        periodType: "month",
+        periodYear: year,
+        periodNumber: month,
+        target: 0,
+        achieved_target: stat.enrollments,
+        rank: stat.rank,
+        compositeScore: stat.compositeScore !== null ? stat.compositeScore.toFixed(2) : null,
+      })
+      .onConflictDoUpdate({
+        target: [
+          leaderBoard.counsellor_id,
+          leaderBoard.periodType,
+          leaderBoard.periodYear,
+          leaderBoard.periodNumber,
+        ],
+        set: {
+          achieved_target: stat.enrollments,
+          rank: stat.rank,
+          compositeScore: stat.compositeScore !== null ? stat.compositeScore.toFixed(2) : null,
+        },
+      });
+  }
+
+  return rankedStats;
+};
+
+/* ==============================
+   GET TEAM LEADERBOARD
+   Aggregates the individual leaderboard per manager (users.managerId).
+   Team attainment is computed on summed targets / achievements with the same weights,
+   ranked by composite score, then enrollments, then revenue.
+============================== */
+type LeaderboardEntry = Awaited<ReturnType<typeof getLeaderboard>>[number];
+
+const aggregateTeam = (
+  members: LeaderboardEntry[],
+  weights: typeof leaderboardMetricWeights.$inferSelect
+) => {
+  const metrics = Object.fromEntries(
+    LEADERBOARD_METRICS.map((metric) => {
+      const target = members.reduce((sum, member) => sum + member.metrics[metric].target, 0);
+      const achieved = members.reduce((sum, member) => sum + member.metrics[metric].achieved, 0);
+
+      return [
+        metric,
+        {
+          target: parseFloat(target.toFixed(2)),
+          achieved: parseFloat(achieved.toFixed(2)),
+          attainment: toAttainment(achieved, target),
+        },
+      ];
+    })
+  ) as Record<LeaderboardMetric, { target: number; achieved: number; attainment: number | null }>;
+
+  return {
+    memberCount: members.length,
+    enrollments: members.reduce((sum, member) => sum + member.enrollments, 0),
+    revenue: parseFloat(members.reduce((sum, member) => sum + member.revenue, 0).toFixed(2)),
+    target: members.reduce((sum, member) => sum + member.target, 0),
+    metrics,
+    compositeScore: calculateCompositeScore(metrics, weights),
+  };
+};
+
+export const getTeamLeaderboard = async (month: number, year: number) => {
+  const [leaderboard, weights, managers] = await Promise.all([
+    getLeaderboard(month, year),
+    getLeaderboardWeights(),
+    db
+      .select({ id: users.id, fullName: users.fullName, email: users.email, isActive: users.isActive })
+      .from(users)
+      .where(eq(users.role, "manager")),
+  ]);
+
+  // Every active manager gets a row, even without counsellors; counsellors without a manager form their own group
+  const teams = new Map<number | null, LeaderboardEntry[]>(managers.map((manager) => [manager.id, []]));
+  leaderboard.forEach((entry) => {
+    const key = entry.managerId ?? null;
+    teams.set(key, [...(teams.get(key) ?? []), entry]);
+  });
+
+  const managerById = new Map(managers.map((manager) => [manager.id, manager]));
+
+  const teamStats = [...teams.entries()]
+    .filter(([managerId, members]) =>
+      members.length > 0 || (managerId !== null && managerById.get(managerId)?.isActive === true)
+    )
+    .map(([managerId, members]) => ({
+      managerId,
+      managerName: managerId !== null ? managerById.get(managerId)?.fullName ?? null : "Unassigned",
+      managerEmail: managerId !== null ? managerById.get(managerId)?.email ?? null : null,
+      managerIsActive: managerId !== null ? managerById.get(managerId)?.isActive ?? null : null,
+      ...aggregateTeam(members, weights),
+    }));
+
+  teamStats.sort((a, b) => {
+    if (a.compositeScore !== b.compositeScore) {
+      if (a.compositeScore === null) return 1;
+      if (b.compositeScore === null) return -1;
+      return b.compositeScore - a.compositeScore;
+    }
     if (b.enrollments !== a.enrollments) {
       return b.enrollments - a.enrollments;
     }
     return b.revenue - a.revenue;
   });
 
-  // Assign ranks
-  const rankedStats = counsellorStats.map((stat, index) => ({
-    ...stat,
-    rank: index + 1,
-  }));
+  return teamStats.map((team, index) => ({
+    ...team,
+    rank: index + 1,
+  }));
+};
+
+/* ==============================
+   GET TEAM MEMBERS (DRILL-DOWN)
+   Individual leaderboard limited to one manager's team.
+   `rank` stays the global rank, `teamRank` is the position within the team.
+============================== */
+export const getTeamLeaderboardMembers = async (
+  managerId: number | null,
+  month: number,
+  year: number
+) => {
+  if (managerId !== null) {
+    const [manager] = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(and(eq(users.id, managerId), eq(users.role, "manager")))
+      .limit(1);
+
+    if (!manager) {
+      throw new Error("Manager not found");
+    }
+  }
+
+  const [leaderboard, weights] = await Promise.all([
+    getLeaderboard(month, year),
+    getLeaderboardWeights(),
+  ]);
+
+  const members = leaderboard
+    .filter((entry) => (entry.managerId ?? null) === managerId)
+    .map((entry, index) => ({ ...entry, teamRank: index + 1 }));
+
+  return {
+    managerId,
+    ...aggregateTeam(members, weights),
+    members,
+  };
+};
+
+/* ==============================
+   LEADERBOARD SNAPSHOTS
+   Freezes the leaderboard of a closed month (rank, revenue, enrollments, target).
+   Existing snapshots are kept unless `overwrite` is set, so a re-run never moves history.
+============================== */
+const toPeriodIndex = (month: number, year: number) => year * 12 + (month - 1);
+
+const fromPeriodIndex = (periodIndex: number) => ({
+  month: (periodIndex % 12) + 1,
+  year: Math.floor(periodIndex / 12),
+});
+
+// The most recent month that has fully ended
+export const getLastClosedMonth = (now: Date = new Date()) =>
+  fromPeriodIndex(toPeriodIndex(now.getMonth() + 1, now.getFullYear()) - 1);
+
+export const snapshotLeaderboard = async (
+  month: number,
+  year: number,
+  overwrite: boolean = false
+) => {
+  if (month < 1 || month > 12) {
+    throw new Error("Invalid month. Must be between 1 and 12");
+  }
+  if (year < 2000 || year > 3000) {
+    throw new Error("Invalid year");
+  }
+
+  const { endTimestamp } = getMonthRange(month, year);
+  if (new Date(endTimestamp).getTime() >= Date.now()) {
+    throw new Error("Only closed months can be snapshotted");
+  }
+
+  if (!overwrite) {
+    const [existing] = await db
+      .select({ total: count() })
+      .from(leaderboardSnapshots)
+      .where(
+        and(
+          eq(leaderboardSnapshots.periodYear, year),
+          eq(leaderboardSnapshots.periodMonth, month)
+        )
+      );
+
+    if (Number(existing?.total || 0) > 0) {
+      return { month, year, created: false, count: Number(existing.total) };
+    }
+  }
+
+  const leaderboard = await getLeaderboard(month, year);
+
+  await db.transaction(async (tx) => {
+    if (overwrite) {
+      await tx
+        .delete(leaderboardSnapshots)
+        .where(
+          and(
+            eq(leaderboardSnapshots.periodYear, year),
+            eq(leaderboardSnapshots.periodMonth, month)
+          )
+        );
+    }
+
+    if (leaderboard.length > 0) {
+      await tx.insert(leaderboardSnapshots).values(
+        leaderboard.map((entry) => ({
+          counsellorId: entry.counsellorId,
+          managerId: entry.managerId ?? null,
+          periodYear: year,
+          periodMonth: month,
+          rank: entry.rank,
+          totalCounsellors: leaderboard.length,
+          enrollments: entry.enrollments,
+          revenue: entry.revenue.toFixed(2),
+          target: entry.target,
+          compositeScore: entry.compositeScore !== null ? entry.compositeScore.toFixed(2) : null,
+        }))
+      );
+    }
+  });
+
+  return { month, year, created: true, count: leaderboard.length };
+};
+
+/* ==============================
+   GET LEADERBOARD SNAPSHOT
+   Frozen leaderboard of one month, ordered by rank
+============================== */
+export const getLeaderboardSnapshot = async (month: number, year: number) => {
+  return db
+    .select({
+      snapshotId: leaderboardSnapshots.snapshotId,
+      counsellorId: leaderboardSnapshots.counsellorId,
+      fullName: users.fullName,
+      empId: users.emp_id,
+      isActive: users.isActive,
+      managerId: leaderboardSnapshots.managerId,
+      rank: leaderboardSnapshots.rank,
+      totalCounsellors: leaderboardSnapshots.totalCounsellors,
+      enrollments: leaderboardSnapshots.enrollments,
+      revenue: leaderboardSnapshots.revenue,
+      target: leaderboardSnapshots.target,
+      compositeScore: leaderboardSnapshots.compositeScore,
+      createdAt: leaderboardSnapshots.createdAt,
+    })
+    .from(leaderboardSnapshots)
+    .innerJoin(users, eq(leaderboardSnapshots.counsellorId, users.id))
+    .where(
+      and(
+        eq(leaderboardSnapshots.periodYear, year),
+        eq(leaderboardSnapshots.periodMonth, month)
+      )
+    )
+    .orderBy(asc(leaderboardSnapshots.rank));
+};
+
+/* ==============================
+   GET COUNSELLOR RANK HISTORY
+   Snapshots of the last N closed months (oldest first) with month-over-month changes.
+   rankChange > 0 means the counsellor moved up. Months without a snapshot are null.
+============================== */
+export const getCounsellorRankHistory = async (
+  counsellorId: number,
+  periods: number = 6
+) => {
+  if (!Number.isInteger(periods) || periods < 1 || periods > 36) {
+    throw new Error("Periods must be between 1 and 36");
+  }
+
+  const [counsellor] = await db
+    .select({ id: users.id, fullName: users.fullName, empId: users.emp_id })
+    .from(users)
+    .where(and(eq(users.id, counsellorId), eq(users.role, "counsellor")))
+    .limit(1);
+
+  if (!counsellor) {
+    throw new Error("Counsellor not found");
+  }
 
-  // Persist achieved_target and rank to leader_board (so dashboard/API use stored data)
-  // Counsellors without a target row get one created so they still have rank and achieved count
-  const monthStartForDb = new Date(year, month - 1, 1);
-  for (const stat of rankedStats) {
-    const [existing] = await db
-      .select()
-      .from(leaderBoard)
-      .where(
-        and(
-          eq(leaderBoard.counsellor_id, stat.counsellorId),
-          sql`EXTRACT(YEAR FROM ${leaderBoard.createdAt}) = ${year}`,
-          sql`EXTRACT(MONTH FROM ${leaderBoard.createdAt}) = ${month}`
-        )
+  const last = getLastClosedMonth();
+  const lastIndex = toPeriodIndex(last.month, last.year);
+  const firstIndex = lastIndex - periods + 1;
+
+  const snapshots = await db
+    .select()
+    .from(leaderboardSnapshots)
+    .where(
+      and(
+        eq(leaderboardSnapshots.counsellorId, counsellorId),
+        sql`${leaderboardSnapshots.periodYear} * 12 + ${leaderboardSnapshots.periodMonth} - 1 BETWEEN ${firstIndex} AND ${lastIndex}`
       )
-      .limit(1);
+    );
 
-    if (existing) {
-      await db
-        .update(leaderBoard)
-        .set({
-          achieved_target: stat.enrollments,
-          rank: stat.rank,
-        })
-        .where(eq(leaderBoard.id, existing.id));
-    } else {
-      await db.insert(leaderBoard).values({
-        manager_id: stat.managerId ?? null,
-        counsellor_id: stat.counsellorId,
-        target: 0,
-        achieved_target: stat.enrollments,
-        rank: stat.rank,
-        createdAt: monthStartForDb,
-      });
-    }
+  const byPeriod = new Map(
+    snapshots.map((row) => [toPeriodIndex(row.periodMonth, row.periodYear), row])
+  );
+
+  let previous: (typeof snapshots)[number] | null = null;
+  const history = [];
+
+  for (let periodIndex = firstIndex; periodIndex <= lastIndex; periodIndex++) {
+    const { month, year } = fromPeriodIndex(periodIndex);
+    const row = byPeriod.get(periodIndex) || null;
+    const revenue = row ? parseFloat(row.revenue) : null;
+
+    history.push({
+      month,
+      year,
+      rank: row?.rank ?? null,
+      totalCounsellors: row?.totalCounsellors ?? null,
+      enrollments: row?.enrollments ?? null,
+      revenue,
+      target: row?.target ?? null,
+      compositeScore: row?.compositeScore != null ? parseFloat(row.compositeScore) : null,
+      rankChange: row && previous ? previous.rank - row.rank : null,
+      enrollmentChange: row && previous ? row.enrollments - previous.enrollments : null,
+      revenueChange:
+        row && previous
+          ? parseFloat((parseFloat(row.revenue) - parseFloat(previous.revenue)).toFixed(2))
+          : null,
+    });
+
+    previous = row;
   }
 
-  return rankedStats;
+  const ranked = history.filter((entry) => entry.rank !== null) as Array<
+    (typeof history)[number] & { rank: number }
+  >;
+  const overallChange =
+    ranked.length > 1 ? ranked[0].rank - ranked[ranked.length - 1].rank : 0;
+
+  return {
+    counsellorId: counsellor.id,
+    fullName: counsellor.fullName,
+    empId: counsellor.empId,
+    periods,
+    history,
+    trend: {
+      periodsWithData: ranked.length,
+      bestRank: ranked.length ? Math.min(...ranked.map((entry) => entry.rank)) : null,
+      worstRank: ranked.length ? Math.max(...ranked.map((entry) => entry.rank)) : null,
+      averageRank: ranked.length
+        ? parseFloat(
+            (ranked.reduce((sum, entry) => sum + entry.rank, 0) / ranked.length).toFixed(2)
+          )
+        : null,
+      rankChange: overallChange,
+      direction: overallChange > 0 ? "up" : overallChange < 0 ? "down" : "flat",
+    },
+  };
 };
 
 /* ==============================
@@ -418,6 +1191,7 @@ export const getLeaderboardSummary = async (month: number, year: number) => {
             AND ${clientPayments.createdAt} >= ${startTimestamp}
             AND ${clientPayments.createdAt} <= ${endTimestamp})
         )
+        AND ${paymentApprovedSql}
       )`
     ) as any;
 
@@ -442,6 +1216,7 @@ export const getLeaderboardSummary = async (month: number, year: number) => {
             AND ${clientPayments.createdAt} >= ${startTimestamp}
             AND ${clientPayments.createdAt} <= ${endTimestamp})
         )
+        AND ${paymentApprovedSql}
       )`
     );
 
@@ -463,6 +1238,7 @@ export const getLeaderboardSummary = async (month: number, year: number) => {
             AND ${clientProductPayments.createdAt} >= ${startTimestamp}
             AND ${clientProductPayments.createdAt} <= ${endTimestamp})
         )
+        AND ${productPaymentApprovedSql}
       )`
     );
 
@@ -486,6 +1262,7 @@ export const getLeaderboardSummary = async (month: number, year: number) => {
             AND ${clientProductPayments.createdAt} >= ${startTimestamp}
             AND ${clientProductPayments.createdAt} <= ${endTimestamp})
         )
+        AND ${productPaymentApprovedSql}
       )`
     );
 
@@ -508,40 +1285,79 @@ export const getLeaderboardSummary = async (month: number, year: number) => {
     }
   }
 
+  // 5. Approved refunds made in this month are netted out
+  const totalRefunds = await getApprovedRefundTotal(startDateStr, endDateStr);
+
   const clientPaymentsTotal = parseFloat(clientPaymentsResult?.total || "0");
   const productPaymentsTotal = parseFloat(productPaymentsWithAmount?.total || "0");
-  const totalRevenue = clientPaymentsTotal + productPaymentsTotal + entityAmountsTotal;
+  const totalRevenue = clientPaymentsTotal + productPaymentsTotal + entityAmountsTotal - totalRefunds;
 
   return {
     totalCounsellors,
     totalEnrollments,
     totalRevenue: parseFloat(totalRevenue.toFixed(2)),
+    totalRefunds: parseFloat(totalRefunds.toFixed(2)),
+  };
+};
+
+export interface MetricTargetsInput {
+  coreSaleRevenueTarget?: number | string;
+  coreProductTarget?: number | string;
+  otherProductRevenueTarget?: number | string;
+}
+
+// Only the metric targets that were sent, in column format
+const normalizeMetricTargets = (input: MetricTargetsInput = {}) => {
+  const values: Partial<Pick<
+    typeof leaderBoard.$inferInsert,
+    "coreSaleRevenueTarget" | "coreProductTarget" | "otherProductRevenueTarget"
+  >> = {};
+
+  const readNumber = (value: unknown, field: string, integer = false) => {
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed < 0 || (integer && !Number.isInteger(parsed))) {
+      throw new Error(`${field} must be a non-negative ${integer ? "whole number" : "number"}`);
+    }
+    return parsed;
   };
+
+  if (input.coreSaleRevenueTarget !== undefined) {
+    values.coreSaleRevenueTarget = readNumber(input.coreSaleRevenueTarget, "coreSaleRevenueTarget").toFixed(2);
+  }
+  if (input.coreProductTarget !== undefined) {
+    values.coreProductTarget = readNumber(input.coreProductTarget, "coreProductTarget", true);
+  }
+  if (input.otherProductRevenueTarget !== undefined) {
+    values.otherProductRevenueTarget = readNumber(input.otherProductRevenueTarget, "otherProductRevenueTarget").toFixed(2);
+  }
+
+  return values;
 };
 
+const hasPositiveMetricTarget = (values: ReturnType<typeof normalizeMetricTargets>) =>
+  parseFloat(values.coreSaleRevenueTarget ?? "0") > 0 ||
+  (values.coreProductTarget ?? 0) > 0 ||
+  parseFloat(values.otherProductRevenueTarget ?? "0") > 0;
+
 /* ==============================
    SET TARGET FOR COUNSELLOR
-   Creates or updates target for a counsellor
+   Creates or updates target for a counsellor and period
 ============================== */
 export const setTarget = async (
   counsellorId: number,
   managerId: number,
   target: number,
-  month: number,
-  year: number
+  period: TargetPeriod,
+  metricTargetsInput?: MetricTargetsInput
 ) => {
-  // Validate inputs
-  if (!counsellorId || !managerId || !target || target < 0) {
-    throw new Error("Invalid input parameters");
-  }
+  const metricTargets = normalizeMetricTargets(metricTargetsInput);
 
-  if (month < 1 || month > 12) {
-    throw new Error("Invalid month. Must be between 1 and 12");
+  // Validate inputs (enrollment target may be 0 when another metric has a target)
+  if (!counsellorId || !managerId || target < 0 || (!target && !hasPositiveMetricTarget(metricTargets))) {
+    throw new Error("Invalid input parameters");
   }
 
-  if (year < 2000 || year > 3000) {
-    throw new Error("Invalid year");
-  }
+  validateTargetPeriod(period);
 
   // Verify counsellor exists and has correct role
   // First check if user exists
@@ -560,13 +1376,6 @@ export const setTarget = async (
     throw new Error(`User with ID ${counsellorId} is not a counsellor (current role: ${user.role})`);
   }
 
-  // Get full counsellor data
-  const [counsellor] = await db
-    .select()
-    .from(users)
-    .where(and(eq(users.id, counsellorId), eq(users.role, "counsellor")))
-    .limit(1);
-
   // Verify manager exists
   const [manager] = await db
     .select()
@@ -578,103 +1387,227 @@ export const setTarget = async (
     throw new Error("Manager not found");
   }
 
-  // Check if target already exists for this counsellor, month, and year
-  const startDate = new Date(year, month - 1, 1);
-  const endDate = new Date(year, month, 0, 23, 59, 59, 999);
-  const startDateStr = startDate.toISOString().split("T")[0];
-  const endDateStr = endDate.toISOString().split("T")[0];
-  const startTimestamp = startDate.toISOString();
-  const endTimestamp = endDate.toISOString();
-
-  const [existingTarget] = await db
-    .select()
-    .from(leaderBoard)
-    .where(
-      and(
-        eq(leaderBoard.counsellor_id, counsellorId),
-        sql`EXTRACT(YEAR FROM ${leaderBoard.createdAt}) = ${year}`,
-        sql`EXTRACT(MONTH FROM ${leaderBoard.createdAt}) = ${month}`
-      )
-    )
-    .limit(1);
-
-  // Achieved = distinct clients with INITIAL/BEFORE_VISA/AFTER_VISA payment in this month (not enrollment date)
-  const [enrollmentResult] = await db
-    .select({
-      count: sql<number>`COUNT(DISTINCT ${clientPayments.clientId})`,
-    })
-    .from(clientPayments)
-    .innerJoin(
-      clientInformation,
-      eq(clientPayments.clientId, clientInformation.clientId)
-    )
-    .where(
-      sql`(
-        ${clientInformation.counsellorId} = ${counsellorId}
-        AND ${clientInformation.archived} = false
-        AND ${clientPayments.stage} IN ('INITIAL', 'BEFORE_VISA', 'AFTER_VISA')
-        AND (
-          (${clientPayments.paymentDate} IS NOT NULL
-            AND ${clientPayments.paymentDate} >= ${startDateStr}
-            AND ${clientPayments.paymentDate} <= ${endDateStr})
-          OR
-          (${clientPayments.paymentDate} IS NULL
-            AND ${clientPayments.createdAt} >= ${startTimestamp}
-            AND ${clientPayments.createdAt} <= ${endTimestamp})
-        )
-      )`
-    ) as any;
-
-  const achievedTarget = enrollmentResult?.count || 0;
+  const existingTarget = await getCounsellorTargetRecord(counsellorId, period);
+  const achievedTarget = await countPeriodEnrollments(counsellorId, period);
 
   // Calculate rank (will be updated when leaderboard is fetched)
   // For now, set a temporary rank
   const tempRank = 0;
 
-  if (existingTarget) {
-    // Update existing target
-    const [updated] = await db
-      .update(leaderBoard)
-      .set({
+  const [saved] = await db
+    .insert(leaderBoard)
+    .values({
+      manager_id: managerId,
+      counsellor_id: counsellorId,
+      periodType: period.periodType,
+      periodYear: period.year,
+      periodNumber: period.periodNumber,
+      target: target,
+      ...metricTargets,
+      achieved_target: achievedTarget,
+      rank: tempRank,
+    })
+    .onConflictDoUpdate({
+      target: [
+        leaderBoard.counsellor_id,
+        leaderBoard.periodType,
+        leaderBoard.periodYear,
+        leaderBoard.periodNumber,
+      ],
+      set: {
         manager_id: managerId,
         target: target,
+        ...metricTargets,
         achieved_target: achievedTarget,
-        rank: tempRank,
-      })
-      .where(eq(leaderBoard.id, existingTarget.id))
-      .returning();
+        updatedAt: new Date(),
+      },
+    })
+    .returning();
 
-    return {
-      action: "UPDATED",
-      target: updated,
-    };
+  return {
+    action: existingTarget ? "UPDATED" : "CREATED",
+    target: saved,
+  };
+};
+
+/* ==============================
+   SET TEAM TARGETS (BULK)
+   Sets targets for many counsellors and periods (past or future) in one transaction.
+   Either one `target` for every counsellor of the team, or per-counsellor `targets`.
+============================== */
+export interface BulkTargetInput {
+  periodType?: TargetPeriodType;
+  periods: { period: number; year: number }[];
+  managerId: number;
+  target?: number;
+  metricTargets?: MetricTargetsInput;
+  targets?: ({ counsellorId: number; target: number } & MetricTargetsInput)[];
+}
+
+export const setTeamTargets = async (input: BulkTargetInput) => {
+  const periodType = input.periodType ?? "month";
+
+  if (!Array.isArray(input.periods) || input.periods.length === 0) {
+    throw new Error("periods must be a non-empty array of { period, year }");
+  }
+
+  const periods: TargetPeriod[] = input.periods.map((item) => ({
+    periodType,
+    periodNumber: Number(item?.period),
+    year: Number(item?.year),
+  }));
+  periods.forEach(validateTargetPeriod);
+
+  const [manager] = await db
+    .select({ id: users.id })
+    .from(users)
+    .where(and(eq(users.id, input.managerId), eq(users.role, "manager")))
+    .limit(1);
+
+  if (!manager) {
+    throw new Error("Manager not found");
+  }
+
+  const team = await db
+    .select({ id: users.id })
+    .from(users)
+    .where(and(eq(users.role, "counsellor"), eq(users.managerId, input.managerId)));
+
+  const teamIds = new Set(team.map((member) => member.id));
+
+  let targets: { counsellorId: number; target: number; metricTargets: ReturnType<typeof normalizeMetricTargets> }[];
+
+  if (Array.isArray(input.targets) && input.targets.length > 0) {
+    targets = input.targets.map((item) => ({
+      counsellorId: Number(item?.counsellorId),
+      target: Number(item?.target ?? 0),
+      metricTargets: normalizeMetricTargets(item),
+    }));
+
+    const outsideTeam = targets.filter((item) => !teamIds.has(item.counsellorId));
+    if (outsideTeam.length > 0) {
+      throw new Error(
+        `Counsellor(s) not in this manager's team: ${outsideTeam.map((item) => item.counsellorId).join(", ")}`
+      );
+    }
+  } else if (input.target !== undefined || input.metricTargets) {
+    const metricTargets = normalizeMetricTargets(input.metricTargets);
+    targets = team.map((member) => ({
+      counsellorId: member.id,
+      target: Number(input.target ?? 0),
+      metricTargets,
+    }));
   } else {
-    // Create new target (set createdAt to 1st of month so EXTRACT(month/year) finds it)
-    const [created] = await db
-      .insert(leaderBoard)
-      .values({
-        manager_id: managerId,
-        counsellor_id: counsellorId,
-        target: target,
-        achieved_target: achievedTarget,
-        rank: tempRank,
-        createdAt: new Date(year, month - 1, 1),
-      })
-      .returning();
+    throw new Error("Either target, metricTargets or targets is required");
+  }
 
-    return {
-      action: "CREATED",
-      target: created,
-    };
+  const invalid = targets.filter((item) => !Number.isInteger(item.target) || item.target < 0);
+  if (invalid.length > 0) {
+    throw new Error("Targets must be non-negative whole numbers");
+  }
+
+  if (targets.length === 0) {
+    throw new Error("No counsellors in this manager's team");
+  }
+
+  // Achieved counts are computed up front; future periods simply have 0
+  const rows: Array<typeof leaderBoard.$inferInsert> = [];
+  for (const period of periods) {
+    for (const item of targets) {
+      rows.push({
+        manager_id: input.managerId,
+        counsellor_id: item.counsellorId,
+        periodType: period.periodType,
+        periodYear: period.year,
+        periodNumber: period.periodNumber,
+        target: item.target,
+        ...item.metricTargets,
+        achieved_target: await countPeriodEnrollments(item.counsellorId, period),
+        rank: 0,
+      });
+    }
+  }
+
+  return db.transaction(async (tx) => {
+    const saved = [];
+
+    for (const row of rows) {
+      const [result] = await tx
+        .insert(leaderBoard)
+        .values(row)
+        .onConflictDoUpdate({
+          target: [
+            leaderBoard.counsellor_id,
+            leaderBoard.periodType,
+            leaderBoard.periodYear,
+            leaderBoard.periodNumber,
+          ],
+          set: {
+            manager_id: row.manager_id,
+            target: row.target,
+            coreSaleRevenueTarget: row.coreSaleRevenueTarget,
+            coreProductTarget: row.coreProductTarget,
+            otherProductRevenueTarget: row.otherProductRevenueTarget,
+            achieved_target: row.achieved_target,
+            updatedAt: new Date(),
+          },
+        })
+        .returning();
+
+      saved.push(result);
+    }
+
+    return saved;
+  });
+};
+
+/* ==============================
+   GET TARGETS
+   Targets of a period, optionally limited to one manager's team
+============================== */
+export const getTargets = async (period: TargetPeriod, managerId?: number) => {
+  validateTargetPeriod(period);
+
+  const conditions = [targetPeriodCondition(period)];
+  if (managerId) {
+    conditions.push(eq(users.managerId, managerId));
   }
+
+  return db
+    .select({
+      id: leaderBoard.id,
+      counsellorId: leaderBoard.counsellor_id,
+      fullName: users.fullName,
+      managerId: leaderBoard.manager_id,
+      periodType: leaderBoard.periodType,
+      periodYear: leaderBoard.periodYear,
+      periodNumber: leaderBoard.periodNumber,
+      target: leaderBoard.target,
+      coreSaleRevenueTarget: leaderBoard.coreSaleRevenueTarget,
+      coreProductTarget: leaderBoard.coreProductTarget,
+      otherProductRevenueTarget: leaderBoard.otherProductRevenueTarget,
+      achievedTarget: leaderBoard.achieved_target,
+      rank: leaderBoard.rank,
+      compositeScore: leaderBoard.compositeScore,
+    })
+    .from(leaderBoard)
+    .innerJoin(users, eq(leaderBoard.counsellor_id, users.id))
+    .where(and(...conditions))
+    .orderBy(users.fullName);
 };
 
 /* ==============================
    UPDATE TARGET
    Updates an existing target
 ============================== */
-export const updateTarget = async (targetId: number, target: number) => {
-  if (!targetId || !target || target < 0) {
+export const updateTarget = async (
+  targetId: number,
+  target: number,
+  metricTargetsInput?: MetricTargetsInput
+) => {
+  const metricTargets = normalizeMetricTargets(metricTargetsInput);
+
+  if (!targetId || target < 0) {
     throw new Error("Invalid input parameters");
   }
 
@@ -689,56 +1622,26 @@ export const updateTarget = async (targetId: number, target: number) => {
     throw new Error("Target not found");
   }
 
-  // Get month and year from createdAt
-  const createdAt = existingTarget.createdAt;
-  if (!createdAt) {
-    throw new Error("Target createdAt is null");
+  // Enrollment target may be 0 when another metric keeps a target
+  if (!target && !hasPositiveMetricTarget({ ...existingTarget, ...metricTargets })) {
+    throw new Error("Invalid input parameters");
   }
-  const month = createdAt.getMonth() + 1;
-  const year = createdAt.getFullYear();
-
-  // Recalculate achieved target (distinct clients with INITIAL/BEFORE_VISA/AFTER_VISA in month)
-  const startDate = new Date(year, month - 1, 1);
-  const endDate = new Date(year, month, 0, 23, 59, 59, 999);
-  const startDateStr = startDate.toISOString().split("T")[0];
-  const endDateStr = endDate.toISOString().split("T")[0];
-  const startTimestamp = startDate.toISOString();
-  const endTimestamp = endDate.toISOString();
-
-  const [enrollmentResult] = await db
-    .select({
-      count: sql<number>`COUNT(DISTINCT ${clientPayments.clientId})`,
-    })
-    .from(clientPayments)
-    .innerJoin(
-      clientInformation,
-      eq(clientPayments.clientId, clientInformation.clientId)
-    )
-    .where(
-      sql`(
-        ${clientInformation.counsellorId} = ${existingTarget.counsellor_id}
-        AND ${clientInformation.archived} = false
-        AND ${clientPayments.stage} IN ('INITIAL', 'BEFORE_VISA', 'AFTER_VISA')
-        AND (
-          (${clientPayments.paymentDate} IS NOT NULL
-            AND ${clientPayments.paymentDate} >= ${startDateStr}
-            AND ${clientPayments.paymentDate} <= ${endDateStr})
-          OR
-          (${clientPayments.paymentDate} IS NULL
-            AND ${clientPayments.createdAt} >= ${startTimestamp}
-            AND ${clientPayments.createdAt} <= ${endTimestamp})
-        )
-      )`
-    ) as any;
 
-  const achievedTarget = enrollmentResult?.count || 0;
+  // Recalculate achieved target for the target's own period
+  const achievedTarget = await countPeriodEnrollments(existingTarget.counsellor_id, {
+    periodType: existingTarget.periodType,
+    periodNumber: existingTarget.periodNumber,
+    year: existingTarget.periodYear,
+  });
 
   // Update target
   const [updated] = await db
     .update(leaderBoard)
     .set({
       target: target,
+      ...metricTargets,
       achieved_target: achievedTarget,
+      updatedAt: new Date(),
     })
     .where(eq(leaderBoard.id, targetId))
     .returning();
@@ -788,55 +1691,17 @@ export const getMonthlyEnrollmentGoal = async (
     throw new Error("User is not a counsellor");
   }
 
-  // Calculate date range for the month
-  const startDate = new Date(targetYear, targetMonth - 1, 1);
-  const endDate = new Date(targetYear, targetMonth, 0, 23, 59, 59, 999);
-  const startDateStr = startDate.toISOString().split("T")[0];
-  const endDateStr = endDate.toISOString().split("T")[0];
-  const startTimestamp = startDate.toISOString();
-  const endTimestamp = endDate.toISOString();
-
-  // Count enrollments (achieved) for this month/year: unique clients who have payments (INITIAL, BEFORE_VISA, AFTER_VISA)
-  const [enrollmentResult] = await db
-    .select({
-      count: sql<number>`COUNT(DISTINCT ${clientPayments.clientId})`,
-    })
-    .from(clientPayments)
-    .innerJoin(
-      clientInformation,
-      eq(clientPayments.clientId, clientInformation.clientId)
-    )
-    .where(
-      sql`(
-        ${clientInformation.counsellorId} = ${counsellorId}
-        AND ${clientInformation.archived} = false
-        AND ${clientPayments.stage} IN ('INITIAL', 'BEFORE_VISA', 'AFTER_VISA')
-        AND (
-          (${clientPayments.paymentDate} IS NOT NULL
-            AND ${clientPayments.paymentDate} >= ${startDateStr}
-            AND ${clientPayments.paymentDate} <= ${endDateStr})
-          OR
-          (${clientPayments.paymentDate} IS NULL
-            AND ${clientPayments.createdAt} >= ${startTimestamp}
-            AND ${clientPayments.createdAt} <= ${endTimestamp})
-        )
-      )`
-    ) as any;
-
-  const achieved = enrollmentResult?.count || 0;
+  // Quarter target if set (enrollments counted quarter to date), else the month target
+  const { record: targetRecord, period, range } = await getEffectiveTarget(counsellorId, targetMonth, targetYear);
 
-  // Get target from leaderboard table (if exists)
-  const [targetRecord] = await db
-    .select()
-    .from(leaderBoard)
-    .where(
-      and(
-        eq(leaderBoard.counsellor_id, counsellorId),
-        sql`EXTRACT(YEAR FROM ${leaderBoard.createdAt}) = ${targetYear}`,
-        sql`EXTRACT(MONTH FROM ${leaderBoard.createdAt}) = ${targetMonth}`
-      )
-    )
-    .limit(1);
+  // Count enrollments (achieved): unique clients who have payments (INITIAL, BEFORE_VISA, AFTER_VISA)
+  const achieved = await countCounsellorEnrollments(
+    counsellorId,
+    range.startDateStr,
+    range.endDateStr,
+    range.startTimestamp,
+    range.endTimestamp
+  );
 
   const target = targetRecord?.target || 0;
   const remaining = Math.max(0, target - achieved);
@@ -851,5 +1716,6 @@ export const getMonthlyEnrollmentGoal = async (
     percentageCompleted,
     month: targetMonth,
     year: targetYear,
+    targetPeriod: period,
   };
 };
\ No newline at end of file
@@ -0,0 +1,271 @@
+import crypto from "crypto";
+import { db } from "../config/databaseConnection";
+import { paymentDocuments } from "../schemas/paymentDocument.schema";
+import { clientPayments } from "../schemas/clientPayment.schema";
+import { clientProductPayments } from "../schemas/clientProductPayments.schema";
+import { clientInformation } from "../schemas/clientInformation.schema";
+import { saleTypes } from "../schemas/saleType.schema";
+import { users } from "../schemas/users.schema";
+import { eq, and, desc } from "drizzle-orm";
+import { getProductPaymentsByClientId } from "./clientProductPayments.model";
+import { renderInvoicePdf, InvoicePdfData } from "../services/invoicePdf.service";
+
+/* ==============================
+   TYPES
+============================== */
+export type PaymentDocumentSource = "client_payment" | "product_payment";
+
+export interface InvoiceDocument {
+  documentId: number;
+  fileName: string;
+  mimeType: string;
+  content: Buffer;
+  clientId: number;
+  invoiceNo: string | null;
+  version: number;
+  generated: boolean; // true when a new version was rendered on this request
+}
+
+const hashInvoiceData = (data: InvoicePdfData) =>
+  crypto.createHash("sha256").update(JSON.stringify(data)).digest("hex");
+
+const toFileName = (prefix: string, invoiceNo: string | null, sourceId: number, version: number) =>
+  `${prefix}-${(invoiceNo || String(sourceId)).replace(/[^A-Za-z0-9_-]+/g, "-")}${version > 1 ? `-v${version}` : ""}.pdf`;
+
+const toInvoiceDocument = (
+  document: typeof paymentDocuments.$inferSelect,
+  generated: boolean
+): InvoiceDocument => ({
+  documentId: document.documentId,
+  fileName: document.fileName,
+  mimeType: document.mimeType,
+  content: document.content,
+  clientId: document.clientId,
+  invoiceNo: document.invoiceNo,
+  version: document.version,
+  generated,
+});
+
+const toDateString = (value: string | Date | null | undefined): string | null => {
+  if (!value) return null;
+  if (value instanceof Date) return value.toISOString().split("T")[0];
+  return String(value).split("T")[0];
+};
+
+const getClientForInvoice = async (clientId: number) => {
+  const [client] = await db
+    .select({
+      id: clientInformation.clientId,
+      fullName: clientInformation.fullName,
+      passportDetails: clientInformation.passportDetails,
+      enrollmentDate: clientInformation.enrollmentDate,
+      counsellorId: clientInformation.counsellorId,
+      counsellorName: users.fullName,
+    })
+    .from(clientInformation)
+    .leftJoin(users, eq(clientInformation.counsellorId, users.id))
+    .where(eq(clientInformation.clientId, clientId))
+    .limit(1);
+
+  if (!client) {
+    throw new Error("Client not found");
+  }
+
+  return client;
+};
+
+/* ==============================
+   BUILD INVOICE DATA
+============================== */
+const buildClientPaymentInvoiceData = async (paymentId: number) => {
+  const [payment] = await db
+    .select({
+      paymentId: clientPayments.paymentId,
+      clientId: clientPayments.clientId,
+      totalPayment: clientPayments.totalPayment,
+      stage: clientPayments.stage,
+      amount: clientPayments.amount,
+      paymentDate: clientPayments.paymentDate,
+      invoiceNo: clientPayments.invoiceNo,
+      remarks: clientPayments.remarks,
+      createdAt: clientPayments.createdAt,
+      saleType: saleTypes.saleType,
+    })
+    .from(clientPayments)
+    .leftJoin(saleTypes, eq(clientPayments.saleTypeId, saleTypes.saleTypeId))
+    .where(eq(clientPayments.paymentId, paymentId))
+    .limit(1);
+
+  if (!payment) {
+    throw new Error("Payment not found");
+  }
+
+  const client = await getClientForInvoice(payment.clientId);
+
+  const data: InvoicePdfData = {
+    invoiceNo: payment.invoiceNo,
+    invoiceDate: toDateString(payment.paymentDate) ?? toDateString(payment.createdAt),
+    client: {
+      id: client.id,
+      fullName: client.fullName,
+      passportDetails: client.passportDetails,
+      enrollmentDate: toDateString(client.enrollmentDate),
+    },
+    counsellorName: client.counsellorName ?? null,
+    item: payment.saleType || "Core Sale",
+    stage: payment.stage,
+    totalPayment: payment.totalPayment,
+    amount: payment.amount ?? "0",
+    remarks: payment.remarks,
+  };
+
+  return { clientId: payment.clientId, data };
+};
+
+const buildProductPaymentInvoiceData = async (productPaymentId: number) => {
+  const [productPayment] = await db
+    .select({ clientId: clientProductPayments.clientId })
+    .from(clientProductPayments)
+    .where(eq(clientProductPayments.productPaymentId, productPaymentId))
+    .limit(1);
+
+  if (!productPayment) {
+    throw new Error("Product payment not found");
+  }
+
+  // Reuse the enriched product payment (entity data merged in)
+  const payments = await getProductPaymentsByClientId(productPayment.clientId);
+  const payment: any = payments.find((p: any) => p.productPaymentId === productPaymentId);
+
+  if (!payment) {
+    throw new Error("Product payment not found");
+  }
+
+  const entity = payment.entity ?? {};
+  const amount = payment.amount ?? entity.amount ?? null;
+
+  if (amount === null || amount === undefined) {
+    throw new Error("This product has no amount, so no invoice can be generated");
+  }
+
+  const client = await getClientForInvoice(productPayment.clientId);
+
+  const data: InvoicePdfData = {
+    invoiceNo: payment.invoiceNo ?? entity.invoiceNo ?? null,
+    invoiceDate:
+      toDateString(payment.paymentDate) ??
+      toDateString(entity.paymentDate ?? entity.sellDate ?? entity.extensionDate) ??
+      toDateString(payment.createdAt),
+    client: {
+      id: client.id,
+      fullName: client.fullName,
+      passportDetails: client.passportDetails,
+      enrollmentDate: toDateString(client.enrollmentDate),
+    },
+    counsellorName: client.counsellorName ?? null,
+    item: entity.serviceName || payment.productName,
+    stage: null,
+    totalPayment: null,
+    amount: String(amount),
+    remarks: payment.remarks ?? entity.remarks ?? null,
+  };
+
+  return { clientId: productPayment.clientId, data };
+};
+
+/* ==============================
+   GET OR CREATE INVOICE PDF
+   Issued PDFs are immutable. Returns the latest stored version when the
+   underlying payment is unchanged, so re-downloads are byte-identical.
+   When the payment changed, a revised version is rendered and stored next
+   to the earlier ones (which stay downloadable by version).
+============================== */
+const getOrCreateInvoice = async (
+  sourceType: PaymentDocumentSource,
+  sourceId: number,
+  userId: number,
+  version?: number
+): Promise<InvoiceDocument> => {
+  const sourceCondition = and(
+    eq(paymentDocuments.sourceType, sourceType),
+    eq(paymentDocuments.sourceId, sourceId)
+  );
+
+  if (version !== undefined) {
+    const [stored] = await db
+      .select()
+      .from(paymentDocuments)
+      .where(and(sourceCondition, eq(paymentDocuments.version, version)))
+      .limit(1);
+
+    if (!stored) {
+      throw new Error(`Invoice version ${version} not found`);
+    }
+
+    return toInvoiceDocument(stored, false);
+  }
+
+  const { clientId, data } = sourceType === "client_payment"
+    ? await buildClientPaymentInvoiceData(sourceId)
+    : await buildProductPaymentInvoiceData(sourceId);
+
+  const sourceHash = hashInvoiceData(data);
+
+  const [latest] = await db
+    .select()
+    .from(paymentDocuments)
+    .where(sourceCondition)
+    .orderBy(desc(paymentDocuments.version))
+    .limit(1);
+
+  if (latest && latest.sourceHash === sourceHash) {
+    return toInvoiceDocument(latest, false);
+  }
+
+  const nextVersion = latest ? latest.version + 1 : 1;
+  const content = await renderInvoicePdf({ ...data, version: nextVersion });
+  const fileName = toFileName(
+    sourceType === "client_payment" ? "invoice" : "product-invoice",
+    data.invoiceNo,
+    sourceId,
+    nextVersion
+  );
+
+  const [saved] = await db
+    .insert(paymentDocuments)
+    .values({
+      sourceType,
+      sourceId,
+      version: nextVersion,
+      clientId,
+      invoiceNo: data.invoiceNo,
+      fileName,
+      mimeType: "application/pdf",
+      content,
+      sizeBytes: content.length,
+      sourceHash,
+      generatedBy: userId,
+    })
+    .onConflictDoNothing()
+    .returning();
+
+  if (saved) {
+    return toInvoiceDocument(saved, true);
+  }
+
+  // A concurrent request stored this version first
+  const [stored] = await db
+    .select()
+    .from(paymentDocuments)
+    .where(and(sourceCondition, eq(paymentDocuments.version, nextVersion)))
+    .limit(1);
+
+  return toInvoiceDocument(stored, false);
+};
+
+export const getClientPaymentInvoice = async (paymentId: number, userId: number, version?: number) =>
+  getOrCreateInvoice("client_payment", paymentId, userId, version);
+
+export const getProductPaymentInvoice = async (productPaymentId: number, userId: number, version?: number) =>
+  getOrCreateInvoice("product_payment", productPaymentId, userId, version);
+
@@ -0,0 +1,450 @@
+import { db, DbExecutor } from "../config/databaseConnection";
+import {
+  paymentInstallments,
+  installmentPayments,
+} from "../schemas/paymentInstallment.schema";
+import { clientPayments } from "../schemas/clientPayment.schema";
+import { clientInformation } from "../schemas/clientInformation.schema";
+import { saleTypes } from "../schemas/saleType.schema";
+import { users } from "../schemas/users.schema";
+import { eq, and, asc, inArray, sql, SQL } from "drizzle-orm";
+import { PaymentStage } from "./clientPayment.model";
+import { ClientListScope } from "./client.model";
+
+export type InstallmentStatus = "paid" | "partially_paid" | "overdue" | "pending";
+
+export interface InstallmentInput {
+  installmentId?: number;
+  stage: PaymentStage;
+  dueDate: string;
+  expectedAmount: string | number;
+  remarks?: string;
+}
+
+interface SaveInstallmentScheduleInput {
+  clientId: number;
+  saleTypeId: number;
+  installments: InstallmentInput[];
+}
+
+const VALID_STAGES: PaymentStage[] = ["INITIAL", "BEFORE_VISA", "AFTER_VISA", "SUBMITTED_VISA"];
+
+const isValidDate = (value: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(value).getTime());
+
+// Compared in SQL so "today" is the database's date, like the overdue / upcoming lists
+const installmentPastDueSql = sql<boolean>`${paymentInstallments.dueDate} < CURRENT_DATE`;
+
+// Sum of the actual payments linked to an installment
+const installmentPaidAmountSql = sql<string>`COALESCE((
+  SELECT SUM(${clientPayments.amount})
+  FROM ${installmentPayments}
+  INNER JOIN ${clientPayments} ON ${clientPayments.paymentId} = ${installmentPayments.paymentId}
+  WHERE ${installmentPayments.installmentId} = ${paymentInstallments.installmentId}
+), 0)`;
+
+const getInstallmentStatus = (
+  pastDue: boolean,
+  expectedAmount: string,
+  paidAmount: string
+): InstallmentStatus => {
+  const expected = parseFloat(expectedAmount) || 0;
+  const paid = parseFloat(paidAmount) || 0;
+
+  if (paid >= expected) return "paid";
+  if (pastDue) return "overdue";
+  if (paid > 0) return "partially_paid";
+  return "pending";
+};
+
+/* ==============================
+   SAVE INSTALLMENT SCHEDULE
+   Replaces the schedule for one client + sale type.
+   Rows with installmentId are updated, rows without are created,
+   and rows missing from the payload are removed (only if nothing was paid against them).
+============================== */
+export const saveInstallmentSchedule = async (
+  data: SaveInstallmentScheduleInput,
+  createdBy: number
+) => {
+  const clientId = Number(data.clientId);
+  const saleTypeId = Number(data.saleTypeId);
+
+  if (!clientId || !Number.isFinite(clientId) || clientId <= 0) {
+    throw new Error("Valid clientId is required");
+  }
+
+  if (!saleTypeId || !Number.isFinite(saleTypeId) || saleTypeId <= 0) {
+    throw new Error("Valid saleTypeId is required");
+  }
+
+  if (!Array.isArray(data.installments) || data.installments.length === 0) {
+    throw new Error("installments must be a non-empty array");
+  }
+
+  const installments = data.installments.map((item, index) => {
+    const position = `installments[${index}]`;
+
+    if (!item.stage || !VALID_STAGES.includes(item.stage)) {
+      throw new Error(`${position}: invalid stage. Must be one of: ${VALID_STAGES.join(", ")}`);
+    }
+
+    if (!item.dueDate || !isValidDate(item.dueDate)) {
+      throw new Error(`${position}: invalid dueDate format. Use YYYY-MM-DD`);
+    }
+
+    const expected = Number(item.expectedAmount);
+    if (!Number.isFinite(expected) || expected <= 0) {
+      throw new Error(`${position}: expectedAmount must be a positive number`);
+    }
+
+    const installmentId = item.installmentId ? Number(item.installmentId) : undefined;
+    if (installmentId !== undefined && (!Number.isInteger(installmentId) || installmentId <= 0)) {
+      throw new Error(`${position}: invalid installmentId`);
+    }
+
+    return {
+      installmentId,
+      stage: item.stage,
+      dueDate: item.dueDate,
+      expectedAmount: expected.toFixed(2),
+      remarks: item.remarks ? String(item.remarks).trim() : null,
+    };
+  });
+
+  const [client] = await db
+    .select({ id: clientInformation.clientId })
+    .from(clientInformation)
+    .where(eq(clientInformation.clientId, clientId))
+    .limit(1);
+
+  if (!client) {
+    throw new Error("Client not found");
+  }
+
+  const [saleType] = await db
+    .select({ id: saleTypes.saleTypeId })
+    .from(saleTypes)
+    .where(eq(saleTypes.saleTypeId, saleTypeId))
+    .limit(1);
+
+  if (!saleType) {
+    throw new Error("Invalid sale type");
+  }
+
+  await db.transaction(async (tx) => {
+    const existing = await tx
+      .select({ installmentId: paymentInstallments.installmentId })
+      .from(paymentInstallments)
+      .where(
+        and(
+          eq(paymentInstallments.clientId, clientId),
+          eq(paymentInstallments.saleTypeId, saleTypeId)
+        )
+      );
+
+    const existingIds = new Set(existing.map((row) => row.installmentId));
+    const keptIds = new Set<number>();
+
+    for (const item of installments) {
+      if (item.installmentId !== undefined) {
+        if (!existingIds.has(item.installmentId)) {
+          throw new Error(`Installment ${item.installmentId} does not belong to this client and sale type`);
+        }
+        keptIds.add(item.installmentId);
+      }
+    }
+
+    const removedIds = [...existingIds].filter((id) => !keptIds.has(id));
+
+    if (removedIds.length > 0) {
+      const linked = await tx
+        .select({ installmentId: installmentPayments.installmentId })
+        .from(installmentPayments)
+        .where(inArray(installmentPayments.installmentId, removedIds))
+        .limit(1);
+
+      if (linked.length > 0) {
+        throw new Error(
+          `Installment ${linked[0].installmentId} already has payments linked to it and cannot be removed`
+        );
+      }
+
+      await tx
+        .delete(paymentInstallments)
+        .where(inArray(paymentInstallments.installmentId, removedIds));
+    }
+
+    for (const item of installments) {
+      if (item.installmentId !== undefined) {
+        await tx
+          .update(paymentInstallments)
+          .set({
+            stage: item.stage,
+            dueDate: item.dueDate,
+            expectedAmount: item.expectedAmount,
+            remarks: item.remarks,
+          })
+          .where(eq(paymentInstallments.installmentId, item.installmentId));
+      } else {
+        await tx.insert(paymentInstallments).values({
+          clientId,
+          saleTypeId,
+          stage: item.stage,
+          dueDate: item.dueDate,
+          expectedAmount: item.expectedAmount,
+          remarks: item.remarks,
+          createdBy,
+        });
+      }
+    }
+  });
+
+  const schedule = await getInstallmentsByClientId(clientId);
+  return schedule.filter((installment) => installment.saleType?.id === saleTypeId);
+};
+
+/* ==============================
+   GET INSTALLMENTS BY CLIENT
+============================== */
+export const getInstallmentsByClientId = async (clientId: number) => {
+  const rows = await db
+    .select({
+      installmentId: paymentInstallments.installmentId,
+      clientId: paymentInstallments.clientId,
+      saleTypeId: paymentInstallments.saleTypeId,
+      saleType: saleTypes.saleType,
+      stage: paymentInstallments.stage,
+      dueDate: paymentInstallments.dueDate,
+      expectedAmount: paymentInstallments.expectedAmount,
+      remarks: paymentInstallments.remarks,
+      createdAt: paymentInstallments.createdAt,
+      paidAmount: installmentPaidAmountSql,
+      pastDue: installmentPastDueSql,
+    })
+    .from(paymentInstallments)
+    .leftJoin(saleTypes, eq(paymentInstallments.saleTypeId, saleTypes.saleTypeId))
+    .where(eq(paymentInstallments.clientId, clientId))
+    .orderBy(asc(paymentInstallments.dueDate), asc(paymentInstallments.installmentId));
+
+  if (rows.length === 0) return [];
+
+  const links = await db
+    .select({
+      installmentId: installmentPayments.installmentId,
+      paymentId: installmentPayments.paymentId,
+    })
+    .from(installmentPayments)
+    .where(
+      inArray(
+        installmentPayments.installmentId,
+        rows.map((row) => row.installmentId)
+      )
+    );
+
+  const paymentIdsByInstallment = new Map<number, number[]>();
+  for (const link of links) {
+    const list = paymentIdsByInstallment.get(link.installmentId) ?? [];
+    list.push(link.paymentId);
+    paymentIdsByInstallment.set(link.installmentId, list);
+  }
+
+  return rows.map((row) => {
+    const paidAmount = String(row.paidAmount ?? "0");
+    const expected = parseFloat(row.expectedAmount) || 0;
+    const paid = parseFloat(paidAmount) || 0;
+
+    return {
+      installmentId: row.installmentId,
+      clientId: row.clientId,
+      saleType: row.saleTypeId
+        ? {
+            id: row.saleTypeId,
+            saleType: row.saleType || null,
+          }
+        : null,
+      stage: row.stage,
+      dueDate: row.dueDate,
+      expectedAmount: row.expectedAmount,
+      paidAmount,
+      remainingAmount: Math.max(expected - paid, 0).toFixed(2),
+      status: getInstallmentStatus(row.pastDue, row.expectedAmount, paidAmount),
+      paymentIds: paymentIdsByInstallment.get(row.installmentId) ?? [],
+      remarks: row.remarks,
+      createdAt: row.createdAt,
+    };
+  });
+};
+
+/* ==============================
+   LINK PAYMENT -> INSTALLMENT
+   Used by saveClientPayment: validate before the payment is written,
+   link after it has an id.
+============================== */
+export const validateInstallmentForPayment = async (
+  installmentId: number,
+  clientId: number,
+  saleTypeId: number
+) => {
+  const [installment] = await db
+    .select({
+      clientId: paymentInstallments.clientId,
+      saleTypeId: paymentInstallments.saleTypeId,
+    })
+    .from(paymentInstallments)
+    .where(eq(paymentInstallments.installmentId, installmentId))
+    .limit(1);
+
+  if (!installment) {
+    throw new Error("Installment not found");
+  }
+
+  if (installment.clientId !== clientId || installment.saleTypeId !== saleTypeId) {
+    throw new Error("Installment does not belong to this client and sale type");
+  }
+};
+
+// installmentId = null removes an existing link (pass the caller's transaction to link atomically)
+export const linkPaymentToInstallment = async (
+  paymentId: number,
+  installmentId: number | null,
+  executor: DbExecutor = db
+) => {
+  if (installmentId === null) {
+    await executor
+      .delete(installmentPayments)
+      .where(eq(installmentPayments.paymentId, paymentId));
+    return;
+  }
+
+  await executor
+    .insert(installmentPayments)
+    .values({ paymentId, installmentId })
+    .onConflictDoUpdate({
+      target: installmentPayments.paymentId,
+      set: { installmentId },
+    });
+};
+
+export const getInstallmentIdByPaymentId = async (paymentId: number, executor: DbExecutor = db) => {
+  const [link] = await executor
+    .select({ installmentId: installmentPayments.installmentId })
+    .from(installmentPayments)
+    .where(eq(installmentPayments.paymentId, paymentId))
+    .limit(1);
+
+  return link?.installmentId ?? null;
+};
+
+/* ==============================
+   OVERDUE / UPCOMING INSTALLMENTS (PER COUNSELLOR)
+   Only installments that are not fully paid, for active clients.
+   Scope follows the client list rules (counsellor = own, manager = team, admin/supervisor = all).
+============================== */
+const getOpenInstallmentsByCounsellor = async (
+  dueCondition: SQL,
+  scope: ClientListScope,
+  counsellorId?: number
+) => {
+  const conditions: SQL[] = [
+    dueCondition,
+    eq(clientInformation.archived, false),
+    sql`${installmentPaidAmountSql} < ${paymentInstallments.expectedAmount}`,
+  ];
+
+  if (scope.role === "counsellor") {
+    conditions.push(eq(clientInformation.counsellorId, scope.userId));
+  } else if (scope.role === "manager" && !scope.isSupervisor) {
+    conditions.push(eq(users.managerId, scope.userId));
+  }
+
+  if (counsellorId) {
+    conditions.push(eq(clientInformation.counsellorId, counsellorId));
+  }
+
+  const rows = await db
+    .select({
+      installmentId: paymentInstallments.installmentId,
+      clientId: paymentInstallments.clientId,
+      clientName: clientInformation.fullName,
+      counsellorId: clientInformation.counsellorId,
+      counsellorName: users.fullName,
+      saleTypeId: paymentInstallments.saleTypeId,
+      saleType: saleTypes.saleType,
+      stage: paymentInstallments.stage,
+      dueDate: paymentInstallments.dueDate,
+      expectedAmount: paymentInstallments.expectedAmount,
+      paidAmount: installmentPaidAmountSql,
+      pastDue: installmentPastDueSql,
+    })
+    .from(paymentInstallments)
+    .innerJoin(clientInformation, eq(paymentInstallments.clientId, clientInformation.clientId))
+    .innerJoin(users, eq(clientInformation.counsellorId, users.id))
+    .leftJoin(saleTypes, eq(paymentInstallments.saleTypeId, saleTypes.saleTypeId))
+    .where(and(...conditions))
+    .orderBy(asc(users.fullName), asc(paymentInstallments.dueDate));
+
+  const grouped = new Map<number, {
+    counsellor: { id: number; name: string };
+    totalRemaining: number;
+    installments: any[];
+  }>();
+
+  for (const row of rows) {
+    const paidAmount = String(row.paidAmount ?? "0");
+    const remaining = Math.max((parseFloat(row.expectedAmount) || 0) - (parseFloat(paidAmount) || 0), 0);
+
+    let group = grouped.get(row.counsellorId);
+    if (!group) {
+      group = {
+        counsellor: { id: row.counsellorId, name: row.counsellorName },
+        totalRemaining: 0,
+        installments: [],
+      };
+      grouped.set(row.counsellorId, group);
+    }
+
+    group.totalRemaining += remaining;
+    group.installments.push({
+      installmentId: row.installmentId,
+      client: { id: row.clientId, name: row.clientName },
+      saleType: { id: row.saleTypeId, saleType: row.saleType || null },
+      stage: row.stage,
+      dueDate: row.dueDate,
+      expectedAmount: row.expectedAmount,
+      paidAmount,
+      remainingAmount: remaining.toFixed(2),
+      status: getInstallmentStatus(row.pastDue, row.expectedAmount, paidAmount),
+    });
+  }
+
+  return [...grouped.values()].map((group) => ({
+    counsellor: group.counsellor,
+    count: group.installments.length,
+    totalRemaining: group.totalRemaining.toFixed(2),
+    installments: group.installments,
+  }));
+};
+
+export const getOverdueInstallments = async (
+  scope: ClientListScope,
+  counsellorId?: number
+) => {
+  return getOpenInstallmentsByCounsellor(
+    installmentPastDueSql,
+    scope,
+    counsellorId
+  );
+};
+
+export const getUpcomingInstallments = async (
+  scope: ClientListScope,
+  days: number,
+  counsellorId?: number
+) => {
+  return getOpenInstallmentsByCounsellor(
+    sql`${paymentInstallments.dueDate} BETWEEN CURRENT_DATE AND CURRENT_DATE + ${days}::int`,
+    scope,
+    counsellorId
+  );
+};
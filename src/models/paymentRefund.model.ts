@@ -0,0 +1,500 @@
+import { db, DbExecutor, DbTransaction } from "../config/databaseConnection";
+import { paymentRefunds } from "../schemas/paymentRefund.schema";
+import { clientPayments } from "../schemas/clientPayment.schema";
+import { clientProductPayments } from "../schemas/clientProductPayments.schema";
+import { clientInformation } from "../schemas/clientInformation.schema";
+import { users } from "../schemas/users.schema";
+import { beaconAccount } from "../schemas/beaconAccount.schema";
+import { insurance } from "../schemas/insurance.schema";
+import { airTicket } from "../schemas/airTicket.schema";
+import { forexFees } from "../schemas/forexFees.schema";
+import { newSell } from "../schemas/newSell.schema";
+import { ielts } from "../schemas/ielts.schema";
+import { loan } from "../schemas/loan.schema";
+import { visaExtension } from "../schemas/visaExtension.schema";
+import { allFinance } from "../schemas/allFinance.schema";
+import { eq, and, ne, desc, inArray, sql, SQL } from "drizzle-orm";
+import { ClientListScope, paymentApprovedSql, productPaymentApprovedSql } from "./client.model";
+
+/* ==============================
+   TYPES
+============================== */
+export type RefundType = "REFUND" | "REVERSAL" | "CREDIT_NOTE";
+export type RefundStatus = "pending" | "approved" | "rejected";
+
+interface CreateRefundInput {
+  clientPaymentId?: number;
+  productPaymentId?: number;
+  refundType?: RefundType;
+  amount: string | number;
+  refundDate?: string;
+  creditNoteNo?: string;
+  reason: string;
+}
+
+export const REFUND_TYPES: RefundType[] = ["REFUND", "REVERSAL", "CREDIT_NOTE"];
+
+const isValidDate = (value: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(value).getTime());
+
+/* ==============================
+   HELPER: Amount of the original payment
+   master_only product payments carry their own amount,
+   entity based ones keep it on the entity table.
+============================== */
+const getEntityAmount = async (
+  executor: DbExecutor,
+  entityType: string,
+  entityId: number
+): Promise<number | null> => {
+  let table: any;
+  let amountColumn: any;
+  let idColumn: any;
+
+  switch (entityType) {
+    case "beaconAccount_id":
+      table = beaconAccount;
+      amountColumn = beaconAccount.amount;
+      break;
+    case "insurance_id":
+      table = insurance;
+      amountColumn = insurance.amount;
+      break;
+    case "airTicket_id":
+      table = airTicket;
+      amountColumn = airTicket.amount;
+      break;
+    case "forexFees_id":
+      table = forexFees;
+      amountColumn = forexFees.amount;
+      break;
+    case "newSell_id":
+      table = newSell;
+      amountColumn = newSell.amount;
+      break;
+    case "ielts_id":
+      table = ielts;
+      amountColumn = ielts.amount;
+      break;
+    case "loan_id":
+      table = loan;
+      amountColumn = loan.amount;
+      break;
+    case "visaextension_id":
+      table = visaExtension;
+      amountColumn = visaExtension.amount;
+      break;
+    case "allFinance_id":
+      table = allFinance;
+      amountColumn = allFinance.amount;
+      idColumn = allFinance.financeId;
+      break;
+    default:
+      return null;
+  }
+
+  const [row] = await executor
+    .select({ amount: amountColumn })
+    .from(table)
+    .where(eq(idColumn ?? table.id, entityId))
+    .limit(1);
+
+  return row?.amount ? parseFloat(row.amount as string) : null;
+};
+
+// Locks the payment row (FOR UPDATE) so concurrent refunds of the same payment are checked one at a time
+const getOriginalPayment = async (
+  tx: DbTransaction,
+  clientPaymentId?: number | null,
+  productPaymentId?: number | null
+): Promise<{ clientId: number; amount: number }> => {
+  if (clientPaymentId) {
+    const [payment] = await tx
+      .select({
+        clientId: clientPayments.clientId,
+        amount: clientPayments.amount,
+      })
+      .from(clientPayments)
+      .where(eq(clientPayments.paymentId, clientPaymentId))
+      .limit(1)
+      .for("update");
+
+    if (!payment) {
+      throw new Error("Client payment not found");
+    }
+
+    return { clientId: payment.clientId, amount: parseFloat(payment.amount || "0") || 0 };
+  }
+
+  const [productPayment] = await tx
+    .select({
+      clientId: clientProductPayments.clientId,
+      amount: clientProductPayments.amount,
+      entityType: clientProductPayments.entityType,
+      entityId: clientProductPayments.entityId,
+    })
+    .from(clientProductPayments)
+    .where(eq(clientProductPayments.productPaymentId, productPaymentId!))
+    .limit(1)
+    .for("update");
+
+  if (!productPayment) {
+    throw new Error("Product payment not found");
+  }
+
+  let amount: number | null = productPayment.amount ? parseFloat(productPayment.amount) : null;
+  if (amount === null && productPayment.entityId) {
+    amount = await getEntityAmount(tx, productPayment.entityType, productPayment.entityId);
+  }
+
+  if (amount === null) {
+    throw new Error("This product payment has no amount and cannot be refunded");
+  }
+
+  return { clientId: productPayment.clientId, amount };
+};
+
+// Sum of the payment's refunds in the given statuses (optionally leaving one refund out)
+const getRefundedTotal = async (
+  tx: DbTransaction,
+  payment: { clientPaymentId?: number | null; productPaymentId?: number | null },
+  statuses: RefundStatus[],
+  excludeRefundId?: number
+) => {
+  const [result] = await tx
+    .select({
+      total: sql<string>`COALESCE(SUM(${paymentRefunds.amount}::numeric), 0)`,
+    })
+    .from(paymentRefunds)
+    .where(
+      and(
+        payment.clientPaymentId
+          ? eq(paymentRefunds.clientPaymentId, payment.clientPaymentId)
+          : eq(paymentRefunds.productPaymentId, payment.productPaymentId!),
+        inArray(paymentRefunds.status, statuses),
+        excludeRefundId ? ne(paymentRefunds.refundId, excludeRefundId) : undefined
+      )
+    );
+
+  return parseFloat(result?.total || "0");
+};
+
+// Client of the payment a refund is requested against (null if the payment doesn't exist)
+export const getRefundPaymentClientId = async (data: Pick<CreateRefundInput, "clientPaymentId" | "productPaymentId">) => {
+  const clientPaymentId = Number(data.clientPaymentId);
+  const productPaymentId = Number(data.productPaymentId);
+
+  if (Number.isInteger(clientPaymentId) && clientPaymentId > 0) {
+    const [payment] = await db
+      .select({ clientId: clientPayments.clientId })
+      .from(clientPayments)
+      .where(eq(clientPayments.paymentId, clientPaymentId))
+      .limit(1);
+    return payment?.clientId ?? null;
+  }
+
+  if (Number.isInteger(productPaymentId) && productPaymentId > 0) {
+    const [payment] = await db
+      .select({ clientId: clientProductPayments.clientId })
+      .from(clientProductPayments)
+      .where(eq(clientProductPayments.productPaymentId, productPaymentId))
+      .limit(1);
+    return payment?.clientId ?? null;
+  }
+
+  return null;
+};
+
+/* ==============================
+   CREATE REFUND (PENDING APPROVAL)
+============================== */
+export const createRefund = async (
+  data: CreateRefundInput,
+  requestedBy: number
+) => {
+  const clientPaymentId = data.clientPaymentId ? Number(data.clientPaymentId) : undefined;
+  const productPaymentId = data.productPaymentId ? Number(data.productPaymentId) : undefined;
+
+  if ((clientPaymentId ? 1 : 0) + (productPaymentId ? 1 : 0) !== 1) {
+    throw new Error("Provide exactly one of clientPaymentId or productPaymentId");
+  }
+
+  if (
+    (clientPaymentId !== undefined && (!Number.isInteger(clientPaymentId) || clientPaymentId <= 0)) ||
+    (productPaymentId !== undefined && (!Number.isInteger(productPaymentId) || productPaymentId <= 0))
+  ) {
+    throw new Error("Invalid payment id");
+  }
+
+  const refundType = data.refundType ?? "REFUND";
+  if (!REFUND_TYPES.includes(refundType)) {
+    throw new Error(`Invalid refundType. Must be one of: ${REFUND_TYPES.join(", ")}`);
+  }
+
+  const amount = Number(data.amount);
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new Error("amount must be a positive number");
+  }
+
+  const refundDate = data.refundDate || new Date().toISOString().split("T")[0];
+  if (!isValidDate(refundDate)) {
+    throw new Error("Invalid refundDate format. Use YYYY-MM-DD");
+  }
+
+  const reason = data.reason ? String(data.reason).trim() : "";
+  if (!reason) {
+    throw new Error("reason is required");
+  }
+
+  const creditNoteNo = data.creditNoteNo ? String(data.creditNoteNo).trim() || null : null;
+  if (creditNoteNo) {
+    const [duplicate] = await db
+      .select({ id: paymentRefunds.refundId })
+      .from(paymentRefunds)
+      .where(eq(paymentRefunds.creditNoteNo, creditNoteNo))
+      .limit(1);
+
+    if (duplicate) {
+      throw new Error(`Credit note number "${creditNoteNo}" already exists. Please use a different number.`);
+    }
+  }
+
+  // Balance check and insert run in one transaction with the payment row locked
+  const refund = await db.transaction(async (tx) => {
+    const original = await getOriginalPayment(tx, clientPaymentId, productPaymentId);
+
+    // Pending + approved refunds can never exceed what was paid
+    const alreadyRefunded = await getRefundedTotal(tx, { clientPaymentId, productPaymentId }, ["pending", "approved"]);
+
+    const refundable = original.amount - alreadyRefunded;
+    if (amount > refundable + 0.001) {
+      throw new Error(`Refund amount exceeds the refundable balance of ${Math.max(refundable, 0).toFixed(2)}`);
+    }
+
+    const [inserted] = await tx
+      .insert(paymentRefunds)
+      .values({
+        clientId: original.clientId,
+        clientPaymentId: clientPaymentId ?? null,
+        productPaymentId: productPaymentId ?? null,
+        refundType,
+        amount: amount.toFixed(2),
+        refundDate,
+        creditNoteNo,
+        reason,
+        requestedBy,
+      })
+      .returning();
+
+    return inserted;
+  });
+
+  return refund;
+};
+
+/* ==============================
+   LIST REFUNDS
+============================== */
+export const getRefunds = async (
+  filters: {
+    status?: RefundStatus;
+    clientId?: number;
+  },
+  scope: ClientListScope
+) => {
+  const conditions: SQL[] = [];
+
+  if (scope.role === "counsellor") {
+    conditions.push(eq(clientInformation.counsellorId, scope.userId));
+  } else if (scope.role === "manager" && !scope.isSupervisor) {
+    conditions.push(eq(users.managerId, scope.userId));
+  }
+
+  if (filters.status) {
+    conditions.push(eq(paymentRefunds.status, filters.status));
+  }
+
+  if (filters.clientId) {
+    conditions.push(eq(paymentRefunds.clientId, filters.clientId));
+  }
+
+  const rows = await db
+    .select({
+      refundId: paymentRefunds.refundId,
+      clientId: paymentRefunds.clientId,
+      clientName: clientInformation.fullName,
+      counsellorId: clientInformation.counsellorId,
+      clientPaymentId: paymentRefunds.clientPaymentId,
+      productPaymentId: paymentRefunds.productPaymentId,
+      refundType: paymentRefunds.refundType,
+      amount: paymentRefunds.amount,
+      refundDate: paymentRefunds.refundDate,
+      creditNoteNo: paymentRefunds.creditNoteNo,
+      reason: paymentRefunds.reason,
+      status: paymentRefunds.status,
+      requestedBy: paymentRefunds.requestedBy,
+      reviewedBy: paymentRefunds.reviewedBy,
+      reviewedAt: paymentRefunds.reviewedAt,
+      reviewRemarks: paymentRefunds.reviewRemarks,
+      createdAt: paymentRefunds.createdAt,
+    })
+    .from(paymentRefunds)
+    .innerJoin(clientInformation, eq(paymentRefunds.clientId, clientInformation.clientId))
+    .innerJoin(users, eq(clientInformation.counsellorId, users.id))
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(paymentRefunds.createdAt));
+
+  const userIds = [
+    ...new Set(
+      rows.flatMap((row) => [row.requestedBy, row.reviewedBy, row.counsellorId])
+        .filter((id): id is number => typeof id === "number")
+    ),
+  ];
+
+  const userRows = userIds.length > 0
+    ? await db
+        .select({ id: users.id, fullName: users.fullName })
+        .from(users)
+        .where(inArray(users.id, userIds))
+    : [];
+
+  const userMap = new Map(userRows.map((u) => [u.id, u]));
+  const toUser = (id: number | null) => {
+    const user = id ? userMap.get(id) : undefined;
+    return user ? { id: user.id, name: user.fullName } : null;
+  };
+
+  return rows.map((row) => ({
+    refundId: row.refundId,
+    client: { id: row.clientId, name: row.clientName },
+    counsellor: toUser(row.counsellorId),
+    clientPaymentId: row.clientPaymentId,
+    productPaymentId: row.productPaymentId,
+    refundType: row.refundType,
+    amount: row.amount,
+    refundDate: row.refundDate,
+    creditNoteNo: row.creditNoteNo,
+    reason: row.reason,
+    status: row.status,
+    requestedBy: toUser(row.requestedBy),
+    reviewedBy: toUser(row.reviewedBy),
+    reviewedAt: row.reviewedAt,
+    reviewRemarks: row.reviewRemarks,
+    createdAt: row.createdAt,
+  }));
+};
+
+export const getRefundById = async (refundId: number) => {
+  const [refund] = await db
+    .select()
+    .from(paymentRefunds)
+    .where(eq(paymentRefunds.refundId, refundId))
+    .limit(1);
+
+  return refund ?? null;
+};
+
+/* ==============================
+   APPROVE / REJECT REFUND
+============================== */
+const reviewRefund = async (
+  refundId: number,
+  reviewedBy: number,
+  status: "approved" | "rejected",
+  remarks?: string
+) => {
+  const refund = await getRefundById(refundId);
+
+  if (!refund) {
+    throw new Error(`Refund not found with refundId: ${refundId}`);
+  }
+
+  if (refund.status !== "pending") {
+    throw new Error(`Refund is already ${refund.status}`);
+  }
+
+  if (refund.requestedBy === reviewedBy) {
+    throw new Error("You cannot review a refund you requested");
+  }
+
+  const updated = await db.transaction(async (tx) => {
+    // Approving re-checks the balance with the payment row locked: the payment may
+    // have been reduced, or other refunds approved, since this one was requested
+    if (status === "approved") {
+      const original = await getOriginalPayment(tx, refund.clientPaymentId, refund.productPaymentId);
+      const approvedTotal = await getRefundedTotal(tx, refund, ["approved"], refund.refundId);
+      const refundable = original.amount - approvedTotal;
+
+      if (parseFloat(refund.amount) > refundable + 0.001) {
+        throw new Error(`Refund amount exceeds the refundable balance of ${Math.max(refundable, 0).toFixed(2)}`);
+      }
+    }
+
+    const [row] = await tx
+      .update(paymentRefunds)
+      .set({
+        status,
+        reviewedBy,
+        reviewedAt: new Date(),
+        reviewRemarks: remarks ? String(remarks).trim() : null,
+      })
+      .where(
+        and(
+          eq(paymentRefunds.refundId, refundId),
+          eq(paymentRefunds.status, "pending")
+        )
+      )
+      .returning();
+
+    if (!row) {
+      throw new Error(`Failed to update refund with refundId: ${refundId}. Update returned no rows.`);
+    }
+
+    return row;
+  });
+
+  return { before: refund, after: updated };
+};
+
+export const approveRefund = async (refundId: number, reviewedBy: number, remarks?: string) =>
+  reviewRefund(refundId, reviewedBy, "approved", remarks);
+
+export const rejectRefund = async (refundId: number, reviewedBy: number, remarks?: string) =>
+  reviewRefund(refundId, reviewedBy, "rejected", remarks);
+
+/* ==============================
+   APPROVED REFUND TOTAL (REVENUE NETTING)
+   Refunds are netted in the period they happened in (refundDate),
+   attributed to the counsellor credited with the refunded payment
+   (the client's counsellor when it was recorded). Archived clients are
+   excluded the same way revenue excludes them.
+============================== */
+export const getApprovedRefundTotal = async (
+  startDateStr: string,
+  endDateStr: string,
+  counsellorId?: number
+): Promise<number> => {
+  const [result] = await db
+    .select({
+      total: sql<string>`COALESCE(SUM(${paymentRefunds.amount}::numeric), 0)`,
+    })
+    .from(paymentRefunds)
+    .innerJoin(clientInformation, eq(paymentRefunds.clientId, clientInformation.clientId))
+    .leftJoin(clientPayments, eq(paymentRefunds.clientPaymentId, clientPayments.paymentId))
+    .leftJoin(clientProductPayments, eq(paymentRefunds.productPaymentId, clientProductPayments.productPaymentId))
+    .where(
+      sql`(
+        ${paymentRefunds.status} = 'approved'
+        AND ${clientInformation.archived} = false
+        AND ${paymentRefunds.refundDate} >= ${startDateStr}
+        AND ${paymentRefunds.refundDate} <= ${endDateStr}
+        AND ${paymentApprovedSql}
+        AND ${productPaymentApprovedSql}
+        ${counsellorId
+          ? sql`AND COALESCE(${clientPayments.creditedCounsellorId}, ${clientProductPayments.creditedCounsellorId}) = ${counsellorId}`
+          : sql``}
+      )`
+    );
+
+  return parseFloat(result?.total || "0");
+};
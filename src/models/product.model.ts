@@ -0,0 +1,302 @@
+import { db } from "../config/databaseConnection";
+import { products } from "../schemas/product.schema";
+import {
+  clientProductPayments,
+  entityTypeEnum,
+} from "../schemas/clientProductPayments.schema";
+import { eq, and, asc, count, SQL } from "drizzle-orm";
+import {
+  getProductFieldSchema,
+  normalizeProductFieldSchema,
+} from "../services/productFieldSchema.service";
+
+/* ==============================
+   TYPES
+============================== */
+export type ProductEntityType = (typeof entityTypeEnum.enumValues)[number];
+
+interface CreateProductInput {
+  code: string;
+  name: string;
+  entityType?: ProductEntityType;
+  isCountOnly?: boolean;
+  isCoreProduct?: boolean;
+  leadTypes?: string[];
+  fieldSchema?: unknown; // product's own field schema (null = entity type default)
+  requiresApproval?: boolean;
+  isActive?: boolean;
+}
+
+interface UpdateProductInput {
+  name?: string;
+  entityType?: ProductEntityType;
+  isCountOnly?: boolean;
+  isCoreProduct?: boolean;
+  leadTypes?: string[];
+  fieldSchema?: unknown;
+  requiresApproval?: boolean;
+  isActive?: boolean;
+}
+
+/* ==============================
+   HELPERS
+============================== */
+const normalizeCode = (code: string) =>
+  String(code).trim().toUpperCase().replace(/[\s-]+/g, "_");
+
+const normalizeLeadTypes = (leadTypes: unknown): string[] => {
+  if (!Array.isArray(leadTypes)) {
+    throw new Error("leadTypes must be an array");
+  }
+
+  return [...new Set(
+    leadTypes
+      .map((leadType) => String(leadType).trim().toLowerCase())
+      .filter(Boolean)
+  )];
+};
+
+const validateEntityType = (entityType: string): ProductEntityType => {
+  if (!entityTypeEnum.enumValues.includes(entityType as ProductEntityType)) {
+    throw new Error(`Invalid entityType. Must be one of: ${entityTypeEnum.enumValues.join(", ")}`);
+  }
+  return entityType as ProductEntityType;
+};
+
+const validateFlag = (value: unknown, field: string): boolean => {
+  if (typeof value !== "boolean") {
+    throw new Error(`${field} must be true or false`);
+  }
+  return value;
+};
+
+/* ==============================
+   CREATE
+============================== */
+export const createProduct = async (data: CreateProductInput) => {
+  if (!data.code) throw new Error("Product code required");
+  if (!data.name || !String(data.name).trim()) throw new Error("Product name required");
+
+  const code = normalizeCode(data.code);
+
+  const existing = await db
+    .select({ productId: products.productId })
+    .from(products)
+    .where(eq(products.code, code));
+
+  if (existing.length) throw new Error("Product already exists");
+
+  const entityType = data.entityType !== undefined ? validateEntityType(data.entityType) : "master_only";
+
+  const [created] = await db
+    .insert(products)
+    .values({
+      code,
+      name: String(data.name).trim(),
+      entityType,
+      isCountOnly: data.isCountOnly !== undefined ? validateFlag(data.isCountOnly, "isCountOnly") : false,
+      isCoreProduct: data.isCoreProduct !== undefined ? validateFlag(data.isCoreProduct, "isCoreProduct") : false,
+      leadTypes: data.leadTypes !== undefined ? normalizeLeadTypes(data.leadTypes) : [],
+      fieldSchema: data.fieldSchema != null ? normalizeProductFieldSchema(entityType, data.fieldSchema) : null,
+      requiresApproval: data.requiresApproval !== undefined ? validateFlag(data.requiresApproval, "requiresApproval") : false,
+      isActive: data.isActive !== undefined ? validateFlag(data.isActive, "isActive") : true,
+    })
+    .returning();
+
+  return created;
+};
+
+/* ==============================
+   GET ALL
+============================== */
+export const getAllProducts = async (filters: {
+  leadType?: string;
+  activeOnly?: boolean;
+} = {}) => {
+  const conditions: SQL[] = [];
+
+  if (filters.activeOnly) {
+    conditions.push(eq(products.isActive, true));
+  }
+
+  const rows = await db
+    .select()
+    .from(products)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(asc(products.name));
+
+  if (!filters.leadType) {
+    return rows;
+  }
+
+  // Products without lead types apply to every lead type
+  const leadType = filters.leadType.trim().toLowerCase();
+  return rows.filter((product) =>
+    product.leadTypes.length === 0 || product.leadTypes.includes(leadType)
+  );
+};
+
+export const getProductByCode = async (code: string) => {
+  const [product] = await db
+    .select()
+    .from(products)
+    .where(eq(products.code, code))
+    .limit(1);
+
+  return product ?? null;
+};
+
+/* ==============================
+   FIELD SCHEMA
+   Form definition for a product's details (fields + rules)
+============================== */
+export const getProductSchema = async (code: string) => {
+  const product = await getProductByCode(code);
+
+  if (!product) {
+    throw new Error("Product not found");
+  }
+
+  const { fields, rules } = getProductFieldSchema(product);
+
+  return {
+    code: product.code,
+    name: product.name,
+    entityType: product.entityType,
+    isCountOnly: product.isCountOnly,
+    requiresApproval: product.requiresApproval,
+    // master_only fields are sent at the top level of the payment, others inside entityData
+    dataKey: product.entityType === "master_only" ? null : "entityData",
+    // false = the entity type's default form
+    customSchema: product.fieldSchema !== null,
+    fields,
+    rules,
+  };
+};
+
+/* ==============================
+   CLASSIFICATION (used by dashboard)
+============================== */
+export const getProductClassification = async () => {
+  const rows = await db
+    .select({
+      code: products.code,
+      isCoreProduct: products.isCoreProduct,
+      isCountOnly: products.isCountOnly,
+    })
+    .from(products);
+
+  return {
+    coreProductCodes: rows.filter((row) => row.isCoreProduct).map((row) => row.code),
+    countOnlyProductCodes: rows.filter((row) => row.isCountOnly).map((row) => row.code),
+  };
+};
+
+/* ==============================
+   UPDATE
+============================== */
+export const updateProduct = async (id: number, data: UpdateProductInput) => {
+  const [current] = await db
+    .select()
+    .from(products)
+    .where(eq(products.productId, id))
+    .limit(1);
+
+  if (!current) {
+    throw new Error("Product not found");
+  }
+
+  const patch: Partial<typeof products.$inferInsert> = {};
+
+  if (data.name !== undefined) {
+    if (!String(data.name).trim()) throw new Error("Product name required");
+    patch.name = String(data.name).trim();
+  }
+
+  if (data.entityType !== undefined) {
+    const entityType = validateEntityType(data.entityType);
+
+    if (entityType !== current.entityType) {
+      // Existing payments point at rows of the current entity table
+      const [usage] = await db
+        .select({ count: count() })
+        .from(clientProductPayments)
+        .where(eq(clientProductPayments.productName, current.code));
+
+      if ((usage?.count ?? 0) > 0) {
+        throw new Error("entityType cannot be changed for a product that already has payments");
+      }
+    }
+
+    patch.entityType = entityType;
+  }
+
+  if (data.fieldSchema !== undefined) {
+    patch.fieldSchema = data.fieldSchema === null
+      ? null
+      : normalizeProductFieldSchema(patch.entityType ?? current.entityType, data.fieldSchema);
+  } else if (patch.entityType && patch.entityType !== current.entityType && current.fieldSchema) {
+    // The product's own schema was declared against the old detail table
+    throw new Error("fieldSchema must be sent again (or null) when entityType changes");
+  }
+
+  if (data.isCountOnly !== undefined) {
+    patch.isCountOnly = validateFlag(data.isCountOnly, "isCountOnly");
+  }
+
+  if (data.isCoreProduct !== undefined) {
+    patch.isCoreProduct = validateFlag(data.isCoreProduct, "isCoreProduct");
+  }
+
+  if (data.leadTypes !== undefined) {
+    patch.leadTypes = normalizeLeadTypes(data.leadTypes);
+  }
+
+  if (data.requiresApproval !== undefined) {
+    patch.requiresApproval = validateFlag(data.requiresApproval, "requiresApproval");
+  }
+
+  if (data.isActive !== undefined) {
+    patch.isActive = validateFlag(data.isActive, "isActive");
+  }
+
+  if (Object.keys(patch).length === 0) {
+    throw new Error("No fields to update");
+  }
+
+  const [updated] = await db
+    .update(products)
+    .set({ ...patch, updatedAt: new Date() })
+    .where(eq(products.productId, id))
+    .returning();
+
+  return updated;
+};
+
+/* ==============================
+   DELETE
+============================== */
+export const deleteProduct = async (id: number) => {
+  const [product] = await db
+    .select()
+    .from(products)
+    .where(eq(products.productId, id))
+    .limit(1);
+
+  if (!product) {
+    throw new Error("Product not found");
+  }
+
+  const [usage] = await db
+    .select({ count: count() })
+    .from(clientProductPayments)
+    .where(eq(clientProductPayments.productName, product.code));
+
+  if ((usage?.count ?? 0) > 0) {
+    throw new Error("Product has payments and cannot be deleted. Set isActive to false instead.");
+  }
+
+  await db.delete(products).where(eq(products.productId, id));
+
+  return { message: "Product deleted successfully" };
+};
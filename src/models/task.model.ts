@@ -0,0 +1,539 @@
+import { db } from "../config/databaseConnection";
+import { clientTasks } from "../schemas/task.schema";
+import { clientInformation } from "../schemas/clientInformation.schema";
+import { users } from "../schemas/users.schema";
+import { eq, and, asc, gte, lt, lte, inArray, isNull, sql, SQL } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { ClientListScope, getClientInScope } from "./client.model";
+import { PaymentStage } from "./clientPayment.model";
+
+/* ==============================
+   TYPES
+============================== */
+export type TaskPriority = "low" | "medium" | "high" | "urgent";
+export type TaskStatus = "open" | "in_progress" | "completed" | "cancelled";
+export type MyTasksView = "today" | "overdue" | "upcoming" | "all";
+
+export const TASK_PRIORITIES: TaskPriority[] = ["low", "medium", "high", "urgent"];
+export const TASK_STATUSES: TaskStatus[] = ["open", "in_progress", "completed", "cancelled"];
+
+// Statuses that still need work (and reminders)
+export const ACTIVE_TASK_STATUSES: TaskStatus[] = ["open", "in_progress"];
+
+interface TaskInput {
+  title?: string;
+  description?: string | null;
+  dueDate?: string | Date;
+  assignedTo?: number;
+  priority?: TaskPriority;
+  status?: TaskStatus;
+}
+
+interface AutoTaskInput {
+  clientId: number;
+  sourceEntityId: number;
+  createdBy?: number | null;
+}
+
+const assigneeUsers = alias(users, "assignee_users");
+
+const taskSelection = {
+  taskId: clientTasks.taskId,
+  clientId: clientTasks.clientId,
+  clientName: clientInformation.fullName,
+  counsellorId: clientInformation.counsellorId,
+  title: clientTasks.title,
+  description: clientTasks.description,
+  dueDate: clientTasks.dueDate,
+  assignedTo: clientTasks.assignedTo,
+  assigneeName: assigneeUsers.fullName,
+  priority: clientTasks.priority,
+  status: clientTasks.status,
+  source: clientTasks.source,
+  sourceEvent: clientTasks.sourceEvent,
+  sourceEntityId: clientTasks.sourceEntityId,
+  reminderSentAt: clientTasks.reminderSentAt,
+  completedAt: clientTasks.completedAt,
+  completedBy: clientTasks.completedBy,
+  createdBy: clientTasks.createdBy,
+  createdAt: clientTasks.createdAt,
+  updatedAt: clientTasks.updatedAt,
+};
+
+/* ==============================
+   HELPERS
+============================== */
+const parseDueDate = (value: string | Date | undefined) => {
+  if (value === undefined || value === null || value === "") {
+    throw new Error("dueDate is required");
+  }
+
+  const dueDate = value instanceof Date ? value : new Date(value);
+  if (isNaN(dueDate.getTime())) {
+    throw new Error("Invalid dueDate");
+  }
+
+  return dueDate;
+};
+
+const normalizeTitle = (value: unknown) => {
+  const title = typeof value === "string" ? value.trim() : "";
+  if (!title) {
+    throw new Error("title is required");
+  }
+  if (title.length > 200) {
+    throw new Error("title must be at most 200 characters");
+  }
+  return title;
+};
+
+const validatePriority = (priority: unknown): TaskPriority => {
+  if (!TASK_PRIORITIES.includes(priority as TaskPriority)) {
+    throw new Error(`Invalid priority. Allowed: ${TASK_PRIORITIES.join(", ")}`);
+  }
+  return priority as TaskPriority;
+};
+
+const validateStatus = (status: unknown): TaskStatus => {
+  if (!TASK_STATUSES.includes(status as TaskStatus)) {
+    throw new Error(`Invalid status. Allowed: ${TASK_STATUSES.join(", ")}`);
+  }
+  return status as TaskStatus;
+};
+
+const addDays = (date: Date, days: number) => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+/**
+ * Counsellors can only assign to themselves; managers / admins to any counsellor or manager
+ * (non-supervisor managers only within their own team)
+ */
+const validateAssignee = async (assignedTo: number, scope: ClientListScope) => {
+  if (scope.role === "counsellor" && assignedTo !== scope.userId) {
+    throw new Error("Counsellors can only assign tasks to themselves");
+  }
+
+  const [assignee] = await db
+    .select({ id: users.id, role: users.role, managerId: users.managerId })
+    .from(users)
+    .where(eq(users.id, assignedTo))
+    .limit(1);
+
+  if (!assignee) {
+    throw new Error("Assignee not found");
+  }
+
+  if (
+    scope.role === "manager" &&
+    !scope.isSupervisor &&
+    assignee.id !== scope.userId &&
+    assignee.managerId !== scope.userId
+  ) {
+    throw new Error("You can only assign tasks within your own team");
+  }
+};
+
+/* ==============================
+   GET TASK
+============================== */
+export const getTaskById = async (taskId: number) => {
+  const [task] = await db
+    .select(taskSelection)
+    .from(clientTasks)
+    .innerJoin(clientInformation, eq(clientTasks.clientId, clientInformation.clientId))
+    .leftJoin(assigneeUsers, eq(clientTasks.assignedTo, assigneeUsers.id))
+    .where(eq(clientTasks.taskId, taskId))
+    .limit(1);
+
+  return task || null;
+};
+
+/**
+ * Task visible to the user: the assignee always, otherwise whoever can see the client
+ */
+export const getTaskInScope = async (taskId: number, scope: ClientListScope) => {
+  const task = await getTaskById(taskId);
+  if (!task) {
+    throw new Error("Task not found");
+  }
+
+  if (task.assignedTo !== scope.userId && !(await getClientInScope(task.clientId, scope))) {
+    throw new Error("You do not have access to this task");
+  }
+
+  return task;
+};
+
+/* ==============================
+   CREATE TASK
+   Assignee defaults to the client's counsellor
+============================== */
+export const createTask = async (
+  clientId: number,
+  data: TaskInput,
+  scope: ClientListScope
+) => {
+  const client = await getClientInScope(clientId, scope);
+  if (!client) {
+    throw new Error("Client not found");
+  }
+
+  const assignedTo = data.assignedTo !== undefined ? Number(data.assignedTo) : client.counsellorId;
+  if (!Number.isInteger(assignedTo) || assignedTo <= 0) {
+    throw new Error("Invalid assignedTo");
+  }
+  await validateAssignee(assignedTo, scope);
+
+  const [created] = await db
+    .insert(clientTasks)
+    .values({
+      clientId,
+      title: normalizeTitle(data.title),
+      description: data.description ? String(data.description).trim() : null,
+      dueDate: parseDueDate(data.dueDate),
+      assignedTo,
+      priority: data.priority !== undefined ? validatePriority(data.priority) : "medium",
+      status: "open",
+      source: "manual",
+      createdBy: scope.userId,
+    })
+    .returning({ taskId: clientTasks.taskId });
+
+  return (await getTaskById(created.taskId))!;
+};
+
+/* ==============================
+   UPDATE TASK
+   Completing sets completedAt / completedBy; moving the due date re-arms the reminder
+============================== */
+export const updateTask = async (
+  taskId: number,
+  data: TaskInput,
+  scope: ClientListScope
+) => {
+  const before = await getTaskInScope(taskId, scope);
+  const updates: Partial<typeof clientTasks.$inferInsert> = {};
+
+  if (data.title !== undefined) {
+    updates.title = normalizeTitle(data.title);
+  }
+
+  if (data.description !== undefined) {
+    updates.description = data.description ? String(data.description).trim() : null;
+  }
+
+  if (data.priority !== undefined) {
+    updates.priority = validatePriority(data.priority);
+  }
+
+  if (data.dueDate !== undefined) {
+    updates.dueDate = parseDueDate(data.dueDate);
+    if (updates.dueDate.getTime() !== new Date(before.dueDate).getTime()) {
+      updates.reminderSentAt = null;
+    }
+  }
+
+  if (data.assignedTo !== undefined) {
+    const assignedTo = Number(data.assignedTo);
+    if (!Number.isInteger(assignedTo) || assignedTo <= 0) {
+      throw new Error("Invalid assignedTo");
+    }
+    await validateAssignee(assignedTo, scope);
+    if (assignedTo !== before.assignedTo) {
+      updates.assignedTo = assignedTo;
+      updates.reminderSentAt = null;
+    }
+  }
+
+  if (data.status !== undefined) {
+    updates.status = validateStatus(data.status);
+    if (updates.status === "completed" && before.status !== "completed") {
+      updates.completedAt = new Date();
+      updates.completedBy = scope.userId;
+    } else if (updates.status !== "completed") {
+      updates.completedAt = null;
+      updates.completedBy = null;
+    }
+  }
+
+  if (Object.keys(updates).length === 0) {
+    throw new Error("Nothing to update");
+  }
+
+  await db
+    .update(clientTasks)
+    .set({ ...updates, updatedAt: new Date() })
+    .where(eq(clientTasks.taskId, taskId));
+
+  const after = (await getTaskById(taskId))!;
+  return { before, after };
+};
+
+/* ==============================
+   DELETE TASK
+============================== */
+export const deleteTask = async (taskId: number, scope: ClientListScope) => {
+  const task = await getTaskInScope(taskId, scope);
+
+  await db.delete(clientTasks).where(eq(clientTasks.taskId, taskId));
+
+  return task;
+};
+
+/* ==============================
+   CLIENT TASKS
+============================== */
+export const getTasksForClient = async (
+  clientId: number,
+  scope: ClientListScope,
+  filters: { status?: TaskStatus } = {}
+) => {
+  if (!(await getClientInScope(clientId, scope))) {
+    throw new Error("Client not found");
+  }
+
+  const conditions: SQL[] = [eq(clientTasks.clientId, clientId)];
+  if (filters.status) {
+    conditions.push(eq(clientTasks.status, validateStatus(filters.status)));
+  }
+
+  return db
+    .select(taskSelection)
+    .from(clientTasks)
+    .innerJoin(clientInformation, eq(clientTasks.clientId, clientInformation.clientId))
+    .leftJoin(assigneeUsers, eq(clientTasks.assignedTo, assigneeUsers.id))
+    .where(and(...conditions))
+    .orderBy(asc(clientTasks.dueDate), asc(clientTasks.taskId));
+};
+
+/* ==============================
+   MY TASKS
+   Active tasks assigned to the user.
+   overdue = due before now, today = due between now and the end of today,
+   upcoming = due after today. Counts are always returned for all three buckets.
+============================== */
+export const getMyTasks = async (userId: number, view: MyTasksView = "all") => {
+  const now = new Date();
+  const endOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 23, 59, 59, 999);
+
+  const conditions: SQL[] = [
+    eq(clientTasks.assignedTo, userId),
+    inArray(clientTasks.status, ACTIVE_TASK_STATUSES),
+  ];
+
+  if (view === "overdue") {
+    conditions.push(lt(clientTasks.dueDate, now));
+  } else if (view === "today") {
+    conditions.push(gte(clientTasks.dueDate, now), lte(clientTasks.dueDate, endOfToday));
+  } else if (view === "upcoming") {
+    conditions.push(sql`${clientTasks.dueDate} > ${endOfToday}`);
+  }
+
+  const [tasks, [counts]] = await Promise.all([
+    db
+      .select(taskSelection)
+      .from(clientTasks)
+      .innerJoin(clientInformation, eq(clientTasks.clientId, clientInformation.clientId))
+      .leftJoin(assigneeUsers, eq(clientTasks.assignedTo, assigneeUsers.id))
+      .where(and(...conditions))
+      .orderBy(asc(clientTasks.dueDate), asc(clientTasks.taskId)),
+    db
+      .select({
+        overdue: sql<number>`COUNT(*) FILTER (WHERE ${clientTasks.dueDate} < ${now})`.mapWith(Number),
+        today: sql<number>`COUNT(*) FILTER (WHERE ${clientTasks.dueDate} >= ${now} AND ${clientTasks.dueDate} <= ${endOfToday})`.mapWith(Number),
+        upcoming: sql<number>`COUNT(*) FILTER (WHERE ${clientTasks.dueDate} > ${endOfToday})`.mapWith(Number),
+      })
+      .from(clientTasks)
+      .where(
+        and(
+          eq(clientTasks.assignedTo, userId),
+          inArray(clientTasks.status, ACTIVE_TASK_STATUSES)
+        )
+      ),
+  ]);
+
+  return {
+    tasks,
+    counts: counts || { overdue: 0, today: 0, upcoming: 0 },
+  };
+};
+
+/* ==============================
+   REMINDERS
+   Active tasks due within `leadMinutes` (or already overdue) that were not reminded yet
+============================== */
+export const getTasksDueForReminder = async (leadMinutes: number = 60) => {
+  const dueBefore = new Date(Date.now() + leadMinutes * 60 * 1000);
+
+  return db
+    .select(taskSelection)
+    .from(clientTasks)
+    .innerJoin(clientInformation, eq(clientTasks.clientId, clientInformation.clientId))
+    .leftJoin(assigneeUsers, eq(clientTasks.assignedTo, assigneeUsers.id))
+    .where(
+      and(
+        inArray(clientTasks.status, ACTIVE_TASK_STATUSES),
+        isNull(clientTasks.reminderSentAt),
+        lte(clientTasks.dueDate, dueBefore)
+      )
+    )
+    .orderBy(asc(clientTasks.dueDate));
+};
+
+export const markTaskRemindersSent = async (taskIds: number[]) => {
+  if (taskIds.length === 0) return;
+
+  await db
+    .update(clientTasks)
+    .set({ reminderSentAt: new Date() })
+    .where(inArray(clientTasks.taskId, taskIds));
+};
+
+/* ==============================
+   AUTO TASKS
+   Created from events (payments saved). Each rule has a key stored in source_event;
+   saving the payment a rule asks for completes the open task of that key.
+============================== */
+interface AutoTaskRule {
+  key: string;
+  title: string;
+  description: string;
+  dueInDays: number;
+  priority: TaskPriority;
+}
+
+// Next stage to collect after a payment of the given stage
+const PAYMENT_STAGE_TASK_RULES: Partial<Record<PaymentStage, AutoTaskRule>> = {
+  INITIAL: {
+    key: "collect_stage:BEFORE_VISA",
+    title: "Collect BEFORE_VISA payment",
+    description: "INITIAL payment received - follow up for the BEFORE_VISA payment.",
+    dueInDays: 7,
+    priority: "high",
+  },
+  BEFORE_VISA: {
+    key: "collect_stage:AFTER_VISA",
+    title: "Collect AFTER_VISA payment",
+    description: "BEFORE_VISA payment received - follow up for the AFTER_VISA payment once the visa is granted.",
+    dueInDays: 30,
+    priority: "medium",
+  },
+};
+
+// Follow-ups after a product payment (product.code)
+const PRODUCT_TASK_RULES: Record<string, AutoTaskRule> = {
+  SIM_CARD_ACTIVATION: {
+    key: "product:SIM_CARD_ACTIVATION",
+    title: "Activate SIM card",
+    description: "SIM card handed over - confirm activation with the client.",
+    dueInDays: 2,
+    priority: "medium",
+  },
+};
+
+const createAutoTask = async (rule: AutoTaskRule, input: AutoTaskInput) => {
+  const [client] = await db
+    .select({ counsellorId: clientInformation.counsellorId })
+    .from(clientInformation)
+    .where(eq(clientInformation.clientId, input.clientId))
+    .limit(1);
+
+  if (!client) {
+    return null;
+  }
+
+  // One active task per rule and client
+  const [existing] = await db
+    .select({ taskId: clientTasks.taskId })
+    .from(clientTasks)
+    .where(
+      and(
+        eq(clientTasks.clientId, input.clientId),
+        eq(clientTasks.sourceEvent, rule.key),
+        inArray(clientTasks.status, ACTIVE_TASK_STATUSES)
+      )
+    )
+    .limit(1);
+
+  if (existing) {
+    return null;
+  }
+
+  const [created] = await db
+    .insert(clientTasks)
+    .values({
+      clientId: input.clientId,
+      title: rule.title,
+      description: rule.description,
+      dueDate: addDays(new Date(), rule.dueInDays),
+      assignedTo: client.counsellorId,
+      priority: rule.priority,
+      status: "open",
+      source: "auto",
+      sourceEvent: rule.key,
+      sourceEntityId: input.sourceEntityId,
+      createdBy: input.createdBy ?? null,
+    })
+    .returning({ taskId: clientTasks.taskId });
+
+  return getTaskById(created.taskId);
+};
+
+const completeAutoTasks = async (clientId: number, key: string, completedBy?: number | null) => {
+  return db
+    .update(clientTasks)
+    .set({
+      status: "completed",
+      completedAt: new Date(),
+      completedBy: completedBy ?? null,
+      updatedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(clientTasks.clientId, clientId),
+        eq(clientTasks.sourceEvent, key),
+        inArray(clientTasks.status, ACTIVE_TASK_STATUSES)
+      )
+    )
+    .returning({ taskId: clientTasks.taskId });
+};
+
+/**
+ * New client payment: completes the "collect <stage>" task and creates the next one
+ */
+export const handlePaymentCreatedTasks = async (
+  input: AutoTaskInput & { stage: PaymentStage }
+) => {
+  const completed = await completeAutoTasks(
+    input.clientId,
+    `collect_stage:${input.stage}`,
+    input.createdBy
+  );
+
+  const rule = PAYMENT_STAGE_TASK_RULES[input.stage];
+  const created = rule ? await createAutoTask(rule, input) : null;
+
+  return { created, completedTaskIds: completed.map((task) => task.taskId) };
+};
+
+/**
+ * New product payment: creates the product follow-up unless it is already done
+ * (e.g. SIM card saved as activated)
+ */
+export const handleProductPaymentCreatedTasks = async (
+  input: AutoTaskInput & { productName: string; entityData?: Record<string, any> | null }
+) => {
+  const rule = PRODUCT_TASK_RULES[input.productName];
+  if (!rule) {
+    return { created: null };
+  }
+
+  if (input.productName === "SIM_CARD_ACTIVATION" && input.entityData?.activatedStatus === true) {
+    return { created: null };
+  }
+
+  return { created: await createAutoTask(rule, input) };
+};
@@ -1,9 +1,17 @@
 import bcrypt from "bcrypt";
+import crypto from "crypto";
 import { db } from "../config/databaseConnection";
 import { users } from "./../schemas/users.schema";
 import { clientInformation } from "./../schemas/clientInformation.schema";
-import { eq, ne, and, count } from "drizzle-orm";
+import { refreshTokens } from "../schemas/refreshToken.schema";
+import { leads } from "../schemas/lead.schema";
+import { clientTasks } from "../schemas/task.schema";
+import { approvalRequests } from "../schemas/approval.schema";
+import { eq, ne, and, count, inArray } from "drizzle-orm";
 import { ROLES, Role, isRole } from "../types/role";
+import { reassignClientsInTransaction } from "./clientTransfer.model";
+import { OPEN_LEAD_STATUSES } from "./lead.model";
+import { ACTIVE_TASK_STATUSES } from "./task.model";
 
 /* ================================
    TYPES
@@ -35,6 +43,42 @@ interface UpdateUserInput {
   isSupervisor?: boolean;
 }
 
+interface DeactivateUserInput {
+  // Active counsellor / manager who takes over clients, open leads, open tasks and pending approvals
+  reassignToUserId?: number | null;
+  // New manager for a manager's counsellors (defaults to reassignToUserId when that is a manager)
+  newManagerId?: number | null;
+  reason?: string | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+/* ================================
+   HELPERS
+================================ */
+
+// Active counsellor or manager other than the user being deactivated
+const getActiveAssignee = async (userId: number, excludeUserId: number) => {
+  if (userId === excludeUserId) {
+    throw new Error("Cannot reassign to the user being deactivated");
+  }
+
+  const [assignee] = await db
+    .select({ id: users.id, fullName: users.fullName, role: users.role, isActive: users.isActive })
+    .from(users)
+    .where(eq(users.id, userId));
+
+  if (!assignee || (assignee.role !== "counsellor" && assignee.role !== "manager")) {
+    throw new Error("Reassignment target must be a counsellor or manager");
+  }
+
+  if (!assignee.isActive) {
+    throw new Error("Reassignment target is deactivated");
+  }
+
+  return assignee;
+};
+
 /* ================================
    CREATE USER
 ================================ */
@@ -168,6 +212,8 @@ export const getAllUsers = async () => {
       managerId: users.managerId,
       designation: users.designation,
       isSupervisor: users.isSupervisor,
+      isActive: users.isActive,
+      deactivatedAt: users.deactivatedAt,
       createdAt: users.createdAt,
     })
     .from(users)
@@ -325,19 +371,24 @@ export const updateUserByAdmin = async (
 };
 
 /* ================================
-   DELETE USER (ADMIN)
+   DEACTIVATE USER (ADMIN)
+   Replaces hard deletes: the user keeps their history but can't log in.
+   Clients (with transfer history), open leads, open tasks and pending
+   approval requests go to another active counsellor / manager, a manager's
+   team moves to another manager, and every session is revoked.
 ================================ */
 
-export const deleteUserByAdmin = async (
+export const deactivateUser = async (
   targetUserId: number,
-  adminUserId: number
+  adminUserId: number,
+  input: DeactivateUserInput = {}
 ) => {
   if (targetUserId === adminUserId) {
-    throw new Error("Admin cannot delete own account");
+    throw new Error("Admin cannot deactivate own account");
   }
 
   const [existingUser] = await db
-    .select({ role: users.role })
+    .select({ id: users.id, fullName: users.fullName, role: users.role, isActive: users.isActive })
     .from(users)
     .where(eq(users.id, targetUserId));
 
@@ -345,24 +396,179 @@ export const deleteUserByAdmin = async (
     throw new Error("User not found");
   }
 
-  if (existingUser.role === "manager") {
-    const counsellors = await db
-      .select({ id: users.id })
+  if (!existingUser.isActive) {
+    throw new Error("User is already deactivated");
+  }
+
+  const [[{ clientCount }], [{ leadCount }], [{ taskCount }], [{ approvalCount }], teamMembers] =
+    await Promise.all([
+      db.select({ clientCount: count() }).from(clientInformation)
+        .where(eq(clientInformation.counsellorId, targetUserId)),
+      db.select({ leadCount: count() }).from(leads)
+        .where(and(eq(leads.counsellorId, targetUserId), inArray(leads.status, OPEN_LEAD_STATUSES))),
+      db.select({ taskCount: count() }).from(clientTasks)
+        .where(and(eq(clientTasks.assignedTo, targetUserId), inArray(clientTasks.status, ACTIVE_TASK_STATUSES))),
+      db.select({ approvalCount: count() }).from(approvalRequests)
+        .where(and(eq(approvalRequests.requestedBy, targetUserId), eq(approvalRequests.status, "pending"))),
+      db.select({ id: users.id }).from(users).where(eq(users.managerId, targetUserId)),
+    ]);
+
+  const needsReassignment = clientCount + leadCount + taskCount + approvalCount > 0;
+
+  let reassignTo: { id: number; fullName: string; role: string } | null = null;
+  if (input.reassignToUserId !== undefined && input.reassignToUserId !== null) {
+    reassignTo = await getActiveAssignee(input.reassignToUserId, targetUserId);
+  } else if (needsReassignment) {
+    throw new Error(
+      "reassignToUserId is required: the user still has clients, open leads, open tasks or pending approvals"
+    );
+  }
+
+  // A manager's counsellors need a new manager (defaults to the reassignment target if it is a manager)
+  let newManager: { id: number; fullName: string } | null = null;
+  if (teamMembers.length > 0) {
+    const newManagerId = input.newManagerId ?? (reassignTo?.role === "manager" ? reassignTo.id : null);
+    if (!newManagerId) {
+      throw new Error("newManagerId is required: the manager has assigned counsellors");
+    }
+
+    const manager = await getActiveAssignee(newManagerId, targetUserId);
+    if (manager.role !== "manager") {
+      throw new Error("newManagerId must be a manager");
+    }
+    newManager = manager;
+  }
+
+  const reason = input.reason && String(input.reason).trim() !== "" ? String(input.reason).trim() : null;
+  const batchId = crypto.randomUUID();
+
+  return db.transaction(async (tx) => {
+    // Re-check inside the transaction so two admins can't deactivate the same user twice
+    const [deactivated] = await tx
+      .update(users)
+      .set({ isActive: false, deactivatedAt: new Date(), deactivatedBy: adminUserId })
+      .where(and(eq(users.id, targetUserId), eq(users.isActive, true)))
+      .returning({ id: users.id });
+
+    if (!deactivated) {
+      throw new Error("User is already deactivated");
+    }
+
+    const revokedSessions = await tx
+      .update(refreshTokens)
+      .set({ revoked: true })
+      .where(and(eq(refreshTokens.userId, targetUserId), eq(refreshTokens.revoked, false)))
+      .returning({ id: refreshTokens.id });
+
+    let clientIds: number[] = [];
+    let leadsReassigned = 0;
+    let tasksReassigned = 0;
+    let approvalsReassigned = 0;
+
+    if (reassignTo) {
+      clientIds = await reassignClientsInTransaction(tx, undefined, {
+        from: existingUser,
+        to: reassignTo,
+        reason: reason ?? `${existingUser.fullName} deactivated`,
+        batchId,
+        performedBy: adminUserId,
+        ipAddress: input.ipAddress,
+        userAgent: input.userAgent,
+      });
+
+      leadsReassigned = (await tx
+        .update(leads)
+        .set({ counsellorId: reassignTo.id, updatedAt: new Date() })
+        .where(and(eq(leads.counsellorId, targetUserId), inArray(leads.status, OPEN_LEAD_STATUSES)))
+        .returning({ id: leads.leadId })).length;
+
+      tasksReassigned = (await tx
+        .update(clientTasks)
+        .set({ assignedTo: reassignTo.id, updatedAt: new Date() })
+        .where(and(eq(clientTasks.assignedTo, targetUserId), inArray(clientTasks.status, ACTIVE_TASK_STATUSES)))
+        .returning({ id: clientTasks.taskId })).length;
+
+      approvalsReassigned = (await tx
+        .update(approvalRequests)
+        .set({ requestedBy: reassignTo.id })
+        .where(and(eq(approvalRequests.requestedBy, targetUserId), eq(approvalRequests.status, "pending")))
+        .returning({ id: approvalRequests.requestId })).length;
+    }
+
+    let teamMembersMoved = 0;
+    if (newManager) {
+      teamMembersMoved = (await tx
+        .update(users)
+        .set({ managerId: newManager.id })
+        .where(eq(users.managerId, targetUserId))
+        .returning({ id: users.id })).length;
+    }
+
+    return {
+      user: { id: existingUser.id, fullName: existingUser.fullName, role: existingUser.role },
+      reassignedTo: reassignTo ? { id: reassignTo.id, fullName: reassignTo.fullName } : null,
+      newManager,
+      transferBatchId: clientIds.length ? batchId : null,
+      reassigned: {
+        clients: clientIds.length,
+        leads: leadsReassigned,
+        tasks: tasksReassigned,
+        approvals: approvalsReassigned,
+        teamMembers: teamMembersMoved,
+      },
+      revokedSessions: revokedSessions.length,
+    };
+  });
+};
+
+/* ================================
+   REACTIVATE USER (ADMIN)
+   Login works again; reassigned clients stay with their new counsellor.
+================================ */
+
+export const reactivateUser = async (targetUserId: number) => {
+  const [existingUser] = await db
+    .select({ id: users.id, isActive: users.isActive, role: users.role, managerId: users.managerId })
+    .from(users)
+    .where(eq(users.id, targetUserId));
+
+  if (!existingUser) {
+    throw new Error("User not found");
+  }
+
+  if (existingUser.isActive) {
+    throw new Error("User is already active");
+  }
+
+  if (existingUser.role === "counsellor" && existingUser.managerId) {
+    const [manager] = await db
+      .select({ isActive: users.isActive })
       .from(users)
-      .where(eq(users.managerId, targetUserId));
+      .where(eq(users.id, existingUser.managerId));
 
-    if (counsellors.length > 0) {
-      throw new Error("Manager has assigned counsellors");
+    if (!manager?.isActive) {
+      throw new Error("The counsellor's manager is deactivated; assign an active manager first");
     }
   }
 
-  await db.delete(users).where(eq(users.id, targetUserId));
+  const [user] = await db
+    .update(users)
+    .set({ isActive: true, deactivatedAt: null, deactivatedBy: null })
+    .where(eq(users.id, targetUserId))
+    .returning({
+      id: users.id,
+      fullName: users.fullName,
+      email: users.email,
+      role: users.role,
+      managerId: users.managerId,
+      isActive: users.isActive,
+    });
 
-  return { message: "User deleted successfully" };
+  return user;
 };
 
 /* ================================
-   GET MANAGERS (DROPDOWN)
+   GET MANAGERS (DROPDOWN, ACTIVE ONLY)
 ================================ */
 
 export const getAllManagers = async () => {
@@ -374,7 +580,7 @@ export const getAllManagers = async () => {
       isSupervisor: users.isSupervisor,
     })
     .from(users)
-    .where(eq(users.role, "manager"));
+    .where(and(eq(users.role, "manager"), eq(users.isActive, true)));
 };
 
 // Get all counsellors
@@ -386,12 +592,13 @@ export const getAllCounsellors = async () => {
       fullName: users.fullName,
       email: users.email,
       managerId: users.managerId,
+      isActive: users.isActive,
       clientCount: count(clientInformation.clientId),
     })
     .from(users)
     .leftJoin(clientInformation, eq(users.id, clientInformation.counsellorId))
     .where(eq(users.role, "counsellor"))
-    .groupBy(users.id, users.fullName, users.email, users.managerId);
+    .groupBy(users.id, users.fullName, users.email, users.managerId, users.isActive);
 
   return counsellorsWithClientCount;
 };
@@ -451,6 +658,7 @@ export const getCounsellorsByManagerId = async (managerId: number) => {
       clientCount: count(clientInformation.clientId),
       isSupervisor: users.isSupervisor,
       role: users.role,
+      isActive: users.isActive,
       createdAt: users.createdAt,
     })
     .from(users)
@@ -467,6 +675,7 @@ export const getCounsellorsByManagerId = async (managerId: number) => {
       users.designation,
       users.isSupervisor,
       users.role,
+      users.isActive,
       users.createdAt
     );
 
@@ -496,6 +705,7 @@ export const getManagersWithCounsellors = async () => {
       officePhone: users.officePhone,
       personalPhone: users.personalPhone,
       designation: users.designation,
+      isActive: users.isActive,
       createdAt: users.createdAt,
     })
     .from(users)
@@ -514,6 +724,7 @@ export const getManagersWithCounsellors = async () => {
           officePhone: users.officePhone,
           personalPhone: users.personalPhone,
           designation: users.designation,
+          isActive: users.isActive,
           createdAt: users.createdAt,
         })
         .from(users)
@@ -21,8 +21,9 @@ router.get(
 );
 
 /**
- * Approve all finance payment
+ * Approve all finance payment (acts on the payment's approval request)
  * POST /api/all-finance/:financeId/approve
+ * Body: { comment? }
  * Access: admin, manager
  */
 router.post(
@@ -33,8 +34,9 @@ router.post(
 );
 
 /**
- * Reject all finance payment
+ * Reject all finance payment (acts on the payment's approval request)
  * POST /api/all-finance/:financeId/reject
+ * Body: { comment }
  * Access: admin, manager
  */
 router.post(
@@ -0,0 +1,130 @@
+import { Router } from "express";
+import { requireAuth, requireRole } from "../middlewares/auth.middleware";
+import { preventDuplicateRequests } from "../middlewares/requestDeduplication.middleware";
+import {
+  getApprovalRulesController,
+  createApprovalRuleController,
+  updateApprovalRuleController,
+  deleteApprovalRuleController,
+  getApprovalInboxController,
+  getApprovalRequestController,
+  getEntityApprovalsController,
+  approveApprovalRequestController,
+  rejectApprovalRequestController,
+} from "../controllers/approval.controller";
+
+const router = Router();
+
+/**
+ * List approval rules
+ * GET /api/approvals/rules
+ * Access: admin
+ */
+router.get(
+  "/rules",
+  requireAuth,
+  requireRole("admin"),
+  getApprovalRulesController
+);
+
+/**
+ * Create approval rule
+ * POST /api/approvals/rules
+ * Body: { name, entityType: "client_payment" | "product_payment", productName?, minAmount?, levels: ["manager", "admin"], isActive? }
+ * Access: admin
+ */
+router.post(
+  "/rules",
+  requireAuth,
+  requireRole("admin"),
+  preventDuplicateRequests,
+  createApprovalRuleController
+);
+
+/**
+ * Update approval rule
+ * PUT /api/approvals/rules/:ruleId
+ * Access: admin
+ */
+router.put(
+  "/rules/:ruleId",
+  requireAuth,
+  requireRole("admin"),
+  preventDuplicateRequests,
+  updateApprovalRuleController
+);
+
+/**
+ * Delete approval rule
+ * DELETE /api/approvals/rules/:ruleId
+ * Access: admin
+ */
+router.delete(
+  "/rules/:ruleId",
+  requireAuth,
+  requireRole("admin"),
+  preventDuplicateRequests,
+  deleteApprovalRuleController
+);
+
+/**
+ * Approval inbox of the logged-in approver
+ * GET /api/approvals/inbox?status=pending
+ * Access: admin, manager
+ */
+router.get(
+  "/inbox",
+  requireAuth,
+  requireRole("admin", "manager"),
+  getApprovalInboxController
+);
+
+/**
+ * Approval requests of a payment
+ * GET /api/approvals/entity/:entityType/:entityId
+ */
+router.get(
+  "/entity/:entityType/:entityId",
+  requireAuth,
+  getEntityApprovalsController
+);
+
+/**
+ * Approval request with history
+ * GET /api/approvals/:requestId
+ */
+router.get(
+  "/:requestId",
+  requireAuth,
+  getApprovalRequestController
+);
+
+/**
+ * Approve current level
+ * POST /api/approvals/:requestId/approve
+ * Body: { comment? }
+ * Access: admin, manager
+ */
+router.post(
+  "/:requestId/approve",
+  requireAuth,
+  requireRole("admin", "manager"),
+  preventDuplicateRequests,
+  approveApprovalRequestController
+);
+
+/**
+ * Reject request
+ * POST /api/approvals/:requestId/reject
+ * Body: { comment }
+ * Access: admin, manager
+ */
+router.post(
+  "/:requestId/reject",
+  requireAuth,
+  requireRole("admin", "manager"),
+  preventDuplicateRequests,
+  rejectApprovalRequestController
+);
+
+export default router;
@@ -0,0 +1,91 @@
+import { Router } from "express";
+import { requireAuth, requireRole } from "../middlewares/auth.middleware";
+import { preventDuplicateRequests } from "../middlewares/requestDeduplication.middleware";
+import {
+  getCaseStagesController,
+  createCaseStageController,
+  updateCaseStageController,
+  deleteCaseStageController,
+  changeClientCaseStageController,
+  getCaseKanbanController,
+} from "../controllers/caseStage.controller";
+
+const router = Router();
+
+/**
+ * Pipeline stages in order
+ * GET /api/case-pipeline/stages?includeInactive=true
+ * Access: admin, manager, counsellor
+ */
+router.get(
+  "/stages",
+  requireAuth,
+  requireRole("admin", "manager", "counsellor"),
+  getCaseStagesController
+);
+
+/**
+ * Create a stage
+ * POST /api/case-pipeline/stages
+ * Access: admin
+ */
+router.post(
+  "/stages",
+  requireAuth,
+  requireRole("admin"),
+  preventDuplicateRequests,
+  createCaseStageController
+);
+
+/**
+ * Update a stage (name, order, transitions, flags)
+ * PUT /api/case-pipeline/stages/:stageId
+ * Access: admin
+ */
+router.put(
+  "/stages/:stageId",
+  requireAuth,
+  requireRole("admin"),
+  preventDuplicateRequests,
+  updateCaseStageController
+);
+
+/**
+ * Delete a stage that no client is in
+ * DELETE /api/case-pipeline/stages/:stageId
+ * Access: admin
+ */
+router.delete(
+  "/stages/:stageId",
+  requireAuth,
+  requireRole("admin"),
+  preventDuplicateRequests,
+  deleteCaseStageController
+);
+
+/**
+ * Move a client to another stage
+ * PUT /api/case-pipeline/clients/:clientId/stage
+ * Access: admin, manager (own team), counsellor (own clients)
+ */
+router.put(
+  "/clients/:clientId/stage",
+  requireAuth,
+  requireRole("admin", "manager", "counsellor"),
+  preventDuplicateRequests,
+  changeClientCaseStageController
+);
+
+/**
+ * Clients grouped by stage with counts
+ * GET /api/case-pipeline/kanban?counsellorId=&includeArchived=true
+ * Access: admin, manager (own team), counsellor (own clients)
+ */
+router.get(
+  "/kanban",
+  requireAuth,
+  requireRole("admin", "manager", "counsellor"),
+  getCaseKanbanController
+);
+
+export default router;
@@ -1,5 +1,37 @@
-import { Router } from "express";
-import { saveClientController, getAllClientsByCounsellorController, getAllClientsController, getClientCompleteDetailsController, getArchivedClientsController, archiveClientController, getAllClientsForAdminController, transferClientController } from "../controllers/client.controller";
+import express, { Router } from "express";
+import { saveClientController, getAllClientsByCounsellorController, getAllClientsController, getClientCompleteDetailsController, getArchivedClientsController, archiveClientController, getAllClientsForAdminController, searchClientsController, getClientTimelineController } from "../controllers/client.controller";
+import {
+  getClientNotesController,
+  createClientNoteController,
+  updateClientNoteController,
+  pinClientNoteController,
+  deleteClientNoteController,
+  getClientNoteHistoryController,
+} from "../controllers/clientNote.controller";
+import {
+  uploadClientDocumentController,
+  getClientDocumentsController,
+  downloadClientDocumentController,
+  deleteClientDocumentController,
+} from "../controllers/clientDocument.controller";
+import {
+  transferClientController,
+  bulkTransferClientsController,
+  getClientTransfersController,
+  getClientTransferHistoryController,
+} from "../controllers/clientTransfer.controller";
+import { MAX_DOCUMENT_SIZE_BYTES } from "../models/clientDocument.model";
+import {
+  getFamilyMembersController,
+  createFamilyMemberController,
+  updateFamilyMemberController,
+  deleteFamilyMemberController,
+} from "../controllers/clientFamilyMember.controller";
+import {
+  checkClientDuplicatesController,
+  getClientDuplicatesController,
+  mergeClientsController,
+} from "../controllers/clientDuplicate.controller";
 import { requireAuth, requireRole } from "../middlewares/auth.middleware";
 import { preventDuplicateRequests } from "../middlewares/requestDeduplication.middleware";
 
@@ -7,6 +39,10 @@ const router = Router();
 
 /**
  * Counsellor / Admin can create client
+ * Body: { clientId? (update), fullName, enrollmentDate, passportDetails, leadTypeId,
+ *         phone?, email?, address?, dateOfBirth?, nationality?, destinationCountry?,
+ *         visaCategory?, applicationDate?, decisionDate? (dates YYYY-MM-DD) }
+ * New clients come back with warnings.possibleDuplicates (see /duplicates/check)
  */
 router.post(
   "/",
@@ -16,6 +52,31 @@ router.post(
   saveClientController
 );
 
+/**
+ * Search clients with filters, sorting and cursor pagination (role scoped)
+ * Query: search (name, passport, email, phone), leadTypeId, saleTypeId, stage, counsellorId, managerId,
+ *        enrollmentFrom, enrollmentTo (YYYY-MM-DD), destinationCountry, visaCategory, archived (true/false/all),
+ *        hasPendingAmount, sortBy (enrollmentDate/fullName/clientId),
+ *        sortOrder (asc/desc), limit (max 100), cursor
+ */
+router.get(
+  "/",
+  requireAuth,
+  requireRole("admin", "counsellor", "manager"),
+  searchClientsController
+);
+
+/**
+ * Possible duplicates of a client about to be created (fuzzy name, normalized passport, phone, email, date of birth)
+ * Body: { fullName?, passportDetails?, phone?, email?, dateOfBirth? }
+ */
+router.post(
+  "/duplicates/check",
+  requireAuth,
+  requireRole("admin", "counsellor", "manager"),
+  checkClientDuplicatesController
+);
+
 /**
  * Get all clients (for counsellor / admin) - excludes archived clients
  */
@@ -58,6 +119,176 @@ router.get(
   getClientCompleteDetailsController
 );
 
+/**
+ * Client timeline: notes, payments, product payments, refunds, transfers, archive events,
+ * tasks and approvals in one chronological feed (newest first)
+ * Query: types (comma separated), before (nextCursor of the previous page), limit (max 200)
+ */
+router.get(
+  "/:clientId/timeline",
+  requireAuth, requireRole("admin", "counsellor", "manager"),
+  getClientTimelineController
+);
+
+/**
+ * Counsellor ownership history of a client (who, from, to, why, when)
+ */
+router.get(
+  "/:clientId/transfers",
+  requireAuth, requireRole("admin", "counsellor", "manager"),
+  getClientTransferHistoryController
+);
+
+/**
+ * Possible duplicates of an existing client, highest score first
+ */
+router.get(
+  "/:clientId/duplicates",
+  requireAuth, requireRole("admin", "counsellor", "manager"),
+  getClientDuplicatesController
+);
+
+/**
+ * Client notes (pinned first)
+ */
+router.get(
+  "/:clientId/notes",
+  requireAuth, requireRole("admin", "counsellor", "manager"),
+  getClientNotesController
+);
+
+/**
+ * Add a note
+ * Body: { "body": "..." }
+ */
+router.post(
+  "/:clientId/notes",
+  requireAuth, requireRole("admin", "counsellor", "manager"),
+  preventDuplicateRequests,
+  createClientNoteController
+);
+
+/**
+ * Edit a note (author or admin) - previous text is kept in the history
+ * Body: { "body": "..." }
+ */
+router.put(
+  "/:clientId/notes/:noteId",
+  requireAuth, requireRole("admin", "counsellor", "manager"),
+  preventDuplicateRequests,
+  updateClientNoteController
+);
+
+/**
+ * Pin / unpin a note
+ * Body: { "pinned": true/false }
+ */
+router.put(
+  "/:clientId/notes/:noteId/pin",
+  requireAuth, requireRole("admin", "counsellor", "manager"),
+  preventDuplicateRequests,
+  pinClientNoteController
+);
+
+/**
+ * Delete a note (author or admin)
+ */
+router.delete(
+  "/:clientId/notes/:noteId",
+  requireAuth, requireRole("admin", "counsellor", "manager"),
+  preventDuplicateRequests,
+  deleteClientNoteController
+);
+
+/**
+ * Edit history of a note
+ */
+router.get(
+  "/:clientId/notes/:noteId/history",
+  requireAuth, requireRole("admin", "counsellor", "manager"),
+  getClientNoteHistoryController
+);
+
+/**
+ * Family members (spouse, dependants) of a client
+ */
+router.get(
+  "/:clientId/family-members",
+  requireAuth, requireRole("admin", "counsellor", "manager"),
+  getFamilyMembersController
+);
+
+/**
+ * Add a family member
+ * Body: { relationship: "spouse" | "child" | "parent" | "sibling" | "other", fullName, dateOfBirth?, passportDetails?, nationality? }
+ */
+router.post(
+  "/:clientId/family-members",
+  requireAuth, requireRole("admin", "counsellor", "manager"),
+  preventDuplicateRequests,
+  createFamilyMemberController
+);
+
+/**
+ * Update a family member
+ */
+router.put(
+  "/:clientId/family-members/:memberId",
+  requireAuth, requireRole("admin", "counsellor", "manager"),
+  preventDuplicateRequests,
+  updateFamilyMemberController
+);
+
+/**
+ * Remove a family member
+ */
+router.delete(
+  "/:clientId/family-members/:memberId",
+  requireAuth, requireRole("admin", "counsellor", "manager"),
+  preventDuplicateRequests,
+  deleteFamilyMemberController
+);
+
+/**
+ * Client documents (passport, marriage certificate, affidavit, IELTS result, loan letter, ...)
+ * Query: documentType, productPaymentId
+ */
+router.get(
+  "/:clientId/documents",
+  requireAuth, requireRole("admin", "counsellor", "manager"),
+  getClientDocumentsController
+);
+
+/**
+ * Upload a document - the file is the raw request body (Content-Type = file type)
+ * Query: documentType, fileName, expiryDate (YYYY-MM-DD), productPaymentId
+ */
+router.post(
+  "/:clientId/documents",
+  requireAuth, requireRole("admin", "counsellor", "manager"),
+  express.raw({ type: () => true, limit: MAX_DOCUMENT_SIZE_BYTES }),
+  uploadClientDocumentController
+);
+
+/**
+ * Download a document
+ */
+router.get(
+  "/:clientId/documents/:documentId/download",
+  requireAuth, requireRole("admin", "counsellor", "manager"),
+  downloadClientDocumentController
+);
+
+/**
+ * Delete a document (counsellors only their own uploads)
+ */
+router.delete(
+  "/:clientId/documents/:documentId",
+  requireAuth, requireRole("admin", "counsellor", "manager"),
+  preventDuplicateRequests,
+  deleteClientDocumentController
+);
+
 /**
  * Get client full details by ID
  */
@@ -77,10 +308,48 @@ router.get(
   getAllClientsForAdminController
 );
 
-// Client Transfer to another counsellor
+/**
+ * Transfer a client to another counsellor (recorded in the transfer history)
+ * Body: { clientId, counsellorId, reason? }
+ * Managers transfer between counsellors of their own team
+ */
 router.put(
   "/admin/transfer-client",
-  requireAuth, requireRole("admin"),
+  requireAuth, requireRole("admin", "manager"),
+  preventDuplicateRequests,
   transferClientController
 );
+
+/**
+ * Move a counsellor's active clients (or the listed ones) to another counsellor
+ * Body: { fromCounsellorId, toCounsellorId, clientIds?, includeArchived?, reason? }
+ */
+router.post(
+  "/admin/bulk-transfer",
+  requireAuth, requireRole("admin", "manager"),
+  preventDuplicateRequests,
+  bulkTransferClientsController
+);
+
+/**
+ * Transfer history across clients
+ * Query: clientId, counsellorId, batchId, from, to (YYYY-MM-DD), limit, offset
+ */
+router.get(
+  "/admin/transfers",
+  requireAuth, requireRole("admin", "manager"),
+  getClientTransfersController
+);
+
+/**
+ * Merge a duplicate client into the surviving client (payments, product payments, documents,
+ * notes, tasks, activity logs, ... move over; the duplicate is deleted)
+ * Body: { survivorClientId, duplicateClientId, fillMissingFields?: boolean }
+ */
+router.post(
+  "/admin/merge-clients",
+  requireAuth, requireRole("admin"),
+  preventDuplicateRequests,
+  mergeClientsController
+);
 export default router;
@@ -0,0 +1,76 @@
+import express, { Router } from "express";
+import { requireAuth, requireRole } from "../middlewares/auth.middleware";
+import {
+  runImportController,
+  getImportFieldsController,
+  getImportJobsController,
+  getImportJobController,
+  downloadImportResultController,
+} from "../controllers/clientImport.controller";
+import { MAX_IMPORT_FILE_SIZE_BYTES } from "../models/clientImport.model";
+
+const router = Router();
+
+/**
+ * Import clients, payments and product payments from CSV / XLSX (dry run by default)
+ * POST /api/imports?fileName=&dryRun=true|false&defaultCounsellorId=&columnMapping=
+ * Body: raw file, Content-Type = file mime type
+ * Access: admin
+ */
+router.post(
+  "/",
+  requireAuth,
+  requireRole("admin"),
+  express.raw({ type: () => true, limit: MAX_IMPORT_FILE_SIZE_BYTES }),
+  runImportController
+);
+
+/**
+ * Importable fields and recognised column headers
+ * GET /api/imports/fields
+ * Access: admin
+ */
+router.get(
+  "/fields",
+  requireAuth,
+  requireRole("admin"),
+  getImportFieldsController
+);
+
+/**
+ * Import jobs
+ * GET /api/imports?limit=&offset=
+ * Access: admin
+ */
+router.get(
+  "/",
+  requireAuth,
+  requireRole("admin"),
+  getImportJobsController
+);
+
+/**
+ * Import job with row results
+ * GET /api/imports/:importJobId
+ * Access: admin
+ */
+router.get(
+  "/:importJobId",
+  requireAuth,
+  requireRole("admin"),
+  getImportJobController
+);
+
+/**
+ * Row results as CSV
+ * GET /api/imports/:importJobId/result
+ * Access: admin
+ */
+router.get(
+  "/:importJobId/result",
+  requireAuth,
+  requireRole("admin"),
+  downloadImportResultController
+);
+
+export default router;
@@ -2,7 +2,14 @@ import { Router } from "express";
 import {
   saveClientPaymentController,
   getClientPaymentsController,
+  getClientPaymentInvoiceController,
 } from "../controllers/clientPayment.controller";
+import {
+  saveInstallmentScheduleController,
+  getClientInstallmentsController,
+  getOverdueInstallmentsController,
+  getUpcomingInstallmentsController,
+} from "../controllers/paymentInstallment.controller";
 import { requireAuth, requireRole } from "../middlewares/auth.middleware";
 import { preventDuplicateRequests } from "../middlewares/requestDeduplication.middleware";
 
@@ -22,4 +29,38 @@ router.get(
   getClientPaymentsController
 );
 
+/**
+ * Save installment schedule for a client + sale type (Admin / Counsellor / Manager)
+ * Body: { clientId, saleTypeId, installments: [{ installmentId?, stage, dueDate, expectedAmount, remarks? }] }
+ */
+router.post("/installments", requireAuth, requireRole("admin", "counsellor", "manager"), preventDuplicateRequests, saveInstallmentScheduleController);
+
+/**
+ * Overdue installments grouped by counsellor (scoped by role)
+ */
+router.get("/installments/overdue", requireAuth, requireRole("admin", "counsellor", "manager"), getOverdueInstallmentsController);
+
+/**
+ * Installments due in the next N days grouped by counsellor (scoped by role)
+ */
+router.get("/installments/upcoming", requireAuth, requireRole("admin", "counsellor", "manager"), getUpcomingInstallmentsController);
+
+/**
+ * Get installment schedule by client
+ */
+router.get(
+  "/installments/client/:clientId",
+  requireAuth,
+  getClientInstallmentsController
+);
+
+/**
+ * Download invoice PDF for a payment (stored once; a revised version is added when the payment changes, ?version=N for earlier ones)
+ */
+router.get(
+  "/:paymentId/invoice.pdf",
+  requireAuth,
+  getClientPaymentInvoiceController
+);
+
 export default router;
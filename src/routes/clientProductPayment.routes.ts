@@ -2,6 +2,7 @@ import { Router } from "express";
 import {
   saveClientProductPaymentController,
   getClientProductPaymentsController,
+  getProductPaymentInvoiceController,
 } from "../controllers/clientProductPayment.controller";
 import { requireAuth } from "../middlewares/auth.middleware";
 import { preventDuplicateRequests } from "../middlewares/requestDeduplication.middleware";
@@ -22,4 +23,13 @@ router.get(
   getClientProductPaymentsController
 );
 
+/**
+ * Download invoice PDF for a product payment (stored once; a revised version is added when the payment changes, ?version=N for earlier ones)
+ */
+router.get(
+  "/:productPaymentId/invoice.pdf",
+  requireAuth,
+  getProductPaymentInvoiceController
+);
+
 export default router;
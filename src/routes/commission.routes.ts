@@ -0,0 +1,195 @@
+import { Router } from "express";
+import { requireAuth, requireRole } from "../middlewares/auth.middleware";
+import { preventDuplicateRequests } from "../middlewares/requestDeduplication.middleware";
+import {
+  getCommissionPlansController,
+  getCommissionPlanController,
+  createCommissionPlanController,
+  updateCommissionPlanController,
+  deleteCommissionPlanController,
+  getCommissionOverridesController,
+  setCommissionOverrideController,
+  removeCommissionOverrideController,
+  getCommissionStatementsController,
+  getCommissionStatementController,
+  calculateCommissionStatementsController,
+  setCommissionAdjustmentController,
+  lockCommissionStatementController,
+} from "../controllers/commission.controller";
+
+const router = Router();
+
+/**
+ * List commission plans
+ * GET /api/commissions/plans
+ * Access: admin, manager
+ */
+router.get(
+  "/plans",
+  requireAuth,
+  requireRole("admin", "manager"),
+  getCommissionPlansController
+);
+
+/**
+ * Get commission plan
+ * GET /api/commissions/plans/:planId
+ * Access: admin, manager
+ */
+router.get(
+  "/plans/:planId",
+  requireAuth,
+  requireRole("admin", "manager"),
+  getCommissionPlanController
+);
+
+/**
+ * Create commission plan
+ * POST /api/commissions/plans
+ * Body: {
+ *   name, description?, isDefault?, isActive?,
+ *   rules: [{ ruleType: "sale_type", saleTypeId, calcType: "flat" | "percentage", value }
+ *         | { ruleType: "product", productName, calcType, value }],
+ *   tiers: [{ minAttainment: 100, multiplier: 1.2, bonusAmount: 5000 }]
+ * }
+ * Access: admin
+ */
+router.post(
+  "/plans",
+  requireAuth,
+  requireRole("admin"),
+  preventDuplicateRequests,
+  createCommissionPlanController
+);
+
+/**
+ * Update commission plan (rules / tiers replace existing ones when sent)
+ * PUT /api/commissions/plans/:planId
+ * Access: admin
+ */
+router.put(
+  "/plans/:planId",
+  requireAuth,
+  requireRole("admin"),
+  preventDuplicateRequests,
+  updateCommissionPlanController
+);
+
+/**
+ * Delete commission plan
+ * DELETE /api/commissions/plans/:planId
+ * Access: admin
+ */
+router.delete(
+  "/plans/:planId",
+  requireAuth,
+  requireRole("admin"),
+  preventDuplicateRequests,
+  deleteCommissionPlanController
+);
+
+/**
+ * List plan overrides
+ * GET /api/commissions/overrides
+ * Access: admin, manager (own team)
+ */
+router.get(
+  "/overrides",
+  requireAuth,
+  requireRole("admin", "manager"),
+  getCommissionOverridesController
+);
+
+/**
+ * Override the plan of a counsellor
+ * PUT /api/commissions/overrides/:counsellorId
+ * Body: { planId, reason? }
+ * Access: admin, manager (own team)
+ */
+router.put(
+  "/overrides/:counsellorId",
+  requireAuth,
+  requireRole("admin", "manager"),
+  preventDuplicateRequests,
+  setCommissionOverrideController
+);
+
+/**
+ * Remove plan override of a counsellor
+ * DELETE /api/commissions/overrides/:counsellorId
+ * Access: admin, manager (own team)
+ */
+router.delete(
+  "/overrides/:counsellorId",
+  requireAuth,
+  requireRole("admin", "manager"),
+  preventDuplicateRequests,
+  removeCommissionOverrideController
+);
+
+/**
+ * List payout statements
+ * GET /api/commissions/statements?month=1&year=2026&status=draft&counsellorId=
+ * Access: admin, manager (own team), counsellor (own)
+ */
+router.get(
+  "/statements",
+  requireAuth,
+  requireRole("admin", "manager", "counsellor"),
+  getCommissionStatementsController
+);
+
+/**
+ * Calculate / recalculate draft statements (locked statements are skipped)
+ * POST /api/commissions/statements/calculate
+ * Body: { month, year, counsellorId? }
+ * Access: admin
+ */
+router.post(
+  "/statements/calculate",
+  requireAuth,
+  requireRole("admin"),
+  preventDuplicateRequests,
+  calculateCommissionStatementsController
+);
+
+/**
+ * Payout statement with lines
+ * GET /api/commissions/statements/:statementId
+ * Access: admin, manager (own team), counsellor (own)
+ */
+router.get(
+  "/statements/:statementId",
+  requireAuth,
+  requireRole("admin", "manager", "counsellor"),
+  getCommissionStatementController
+);
+
+/**
+ * Set manual adjustment on a draft statement
+ * PUT /api/commissions/statements/:statementId/adjustment
+ * Body: { amount, reason }
+ * Access: admin, manager (own team)
+ */
+router.put(
+  "/statements/:statementId/adjustment",
+  requireAuth,
+  requireRole("admin", "manager"),
+  preventDuplicateRequests,
+  setCommissionAdjustmentController
+);
+
+/**
+ * Lock statement for payout
+ * POST /api/commissions/statements/:statementId/lock
+ * Access: admin
+ */
+router.post(
+  "/statements/:statementId/lock",
+  requireAuth,
+  requireRole("admin"),
+  preventDuplicateRequests,
+  lockCommissionStatementController
+);
+
+export default router;
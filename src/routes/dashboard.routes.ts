@@ -1,6 +1,10 @@
 import { Router } from "express";
 import { requireAuth, requireRole } from "../middlewares/auth.middleware";
-import { getDashboardStatsController } from "../controllers/dashboard.controller";
+import {
+  getDashboardStatsController,
+  getLeadConversionController,
+  getSourceAttributionController,
+} from "../controllers/dashboard.controller";
 
 const router = Router();
 
@@ -21,4 +25,34 @@ router.get(
   getDashboardStatsController
 );
 
+/**
+ * GET /api/dashboard/lead-conversion
+ * Query params:
+ * - groupBy: "counsellor" | "leadType" | "leadSource" | "referralAgent" (default: "counsellor")
+ * - from / to: YYYY-MM-DD, on the lead's creation date (optional)
+ *
+ * Access: admin, manager (own team + unassigned), counsellor (own leads)
+ */
+router.get(
+  "/lead-conversion",
+  requireAuth,
+  requireRole("admin", "manager", "counsellor"),
+  getLeadConversionController
+);
+
+/**
+ * GET /api/dashboard/source-attribution
+ * Query params:
+ * - groupBy: "leadSource" | "referralAgent" (default: "leadSource")
+ * - from / to: YYYY-MM-DD, enrollment date range (optional)
+ *
+ * Access: admin, manager (own team; cost per enrollment for supervisors only)
+ */
+router.get(
+  "/source-attribution",
+  requireAuth,
+  requireRole("admin", "manager"),
+  getSourceAttributionController
+);
+
 export default router;
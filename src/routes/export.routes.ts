@@ -0,0 +1,60 @@
+import { Router } from "express";
+import { requireAuth, requireRole } from "../middlewares/auth.middleware";
+import {
+  exportClientsController,
+  exportPaymentsController,
+  exportProductPaymentsController,
+  exportActivityLogsController,
+} from "../controllers/export.controller";
+
+const router = Router();
+
+/**
+ * Export clients as CSV / XLSX (streamed)
+ * GET /api/exports/clients?format=csv|xlsx + client list filters
+ * Access: admin, manager (own team unless supervisor)
+ */
+router.get(
+  "/clients",
+  requireAuth,
+  requireRole("admin", "manager"),
+  exportClientsController
+);
+
+/**
+ * Export core payments as CSV / XLSX (streamed)
+ * GET /api/exports/payments?format=&paymentFrom=&paymentTo= + client list filters
+ * Access: admin, manager (own team unless supervisor)
+ */
+router.get(
+  "/payments",
+  requireAuth,
+  requireRole("admin", "manager"),
+  exportPaymentsController
+);
+
+/**
+ * Export product payments with flattened entity details as CSV / XLSX (streamed)
+ * GET /api/exports/product-payments?format=&productName=&entityType=&paymentFrom=&paymentTo= + client list filters
+ * Access: admin, manager (own team unless supervisor)
+ */
+router.get(
+  "/product-payments",
+  requireAuth,
+  requireRole("admin", "manager"),
+  exportProductPaymentsController
+);
+
+/**
+ * Export activity logs as CSV / XLSX (streamed)
+ * GET /api/exports/activity-logs?format=&clientId=&action=&entityType=&startDate=&endDate=
+ * Access: admin, manager (counsellor activities only)
+ */
+router.get(
+  "/activity-logs",
+  requireAuth,
+  requireRole("admin", "manager"),
+  exportActivityLogsController
+);
+
+export default router;
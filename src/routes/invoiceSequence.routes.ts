@@ -0,0 +1,65 @@
+import { Router } from "express";
+import { requireAuth, requireRole } from "../middlewares/auth.middleware";
+import { preventDuplicateRequests } from "../middlewares/requestDeduplication.middleware";
+import {
+  getInvoiceSequenceConfigController,
+  updateInvoiceSequenceConfigController,
+  getInvoiceNumbersController,
+  voidInvoiceNumberController,
+} from "../controllers/invoiceSequence.controller";
+
+const router = Router();
+
+/**
+ * Get invoice sequence configuration
+ * GET /api/invoice-sequences/config
+ * Access: admin
+ */
+router.get(
+  "/config",
+  requireAuth,
+  requireRole("admin"),
+  getInvoiceSequenceConfigController
+);
+
+/**
+ * Update invoice sequence configuration
+ * PUT /api/invoice-sequences/config
+ * Body: { prefix?, format?, padding?, fyStartMonth?, allowManualInvoiceNo? }
+ * Access: admin
+ */
+router.put(
+  "/config",
+  requireAuth,
+  requireRole("admin"),
+  preventDuplicateRequests,
+  updateInvoiceSequenceConfigController
+);
+
+/**
+ * List allocated invoice numbers
+ * GET /api/invoice-sequences/numbers?status=voided&financialYear=2026-27
+ * Access: admin
+ */
+router.get(
+  "/numbers",
+  requireAuth,
+  requireRole("admin"),
+  getInvoiceNumbersController
+);
+
+/**
+ * Void an invoice number
+ * POST /api/invoice-sequences/numbers/:id/void
+ * Body: { reason }
+ * Access: admin
+ */
+router.post(
+  "/numbers/:id/void",
+  requireAuth,
+  requireRole("admin"),
+  preventDuplicateRequests,
+  voidInvoiceNumberController
+);
+
+export default router;
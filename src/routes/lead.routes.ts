@@ -0,0 +1,91 @@
+import { Router } from "express";
+import { requireAuth, requireRole } from "../middlewares/auth.middleware";
+import { preventDuplicateRequests } from "../middlewares/requestDeduplication.middleware";
+import {
+  getLeadsController,
+  getLeadController,
+  createLeadController,
+  updateLeadController,
+  deleteLeadController,
+  convertLeadController,
+} from "../controllers/lead.controller";
+
+const router = Router();
+
+/**
+ * Leads visible to the user
+ * GET /api/leads?status=&counsellorId=&unassigned=true&leadTypeId=&leadSourceId=&referralAgentId=&search=&followUpDue=true&createdFrom=&createdTo=
+ * Access: admin, manager (own team + unassigned), counsellor (own leads)
+ */
+router.get(
+  "/",
+  requireAuth,
+  requireRole("admin", "manager", "counsellor"),
+  getLeadsController
+);
+
+/**
+ * Single lead
+ * GET /api/leads/:leadId
+ * Access: admin, manager (own team + unassigned), counsellor (own leads)
+ */
+router.get(
+  "/:leadId",
+  requireAuth,
+  requireRole("admin", "manager", "counsellor"),
+  getLeadController
+);
+
+/**
+ * Create a lead
+ * POST /api/leads
+ * Access: admin, manager, counsellor (assigned to themselves)
+ */
+router.post(
+  "/",
+  requireAuth,
+  requireRole("admin", "manager", "counsellor"),
+  preventDuplicateRequests,
+  createLeadController
+);
+
+/**
+ * Update a lead (details, assignment, status, follow-up date)
+ * PUT /api/leads/:leadId
+ * Access: admin, manager (own team + unassigned), counsellor (own leads)
+ */
+router.put(
+  "/:leadId",
+  requireAuth,
+  requireRole("admin", "manager", "counsellor"),
+  preventDuplicateRequests,
+  updateLeadController
+);
+
+/**
+ * Delete a lead that has not been converted
+ * DELETE /api/leads/:leadId
+ * Access: admin, manager (own team + unassigned)
+ */
+router.delete(
+  "/:leadId",
+  requireAuth,
+  requireRole("admin", "manager"),
+  preventDuplicateRequests,
+  deleteLeadController
+);
+
+/**
+ * Convert a lead into a client
+ * POST /api/leads/:leadId/convert
+ * Access: admin, manager (own team + unassigned), counsellor (own leads)
+ */
+router.post(
+  "/:leadId/convert",
+  requireAuth,
+  requireRole("admin", "manager", "counsellor"),
+  preventDuplicateRequests,
+  convertLeadController
+);
+
+export default router;
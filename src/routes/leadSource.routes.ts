@@ -0,0 +1,160 @@
+import { Router } from "express";
+import { requireAuth, requireRole } from "../middlewares/auth.middleware";
+import { preventDuplicateRequests } from "../middlewares/requestDeduplication.middleware";
+import {
+  getLeadSourcesController,
+  createLeadSourceController,
+  updateLeadSourceController,
+  deleteLeadSourceController,
+  getReferralAgentsController,
+  createReferralAgentController,
+  updateReferralAgentController,
+  getLeadSourceCostsController,
+  addLeadSourceCostController,
+  deleteLeadSourceCostController,
+  setClientAttributionController,
+} from "../controllers/leadSource.controller";
+
+const router = Router();
+
+/**
+ * Acquisition sources in display order
+ * GET /api/lead-sources?includeInactive=true
+ * Access: admin, manager, counsellor
+ */
+router.get(
+  "/",
+  requireAuth,
+  requireRole("admin", "manager", "counsellor"),
+  getLeadSourcesController
+);
+
+/**
+ * Create a source
+ * POST /api/lead-sources
+ * Access: admin
+ */
+router.post(
+  "/",
+  requireAuth,
+  requireRole("admin"),
+  preventDuplicateRequests,
+  createLeadSourceController
+);
+
+/**
+ * Referral agents / partners
+ * GET /api/lead-sources/agents?search=&includeInactive=true
+ * Access: admin, manager, counsellor
+ */
+router.get(
+  "/agents",
+  requireAuth,
+  requireRole("admin", "manager", "counsellor"),
+  getReferralAgentsController
+);
+
+/**
+ * Create a referral agent
+ * POST /api/lead-sources/agents
+ * Access: admin, manager
+ */
+router.post(
+  "/agents",
+  requireAuth,
+  requireRole("admin", "manager"),
+  preventDuplicateRequests,
+  createReferralAgentController
+);
+
+/**
+ * Update a referral agent
+ * PUT /api/lead-sources/agents/:agentId
+ * Access: admin, manager
+ */
+router.put(
+  "/agents/:agentId",
+  requireAuth,
+  requireRole("admin", "manager"),
+  preventDuplicateRequests,
+  updateReferralAgentController
+);
+
+/**
+ * Marketing spend entries
+ * GET /api/lead-sources/costs?sourceId=&from=&to=
+ * Access: admin
+ */
+router.get(
+  "/costs",
+  requireAuth,
+  requireRole("admin"),
+  getLeadSourceCostsController
+);
+
+/**
+ * Delete a spend entry
+ * DELETE /api/lead-sources/costs/:costId
+ * Access: admin
+ */
+router.delete(
+  "/costs/:costId",
+  requireAuth,
+  requireRole("admin"),
+  preventDuplicateRequests,
+  deleteLeadSourceCostController
+);
+
+/**
+ * Set a client's source and referrer
+ * PUT /api/lead-sources/clients/:clientId/attribution
+ * Access: admin, manager (own team), counsellor (own clients)
+ */
+router.put(
+  "/clients/:clientId/attribution",
+  requireAuth,
+  requireRole("admin", "manager", "counsellor"),
+  preventDuplicateRequests,
+  setClientAttributionController
+);
+
+/**
+ * Update a source (name, referral type, order, active flag)
+ * PUT /api/lead-sources/:sourceId
+ * Access: admin
+ */
+router.put(
+  "/:sourceId",
+  requireAuth,
+  requireRole("admin"),
+  preventDuplicateRequests,
+  updateLeadSourceController
+);
+
+/**
+ * Delete a source no client or lead uses
+ * DELETE /api/lead-sources/:sourceId
+ * Access: admin
+ */
+router.delete(
+  "/:sourceId",
+  requireAuth,
+  requireRole("admin"),
+  preventDuplicateRequests,
+  deleteLeadSourceController
+);
+
+/**
+ * Record spend for a source over a period
+ * POST /api/lead-sources/:sourceId/costs
+ * Access: admin
+ */
+router.post(
+  "/:sourceId/costs",
+  requireAuth,
+  requireRole("admin"),
+  preventDuplicateRequests,
+  addLeadSourceCostController
+);
+
+export default router;
@@ -4,6 +4,15 @@ import {
   getLeaderboardSummaryController,
   setTargetController,
   updateTargetController,
+  setTeamTargetsController,
+  getTargetsController,
+  getLeaderboardWeightsController,
+  updateLeaderboardWeightsController,
+  getTeamLeaderboardController,
+  getTeamMembersController,
+  getLeaderboardSnapshotController,
+  createLeaderboardSnapshotController,
+  getCounsellorRankHistoryController,
 } from "../controllers/leaderboard.controller";
 import { requireAuth, requireRole } from "../middlewares/auth.middleware";
 import { preventDuplicateRequests } from "../middlewares/requestDeduplication.middleware";
@@ -11,8 +20,9 @@ import { preventDuplicateRequests } from "../middlewares/requestDeduplication.mi
 const router = Router();
 
 /**
- * Get leaderboard (ranked counsellors)
- * GET /api/leaderboard?month=1&year=2026
+ * Get leaderboard (ranked counsellors, per-metric attainment and composite score)
+ * GET /api/leaderboard?month=1&year=2026&scope=team&managerId=
+ * scope=team: manager sees own team (admin passes managerId)
  * Access: admin, manager, counsellor
  */
 router.get(
@@ -22,6 +32,68 @@ router.get(
   getLeaderboardController
 );
 
+/**
+ * Get team leaderboard (managers' teams ranked by combined metrics)
+ * GET /api/leaderboard/teams?month=1&year=2026
+ * Access: admin, manager, counsellor
+ */
+router.get(
+  "/teams",
+  requireAuth,
+  requireRole("admin", "manager", "counsellor"),
+  getTeamLeaderboardController
+);
+
+/**
+ * Drill down into a team's members
+ * GET /api/leaderboard/teams/:managerId?month=1&year=2026  (managerId = "unassigned" for counsellors without manager)
+ * Access: admin, manager (own team / supervisor), counsellor (own team)
+ */
+router.get(
+  "/teams/:managerId",
+  requireAuth,
+  requireRole("admin", "manager", "counsellor"),
+  getTeamMembersController
+);
+
+/**
+ * Get frozen leaderboard of a closed month
+ * GET /api/leaderboard/snapshots?month=1&year=2026 (defaults to the last closed month)
+ * Access: admin, manager, counsellor
+ */
+router.get(
+  "/snapshots",
+  requireAuth,
+  requireRole("admin", "manager", "counsellor"),
+  getLeaderboardSnapshotController
+);
+
+/**
+ * Snapshot a closed month manually (the cron snapshots the previous month on the 1st)
+ * POST /api/leaderboard/snapshots
+ * Body: { month, year, overwrite?: boolean }
+ * Access: admin
+ */
+router.post(
+  "/snapshots",
+  requireAuth,
+  requireRole("admin"),
+  preventDuplicateRequests,
+  createLeaderboardSnapshotController
+);
+
+/**
+ * Rank history and trend of a counsellor over the last N closed months
+ * GET /api/leaderboard/history/:counsellorId?periods=6
+ * Access: admin, manager (own team / supervisor), counsellor (own)
+ */
+router.get(
+  "/history/:counsellorId",
+  requireAuth,
+  requireRole("admin", "manager", "counsellor"),
+  getCounsellorRankHistoryController
+);
+
 /**
  * Get leaderboard summary (total counsellors, enrollments, revenue)
  * GET /api/leaderboard/summary?month=1&year=2026
@@ -37,7 +109,7 @@ router.get(
 /**
  * Set target for counsellor
  * POST /api/leaderboard/target
- * Body: { counsellorId, target, month, year }
+ * Body: { counsellorId, target, month, year } or { counsellorId, target, periodType: "quarter", quarter, year }
  * Access: admin, manager
  */
 router.post(
@@ -62,4 +134,56 @@ router.put(
   updateTargetController
 );
 
+/**
+ * Get targets of a period
+ * GET /api/leaderboard/targets?periodType=month&period=1&year=2026&managerId=
+ * Access: admin, manager (own team)
+ */
+router.get(
+  "/targets",
+  requireAuth,
+  requireRole("admin", "manager"),
+  getTargetsController
+);
+
+/**
+ * Set targets for a whole team, for past or future periods
+ * POST /api/leaderboard/targets/bulk
+ * Body: { periodType?: "month" | "quarter", periods: [{ period, year }], managerId? (admin), target? | targets?: [{ counsellorId, target }] }
+ * Access: admin, manager (own team)
+ */
+router.post(
+  "/targets/bulk",
+  requireAuth,
+  requireRole("admin", "manager"),
+  preventDuplicateRequests,
+  setTeamTargetsController
+);
+
+/**
+ * Get metric weights used for the composite ranking
+ * GET /api/leaderboard/weights
+ * Access: admin, manager
+ */
+router.get(
+  "/weights",
+  requireAuth,
+  requireRole("admin", "manager"),
+  getLeaderboardWeightsController
+);
+
+/**
+ * Update metric weights
+ * PUT /api/leaderboard/weights
+ * Body: { enrollments?, coreSaleRevenue?, coreProductCount?, otherProductRevenue? }
+ * Access: admin
+ */
+router.put(
+  "/weights",
+  requireAuth,
+  requireRole("admin"),
+  preventDuplicateRequests,
+  updateLeaderboardWeightsController
+);
+
 export default router;
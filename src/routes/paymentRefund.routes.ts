@@ -0,0 +1,76 @@
+import { Router } from "express";
+import { requireAuth, requireRole } from "../middlewares/auth.middleware";
+import { preventDuplicateRequests } from "../middlewares/requestDeduplication.middleware";
+import {
+  createRefundController,
+  getRefundsController,
+  getClientRefundsController,
+  approveRefundController,
+  rejectRefundController,
+} from "../controllers/paymentRefund.controller";
+
+const router = Router();
+
+/**
+ * Request a refund / reversal / credit note
+ * POST /api/refunds
+ * Body: { clientPaymentId | productPaymentId, refundType?, amount, refundDate?, creditNoteNo?, reason }
+ * Access: admin, manager (own team), counsellor (own clients)
+ */
+router.post(
+  "/",
+  requireAuth,
+  requireRole("admin", "manager", "counsellor"),
+  preventDuplicateRequests,
+  createRefundController
+);
+
+/**
+ * List refunds
+ * GET /api/refunds?status=&clientId=
+ * Access: admin, manager (own team)
+ */
+router.get(
+  "/",
+  requireAuth,
+  requireRole("admin", "manager"),
+  getRefundsController
+);
+
+/**
+ * Get refunds by client
+ * GET /api/refunds/client/:clientId
+ * Access: admin, manager (own team), counsellor (own clients)
+ */
+router.get(
+  "/client/:clientId",
+  requireAuth,
+  requireRole("admin", "manager", "counsellor"),
+  getClientRefundsController
+);
+
+/**
+ * Approve refund
+ * POST /api/refunds/:refundId/approve
+ * Access: admin, manager (own team)
+ */
+router.post(
+  "/:refundId/approve",
+  requireAuth,
+  requireRole("admin", "manager"),
+  approveRefundController
+);
+
+/**
+ * Reject refund
+ * POST /api/refunds/:refundId/reject
+ * Access: admin, manager (own team)
+ */
+router.post(
+  "/:refundId/reject",
+  requireAuth,
+  requireRole("admin", "manager"),
+  rejectRefundController
+);
+
+export default router;
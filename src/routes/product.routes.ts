@@ -0,0 +1,23 @@
+import { Router } from "express";
+import {
+  createProductController,
+  getProductsController,
+  updateProductController,
+  deleteProductController,
+  getProductSchemaController,
+} from "../controllers/product.controller";
+import { requireAuth, requireRole } from "../middlewares/auth.middleware";
+import { preventDuplicateRequests } from "../middlewares/requestDeduplication.middleware";
+
+const router = Router();
+
+/**
+ * Admin only
+ */
+router.post("/", requireAuth, requireRole("admin"), preventDuplicateRequests, createProductController);
+router.get("/", requireAuth, getProductsController);
+router.get("/:code/schema", requireAuth, getProductSchemaController);
+router.put("/:id", requireAuth, requireRole("admin"), preventDuplicateRequests, updateProductController);
+router.delete("/:id", requireAuth, requireRole("admin"), preventDuplicateRequests, deleteProductController);
+
+export default router;
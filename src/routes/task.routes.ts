@@ -0,0 +1,92 @@
+import { Router } from "express";
+import { requireAuth, requireRole } from "../middlewares/auth.middleware";
+import { preventDuplicateRequests } from "../middlewares/requestDeduplication.middleware";
+import {
+  getMyTasksController,
+  getClientTasksController,
+  createTaskController,
+  getTaskController,
+  updateTaskController,
+  deleteTaskController,
+} from "../controllers/task.controller";
+
+const router = Router();
+
+/**
+ * My active tasks with overdue / today / upcoming counts
+ * GET /api/tasks/my?view=today|overdue|upcoming|all
+ * Access: admin, manager, counsellor
+ */
+router.get(
+  "/my",
+  requireAuth,
+  requireRole("admin", "manager", "counsellor"),
+  getMyTasksController
+);
+
+/**
+ * Tasks of a client
+ * GET /api/tasks/client/:clientId?status=open|in_progress|completed|cancelled
+ * Access: admin, manager (own team), counsellor (own clients)
+ */
+router.get(
+  "/client/:clientId",
+  requireAuth,
+  requireRole("admin", "manager", "counsellor"),
+  getClientTasksController
+);
+
+/**
+ * Create a task on a client
+ * POST /api/tasks/client/:clientId
+ * Body: { title, description?, dueDate, assignedTo? (defaults to the client's counsellor), priority?: "low" | "medium" | "high" | "urgent" }
+ * Access: admin, manager (own team), counsellor (own clients, assigned to self)
+ */
+router.post(
+  "/client/:clientId",
+  requireAuth,
+  requireRole("admin", "manager", "counsellor"),
+  preventDuplicateRequests,
+  createTaskController
+);
+
+/**
+ * Get task
+ * GET /api/tasks/:taskId
+ * Access: admin, manager (own team), counsellor (own clients / assigned)
+ */
+router.get(
+  "/:taskId",
+  requireAuth,
+  requireRole("admin", "manager", "counsellor"),
+  getTaskController
+);
+
+/**
+ * Update task
+ * PUT /api/tasks/:taskId
+ * Body: { title?, description?, dueDate?, assignedTo?, priority?, status?: "open" | "in_progress" | "completed" | "cancelled" }
+ * Access: admin, manager (own team), counsellor (own clients / assigned)
+ */
+router.put(
+  "/:taskId",
+  requireAuth,
+  requireRole("admin", "manager", "counsellor"),
+  preventDuplicateRequests,
+  updateTaskController
+);
+
+/**
+ * Delete task
+ * DELETE /api/tasks/:taskId
+ * Access: admin, manager (own team), counsellor (own clients / assigned)
+ */
+router.delete(
+  "/:taskId",
+  requireAuth,
+  requireRole("admin", "manager", "counsellor"),
+  preventDuplicateRequests,
+  deleteTaskController
+);
+
+export default router;
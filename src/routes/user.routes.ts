@@ -1,7 +1,8 @@
 import { Router } from "express";
 import { registerUser,login,logout,refreshAccessToken,getCurrentUser,getAllUsersController,
     updateUserController,
-    deleteUserController,
+    deactivateUserController,
+    reactivateUserController,
     getManagersDropdown,
     getAllCounsellorsAdminController,
     getCounsellorsByManagerController,
@@ -24,7 +25,17 @@ router.put("/change-password", requireAuth, preventDuplicateRequests, changePass
 router.post("/register",requireAuth,requireRole("admin"), preventDuplicateRequests, registerUser);
 router.get("/users",requireAuth,requireRole("admin"),getAllUsersController);
 router.put("/users-update/:userId",requireAuth,requireRole("admin"), preventDuplicateRequests, updateUserController);
-router.delete("/users-delete/:userId",requireAuth,requireRole("admin"), preventDuplicateRequests, deleteUserController);
+/**
+ * Deactivate a user (users are never hard-deleted: history, reports and leaderboards keep them)
+ * Body: { reassignToUserId?, newManagerId?, reason? }
+ * The old delete endpoint deactivates as well.
+ */
+router.put("/users/:userId/deactivate",requireAuth,requireRole("admin"), preventDuplicateRequests, deactivateUserController);
+router.delete("/users-delete/:userId",requireAuth,requireRole("admin"), preventDuplicateRequests, deactivateUserController);
+/**
+ * Reactivate a deactivated user (reassigned clients stay where they are)
+ */
+router.put("/users/:userId/reactivate",requireAuth,requireRole("admin"), preventDuplicateRequests, reactivateUserController);
 /**
  * Managers dropdown (admin only)
  */
@@ -22,6 +22,7 @@ export const activityActionEnum = pgEnum("activity_action_enum", [
   "PAYMENT_ADDED",
   "PAYMENT_UPDATED",
   "PAYMENT_DELETED",
+  "PAYMENT_REFUNDED",
   "PRODUCT_ADDED",
   "PRODUCT_UPDATED",
   "PRODUCT_DELETED",
@@ -29,6 +30,7 @@ export const activityActionEnum = pgEnum("activity_action_enum", [
   "UNARCHIVE",
   "LOGIN",
   "LOGOUT",
+  "MERGE",
 ]);
 
 export const activityLog = pgTable(
@@ -0,0 +1,146 @@
+import {
+  pgTable,
+  varchar,
+  integer,
+  boolean,
+  decimal,
+  text,
+  timestamp,
+  bigserial,
+  bigint,
+  jsonb,
+  index,
+  pgEnum,
+} from "drizzle-orm/pg-core";
+import { clientInformation } from "./clientInformation.schema";
+import { users } from "./users.schema";
+
+export const approvalEntityTypeEnum = pgEnum("approval_entity_type_enum", [
+  "client_payment",
+  "product_payment",
+]);
+
+export const approvalStatusEnum = pgEnum("approval_status_enum", [
+  "pending",
+  "approved",
+  "rejected",
+]);
+
+export const approvalActionEnum = pgEnum("approval_action_enum", [
+  "submitted",
+  "approved",
+  "rejected",
+]);
+
+// Admin-configured rules, e.g. "payments over 1,00,000 need manager then admin"
+// or "LOAN_DETAILS always needs approval"
+export const approvalRules = pgTable(
+  "approval_rule",
+  {
+    ruleId: bigserial("id", { mode: "number" }).primaryKey(),
+
+    name: varchar("name", { length: 150 }).notNull(),
+
+    entityType: approvalEntityTypeEnum("entity_type").notNull(),
+
+    // product.code - only for product payments, null = any product
+    productName: varchar("product_name", { length: 100 }),
+
+    // null = any amount
+    minAmount: decimal("min_amount", { precision: 12, scale: 2 }),
+
+    // Ordered approver roles, e.g. ["manager", "admin"]
+    levels: jsonb("levels").$type<string[]>().notNull(),
+
+    isActive: boolean("is_active").notNull().default(true),
+
+    createdBy: bigint("created_by", { mode: "number" })
+      .references(() => users.id),
+
+    createdAt: timestamp("created_at").defaultNow(),
+
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => ({
+    entityIdx: index("idx_approval_rule_entity").on(table.entityType, table.isActive),
+  })
+);
+
+// One request per payment that matched a rule
+export const approvalRequests = pgTable(
+  "approval_request",
+  {
+    requestId: bigserial("id", { mode: "number" }).primaryKey(),
+
+    ruleId: bigint("rule_id", { mode: "number" })
+      .references(() => approvalRules.ruleId, { onDelete: "set null" }),
+
+    entityType: approvalEntityTypeEnum("entity_type").notNull(),
+
+    // client_payment.id or client_product_payment.id
+    entityId: bigint("entity_id", { mode: "number" }).notNull(),
+
+    clientId: bigint("client_id", { mode: "number" })
+      .references(() => clientInformation.clientId, { onDelete: "cascade" })
+      .notNull(),
+
+    productName: varchar("product_name", { length: 100 }),
+
+    amount: decimal("amount", { precision: 12, scale: 2 }),
+
+    // Re-approvals only: the amount already approved when the payment was raised. The payment keeps
+    // this amount (and keeps counting) until the raise to `amount` is approved
+    approvedAmount: decimal("approved_amount", { precision: 12, scale: 2 }),
+
+    // Copy of the rule levels at submission, so later rule edits don't affect open requests
+    levels: jsonb("levels").$type<string[]>().notNull(),
+
+    // Index into levels of the approver role that has to act next
+    currentLevel: integer("current_level").notNull().default(0),
+
+    status: approvalStatusEnum("status").notNull().default("pending"),
+
+    requestedBy: bigint("requested_by", { mode: "number" })
+      .references(() => users.id),
+
+    resolvedAt: timestamp("resolved_at"),
+
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    entityIdx: index("idx_approval_request_entity").on(table.entityType, table.entityId),
+
+    statusIdx: index("idx_approval_request_status").on(table.status),
+
+    clientIdx: index("idx_approval_request_client").on(table.clientId),
+  })
+);
+
+// Approver history of a request
+export const approvalActions = pgTable(
+  "approval_action",
+  {
+    actionId: bigserial("id", { mode: "number" }).primaryKey(),
+
+    requestId: bigint("request_id", { mode: "number" })
+      .references(() => approvalRequests.requestId, { onDelete: "cascade" })
+      .notNull(),
+
+    level: integer("level").notNull(),
+
+    // Role the level required (manager / admin)
+    levelRole: varchar("level_role", { length: 50 }),
+
+    action: approvalActionEnum("action").notNull(),
+
+    comment: text("comment"),
+
+    actedBy: bigint("acted_by", { mode: "number" })
+      .references(() => users.id),
+
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    requestIdx: index("idx_approval_action_request").on(table.requestId),
+  })
+);
@@ -0,0 +1,45 @@
+import {
+  pgTable,
+  varchar,
+  integer,
+  boolean,
+  timestamp,
+  bigserial,
+  jsonb,
+  index,
+} from "drizzle-orm/pg-core";
+
+// Admin-configured visa case pipeline, e.g. LEAD -> ENROLLED -> DOCUMENTS_COLLECTED -> FILED
+// -> BIOMETRICS -> APPROVED / REFUSED -> LANDED. Defaults: `npm run seed:case-stages`.
+export const caseStages = pgTable(
+  "case_stage",
+  {
+    stageId: bigserial("id", { mode: "number" }).primaryKey(),
+
+    code: varchar("code", { length: 50 }).notNull().unique(),
+
+    name: varchar("name", { length: 100 }).notNull(),
+
+    // Position in the pipeline / Kanban columns
+    sortOrder: integer("sort_order").notNull().default(0),
+
+    // Codes of the stages a client can move to from this stage.
+    // null = only the next active stage (by sortOrder)
+    nextStageCodes: jsonb("next_stage_codes").$type<string[] | null>(),
+
+    // New clients start in the initial stage
+    isInitial: boolean("is_initial").notNull().default(false),
+
+    // Final stages (e.g. LANDED, REFUSED) have no further transitions unless configured
+    isTerminal: boolean("is_terminal").notNull().default(false),
+
+    isActive: boolean("is_active").notNull().default(true),
+
+    createdAt: timestamp("created_at").defaultNow(),
+
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => ({
+    sortOrderIdx: index("idx_case_stage_sort_order").on(table.sortOrder),
+  })
+);
@@ -0,0 +1,71 @@
+import {
+  pgTable,
+  varchar,
+  integer,
+  date,
+  timestamp,
+  bigserial,
+  bigint,
+  index,
+  pgEnum,
+} from "drizzle-orm/pg-core";
+import { clientInformation } from "./clientInformation.schema";
+import { clientProductPayments } from "./clientProductPayments.schema";
+import { users } from "./users.schema";
+
+export const clientDocumentTypeEnum = pgEnum("client_document_type_enum", [
+  "PASSPORT",
+  "MARRIAGE_PHOTO_CERTIFICATE",
+  "AFFIDAVIT",
+  "IELTS_RESULT",
+  "LOAN_LETTER",
+  "VISA",
+  "OTHER",
+]);
+
+// Files attached to a client (optionally to one of its product payments).
+// Only metadata lives here; the bytes are in the document storage (see documentStorage.service.ts).
+export const clientDocuments = pgTable(
+  "client_document",
+  {
+    documentId: bigserial("id", { mode: "number" }).primaryKey(),
+
+    clientId: bigint("client_id", { mode: "number" })
+      .references(() => clientInformation.clientId, { onDelete: "cascade" })
+      .notNull(),
+
+    productPaymentId: bigint("product_payment_id", { mode: "number" })
+      .references(() => clientProductPayments.productPaymentId, { onDelete: "set null" }),
+
+    documentType: clientDocumentTypeEnum("document_type").notNull(),
+
+    fileName: varchar("file_name", { length: 255 }).notNull(),
+
+    mimeType: varchar("mime_type", { length: 100 }).notNull(),
+
+    sizeBytes: integer("size_bytes").notNull(),
+
+    // sha256 of the file content
+    checksum: varchar("checksum", { length: 64 }).notNull(),
+
+    // Storage backend the file was written to (e.g. "local") and its key there
+    storageDriver: varchar("storage_driver", { length: 50 }).notNull(),
+
+    storageKey: varchar("storage_key", { length: 500 }).notNull().unique(),
+
+    expiryDate: date("expiry_date"),
+
+    uploadedBy: bigint("uploaded_by", { mode: "number" })
+      .references(() => users.id)
+      .notNull(),
+
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    clientIdx: index("idx_client_document_client").on(table.clientId),
+
+    productPaymentIdx: index("idx_client_document_product_payment").on(table.productPaymentId),
+
+    expiryDateIdx: index("idx_client_document_expiry_date").on(table.expiryDate),
+  })
+);
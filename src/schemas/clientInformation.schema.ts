@@ -33,9 +33,14 @@ import {
   serial,
   index,
   boolean,
+  text,
+  pgEnum,
+  AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { users } from "./users.schema";
 import { leadTypes } from "./leadType.schema";
+import { caseStages } from "./caseStage.schema";
+import { leadSources, referralAgents } from "./leadSource.schema";
 
 export const clientInformation = pgTable(
   "client_information",
@@ -56,6 +61,42 @@ export const clientInformation = pgTable(
       .references(() => leadTypes.id)
       .notNull(),
 
+    // Contact details
+    phone: varchar("phone", { length: 20 }),
+
+    email: varchar("email", { length: 150 }),
+
+    address: text("address"),
+
+    dateOfBirth: date("date_of_birth"),
+
+    nationality: varchar("nationality", { length: 100 }),
+
+    // Visa application
+    destinationCountry: varchar("destination_country", { length: 100 }),
+
+    visaCategory: varchar("visa_category", { length: 100 }),
+
+    applicationDate: date("application_date"),
+
+    decisionDate: date("decision_date"),
+
+    // Current stage in the case pipeline (see caseStage.schema.ts)
+    caseStageId: bigint("case_stage_id", { mode: "number" })
+      .references(() => caseStages.stageId),
+
+    caseStageChangedAt: timestamp("case_stage_changed_at"),
+
+    // Acquisition source and referrer (see leadSource.schema.ts)
+    leadSourceId: bigint("lead_source_id", { mode: "number" })
+      .references(() => leadSources.sourceId),
+
+    referredByClientId: bigint("referred_by_client_id", { mode: "number" })
+      .references((): AnyPgColumn => clientInformation.clientId, { onDelete: "set null" }),
+
+    referralAgentId: bigint("referral_agent_id", { mode: "number" })
+      .references(() => referralAgents.agentId),
+
     archived: boolean("archived").default(false),
 
     createdAt: timestamp("created_at").defaultNow(),
@@ -73,9 +114,56 @@ export const clientInformation = pgTable(
 
     createdAtIdx: index("idx_client_created_at").on(table.createdAt),
 
+    emailIdx: index("idx_client_email").on(table.email),
+
+    phoneIdx: index("idx_client_phone").on(table.phone),
+
+    caseStageIdx: index("idx_client_case_stage").on(table.caseStageId),
+
+    leadSourceIdx: index("idx_client_lead_source").on(table.leadSourceId),
+
+    referralAgentIdx: index("idx_client_referral_agent").on(table.referralAgentId),
+
     counsellorCreatedIdx: index("idx_client_counsellor_created").on(
       table.counsellorId,
       table.createdAt
     ),
   })
 );
+
+export const familyRelationshipEnum = pgEnum("family_relationship_enum", [
+  "spouse",
+  "child",
+  "parent",
+  "sibling",
+  "other",
+]);
+
+// Spouse / dependants travelling with the client (spouse and kids products, e.g. KIDS_STUDY_PERMIT)
+export const clientFamilyMembers = pgTable(
+  "client_family_member",
+  {
+    memberId: bigserial("id", { mode: "number" }).primaryKey(),
+
+    clientId: bigint("client_id", { mode: "number" })
+      .references(() => clientInformation.clientId, { onDelete: "cascade" })
+      .notNull(),
+
+    relationship: familyRelationshipEnum("relationship").notNull(),
+
+    fullName: varchar("fullname", { length: 150 }).notNull(),
+
+    dateOfBirth: date("date_of_birth"),
+
+    passportDetails: varchar("passport_details", { length: 100 }).unique(),
+
+    nationality: varchar("nationality", { length: 100 }),
+
+    createdAt: timestamp("created_at").defaultNow(),
+
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => ({
+    clientIdx: index("idx_family_member_client").on(table.clientId),
+  })
+);
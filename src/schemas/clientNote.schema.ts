@@ -0,0 +1,74 @@
+import {
+  pgTable,
+  text,
+  timestamp,
+  bigserial,
+  bigint,
+  boolean,
+  index,
+} from "drizzle-orm/pg-core";
+import { clientInformation } from "./clientInformation.schema";
+import { users } from "./users.schema";
+
+// Free-text notes on a client (calls, meetings, conversations)
+export const clientNotes = pgTable(
+  "client_note",
+  {
+    noteId: bigserial("id", { mode: "number" }).primaryKey(),
+
+    clientId: bigint("client_id", { mode: "number" })
+      .references(() => clientInformation.clientId, { onDelete: "cascade" })
+      .notNull(),
+
+    body: text("body").notNull(),
+
+    authorId: bigint("author_id", { mode: "number" })
+      .references(() => users.id)
+      .notNull(),
+
+    isPinned: boolean("is_pinned").notNull().default(false),
+
+    pinnedBy: bigint("pinned_by", { mode: "number" })
+      .references(() => users.id),
+
+    pinnedAt: timestamp("pinned_at"),
+
+    // Last edit of the body (null = never edited)
+    editedAt: timestamp("edited_at"),
+
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    clientIdx: index("idx_note_client").on(table.clientId),
+
+    clientPinnedIdx: index("idx_note_client_pinned").on(
+      table.clientId,
+      table.isPinned,
+      table.createdAt
+    ),
+  })
+);
+
+// Previous bodies of a note, one row per edit
+export const clientNoteRevisions = pgTable(
+  "client_note_revision",
+  {
+    revisionId: bigserial("id", { mode: "number" }).primaryKey(),
+
+    noteId: bigint("note_id", { mode: "number" })
+      .references(() => clientNotes.noteId, { onDelete: "cascade" })
+      .notNull(),
+
+    // Body before the edit
+    body: text("body").notNull(),
+
+    editedBy: bigint("edited_by", { mode: "number" })
+      .references(() => users.id)
+      .notNull(),
+
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    noteIdx: index("idx_note_revision_note").on(table.noteId),
+  })
+);
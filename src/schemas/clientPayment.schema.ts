@@ -63,6 +63,7 @@ import {
 } from "drizzle-orm/pg-core";
 import { clientInformation } from "./clientInformation.schema";
 import { saleTypes } from "./saleType.schema";
+import { users } from "./users.schema";
 
 export const stageEnum = pgEnum("stage_enum", [
   "INITIAL",
@@ -99,11 +100,19 @@ export const clientPayments = pgTable(
 
     remarks: text("remarks"),
 
+    // Client's counsellor when the payment was recorded - dashboard / leaderboard credit
+    // stays with them after a transfer (older rows: npm run backfill:credited-counsellor)
+    creditedCounsellorId: bigint("credited_counsellor_id", { mode: "number" })
+      .references(() => users.id)
+      .notNull(),
+
     createdAt: timestamp("created_at").defaultNow(),
   },
   (table) => ({
     clientIdx: index("idx_payment_client").on(table.clientId),
 
+    creditedCounsellorIdx: index("idx_payment_credited_counsellor").on(table.creditedCounsellorId),
+
     saleTypeIdx: index("idx_payment_sale_type").on(table.saleTypeId),
 
     stageIdx: index("idx_payment_stage").on(table.stage),
@@ -11,44 +11,7 @@ import {
   varchar,
 } from "drizzle-orm/pg-core";
 import { clientInformation } from "./clientInformation.schema";
-
-// Product type enum - all available products
-export const productTypeEnum = pgEnum("product_type_enum", [
-  // SPOUSE products
-  "ALL_FINANCE_EMPLOYEMENT",
-  "INDIAN_SIDE_EMPLOYEMENT",
-  "NOC_LEVEL_JOB_ARRANGEMENT",
-  "LAWYER_REFUSAL_CHARGE",
-  "ONSHORE_PART_TIME_EMPLOYEMENT",
-  "TRV_WORK_PERMIT_EXT_STUDY_PERMIT_EXTENSION",
-  "MARRIAGE_PHOTO_FOR_COURT_MARRIAGE",
-  "MARRIAGE_PHOTO_CERTIFICATE",
-  "RECENTE_MARRIAGE_RELATIONSHIP_AFFIDAVIT",
-  "JUDICAL_REVIEW_CHARGE",
-  "SIM_CARD_ACTIVATION",
-  "INSURANCE",
-  "BEACON_ACCOUNT",
-  "AIR_TICKET",
-  "OTHER_NEW_SELL",
-  // VISITOR products
-  "SPONSOR_CHARGES",
-  // STUDENT products
-  "FINANCE_EMPLOYEMENT",
-  "IELTS_ENROLLMENT",
-  "LOAN_DETAILS",
-  "FOREX_CARD",
-  "FOREX_FEES",
-  "TUTION_FEES",
-  "CREDIT_CARD",
-  // Common products
-  "VISA_EXTENSION",
-  // Additional master-only products
-  "REFUSAL_CHARGES",
-  "KIDS_STUDY_PERMIT",
-  "CANADA_FUND",
-  "EMPLOYMENT_VERIFICATION_CHARGES",
-  "ADDITIONAL_AMOUNT_STATEMENT_CHARGES",
-]);
+import { users } from "./users.schema";
 
 // Entity type enum - maps to database tables
 export const entityTypeEnum = pgEnum("entity_type_enum", [
@@ -77,7 +40,8 @@ export const clientProductPayments = pgTable(
       .references(() => clientInformation.clientId, { onDelete: "cascade" })
       .notNull(),
 
-    productName: productTypeEnum("product_name").notNull(),
+    // product.code (see product.schema.ts)
+    productName: varchar("product_name", { length: 100 }).notNull(),
 
     amount: decimal("amount", { precision: 12, scale: 2 }),
 
@@ -91,11 +55,18 @@ export const clientProductPayments = pgTable(
 
     remarks: text("remark"),
 
+    // Client's counsellor when the payment was recorded (see client_payment.credited_counsellor_id)
+    creditedCounsellorId: bigint("credited_counsellor_id", { mode: "number" })
+      .references(() => users.id)
+      .notNull(),
+
     createdAt: timestamp("created_at").defaultNow(),
   },
   (table) => ({
     clientIdx: index("idx_product_payment_client").on(table.clientId),
 
+    creditedCounsellorIdx: index("idx_product_payment_credited_counsellor").on(table.creditedCounsellorId),
+
     productNameIdx: index("idx_product_payment_product_name").on(
       table.productName
     ),
@@ -0,0 +1,51 @@
+import {
+  pgTable,
+  varchar,
+  text,
+  timestamp,
+  bigserial,
+  bigint,
+  index,
+} from "drizzle-orm/pg-core";
+import { clientInformation } from "./clientInformation.schema";
+import { users } from "./users.schema";
+
+// Counsellor ownership changes of a client (single and bulk transfers)
+export const clientTransfers = pgTable(
+  "client_transfer",
+  {
+    transferId: bigserial("id", { mode: "number" }).primaryKey(),
+
+    clientId: bigint("client_id", { mode: "number" })
+      .references(() => clientInformation.clientId, { onDelete: "cascade" })
+      .notNull(),
+
+    fromCounsellorId: bigint("from_counsellor_id", { mode: "number" })
+      .references(() => users.id)
+      .notNull(),
+
+    toCounsellorId: bigint("to_counsellor_id", { mode: "number" })
+      .references(() => users.id)
+      .notNull(),
+
+    reason: text("reason"),
+
+    // Shared by every row of one bulk transfer, null for single transfers
+    batchId: varchar("batch_id", { length: 36 }),
+
+    transferredBy: bigint("transferred_by", { mode: "number" })
+      .references(() => users.id)
+      .notNull(),
+
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    clientIdx: index("idx_client_transfer_client").on(table.clientId, table.createdAt),
+
+    fromCounsellorIdx: index("idx_client_transfer_from").on(table.fromCounsellorId),
+
+    toCounsellorIdx: index("idx_client_transfer_to").on(table.toCounsellorId),
+
+    batchIdx: index("idx_client_transfer_batch").on(table.batchId),
+  })
+);
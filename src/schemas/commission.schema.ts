@@ -0,0 +1,240 @@
+import {
+  pgTable,
+  varchar,
+  integer,
+  boolean,
+  decimal,
+  text,
+  timestamp,
+  bigserial,
+  bigint,
+  index,
+  uniqueIndex,
+  pgEnum,
+} from "drizzle-orm/pg-core";
+import { users } from "./users.schema";
+import { saleTypes } from "./saleType.schema";
+import { clientInformation } from "./clientInformation.schema";
+
+export const commissionRuleTypeEnum = pgEnum("commission_rule_type_enum", [
+  "sale_type",
+  "product",
+]);
+
+// flat = fixed amount (once per enrolled client for sale types, per product payment for products)
+// percentage = percent of the payment amount
+export const commissionCalcTypeEnum = pgEnum("commission_calc_type_enum", [
+  "flat",
+  "percentage",
+]);
+
+export const commissionStatementStatusEnum = pgEnum("commission_statement_status_enum", [
+  "draft",
+  "locked",
+]);
+
+export const commissionPlans = pgTable(
+  "commission_plan",
+  {
+    planId: bigserial("id", { mode: "number" }).primaryKey(),
+
+    name: varchar("name", { length: 150 }).notNull().unique(),
+
+    description: text("description"),
+
+    // Plan applied to counsellors without a manager override (only one default)
+    isDefault: boolean("is_default").notNull().default(false),
+
+    isActive: boolean("is_active").notNull().default(true),
+
+    createdBy: bigint("created_by", { mode: "number" })
+      .references(() => users.id),
+
+    createdAt: timestamp("created_at").defaultNow(),
+
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => ({
+    defaultIdx: index("idx_commission_plan_default").on(table.isDefault, table.isActive),
+  })
+);
+
+// Commission per sale type (client payments) or per product (product payments)
+export const commissionPlanRules = pgTable(
+  "commission_plan_rule",
+  {
+    ruleId: bigserial("id", { mode: "number" }).primaryKey(),
+
+    planId: bigint("plan_id", { mode: "number" })
+      .references(() => commissionPlans.planId, { onDelete: "cascade" })
+      .notNull(),
+
+    ruleType: commissionRuleTypeEnum("rule_type").notNull(),
+
+    // Set when ruleType = sale_type
+    saleTypeId: bigint("sale_type_id", { mode: "number" })
+      .references(() => saleTypes.saleTypeId, { onDelete: "cascade" }),
+
+    // product.code - set when ruleType = product
+    productName: varchar("product_name", { length: 100 }),
+
+    calcType: commissionCalcTypeEnum("calc_type").notNull(),
+
+    value: decimal("value", { precision: 12, scale: 2 }).notNull(),
+
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    planIdx: index("idx_commission_rule_plan").on(table.planId),
+  })
+);
+
+// Attainment tiers: base commission is multiplied by the highest tier reached
+// e.g. 0% -> 0.5, 80% -> 1.0, 120% -> 1.25 (attainment = enrollments / leader_board.target;
+// against a quarter target, enrollments are counted quarter to date)
+export const commissionPlanTiers = pgTable(
+  "commission_plan_tier",
+  {
+    tierId: bigserial("id", { mode: "number" }).primaryKey(),
+
+    planId: bigint("plan_id", { mode: "number" })
+      .references(() => commissionPlans.planId, { onDelete: "cascade" })
+      .notNull(),
+
+    // Attainment percentage from which this tier applies
+    minAttainment: decimal("min_attainment", { precision: 6, scale: 2 }).notNull(),
+
+    multiplier: decimal("multiplier", { precision: 6, scale: 2 }).notNull().default("1"),
+
+    // Fixed bonus on reaching this tier
+    bonusAmount: decimal("bonus_amount", { precision: 12, scale: 2 }).notNull().default("0"),
+  },
+  (table) => ({
+    planIdx: index("idx_commission_tier_plan").on(table.planId),
+  })
+);
+
+// Plan chosen by a counsellor's manager (or admin) instead of the default plan
+export const commissionPlanOverrides = pgTable(
+  "commission_plan_override",
+  {
+    overrideId: bigserial("id", { mode: "number" }).primaryKey(),
+
+    counsellorId: bigint("counsellor_id", { mode: "number" })
+      .references(() => users.id, { onDelete: "cascade" })
+      .notNull()
+      .unique(),
+
+    planId: bigint("plan_id", { mode: "number" })
+      .references(() => commissionPlans.planId, { onDelete: "cascade" })
+      .notNull(),
+
+    reason: text("reason"),
+
+    setBy: bigint("set_by", { mode: "number" })
+      .references(() => users.id),
+
+    createdAt: timestamp("created_at").defaultNow(),
+
+    updatedAt: timestamp("updated_at").defaultNow(),
+  }
+);
+
+// Monthly payout statement per counsellor; recalculated while draft, frozen once locked
+export const commissionStatements = pgTable(
+  "commission_statement",
+  {
+    statementId: bigserial("id", { mode: "number" }).primaryKey(),
+
+    counsellorId: bigint("counsellor_id", { mode: "number" })
+      .references(() => users.id)
+      .notNull(),
+
+    month: integer("month").notNull(),
+
+    year: integer("year").notNull(),
+
+    planId: bigint("plan_id", { mode: "number" })
+      .references(() => commissionPlans.planId, { onDelete: "set null" }),
+
+    // Copy of the plan name, so locked statements stay readable after plan edits
+    planName: varchar("plan_name", { length: 150 }),
+
+    enrollments: integer("enrollments").notNull().default(0),
+
+    revenue: decimal("revenue", { precision: 14, scale: 2 }).notNull().default("0"),
+
+    target: integer("target").notNull().default(0),
+
+    // null when no target was set
+    attainment: decimal("attainment", { precision: 8, scale: 2 }),
+
+    tierMultiplier: decimal("tier_multiplier", { precision: 6, scale: 2 }).notNull().default("1"),
+
+    baseCommission: decimal("base_commission", { precision: 14, scale: 2 }).notNull().default("0"),
+
+    tierBonus: decimal("tier_bonus", { precision: 12, scale: 2 }).notNull().default("0"),
+
+    // Manual correction by manager / admin, kept across recalculations
+    adjustmentAmount: decimal("adjustment_amount", { precision: 12, scale: 2 }).notNull().default("0"),
+
+    adjustmentReason: text("adjustment_reason"),
+
+    totalPayout: decimal("total_payout", { precision: 14, scale: 2 }).notNull().default("0"),
+
+    status: commissionStatementStatusEnum("status").notNull().default("draft"),
+
+    calculatedBy: bigint("calculated_by", { mode: "number" })
+      .references(() => users.id),
+
+    calculatedAt: timestamp("calculated_at").defaultNow(),
+
+    lockedBy: bigint("locked_by", { mode: "number" })
+      .references(() => users.id),
+
+    lockedAt: timestamp("locked_at"),
+
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    counsellorPeriodUnique: uniqueIndex("idx_commission_statement_counsellor_period").on(
+      table.counsellorId,
+      table.year,
+      table.month
+    ),
+
+    periodIdx: index("idx_commission_statement_period").on(table.year, table.month),
+  })
+);
+
+// Payments that earned commission on a statement
+export const commissionStatementLines = pgTable(
+  "commission_statement_line",
+  {
+    lineId: bigserial("id", { mode: "number" }).primaryKey(),
+
+    statementId: bigint("statement_id", { mode: "number" })
+      .references(() => commissionStatements.statementId, { onDelete: "cascade" })
+      .notNull(),
+
+    // client_payment, product_payment or refund (negative amounts)
+    sourceType: varchar("source_type", { length: 30 }).notNull(),
+
+    sourceId: bigint("source_id", { mode: "number" }).notNull(),
+
+    clientId: bigint("client_id", { mode: "number" })
+      .references(() => clientInformation.clientId, { onDelete: "set null" }),
+
+    ruleId: bigint("rule_id", { mode: "number" })
+      .references(() => commissionPlanRules.ruleId, { onDelete: "set null" }),
+
+    description: varchar("description", { length: 255 }),
+
+    baseAmount: decimal("base_amount", { precision: 12, scale: 2 }).notNull().default("0"),
+
+    commission: decimal("commission", { precision: 12, scale: 2 }).notNull(),
+  },
+  (table) => ({
+    statementIdx: index("idx_commission_line_statement").on(table.statementId),
+  })
+);
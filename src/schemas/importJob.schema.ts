@@ -0,0 +1,79 @@
+import {
+  pgTable,
+  varchar,
+  text,
+  integer,
+  boolean,
+  timestamp,
+  bigserial,
+  bigint,
+  jsonb,
+  index,
+  pgEnum,
+} from "drizzle-orm/pg-core";
+import { users } from "./users.schema";
+
+// pending -> validated | invalid (dry run) or completed | failed (commit)
+export const importJobStatusEnum = pgEnum("import_job_status_enum", [
+  "pending",
+  "validated",
+  "invalid",
+  "completed",
+  "failed",
+]);
+
+export interface ImportRowResult {
+  row: number; // spreadsheet row number (header = 1)
+  passportDetails: string | null;
+  status: "valid" | "error" | "imported";
+  errors: string[];
+  clientId?: number | null;
+  paymentId?: number | null;
+  productPaymentId?: number | null;
+}
+
+// One upload of the client / payment import (dry run or commit) and its row-level result
+export const importJobs = pgTable(
+  "import_job",
+  {
+    importJobId: bigserial("id", { mode: "number" }).primaryKey(),
+
+    fileName: varchar("file_name", { length: 255 }).notNull(),
+
+    fileFormat: varchar("file_format", { length: 10 }).notNull(), // csv | xlsx
+
+    dryRun: boolean("dry_run").notNull().default(true),
+
+    status: importJobStatusEnum("status").notNull().default("pending"),
+
+    // Header -> field mapping that was applied
+    columnMapping: jsonb("column_mapping").$type<Record<string, string>>(),
+
+    totalRows: integer("total_rows").notNull().default(0),
+
+    errorRows: integer("error_rows").notNull().default(0),
+
+    clientsCreated: integer("clients_created").notNull().default(0),
+
+    paymentsCreated: integer("payments_created").notNull().default(0),
+
+    productPaymentsCreated: integer("product_payments_created").notNull().default(0),
+
+    rowResults: jsonb("row_results").$type<ImportRowResult[]>(),
+
+    // Failure that is not tied to a row (e.g. unreadable file, transaction error)
+    errorMessage: text("error_message"),
+
+    importedBy: bigint("imported_by", { mode: "number" })
+      .references(() => users.id)
+      .notNull(),
+
+    createdAt: timestamp("created_at").defaultNow(),
+
+    completedAt: timestamp("completed_at"),
+  },
+  (table) => ({
+    importedByIdx: index("idx_import_job_imported_by").on(table.importedBy),
+    createdAtIdx: index("idx_import_job_created_at").on(table.createdAt),
+  })
+);
@@ -0,0 +1,106 @@
+import {
+  pgTable,
+  varchar,
+  integer,
+  boolean,
+  text,
+  timestamp,
+  bigserial,
+  bigint,
+  index,
+  uniqueIndex,
+  pgEnum,
+} from "drizzle-orm/pg-core";
+import { users } from "./users.schema";
+
+export const invoiceSourceEnum = pgEnum("invoice_source_enum", [
+  "client_payment",
+  "product_payment",
+  "new_sell",
+  "visa_extension",
+  "all_finance",
+]);
+
+export const invoiceNumberStatusEnum = pgEnum("invoice_number_status_enum", [
+  "reserved", // legacy: allocated before the payment was saved (no longer written)
+  "issued", // attached to a saved payment
+  "voided", // never used / cancelled - kept so the series has no gaps
+]);
+
+// Single-row configuration of the invoice number format
+export const invoiceSequenceConfig = pgTable("invoice_sequence_config", {
+  id: bigserial("id", { mode: "number" }).primaryKey(),
+
+  prefix: varchar("prefix", { length: 20 }).notNull().default("EV"),
+
+  // Tokens: {PREFIX}, {FY}, {SEQ}
+  format: varchar("format", { length: 100 }).notNull().default("{PREFIX}/{FY}/{SEQ}"),
+
+  padding: integer("padding").notNull().default(6),
+
+  // Month the financial year starts in (4 = April)
+  fyStartMonth: integer("fy_start_month").notNull().default(4),
+
+  // When false, invoice numbers can only be generated by the server
+  allowManualInvoiceNo: boolean("allow_manual_invoice_no").notNull().default(true),
+
+  updatedBy: bigint("updated_by", { mode: "number" })
+    .references(() => users.id),
+
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Last number handed out per financial year (row is locked while a number is allocated)
+export const invoiceSequenceCounters = pgTable("invoice_sequence_counter", {
+  financialYear: varchar("financial_year", { length: 10 }).primaryKey(),
+
+  lastNumber: integer("last_number").notNull().default(0),
+
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Ledger of every allocated number, so the series can be audited for gaps
+export const invoiceNumbers = pgTable(
+  "invoice_number",
+  {
+    id: bigserial("id", { mode: "number" }).primaryKey(),
+
+    financialYear: varchar("financial_year", { length: 10 }).notNull(),
+
+    sequence: integer("sequence").notNull(),
+
+    invoiceNo: varchar("invoice_no", { length: 50 }).notNull().unique(),
+
+    sourceType: invoiceSourceEnum("source_type").notNull(),
+
+    // id of the row in the source table (client_payment.id, new_sell.id, ...)
+    sourceId: bigint("source_id", { mode: "number" }),
+
+    status: invoiceNumberStatusEnum("status").notNull().default("issued"),
+
+    voidReason: text("void_reason"),
+
+    issuedBy: bigint("issued_by", { mode: "number" })
+      .references(() => users.id),
+
+    voidedBy: bigint("voided_by", { mode: "number" })
+      .references(() => users.id),
+
+    voidedAt: timestamp("voided_at"),
+
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    yearSequenceUnique: uniqueIndex("idx_invoice_number_year_sequence").on(
+      table.financialYear,
+      table.sequence
+    ),
+
+    statusIdx: index("idx_invoice_number_status").on(table.status),
+
+    sourceIdx: index("idx_invoice_number_source").on(
+      table.sourceType,
+      table.sourceId
+    ),
+  })
+);
@@ -0,0 +1,96 @@
+import {
+  pgTable,
+  varchar,
+  text,
+  date,
+  timestamp,
+  bigserial,
+  bigint,
+  index,
+  pgEnum,
+} from "drizzle-orm/pg-core";
+import { users } from "./users.schema";
+import { leadTypes } from "./leadType.schema";
+import { clientInformation } from "./clientInformation.schema";
+import { leadSources, referralAgents } from "./leadSource.schema";
+
+// new -> contacted -> qualified -> converted, or lost at any point before conversion
+export const leadStatusEnum = pgEnum("lead_status_enum", [
+  "new",
+  "contacted",
+  "qualified",
+  "lost",
+  "converted",
+]);
+
+// Inquiries, walk-ins and calls before enrollment. Converting a lead creates the client.
+export const leads = pgTable(
+  "lead",
+  {
+    leadId: bigserial("id", { mode: "number" }).primaryKey(),
+
+    fullName: varchar("full_name", { length: 150 }).notNull(),
+
+    phone: varchar("phone", { length: 20 }),
+
+    email: varchar("email", { length: 150 }),
+
+    // Where the lead came from (see leadSource.schema.ts); carried over to the client on conversion
+    leadSourceId: bigint("lead_source_id", { mode: "number" })
+      .references(() => leadSources.sourceId),
+
+    referredByClientId: bigint("referred_by_client_id", { mode: "number" })
+      .references(() => clientInformation.clientId, { onDelete: "set null" }),
+
+    referralAgentId: bigint("referral_agent_id", { mode: "number" })
+      .references(() => referralAgents.agentId),
+
+    // Lead type the person is interested in (spouse, student, visitor, ...)
+    leadTypeId: bigint("lead_type_id", { mode: "number" })
+      .references(() => leadTypes.id),
+
+    destinationCountry: varchar("destination_country", { length: 100 }),
+
+    // Assigned counsellor (null = not assigned yet)
+    counsellorId: bigint("counsellor_id", { mode: "number" })
+      .references(() => users.id),
+
+    status: leadStatusEnum("status").notNull().default("new"),
+
+    nextFollowUpDate: date("next_follow_up_date"),
+
+    lastContactedAt: timestamp("last_contacted_at"),
+
+    lostReason: text("lost_reason"),
+
+    notes: text("notes"),
+
+    convertedClientId: bigint("converted_client_id", { mode: "number" })
+      .references(() => clientInformation.clientId, { onDelete: "set null" }),
+
+    convertedAt: timestamp("converted_at"),
+
+    convertedBy: bigint("converted_by", { mode: "number" })
+      .references(() => users.id),
+
+    createdBy: bigint("created_by", { mode: "number" })
+      .references(() => users.id)
+      .notNull(),
+
+    createdAt: timestamp("created_at").defaultNow(),
+
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => ({
+    counsellorIdx: index("idx_lead_counsellor").on(table.counsellorId),
+    statusIdx: index("idx_lead_status").on(table.status),
+    leadTypeIdx: index("idx_lead_lead_type").on(table.leadTypeId),
+    leadSourceIdx: index("idx_lead_lead_source").on(table.leadSourceId),
+    followUpIdx: index("idx_lead_follow_up").on(table.nextFollowUpDate),
+    createdAtIdx: index("idx_lead_created_at").on(table.createdAt),
+    counsellorStatusIdx: index("idx_lead_counsellor_status").on(
+      table.counsellorId,
+      table.status
+    ),
+  })
+);
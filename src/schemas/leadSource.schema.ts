@@ -0,0 +1,112 @@
+import {
+  pgTable,
+  varchar,
+  integer,
+  boolean,
+  date,
+  decimal,
+  text,
+  timestamp,
+  bigserial,
+  bigint,
+  index,
+  pgEnum,
+} from "drizzle-orm/pg-core";
+import { users } from "./users.schema";
+
+// Which referrer a source expects: an existing client, an external agent, or none
+export const referralTypeEnum = pgEnum("referral_type_enum", [
+  "none",
+  "client",
+  "agent",
+]);
+
+// Admin-managed acquisition sources (walk-in, referral, Facebook, agent partner, ...).
+// Defaults: `npm run seed:lead-sources`.
+export const leadSources = pgTable(
+  "lead_source",
+  {
+    sourceId: bigserial("id", { mode: "number" }).primaryKey(),
+
+    code: varchar("code", { length: 50 }).notNull().unique(),
+
+    name: varchar("name", { length: 100 }).notNull(),
+
+    referralType: referralTypeEnum("referral_type").notNull().default("none"),
+
+    sortOrder: integer("sort_order").notNull().default(0),
+
+    // Inactive sources stay on existing clients / leads but can't be picked for new ones
+    isActive: boolean("is_active").notNull().default(true),
+
+    createdAt: timestamp("created_at").defaultNow(),
+
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => ({
+    sortOrderIdx: index("idx_lead_source_sort_order").on(table.sortOrder),
+  })
+);
+
+// External agents / partners who refer clients
+export const referralAgents = pgTable(
+  "referral_agent",
+  {
+    agentId: bigserial("id", { mode: "number" }).primaryKey(),
+
+    name: varchar("name", { length: 150 }).notNull(),
+
+    company: varchar("company", { length: 150 }),
+
+    phone: varchar("phone", { length: 20 }),
+
+    email: varchar("email", { length: 150 }),
+
+    notes: text("notes"),
+
+    isActive: boolean("is_active").notNull().default(true),
+
+    createdBy: bigint("created_by", { mode: "number" })
+      .references(() => users.id),
+
+    createdAt: timestamp("created_at").defaultNow(),
+
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => ({
+    nameIdx: index("idx_referral_agent_name").on(table.name),
+  })
+);
+
+// Marketing spend per source and period, used for cost per enrollment.
+// Spend is spread evenly over the period's days when a report covers part of it.
+export const leadSourceCosts = pgTable(
+  "lead_source_cost",
+  {
+    costId: bigserial("id", { mode: "number" }).primaryKey(),
+
+    sourceId: bigint("source_id", { mode: "number" })
+      .references(() => leadSources.sourceId, { onDelete: "cascade" })
+      .notNull(),
+
+    periodStart: date("period_start").notNull(),
+
+    periodEnd: date("period_end").notNull(),
+
+    amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+
+    notes: text("notes"),
+
+    createdBy: bigint("created_by", { mode: "number" })
+      .references(() => users.id)
+      .notNull(),
+
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    sourcePeriodIdx: index("idx_lead_source_cost_source_period").on(
+      table.sourceId,
+      table.periodStart
+    ),
+  })
+);
@@ -3,9 +3,21 @@ import {
     timestamp,
     bigserial,
     bigint,
+    integer,
+    decimal,
+    pgEnum,
+    uniqueIndex,
+    index,
   } from "drizzle-orm/pg-core";
 import { users } from "./users.schema";
 
+  export const targetPeriodTypeEnum = pgEnum("target_period_type_enum", [
+    "month",
+    "quarter",
+  ]);
+
+  // Existing databases: run `npm run migrate:leaderboard-periods` before drizzle-kit push
+  // (back-fills the period columns from created_at and removes duplicate targets)
   export const leaderBoard = pgTable(
     "leader_board",
     {
@@ -18,12 +30,107 @@ import { users } from "./users.schema";
         .references(() => users.id)
         .notNull(),
 
+    periodType: targetPeriodTypeEnum("period_type").notNull().default("month"),
+
+    periodYear: integer("period_year").notNull(),
+
+    // Month (1-12) or quarter (1-4) depending on periodType
+    periodNumber: integer("period_number").notNull(),
+
+    // Enrollment count target
     target: bigint("target", { mode: "number" }).notNull(),
 
+    // Core sale (client payment) revenue target
+    coreSaleRevenueTarget: decimal("core_sale_revenue_target", { precision: 14, scale: 2 }).notNull().default("0"),
+
+    // Core product (e.g. ALL_FINANCE_EMPLOYEMENT) count target
+    coreProductTarget: integer("core_product_target").notNull().default(0),
+
+    // Revenue target for all other (non core, non count-only) products
+    otherProductRevenueTarget: decimal("other_product_revenue_target", { precision: 14, scale: 2 }).notNull().default("0"),
+
     achieved_target: bigint("achieved_target", { mode: "number" }).notNull(),
 
     rank: bigint("rank", { mode: "number" }).notNull(),
 
+    // Weighted attainment the rank is based on (null when no target is set)
+    compositeScore: decimal("composite_score", { precision: 8, scale: 2 }),
+
     createdAt: timestamp("created_at").defaultNow(),
-  }
+
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => ({
+    counsellorPeriodUnique: uniqueIndex("idx_leader_board_counsellor_period").on(
+      table.counsellor_id,
+      table.periodType,
+      table.periodYear,
+      table.periodNumber
+    ),
+  })
 );
+
+  // Single-row configuration of the metric weights used for the composite score
+  export const leaderboardMetricWeights = pgTable("leaderboard_metric_weight", {
+    id: bigserial("id", { mode: "number" }).primaryKey(),
+
+    enrollmentWeight: decimal("enrollment_weight", { precision: 6, scale: 2 }).notNull().default("1"),
+
+    coreSaleRevenueWeight: decimal("core_sale_revenue_weight", { precision: 6, scale: 2 }).notNull().default("0"),
+
+    coreProductWeight: decimal("core_product_weight", { precision: 6, scale: 2 }).notNull().default("0"),
+
+    otherProductRevenueWeight: decimal("other_product_revenue_weight", { precision: 6, scale: 2 }).notNull().default("0"),
+
+    updatedBy: bigint("updated_by", { mode: "number" })
+      .references(() => users.id),
+
+    updatedAt: timestamp("updated_at").defaultNow(),
+  });
+
+  // Frozen end-of-month leaderboard rows (written by the snapshot cron in server.ts),
+  // so closed months no longer move when payments are back-dated or edited
+  export const leaderboardSnapshots = pgTable(
+    "leaderboard_snapshot",
+    {
+      snapshotId: bigserial("id", { mode: "number" }).primaryKey(),
+
+      counsellorId: bigint("counsellor_id", { mode: "number" })
+        .references(() => users.id)
+        .notNull(),
+
+      // Manager at snapshot time (teams change over time)
+      managerId: bigint("manager_id", { mode: "number" })
+        .references(() => users.id),
+
+      periodYear: integer("period_year").notNull(),
+
+      periodMonth: integer("period_month").notNull(),
+
+      rank: integer("rank").notNull(),
+
+      // Number of ranked counsellors in that month
+      totalCounsellors: integer("total_counsellors").notNull(),
+
+      enrollments: integer("enrollments").notNull(),
+
+      revenue: decimal("revenue", { precision: 14, scale: 2 }).notNull(),
+
+      target: bigint("target", { mode: "number" }).notNull().default(0),
+
+      compositeScore: decimal("composite_score", { precision: 8, scale: 2 }),
+
+      createdAt: timestamp("created_at").defaultNow(),
+    },
+    (table) => ({
+      counsellorPeriodUnique: uniqueIndex("idx_leaderboard_snapshot_counsellor_period").on(
+        table.counsellorId,
+        table.periodYear,
+        table.periodMonth
+      ),
+      periodIdx: index("idx_leaderboard_snapshot_period").on(
+        table.periodYear,
+        table.periodMonth
+      ),
+    })
+  );
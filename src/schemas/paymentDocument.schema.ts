@@ -0,0 +1,73 @@
+import {
+  pgTable,
+  varchar,
+  integer,
+  timestamp,
+  bigserial,
+  bigint,
+  index,
+  uniqueIndex,
+  pgEnum,
+  customType,
+} from "drizzle-orm/pg-core";
+import { clientInformation } from "./clientInformation.schema";
+import { users } from "./users.schema";
+
+const bytea = customType<{ data: Buffer; driverData: Buffer }>({
+  dataType() {
+    return "bytea";
+  },
+});
+
+export const paymentDocumentSourceEnum = pgEnum("payment_document_source_enum", [
+  "client_payment",
+  "product_payment",
+]);
+
+// Generated invoice PDFs. Issued PDFs are never overwritten: the latest version is served on every
+// re-download, and when the payment data behind the invoice (sourceHash) changes a revised
+// version is added next to it.
+export const paymentDocuments = pgTable(
+  "payment_document",
+  {
+    documentId: bigserial("id", { mode: "number" }).primaryKey(),
+
+    sourceType: paymentDocumentSourceEnum("source_type").notNull(),
+
+    sourceId: bigint("source_id", { mode: "number" }).notNull(),
+
+    // 1 for the original invoice, +1 for each revision
+    version: integer("version").notNull().default(1),
+
+    clientId: bigint("client_id", { mode: "number" })
+      .references(() => clientInformation.clientId, { onDelete: "cascade" })
+      .notNull(),
+
+    invoiceNo: varchar("invoice_no", { length: 50 }),
+
+    fileName: varchar("file_name", { length: 255 }).notNull(),
+
+    mimeType: varchar("mime_type", { length: 100 }).notNull().default("application/pdf"),
+
+    content: bytea("content").notNull(),
+
+    sizeBytes: integer("size_bytes").notNull(),
+
+    // sha256 of the invoice data the PDF was rendered from
+    sourceHash: varchar("source_hash", { length: 64 }).notNull(),
+
+    generatedBy: bigint("generated_by", { mode: "number" })
+      .references(() => users.id),
+
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    sourceVersionUnique: uniqueIndex("idx_payment_document_source_version_unique").on(
+      table.sourceType,
+      table.sourceId,
+      table.version
+    ),
+
+    clientIdx: index("idx_payment_document_client").on(table.clientId),
+  })
+);
@@ -0,0 +1,80 @@
+import {
+  pgTable,
+  decimal,
+  date,
+  text,
+  timestamp,
+  bigserial,
+  bigint,
+  index,
+  uniqueIndex,
+} from "drizzle-orm/pg-core";
+import { clientInformation } from "./clientInformation.schema";
+import { saleTypes } from "./saleType.schema";
+import { users } from "./users.schema";
+import { stageEnum, clientPayments } from "./clientPayment.schema";
+
+// Agreed payment plan for a client's core sale: one row per expected stage payment
+export const paymentInstallments = pgTable(
+  "payment_installment",
+  {
+    installmentId: bigserial("id", { mode: "number" }).primaryKey(),
+
+    clientId: bigint("client_id", { mode: "number" })
+      .references(() => clientInformation.clientId, { onDelete: "cascade" })
+      .notNull(),
+
+    saleTypeId: bigint("sale_type_id", { mode: "number" })
+      .references(() => saleTypes.saleTypeId)
+      .notNull(),
+
+    stage: stageEnum("stage").notNull(),
+
+    dueDate: date("due_date").notNull(),
+
+    expectedAmount: decimal("expected_amount", {
+      precision: 12,
+      scale: 2,
+    }).notNull(),
+
+    remarks: text("remarks"),
+
+    createdBy: bigint("created_by", { mode: "number" })
+      .references(() => users.id),
+
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    clientIdx: index("idx_installment_client").on(table.clientId),
+
+    dueDateIdx: index("idx_installment_due_date").on(table.dueDate),
+
+    clientSaleTypeIdx: index("idx_installment_client_sale_type").on(
+      table.clientId,
+      table.saleTypeId
+    ),
+  })
+);
+
+// Links an actual client_payment to the installment it settles (a payment settles at most one installment)
+export const installmentPayments = pgTable(
+  "installment_payment",
+  {
+    id: bigserial("id", { mode: "number" }).primaryKey(),
+
+    installmentId: bigint("installment_id", { mode: "number" })
+      .references(() => paymentInstallments.installmentId, { onDelete: "cascade" })
+      .notNull(),
+
+    paymentId: bigint("payment_id", { mode: "number" })
+      .references(() => clientPayments.paymentId, { onDelete: "cascade" })
+      .notNull(),
+
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    installmentIdx: index("idx_installment_payment_installment").on(table.installmentId),
+
+    paymentUnique: uniqueIndex("idx_installment_payment_payment_unique").on(table.paymentId),
+  })
+);
@@ -0,0 +1,87 @@
+import {
+  pgTable,
+  decimal,
+  varchar,
+  date,
+  text,
+  timestamp,
+  bigserial,
+  bigint,
+  index,
+  pgEnum,
+} from "drizzle-orm/pg-core";
+import { clientInformation } from "./clientInformation.schema";
+import { clientPayments } from "./clientPayment.schema";
+import { clientProductPayments } from "./clientProductPayments.schema";
+import { users } from "./users.schema";
+
+export const refundTypeEnum = pgEnum("refund_type_enum", [
+  "REFUND",
+  "REVERSAL",
+  "CREDIT_NOTE",
+]);
+
+export const refundStatusEnum = pgEnum("refund_status_enum", [
+  "pending",
+  "approved",
+  "rejected",
+]);
+
+// Money going back to a client against an original client_payment or client_product_payment.
+// Only approved refunds are netted out of revenue, in the period of refundDate.
+export const paymentRefunds = pgTable(
+  "payment_refund",
+  {
+    refundId: bigserial("id", { mode: "number" }).primaryKey(),
+
+    clientId: bigint("client_id", { mode: "number" })
+      .references(() => clientInformation.clientId, { onDelete: "cascade" })
+      .notNull(),
+
+    // Exactly one of these is set
+    clientPaymentId: bigint("client_payment_id", { mode: "number" })
+      .references(() => clientPayments.paymentId, { onDelete: "cascade" }),
+
+    productPaymentId: bigint("product_payment_id", { mode: "number" })
+      .references(() => clientProductPayments.productPaymentId, { onDelete: "cascade" }),
+
+    refundType: refundTypeEnum("refund_type").notNull().default("REFUND"),
+
+    amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+
+    refundDate: date("refund_date").notNull(),
+
+    creditNoteNo: varchar("credit_note_no", { length: 50 }).unique(),
+
+    reason: text("reason").notNull(),
+
+    // Approval status: pending, approved, rejected
+    status: refundStatusEnum("status").notNull().default("pending"),
+
+    requestedBy: bigint("requested_by", { mode: "number" })
+      .references(() => users.id)
+      .notNull(),
+
+    // User who approved / rejected the refund (null while pending)
+    reviewedBy: bigint("reviewed_by", { mode: "number" })
+      .references(() => users.id),
+
+    reviewedAt: timestamp("reviewed_at"),
+
+    reviewRemarks: text("review_remarks"),
+
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    clientIdx: index("idx_refund_client").on(table.clientId),
+
+    clientPaymentIdx: index("idx_refund_client_payment").on(table.clientPaymentId),
+
+    productPaymentIdx: index("idx_refund_product_payment").on(table.productPaymentId),
+
+    statusDateIdx: index("idx_refund_status_date").on(
+      table.status,
+      table.refundDate
+    ),
+  })
+);
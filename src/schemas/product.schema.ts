@@ -0,0 +1,54 @@
+import {
+  pgTable,
+  varchar,
+  boolean,
+  timestamp,
+  bigserial,
+  jsonb,
+  index,
+} from "drizzle-orm/pg-core";
+import { entityTypeEnum } from "./clientProductPayments.schema";
+import type { ProductFieldSchema } from "../services/productFieldSchema.service";
+
+// Product catalog. client_product_payment.product_name stores the product code.
+export const products = pgTable(
+  "product",
+  {
+    productId: bigserial("id", { mode: "number" }).primaryKey(),
+
+    // Stable key, e.g. "ALL_FINANCE_EMPLOYEMENT"
+    code: varchar("code", { length: 100 }).notNull().unique(),
+
+    name: varchar("name", { length: 150 }).notNull(),
+
+    // Table the product details are stored in ("master_only" = amount on client_product_payment)
+    entityType: entityTypeEnum("entity_type").notNull().default("master_only"),
+
+    // Count-only products are counted on the dashboard but don't contribute to revenue
+    isCountOnly: boolean("is_count_only").notNull().default(false),
+
+    isCoreProduct: boolean("is_core_product").notNull().default(false),
+
+    // Lead types the product is offered for, e.g. ["spouse", "student"]. Empty = all
+    leadTypes: jsonb("lead_types").$type<string[]>().notNull().default([]),
+
+    // Product's own form (fields of its detail table + rules). Null = the table's default schema
+    fieldSchema: jsonb("field_schema").$type<ProductFieldSchema>(),
+
+    // Partial payments of this product wait for manager / admin approval
+    requiresApproval: boolean("requires_approval").notNull().default(false),
+
+    isActive: boolean("is_active").notNull().default(true),
+
+    createdAt: timestamp("created_at").defaultNow(),
+
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => ({
+    coreIdx: index("idx_product_core").on(table.isCoreProduct),
+
+    countOnlyIdx: index("idx_product_count_only").on(table.isCountOnly),
+
+    activeIdx: index("idx_product_active").on(table.isActive),
+  })
+);
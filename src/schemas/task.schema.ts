@@ -0,0 +1,92 @@
+import {
+  pgTable,
+  varchar,
+  text,
+  timestamp,
+  bigserial,
+  bigint,
+  index,
+  pgEnum,
+} from "drizzle-orm/pg-core";
+import { clientInformation } from "./clientInformation.schema";
+import { users } from "./users.schema";
+
+export const taskPriorityEnum = pgEnum("task_priority_enum", [
+  "low",
+  "medium",
+  "high",
+  "urgent",
+]);
+
+export const taskStatusEnum = pgEnum("task_status_enum", [
+  "open",
+  "in_progress",
+  "completed",
+  "cancelled",
+]);
+
+export const taskSourceEnum = pgEnum("task_source_enum", [
+  "manual",
+  "auto",
+]);
+
+// Follow-up tasks on a client, e.g. "collect BEFORE_VISA payment" or "activate SIM card"
+export const clientTasks = pgTable(
+  "client_task",
+  {
+    taskId: bigserial("id", { mode: "number" }).primaryKey(),
+
+    clientId: bigint("client_id", { mode: "number" })
+      .references(() => clientInformation.clientId, { onDelete: "cascade" })
+      .notNull(),
+
+    title: varchar("title", { length: 200 }).notNull(),
+
+    description: text("description"),
+
+    dueDate: timestamp("due_date").notNull(),
+
+    assignedTo: bigint("assigned_to", { mode: "number" })
+      .references(() => users.id)
+      .notNull(),
+
+    priority: taskPriorityEnum("priority").notNull().default("medium"),
+
+    status: taskStatusEnum("status").notNull().default("open"),
+
+    source: taskSourceEnum("source").notNull().default("manual"),
+
+    // Auto tasks only: event that created the task (e.g. "payment:INITIAL") and its entity id
+    sourceEvent: varchar("source_event", { length: 100 }),
+
+    sourceEntityId: bigint("source_entity_id", { mode: "number" }),
+
+    // Set once the due reminder was pushed to the assignee
+    reminderSentAt: timestamp("reminder_sent_at"),
+
+    completedAt: timestamp("completed_at"),
+
+    completedBy: bigint("completed_by", { mode: "number" })
+      .references(() => users.id),
+
+    createdBy: bigint("created_by", { mode: "number" })
+      .references(() => users.id),
+
+    createdAt: timestamp("created_at").defaultNow(),
+
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => ({
+    clientIdx: index("idx_task_client").on(table.clientId),
+
+    assigneeStatusDueIdx: index("idx_task_assignee_status_due").on(
+      table.assignedTo,
+      table.status,
+      table.dueDate
+    ),
+
+    statusDueIdx: index("idx_task_status_due").on(table.status, table.dueDate),
+
+    sourceIdx: index("idx_task_source").on(table.sourceEvent, table.sourceEntityId),
+  })
+);
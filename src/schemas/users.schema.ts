@@ -58,6 +58,14 @@ export const users = pgTable(
 
     isSupervisor: boolean("is_supervisor").default(false).notNull(),
 
+    // Deactivated users can't log in but stay on historical records and reports
+    isActive: boolean("is_active").default(true).notNull(),
+
+    deactivatedAt: timestamp("deactivated_at"),
+
+    deactivatedBy: bigint("deactivated_by", { mode: "number" })
+      .references((): AnyPgColumn => users.id),
+
     createdAt: timestamp("created_at").defaultNow(),
   },
   (table) => ({
@@ -67,6 +75,8 @@ export const users = pgTable(
 
     createdAtIdx: index("idx_users_created_at").on(table.createdAt),
 
+    isActiveIdx: index("idx_users_is_active").on(table.isActive),
+
     roleManagerIdx: index("idx_users_role_manager").on(
       table.role,
       table.managerId
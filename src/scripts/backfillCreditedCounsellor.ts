@@ -0,0 +1,41 @@
+import "dotenv/config";
+import { sql } from "drizzle-orm";
+import { db } from "../config/databaseConnection";
+
+// Fills credited_counsellor_id on payments recorded before transfers were tracked.
+// Run once before `drizzle-kit push`; re-running is safe.
+//  1. add the column if the table predates it
+//  2. credit every unstamped payment to the client's current counsellor
+//  3. make the column NOT NULL
+async function backfillCreditedCounsellor() {
+  await db.transaction(async (tx) => {
+    for (const table of ["client_payment", "client_product_payment"]) {
+      await tx.execute(sql.raw(`
+        ALTER TABLE ${table}
+          ADD COLUMN IF NOT EXISTS credited_counsellor_id bigint REFERENCES users(id)
+      `));
+
+      const backfilled = await tx.execute(sql.raw(`
+        UPDATE ${table} AS payment
+        SET credited_counsellor_id = client.counsellor_id
+        FROM client_information AS client
+        WHERE client.id = payment.client_id
+          AND payment.credited_counsellor_id IS NULL
+      `));
+
+      await tx.execute(sql.raw(`
+        ALTER TABLE ${table}
+          ALTER COLUMN credited_counsellor_id SET NOT NULL
+      `));
+
+      console.log(`✅ Back-filled ${backfilled.rowCount ?? 0} ${table} row(s)`);
+    }
+  });
+
+  process.exit(0);
+}
+
+backfillCreditedCounsellor().catch((err) => {
+  console.error("❌ Failed to back-fill credited counsellors:", err);
+  process.exit(1);
+});
@@ -0,0 +1,41 @@
+import "dotenv/config";
+import { sql } from "drizzle-orm";
+import { db } from "../config/databaseConnection";
+
+// Opens approval requests for partial finance payments decided before they joined the approval workflow.
+// Pending and rejected rows only count towards revenue through their request, so run this once after deploying.
+// Re-running is safe: payments that already have a request are skipped.
+async function backfillFinanceApprovals() {
+  await db.transaction(async (tx) => {
+    const backfilled = await tx.execute(sql.raw(`
+      WITH inserted AS (
+        INSERT INTO approval_request
+          (entity_type, entity_id, client_id, product_name, amount, levels, current_level, status, resolved_at)
+        SELECT
+          'product_payment', payment.id, payment.client_id, payment.product_name, finance.amount,
+          '["manager"]'::jsonb, 0, finance.approval_status::text::approval_status_enum,
+          CASE WHEN finance.approval_status = 'rejected' THEN NOW() END
+        FROM all_finance AS finance
+        JOIN client_product_payment AS payment
+          ON payment.entity_type = 'allFinance_id' AND payment.entity_id = finance.id
+        WHERE finance.approval_status IN ('pending', 'rejected')
+          AND NOT EXISTS (
+            SELECT 1 FROM approval_request AS request
+            WHERE request.entity_type = 'product_payment' AND request.entity_id = payment.id
+          )
+        RETURNING id
+      )
+      INSERT INTO approval_action (request_id, level, action, comment)
+      SELECT id, 0, 'submitted', 'Partial payment' FROM inserted
+    `));
+
+    console.log(`✅ Opened ${backfilled.rowCount ?? 0} approval request(s) for partial finance payments`);
+  });
+
+  process.exit(0);
+}
+
+backfillFinanceApprovals().catch((err) => {
+  console.error("❌ Failed to back-fill finance approvals:", err);
+  process.exit(1);
+});
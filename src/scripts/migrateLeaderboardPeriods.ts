@@ -0,0 +1,78 @@
+import "dotenv/config";
+import { sql } from "drizzle-orm";
+import { db } from "../config/databaseConnection";
+
+// Moves leader_board targets from "month of created_at" to explicit period columns.
+// Run once before `drizzle-kit push`; every step is idempotent so re-running is safe.
+//  1. add period_type / period_year / period_number / updated_at (nullable first)
+//  2. back-fill them from created_at (all existing targets are monthly)
+//  3. drop duplicates per counsellor + period, keeping the row with a target (then the newest)
+//  4. make the columns NOT NULL and add the unique index
+async function migrateLeaderboardPeriods() {
+  await db.transaction(async (tx) => {
+    await tx.execute(sql`
+      DO $$ BEGIN
+        CREATE TYPE target_period_type_enum AS ENUM ('month', 'quarter');
+      EXCEPTION WHEN duplicate_object THEN NULL;
+      END $$;
+    `);
+
+    await tx.execute(sql`
+      ALTER TABLE leader_board
+        ADD COLUMN IF NOT EXISTS period_type target_period_type_enum DEFAULT 'month',
+        ADD COLUMN IF NOT EXISTS period_year integer,
+        ADD COLUMN IF NOT EXISTS period_number integer,
+        ADD COLUMN IF NOT EXISTS updated_at timestamp DEFAULT now()
+    `);
+
+    const backfilled = await tx.execute(sql`
+      UPDATE leader_board
+      SET period_type = 'month',
+          period_year = EXTRACT(YEAR FROM created_at)::int,
+          period_number = EXTRACT(MONTH FROM created_at)::int
+      WHERE period_year IS NULL OR period_number IS NULL
+    `);
+
+    const duplicates = await tx.execute(sql`
+      DELETE FROM leader_board
+      WHERE id IN (
+        SELECT id FROM (
+          SELECT id,
+                 ROW_NUMBER() OVER (
+                   PARTITION BY counsellor_id, period_type, period_year, period_number
+                   ORDER BY (target > 0) DESC, id DESC
+                 ) AS row_number
+          FROM leader_board
+        ) ranked
+        WHERE ranked.row_number > 1
+      )
+      RETURNING id, counsellor_id, period_year, period_number, target
+    `);
+
+    await tx.execute(sql`
+      ALTER TABLE leader_board
+        ALTER COLUMN period_type SET NOT NULL,
+        ALTER COLUMN period_year SET NOT NULL,
+        ALTER COLUMN period_number SET NOT NULL
+    `);
+
+    await tx.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_leader_board_counsellor_period
+      ON leader_board (counsellor_id, period_type, period_year, period_number)
+    `);
+
+    console.log(`✅ Back-filled ${backfilled.rowCount ?? 0} target row(s)`);
+
+    if (duplicates.rows.length > 0) {
+      console.log(`⚠️ Removed ${duplicates.rows.length} duplicate target row(s):`);
+      console.table(duplicates.rows);
+    }
+  });
+
+  process.exit(0);
+}
+
+migrateLeaderboardPeriods().catch((err) => {
+  console.error("❌ Failed to migrate leader_board periods:", err);
+  process.exit(1);
+});
@@ -0,0 +1,34 @@
+import "dotenv/config";
+import { db } from "../config/databaseConnection";
+import { caseStages } from "./../schemas/caseStage.schema";
+
+// Default visa case pipeline. Existing rows are left untouched, so the script is safe to re-run;
+// stages and transitions can be changed afterwards through /api/case-pipeline/stages.
+const defaultStages: Array<typeof caseStages.$inferInsert> = [
+  { code: "LEAD", name: "Lead", sortOrder: 10, isInitial: true, nextStageCodes: ["ENROLLED"] },
+  { code: "ENROLLED", name: "Enrolled", sortOrder: 20, nextStageCodes: ["DOCUMENTS_COLLECTED"] },
+  { code: "DOCUMENTS_COLLECTED", name: "Documents Collected", sortOrder: 30, nextStageCodes: ["FILED"] },
+  { code: "FILED", name: "Filed", sortOrder: 40, nextStageCodes: ["BIOMETRICS", "APPROVED", "REFUSED"] },
+  { code: "BIOMETRICS", name: "Biometrics", sortOrder: 50, nextStageCodes: ["APPROVED", "REFUSED"] },
+  { code: "APPROVED", name: "Decision: Approved", sortOrder: 60, nextStageCodes: ["LANDED"] },
+  // A refused case can be re-filed
+  { code: "REFUSED", name: "Decision: Refused", sortOrder: 70, isTerminal: true, nextStageCodes: ["FILED"] },
+  { code: "LANDED", name: "Landed", sortOrder: 80, isTerminal: true, nextStageCodes: [] },
+];
+
+async function seedCaseStages() {
+  const inserted = await db
+    .insert(caseStages)
+    .values(defaultStages)
+    .onConflictDoNothing({ target: caseStages.code })
+    .returning({ code: caseStages.code });
+
+  console.log(`✅ Case stages seeded: ${inserted.length} new, ${defaultStages.length - inserted.length} already present`);
+
+  process.exit(0);
+}
+
+seedCaseStages().catch((err) => {
+  console.error("❌ Failed to seed case stages:", err);
+  process.exit(1);
+});
@@ -0,0 +1,34 @@
+import "dotenv/config";
+import { db } from "../config/databaseConnection";
+import { leadSources } from "./../schemas/leadSource.schema";
+
+// Default acquisition sources. Existing rows are left untouched, so the script is safe to re-run;
+// sources can be changed afterwards through /api/lead-sources.
+const defaultSources: Array<typeof leadSources.$inferInsert> = [
+  { code: "WALK_IN", name: "Walk-in", sortOrder: 10 },
+  { code: "PHONE", name: "Phone inquiry", sortOrder: 20 },
+  { code: "WEBSITE", name: "Website", sortOrder: 30 },
+  { code: "FACEBOOK", name: "Facebook", sortOrder: 40 },
+  { code: "INSTAGRAM", name: "Instagram", sortOrder: 50 },
+  { code: "GOOGLE", name: "Google Ads", sortOrder: 60 },
+  { code: "CLIENT_REFERRAL", name: "Client referral", referralType: "client", sortOrder: 70 },
+  { code: "AGENT_PARTNER", name: "Agent partner", referralType: "agent", sortOrder: 80 },
+  { code: "OTHER", name: "Other", sortOrder: 90 },
+];
+
+async function seedLeadSources() {
+  const inserted = await db
+    .insert(leadSources)
+    .values(defaultSources)
+    .onConflictDoNothing({ target: leadSources.code })
+    .returning({ code: leadSources.code });
+
+  console.log(`✅ Lead sources seeded: ${inserted.length} new, ${defaultSources.length - inserted.length} already present`);
+
+  process.exit(0);
+}
+
+seedLeadSources().catch((err) => {
+  console.error("❌ Failed to seed lead sources:", err);
+  process.exit(1);
+});
@@ -0,0 +1,58 @@
+import "dotenv/config";
+import { db } from "../config/databaseConnection";
+import { products } from "./../schemas/product.schema";
+
+// Catalog that used to be hard-coded (product_type_enum, productToEntityTypeMap, COUNT_ONLY_PRODUCTS).
+// Existing rows are left untouched, so the script is safe to re-run.
+const defaultProducts: Array<typeof products.$inferInsert> = [
+  // SPOUSE products
+  { code: "ALL_FINANCE_EMPLOYEMENT", name: "All Finance & Employment", entityType: "allFinance_id", isCoreProduct: true, requiresApproval: true, leadTypes: ["spouse"] },
+  { code: "INDIAN_SIDE_EMPLOYEMENT", name: "Indian Side Employment", leadTypes: ["spouse"] },
+  { code: "NOC_LEVEL_JOB_ARRANGEMENT", name: "NOC Level Job Arrangement", leadTypes: ["spouse"] },
+  { code: "LAWYER_REFUSAL_CHARGE", name: "Lawyer Refusal Charge", leadTypes: ["spouse"] },
+  { code: "ONSHORE_PART_TIME_EMPLOYEMENT", name: "Onshore Part Time Employment", leadTypes: ["spouse"] },
+  { code: "TRV_WORK_PERMIT_EXT_STUDY_PERMIT_EXTENSION", name: "TRV / Work Permit / Study Permit Extension", entityType: "visaextension_id", leadTypes: ["spouse"] },
+  { code: "MARRIAGE_PHOTO_FOR_COURT_MARRIAGE", name: "Marriage Photo for Court Marriage", leadTypes: ["spouse"] },
+  { code: "MARRIAGE_PHOTO_CERTIFICATE", name: "Marriage Photo Certificate", leadTypes: ["spouse"] },
+  { code: "RECENTE_MARRIAGE_RELATIONSHIP_AFFIDAVIT", name: "Recent Marriage Relationship Affidavit", leadTypes: ["spouse"] },
+  { code: "JUDICAL_REVIEW_CHARGE", name: "Judicial Review Charge", leadTypes: ["spouse"] },
+  { code: "SIM_CARD_ACTIVATION", name: "SIM Card Activation", entityType: "simCard_id", isCountOnly: true, leadTypes: ["spouse"] },
+  { code: "INSURANCE", name: "Insurance", entityType: "insurance_id", isCountOnly: true, leadTypes: ["spouse"] },
+  { code: "BEACON_ACCOUNT", name: "Beacon Account", entityType: "beaconAccount_id", isCountOnly: true, leadTypes: ["spouse"] },
+  { code: "AIR_TICKET", name: "Air Ticket", entityType: "airTicket_id", isCountOnly: true, leadTypes: ["spouse"] },
+  { code: "OTHER_NEW_SELL", name: "Other New Sell", entityType: "newSell_id", leadTypes: ["spouse"] },
+  // VISITOR products
+  { code: "SPONSOR_CHARGES", name: "Sponsor Charges", leadTypes: ["visitor"] },
+  // STUDENT products
+  { code: "FINANCE_EMPLOYEMENT", name: "Finance & Employment", leadTypes: ["student"] },
+  { code: "IELTS_ENROLLMENT", name: "IELTS Enrollment", entityType: "ielts_id", leadTypes: ["student"] },
+  { code: "LOAN_DETAILS", name: "Loan Details", entityType: "loan_id", isCountOnly: true, leadTypes: ["student"] },
+  { code: "FOREX_CARD", name: "Forex Card", entityType: "forexCard_id", isCountOnly: true, leadTypes: ["student"] },
+  { code: "FOREX_FEES", name: "Forex Fees", entityType: "forexFees_id", leadTypes: ["student"] },
+  { code: "TUTION_FEES", name: "Tuition Fees", entityType: "tutionFees_id", isCountOnly: true, leadTypes: ["student"] },
+  { code: "CREDIT_CARD", name: "Credit Card", entityType: "creditCard_id", isCountOnly: true, leadTypes: ["student"] },
+  // Common products
+  { code: "VISA_EXTENSION", name: "Visa Extension", entityType: "visaextension_id" },
+  { code: "REFUSAL_CHARGES", name: "Refusal Charges" },
+  { code: "KIDS_STUDY_PERMIT", name: "Kids Study Permit" },
+  { code: "CANADA_FUND", name: "Canada Fund" },
+  { code: "EMPLOYMENT_VERIFICATION_CHARGES", name: "Employment Verification Charges" },
+  { code: "ADDITIONAL_AMOUNT_STATEMENT_CHARGES", name: "Additional Amount Statement Charges" },
+];
+
+async function seedProducts() {
+  const inserted = await db
+    .insert(products)
+    .values(defaultProducts)
+    .onConflictDoNothing({ target: products.code })
+    .returning({ code: products.code });
+
+  console.log(`✅ Products seeded: ${inserted.length} new, ${defaultProducts.length - inserted.length} already present`);
+
+  process.exit(0);
+}
+
+seedProducts().catch((err) => {
+  console.error("❌ Failed to seed products:", err);
+  process.exit(1);
+});
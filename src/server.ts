@@ -6,6 +6,8 @@ import app from "./index";
 import { checkDbConnection } from "./config/databaseConnection";
 import { initializeSocket } from "./config/socket";
 import { deleteOldMessages } from "./models/message.model";
+import { snapshotLeaderboard, getLastClosedMonth } from "./models/leaderboard.model";
+import { sendDueTaskReminders } from "./services/task.service";
 import * as cron from "node-cron";
 
 /* ================================
@@ -72,6 +74,12 @@ httpServer.listen(Number(PORT), "0.0.0.0", () => {
 
       // Initialize message cleanup scheduler
       initializeMessageCleanup();
+
+      // Initialize leaderboard snapshot scheduler
+      initializeLeaderboardSnapshots();
+
+      // Initialize task reminder scheduler
+      initializeTaskReminders();
     })
     .catch((error) => {
       console.error("❌ Database connection failed");
@@ -156,3 +164,78 @@ const initializeMessageCleanup = () => {
     logger.info(`✅ Message cleanup cron job started`);
   }
 };
+
+/* ================================
+   LEADERBOARD SNAPSHOT SCHEDULER
+================================ */
+
+/**
+ * Freeze the leaderboard of the month that just closed
+ * - Runs on the 1st of every month shortly after midnight
+ * - Also runs once on startup so a month missed while the server was down is caught up
+ *   (months that already have a snapshot are skipped)
+ */
+const initializeLeaderboardSnapshots = () => {
+  const runSnapshot = async () => {
+    const { month, year } = getLastClosedMonth();
+
+    try {
+      const result = await snapshotLeaderboard(month, year);
+
+      if (result.created) {
+        logger.info(`📸 Leaderboard snapshot created for ${month}/${year} (${result.count} counsellor(s))`);
+      } else {
+        logger.debug(`ℹ️  Leaderboard snapshot for ${month}/${year} already exists`);
+      }
+    } catch (error: any) {
+      logger.error("❌ Error during leaderboard snapshot:", error.message);
+      logger.error("   Stack:", error.stack);
+    }
+  };
+
+  const cronExpression = process.env.LEADERBOARD_SNAPSHOT_CRON || "5 0 1 * *"; // 00:05 on the 1st
+  logger.info(`📸 Leaderboard snapshot scheduled (cron: ${cronExpression})`);
+
+  runSnapshot();
+
+  cron.schedule(cronExpression, runSnapshot, {
+    timezone: process.env.TZ || "UTC",
+  });
+
+  logger.info(`✅ Leaderboard snapshot cron job started`);
+};
+
+/* ================================
+   TASK REMINDER SCHEDULER
+================================ */
+
+/**
+ * Push "task:reminder" to assignees of tasks coming due
+ * - Runs every 5 minutes by default (TASK_REMINDER_CRON)
+ * - Reminds TASK_REMINDER_LEAD_MINUTES (default 60) before the due time, once per task
+ */
+const initializeTaskReminders = () => {
+  const leadMinutes = parseInt(process.env.TASK_REMINDER_LEAD_MINUTES || "60", 10);
+
+  const runReminders = async () => {
+    try {
+      const sent = await sendDueTaskReminders(leadMinutes);
+
+      if (sent > 0) {
+        logger.info(`⏰ Sent ${sent} task reminder(s)`);
+      }
+    } catch (error: any) {
+      logger.error("❌ Error during task reminders:", error.message);
+      logger.error("   Stack:", error.stack);
+    }
+  };
+
+  const cronExpression = process.env.TASK_REMINDER_CRON || "*/5 * * * *"; // Every 5 minutes
+  logger.info(`⏰ Task reminders scheduled (cron: ${cronExpression}, lead: ${leadMinutes} min)`);
+
+  cron.schedule(cronExpression, runReminders, {
+    timezone: process.env.TZ || "UTC",
+  });
+
+  logger.info(`✅ Task reminder cron job started`);
+};
@@ -11,7 +11,7 @@ interface CreateActivityLogInput {
   entityType: string;
   entityId?: number | null;
   clientId?: number | null;
-  action: "CREATE" | "UPDATE" | "DELETE" | "STATUS_CHANGE" | "PAYMENT_ADDED" | "PAYMENT_UPDATED" | "PAYMENT_DELETED" | "PRODUCT_ADDED" | "PRODUCT_UPDATED" | "PRODUCT_DELETED" | "ARCHIVE" | "UNARCHIVE" | "LOGIN" | "LOGOUT";
+  action: "CREATE" | "UPDATE" | "DELETE" | "STATUS_CHANGE" | "PAYMENT_ADDED" | "PAYMENT_UPDATED" | "PAYMENT_DELETED" | "PAYMENT_REFUNDED" | "PRODUCT_ADDED" | "PRODUCT_UPDATED" | "PRODUCT_DELETED" | "ARCHIVE" | "UNARCHIVE" | "LOGIN" | "LOGOUT" | "MERGE";
   oldValue?: any;
   newValue?: any;
   description?: string;
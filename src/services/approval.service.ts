@@ -0,0 +1,79 @@
+import { emitToRoles, emitToCounsellor } from "../config/socket";
+
+/**
+ * Approval Service
+ * Socket notifications for the approval workflow.
+ * Approvers listen on their role room, requesters / counsellors on their own room.
+ * Never throws - a failed notification must not fail the approval itself.
+ */
+
+interface ApprovalNotificationRequest {
+  requestId: number;
+  entityType: string;
+  entityId: number;
+  clientId: number;
+  counsellorId?: number | null;
+  productName?: string | null;
+  amount?: string | null;
+  levels: string[];
+  currentLevel: number;
+  status: string;
+  requestedBy?: number | null;
+}
+
+const toPayload = (request: ApprovalNotificationRequest) => ({
+  requestId: request.requestId,
+  entityType: request.entityType,
+  entityId: request.entityId,
+  clientId: request.clientId,
+  productName: request.productName ?? null,
+  amount: request.amount ?? null,
+  level: request.currentLevel + 1,
+  totalLevels: request.levels.length,
+  pendingRole: request.status === "pending" ? request.levels[request.currentLevel] : null,
+  status: request.status,
+});
+
+/**
+ * Tell the approvers of the current level that a request is waiting for them
+ */
+export const notifyApprovalRequested = (request: ApprovalNotificationRequest) => {
+  try {
+    const role = request.levels[request.currentLevel];
+    if (role) {
+      emitToRoles([role], "approval:requested", toPayload(request));
+    }
+  } catch (wsError) {
+    console.error("WebSocket emit error in notifyApprovalRequested:", wsError);
+  }
+};
+
+/**
+ * Notify requester and client counsellor of a decision.
+ * Moves on to the next level's approvers while the request is still pending.
+ */
+export const notifyApprovalDecision = (
+  request: ApprovalNotificationRequest,
+  decision: "approved" | "rejected",
+  actedBy: number
+) => {
+  if (request.status === "pending") {
+    notifyApprovalRequested(request);
+  }
+
+  try {
+    const payload = { ...toPayload(request), decision, actedBy };
+    const recipients = new Set<number>();
+
+    if (request.requestedBy) recipients.add(request.requestedBy);
+    if (request.counsellorId) recipients.add(request.counsellorId);
+
+    for (const userId of recipients) {
+      emitToCounsellor(userId, `approval:${decision}`, payload);
+    }
+
+    emitToRoles(["admin"], "approval:updated", payload);
+  } catch (wsError) {
+    console.error("WebSocket emit error in notifyApprovalDecision:", wsError);
+  }
+};
@@ -0,0 +1,93 @@
+import fs from "fs/promises";
+import path from "path";
+
+/**
+ * Document Storage Service
+ * Pluggable backend for uploaded client documents. The database only keeps the
+ * driver name and key of each file, so another backend (S3, GCS, ...) can be added
+ * by implementing DocumentStorage and registering it in `storageDrivers`.
+ *
+ * Environment:
+ * - DOCUMENT_STORAGE_DRIVER: driver used for new uploads (default "local")
+ * - DOCUMENT_STORAGE_PATH: root directory of the local driver (default "uploads/documents")
+ */
+export interface DocumentStorage {
+  readonly driver: string;
+  save(key: string, content: Buffer): Promise<void>;
+  read(key: string): Promise<Buffer>;
+  remove(key: string): Promise<void>;
+}
+
+/**
+ * Local filesystem storage. Keys are relative paths below the root directory.
+ */
+export const createLocalDiskStorage = (rootDir: string): DocumentStorage => {
+  const root = path.resolve(rootDir);
+
+  // Never leave the root directory, whatever the key contains
+  const resolveKey = (key: string) => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error("Invalid storage key");
+    }
+    return filePath;
+  };
+
+  return {
+    driver: "local",
+
+    async save(key, content) {
+      const filePath = resolveKey(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, content, { flag: "wx" });
+    },
+
+    async read(key) {
+      try {
+        return await fs.readFile(resolveKey(key));
+      } catch (error: any) {
+        if (error.code === "ENOENT") {
+          throw new Error("Document file not found in storage");
+        }
+        throw error;
+      }
+    },
+
+    async remove(key) {
+      try {
+        await fs.unlink(resolveKey(key));
+      } catch (error: any) {
+        // Already gone - nothing to do
+        if (error.code !== "ENOENT") {
+          throw error;
+        }
+      }
+    },
+  };
+};
+
+const storageDrivers: Record<string, () => DocumentStorage> = {
+  local: () => createLocalDiskStorage(process.env.DOCUMENT_STORAGE_PATH || "uploads/documents"),
+};
+
+const storageInstances = new Map<string, DocumentStorage>();
+
+/**
+ * Storage for a driver name (defaults to the configured driver for new uploads)
+ */
+export const getDocumentStorage = (
+  driver: string = process.env.DOCUMENT_STORAGE_DRIVER || "local"
+): DocumentStorage => {
+  let storage = storageInstances.get(driver);
+
+  if (!storage) {
+    const factory = storageDrivers[driver];
+    if (!factory) {
+      throw new Error(`Unknown document storage driver: ${driver}`);
+    }
+    storage = factory();
+    storageInstances.set(driver, storage);
+  }
+
+  return storage;
+};
@@ -0,0 +1,150 @@
+import PDFDocument from "pdfkit";
+
+/**
+ * Invoice PDF Service
+ * Renders a branded invoice / receipt PDF for a single payment.
+ * Branding comes from env so each deployment can use its own letterhead.
+ */
+
+export interface InvoicePdfData {
+  invoiceNo: string | null;
+  invoiceDate: string | null;
+  client: {
+    id: number;
+    fullName: string;
+    passportDetails: string;
+    enrollmentDate: string | null;
+  };
+  counsellorName: string | null;
+  item: string; // sale type or product name
+  stage?: string | null;
+  totalPayment?: string | null;
+  amount: string;
+  remarks?: string | null;
+  // Set on revised invoices (1 = original, 2 = first revision)
+  version?: number;
+}
+
+const BRAND = {
+  name: process.env.INVOICE_COMPANY_NAME || "Company Name",
+  address: process.env.INVOICE_COMPANY_ADDRESS || "",
+  phone: process.env.INVOICE_COMPANY_PHONE || "",
+  email: process.env.INVOICE_COMPANY_EMAIL || "",
+  currency: process.env.INVOICE_CURRENCY || "INR",
+  color: process.env.INVOICE_BRAND_COLOR || "#1f3a93",
+};
+
+const formatAmount = (value: string | null | undefined) => {
+  const amount = parseFloat(value || "0") || 0;
+  return `${BRAND.currency} ${amount.toLocaleString("en-IN", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+};
+
+const formatLabel = (value: string) =>
+  value
+    .split("_")
+    .map((word) => word.charAt(0) + word.slice(1).toLowerCase())
+    .join(" ");
+
+export const renderInvoicePdf = (data: InvoicePdfData): Promise<Buffer> => {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: "A4",
+      margin: 50,
+      info: {
+        Title: `Invoice ${data.invoiceNo ?? ""}`.trim(),
+        Author: BRAND.name,
+      },
+    });
+
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    const left = doc.page.margins.left;
+    const right = doc.page.width - doc.page.margins.right;
+    const width = right - left;
+
+    // ---- HEADER ----
+    doc.rect(0, 0, doc.page.width, 90).fill(BRAND.color);
+    doc.fillColor("#ffffff").fontSize(22).font("Helvetica-Bold").text(BRAND.name, left, 28, { width: width / 2 });
+    doc.fontSize(9).font("Helvetica");
+    const contact = [BRAND.address, BRAND.phone, BRAND.email].filter(Boolean).join("  |  ");
+    if (contact) {
+      doc.text(contact, left, 58, { width: width / 2 + 80 });
+    }
+    doc.fontSize(20).font("Helvetica-Bold").text("INVOICE", left, 32, { width, align: "right" });
+
+    // ---- INVOICE META ----
+    doc.fillColor("#000000").fontSize(10).font("Helvetica");
+    let y = 115;
+    doc.font("Helvetica-Bold").text("Invoice No:", right - 200, y).font("Helvetica").text(data.invoiceNo ?? "-", right - 110, y);
+    y += 16;
+    doc.font("Helvetica-Bold").text("Date:", right - 200, y).font("Helvetica").text(data.invoiceDate ?? "-", right - 110, y);
+    if (data.version && data.version > 1) {
+      y += 16;
+      doc.font("Helvetica-Bold").text("Version:", right - 200, y).font("Helvetica").text(
+        `${data.version} (replaces ${data.version - 1})`,
+        right - 110,
+        y,
+        { width: 110 }
+      );
+    }
+
+    // ---- BILL TO ----
+    y = 115;
+    doc.font("Helvetica-Bold").fontSize(11).text("Bill To", left, y);
+    doc.font("Helvetica").fontSize(10);
+    doc.text(data.client.fullName, left, y + 16);
+    doc.text(`Passport: ${data.client.passportDetails}`, left, y + 31);
+    doc.text(`Client ID: ${data.client.id}`, left, y + 46);
+    if (data.counsellorName) {
+      doc.text(`Counsellor: ${data.counsellorName}`, left, y + 61);
+    }
+
+    // ---- LINE ITEMS ----
+    y = 215;
+    doc.rect(left, y, width, 22).fill("#f0f2f7");
+    doc.fillColor("#000000").font("Helvetica-Bold").fontSize(10);
+    doc.text("Description", left + 8, y + 7);
+    doc.text("Stage", left + 260, y + 7);
+    doc.text("Amount", left, y + 7, { width: width - 8, align: "right" });
+
+    y += 30;
+    doc.font("Helvetica");
+    doc.text(formatLabel(data.item), left + 8, y, { width: 240 });
+    doc.text(data.stage ? formatLabel(data.stage) : "-", left + 260, y);
+    doc.text(formatAmount(data.amount), left, y, { width: width - 8, align: "right" });
+
+    y += 24;
+    doc.moveTo(left, y).lineTo(right, y).strokeColor("#d0d4de").stroke();
+
+    // ---- TOTALS ----
+    y += 12;
+    if (data.totalPayment) {
+      doc.text("Total agreed amount:", right - 250, y).text(formatAmount(data.totalPayment), left, y, { width: width - 8, align: "right" });
+      y += 16;
+    }
+    doc.font("Helvetica-Bold").text("Amount received:", right - 250, y).text(formatAmount(data.amount), left, y, { width: width - 8, align: "right" });
+
+    // ---- REMARKS ----
+    if (data.remarks) {
+      y += 40;
+      doc.font("Helvetica-Bold").text("Remarks", left, y);
+      doc.font("Helvetica").text(data.remarks, left, y + 16, { width });
+    }
+
+    // ---- FOOTER ----
+    doc.fontSize(8).fillColor("#777777").text(
+      "This is a computer generated invoice and does not require a signature.",
+      left,
+      doc.page.height - doc.page.margins.bottom - 20,
+      { width, align: "center" }
+    );
+
+    doc.end();
+  });
+};
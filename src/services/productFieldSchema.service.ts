@@ -0,0 +1,498 @@
+/**
+ * Product Field Schema Service
+ * Declares the fields each product detail table accepts (type, required, limits)
+ * plus cross-field rules, and validates product payment data against them.
+ * A product can declare its own schema (product.field_schema) from the fields of
+ * its detail table; products without one use the table's default declaration.
+ * The same declaration is served to the frontend to render product forms.
+ */
+
+export type ProductFieldType = "string" | "text" | "number" | "boolean" | "date" | "enum";
+
+export interface ProductField {
+  name: string;
+  label: string;
+  type: ProductFieldType;
+  required?: boolean;
+  options?: string[]; // enum values
+  min?: number; // numbers
+  maxLength?: number; // strings
+}
+
+export type ProductFieldRule =
+  | { type: "dateOnOrAfter"; field: string; otherField: string; message: string }
+  | { type: "requireOneOf"; fields: string[]; message: string };
+
+export interface ProductFieldSchema {
+  fields: ProductField[];
+  rules: ProductFieldRule[];
+}
+
+export interface ProductFieldError {
+  field: string;
+  message: string;
+}
+
+export class ProductValidationError extends Error {
+  fieldErrors: ProductFieldError[];
+
+  constructor(fieldErrors: ProductFieldError[]) {
+    super(fieldErrors.map((error) => error.message).join("; "));
+    this.name = "ProductValidationError";
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+/* ==============================
+   DECLARATIONS
+   Defaults keyed by entity type (the product's detail table), and the set of
+   fields a product's own schema can pick from.
+   master_only fields are the top-level fields of the payment itself.
+============================== */
+const remarks: ProductField = { name: "remarks", label: "Remarks", type: "text" };
+const invoiceNo: ProductField = { name: "invoiceNo", label: "Invoice No", type: "string", maxLength: 50 };
+
+const PRODUCT_FIELD_SCHEMAS: Record<string, ProductFieldSchema> = {
+  master_only: {
+    fields: [
+      { name: "amount", label: "Amount", type: "number", required: true, min: 0.01 },
+      { name: "paymentDate", label: "Payment Date", type: "date" },
+      invoiceNo,
+      remarks,
+    ],
+    rules: [],
+  },
+
+  simCard_id: {
+    fields: [
+      { name: "activatedStatus", label: "Activated", type: "boolean" },
+      { name: "simcardPlan", label: "SIM Card Plan", type: "string", maxLength: 100 },
+      { name: "simCardGivingDate", label: "SIM Card Giving Date", type: "date" },
+      { name: "simActivationDate", label: "SIM Activation Date", type: "date" },
+      remarks,
+    ],
+    rules: [
+      {
+        type: "dateOnOrAfter",
+        field: "simActivationDate",
+        otherField: "simCardGivingDate",
+        message: "Activation date must be on or after the giving date",
+      },
+    ],
+  },
+
+  airTicket_id: {
+    fields: [
+      { name: "isTicketBooked", label: "Ticket Booked", type: "boolean" },
+      { name: "amount", label: "Amount", type: "number", min: 0 },
+      { name: "airTicketNumber", label: "Air Ticket Number", type: "string", maxLength: 50 },
+      { name: "ticketDate", label: "Ticket Date", type: "date" },
+      remarks,
+    ],
+    rules: [],
+  },
+
+  ielts_id: {
+    fields: [
+      { name: "enrolledStatus", label: "Enrolled", type: "boolean" },
+      { name: "amount", label: "Amount", type: "number", required: true, min: 0 },
+      { name: "enrollmentDate", label: "Enrollment Date", type: "date" },
+      remarks,
+    ],
+    rules: [],
+  },
+
+  loan_id: {
+    fields: [
+      { name: "amount", label: "Amount", type: "number", required: true, min: 0 },
+      { name: "disbursmentDate", label: "Disbursement Date", type: "date" },
+      remarks,
+    ],
+    rules: [],
+  },
+
+  forexCard_id: {
+    fields: [
+      { name: "forexCardStatus", label: "Forex Card Status", type: "string", maxLength: 100 },
+      { name: "cardDate", label: "Card Date", type: "date" },
+      remarks,
+    ],
+    rules: [],
+  },
+
+  forexFees_id: {
+    fields: [
+      { name: "side", label: "Side", type: "enum", required: true, options: ["PI", "TP"] },
+      { name: "amount", label: "Amount", type: "number", required: true, min: 0 },
+      { name: "feeDate", label: "Fee Date", type: "date" },
+      remarks,
+    ],
+    rules: [],
+  },
+
+  tutionFees_id: {
+    fields: [
+      { name: "tutionFeesStatus", label: "Tuition Fees Status", type: "enum", required: true, options: ["paid", "pending"] },
+      { name: "feeDate", label: "Fee Date", type: "date" },
+      remarks,
+    ],
+    rules: [],
+  },
+
+  insurance_id: {
+    fields: [
+      { name: "amount", label: "Amount", type: "number", required: true, min: 0 },
+      { name: "policyNumber", label: "Policy Number", type: "string", maxLength: 50 },
+      { name: "insuranceDate", label: "Insurance Date", type: "date" },
+      remarks,
+    ],
+    rules: [],
+  },
+
+  beaconAccount_id: {
+    fields: [
+      { name: "amount", label: "Amount", type: "number", min: 0 },
+      { name: "fundingAmount", label: "Funding Amount", type: "number", min: 0 },
+      { name: "openingDate", label: "Opening Date", type: "date" },
+      { name: "fundingDate", label: "Funding Date", type: "date" },
+      remarks,
+    ],
+    rules: [
+      {
+        type: "requireOneOf",
+        fields: ["amount", "fundingAmount"],
+        message: "amount or fundingAmount is required for beacon account",
+      },
+      {
+        type: "dateOnOrAfter",
+        field: "fundingDate",
+        otherField: "openingDate",
+        message: "Funding date must be on or after the opening date",
+      },
+    ],
+  },
+
+  creditCard_id: {
+    fields: [
+      { name: "activatedStatus", label: "Activated", type: "boolean" },
+      { name: "cardPlan", label: "Card Plan", type: "string", maxLength: 100 },
+      { name: "cardGivingDate", label: "Card Giving Date", type: "date" },
+      { name: "cardActivationDate", label: "Card Activation Date", type: "date" },
+      { name: "cardDate", label: "Card Date", type: "date" },
+      remarks,
+    ],
+    rules: [
+      {
+        type: "dateOnOrAfter",
+        field: "cardActivationDate",
+        otherField: "cardGivingDate",
+        message: "Activation date must be on or after the giving date",
+      },
+    ],
+  },
+
+  allFinance_id: {
+    fields: [
+      { name: "amount", label: "Amount", type: "number", required: true, min: 0.01 },
+      { name: "paymentDate", label: "Payment Date", type: "date", required: true },
+      invoiceNo,
+      { name: "partialPayment", label: "Partial Payment", type: "boolean" },
+      remarks,
+    ],
+    rules: [],
+  },
+
+  visaextension_id: {
+    fields: [
+      { name: "type", label: "Type", type: "string", required: true, maxLength: 100 },
+      { name: "amount", label: "Amount", type: "number", required: true, min: 0 },
+      { name: "extensionDate", label: "Extension Date", type: "date" },
+      invoiceNo,
+      remarks,
+    ],
+    rules: [],
+  },
+
+  newSell_id: {
+    fields: [
+      { name: "serviceName", label: "Service Name", type: "string", required: true, maxLength: 150 },
+      { name: "serviceInformation", label: "Service Information", type: "text" },
+      { name: "amount", label: "Amount", type: "number", required: true, min: 0 },
+      { name: "sellDate", label: "Sell Date", type: "date" },
+      invoiceNo,
+      remarks,
+    ],
+    rules: [],
+  },
+};
+
+export const getEntityFieldSchema = (entityType: string): ProductFieldSchema => {
+  const schema = PRODUCT_FIELD_SCHEMAS[entityType];
+  if (!schema) {
+    throw new Error(`No field schema declared for entity type: ${entityType}`);
+  }
+  return schema;
+};
+
+// Schema a product's payments are validated against: its own declaration, else its table's default
+export const getProductFieldSchema = (product: {
+  entityType: string;
+  fieldSchema?: ProductFieldSchema | null;
+}): ProductFieldSchema => product.fieldSchema ?? getEntityFieldSchema(product.entityType);
+
+/* ==============================
+   PRODUCT DECLARATIONS
+   A product's own schema may only use fields of its detail table (with the
+   same type), can tighten limits and labels, and must keep every field the
+   table requires.
+============================== */
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const normalizeDeclaredField = (base: ProductField, input: Record<string, any>): ProductField => {
+  const field: ProductField = { name: base.name, label: base.label, type: base.type };
+
+  if (input.type !== undefined && input.type !== base.type) {
+    throw new Error(`fieldSchema: ${base.name} must be of type ${base.type}`);
+  }
+
+  if (input.label !== undefined) {
+    if (typeof input.label !== "string" || !input.label.trim() || input.label.trim().length > 100) {
+      throw new Error(`fieldSchema: ${base.name} label must be 1-100 characters`);
+    }
+    field.label = input.label.trim();
+  }
+
+  if (input.required !== undefined && typeof input.required !== "boolean") {
+    throw new Error(`fieldSchema: ${base.name} required must be true or false`);
+  }
+  if (base.required && input.required === false) {
+    throw new Error(`fieldSchema: ${base.name} is always required`);
+  }
+  if (base.required || input.required) {
+    field.required = true;
+  }
+
+  const min = input.min ?? base.min;
+  if (min !== undefined) {
+    if (base.type !== "number" || typeof min !== "number" || !Number.isFinite(min) || (base.min !== undefined && min < base.min)) {
+      throw new Error(`fieldSchema: invalid min for ${base.name}`);
+    }
+    field.min = min;
+  }
+
+  const maxLength = input.maxLength ?? base.maxLength;
+  if (maxLength !== undefined) {
+    if (
+      (base.type !== "string" && base.type !== "text") ||
+      !Number.isInteger(maxLength) ||
+      maxLength < 1 ||
+      (base.maxLength !== undefined && maxLength > base.maxLength)
+    ) {
+      throw new Error(`fieldSchema: invalid maxLength for ${base.name}`);
+    }
+    field.maxLength = maxLength;
+  }
+
+  const options = input.options ?? base.options;
+  if (options !== undefined) {
+    if (
+      base.type !== "enum" ||
+      !Array.isArray(options) ||
+      options.length === 0 ||
+      options.some((option) => !base.options?.includes(option))
+    ) {
+      throw new Error(`fieldSchema: options for ${base.name} must be a subset of: ${base.options?.join(", ")}`);
+    }
+    field.options = [...new Set<string>(options)];
+  }
+
+  return field;
+};
+
+/**
+ * Validate a product's own field schema against its detail table and return it normalized.
+ */
+export const normalizeProductFieldSchema = (entityType: string, input: unknown): ProductFieldSchema => {
+  const base = getEntityFieldSchema(entityType);
+
+  if (!isPlainObject(input) || !Array.isArray(input.fields) || input.fields.length === 0) {
+    throw new Error("fieldSchema must be an object with a non-empty fields array");
+  }
+
+  const fields: ProductField[] = [];
+  for (const declared of input.fields) {
+    if (!isPlainObject(declared) || typeof declared.name !== "string") {
+      throw new Error("fieldSchema: every field needs a name");
+    }
+
+    const baseField = base.fields.find((field) => field.name === declared.name);
+    if (!baseField) {
+      throw new Error(`fieldSchema: ${declared.name} is not a field of ${entityType}`);
+    }
+    if (fields.some((field) => field.name === declared.name)) {
+      throw new Error(`fieldSchema: ${declared.name} is declared twice`);
+    }
+
+    fields.push(normalizeDeclaredField(baseField, declared));
+  }
+
+  const missing = base.fields.filter((field) => field.required && !fields.some((f) => f.name === field.name));
+  if (missing.length > 0) {
+    throw new Error(`fieldSchema must include the required field(s): ${missing.map((field) => field.name).join(", ")}`);
+  }
+
+  const fieldOfType = (name: unknown, type?: ProductFieldType) =>
+    fields.some((field) => field.name === name && (!type || field.type === type));
+
+  // Table rules on fields the product keeps always apply; declared rules come on top
+  const rules: ProductFieldRule[] = base.rules.filter((rule) =>
+    rule.type === "dateOnOrAfter"
+      ? fieldOfType(rule.field) && fieldOfType(rule.otherField)
+      : rule.fields.every((name) => fieldOfType(name))
+  );
+
+  if (input.rules !== undefined && !Array.isArray(input.rules)) {
+    throw new Error("fieldSchema rules must be an array");
+  }
+
+  for (const rule of input.rules ?? []) {
+    if (!isPlainObject(rule) || typeof rule.message !== "string" || !rule.message.trim()) {
+      throw new Error("fieldSchema: every rule needs a type and a message");
+    }
+
+    if (rule.type === "dateOnOrAfter") {
+      if (!fieldOfType(rule.field, "date") || !fieldOfType(rule.otherField, "date") || rule.field === rule.otherField) {
+        throw new Error("fieldSchema: dateOnOrAfter needs two different declared date fields");
+      }
+      rules.push({ type: "dateOnOrAfter", field: rule.field, otherField: rule.otherField, message: rule.message.trim() });
+    } else if (rule.type === "requireOneOf") {
+      if (!Array.isArray(rule.fields) || rule.fields.length < 2 || !rule.fields.every((name: unknown) => fieldOfType(name))) {
+        throw new Error("fieldSchema: requireOneOf needs at least two declared fields");
+      }
+      rules.push({ type: "requireOneOf", fields: [...rule.fields], message: rule.message.trim() });
+    } else {
+      throw new Error("fieldSchema: rule type must be dateOnOrAfter or requireOneOf");
+    }
+  }
+
+  return { fields, rules };
+};
+
+/* ==============================
+   VALIDATION
+============================== */
+const isEmpty = (value: unknown) =>
+  value === undefined || value === null || (typeof value === "string" && value.trim() === "");
+
+const isValidDate = (value: unknown) => {
+  if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}/.test(value)) return false;
+  return !Number.isNaN(new Date(value.slice(0, 10)).getTime());
+};
+
+// Stored timestamps come back as Date objects
+const toDateValue = (value: unknown) =>
+  value instanceof Date && !Number.isNaN(value.getTime()) ? value.toISOString().slice(0, 10) : value;
+
+const validateField = (field: ProductField, value: unknown): string | null => {
+  switch (field.type) {
+    case "number": {
+      const num = typeof value === "string" ? Number(value) : value;
+      if (typeof num !== "number" || !Number.isFinite(num)) {
+        return `${field.name} must be a number`;
+      }
+      if (field.min !== undefined && num < field.min) {
+        return field.min > 0
+          ? `${field.name} must be greater than 0`
+          : `${field.name} must be ${field.min} or more`;
+      }
+      return null;
+    }
+    case "boolean":
+      return typeof value === "boolean" ? null : `${field.name} must be true or false`;
+    case "date":
+      return isValidDate(value) ? null : `${field.name} must be a date (YYYY-MM-DD)`;
+    case "enum":
+      return field.options?.includes(String(value))
+        ? null
+        : `${field.name} must be one of: ${field.options?.join(", ")}`;
+    case "string":
+    case "text":
+      if (typeof value !== "string" && typeof value !== "number") {
+        return `${field.name} must be text`;
+      }
+      if (field.maxLength !== undefined && String(value).trim().length > field.maxLength) {
+        return `${field.name} must be at most ${field.maxLength} characters`;
+      }
+      return null;
+    default:
+      return null;
+  }
+};
+
+/**
+ * Validate product data against its declared schema and throw a
+ * ProductValidationError listing every failing field.
+ * With `partial` (updates of an existing record) required fields may be omitted;
+ * cross-field rules are then checked on the stored row (`existing`) merged with the update.
+ * Fields that are not declared are ignored.
+ */
+export const validateProductFields = (
+  schema: ProductFieldSchema,
+  data: Record<string, any> | null | undefined,
+  options: { partial?: boolean; existing?: Record<string, any> | null } = {}
+) => {
+  const values = data ?? {};
+  const errors: ProductFieldError[] = [];
+
+  for (const field of schema.fields) {
+    const value = values[field.name];
+
+    if (isEmpty(value)) {
+      if (field.required && !options.partial) {
+        errors.push({ field: field.name, message: `${field.name} is required` });
+      } else if (field.required && value !== undefined) {
+        // Explicitly clearing a required field on update
+        errors.push({ field: field.name, message: `${field.name} cannot be empty` });
+      }
+      continue;
+    }
+
+    const message = validateField(field, value);
+    if (message) {
+      errors.push({ field: field.name, message });
+    }
+  }
+
+  // Values the record will have after the save (fields left out of an update keep their stored value)
+  const merged: Record<string, any> = { ...(options.existing ?? {}) };
+  for (const [name, value] of Object.entries(values)) {
+    if (value !== undefined) merged[name] = value;
+  }
+
+  for (const rule of schema.rules) {
+    if (rule.type === "requireOneOf") {
+      if ((!options.partial || options.existing) && rule.fields.every((name) => isEmpty(merged[name]))) {
+        errors.push({ field: rule.fields[0], message: rule.message });
+      }
+      continue;
+    }
+
+    if (rule.type === "dateOnOrAfter") {
+      const value = toDateValue(merged[rule.field]);
+      const other = toDateValue(merged[rule.otherField]);
+      if (
+        isValidDate(value) &&
+        isValidDate(other) &&
+        String(value).slice(0, 10) < String(other).slice(0, 10) &&
+        !errors.some((error) => error.field === rule.field)
+      ) {
+        errors.push({ field: rule.field, message: rule.message });
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ProductValidationError(errors);
+  }
+};
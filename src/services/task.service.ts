@@ -0,0 +1,68 @@
+import { emitToCounsellor } from "../config/socket";
+import { getTasksDueForReminder, markTaskRemindersSent } from "../models/task.model";
+
+/**
+ * Task Service
+ * Socket notifications for client follow-up tasks. Assignees listen on their own room.
+ * Notifications never throw - a failed emit must not fail the task change itself.
+ */
+
+interface TaskNotification {
+  taskId: number;
+  clientId: number;
+  clientName?: string | null;
+  title: string;
+  dueDate: Date | string;
+  assignedTo: number;
+  priority: string;
+  status: string;
+  source: string;
+}
+
+const toPayload = (task: TaskNotification) => ({
+  taskId: task.taskId,
+  clientId: task.clientId,
+  clientName: task.clientName ?? null,
+  title: task.title,
+  dueDate: task.dueDate,
+  priority: task.priority,
+  status: task.status,
+  source: task.source,
+});
+
+/**
+ * Tell the assignee a task was created for / assigned to them
+ */
+export const notifyTaskAssigned = (task: TaskNotification) => {
+  try {
+    emitToCounsellor(task.assignedTo, "task:assigned", toPayload(task));
+  } catch (wsError) {
+    console.error("WebSocket emit error in notifyTaskAssigned:", wsError);
+  }
+};
+
+/**
+ * Push a "task:reminder" to the assignee of every task coming due (once per task).
+ * Called by the task reminder cron in server.ts.
+ */
+export const sendDueTaskReminders = async (leadMinutes: number = 60) => {
+  const tasks = await getTasksDueForReminder(leadMinutes);
+  const now = Date.now();
+  const remindedIds: number[] = [];
+
+  for (const task of tasks) {
+    try {
+      emitToCounsellor(task.assignedTo, "task:reminder", {
+        ...toPayload(task),
+        overdue: new Date(task.dueDate).getTime() < now,
+      });
+      remindedIds.push(task.taskId);
+    } catch (wsError) {
+      console.error("WebSocket emit error in sendDueTaskReminders:", wsError);
+    }
+  }
+
+  await markTaskRemindersSent(remindedIds);
+
+  return remindedIds.length;
+};
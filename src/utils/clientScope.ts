@@ -0,0 +1,26 @@
+import { Request } from "express";
+import { eq } from "drizzle-orm";
+import { db } from "../config/databaseConnection";
+import { users } from "../schemas/users.schema";
+import { ClientListScope } from "../models/client.model";
+
+// Resolve the authenticated user's client scope: supervisor managers see everything, like admin
+export const resolveScope = async (req: Request): Promise<ClientListScope> => {
+  const scope: ClientListScope = { role: req.user!.role, userId: req.user!.id };
+
+  if (req.user!.role === "manager") {
+    const [manager] = await db
+      .select({ isSupervisor: users.isSupervisor })
+      .from(users)
+      .where(eq(users.id, req.user!.id))
+      .limit(1);
+
+    if (!manager) {
+      throw new Error("Manager not found");
+    }
+
+    scope.isSupervisor = manager.isSupervisor;
+  }
+
+  return scope;
+};
@@ -0,0 +1,301 @@
+import ExcelJS from "exceljs";
+import { Readable, Writable } from "stream";
+
+/**
+ * CSV / XLSX readers and streaming writers for imports and exports.
+ * Readers return the first sheet as rows of trimmed string cells (row 0 = header). Blank rows
+ * are kept (as empty arrays) so that indexes match the row numbers users see.
+ * XLSX files are read and written with exceljs. Date cells come back as Excel serial
+ * numbers; see excelSerialToDateString.
+ */
+
+export type SpreadsheetFormat = "csv" | "xlsx";
+
+/* ==============================
+   CSV (RFC 4180: quoted fields, "" escapes, CRLF or LF)
+============================== */
+export const parseCsv = (text: string): string[][] => {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field.trim());
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field.trim());
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error("Invalid CSV: unterminated quoted field");
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field.trim());
+    rows.push(row);
+  }
+
+  return rows.map((cells) => (cells.some((cell) => cell !== "") ? cells : []));
+};
+
+/* ==============================
+   XLSX
+   The first worksheet is streamed row by row and reading stops once maxRows is
+   passed, so a huge (or zip-bomb) sheet is rejected before it is held in memory.
+============================== */
+const xlsxCellText = (value: ExcelJS.CellValue): string => {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "boolean") return value ? "TRUE" : "FALSE";
+  if (value instanceof Date) return value.toISOString().split("T")[0];
+  if (typeof value !== "object") return String(value);
+  if ("richText" in value) return value.richText.map((part) => part.text).join("");
+  if ("formula" in value || "sharedFormula" in value) return xlsxCellText(value.result as ExcelJS.CellValue);
+  if ("hyperlink" in value) return xlsxCellText(value.text as ExcelJS.CellValue);
+  if ("error" in value) return "";
+  return String(value);
+};
+
+export const parseXlsx = async (buffer: Buffer, maxRows: number = Infinity): Promise<string[][]> => {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookReader(Readable.from(buffer), {
+    sharedStrings: "cache",
+    styles: "ignore",
+    hyperlinks: "ignore",
+    worksheets: "emit",
+    entries: "ignore",
+  });
+
+  const rows: string[][] = [];
+  let rowCount = 0;
+
+  try {
+    for await (const worksheet of workbook) {
+      for await (const row of worksheet) {
+        const cells = Array.from((row.values as ExcelJS.CellValue[]).slice(1), (value) => xlsxCellText(value).trim());
+        if (!cells.some((value) => value !== "")) continue;
+        if (++rowCount > maxRows) break;
+
+        // Rows are placed by their own number (empty rows may be missing or written without cells)
+        while (rows.length < row.number - 1) rows.push([]);
+        rows[row.number - 1] = cells;
+      }
+      break;
+    }
+  } catch (error: any) {
+    throw new Error(`Invalid XLSX file: ${error.message}`);
+  }
+
+  if (rowCount > maxRows) {
+    throw new Error(`Too many rows. Max ${maxRows} per file`);
+  }
+
+  return rows;
+};
+
+/**
+ * Detect the format from the file name / content type and parse it
+ */
+export const parseSpreadsheet = async (
+  content: Buffer,
+  fileName: string,
+  mimeType?: string,
+  maxRows?: number
+) => {
+  const name = fileName.toLowerCase();
+  const type = (mimeType || "").split(";")[0].trim().toLowerCase();
+
+  let format: SpreadsheetFormat;
+  if (name.endsWith(".xlsx") || type === "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet") {
+    format = "xlsx";
+  } else if (name.endsWith(".csv") || type === "text/csv") {
+    format = "csv";
+  } else {
+    throw new Error("Unsupported file type. Upload a .csv or .xlsx file");
+  }
+
+  const rows = format === "xlsx" ? await parseXlsx(content, maxRows) : parseCsv(content.toString("utf8"));
+
+  return { format, rows };
+};
+
+/**
+ * Excel stores dates as days since 1899-12-30. Returns YYYY-MM-DD, or null for non-serial values.
+ */
+export const excelSerialToDateString = (value: string) => {
+  if (!/^\d+(\.\d+)?$/.test(value)) return null;
+
+  const serial = Number(value);
+  // 1 = 1900-01-01 ... 2958465 = 9999-12-31
+  if (serial < 1 || serial > 2958465) return null;
+
+  const date = new Date(Date.UTC(1899, 11, 30) + Math.floor(serial) * 86400000);
+  return date.toISOString().split("T")[0];
+};
+
+export type SpreadsheetCell = string | number | boolean | Date | null | undefined;
+
+// Dates at UTC midnight come from date columns and are written without a time
+const isDateOnly = (value: Date) => value.getTime() % 86400000 === 0;
+
+// Text a spreadsheet app would run as a formula (CSV injection); quoted with a leading '
+const FORMULA_TRIGGER = /^[=+\-@\t\r]/;
+
+const cellText = (value: SpreadsheetCell) => {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) return "";
+    return isDateOnly(value) ? value.toISOString().split("T")[0] : value.toISOString();
+  }
+  return typeof value === "string" && FORMULA_TRIGGER.test(value) ? `'${value}` : String(value);
+};
+
+const csvLine = (row: SpreadsheetCell[]) =>
+  row
+    .map((value) => {
+      const text = cellText(value);
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    })
+    .join(",");
+
+/**
+ * Rows to CSV text (fields quoted when needed)
+ */
+export const toCsv = (rows: SpreadsheetCell[][]) => rows.map(csvLine).join("\r\n");
+
+/* ==============================
+   STREAMING WRITERS
+   Rows are written as they come, respecting the output's backpressure, so an export
+   never holds more than the current batch in memory.
+============================== */
+export interface SpreadsheetWriter {
+  writeRow(row: SpreadsheetCell[]): Promise<void>;
+  end(): Promise<void>;
+}
+
+export const SPREADSHEET_CONTENT_TYPES: Record<SpreadsheetFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+// Resolves on 'drain', rejects when the stream closes or fails first (e.g. the client went away)
+const waitForDrain = (stream: Writable) =>
+  new Promise<void>((resolve, reject) => {
+    const cleanup = () => {
+      stream.off("drain", onDrain);
+      stream.off("close", onClose);
+      stream.off("error", onError);
+    };
+    const onDrain = () => {
+      cleanup();
+      resolve();
+    };
+    const onClose = () => {
+      cleanup();
+      reject(new Error("Output stream closed"));
+    };
+    const onError = (error: Error) => {
+      cleanup();
+      reject(error);
+    };
+    stream.on("drain", onDrain);
+    stream.on("close", onClose);
+    stream.on("error", onError);
+  });
+
+const writeChunk = async (output: Writable, chunk: string | Buffer) => {
+  if (output.destroyed) {
+    throw new Error("Output stream closed");
+  }
+  if (!output.write(chunk)) {
+    await waitForDrain(output);
+  }
+};
+
+const createCsvWriter = (output: Writable): SpreadsheetWriter => {
+  let started = false;
+
+  return {
+    async writeRow(row) {
+      // BOM so Excel opens UTF-8 correctly
+      await writeChunk(output, `${started ? "\r\n" : "\ufeff"}${csvLine(row)}`);
+      started = true;
+    },
+    async end() {
+      output.end();
+    },
+  };
+};
+
+const createXlsxWriter = (output: Writable, sheetName: string): SpreadsheetWriter => {
+  // Styles are needed for the date number formats
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useStyles: true, useSharedStrings: false });
+  const sheet = workbook.addWorksheet(sheetName.slice(0, 31));
+
+  return {
+    async writeRow(row) {
+      if (output.destroyed) {
+        throw new Error("Output stream closed");
+      }
+
+      // Numbers, booleans and dates keep their type; Excel's text limit is 32767 characters
+      const added = sheet.addRow(row.map((value) =>
+        (typeof value === "number" && Number.isFinite(value)) ||
+        typeof value === "boolean" ||
+        (value instanceof Date && !Number.isNaN(value.getTime()))
+          ? value
+          : cellText(value).slice(0, 32767) || null
+      ));
+      row.forEach((value, index) => {
+        if (value instanceof Date && !Number.isNaN(value.getTime())) {
+          added.getCell(index + 1).numFmt = isDateOnly(value) ? "yyyy-mm-dd" : "yyyy-mm-dd hh:mm:ss";
+        }
+      });
+      added.commit();
+
+      if (output.writableNeedDrain) {
+        await waitForDrain(output);
+      }
+    },
+    async end() {
+      sheet.commit();
+      await workbook.commit();
+    },
+  };
+};
+
+/**
+ * Streaming writer for the given format. The caller sets the response headers
+ * (see SPREADSHEET_CONTENT_TYPES) and calls end() once all rows are written.
+ */
+export const createSpreadsheetWriter = (
+  format: SpreadsheetFormat,
+  output: Writable,
+  sheetName: string = "Export"
+): SpreadsheetWriter => (format === "xlsx" ? createXlsxWriter(output, sheetName) : createCsvWriter(output));
@@ -0,0 +1,23 @@
+/**
+ * Shared input validators
+ */
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Digits with an optional leading "+", spaces / dashes / brackets allowed as separators
+const PHONE_REGEX = /^\+?[0-9\s\-()]{7,20}$/;
+
+export const isValidEmail = (value: string) => EMAIL_REGEX.test(value) && value.length <= 150;
+
+export const isValidPhone = (value: string) =>
+  PHONE_REGEX.test(value) && value.replace(/\D/g, "").length >= 7;
+
+// Strict YYYY-MM-DD that is also a real calendar date
+export const isValidDateString = (value: string) => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+};
+
+// Escape LIKE / ILIKE wildcards (%, _ and the \ escape itself) so user input matches literally
+export const escapeLikePattern = (value: string) => value.replace(/[\\%_]/g, "\\$&");